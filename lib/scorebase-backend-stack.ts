@@ -6,6 +6,8 @@ import * as s3 from 'aws-cdk-lib/aws-s3';
 import * as cognito from 'aws-cdk-lib/aws-cognito';
 import * as lambda from 'aws-cdk-lib/aws-lambda';
 import * as apigateway from 'aws-cdk-lib/aws-apigateway';
+import * as apigatewayv2 from 'aws-cdk-lib/aws-apigatewayv2';
+import * as apigatewayv2Integrations from 'aws-cdk-lib/aws-apigatewayv2-integrations';
 import * as cloudwatch from 'aws-cdk-lib/aws-cloudwatch';
 import * as secretsmanager from 'aws-cdk-lib/aws-secretsmanager';
 import * as logs from 'aws-cdk-lib/aws-logs';
@@ -365,6 +367,7 @@ export class ScorebaseBackendStack extends cdk.Stack {
           'Authorization',
           'X-Api-Key',
           'X-Amz-Security-Token',
+          'Last-Event-ID',
         ],
         allowCredentials: true,
       },
@@ -505,6 +508,167 @@ export class ScorebaseBackendStack extends cdk.Stack {
       },
     });
 
+    // Game event streams (Server-Sent Events) are opened with a stream ticket
+    // query parameter, since EventSource can't set headers; the function checks
+    // it. Tickets are short-lived and open one game's stream, so no JWT ends up
+    // in logged URLs.
+    // Requests matching /games/{gameId} don't fall back to the root proxy, so
+    // the game's other routes are proxied here with the authorizer.
+    const gameResource = api.root.addResource('games').addResource('{gameId}');
+    gameResource.addMethod('ANY', lambdaIntegration, {
+      authorizer,
+      authorizationType: apigateway.AuthorizationType.COGNITO,
+    });
+    gameResource.addProxy({
+      defaultIntegration: lambdaIntegration,
+      anyMethod: true,
+      defaultMethodOptions: {
+        authorizer,
+        authorizationType: apigateway.AuthorizationType.COGNITO,
+      },
+    });
+    gameResource.addResource('stream').addMethod('GET', lambdaIntegration, {
+      authorizationType: apigateway.AuthorizationType.NONE,
+    });
+
+    // ========================================
+    // WebSocket API for live game updates
+    // ========================================
+    const connectionsTable = new dynamodb.Table(this, 'WebSocketConnectionsTable', {
+      tableName: 'scorebase-websocket-connections',
+      partitionKey: {
+        name: 'connection_id',
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      // Connections API Gateway never reported as closed expire on their own
+      timeToLiveAttribute: 'ttl',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    cdk.Tags.of(connectionsTable).add('Environment', environment);
+    cdk.Tags.of(connectionsTable).add('Feature', 'websocket');
+
+    // A connection's game, season, league and team subscriptions
+    const subscriptionsTable = new dynamodb.Table(this, 'WebSocketSubscriptionsTable', {
+      tableName: 'scorebase-websocket-subscriptions',
+      partitionKey: {
+        name: 'connection_id',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'scope_key',
+        type: dynamodb.AttributeType.STRING,
+      },
+      billingMode: dynamodb.BillingMode.PAY_PER_REQUEST,
+      encryption: dynamodb.TableEncryption.AWS_MANAGED,
+      timeToLiveAttribute: 'ttl',
+      removalPolicy: cdk.RemovalPolicy.DESTROY,
+    });
+
+    cdk.Tags.of(subscriptionsTable).add('Environment', environment);
+    cdk.Tags.of(subscriptionsTable).add('Feature', 'websocket');
+
+    // Add GSI for broadcast fan-out by scope
+    subscriptionsTable.addGlobalSecondaryIndex({
+      indexName: 'scope-subscriptions-index',
+      partitionKey: {
+        name: 'scope_key',
+        type: dynamodb.AttributeType.STRING,
+      },
+      sortKey: {
+        name: 'connection_id',
+        type: dynamodb.AttributeType.STRING,
+      },
+      projectionType: dynamodb.ProjectionType.ALL,
+    });
+
+    const webSocketApi = new apigatewayv2.WebSocketApi(this, 'ScoreBaseWebSocketAPI', {
+      apiName: 'ScoreBase WebSocket API',
+      description: 'Live game updates for scoreboard clients',
+      routeSelectionExpression: '$request.body.action',
+    });
+
+    cdk.Tags.of(webSocketApi).add('Environment', environment);
+    cdk.Tags.of(webSocketApi).add('Feature', 'websocket');
+
+    // Built from the API id rather than the stage so the handler's own
+    // environment doesn't depend on the routes that integrate it
+    const webSocketStageName = 'v1';
+    const webSocketCallbackUrl = `https://${webSocketApi.apiId}.execute-api.${this.region}.amazonaws.com/${webSocketStageName}`;
+
+    const webSocketFunction = new lambda.Function(this, 'ScoreBaseWebSocketFunction', {
+      functionName: 'scorebase-websocket',
+      runtime: lambda.Runtime.NODEJS_20_X,
+      handler: 'handlers/websocket-handler.handler',
+      code: lambda.Code.fromAsset('lambda-package'),
+      vpc,
+      vpcSubnets: {
+        subnetType: ec2.SubnetType.PRIVATE_WITH_EGRESS,
+      },
+      securityGroups: [lambdaSecurityGroup],
+      timeout: cdk.Duration.seconds(10),
+      memorySize: 512,
+      logRetention: logs.RetentionDays.ONE_MONTH,
+      environment: {
+        NODE_ENV: 'production',
+        DB_HOST: database.dbInstanceEndpointAddress,
+        DB_PORT: database.dbInstanceEndpointPort,
+        DB_NAME: 'scorebase',
+        DB_SECRET_ARN: dbCredentials.secretArn,
+        COGNITO_USER_POOL_ID: userPool.userPoolId,
+        USER_POOL_CLIENT_ID: userPoolClient.userPoolClientId,
+        WEBSOCKET_CONNECTIONS_TABLE_NAME: connectionsTable.tableName,
+        WEBSOCKET_SUBSCRIPTIONS_TABLE_NAME: subscriptionsTable.tableName,
+        WEBSOCKET_API_ENDPOINT: webSocketCallbackUrl,
+        AWS_NODEJS_CONNECTION_REUSE_ENABLED: '1',
+      },
+    });
+
+    cdk.Tags.of(webSocketFunction).add('Environment', environment);
+    cdk.Tags.of(webSocketFunction).add('Feature', 'websocket');
+
+    // The API function broadcasts to subscribers after each recorded event
+    apiFunction.addEnvironment('WEBSOCKET_CONNECTIONS_TABLE_NAME', connectionsTable.tableName);
+    apiFunction.addEnvironment('WEBSOCKET_SUBSCRIPTIONS_TABLE_NAME', subscriptionsTable.tableName);
+    apiFunction.addEnvironment('WEBSOCKET_API_ENDPOINT', webSocketCallbackUrl);
+
+    dbCredentials.grantRead(webSocketFunction);
+    connectionsTable.grantReadWriteData(webSocketFunction);
+    connectionsTable.grantReadWriteData(apiFunction);
+    subscriptionsTable.grantReadWriteData(webSocketFunction);
+    subscriptionsTable.grantReadWriteData(apiFunction);
+    webSocketApi.grantManageConnections(webSocketFunction);
+    webSocketApi.grantManageConnections(apiFunction);
+
+    const webSocketIntegration = new apigatewayv2Integrations.WebSocketLambdaIntegration(
+      'WebSocketIntegration',
+      webSocketFunction
+    );
+
+    // $connect authenticates with the JWT itself (token header or query parameter)
+    webSocketApi.addRoute('$connect', { integration: webSocketIntegration });
+    webSocketApi.addRoute('$disconnect', { integration: webSocketIntegration });
+    webSocketApi.addRoute('$default', { integration: webSocketIntegration });
+    webSocketApi.addRoute('subscribe', { integration: webSocketIntegration });
+    webSocketApi.addRoute('unsubscribe', { integration: webSocketIntegration });
+    webSocketApi.addRoute('resync', { integration: webSocketIntegration });
+    webSocketApi.addRoute('ping', { integration: webSocketIntegration });
+
+    const webSocketStage = new apigatewayv2.WebSocketStage(this, 'ScoreBaseWebSocketStage', {
+      webSocketApi,
+      stageName: webSocketStageName,
+      autoDeploy: true,
+      throttle: {
+        rateLimit: 500,
+        burstLimit: 1000,
+      },
+    });
+
+    cdk.Tags.of(webSocketStage).add('Environment', environment);
+    cdk.Tags.of(webSocketStage).add('Feature', 'websocket');
+
     // ========================================
     // CloudWatch Alarms
     // ========================================
@@ -681,6 +845,18 @@ export class ScorebaseBackendStack extends cdk.Stack {
       exportName: 'ScoreBaseEventTableName',
     });
 
+    new cdk.CfnOutput(this, 'WebSocketEndpoint', {
+      value: webSocketStage.url,
+      description: 'WebSocket API endpoint URL',
+      exportName: 'ScoreBaseWebSocketEndpoint',
+    });
+
+    new cdk.CfnOutput(this, 'WebSocketConnectionsTableName', {
+      value: connectionsTable.tableName,
+      description: 'DynamoDB WebSocket connections table name',
+      exportName: 'ScoreBaseWebSocketConnectionsTableName',
+    });
+
     new cdk.CfnOutput(this, 'EventArchiveBucketName', {
       value: eventArchiveBucket.bucketName,
       description: 'S3 event archive bucket name',
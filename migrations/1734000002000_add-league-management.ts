@@ -0,0 +1,32 @@
+/**
+ * League Management Migration (V003)
+ *
+ * Supports self-serve league creation, updates and archiving.
+ *
+ * Changes:
+ * - leagues.archived_at: Soft-delete marker for archived leagues
+ * - leagues_tenant_name_unique: League names are unique per tenant
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Add archived_at column to leagues
+  pgm.addColumn('leagues', {
+    archived_at: {
+      type: 'timestamp',
+    },
+  });
+
+  // Enforce unique league names within a tenant
+  pgm.addConstraint('leagues', 'leagues_tenant_name_unique', {
+    unique: ['tenant_id', 'name'],
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint('leagues', 'leagues_tenant_name_unique');
+  pgm.dropColumn('leagues', 'archived_at');
+}
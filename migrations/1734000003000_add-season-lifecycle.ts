@@ -0,0 +1,49 @@
+/**
+ * Season Lifecycle Migration (V004)
+ *
+ * Supports explicit activate/complete/reopen transitions for seasons.
+ *
+ * Changes:
+ * - seasons.completed_at: Set when a season is completed, cleared on reopen
+ * - idx_seasons_one_active_per_league: At most one active season per league
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Add completed_at column to seasons
+  pgm.addColumn('seasons', {
+    completed_at: {
+      type: 'timestamp',
+    },
+  });
+
+  // Keep only the latest-starting active season per league before indexing
+  pgm.sql(`
+    UPDATE seasons s
+    SET is_active = false
+    WHERE s.is_active = true
+      AND EXISTS (
+        SELECT 1 FROM seasons newer
+        WHERE newer.league_id = s.league_id
+          AND newer.is_active = true
+          AND (newer.start_date, newer.id) > (s.start_date, s.id)
+      )
+  `);
+
+  // Backstop for single-active-season enforcement in the repository
+  pgm.createIndex('seasons', 'league_id', {
+    name: 'idx_seasons_one_active_per_league',
+    unique: true,
+    where: 'is_active = true',
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropIndex('seasons', 'league_id', {
+    name: 'idx_seasons_one_active_per_league',
+  });
+  pgm.dropColumn('seasons', 'completed_at');
+}
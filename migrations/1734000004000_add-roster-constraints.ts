@@ -0,0 +1,43 @@
+/**
+ * Roster Constraints Migration (V005)
+ *
+ * Supports team and roster management through the API.
+ *
+ * Changes:
+ * - teams.abbreviation: Short team code (e.g., "LAL")
+ * - teams_league_abbreviation_unique: Abbreviations are unique per league
+ * - players_team_jersey_unique: Jersey numbers are unique per team roster
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Add abbreviation column to teams
+  pgm.addColumn(
+    'teams',
+    {
+      abbreviation: {
+        type: 'varchar(10)',
+      },
+    },
+    { ifNotExists: true }
+  );
+
+  // Enforce unique abbreviations within a league (NULLs are allowed)
+  pgm.addConstraint('teams', 'teams_league_abbreviation_unique', {
+    unique: ['league_id', 'abbreviation'],
+  });
+
+  // Enforce unique jersey numbers within a team (NULLs are allowed)
+  pgm.addConstraint('players', 'players_team_jersey_unique', {
+    unique: ['team_id', 'jersey_number'],
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint('players', 'players_team_jersey_unique');
+  pgm.dropConstraint('teams', 'teams_league_abbreviation_unique');
+  pgm.dropColumn('teams', 'abbreviation', { ifExists: true });
+}
@@ -0,0 +1,60 @@
+/**
+ * Standings Points Rules Migration (V006)
+ *
+ * Supports per-league standings points rules with per-season overrides.
+ *
+ * Changes:
+ * - leagues.points_rules: League-wide points rules (JSON, defaults apply when null)
+ * - seasons.points_rules: Season overrides merged over the league's rules
+ * - games.decided_in: How a final game was decided (regulation, overtime, shootout)
+ * - standings.ot_losses: Overtime/shootout losses, counted apart from losses
+ * - standings.bonus_points: Bonus points included in points
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Add points rules to leagues and seasons
+  pgm.addColumn('leagues', {
+    points_rules: {
+      type: 'jsonb',
+    },
+  });
+  pgm.addColumn('seasons', {
+    points_rules: {
+      type: 'jsonb',
+    },
+  });
+
+  // Record how final games were decided; existing final games were regulation
+  pgm.addColumn('games', {
+    decided_in: {
+      type: 'varchar(20)',
+      check: "decided_in IN ('regulation', 'overtime', 'shootout')",
+    },
+  });
+  pgm.sql(`UPDATE games SET decided_in = 'regulation' WHERE status = 'final'`);
+
+  // Add overtime loss and bonus point columns to standings
+  pgm.addColumns('standings', {
+    ot_losses: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+    bonus_points: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+    },
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropColumns('standings', ['ot_losses', 'bonus_points']);
+  pgm.dropColumn('games', 'decided_in');
+  pgm.dropColumn('seasons', 'points_rules');
+  pgm.dropColumn('leagues', 'points_rules');
+}
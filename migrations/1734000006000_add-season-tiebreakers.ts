@@ -0,0 +1,24 @@
+/**
+ * Season Tiebreakers Migration (V007)
+ *
+ * Supports a configurable standings tiebreaker chain per season.
+ *
+ * Changes:
+ * - seasons.tiebreakers: Ordered tiebreaker chain (JSON array, defaults apply when null)
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.addColumn('seasons', {
+    tiebreakers: {
+      type: 'jsonb',
+    },
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropColumn('seasons', 'tiebreakers');
+}
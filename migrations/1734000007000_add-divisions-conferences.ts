@@ -0,0 +1,128 @@
+/**
+ * Divisions and Conferences Migration (V008)
+ *
+ * Supports splitting a season's teams into conferences and divisions so
+ * standings can be ranked within each group.
+ *
+ * Changes:
+ * - conferences: Season-scoped conferences
+ * - divisions: Season-scoped divisions, optionally inside a conference
+ * - division_teams: Team membership per season (a team is in at most one
+ *   division per season)
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create conferences table
+  pgm.createTable('conferences', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    season_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'seasons(id)',
+      onDelete: 'CASCADE',
+    },
+    name: {
+      type: 'varchar(255)',
+      notNull: true,
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  pgm.addConstraint('conferences', 'conferences_season_name_unique', {
+    unique: ['season_id', 'name'],
+  });
+
+  // Create divisions table
+  pgm.createTable('divisions', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    season_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'seasons(id)',
+      onDelete: 'CASCADE',
+    },
+    conference_id: {
+      type: 'uuid',
+      references: 'conferences(id)',
+      onDelete: 'SET NULL',
+    },
+    name: {
+      type: 'varchar(255)',
+      notNull: true,
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  pgm.addConstraint('divisions', 'divisions_season_name_unique', {
+    unique: ['season_id', 'name'],
+  });
+  pgm.createIndex('divisions', 'conference_id');
+
+  // Create division membership table; the primary key keeps a team in one
+  // division per season
+  pgm.createTable('division_teams', {
+    season_id: {
+      type: 'uuid',
+      notNull: true,
+      primaryKey: true,
+      references: 'seasons(id)',
+      onDelete: 'CASCADE',
+    },
+    team_id: {
+      type: 'uuid',
+      notNull: true,
+      primaryKey: true,
+      references: 'teams(id)',
+      onDelete: 'CASCADE',
+    },
+    division_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'divisions(id)',
+      onDelete: 'CASCADE',
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  pgm.createIndex('division_teams', 'division_id');
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropTable('division_teams');
+  pgm.dropTable('divisions');
+  pgm.dropTable('conferences');
+}
@@ -0,0 +1,145 @@
+/**
+ * Playoff Brackets Migration (V009)
+ *
+ * Supports single and double elimination playoff brackets with best-of-N
+ * series, played as regular games.
+ *
+ * Changes:
+ * - brackets: One bracket per season with its format, series length and seeds
+ * - bracket_series: Series structure (where each slot's team comes from)
+ * - games.bracket_series_id: Series a playoff game belongs to (null for
+ *   regular season games)
+ * - games.series_game_number: Game number within the series, unique per series
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  // Create brackets table
+  pgm.createTable('brackets', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    season_id: {
+      type: 'uuid',
+      notNull: true,
+      unique: true,
+      references: 'seasons(id)',
+      onDelete: 'CASCADE',
+    },
+    format: {
+      type: 'varchar(30)',
+      notNull: true,
+      check: "format IN ('single_elimination', 'double_elimination')",
+    },
+    best_of: {
+      type: 'integer',
+      notNull: true,
+      default: 1,
+      check: 'best_of > 0 AND best_of % 2 = 1',
+    },
+    seeds: {
+      type: 'jsonb',
+      notNull: true,
+    },
+    starts_at: {
+      type: 'timestamp',
+      notNull: true,
+    },
+    game_interval_hours: {
+      type: 'integer',
+      notNull: true,
+      default: 24,
+    },
+    location: {
+      type: 'varchar(255)',
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  // Create bracket_series table
+  pgm.createTable('bracket_series', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    bracket_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'brackets(id)',
+      onDelete: 'CASCADE',
+    },
+    key: {
+      type: 'varchar(10)',
+      notNull: true,
+    },
+    side: {
+      type: 'varchar(10)',
+      notNull: true,
+      check: "side IN ('winners', 'losers', 'final')",
+    },
+    round: {
+      type: 'integer',
+      notNull: true,
+    },
+    position: {
+      type: 'integer',
+      notNull: true,
+    },
+    home_source: {
+      type: 'jsonb',
+      notNull: true,
+    },
+    away_source: {
+      type: 'jsonb',
+      notNull: true,
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  pgm.addConstraint('bracket_series', 'bracket_series_bracket_key_unique', {
+    unique: ['bracket_id', 'key'],
+  });
+
+  // Link playoff games to their series; deleting a bracket removes its games
+  pgm.addColumns('games', {
+    bracket_series_id: {
+      type: 'uuid',
+      references: 'bracket_series(id)',
+      onDelete: 'CASCADE',
+    },
+    series_game_number: {
+      type: 'integer',
+    },
+  });
+
+  // Concurrent advancement can plan the same game twice; only one is created
+  pgm.addConstraint('games', 'games_series_game_number_unique', {
+    unique: ['bracket_series_id', 'series_game_number'],
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint('games', 'games_series_game_number_unique');
+  pgm.dropColumns('games', ['bracket_series_id', 'series_game_number']);
+  pgm.dropTable('bracket_series');
+  pgm.dropTable('brackets');
+}
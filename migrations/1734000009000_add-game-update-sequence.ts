@@ -0,0 +1,27 @@
+/**
+ * Game Update Sequence Migration (V010)
+ *
+ * Supports delta-encoded live updates that clients can check for gaps.
+ *
+ * Changes:
+ * - games.update_sequence: Per-game counter advanced with every applied or
+ *   reversed event; live updates and snapshots carry it
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.addColumn('games', {
+    update_sequence: {
+      type: 'bigint',
+      notNull: true,
+      default: 0,
+    },
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropColumn('games', 'update_sequence');
+}
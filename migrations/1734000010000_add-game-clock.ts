@@ -0,0 +1,45 @@
+/**
+ * Game Clock Migration (V011)
+ *
+ * Tracks the period and game clock so snapshots show the live scoreboard.
+ *
+ * Changes:
+ * - games.period: Current period, starting at 1
+ * - games.clock_seconds: Seconds left on the clock when it was last anchored
+ * - games.clock_running: Whether the clock is counting down
+ * - games.clock_anchored_at: When a running clock was last started or set;
+ *   null while it is stopped
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.addColumns('games', {
+    period: {
+      type: 'integer',
+      notNull: true,
+      default: 1,
+      check: 'period > 0',
+    },
+    clock_seconds: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'clock_seconds >= 0',
+    },
+    clock_running: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+    clock_anchored_at: {
+      type: 'timestamp',
+    },
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropColumns('games', ['period', 'clock_seconds', 'clock_running', 'clock_anchored_at']);
+}
@@ -0,0 +1,35 @@
+/**
+ * Active Penalties Migration (V012)
+ *
+ * Tracks penalties being served so snapshots can show power plays.
+ *
+ * Changes:
+ * - games.elapsed_seconds: Game time played when the clock was last anchored,
+ *   the timeline penalty start and expiry times are measured on
+ * - games.active_penalties: Penalties being served, with their start and
+ *   expiry in game time
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.addColumns('games', {
+    elapsed_seconds: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'elapsed_seconds >= 0',
+    },
+    active_penalties: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'[]'::jsonb"),
+    },
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropColumns('games', ['elapsed_seconds', 'active_penalties']);
+}
@@ -0,0 +1,39 @@
+/**
+ * Game Shots Migration (V013)
+ *
+ * Tracks shots on goal so snapshots can show them next to the score.
+ *
+ * Changes:
+ * - games.home_shots / games.away_shots: Shots on goal by each team
+ * - games.shots_by_period: Each team's shots on goal in each period
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.addColumns('games', {
+    home_shots: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'home_shots >= 0',
+    },
+    away_shots: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'away_shots >= 0',
+    },
+    shots_by_period: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'[]'::jsonb"),
+    },
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropColumns('games', ['home_shots', 'away_shots', 'shots_by_period']);
+}
@@ -0,0 +1,85 @@
+/**
+ * Player Game Stats Migration (V014)
+ *
+ * Projects scoring events into per-game player statistics for box scores.
+ *
+ * Changes:
+ * - player_game_stats: One row per player with a goal, assist, shot or
+ *   penalty in a game, maintained as events are applied and reversed
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.createTable('player_game_stats', {
+    id: {
+      type: 'uuid',
+      primaryKey: true,
+      default: pgm.func('uuid_generate_v4()'),
+    },
+    game_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'games(id)',
+      onDelete: 'CASCADE',
+    },
+    player_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'players(id)',
+      onDelete: 'CASCADE',
+    },
+    team_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'teams(id)',
+      onDelete: 'CASCADE',
+    },
+    goals: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'goals >= 0',
+    },
+    assists: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'assists >= 0',
+    },
+    shots: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'shots >= 0',
+    },
+    penalty_minutes: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'penalty_minutes >= 0',
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+    updated_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  pgm.addConstraint('player_game_stats', 'uq_player_game_stats_game_player', {
+    unique: ['game_id', 'player_id'],
+  });
+
+  pgm.createIndex('player_game_stats', 'player_id');
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropTable('player_game_stats', { cascade: true });
+}
@@ -0,0 +1,87 @@
+/**
+ * Goalie Stats Migration (V015)
+ *
+ * Tracks the goalie in net for each team and projects goaltending stats.
+ *
+ * Changes:
+ * - games.home_goalie_id / games.away_goalie_id: Goalie in each team's net
+ *   (null for an empty net)
+ * - games.home_goalie_since / games.away_goalie_since: Game time the goalie
+ *   went in
+ * - player_game_stats.played_goalie: Whether the player was in net
+ * - player_game_stats.shots_against / goals_against: Shots and goals faced
+ * - player_game_stats.goalie_seconds: Game time played in net, credited when
+ *   the goalie comes out or the game is finalized
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.addColumns('games', {
+    home_goalie_id: {
+      type: 'uuid',
+      references: 'players(id)',
+      onDelete: 'SET NULL',
+    },
+    away_goalie_id: {
+      type: 'uuid',
+      references: 'players(id)',
+      onDelete: 'SET NULL',
+    },
+    home_goalie_since: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'home_goalie_since >= 0',
+    },
+    away_goalie_since: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'away_goalie_since >= 0',
+    },
+  });
+
+  pgm.addColumns('player_game_stats', {
+    played_goalie: {
+      type: 'boolean',
+      notNull: true,
+      default: false,
+    },
+    shots_against: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'shots_against >= 0',
+    },
+    goals_against: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'goals_against >= 0',
+    },
+    goalie_seconds: {
+      type: 'integer',
+      notNull: true,
+      default: 0,
+      check: 'goalie_seconds >= 0',
+    },
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropColumns('player_game_stats', [
+    'played_goalie',
+    'shots_against',
+    'goals_against',
+    'goalie_seconds',
+  ]);
+  pgm.dropColumns('games', [
+    'home_goalie_id',
+    'away_goalie_id',
+    'home_goalie_since',
+    'away_goalie_since',
+  ]);
+}
@@ -0,0 +1,28 @@
+/**
+ * Released Penalties Migration (V016)
+ *
+ * Remembers the penalties power-play goals released, so reversing the goal
+ * can put the penalty back.
+ *
+ * Changes:
+ * - games.released_penalties: Each released penalty as it was before the
+ *   goal, with the goal's event_id
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.addColumn('games', {
+    released_penalties: {
+      type: 'jsonb',
+      notNull: true,
+      default: pgm.func("'[]'::jsonb"),
+    },
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropColumn('games', 'released_penalties');
+}
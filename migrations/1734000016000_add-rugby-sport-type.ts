@@ -0,0 +1,26 @@
+/**
+ * Rugby Sport Type Migration (V017)
+ *
+ * Lets leagues play rugby.
+ *
+ * Changes:
+ * - leagues.sport_type: Accepts 'rugby'
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint('leagues', 'leagues_sport_type_check');
+  pgm.addConstraint('leagues', 'leagues_sport_type_check', {
+    check: "sport_type IN ('basketball', 'soccer', 'hockey', 'baseball', 'football', 'rugby')",
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint('leagues', 'leagues_sport_type_check');
+  pgm.addConstraint('leagues', 'leagues_sport_type_check', {
+    check: "sport_type IN ('basketball', 'soccer', 'hockey', 'baseball', 'football')",
+  });
+}
@@ -0,0 +1,57 @@
+/**
+ * Stream Tickets Migration (V018)
+ *
+ * Lets browser clients open a game's event stream without putting their
+ * JWT in the URL, where API Gateway and CloudWatch would log it.
+ *
+ * Changes:
+ * - stream_tickets: Short-lived tickets for one game's stream, issued to an
+ *   authenticated user and accepted in place of their JWT
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.createTable('stream_tickets', {
+    ticket: {
+      type: 'varchar(64)',
+      primaryKey: true,
+    },
+    tenant_id: {
+      type: 'uuid',
+      notNull: true,
+    },
+    game_id: {
+      type: 'uuid',
+      notNull: true,
+      references: 'games(id)',
+      onDelete: 'CASCADE',
+    },
+    user_id: {
+      type: 'varchar(255)',
+      notNull: true,
+    },
+    roles: {
+      type: 'text[]',
+      notNull: true,
+      default: pgm.func("'{}'"),
+    },
+    expires_at: {
+      type: 'timestamp',
+      notNull: true,
+    },
+    created_at: {
+      type: 'timestamp',
+      notNull: true,
+      default: pgm.func('NOW()'),
+    },
+  });
+
+  pgm.createIndex('stream_tickets', 'expires_at');
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropTable('stream_tickets');
+}
@@ -0,0 +1,33 @@
+/**
+ * Active League Names Migration (V019)
+ *
+ * Lets a tenant reuse the name of a league it has archived.
+ *
+ * Changes:
+ * - leagues_tenant_name_unique: Replaced by idx_leagues_tenant_name_active
+ * - idx_leagues_tenant_name_active: League names are unique per tenant among
+ *   leagues that aren't archived
+ */
+
+import { MigrationBuilder, ColumnDefinitions } from 'node-pg-migrate';
+
+export const shorthands: ColumnDefinitions | undefined = undefined;
+
+export async function up(pgm: MigrationBuilder): Promise<void> {
+  pgm.dropConstraint('leagues', 'leagues_tenant_name_unique');
+  pgm.createIndex('leagues', ['tenant_id', 'name'], {
+    name: 'idx_leagues_tenant_name_active',
+    unique: true,
+    where: 'archived_at IS NULL',
+  });
+}
+
+export async function down(pgm: MigrationBuilder): Promise<void> {
+  // Fails if an archived league shares its name with another of the tenant's leagues
+  pgm.dropIndex('leagues', ['tenant_id', 'name'], {
+    name: 'idx_leagues_tenant_name_active',
+  });
+  pgm.addConstraint('leagues', 'leagues_tenant_name_unique', {
+    unique: ['tenant_id', 'name'],
+  });
+}
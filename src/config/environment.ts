@@ -15,6 +15,7 @@ export interface EnvironmentConfig {
   // DynamoDB configuration
   dynamodbTableName: string;
   websocketConnectionsTableName: string;
+  websocketSubscriptionsTableName: string;
 
   // S3 configuration
   s3ArchiveBucket: string;
@@ -25,6 +26,9 @@ export interface EnvironmentConfig {
   // WebSocket configuration
   websocketApiEndpoint?: string;
 
+  // Scheduling configuration
+  gameConflictWindowMinutes: number;
+
   // Application configuration
   logLevel: string;
   nodeEnv: string;
@@ -41,9 +45,12 @@ export function loadEnvironmentConfig(): EnvironmentConfig {
     dbSecretArn: process.env.DB_SECRET_ARN || '',
     dynamodbTableName: process.env.DYNAMODB_TABLE_NAME || '',
     websocketConnectionsTableName: process.env.WEBSOCKET_CONNECTIONS_TABLE_NAME || 'scorebase-websocket-connections',
+    websocketSubscriptionsTableName:
+      process.env.WEBSOCKET_SUBSCRIPTIONS_TABLE_NAME || 'scorebase-websocket-subscriptions',
     s3ArchiveBucket: process.env.S3_ARCHIVE_BUCKET || '',
     cognitoUserPoolId: process.env.COGNITO_USER_POOL_ID || '',
     websocketApiEndpoint: process.env.WEBSOCKET_API_ENDPOINT,
+    gameConflictWindowMinutes: parseInt(process.env.GAME_CONFLICT_WINDOW_MINUTES || '180', 10),
     logLevel: process.env.LOG_LEVEL || 'info',
     nodeEnv: process.env.NODE_ENV || 'development',
   };
@@ -13,11 +13,15 @@ import { handleError } from '../middleware/error-handler';
 import { BadRequestError } from '../models/errors';
 import {
   successResponse,
+  eventStreamResponse,
   authorizationErrorResponse,
   notFoundErrorResponse,
   generateRequestId,
 } from '../utils/response-formatter';
-import { HttpStatus } from '../models/response';
+import { HttpStatus, ServerSentEvent } from '../models/response';
+import { EventMetadata, GameEvent } from '../models/event';
+import { AuthContext } from '../models/auth';
+import { WebSocketMessage, STREAM_RETRY_MILLISECONDS } from '../models/websocket';
 import { loadEnvironmentConfig } from '../config/environment';
 import { logRequest, logAuthorization } from '../utils/logger';
 
@@ -32,6 +36,12 @@ import { PlayerService } from '../services/player-service';
 import { GameService } from '../services/game-service';
 import { EventService } from '../services/event-service';
 import { StandingsService } from '../services/standings-service';
+import { DivisionService } from '../services/division-service';
+import { BracketService } from '../services/bracket-service';
+import { SnapshotService } from '../services/snapshot-service';
+import { BroadcastService } from '../services/broadcast-service';
+import { PlayerStatsService } from '../services/player-stats-service';
+import { StreamTicketService } from '../services/stream-ticket-service';
 
 // Import repositories
 import { LeagueRepository } from '../repositories/league-repository';
@@ -40,6 +50,12 @@ import { TeamRepository } from '../repositories/team-repository';
 import { PlayerRepository } from '../repositories/player-repository';
 import { GameRepository } from '../repositories/game-repository';
 import { StandingsRepository } from '../repositories/standings-repository';
+import { DivisionRepository } from '../repositories/division-repository';
+import { BracketRepository } from '../repositories/bracket-repository';
+import { EventRepository } from '../repositories/event-repository';
+import { ConnectionRepository } from '../repositories/connection-repository';
+import { PlayerStatsRepository } from '../repositories/player-stats-repository';
+import { StreamTicketRepository } from '../repositories/stream-ticket-repository';
 
 /**
  * Route handler function type
@@ -60,6 +76,9 @@ interface Route {
   pathPattern: RegExp;
   handler: RouteHandler;
   requiredRole?: string;
+  // Also accept a stream ticket for the path's game as a ticket query
+  // parameter, for clients that can't set headers (e.g. browser EventSource)
+  acceptsStreamTicket?: boolean;
 }
 
 /**
@@ -72,7 +91,12 @@ let services: {
   playerService: PlayerService;
   gameService: GameService;
   eventService: EventService;
+  snapshotService: SnapshotService;
   standingsService: StandingsService;
+  divisionService: DivisionService;
+  bracketService: BracketService;
+  playerStatsService: PlayerStatsService;
+  streamTicketService: StreamTicketService;
 } | null = null;
 
 function getServices() {
@@ -84,6 +108,27 @@ function getServices() {
     const playerRepository = new PlayerRepository();
     const gameRepository = new GameRepository();
     const standingsRepository = new StandingsRepository();
+    const divisionRepository = new DivisionRepository();
+    const bracketRepository = new BracketRepository();
+    const eventRepository = new EventRepository();
+    const connectionRepository = new ConnectionRepository();
+    const playerStatsRepository = new PlayerStatsRepository();
+    const streamTicketRepository = new StreamTicketRepository();
+
+    const standingsService = new StandingsService(
+      standingsRepository,
+      seasonRepository,
+      gameRepository,
+      divisionRepository,
+      teamRepository
+    );
+    const snapshotService = new SnapshotService(gameRepository);
+    const bracketService = new BracketService(
+      bracketRepository,
+      gameRepository,
+      seasonRepository,
+      standingsService
+    );
 
     // Initialize services
     services = {
@@ -91,14 +136,31 @@ function getServices() {
       seasonService: new SeasonService(seasonRepository),
       teamService: new TeamService(teamRepository),
       playerService: new PlayerService(playerRepository),
-      gameService: new GameService(gameRepository),
-      eventService: new EventService(
+      gameService: new GameService(
         gameRepository,
         seasonRepository,
         teamRepository,
-        standingsRepository
+        loadEnvironmentConfig().gameConflictWindowMinutes
+      ),
+      eventService: new EventService(
+        gameRepository,
+        seasonRepository,
+        eventRepository,
+        snapshotService,
+        new BroadcastService(connectionRepository),
+        bracketService
       ),
-      standingsService: new StandingsService(standingsRepository),
+      snapshotService,
+      standingsService,
+      divisionService: new DivisionService(divisionRepository, seasonRepository),
+      bracketService,
+      playerStatsService: new PlayerStatsService(
+        playerStatsRepository,
+        gameRepository,
+        seasonRepository,
+        playerRepository
+      ),
+      streamTicketService: new StreamTicketService(streamTicketRepository),
     };
   }
 
@@ -138,6 +200,17 @@ function parseBody(event: APIGatewayProxyEvent): any {
   }
 }
 
+/**
+ * Build audit metadata for events recorded through the API
+ */
+function eventMetadata(event: APIGatewayProxyEvent, userId: string): EventMetadata {
+  return {
+    user_id: userId,
+    source: 'api',
+    ip_address: event.requestContext?.identity?.sourceIp || 'unknown',
+  };
+}
+
 /**
  * Route handlers
  */
@@ -169,6 +242,49 @@ async function getLeagueById(
   return successResponse({ league }, HttpStatus.OK, undefined, requestId);
 }
 
+// POST /v1/leagues
+async function createLeague(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { leagueService } = getServices();
+  const body = parseBody(event);
+  const league = await leagueService.createLeague(tenantId, body);
+  return successResponse({ league }, HttpStatus.CREATED, undefined, requestId);
+}
+
+// PATCH /v1/leagues/{leagueId}
+async function updateLeague(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { leagueService } = getServices();
+  const leagueId = getPathParameter(event, 'leagueId');
+  const body = parseBody(event);
+  const league = await leagueService.updateLeague(tenantId, leagueId, body);
+  return successResponse({ league }, HttpStatus.OK, undefined, requestId);
+}
+
+// DELETE /v1/leagues/{leagueId} (archives the league)
+async function archiveLeague(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { leagueService } = getServices();
+  const leagueId = getPathParameter(event, 'leagueId');
+  const league = await leagueService.archiveLeague(tenantId, leagueId);
+  return successResponse({ league }, HttpStatus.OK, undefined, requestId);
+}
+
 // GET /v1/leagues/{leagueId}/seasons
 async function getSeasonsByLeague(
   event: APIGatewayProxyEvent,
@@ -197,6 +313,78 @@ async function getSeasonById(
   return successResponse({ season }, HttpStatus.OK, undefined, requestId);
 }
 
+// POST /v1/leagues/{leagueId}/seasons
+async function createSeason(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { seasonService } = getServices();
+  const leagueId = getPathParameter(event, 'leagueId');
+  const body = parseBody(event);
+  const season = await seasonService.createSeason(tenantId, leagueId, body);
+  return successResponse({ season }, HttpStatus.CREATED, undefined, requestId);
+}
+
+// PATCH /v1/seasons/{seasonId}
+async function updateSeason(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { seasonService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const body = parseBody(event);
+  const season = await seasonService.updateSeason(tenantId, seasonId, body);
+  return successResponse({ season }, HttpStatus.OK, undefined, requestId);
+}
+
+// POST /v1/seasons/{seasonId}/activate
+async function activateSeason(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { seasonService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const season = await seasonService.activateSeason(tenantId, seasonId);
+  return successResponse({ season }, HttpStatus.OK, undefined, requestId);
+}
+
+// POST /v1/seasons/{seasonId}/complete
+async function completeSeason(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { seasonService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const season = await seasonService.completeSeason(tenantId, seasonId);
+  return successResponse({ season }, HttpStatus.OK, undefined, requestId);
+}
+
+// POST /v1/seasons/{seasonId}/reopen
+async function reopenSeason(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { seasonService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const season = await seasonService.reopenSeason(tenantId, seasonId);
+  return successResponse({ season }, HttpStatus.OK, undefined, requestId);
+}
+
 // GET /v1/seasons/{seasonId}/games
 async function getGamesBySeason(
   event: APIGatewayProxyEvent,
@@ -229,6 +417,37 @@ async function getGamesBySeason(
   return successResponse({ games }, HttpStatus.OK, undefined, requestId);
 }
 
+// POST /v1/seasons/{seasonId}/games
+async function scheduleGame(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { gameService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const body = parseBody(event);
+  const game = await gameService.scheduleGame(tenantId, seasonId, body);
+  return successResponse({ game }, HttpStatus.CREATED, undefined, requestId);
+}
+
+// POST /v1/seasons/{seasonId}/schedule/generate
+async function generateSchedule(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { gameService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const body = parseBody(event);
+  const schedule = await gameService.generateSchedule(tenantId, seasonId, body);
+  const status = schedule.dry_run ? HttpStatus.OK : HttpStatus.CREATED;
+  return successResponse({ schedule }, status, undefined, requestId);
+}
+
 // GET /v1/seasons/{seasonId}/standings
 async function getStandingsBySeason(
   event: APIGatewayProxyEvent,
@@ -239,10 +458,252 @@ async function getStandingsBySeason(
 ): Promise<APIGatewayProxyResult> {
   const { standingsService } = getServices();
   const seasonId = getPathParameter(event, 'seasonId');
-  const standings = await standingsService.getStandingsBySeason(tenantId, seasonId);
+  const groupBy = getQueryParameter(event, 'groupBy');
+  const asOf = getQueryParameter(event, 'asOf');
+
+  if (asOf !== undefined) {
+    if (groupBy !== undefined) {
+      throw new BadRequestError('asOf cannot be combined with groupBy');
+    }
+
+    const standings = await standingsService.getStandingsAsOf(tenantId, seasonId, asOf);
+    return successResponse({ standings }, HttpStatus.OK, undefined, requestId);
+  }
+
+  if (groupBy === undefined) {
+    const standings = await standingsService.getStandingsBySeason(tenantId, seasonId);
+    return successResponse({ standings }, HttpStatus.OK, undefined, requestId);
+  }
+
+  if (groupBy !== 'division' && groupBy !== 'conference') {
+    throw new BadRequestError('groupBy must be "division" or "conference"');
+  }
+
+  const groups = await standingsService.getGroupedStandings(tenantId, seasonId, groupBy);
+  return successResponse({ groups }, HttpStatus.OK, undefined, requestId);
+}
+
+// GET /v1/seasons/{seasonId}/leaders
+async function getSeasonLeaders(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { playerStatsService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const leaders = await playerStatsService.getSeasonLeaders(tenantId, seasonId, {
+    stat: getQueryParameter(event, 'stat'),
+    minGamesPlayed: getQueryParameter(event, 'minGamesPlayed'),
+    limit: getQueryParameter(event, 'limit'),
+  });
+  return successResponse({ leaders }, HttpStatus.OK, undefined, requestId);
+}
+
+// GET /v1/seasons/{seasonId}/standings/movement
+async function getStandingsMovement(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { standingsService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const movement = await standingsService.getRankMovement(tenantId, seasonId);
+  return successResponse({ movement }, HttpStatus.OK, undefined, requestId);
+}
+
+// POST /v1/seasons/{seasonId}/standings/recalculate
+async function recalculateStandings(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { standingsService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const standings = await standingsService.recalculateStandings(tenantId, seasonId);
   return successResponse({ standings }, HttpStatus.OK, undefined, requestId);
 }
 
+// GET /v1/seasons/{seasonId}/standings/audit
+async function auditStandings(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { standingsService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const audit = await standingsService.auditStandings(tenantId, seasonId);
+  return successResponse({ audit }, HttpStatus.OK, undefined, requestId);
+}
+
+// POST /v1/seasons/{seasonId}/standings/audit
+async function repairStandings(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { standingsService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const audit = await standingsService.auditStandings(tenantId, seasonId, true);
+  return successResponse({ audit }, HttpStatus.OK, undefined, requestId);
+}
+
+// GET /v1/seasons/{seasonId}/bracket
+async function getBracket(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { bracketService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const bracket = await bracketService.getBracket(tenantId, seasonId);
+  return successResponse({ bracket }, HttpStatus.OK, undefined, requestId);
+}
+
+// POST /v1/seasons/{seasonId}/bracket
+async function createBracket(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { bracketService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const body = parseBody(event);
+  const bracket = await bracketService.createBracket(tenantId, seasonId, body);
+  return successResponse({ bracket }, HttpStatus.CREATED, undefined, requestId);
+}
+
+// GET /v1/seasons/{seasonId}/conferences
+async function getConferencesBySeason(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { divisionService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const conferences = await divisionService.getConferencesBySeason(tenantId, seasonId);
+  return successResponse({ conferences }, HttpStatus.OK, undefined, requestId);
+}
+
+// POST /v1/seasons/{seasonId}/conferences
+async function createConference(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { divisionService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const body = parseBody(event);
+  const conference = await divisionService.createConference(tenantId, seasonId, body);
+  return successResponse({ conference }, HttpStatus.CREATED, undefined, requestId);
+}
+
+// DELETE /v1/seasons/{seasonId}/conferences/{conferenceId}
+async function removeConference(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { divisionService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const conferenceId = getPathParameter(event, 'conferenceId');
+  await divisionService.removeConference(tenantId, seasonId, conferenceId);
+  return successResponse({ conference_id: conferenceId, deleted: true }, HttpStatus.OK, undefined, requestId);
+}
+
+// GET /v1/seasons/{seasonId}/divisions
+async function getDivisionsBySeason(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { divisionService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const divisions = await divisionService.getDivisionsBySeason(tenantId, seasonId);
+  return successResponse({ divisions }, HttpStatus.OK, undefined, requestId);
+}
+
+// POST /v1/seasons/{seasonId}/divisions
+async function createDivision(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { divisionService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const body = parseBody(event);
+  const division = await divisionService.createDivision(tenantId, seasonId, body);
+  return successResponse({ division }, HttpStatus.CREATED, undefined, requestId);
+}
+
+// DELETE /v1/seasons/{seasonId}/divisions/{divisionId}
+async function removeDivision(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { divisionService } = getServices();
+  const seasonId = getPathParameter(event, 'seasonId');
+  const divisionId = getPathParameter(event, 'divisionId');
+  await divisionService.removeDivision(tenantId, seasonId, divisionId);
+  return successResponse({ division_id: divisionId, deleted: true }, HttpStatus.OK, undefined, requestId);
+}
+
+// POST /v1/divisions/{divisionId}/teams
+async function assignDivisionTeam(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { divisionService } = getServices();
+  const divisionId = getPathParameter(event, 'divisionId');
+  const body = parseBody(event);
+  const division = await divisionService.assignTeam(tenantId, divisionId, body);
+  return successResponse({ division }, HttpStatus.OK, undefined, requestId);
+}
+
+// DELETE /v1/divisions/{divisionId}/teams/{teamId}
+async function removeDivisionTeam(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { divisionService } = getServices();
+  const divisionId = getPathParameter(event, 'divisionId');
+  const teamId = getPathParameter(event, 'teamId');
+  await divisionService.removeTeam(tenantId, divisionId, teamId);
+  return successResponse({ division_id: divisionId, team_id: teamId, deleted: true }, HttpStatus.OK, undefined, requestId);
+}
+
 // GET /v1/leagues/{leagueId}/teams
 async function getTeamsByLeague(
   event: APIGatewayProxyEvent,
@@ -257,6 +718,52 @@ async function getTeamsByLeague(
   return successResponse({ teams }, HttpStatus.OK, undefined, requestId);
 }
 
+// POST /v1/leagues/{leagueId}/teams
+async function createTeam(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { teamService } = getServices();
+  const leagueId = getPathParameter(event, 'leagueId');
+  const body = parseBody(event);
+  const team = await teamService.createTeam(tenantId, leagueId, body);
+  return successResponse({ team }, HttpStatus.CREATED, undefined, requestId);
+}
+
+// PATCH /v1/leagues/{leagueId}/teams/{teamId}
+async function updateTeam(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { teamService } = getServices();
+  const leagueId = getPathParameter(event, 'leagueId');
+  const teamId = getPathParameter(event, 'teamId');
+  const body = parseBody(event);
+  const team = await teamService.updateTeam(tenantId, leagueId, teamId, body);
+  return successResponse({ team }, HttpStatus.OK, undefined, requestId);
+}
+
+// DELETE /v1/leagues/{leagueId}/teams/{teamId}
+async function removeTeam(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { teamService } = getServices();
+  const leagueId = getPathParameter(event, 'leagueId');
+  const teamId = getPathParameter(event, 'teamId');
+  await teamService.removeTeam(tenantId, leagueId, teamId);
+  return successResponse({ team_id: teamId, deleted: true }, HttpStatus.OK, undefined, requestId);
+}
+
 // GET /v1/teams/{teamId}
 async function getTeamById(
   event: APIGatewayProxyEvent,
@@ -285,6 +792,52 @@ async function getPlayersByTeam(
   return successResponse({ players }, HttpStatus.OK, undefined, requestId);
 }
 
+// POST /v1/teams/{teamId}/players
+async function createPlayer(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { playerService } = getServices();
+  const teamId = getPathParameter(event, 'teamId');
+  const body = parseBody(event);
+  const player = await playerService.createPlayer(tenantId, teamId, body);
+  return successResponse({ player }, HttpStatus.CREATED, undefined, requestId);
+}
+
+// PATCH /v1/teams/{teamId}/players/{playerId}
+async function updatePlayer(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { playerService } = getServices();
+  const teamId = getPathParameter(event, 'teamId');
+  const playerId = getPathParameter(event, 'playerId');
+  const body = parseBody(event);
+  const player = await playerService.updatePlayer(tenantId, teamId, playerId, body);
+  return successResponse({ player }, HttpStatus.OK, undefined, requestId);
+}
+
+// DELETE /v1/teams/{teamId}/players/{playerId}
+async function removePlayer(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { playerService } = getServices();
+  const teamId = getPathParameter(event, 'teamId');
+  const playerId = getPathParameter(event, 'playerId');
+  await playerService.removePlayer(tenantId, teamId, playerId);
+  return successResponse({ player_id: playerId, deleted: true }, HttpStatus.OK, undefined, requestId);
+}
+
 // GET /v1/players/{playerId}
 async function getPlayerById(
   event: APIGatewayProxyEvent,
@@ -299,6 +852,20 @@ async function getPlayerById(
   return successResponse({ player }, HttpStatus.OK, undefined, requestId);
 }
 
+// GET /v1/players/{playerId}/stats
+async function getPlayerStats(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { playerStatsService } = getServices();
+  const playerId = getPathParameter(event, 'playerId');
+  const stats = await playerStatsService.getPlayerStats(tenantId, playerId);
+  return successResponse({ stats }, HttpStatus.OK, undefined, requestId);
+}
+
 // GET /v1/games/{gameId}
 async function getGameById(
   event: APIGatewayProxyEvent,
@@ -313,6 +880,21 @@ async function getGameById(
   return successResponse({ game }, HttpStatus.OK, undefined, requestId);
 }
 
+// PATCH /v1/games/{gameId}
+async function updateGame(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { gameService } = getServices();
+  const gameId = getPathParameter(event, 'gameId');
+  const body = parseBody(event);
+  const game = await gameService.updateGame(tenantId, gameId, body);
+  return successResponse({ game }, HttpStatus.OK, undefined, requestId);
+}
+
 // GET /v1/games/{gameId}/events
 async function getEventsByGame(
   event: APIGatewayProxyEvent,
@@ -327,6 +909,116 @@ async function getEventsByGame(
   return successResponse({ events }, HttpStatus.OK, undefined, requestId);
 }
 
+// GET /v1/games/{gameId}/snapshot
+async function getGameSnapshot(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { snapshotService } = getServices();
+  const gameId = getPathParameter(event, 'gameId');
+  const snapshot = await snapshotService.generateSnapshot(tenantId, gameId);
+  return successResponse({ snapshot }, HttpStatus.OK, undefined, requestId);
+}
+
+// GET /v1/games/{gameId}/boxscore
+async function getGameBoxScore(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { playerStatsService } = getServices();
+  const gameId = getPathParameter(event, 'gameId');
+  const boxScore = await playerStatsService.getBoxScore(tenantId, gameId);
+  return successResponse({ box_score: boxScore }, HttpStatus.OK, undefined, requestId);
+}
+
+/**
+ * Server-Sent Events id for a game stream position: the game's update
+ * sequence and the sort key of the newest event sent, which a resuming
+ * client's events are replayed after
+ */
+function streamEventId(sequence: number, events: GameEvent[]): string {
+  const newestSortKey = events.reduce(
+    (newest, gameEvent) => (gameEvent.sort_key > newest ? gameEvent.sort_key : newest),
+    ''
+  );
+  return `${sequence}-${newestSortKey}`;
+}
+
+/**
+ * Parse a Last-Event-ID sent by a resuming stream client
+ */
+function parseStreamEventId(id: string | undefined): { sequence: number; sortKey: string } | null {
+  const match = id ? /^(\d+)-(.*)$/.exec(id) : null;
+  return match ? { sequence: Number(match[1]), sortKey: match[2] } : null;
+}
+
+// GET /v1/games/{gameId}/stream
+async function streamGame(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  _userId: string,
+  _roles: string[],
+  _requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { snapshotService, eventService } = getServices();
+  const gameId = getPathParameter(event, 'gameId');
+  const snapshot = await snapshotService.generateSnapshot(tenantId, gameId);
+
+  // A new client gets the current snapshot. One that's behind its
+  // Last-Event-ID gets the current snapshot with the events recorded since;
+  // one that's current gets nothing until the next update.
+  const lastEventId = parseStreamEventId(
+    event.headers?.['Last-Event-ID'] ||
+      event.headers?.['last-event-id'] ||
+      getQueryParameter(event, 'last_event_id')
+  );
+  const events: ServerSentEvent[] = [];
+
+  if (lastEventId?.sequence !== snapshot.sequence) {
+    const gameEvents = await eventService.getEventsByGame(tenantId, gameId);
+    const message: WebSocketMessage = lastEventId
+      ? {
+          message_type: 'snapshot_update',
+          data: snapshot,
+          events: gameEvents.filter(gameEvent => gameEvent.sort_key > lastEventId.sortKey),
+          timestamp: new Date().toISOString(),
+        }
+      : {
+          message_type: 'initial_snapshot',
+          data: snapshot,
+          timestamp: new Date().toISOString(),
+        };
+
+    events.push({
+      id: streamEventId(snapshot.sequence, gameEvents),
+      event: message.message_type,
+      data: JSON.stringify(message),
+    });
+  }
+
+  return eventStreamResponse(events, STREAM_RETRY_MILLISECONDS);
+}
+
+// POST /v1/games/{gameId}/stream-tickets
+async function createStreamTicket(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  userId: string,
+  roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { streamTicketService } = getServices();
+  const gameId = getPathParameter(event, 'gameId');
+  const { ticket, expires_at } = await streamTicketService.issueTicket(tenantId, gameId, userId, roles);
+  return successResponse({ ticket, expires_at }, HttpStatus.CREATED, undefined, requestId);
+}
+
 // POST /v1/games/{gameId}/events
 async function createEvent(
   event: APIGatewayProxyEvent,
@@ -346,23 +1038,48 @@ async function createEvent(
   if (!body.payload) {
     throw new BadRequestError('payload is required');
   }
+  if (body.occurred_at !== undefined && typeof body.occurred_at !== 'string') {
+    throw new BadRequestError('occurred_at must be an ISO 8601 date-time string');
+  }
+  if (body.idempotency_key !== undefined && typeof body.idempotency_key !== 'string') {
+    throw new BadRequestError('idempotency_key must be a string');
+  }
   
-  // Create event metadata
-  const metadata = {
-    user_id: userId,
-    source: 'api',
-    ip_address: event.requestContext?.identity?.sourceIp || 'unknown',
-  };
-  
-  const createdEvent = await eventService.createEvent(
+  const { event: createdEvent, snapshot, duplicate } = await eventService.createEventWithSnapshot(
     tenantId,
     gameId,
     body.event_type,
     body.payload,
-    metadata
+    eventMetadata(event, userId),
+    {
+      occurred_at: body.occurred_at,
+      idempotency_key: body.idempotency_key,
+    }
   );
   
-  return successResponse({ event: createdEvent }, HttpStatus.CREATED, undefined, requestId);
+  // A retried request with a known idempotency_key returns the original event
+  const status = duplicate ? HttpStatus.OK : HttpStatus.CREATED;
+  return successResponse({ event: createdEvent, snapshot }, status, undefined, requestId);
+}
+
+// POST /v1/games/{gameId}/events/{eventId}/reverse
+async function reverseEvent(
+  event: APIGatewayProxyEvent,
+  tenantId: string,
+  userId: string,
+  _roles: string[],
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { eventService } = getServices();
+  const gameId = getPathParameter(event, 'gameId');
+  const eventId = getPathParameter(event, 'eventId');
+  const { event: reversalEvent, snapshot } = await eventService.reverseEvent(
+    tenantId,
+    gameId,
+    eventId,
+    eventMetadata(event, userId)
+  );
+  return successResponse({ event: reversalEvent, snapshot }, HttpStatus.CREATED, undefined, requestId);
 }
 
 /**
@@ -372,17 +1089,55 @@ async function createEvent(
 const routes: Route[] = [
   { method: 'GET', pathPattern: /^\/leagues$/, handler: getLeagues },
   { method: 'GET', pathPattern: /^\/leagues\/[^/]+$/, handler: getLeagueById },
+  { method: 'POST', pathPattern: /^\/leagues$/, handler: createLeague, requiredRole: 'admin' },
+  { method: 'PATCH', pathPattern: /^\/leagues\/[^/]+$/, handler: updateLeague, requiredRole: 'admin' },
+  { method: 'DELETE', pathPattern: /^\/leagues\/[^/]+$/, handler: archiveLeague, requiredRole: 'admin' },
   { method: 'GET', pathPattern: /^\/leagues\/[^/]+\/seasons$/, handler: getSeasonsByLeague },
+  { method: 'POST', pathPattern: /^\/leagues\/[^/]+\/seasons$/, handler: createSeason, requiredRole: 'admin' },
   { method: 'GET', pathPattern: /^\/seasons\/[^/]+$/, handler: getSeasonById },
+  { method: 'PATCH', pathPattern: /^\/seasons\/[^/]+$/, handler: updateSeason, requiredRole: 'admin' },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/activate$/, handler: activateSeason, requiredRole: 'admin' },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/complete$/, handler: completeSeason, requiredRole: 'admin' },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/reopen$/, handler: reopenSeason, requiredRole: 'admin' },
   { method: 'GET', pathPattern: /^\/seasons\/[^/]+\/games$/, handler: getGamesBySeason },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/games$/, handler: scheduleGame, requiredRole: 'admin' },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/schedule\/generate$/, handler: generateSchedule, requiredRole: 'admin' },
   { method: 'GET', pathPattern: /^\/seasons\/[^/]+\/standings$/, handler: getStandingsBySeason },
+  { method: 'GET', pathPattern: /^\/seasons\/[^/]+\/standings\/movement$/, handler: getStandingsMovement },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/standings\/recalculate$/, handler: recalculateStandings, requiredRole: 'admin' },
+  { method: 'GET', pathPattern: /^\/seasons\/[^/]+\/standings\/audit$/, handler: auditStandings, requiredRole: 'admin' },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/standings\/audit$/, handler: repairStandings, requiredRole: 'admin' },
+  { method: 'GET', pathPattern: /^\/seasons\/[^/]+\/leaders$/, handler: getSeasonLeaders },
+  { method: 'GET', pathPattern: /^\/seasons\/[^/]+\/bracket$/, handler: getBracket },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/bracket$/, handler: createBracket, requiredRole: 'admin' },
+  { method: 'GET', pathPattern: /^\/seasons\/[^/]+\/conferences$/, handler: getConferencesBySeason },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/conferences$/, handler: createConference, requiredRole: 'admin' },
+  { method: 'DELETE', pathPattern: /^\/seasons\/[^/]+\/conferences\/[^/]+$/, handler: removeConference, requiredRole: 'admin' },
+  { method: 'GET', pathPattern: /^\/seasons\/[^/]+\/divisions$/, handler: getDivisionsBySeason },
+  { method: 'POST', pathPattern: /^\/seasons\/[^/]+\/divisions$/, handler: createDivision, requiredRole: 'admin' },
+  { method: 'DELETE', pathPattern: /^\/seasons\/[^/]+\/divisions\/[^/]+$/, handler: removeDivision, requiredRole: 'admin' },
+  { method: 'POST', pathPattern: /^\/divisions\/[^/]+\/teams$/, handler: assignDivisionTeam, requiredRole: 'admin' },
+  { method: 'DELETE', pathPattern: /^\/divisions\/[^/]+\/teams\/[^/]+$/, handler: removeDivisionTeam, requiredRole: 'admin' },
   { method: 'GET', pathPattern: /^\/leagues\/[^/]+\/teams$/, handler: getTeamsByLeague },
+  { method: 'POST', pathPattern: /^\/leagues\/[^/]+\/teams$/, handler: createTeam, requiredRole: 'admin' },
+  { method: 'PATCH', pathPattern: /^\/leagues\/[^/]+\/teams\/[^/]+$/, handler: updateTeam, requiredRole: 'admin' },
+  { method: 'DELETE', pathPattern: /^\/leagues\/[^/]+\/teams\/[^/]+$/, handler: removeTeam, requiredRole: 'admin' },
   { method: 'GET', pathPattern: /^\/teams\/[^/]+$/, handler: getTeamById },
   { method: 'GET', pathPattern: /^\/teams\/[^/]+\/players$/, handler: getPlayersByTeam },
+  { method: 'POST', pathPattern: /^\/teams\/[^/]+\/players$/, handler: createPlayer, requiredRole: 'admin' },
+  { method: 'PATCH', pathPattern: /^\/teams\/[^/]+\/players\/[^/]+$/, handler: updatePlayer, requiredRole: 'admin' },
+  { method: 'DELETE', pathPattern: /^\/teams\/[^/]+\/players\/[^/]+$/, handler: removePlayer, requiredRole: 'admin' },
   { method: 'GET', pathPattern: /^\/players\/[^/]+$/, handler: getPlayerById },
+  { method: 'GET', pathPattern: /^\/players\/[^/]+\/stats$/, handler: getPlayerStats },
   { method: 'GET', pathPattern: /^\/games\/[^/]+$/, handler: getGameById },
+  { method: 'PATCH', pathPattern: /^\/games\/[^/]+$/, handler: updateGame, requiredRole: 'admin' },
   { method: 'GET', pathPattern: /^\/games\/[^/]+\/events$/, handler: getEventsByGame },
   { method: 'POST', pathPattern: /^\/games\/[^/]+\/events$/, handler: createEvent, requiredRole: 'scorekeeper' },
+  { method: 'POST', pathPattern: /^\/games\/[^/]+\/events\/[^/]+\/reverse$/, handler: reverseEvent, requiredRole: 'scorekeeper' },
+  { method: 'GET', pathPattern: /^\/games\/[^/]+\/snapshot$/, handler: getGameSnapshot },
+  { method: 'GET', pathPattern: /^\/games\/[^/]+\/boxscore$/, handler: getGameBoxScore },
+  { method: 'GET', pathPattern: /^\/games\/[^/]+\/stream$/, handler: streamGame, acceptsStreamTicket: true },
+  { method: 'POST', pathPattern: /^\/games\/[^/]+\/stream-tickets$/, handler: createStreamTicket },
 ];
 
 /**
@@ -444,17 +1199,20 @@ export async function handler(
     const config = loadEnvironmentConfig();
     const region = process.env.AWS_REGION || 'us-east-1';
 
-    // Extract and validate JWT token
-    const authHeader = event.headers?.Authorization || event.headers?.authorization;
-    const authContext = await validateJWT(
-      authHeader,
-      config.cognitoUserPoolId,
-      region,
-      requestId
-    );
-
     // Find matching route
     const route = findRoute(method, path);
+
+    // Extract and validate JWT token, or the stream ticket standing in for it
+    const authHeader = event.headers?.Authorization || event.headers?.authorization;
+    const ticket = route?.acceptsStreamTicket ? getQueryParameter(event, 'ticket') : undefined;
+    const authContext: Pick<AuthContext, 'tenant_id' | 'user_id' | 'roles'> =
+      ticket && !authHeader
+        ? await getServices().streamTicketService.redeemTicket(
+            ticket,
+            getPathParameter(event, 'gameId')
+          )
+        : await validateJWT(authHeader, config.cognitoUserPoolId, region, requestId);
+
     if (!route) {
       const latencyMs = Date.now() - startTime;
       logRequest({
@@ -0,0 +1,410 @@
+/**
+ * WebSocket Lambda Handler
+ *
+ * Handles the API Gateway WebSocket API routes used for live game updates:
+ * - $connect: Validates the JWT and stores the connection
+ * - subscribe / unsubscribe: Starts or stops watching a game, season,
+ *   league or team
+ * - resync: Resends a game's full snapshot after a client detects a gap in
+ *   its delta sequence
+ * - ping: Keepalive, answered with a pong
+ * - $disconnect: Removes the connection
+ * - $default: Any other action, answered with an error message
+ *
+ * The route is selected by the action field of the client's JSON message.
+ *
+ * Requirements: 4.1-4.6, 11.1, 14.1-14.6
+ */
+
+import { APIGatewayProxyEvent, APIGatewayProxyResult } from 'aws-lambda';
+import { validateJWT } from '../middleware/jwt-validation';
+import { handleError } from '../middleware/error-handler';
+import { BadRequestError, NotFoundError } from '../models/errors';
+import {
+  SubscriptionTarget,
+  WebSocketClientMessage,
+  WebSocketConnection,
+  WebSocketMessage,
+  CONNECTION_TTL_SECONDS,
+  SUBSCRIPTION_SCOPES,
+} from '../models/websocket';
+import { HttpStatus } from '../models/response';
+import { loadEnvironmentConfig } from '../config/environment';
+import { generateRequestId } from '../utils/response-formatter';
+import { log, LogLevel } from '../utils/logger';
+import { ConnectionRepository } from '../repositories/connection-repository';
+import { GameRepository } from '../repositories/game-repository';
+import { SeasonRepository } from '../repositories/season-repository';
+import { LeagueRepository } from '../repositories/league-repository';
+import { TeamRepository } from '../repositories/team-repository';
+import { SnapshotService } from '../services/snapshot-service';
+import { SubscriptionService } from '../services/subscription-service';
+import { BroadcastService } from '../services/broadcast-service';
+
+/**
+ * Initialize services (singleton pattern for Lambda warm starts)
+ */
+let services: {
+  connectionRepository: ConnectionRepository;
+  subscriptionService: SubscriptionService;
+  broadcastService: BroadcastService;
+} | null = null;
+
+function getServices() {
+  if (!services) {
+    const connectionRepository = new ConnectionRepository();
+    const gameRepository = new GameRepository();
+
+    services = {
+      connectionRepository,
+      subscriptionService: new SubscriptionService(
+        gameRepository,
+        new SeasonRepository(),
+        new LeagueRepository(),
+        new TeamRepository(),
+        new SnapshotService(gameRepository)
+      ),
+      broadcastService: new BroadcastService(connectionRepository),
+    };
+  }
+
+  return services;
+}
+
+/**
+ * Empty success response; API Gateway doesn't forward it to the client
+ */
+function ok(): APIGatewayProxyResult {
+  return { statusCode: HttpStatus.OK, body: '' };
+}
+
+/**
+ * Parse a client message
+ *
+ * @throws BadRequestError if the body isn't a JSON object
+ */
+function parseMessage(event: APIGatewayProxyEvent): Partial<WebSocketClientMessage> {
+  try {
+    const message = JSON.parse(event.body || '');
+
+    if (message && typeof message === 'object' && !Array.isArray(message)) {
+      return message;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+
+  const error = new BadRequestError('Message must be a JSON object');
+  (error as any).code = 'INVALID_MESSAGE';
+  throw error;
+}
+
+/**
+ * Read the subscription target from a message or query parameters
+ *
+ * game_id is shorthand for scope game.
+ *
+ * @returns The target, or null if none was given
+ * @throws BadRequestError if the scope or scope_id is invalid
+ */
+function parseTarget(
+  fields: Partial<Record<'scope' | 'scope_id' | 'game_id', unknown>>
+): SubscriptionTarget | null {
+  if (fields.scope === undefined && fields.scope_id === undefined) {
+    if (fields.game_id === undefined) {
+      return null;
+    }
+
+    fields = { scope: 'game', scope_id: fields.game_id };
+  }
+
+  const { scope, scope_id: scopeId } = fields;
+
+  if (!SUBSCRIPTION_SCOPES.includes(scope as any) || typeof scopeId !== 'string' || !scopeId) {
+    const error = new BadRequestError(
+      `A subscription needs a scope (${SUBSCRIPTION_SCOPES.join(', ')}) and a scope_id`
+    );
+    (error as any).code = 'INVALID_MESSAGE';
+    throw error;
+  }
+
+  return { scope: scope as SubscriptionTarget['scope'], scope_id: scopeId };
+}
+
+/**
+ * Error for a message from a connection that is no longer stored
+ */
+function connectionNotFound(): NotFoundError {
+  const error = new NotFoundError('Connection not found; reconnect to continue');
+  (error as any).code = 'CONNECTION_NOT_FOUND';
+  return error;
+}
+
+/**
+ * Get the stored connection a message came from
+ *
+ * @throws NotFoundError if the connection is unknown (e.g. it expired)
+ */
+async function getConnection(connectionId: string): Promise<WebSocketConnection> {
+  const connection = await getServices().connectionRepository.getConnection(connectionId);
+
+  if (!connection) {
+    throw connectionNotFound();
+  }
+
+  return connection;
+}
+
+/**
+ * Send a message to the client, echoing its request_id
+ */
+async function reply(
+  connectionId: string,
+  message: Omit<WebSocketMessage, 'timestamp'>,
+  requestId?: string
+): Promise<void> {
+  await getServices().broadcastService.sendMessage(connectionId, {
+    ...message,
+    timestamp: new Date().toISOString(),
+    ...(requestId ? { request_id: requestId } : {}),
+  });
+}
+
+// $connect
+async function connect(
+  event: APIGatewayProxyEvent,
+  connectionId: string,
+  requestId: string
+): Promise<APIGatewayProxyResult> {
+  const { connectionRepository } = getServices();
+  const config = loadEnvironmentConfig();
+  const region = process.env.AWS_REGION || 'us-east-1';
+
+  // Browsers can't set headers on a WebSocket handshake, so the token may
+  // also come as a query parameter
+  const token = event.queryStringParameters?.token;
+  const authHeader =
+    event.headers?.Authorization ||
+    event.headers?.authorization ||
+    (token ? `Bearer ${token}` : undefined);
+  const authContext = await validateJWT(authHeader, config.cognitoUserPoolId, region, requestId);
+
+  // API Gateway can't deliver a subscription's initial snapshots until the
+  // handshake completes, so subscribing is left to a subscribe message
+  if (parseTarget(event.queryStringParameters || {})) {
+    const error = new BadRequestError('Subscribe with a subscribe message once connected');
+    (error as any).code = 'INVALID_MESSAGE';
+    throw error;
+  }
+
+  const now = new Date();
+  const connection: WebSocketConnection = {
+    connection_id: connectionId,
+    tenant_id: authContext.tenant_id,
+    user_id: authContext.user_id,
+    connected_at: now.toISOString(),
+    ttl: Math.floor(now.getTime() / 1000) + CONNECTION_TTL_SECONDS,
+  };
+
+  await connectionRepository.storeConnection(connection);
+
+  log(LogLevel.INFO, 'WebSocket connected', {
+    request_id: requestId,
+    connection_id: connectionId,
+    tenant_id: authContext.tenant_id,
+    user_id: authContext.user_id,
+    operation: 'connect',
+  });
+
+  return ok();
+}
+
+// $disconnect
+async function disconnect(connectionId: string, requestId: string): Promise<APIGatewayProxyResult> {
+  await getServices().connectionRepository.removeConnection(connectionId);
+
+  log(LogLevel.INFO, 'WebSocket disconnected', {
+    request_id: requestId,
+    connection_id: connectionId,
+    operation: 'disconnect',
+  });
+
+  return ok();
+}
+
+// subscribe
+async function subscribe(
+  message: Partial<WebSocketClientMessage>,
+  connectionId: string
+): Promise<APIGatewayProxyResult> {
+  const { connectionRepository, subscriptionService } = getServices();
+  const connection = await getConnection(connectionId);
+  const target = parseTarget(message);
+
+  if (!target) {
+    const error = new BadRequestError('Nothing to subscribe to; send a scope and scope_id');
+    (error as any).code = 'INVALID_MESSAGE';
+    throw error;
+  }
+
+  // Validates the target belongs to the connection's tenant
+  const snapshots = await subscriptionService.getInitialSnapshots(connection.tenant_id, target);
+
+  if (!(await connectionRepository.addSubscription(connection, target))) {
+    throw connectionNotFound();
+  }
+
+  for (const snapshot of snapshots) {
+    await reply(connectionId, { message_type: 'initial_snapshot', data: snapshot }, message.request_id);
+  }
+
+  return ok();
+}
+
+// unsubscribe
+async function unsubscribe(
+  message: Partial<WebSocketClientMessage>,
+  connectionId: string
+): Promise<APIGatewayProxyResult> {
+  const { connectionRepository } = getServices();
+  const target = parseTarget(message);
+
+  await getConnection(connectionId);
+
+  // Without a target, stop watching everything
+  if (target) {
+    await connectionRepository.removeSubscription(connectionId, target);
+  } else {
+    await connectionRepository.removeSubscriptions(connectionId);
+  }
+
+  return ok();
+}
+
+// resync
+async function resync(
+  message: Partial<WebSocketClientMessage>,
+  connectionId: string
+): Promise<APIGatewayProxyResult> {
+  const connection = await getConnection(connectionId);
+
+  if (typeof message.game_id !== 'string' || !message.game_id) {
+    const error = new BadRequestError('A resync needs a game_id');
+    (error as any).code = 'INVALID_MESSAGE';
+    throw error;
+  }
+
+  // Validates the game belongs to the connection's tenant
+  const [snapshot] = await getServices().subscriptionService.getInitialSnapshots(
+    connection.tenant_id,
+    { scope: 'game', scope_id: message.game_id }
+  );
+
+  await reply(connectionId, { message_type: 'snapshot_update', data: snapshot }, message.request_id);
+  return ok();
+}
+
+// ping
+async function ping(
+  message: Partial<WebSocketClientMessage>,
+  connectionId: string
+): Promise<APIGatewayProxyResult> {
+  await reply(connectionId, { message_type: 'pong' }, message.request_id);
+  return ok();
+}
+
+/**
+ * Main WebSocket handler
+ *
+ * A failed $connect rejects the handshake with the error's status code.
+ * A failed client action is reported to the client as an error message.
+ *
+ * @param event - API Gateway WebSocket event
+ * @returns API Gateway proxy result
+ */
+export async function handler(
+  event: APIGatewayProxyEvent
+): Promise<APIGatewayProxyResult> {
+  const requestId = generateRequestId();
+  const routeKey = event.requestContext.routeKey;
+  const connectionId = event.requestContext.connectionId;
+
+  if (!connectionId) {
+    return handleError(new BadRequestError('Missing connection ID'), requestId);
+  }
+
+  if (routeKey === '$connect') {
+    try {
+      return await connect(event, connectionId, requestId);
+    } catch (error) {
+      return handleError(error, requestId);
+    }
+  }
+
+  if (routeKey === '$disconnect') {
+    try {
+      return await disconnect(connectionId, requestId);
+    } catch (error) {
+      return handleError(error, requestId);
+    }
+  }
+
+  let clientRequestId: string | undefined;
+
+  try {
+    const message = parseMessage(event);
+    clientRequestId = typeof message.request_id === 'string' ? message.request_id : undefined;
+
+    switch (routeKey) {
+      case 'subscribe':
+        return await subscribe(message, connectionId);
+      case 'unsubscribe':
+        return await unsubscribe(message, connectionId);
+      case 'resync':
+        return await resync(message, connectionId);
+      case 'ping':
+        return await ping(message, connectionId);
+      default: {
+        const error = new BadRequestError(`Unknown action: ${String(message.action)}`);
+        (error as any).code = 'UNKNOWN_ACTION';
+        throw error;
+      }
+    }
+  } catch (error) {
+    const response = handleError(error, requestId);
+    const known = error instanceof BadRequestError || error instanceof NotFoundError;
+
+    log(LogLevel.WARN, 'WebSocket action failed', {
+      request_id: requestId,
+      connection_id: connectionId,
+      route_key: routeKey,
+      error: error instanceof Error ? error.message : 'Unknown error',
+      operation: 'handleMessage',
+    });
+
+    try {
+      await reply(
+        connectionId,
+        {
+          message_type: 'error',
+          error: {
+            code: known
+              ? (error as any).code || (error instanceof NotFoundError ? 'NOT_FOUND' : 'BAD_REQUEST')
+              : 'INTERNAL_ERROR',
+            message: known ? (error as Error).message : 'Internal server error',
+          },
+        },
+        clientRequestId
+      );
+    } catch (sendError) {
+      log(LogLevel.WARN, 'Failed to send error to connection', {
+        request_id: requestId,
+        connection_id: connectionId,
+        error: sendError instanceof Error ? sendError.message : 'Unknown error',
+        operation: 'handleMessage',
+      });
+    }
+
+    return response;
+  }
+}
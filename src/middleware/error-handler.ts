@@ -9,11 +9,18 @@
 
 import { APIGatewayProxyResult } from 'aws-lambda';
 import { AuthError } from '../models/auth';
-import { NotFoundError, BadRequestError, ForbiddenError, ServiceUnavailableError } from '../models/errors';
+import {
+  NotFoundError,
+  BadRequestError,
+  ForbiddenError,
+  ConflictError,
+  ServiceUnavailableError,
+} from '../models/errors';
 import {
   authenticationErrorResponse,
   authorizationErrorResponse,
   notFoundErrorResponse,
+  conflictErrorResponse,
   validationErrorResponse,
   internalErrorResponse,
   serviceUnavailableErrorResponse,
@@ -74,6 +81,34 @@ export function isDatabaseConnectionError(error: Error): boolean {
   );
 }
 
+/**
+ * PostgreSQL error code for unique constraint violations
+ */
+const PG_UNIQUE_VIOLATION = '23505';
+
+/**
+ * Check if error is a PostgreSQL unique constraint violation
+ * 
+ * Repositories use this to translate duplicate-key failures into
+ * ConflictError instead of surfacing them as 500s.
+ * 
+ * @param error - Error to check
+ * @param constraintName - Optional constraint name to match
+ * @returns True if error is a unique violation (on the given constraint, if provided)
+ */
+export function isUniqueViolation(error: unknown, constraintName?: string): boolean {
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const pgError = error as { code?: string; constraint?: string };
+  if (pgError.code !== PG_UNIQUE_VIOLATION) {
+    return false;
+  }
+
+  return constraintName === undefined || pgError.constraint === constraintName;
+}
+
 /**
  * Handle error and format appropriate response
  * 
@@ -82,6 +117,7 @@ export function isDatabaseConnectionError(error: Error): boolean {
  * - Authentication errors (401)
  * - Authorization errors (403)
  * - Not found errors (404)
+ * - Conflict errors (409)
  * - Validation errors (400)
  * - Database connection errors (503)
  * - Generic errors (500)
@@ -121,6 +157,11 @@ export function handleError(
     return notFoundErrorResponse(err.message, requestId);
   }
 
+  // Handle conflict errors (409)
+  if (err instanceof ConflictError) {
+    return conflictErrorResponse(err.message, requestId);
+  }
+
   // Handle validation errors (400)
   if (err instanceof BadRequestError || err instanceof ValidationError) {
     const details = (err as ValidationError).details;
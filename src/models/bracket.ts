@@ -0,0 +1,161 @@
+/**
+ * Bracket Models
+ *
+ * Type definitions for playoff brackets.
+ * A bracket belongs to a season, is seeded from the season's ranked
+ * standings, and is made of series. Each series is played as real games;
+ * results flow from a series to the series its winner (and, in double
+ * elimination, its loser) plays next.
+ */
+
+/**
+ * Bracket format
+ */
+export enum BracketFormat {
+  SINGLE_ELIMINATION = 'single_elimination',
+  DOUBLE_ELIMINATION = 'double_elimination',
+}
+
+/**
+ * Which part of the bracket a series belongs to
+ */
+export enum BracketSide {
+  WINNERS = 'winners',
+  LOSERS = 'losers',
+  FINAL = 'final',               // Double elimination grand final
+}
+
+/**
+ * Series progress
+ */
+export enum SeriesStatus {
+  PENDING = 'pending',           // Waiting for one or both teams
+  ACTIVE = 'active',             // Both teams known, series undecided
+  COMPLETE = 'complete',         // Decided by games
+  BYE = 'bye',                   // Decided without games (opponent slot empty)
+}
+
+/**
+ * Where a series slot's team comes from
+ */
+export type SeriesSource =
+  | { type: 'seed'; seed: number }
+  | { type: 'winner' | 'loser'; series: string };
+
+/**
+ * Series structure as stored (results are derived from its games)
+ */
+export interface BracketSeriesDefinition {
+  key: string;                   // Unique within the bracket (e.g., "W1-1", "L2-1", "F1-1")
+  side: BracketSide;
+  round: number;                 // 1-based round within the side
+  position: number;              // 1-based position within the round
+  home_source: SeriesSource;
+  away_source: SeriesSource;
+}
+
+/**
+ * Stored series row
+ */
+export interface BracketSeriesRow extends BracketSeriesDefinition {
+  id: string;
+  bracket_id: string;
+}
+
+/**
+ * Series with its current teams and result
+ */
+export interface BracketSeries extends BracketSeriesRow {
+  home_team_id?: string;         // Better seed once both teams are known
+  away_team_id?: string;
+  home_seed?: number;
+  away_seed?: number;
+  home_wins: number;
+  away_wins: number;
+  winner_team_id?: string;
+  loser_team_id?: string;
+  status: SeriesStatus;
+  game_ids: string[];            // Series games in game-number order
+}
+
+/**
+ * Bracket database row (matches PostgreSQL schema)
+ */
+export interface BracketRow {
+  id: string;
+  season_id: string;
+  format: string;
+  best_of: number;
+  seeds: string[];
+  starts_at: Date;
+  game_interval_hours: number;
+  location: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Bracket entity from database (without series)
+ */
+export interface BracketRecord {
+  id: string;                    // UUID
+  season_id: string;             // UUID - One bracket per season
+  format: BracketFormat;
+  best_of: number;               // Games per series (odd)
+  seeds: string[];               // Team ids in seed order (index 0 is seed 1)
+  starts_at: Date;               // Kick-off of the first round
+  game_interval_hours: number;   // Minimum gap before a team's next bracket game
+  location?: string;             // Default location for bracket games
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Bracket with resolved series
+ */
+export interface Bracket extends BracketRecord {
+  series: BracketSeries[];
+  champion_team_id?: string;
+}
+
+/**
+ * Convert database row to BracketRecord model
+ */
+export function mapBracketRow(row: BracketRow): BracketRecord {
+  return {
+    id: row.id,
+    season_id: row.season_id,
+    format: row.format as BracketFormat,
+    best_of: row.best_of,
+    seeds: row.seeds,
+    starts_at: row.starts_at,
+    game_interval_hours: row.game_interval_hours,
+    location: row.location || undefined,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Bracket create request
+ */
+export interface CreateBracketInput {
+  format: BracketFormat;
+  best_of?: number;              // Default 1
+  teams?: number;                // Number of seeds (default every ranked team)
+  starts_at: string;             // ISO 8601 date-time
+  game_interval_hours?: number;  // Default 24
+  location?: string;
+}
+
+/**
+ * A bracket game to create
+ */
+export interface BracketGameInput {
+  bracket_series_id: string;
+  series_game_number: number;
+  home_team_id: string;
+  away_team_id: string;
+  scheduled_at: Date;
+  location?: string;
+}
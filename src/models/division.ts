@@ -0,0 +1,124 @@
+/**
+ * Division Models
+ *
+ * Type definitions for conferences and divisions.
+ * A season's teams can be split into divisions, and divisions can be
+ * grouped into conferences, so standings can be ranked within each group.
+ */
+
+import { RankedStanding } from './standing';
+
+/**
+ * Conference entity from database
+ */
+export interface Conference {
+  id: string;                    // UUID
+  season_id: string;             // UUID - Parent season
+  name: string;                  // Conference name (unique per season)
+  created_at: Date;              // Creation timestamp
+  updated_at: Date;              // Last update timestamp
+}
+
+/**
+ * Conference database row (matches PostgreSQL schema)
+ */
+export interface ConferenceRow {
+  id: string;
+  season_id: string;
+  name: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Division entity from database
+ */
+export interface Division {
+  id: string;                    // UUID
+  season_id: string;             // UUID - Parent season
+  conference_id?: string;        // UUID - Optional parent conference
+  name: string;                  // Division name (unique per season)
+  team_ids: string[];            // Teams in the division this season
+  created_at: Date;              // Creation timestamp
+  updated_at: Date;              // Last update timestamp
+}
+
+/**
+ * Division database row (team_ids aggregated from division_teams)
+ */
+export interface DivisionRow {
+  id: string;
+  season_id: string;
+  conference_id: string | null;
+  name: string;
+  team_ids: string[] | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Convert database row to Conference model
+ */
+export function mapConferenceRow(row: ConferenceRow): Conference {
+  return {
+    id: row.id,
+    season_id: row.season_id,
+    name: row.name,
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Convert database row to Division model
+ */
+export function mapDivisionRow(row: DivisionRow): Division {
+  return {
+    id: row.id,
+    season_id: row.season_id,
+    conference_id: row.conference_id || undefined,
+    name: row.name,
+    team_ids: row.team_ids || [],
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * Conference create request
+ */
+export interface CreateConferenceInput {
+  name: string;
+}
+
+/**
+ * Division create request
+ */
+export interface CreateDivisionInput {
+  name: string;
+  conference_id?: string;
+}
+
+/**
+ * Division team assignment request
+ */
+export interface AssignDivisionTeamInput {
+  team_id: string;
+}
+
+/**
+ * How grouped standings are split
+ */
+export type StandingsGroupBy = 'division' | 'conference';
+
+/**
+ * Standings ranked within one division or conference
+ *
+ * Teams without a division (or whose division has no conference) are
+ * collected in a group with a null id and name.
+ */
+export interface StandingsGroup {
+  id: string | null;
+  name: string | null;
+  standings: RankedStanding[];
+}
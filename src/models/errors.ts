@@ -38,6 +38,16 @@ export class ForbiddenError extends Error {
   }
 }
 
+/**
+ * Conflict error (409)
+ */
+export class ConflictError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ConflictError';
+  }
+}
+
 /**
  * Service unavailable error (503)
  */
@@ -51,6 +51,9 @@ export interface SpatialCoordinateValidationResult {
 
 /**
  * Supported event types for game actions
+ * 
+ * The event types a game accepts depend on its league's sport; see the
+ * event catalogs in event-validation.
  */
 export enum EventType {
   GAME_STARTED = 'GAME_STARTED',
@@ -58,6 +61,24 @@ export enum EventType {
   PENALTY_ASSESSED = 'PENALTY_ASSESSED',
   SHOT_ON_GOAL = 'SHOT_ON_GOAL',
   PERIOD_ENDED = 'PERIOD_ENDED',
+  CLOCK_STARTED = 'CLOCK_STARTED',
+  CLOCK_STOPPED = 'CLOCK_STOPPED',
+  CLOCK_SET = 'CLOCK_SET',
+  GOALIE_CHANGED = 'GOALIE_CHANGED',
+  FIELD_GOAL = 'FIELD_GOAL',
+  FREE_THROW = 'FREE_THROW',
+  FOUL = 'FOUL',
+  RUN_SCORED = 'RUN_SCORED',
+  OUT_RECORDED = 'OUT_RECORDED',
+  INNING_ENDED = 'INNING_ENDED',
+  TOUCHDOWN = 'TOUCHDOWN',
+  SAFETY = 'SAFETY',
+  EXTRA_POINT = 'EXTRA_POINT',
+  TWO_POINT_CONVERSION = 'TWO_POINT_CONVERSION',
+  TRY = 'TRY',
+  CONVERSION = 'CONVERSION',
+  PENALTY_GOAL = 'PENALTY_GOAL',
+  DROP_GOAL = 'DROP_GOAL',
   GAME_FINALIZED = 'GAME_FINALIZED',
   GAME_CANCELLED = 'GAME_CANCELLED',
   SCORE_CORRECTED = 'SCORE_CORRECTED',
@@ -18,6 +18,49 @@ export enum GameStatus {
   CANCELLED = 'cancelled',
 }
 
+/**
+ * How a final game was decided
+ */
+export enum GameDecision {
+  REGULATION = 'regulation',
+  OVERTIME = 'overtime',
+  SHOOTOUT = 'shootout',
+}
+
+/**
+ * Penalty being served
+ * 
+ * starts_at and expires_at are game time: seconds played (on the game clock)
+ * since the game started, so they span periods.
+ */
+export interface ActivePenalty {
+  event_id: string;              // UUID - PENALTY_ASSESSED event
+  team_id: string;               // UUID - Penalized team
+  player_id: string;             // UUID - Penalized player
+  penalty_type: string;          // e.g. "Tripping"
+  duration_minutes: number;
+  period: number;                // Period the penalty was assessed in
+  starts_at: number;             // Game time the penalty started
+  expires_at: number;            // Game time the penalty ends
+}
+
+/**
+ * Penalty a power-play goal released, as it was before the goal
+ */
+export interface ReleasedPenalty {
+  goal_event_id: string;         // UUID - GOAL_SCORED event that released it
+  penalty: ActivePenalty;
+}
+
+/**
+ * Shots on goal by each team in one period
+ */
+export interface PeriodShots {
+  period: number;
+  home_shots: number;
+  away_shots: number;
+}
+
 /**
  * Game entity from database
  */
@@ -31,6 +74,23 @@ export interface Game {
   home_score: number;            // Home team score
   away_score: number;            // Away team score
   location?: string;             // Optional game location
+  decided_in?: GameDecision;     // Set when the game is finalized
+  bracket_series_id?: string;    // UUID - Playoff series, unset for regular season games
+  series_game_number?: number;   // 1-based game number within the playoff series
+  update_sequence?: number;      // Advanced with every applied or reversed event
+  period?: number;               // Current period, starting at 1
+  clock_seconds?: number;        // Seconds left on the clock at clock_anchored_at
+  clock_running?: boolean;       // Whether the clock is counting down
+  clock_anchored_at?: Date;      // When the running clock was last started or set
+  elapsed_seconds?: number;      // Game time played at clock_anchored_at
+  active_penalties?: ActivePenalty[];  // Penalties being served
+  home_shots?: number;           // Home team shots on goal
+  away_shots?: number;           // Away team shots on goal
+  shots_by_period?: PeriodShots[];  // Shots on goal per period, in period order
+  home_goalie_id?: string;       // UUID - Home goalie in net, unset for an empty net
+  away_goalie_id?: string;       // UUID - Away goalie in net, unset for an empty net
+  home_goalie_since?: number;    // Game time the home goalie went in
+  away_goalie_since?: number;    // Game time the away goalie went in
   created_at: Date;              // Creation timestamp
   updated_at: Date;              // Last update timestamp
 }
@@ -48,6 +108,23 @@ export interface GameRow {
   home_score: number;
   away_score: number;
   location: string | null;
+  decided_in: string | null;
+  bracket_series_id: string | null;
+  series_game_number: number | null;
+  update_sequence: string | number;  // bigint, returned by pg as a string
+  period: number;
+  clock_seconds: number;
+  clock_running: boolean;
+  clock_anchored_at: Date | null;
+  elapsed_seconds: number;
+  active_penalties: ActivePenalty[];  // jsonb
+  home_shots: number;
+  away_shots: number;
+  shots_by_period: PeriodShots[];  // jsonb
+  home_goalie_id: string | null;
+  away_goalie_id: string | null;
+  home_goalie_since: number;
+  away_goalie_since: number;
   created_at: Date;
   updated_at: Date;
 }
@@ -62,6 +139,119 @@ export interface GameFilters {
   teamId?: string;               // Filter by team (home or away)
 }
 
+/**
+ * Game create request
+ *
+ * scheduled_at is an ISO 8601 date-time. New games start as scheduled.
+ */
+export interface CreateGameInput {
+  home_team_id: string;
+  away_team_id: string;
+  scheduled_at: string;
+  location?: string;
+}
+
+/**
+ * Game update request (all fields optional; null clears location)
+ */
+export interface UpdateGameInput {
+  home_team_id?: string;
+  away_team_id?: string;
+  scheduled_at?: string;
+  location?: string | null;
+}
+
+/**
+ * Round-robin format: every team meets every other team once or twice
+ */
+export type RoundRobinFormat = 'single' | 'double';
+
+/**
+ * Days of the week games may be scheduled on
+ */
+export type Weekday =
+  | 'sunday'
+  | 'monday'
+  | 'tuesday'
+  | 'wednesday'
+  | 'thursday'
+  | 'friday'
+  | 'saturday';
+
+/**
+ * Schedule generation request
+ *
+ * Dates are ISO 8601 calendar dates (YYYY-MM-DD); time slots are HH:MM in UTC.
+ */
+export interface GenerateScheduleInput {
+  format?: RoundRobinFormat;          // Default: single
+  start_date?: string;                // Default: season start_date
+  weekdays?: Weekday[];               // Default: every day
+  time_slots: string[];               // Kick-off times available on each game day
+  games_per_slot?: number;            // Concurrent games per time slot (venues), default 1
+  blackout_dates?: string[];          // Dates with no games
+  balance_home_away?: boolean;        // Default: true
+  location?: string;                  // Location applied to every generated game
+  dry_run?: boolean;                  // Return the proposed games without persisting
+}
+
+/**
+ * Game proposed by the schedule generator (not yet persisted)
+ */
+export interface ProposedGame {
+  round: number;                 // 1-based round number
+  season_id: string;
+  home_team_id: string;
+  away_team_id: string;
+  scheduled_at: Date;
+  status: GameStatus;
+  location?: string;
+}
+
+/**
+ * Schedule generation result
+ */
+export interface ScheduleGenerationResult {
+  dry_run: boolean;
+  rounds: number;
+  games: (ProposedGame | Game)[];
+}
+
+/**
+ * Columns mapGameRow reads, for queries aliasing games as g (an INSERT or
+ * UPDATE that returns the game aliases its target, as in INSERT INTO games
+ * AS g); a column added to GameRow is added here
+ */
+export const GAME_COLUMNS = `
+        g.id,
+        g.season_id,
+        g.home_team_id,
+        g.away_team_id,
+        g.scheduled_at,
+        g.status,
+        g.home_score,
+        g.away_score,
+        g.location,
+        g.decided_in,
+        g.bracket_series_id,
+        g.series_game_number,
+        g.update_sequence,
+        g.period,
+        g.clock_seconds,
+        g.clock_running,
+        g.clock_anchored_at,
+        g.elapsed_seconds,
+        g.active_penalties,
+        g.home_shots,
+        g.away_shots,
+        g.shots_by_period,
+        g.home_goalie_id,
+        g.away_goalie_id,
+        g.home_goalie_since,
+        g.away_goalie_since,
+        g.created_at,
+        g.updated_at`;
+
 /**
  * Convert database row to Game model
  */
@@ -76,6 +266,23 @@ export function mapGameRow(row: GameRow): Game {
     home_score: row.home_score,
     away_score: row.away_score,
     location: row.location || undefined,
+    decided_in: (row.decided_in as GameDecision) || undefined,
+    bracket_series_id: row.bracket_series_id || undefined,
+    series_game_number: row.series_game_number ?? undefined,
+    update_sequence: row.update_sequence === undefined ? undefined : Number(row.update_sequence),
+    period: row.period ?? undefined,
+    clock_seconds: row.clock_seconds ?? undefined,
+    clock_running: row.clock_running ?? undefined,
+    clock_anchored_at: row.clock_anchored_at || undefined,
+    elapsed_seconds: row.elapsed_seconds ?? undefined,
+    active_penalties: row.active_penalties ?? undefined,
+    home_shots: row.home_shots ?? undefined,
+    away_shots: row.away_shots ?? undefined,
+    shots_by_period: row.shots_by_period ?? undefined,
+    home_goalie_id: row.home_goalie_id || undefined,
+    away_goalie_id: row.away_goalie_id || undefined,
+    home_goalie_since: row.home_goalie_since ?? undefined,
+    away_goalie_since: row.away_goalie_since ?? undefined,
     created_at: row.created_at,
     updated_at: row.updated_at,
   };
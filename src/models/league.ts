@@ -7,6 +7,8 @@
  * Requirements: 3.1, 3.2
  */
 
+import { PointsRulesInput } from './standing';
+
 /**
  * Supported sport types
  */
@@ -16,6 +18,7 @@ export enum SportType {
   HOCKEY = 'hockey',
   BASEBALL = 'baseball',
   FOOTBALL = 'football',
+  RUGBY = 'rugby',
 }
 
 /**
@@ -29,6 +32,8 @@ export interface League {
   logo_url?: string;             // Optional logo URL
   primary_color?: string;        // Optional hex color (e.g., "#0B2545")
   secondary_color?: string;      // Optional hex color (e.g., "#FCCA46")
+  points_rules?: PointsRulesInput; // Standings points rules (defaults apply when unset)
+  archived_at?: Date;            // Set when the league has been archived
   created_at: Date;              // Creation timestamp
   updated_at: Date;              // Last update timestamp
 }
@@ -44,10 +49,36 @@ export interface LeagueRow {
   logo_url: string | null;
   primary_color: string | null;
   secondary_color: string | null;
+  points_rules: PointsRulesInput | null;
+  archived_at: Date | null;
   created_at: Date;
   updated_at: Date;
 }
 
+/**
+ * Input for creating a league
+ */
+export interface CreateLeagueInput {
+  name: string;
+  sport_type: SportType;
+  logo_url?: string;
+  primary_color?: string;
+  secondary_color?: string;
+  points_rules?: PointsRulesInput;
+}
+
+/**
+ * Input for updating a league (all fields optional)
+ */
+export interface UpdateLeagueInput {
+  name?: string;
+  sport_type?: SportType;
+  logo_url?: string | null;
+  primary_color?: string | null;
+  secondary_color?: string | null;
+  points_rules?: PointsRulesInput | null;
+}
+
 /**
  * Convert database row to League model
  */
@@ -60,6 +91,8 @@ export function mapLeagueRow(row: LeagueRow): League {
     logo_url: row.logo_url || undefined,
     primary_color: row.primary_color || undefined,
     secondary_color: row.secondary_color || undefined,
+    points_rules: row.points_rules || undefined,
+    archived_at: row.archived_at || undefined,
     created_at: row.created_at,
     updated_at: row.updated_at,
   };
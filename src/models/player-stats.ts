@@ -0,0 +1,328 @@
+/**
+ * Player Stats Models
+ * 
+ * Type definitions for player statistics projected from game events.
+ * Each game keeps a row per player with a goal, assist, shot or penalty,
+ * or who played goalie, maintained as events are applied and reversed;
+ * season totals, leaderboards and game logs are aggregated from those rows.
+ * 
+ * A player has played a game that is live or final when their team played
+ * in it after they joined the roster (players don't change teams, so that is
+ * when the player was created), or they recorded stats in it. A player has
+ * played goalie in a game when a GOALIE_CHANGED put them in net or a shot or
+ * goal named them as the goalie.
+ */
+
+import { GameStatus } from './game';
+import { goalieStats } from '../utils/goalie-stats';
+
+/**
+ * A goalie's stats in net
+ */
+export interface GoalieStats {
+  shots_against: number;         // Shots on goal faced
+  goals_against: number;
+  saves: number;                 // shots_against - goals_against
+  save_percentage: number | null;  // Saves per shot against (0.915); null without shots against
+  seconds_played: number;        // Game time in net
+  goals_against_average: number | null;  // Goals against per 60 minutes; null without time in net
+}
+
+/**
+ * A goalie's stats in one game
+ */
+export interface GoalieGameStats extends GoalieStats {
+  shutout: boolean;              // Final game the opponent didn't score in, with no other goalie in the team's net
+}
+
+/**
+ * A goalie's totals in one season
+ */
+export interface GoalieSeasonStats extends GoalieStats {
+  games_played: number;          // Games played in net
+  shutouts: number;
+}
+
+/**
+ * A player's statistics in one game
+ */
+export interface PlayerGameStats {
+  game_id: string;               // UUID
+  player_id: string;             // UUID
+  team_id: string;               // UUID - Team the player recorded the stats for
+  first_name: string;            // Player first name
+  last_name: string;             // Player last name
+  jersey_number?: string;        // Optional jersey number (e.g., "23")
+  goals: number;
+  assists: number;
+  points: number;                // goals + assists
+  shots: number;                 // Shots on goal
+  penalty_minutes: number;
+  goalie?: GoalieGameStats;      // Present when the player played goalie
+}
+
+/**
+ * Goalie columns of player game stats database rows
+ */
+export interface GoalieGameStatsColumns {
+  played_goalie: boolean;
+  shots_against: number;
+  goals_against: number;
+  goalie_seconds: number;
+  shutout: boolean;
+}
+
+/**
+ * Player game stats database row, joined with the player's name
+ */
+export interface PlayerGameStatsRow extends GoalieGameStatsColumns {
+  game_id: string;
+  player_id: string;
+  team_id: string;
+  first_name: string;
+  last_name: string;
+  jersey_number: string | null;
+  goals: number;
+  assists: number;
+  shots: number;
+  penalty_minutes: number;
+}
+
+/**
+ * Change an event makes to one player's game stats
+ */
+export interface PlayerStatsChange {
+  player_id: string;
+  team_id: string;
+  goals: number;
+  assists: number;
+  shots: number;
+  penalty_minutes: number;
+  shots_against: number;         // Credited to the goalie named on the event
+  goals_against: number;
+}
+
+/**
+ * A goalie's line in a box score
+ */
+export interface BoxScoreGoalie extends GoalieGameStats {
+  player_id: string;             // UUID
+  first_name: string;
+  last_name: string;
+  jersey_number?: string;
+}
+
+/**
+ * One team's side of a box score
+ */
+export interface BoxScoreTeam {
+  team_id: string;
+  score: number;
+  shots: number;                 // Team shots on goal
+  players: PlayerGameStats[];    // Players with a goal, assist, shot or penalty, by points then goals
+  goalies: BoxScoreGoalie[];     // Goalies who played, most time in net first
+}
+
+/**
+ * Box score of a game
+ */
+export interface BoxScore {
+  game_id: string;
+  status: GameStatus;
+  home: BoxScoreTeam;
+  away: BoxScoreTeam;
+}
+
+/**
+ * Stats players are ranked by on season leaderboards (pim: penalty minutes)
+ */
+export const LEADER_STATS = ['goals', 'assists', 'points', 'pim', 'shots'] as const;
+
+export type LeaderStat = (typeof LEADER_STATS)[number];
+
+/**
+ * Season leaderboard options
+ */
+export interface LeaderOptions {
+  stat: LeaderStat;
+  minGamesPlayed: number;        // Players with fewer games played are left out
+  limit: number;                 // Number of ranks to return; players tied at the last rank are all kept
+}
+
+/**
+ * Stat totals over a number of games
+ */
+export interface StatTotals {
+  games_played: number;
+  goals: number;
+  assists: number;
+  points: number;
+  shots: number;
+  penalty_minutes: number;
+}
+
+/**
+ * A player's totals in a season
+ */
+export interface SeasonPlayerTotals extends StatTotals {
+  player_id: string;             // UUID
+  team_id: string;               // UUID - Player's team
+  first_name: string;
+  last_name: string;
+  jersey_number?: string;
+}
+
+/**
+ * Season player totals database row
+ */
+export interface SeasonPlayerTotalsRow {
+  player_id: string;
+  team_id: string;
+  first_name: string;
+  last_name: string;
+  jersey_number: string | null;
+  games_played: number;
+  goals: number;
+  assists: number;
+  shots: number;
+  penalty_minutes: number;
+}
+
+/**
+ * A player's place on a season leaderboard
+ */
+export interface SeasonLeader extends SeasonPlayerTotals {
+  rank: number;                  // 1-based; players with the same value share a rank
+  value: number;                 // Value of the ranked stat
+}
+
+/**
+ * One game in a player's game log
+ */
+export interface PlayerGameLogEntry {
+  game_id: string;               // UUID
+  season_id: string;             // UUID
+  scheduled_at: Date;
+  status: GameStatus;
+  team_id: string;               // UUID - Team the player played for
+  opponent_team_id: string;      // UUID
+  is_home: boolean;
+  goals: number;
+  assists: number;
+  points: number;
+  shots: number;
+  penalty_minutes: number;
+  goalie?: GoalieGameStats;      // Present when the player played goalie
+}
+
+/**
+ * Player game log database row
+ */
+export interface PlayerGameLogRow extends GoalieGameStatsColumns {
+  game_id: string;
+  season_id: string;
+  scheduled_at: Date;
+  status: string;
+  home_team_id: string;
+  away_team_id: string;
+  team_id: string;
+  goals: number;
+  assists: number;
+  shots: number;
+  penalty_minutes: number;
+}
+
+/**
+ * A player's totals in one season
+ */
+export interface PlayerSeasonStats extends StatTotals {
+  season_id: string;             // UUID
+  goalie?: GoalieSeasonStats;    // Present when the player played goalie in the season
+}
+
+/**
+ * A player's season totals and game log
+ */
+export interface PlayerStats {
+  player_id: string;
+  seasons: PlayerSeasonStats[];  // Most recent season first
+  game_log: PlayerGameLogEntry[];  // Most recent game first
+}
+
+/**
+ * Convert the goalie columns of a database row to GoalieGameStats
+ * 
+ * @returns Goalie stats, or undefined when the player didn't play goalie
+ */
+export function mapGoalieGameStatsColumns(row: GoalieGameStatsColumns): GoalieGameStats | undefined {
+  if (!row.played_goalie && row.shots_against === 0 && row.goals_against === 0) {
+    return undefined;
+  }
+
+  return {
+    ...goalieStats(row.shots_against, row.goals_against, row.goalie_seconds),
+    shutout: row.shutout,
+  };
+}
+
+/**
+ * Convert database row to PlayerGameStats model
+ */
+export function mapPlayerGameStatsRow(row: PlayerGameStatsRow): PlayerGameStats {
+  return {
+    game_id: row.game_id,
+    player_id: row.player_id,
+    team_id: row.team_id,
+    first_name: row.first_name,
+    last_name: row.last_name,
+    jersey_number: row.jersey_number || undefined,
+    goals: row.goals,
+    assists: row.assists,
+    points: row.goals + row.assists,
+    shots: row.shots,
+    penalty_minutes: row.penalty_minutes,
+    goalie: mapGoalieGameStatsColumns(row),
+  };
+}
+
+/**
+ * Convert database row to SeasonPlayerTotals model
+ */
+export function mapSeasonPlayerTotalsRow(row: SeasonPlayerTotalsRow): SeasonPlayerTotals {
+  return {
+    player_id: row.player_id,
+    team_id: row.team_id,
+    first_name: row.first_name,
+    last_name: row.last_name,
+    jersey_number: row.jersey_number || undefined,
+    games_played: row.games_played,
+    goals: row.goals,
+    assists: row.assists,
+    points: row.goals + row.assists,
+    shots: row.shots,
+    penalty_minutes: row.penalty_minutes,
+  };
+}
+
+/**
+ * Convert database row to PlayerGameLogEntry model
+ */
+export function mapPlayerGameLogRow(row: PlayerGameLogRow): PlayerGameLogEntry {
+  const isHome = row.team_id === row.home_team_id;
+
+  return {
+    game_id: row.game_id,
+    season_id: row.season_id,
+    scheduled_at: row.scheduled_at,
+    status: row.status as GameStatus,
+    team_id: row.team_id,
+    opponent_team_id: isHome ? row.away_team_id : row.home_team_id,
+    is_home: isHome,
+    goals: row.goals,
+    assists: row.assists,
+    points: row.goals + row.assists,
+    shots: row.shots,
+    penalty_minutes: row.penalty_minutes,
+    goalie: mapGoalieGameStatsColumns(row),
+  };
+}
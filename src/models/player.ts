@@ -50,3 +50,23 @@ export function mapPlayerRow(row: PlayerRow): Player {
     updated_at: row.updated_at,
   };
 }
+
+/**
+ * Player create request
+ */
+export interface CreatePlayerInput {
+  first_name: string;
+  last_name: string;
+  jersey_number?: string;
+  position?: string;
+}
+
+/**
+ * Player update request (all fields optional; null clears an optional field)
+ */
+export interface UpdatePlayerInput {
+  first_name?: string;
+  last_name?: string;
+  jersey_number?: string | null;
+  position?: string | null;
+}
@@ -50,6 +50,15 @@ export interface ErrorResponse {
   error: ErrorDetails;
 }
 
+/**
+ * One message of a text/event-stream (Server-Sent Events) response
+ */
+export interface ServerSentEvent {
+  id?: string;
+  event?: string;
+  data: string;
+}
+
 /**
  * HTTP status codes
  */
@@ -7,6 +7,8 @@
  * Requirements: 3.3, 3.4
  */
 
+import { PointsRulesInput, Tiebreaker } from './standing';
+
 /**
  * Season entity from database
  */
@@ -17,6 +19,9 @@ export interface Season {
   start_date: Date;              // Season start date
   end_date: Date;                // Season end date
   is_active: boolean;            // Whether season is currently active
+  completed_at?: Date;           // Set when the season is completed
+  points_rules?: PointsRulesInput; // Overrides the league's points rules when set
+  tiebreakers?: Tiebreaker[];    // Standings tiebreaker chain (defaults apply when unset)
   created_at: Date;              // Creation timestamp
   updated_at: Date;              // Last update timestamp
 }
@@ -31,6 +36,9 @@ export interface SeasonRow {
   start_date: Date;
   end_date: Date;
   is_active: boolean;
+  completed_at: Date | null;
+  points_rules: PointsRulesInput | null;
+  tiebreakers: Tiebreaker[] | null;
   created_at: Date;
   updated_at: Date;
 }
@@ -46,7 +54,35 @@ export function mapSeasonRow(row: SeasonRow): Season {
     start_date: row.start_date,
     end_date: row.end_date,
     is_active: row.is_active,
+    completed_at: row.completed_at || undefined,
+    points_rules: row.points_rules || undefined,
+    tiebreakers: row.tiebreakers || undefined,
     created_at: row.created_at,
     updated_at: row.updated_at,
   };
 }
+
+/**
+ * Season create request
+ *
+ * Dates are ISO 8601 calendar dates (YYYY-MM-DD). New seasons start
+ * inactive; use the activate transition to make one current.
+ */
+export interface CreateSeasonInput {
+  name: string;
+  start_date: string;
+  end_date: string;
+  points_rules?: PointsRulesInput;
+  tiebreakers?: Tiebreaker[];
+}
+
+/**
+ * Season update request (all fields optional)
+ */
+export interface UpdateSeasonInput {
+  name?: string;
+  start_date?: string;
+  end_date?: string;
+  points_rules?: PointsRulesInput | null;
+  tiebreakers?: Tiebreaker[] | null;
+}
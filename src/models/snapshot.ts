@@ -9,6 +9,22 @@
  */
 
 import { GameEvent } from './event';
+import { ActivePenalty, PeriodShots } from './game';
+
+/**
+ * Penalty being served, as shown in snapshots
+ */
+export interface SnapshotPenalty extends Omit<ActivePenalty, 'starts_at' | 'expires_at'> {
+  seconds_remaining: number;                // Game time left on the penalty
+}
+
+/**
+ * Team on the power play and how many more players it has on the ice
+ */
+export interface ManAdvantage {
+  team_id: string;
+  advantage: number;                        // 1 or 2
+}
 
 /**
  * Complete representation of current game state for client synchronization
@@ -17,6 +33,12 @@ import { GameEvent } from './event';
  * - POST /v1/games/{gameId}/events response (after event creation)
  * - GET /v1/games/{gameId}/snapshot response
  * - WebSocket initial_snapshot and snapshot_update messages
+ * 
+ * sequence is the game's update sequence when the snapshot was taken; the
+ * next snapshot_delta for the game carries sequence + 1.
+ * 
+ * clock_seconds and each penalty's seconds_remaining are the time left at
+ * generated_at; while clock_running, clients count them down themselves.
  */
 export interface GameSnapshot {
   game_id: string;                          // Game identifier
@@ -24,8 +46,49 @@ export interface GameSnapshot {
   away_score: number;                       // Current away team score
   period: number;                           // Current period number
   clock_seconds: number;                    // Current clock time in seconds
+  clock_running: boolean;                   // Whether the clock is counting down
+  active_penalties: SnapshotPenalty[];      // Penalties being served, soonest to expire first
+  man_advantage: ManAdvantage | null;       // Power play, or null at even strength
+  home_shots: number;                       // Home team shots on goal
+  away_shots: number;                       // Away team shots on goal
+  shots_by_period: PeriodShots[];           // Shots on goal per period, in period order
   status: 'scheduled' | 'in_progress' | 'final' | 'postponed';  // Game status
   recent_events: GameEvent[];               // 10 most recent events, ordered by occurred_at desc
+  sequence: number;                         // Game update sequence the snapshot reflects
   snapshot_version: string;                 // Schema version (e.g., "1.0")
   generated_at: string;                     // ISO-8601 timestamp when snapshot was generated
 }
+
+/**
+ * Snapshot fields that are compared to build a delta
+ */
+export type GameSnapshotState = Omit<
+  GameSnapshot,
+  'game_id' | 'recent_events' | 'sequence' | 'snapshot_version' | 'generated_at'
+>;
+
+/**
+ * Snapshot fields that aren't game state
+ */
+export const SNAPSHOT_METADATA_FIELDS = [
+  'game_id',
+  'recent_events',
+  'sequence',
+  'snapshot_version',
+  'generated_at',
+] as const;
+
+/**
+ * Change to a game since its previous update
+ * 
+ * Used in WebSocket snapshot_delta messages. A client holding the game at
+ * sequence - 1 applies changes over its state and prepends new_events to
+ * its recent events; any other sequence means updates were missed and the
+ * client should resync.
+ */
+export interface GameSnapshotDelta {
+  game_id: string;                          // Game identifier
+  sequence: number;                         // Game update sequence after this change
+  changes: Partial<GameSnapshotState>;      // Fields whose values changed, with new values
+  new_events: GameEvent[];                  // Events recorded by this change, newest first
+}
@@ -7,6 +7,97 @@
  * Requirements: 7.1, 7.9, 7.10
  */
 
+/**
+ * Bonus awarded to any team scoring at least `threshold` goals in a game
+ */
+export interface ScoringBonusRule {
+  threshold: number;
+  points: number;
+}
+
+/**
+ * Bonus awarded to a losing team that loses by `margin` goals or fewer
+ */
+export interface LosingBonusRule {
+  margin: number;
+  points: number;
+}
+
+/**
+ * Points awarded per game result
+ *
+ * Stored on the league, optionally overridden per season. Games decided in
+ * overtime or a shootout award overtime_win/overtime_loss instead of
+ * win/loss. When allow_ties is false, tied final scores are rejected.
+ */
+export interface PointsRules {
+  win: number;
+  tie: number;
+  loss: number;
+  overtime_win: number;
+  overtime_loss: number;
+  allow_ties: boolean;
+  scoring_bonus: ScoringBonusRule | null;
+  losing_bonus: LosingBonusRule | null;
+}
+
+/**
+ * Stored points rules; omitted fields fall back to DEFAULT_POINTS_RULES
+ */
+export type PointsRulesInput = Partial<PointsRules>;
+
+/**
+ * Points rules used when neither the league nor the season sets any
+ * (3 for a win, 1 for a tie, nothing for a loss)
+ */
+export const DEFAULT_POINTS_RULES: PointsRules = {
+  win: 3,
+  tie: 1,
+  loss: 0,
+  overtime_win: 3,
+  overtime_loss: 0,
+  allow_ties: true,
+  scoring_bonus: null,
+  losing_bonus: null,
+};
+
+/**
+ * Merge stored points rules over the defaults
+ */
+export function resolvePointsRules(rules?: PointsRulesInput | null): PointsRules {
+  return { ...DEFAULT_POINTS_RULES, ...(rules || {}) };
+}
+
+/**
+ * Criteria used, in order, to separate teams tied on points
+ *
+ * - head_to_head: Points earned in games among the tied teams
+ * - wins: Most wins
+ * - goal_differential: Best goal differential
+ * - goals_for: Most goals scored
+ * - goals_against: Fewest goals conceded
+ * - draw: Deterministic draw seeded by season and team (always the last resort)
+ */
+export type Tiebreaker =
+  | 'head_to_head'
+  | 'wins'
+  | 'goal_differential'
+  | 'goals_for'
+  | 'goals_against'
+  | 'draw';
+
+/**
+ * Tiebreaker chain used when a season doesn't set one
+ */
+export const DEFAULT_TIEBREAKERS: Tiebreaker[] = [
+  'head_to_head',
+  'wins',
+  'goal_differential',
+  'goals_for',
+  'goals_against',
+  'draw',
+];
+
 /**
  * Team standing entity from database
  */
@@ -16,9 +107,11 @@ export interface TeamStanding {
   team_id: string;               // UUID - Team identifier
   games_played: number;          // Total games played
   wins: number;                  // Number of wins
-  losses: number;                // Number of losses
+  losses: number;                // Number of regulation losses
   ties: number;                  // Number of ties
-  points: number;                // Total points (wins × 3 + ties × 1)
+  ot_losses: number;             // Number of overtime/shootout losses
+  bonus_points: number;          // Bonus points included in points
+  points: number;                // Total points under the season's points rules
   goals_for: number;             // Total goals scored
   goals_against: number;         // Total goals conceded
   goal_differential: number;     // goals_for - goals_against
@@ -27,6 +120,20 @@ export interface TeamStanding {
   updated_at: Date;              // Last update timestamp
 }
 
+/**
+ * A standing's computed position in the table
+ */
+export interface StandingPosition {
+  rank: number;                  // 1-based position, unique within the season
+  tiebreaker: Tiebreaker | null; // Criterion that separated the team from teams
+                                 // level on points; null when points alone did
+}
+
+/**
+ * Team standing with its computed position in the table
+ */
+export interface RankedStanding extends TeamStanding, StandingPosition {}
+
 /**
  * Standing database row (matches PostgreSQL schema)
  */
@@ -38,6 +145,8 @@ export interface StandingRow {
   wins: number;
   losses: number;
   ties: number;
+  ot_losses: number;
+  bonus_points: number;
   points: number;
   goals_for: number;
   goals_against: number;
@@ -59,6 +168,8 @@ export function mapStandingRow(row: StandingRow): TeamStanding {
     wins: row.wins,
     losses: row.losses,
     ties: row.ties,
+    ot_losses: row.ot_losses,
+    bonus_points: row.bonus_points,
     points: row.points,
     goals_for: row.goals_for,
     goals_against: row.goals_against,
@@ -79,9 +190,92 @@ export interface StandingUpsertData {
   wins: number;
   losses: number;
   ties: number;
+  ot_losses: number;
+  bonus_points: number;
   points: number;
   goals_for: number;
   goals_against: number;
   goal_differential: number;
   streak?: string;
 }
+
+/**
+ * Standing rebuilt from a season's games up to a point in time (not stored)
+ */
+export interface HistoricalStanding extends StandingUpsertData, StandingPosition {}
+
+/**
+ * A team's place in the table at the end of one week of the season
+ */
+export interface WeeklyRank {
+  week: number;                  // 1-based, counted from the season start date
+  as_of: string;                 // Last day of the week (YYYY-MM-DD)
+  rank: number;
+  points: number;
+  change: number | null;         // Places gained since the previous week
+                                 // (negative when dropped); null in week 1
+}
+
+/**
+ * A team's rank week by week
+ */
+export interface TeamRankMovement {
+  team_id: string;
+  weeks: WeeklyRank[];
+}
+
+/**
+ * Stored standing fields compared by the consistency audit
+ */
+export const AUDITED_STANDING_FIELDS = [
+  'games_played',
+  'wins',
+  'losses',
+  'ties',
+  'ot_losses',
+  'bonus_points',
+  'points',
+  'goals_for',
+  'goals_against',
+  'goal_differential',
+  'streak',
+] as const;
+
+export type AuditedStandingField = typeof AUDITED_STANDING_FIELDS[number];
+
+/**
+ * How a stored standing differs from the one rebuilt from games
+ *
+ * - missing: A team in the season's league has no stored row
+ * - unexpected: A stored row belongs to a team outside the season's league
+ * - mismatch: Stored values differ from the rebuilt ones
+ */
+export type StandingDriftKind = 'missing' | 'unexpected' | 'mismatch';
+
+/**
+ * A stored value next to the value rebuilt from games (null when absent)
+ */
+export interface StandingFieldDrift {
+  stored: number | string | null;
+  expected: number | string | null;
+}
+
+/**
+ * One team's drift between stored and rebuilt standings
+ */
+export interface StandingDrift {
+  team_id: string;
+  kind: StandingDriftKind;
+  fields: Partial<Record<AuditedStandingField, StandingFieldDrift>>; // Only fields that differ
+  repaired: boolean;             // Whether the stored row was rewritten
+}
+
+/**
+ * Result of comparing a season's stored standings with a rebuild from games
+ */
+export interface StandingsAudit {
+  season_id: string;
+  teams_checked: number;         // Teams in the league plus unexpected rows
+  consistent: boolean;           // True when no drift was found
+  drift: StandingDrift[];
+}
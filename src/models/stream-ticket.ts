@@ -0,0 +1,53 @@
+/**
+ * Stream Ticket Models
+ *
+ * Type definitions for game stream tickets. Browser EventSource clients
+ * can't set an Authorization header, so they open a game's stream with a
+ * short-lived ticket for that game instead of putting their JWT in the URL.
+ */
+
+/**
+ * How long a stream ticket can be used to open its game's stream
+ */
+export const STREAM_TICKET_TTL_SECONDS = 300;
+
+/**
+ * Stream ticket entity from database
+ */
+export interface StreamTicket {
+  ticket: string;                // Random ticket value (primary key)
+  tenant_id: string;             // Tenant of the user it was issued to
+  game_id: string;               // UUID - The only game it opens
+  user_id: string;               // User it was issued to
+  roles: string[];               // User's roles when it was issued
+  expires_at: Date;              // When it stops being accepted
+  created_at: Date;              // Creation timestamp
+}
+
+/**
+ * Stream ticket database row (matches PostgreSQL schema)
+ */
+export interface StreamTicketRow {
+  ticket: string;
+  tenant_id: string;
+  game_id: string;
+  user_id: string;
+  roles: string[] | null;
+  expires_at: Date;
+  created_at: Date;
+}
+
+/**
+ * Convert database row to StreamTicket model
+ */
+export function mapStreamTicketRow(row: StreamTicketRow): StreamTicket {
+  return {
+    ticket: row.ticket,
+    tenant_id: row.tenant_id,
+    game_id: row.game_id,
+    user_id: row.user_id,
+    roles: row.roles || [],
+    expires_at: row.expires_at,
+    created_at: row.created_at,
+  };
+}
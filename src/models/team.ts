@@ -56,3 +56,25 @@ export function mapTeamRow(row: TeamRow): Team {
     updated_at: row.updated_at,
   };
 }
+
+/**
+ * Team create request
+ */
+export interface CreateTeamInput {
+  name: string;
+  abbreviation?: string;
+  logo_url?: string;
+  primary_color?: string;
+  secondary_color?: string;
+}
+
+/**
+ * Team update request (all fields optional; null clears an optional field)
+ */
+export interface UpdateTeamInput {
+  name?: string;
+  abbreviation?: string | null;
+  logo_url?: string | null;
+  primary_color?: string | null;
+  secondary_color?: string | null;
+}
@@ -8,54 +8,152 @@
  * Requirements: 4.1, 11.1, 14.1-14.6
  */
 
-import { GameSnapshot } from './snapshot';
+import { GameSnapshot, GameSnapshotDelta } from './snapshot';
+import { GameEvent } from './event';
 
 /**
  * WebSocket connection metadata stored in DynamoDB
  * 
  * Used for:
- * - Tracking active WebSocket connections per game
+ * - Tracking active WebSocket connections
  * - Enabling broadcast distribution to connected clients
  * - Multi-tenant isolation of real-time updates
  * - Automatic cleanup of stale connections via TTL
  * 
+ * What a connection watches is stored separately as WebSocketSubscriptions.
+ * 
  * DynamoDB Schema:
  * - Table: scorebase-websocket-connections
  * - Partition Key: connection_id (string)
- * - GSI: game-connections-index
- *   - Partition Key: game_id (string)
- *   - Sort Key: connected_at (string)
  * - TTL Attribute: ttl (24 hours from connection)
  */
 export interface WebSocketConnection {
   connection_id: string;        // API Gateway connection ID (partition key)
-  game_id: string;              // Game being watched (GSI partition key)
   tenant_id: string;            // Tenant identifier for isolation
   user_id: string;              // User identifier from JWT
   connected_at: string;         // ISO-8601 timestamp
   ttl: number;                  // Unix timestamp for DynamoDB TTL (24 hours)
 }
 
+/**
+ * What a subscription follows
+ * 
+ * - game: One game
+ * - season: Every game in a season
+ * - league: Every game in the league's seasons
+ * - team: Every game the team plays, home or away
+ */
+export type SubscriptionScope = 'game' | 'season' | 'league' | 'team';
+
+export const SUBSCRIPTION_SCOPES: readonly SubscriptionScope[] = ['game', 'season', 'league', 'team'];
+
+/**
+ * A scope and the id of the game, season, league or team it follows
+ */
+export interface SubscriptionTarget {
+  scope: SubscriptionScope;
+  scope_id: string;
+}
+
+/**
+ * A connection's subscription stored in DynamoDB
+ * 
+ * A connection can hold several subscriptions, e.g. a league and one of
+ * its teams; broadcasts reach it once per snapshot either way.
+ * 
+ * DynamoDB Schema:
+ * - Table: scorebase-websocket-subscriptions
+ * - Partition Key: connection_id (string)
+ * - Sort Key: scope_key (string)
+ * - GSI: scope-subscriptions-index
+ *   - Partition Key: scope_key (string)
+ *   - Sort Key: connection_id (string)
+ * - TTL Attribute: ttl (copied from the connection)
+ */
+export interface WebSocketSubscription extends SubscriptionTarget {
+  connection_id: string;        // API Gateway connection ID (partition key)
+  scope_key: string;            // "{scope}#{scope_id}" (sort key, GSI partition key)
+  tenant_id: string;            // Tenant identifier for isolation
+  subscribed_at: string;        // ISO-8601 timestamp
+  ttl: number;                  // Unix timestamp for DynamoDB TTL
+}
+
+/**
+ * Build the scope_key a subscription is stored and queried under
+ */
+export function subscriptionScopeKey(target: SubscriptionTarget): string {
+  return `${target.scope}#${target.scope_id}`;
+}
+
 /**
  * WebSocket message format for real-time communication
  * 
  * Used for:
- * - Sending initial game snapshots on connection
- * - Broadcasting game state updates to connected clients
+ * - Sending initial game snapshots on subscription
+ * - Broadcasting game state changes to connected clients
  * - Keepalive ping/pong messages
  * 
  * Message Types:
- * - initial_snapshot: Sent when client first connects
- * - snapshot_update: Broadcast when game events occur
+ * - initial_snapshot: Sent when client subscribes
+ * - snapshot_delta: Broadcast when game events occur (changed fields only)
+ * - snapshot_update: Full snapshot sent in reply to a resync, or to a game
+ *   stream client that's behind (with the events it missed)
  * - ping: Server keepalive message (every 30 seconds)
- * - pong: Client response to ping
+ * - pong: Response to a client ping action
+ * - error: A client action failed
  * 
  * Requirements: 14.1-14.6
  */
 export interface WebSocketMessage {
-  message_type: 'initial_snapshot' | 'snapshot_update' | 'ping' | 'pong';
+  message_type: 'initial_snapshot' | 'snapshot_update' | 'snapshot_delta' | 'ping' | 'pong' | 'error';
   timestamp: string;            // ISO-8601 timestamp
   data?: GameSnapshot;          // Present for snapshot messages (initial_snapshot, snapshot_update)
+  delta?: GameSnapshotDelta;    // Present for snapshot_delta messages
+  events?: GameEvent[];         // Events missed since a stream's Last-Event-ID, on its snapshot_update
+  error?: WebSocketError;       // Present for error messages
   request_id?: string;          // Optional request correlation ID
 }
 
+/**
+ * Why a client action failed
+ */
+export interface WebSocketError {
+  code: string;                 // e.g. GAME_NOT_FOUND, INVALID_MESSAGE
+  message: string;
+}
+
+/**
+ * Actions a client can send, routed on the message's action field
+ * 
+ * - subscribe: Watch a game, season, league or team; answered with an
+ *   initial_snapshot for each live game it covers
+ * - unsubscribe: Stop watching one target, or everything
+ * - resync: Fetch a game's full snapshot after missing a delta; answered
+ *   with a snapshot_update
+ * - ping: Keepalive; answered with a pong
+ */
+export type WebSocketAction = 'subscribe' | 'unsubscribe' | 'resync' | 'ping';
+
+/**
+ * Message sent by a client
+ */
+export interface WebSocketClientMessage {
+  action: WebSocketAction;
+  scope?: SubscriptionScope;    // What to (un)subscribe from
+  scope_id?: string;            // Id of the game, season, league or team
+  game_id?: string;             // Shorthand for scope game; the game to resync
+  request_id?: string;          // Echoed back on the reply
+}
+
+/**
+ * How long a connection record is kept (API Gateway closes connections
+ * after two hours, so this only cleans up missed disconnects)
+ */
+export const CONNECTION_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * How long a Server-Sent Events client waits before reconnecting for more
+ * updates (API Gateway buffers responses, so each request ends once sent)
+ */
+export const STREAM_RETRY_MILLISECONDS = 3000;
+
@@ -0,0 +1,314 @@
+/**
+ * Bracket Repository
+ *
+ * Data access layer for playoff brackets, their series and their games
+ * with multi-tenant isolation. All queries enforce tenant_id filtering
+ * through season -> league relationships and use parameterized queries
+ * to prevent SQL injection.
+ */
+
+import { PoolClient } from 'pg';
+import {
+  enforceMultiTenantIsolationMany,
+  enforceMultiTenantIsolationSingle,
+} from '../middleware/multi-tenant-isolation';
+import { isUniqueViolation } from '../middleware/error-handler';
+import {
+  BracketRecord,
+  BracketRow,
+  BracketSeriesDefinition,
+  BracketSeriesRow,
+  BracketGameInput,
+  BracketFormat,
+  mapBracketRow,
+} from '../models/bracket';
+import { Game, GameRow, GameStatus, GAME_COLUMNS, mapGameRow } from '../models/game';
+import { ConflictError } from '../models/errors';
+import { transaction } from '../config/database';
+
+/**
+ * Unique constraint on brackets.season_id
+ */
+const BRACKET_SEASON_CONSTRAINT = 'brackets_season_id_key';
+
+/**
+ * Bracket fields as stored on create
+ */
+export interface BracketCreateData {
+  format: BracketFormat;
+  best_of: number;
+  seeds: string[];
+  starts_at: Date;
+  game_interval_hours: number;
+  location?: string;
+}
+
+/**
+ * Bracket Repository
+ * Provides data access methods for playoff brackets with tenant isolation
+ */
+export class BracketRepository {
+  /**
+   * Find a season's bracket with tenant validation
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Bracket if the season has one and belongs to tenant, null otherwise
+   */
+  async findBySeasonId(tenantId: string, seasonId: string): Promise<BracketRecord | null> {
+    const query = `
+      SELECT
+        b.id,
+        b.season_id,
+        b.format,
+        b.best_of,
+        b.seeds,
+        b.starts_at,
+        b.game_interval_hours,
+        b.location,
+        b.created_at,
+        b.updated_at
+      FROM brackets b
+      INNER JOIN seasons s ON b.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND b.season_id = $2
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<BracketRow>(
+      tenantId,
+      query,
+      [seasonId] // Additional param after tenant_id
+    );
+
+    return row ? mapBracketRow(row) : null;
+  }
+
+  /**
+   * Find a bracket's series with tenant validation
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param bracketId - Bracket identifier
+   * @returns Series in play order (winners, losers, final; by round and position)
+   */
+  async findSeries(tenantId: string, bracketId: string): Promise<BracketSeriesRow[]> {
+    const query = `
+      SELECT
+        bs.id,
+        bs.bracket_id,
+        bs.key,
+        bs.side,
+        bs.round,
+        bs.position,
+        bs.home_source,
+        bs.away_source
+      FROM bracket_series bs
+      INNER JOIN brackets b ON bs.bracket_id = b.id
+      INNER JOIN seasons s ON b.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND bs.bracket_id = $2
+      ORDER BY
+        CASE bs.side WHEN 'winners' THEN 1 WHEN 'losers' THEN 2 ELSE 3 END,
+        bs.round,
+        bs.position
+    `;
+
+    return enforceMultiTenantIsolationMany<BracketSeriesRow>(
+      tenantId,
+      query,
+      [bracketId] // Additional param after tenant_id
+    );
+  }
+
+  /**
+   * Create a season's bracket and its series atomically
+   *
+   * Locks the season row first, so bracket creation is serialized with
+   * schedule generation and bracket game creation for the season.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param data - Bracket fields
+   * @param series - Series structure
+   * @returns Created bracket and series, or null if the season is not found for tenant
+   * @throws ConflictError if the season already has a bracket
+   */
+  async create(
+    tenantId: string,
+    seasonId: string,
+    data: BracketCreateData,
+    series: BracketSeriesDefinition[]
+  ): Promise<{ bracket: BracketRecord; series: BracketSeriesRow[] } | null> {
+    try {
+      return await transaction(async (client: PoolClient) => {
+        if (!(await this.lockSeason(client, tenantId, seasonId))) {
+          return null;
+        }
+
+        const bracketResult = await client.query<BracketRow>(
+          `
+            INSERT INTO brackets (
+              season_id,
+              format,
+              best_of,
+              seeds,
+              starts_at,
+              game_interval_hours,
+              location
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+            RETURNING
+              id,
+              season_id,
+              format,
+              best_of,
+              seeds,
+              starts_at,
+              game_interval_hours,
+              location,
+              created_at,
+              updated_at
+          `,
+          [
+            seasonId,
+            data.format,
+            data.best_of,
+            JSON.stringify(data.seeds),
+            data.starts_at,
+            data.game_interval_hours,
+            data.location ?? null,
+          ]
+        );
+
+        const bracket = mapBracketRow(bracketResult.rows[0]);
+        const rows: BracketSeriesRow[] = [];
+
+        for (const definition of series) {
+          const result = await client.query<BracketSeriesRow>(
+            `
+              INSERT INTO bracket_series (
+                bracket_id,
+                key,
+                side,
+                round,
+                position,
+                home_source,
+                away_source
+              ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+              RETURNING
+                id,
+                bracket_id,
+                key,
+                side,
+                round,
+                position,
+                home_source,
+                away_source
+            `,
+            [
+              bracket.id,
+              definition.key,
+              definition.side,
+              definition.round,
+              definition.position,
+              definition.home_source,
+              definition.away_source,
+            ]
+          );
+
+          rows.push(result.rows[0]);
+        }
+
+        return { bracket, series: rows };
+      });
+    } catch (error) {
+      if (isUniqueViolation(error, BRACKET_SEASON_CONSTRAINT)) {
+        throw new ConflictError('Season already has a playoff bracket');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Create bracket games for a season
+   *
+   * A game whose series already has a game with the same number is skipped,
+   * so concurrent advancement never creates a game twice.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param inputs - Games to create
+   * @returns Games actually created, or null if the season is not found for tenant
+   */
+  async createGames(
+    tenantId: string,
+    seasonId: string,
+    inputs: BracketGameInput[]
+  ): Promise<Game[] | null> {
+    return transaction(async (client: PoolClient) => {
+      if (!(await this.lockSeason(client, tenantId, seasonId))) {
+        return null;
+      }
+
+      const games: Game[] = [];
+
+      for (const input of inputs) {
+        const result = await client.query<GameRow>(
+          `
+            INSERT INTO games AS g (
+              season_id,
+              home_team_id,
+              away_team_id,
+              scheduled_at,
+              location,
+              status,
+              bracket_series_id,
+              series_game_number
+            ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+            ON CONFLICT (bracket_series_id, series_game_number) DO NOTHING
+            RETURNING
+              ${GAME_COLUMNS}
+          `,
+          [
+            seasonId,
+            input.home_team_id,
+            input.away_team_id,
+            input.scheduled_at,
+            input.location ?? null,
+            GameStatus.SCHEDULED,
+            input.bracket_series_id,
+            input.series_game_number,
+          ]
+        );
+
+        if (result.rows.length > 0) {
+          games.push(mapGameRow(result.rows[0]));
+        }
+      }
+
+      return games;
+    });
+  }
+
+  /**
+   * Lock a season row for the rest of the transaction
+   *
+   * Queries run on the transaction client rather than through the tenant
+   * isolation wrapper; the lock query joins on tenant_id and nothing is
+   * written unless it matches.
+   *
+   * @returns True if the season exists for tenant
+   */
+  private async lockSeason(client: PoolClient, tenantId: string, seasonId: string): Promise<boolean> {
+    const lockResult = await client.query<{ id: string }>(
+      `
+        SELECT s.id
+        FROM seasons s
+        INNER JOIN leagues l ON s.league_id = l.id
+        WHERE l.tenant_id = $1 AND s.id = $2
+        FOR UPDATE OF s
+      `,
+      [tenantId, seasonId]
+    );
+
+    return lockResult.rows.length > 0;
+  }
+}
@@ -2,14 +2,28 @@
  * Connection Repository
  * 
  * Data access layer for WebSocket connections with multi-tenant isolation.
- * Manages connection metadata in DynamoDB for real-time game synchronization.
+ * Manages connection metadata and subscriptions in DynamoDB for real-time
+ * game synchronization.
  * 
  * Requirements: 4.1, 11.1, 11.2
  */
 
-import { DynamoDBDocumentClient, PutCommand, DeleteCommand, QueryCommand, GetCommand } from '@aws-sdk/lib-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  PutCommand,
+  DeleteCommand,
+  QueryCommand,
+  GetCommand,
+  TransactWriteCommand,
+  BatchWriteCommand,
+} from '@aws-sdk/lib-dynamodb';
 import { getDynamoDBClient } from '../config/dynamodb';
-import { WebSocketConnection } from '../models/websocket';
+import {
+  SubscriptionTarget,
+  WebSocketConnection,
+  WebSocketSubscription,
+  subscriptionScopeKey,
+} from '../models/websocket';
 import { loadEnvironmentConfig } from '../config/environment';
 
 /**
@@ -19,13 +33,16 @@ import { loadEnvironmentConfig } from '../config/environment';
 export class ConnectionRepository {
   private client: DynamoDBDocumentClient;
   private tableName: string;
+  private subscriptionsTableName: string;
   private gsiName: string;
 
   constructor() {
     this.client = getDynamoDBClient();
     const config = loadEnvironmentConfig();
     this.tableName = config.websocketConnectionsTableName || 'scorebase-websocket-connections';
-    this.gsiName = 'game-connections-index';
+    this.subscriptionsTableName =
+      config.websocketSubscriptionsTableName || 'scorebase-websocket-subscriptions';
+    this.gsiName = 'scope-subscriptions-index';
   }
 
   /**
@@ -47,12 +64,13 @@ export class ConnectionRepository {
   }
 
   /**
-   * Remove connection metadata from DynamoDB
+   * Remove connection metadata and its subscriptions from DynamoDB
    * 
    * @param connectionId - Connection identifier to remove
    */
   async removeConnection(connectionId: string): Promise<void> {
     try {
+      await this.removeSubscriptions(connectionId);
       await this.client.send(
         new DeleteCommand({
           TableName: this.tableName,
@@ -67,55 +85,197 @@ export class ConnectionRepository {
   }
 
   /**
-   * Get all active connections for a game with tenant filtering
-   * 
-   * Uses GSI to query by game_id, then filters by tenant_id for multi-tenant isolation.
+   * Get connection by ID
    * 
-   * @param gameId - Game identifier
-   * @param tenantId - Tenant identifier for filtering
-   * @returns Array of active connections for the game belonging to the tenant
+   * @param connectionId - Connection identifier
+   * @returns Connection metadata or null if not found
    */
-  async getConnectionsByGame(gameId: string, tenantId: string): Promise<WebSocketConnection[]> {
+  async getConnection(connectionId: string): Promise<WebSocketConnection | null> {
     try {
       const result = await this.client.send(
-        new QueryCommand({
+        new GetCommand({
           TableName: this.tableName,
-          IndexName: this.gsiName,
-          KeyConditionExpression: 'game_id = :game_id',
-          FilterExpression: 'tenant_id = :tenant_id',
-          ExpressionAttributeValues: {
-            ':game_id': gameId,
-            ':tenant_id': tenantId,
+          Key: {
+            connection_id: connectionId,
           },
         })
       );
 
-      return (result.Items || []) as WebSocketConnection[];
+      return result.Item ? (result.Item as WebSocketConnection) : null;
     } catch (error) {
-      throw new Error(`Failed to get connections by game: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to get connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 
   /**
-   * Get connection by ID
+   * Subscribe a connection to a game, season, league or team
+   * 
+   * Subscribing again to the same target is a no-op apart from refreshing
+   * subscribed_at.
+   * 
+   * @param connection - Connection subscribing (supplies tenant and TTL)
+   * @param target - What to subscribe to
+   * @returns False if the connection no longer exists
+   */
+  async addSubscription(connection: WebSocketConnection, target: SubscriptionTarget): Promise<boolean> {
+    const subscription: WebSocketSubscription = {
+      connection_id: connection.connection_id,
+      scope_key: subscriptionScopeKey(target),
+      scope: target.scope,
+      scope_id: target.scope_id,
+      tenant_id: connection.tenant_id,
+      subscribed_at: new Date().toISOString(),
+      ttl: connection.ttl,
+    };
+
+    try {
+      // The condition keeps a subscription from outliving a connection
+      // that disconnected while subscribing
+      await this.client.send(
+        new TransactWriteCommand({
+          TransactItems: [
+            {
+              ConditionCheck: {
+                TableName: this.tableName,
+                Key: {
+                  connection_id: connection.connection_id,
+                },
+                ConditionExpression: 'attribute_exists(connection_id)',
+              },
+            },
+            {
+              Put: {
+                TableName: this.subscriptionsTableName,
+                Item: subscription,
+              },
+            },
+          ],
+        })
+      );
+
+      return true;
+    } catch (error) {
+      if (error instanceof Error && error.name === 'TransactionCanceledException') {
+        return false;
+      }
+      throw new Error(`Failed to add subscription: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Remove one of a connection's subscriptions
    * 
    * @param connectionId - Connection identifier
-   * @returns Connection metadata or null if not found
+   * @param target - Subscription to remove
    */
-  async getConnection(connectionId: string): Promise<WebSocketConnection | null> {
+  async removeSubscription(connectionId: string, target: SubscriptionTarget): Promise<void> {
     try {
-      const result = await this.client.send(
-        new GetCommand({
-          TableName: this.tableName,
+      await this.client.send(
+        new DeleteCommand({
+          TableName: this.subscriptionsTableName,
           Key: {
             connection_id: connectionId,
+            scope_key: subscriptionScopeKey(target),
           },
         })
       );
+    } catch (error) {
+      throw new Error(`Failed to remove subscription: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
 
-      return result.Item ? (result.Item as WebSocketConnection) : null;
+  /**
+   * Remove all of a connection's subscriptions
+   * 
+   * @param connectionId - Connection identifier
+   */
+  async removeSubscriptions(connectionId: string): Promise<void> {
+    try {
+      const subscriptions = await this.getSubscriptions(connectionId);
+
+      // BatchWrite accepts at most 25 requests
+      for (let i = 0; i < subscriptions.length; i += 25) {
+        await this.client.send(
+          new BatchWriteCommand({
+            RequestItems: {
+              [this.subscriptionsTableName]: subscriptions.slice(i, i + 25).map(subscription => ({
+                DeleteRequest: {
+                  Key: {
+                    connection_id: connectionId,
+                    scope_key: subscription.scope_key,
+                  },
+                },
+              })),
+            },
+          })
+        );
+      }
     } catch (error) {
-      throw new Error(`Failed to get connection: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      throw new Error(`Failed to remove subscriptions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get a connection's subscriptions
+   * 
+   * @param connectionId - Connection identifier
+   * @returns The connection's subscriptions
+   */
+  async getSubscriptions(connectionId: string): Promise<WebSocketSubscription[]> {
+    try {
+      const result = await this.client.send(
+        new QueryCommand({
+          TableName: this.subscriptionsTableName,
+          KeyConditionExpression: 'connection_id = :connection_id',
+          ExpressionAttributeValues: {
+            ':connection_id': connectionId,
+          },
+        })
+      );
+
+      return (result.Items || []) as WebSocketSubscription[];
+    } catch (error) {
+      throw new Error(`Failed to get subscriptions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  /**
+   * Get all subscriptions to a target with tenant filtering
+   * 
+   * Uses GSI to query by scope_key, then filters by tenant_id for multi-tenant isolation.
+   * 
+   * @param target - Game, season, league or team
+   * @param tenantId - Tenant identifier for filtering
+   * @returns Subscriptions to the target belonging to the tenant
+   */
+  async getSubscriptionsByScope(target: SubscriptionTarget, tenantId: string): Promise<WebSocketSubscription[]> {
+    try {
+      const subscriptions: WebSocketSubscription[] = [];
+      let exclusiveStartKey: Record<string, any> | undefined;
+
+      // League and season scopes can outgrow a single page
+      do {
+        const result = await this.client.send(
+          new QueryCommand({
+            TableName: this.subscriptionsTableName,
+            IndexName: this.gsiName,
+            KeyConditionExpression: 'scope_key = :scope_key',
+            FilterExpression: 'tenant_id = :tenant_id',
+            ExpressionAttributeValues: {
+              ':scope_key': subscriptionScopeKey(target),
+              ':tenant_id': tenantId,
+            },
+            ExclusiveStartKey: exclusiveStartKey,
+          })
+        );
+
+        subscriptions.push(...((result.Items || []) as WebSocketSubscription[]));
+        exclusiveStartKey = result.LastEvaluatedKey;
+      } while (exclusiveStartKey);
+
+      return subscriptions;
+    } catch (error) {
+      throw new Error(`Failed to get subscriptions by scope: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   }
 }
@@ -0,0 +1,348 @@
+/**
+ * Division Repository
+ *
+ * Data access layer for conferences, divisions and division membership
+ * with multi-tenant isolation. All queries enforce tenant_id filtering
+ * through season -> league relationships and use parameterized queries
+ * to prevent SQL injection.
+ */
+
+import {
+  enforceMultiTenantIsolationMany,
+  enforceMultiTenantIsolationSingle,
+} from '../middleware/multi-tenant-isolation';
+import { isUniqueViolation } from '../middleware/error-handler';
+import {
+  Conference,
+  ConferenceRow,
+  Division,
+  DivisionRow,
+  CreateConferenceInput,
+  CreateDivisionInput,
+  mapConferenceRow,
+  mapDivisionRow,
+} from '../models/division';
+import { ConflictError } from '../models/errors';
+
+/**
+ * Unique constraint on (season_id, name) for conferences
+ */
+const CONFERENCE_NAME_CONSTRAINT = 'conferences_season_name_unique';
+
+/**
+ * Unique constraint on (season_id, name) for divisions
+ */
+const DIVISION_NAME_CONSTRAINT = 'divisions_season_name_unique';
+
+/**
+ * Division columns with member team ids, for queries aliasing divisions as d
+ */
+const DIVISION_COLUMNS = `
+        d.id,
+        d.season_id,
+        d.conference_id,
+        d.name,
+        ARRAY(
+          SELECT dt.team_id FROM division_teams dt
+          WHERE dt.division_id = d.id
+          ORDER BY dt.created_at, dt.team_id
+        ) AS team_ids,
+        d.created_at,
+        d.updated_at`;
+
+/**
+ * Division Repository
+ * Provides data access methods for conferences and divisions with tenant isolation
+ */
+export class DivisionRepository {
+  /**
+   * Find all conferences for a season with tenant validation
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Array of conferences ordered by name
+   */
+  async findConferencesBySeasonId(tenantId: string, seasonId: string): Promise<Conference[]> {
+    const query = `
+      SELECT
+        c.id,
+        c.season_id,
+        c.name,
+        c.created_at,
+        c.updated_at
+      FROM conferences c
+      INNER JOIN seasons s ON c.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND c.season_id = $2
+      ORDER BY c.name ASC
+    `;
+
+    const rows = await enforceMultiTenantIsolationMany<ConferenceRow>(
+      tenantId,
+      query,
+      [seasonId] // Additional param after tenant_id
+    );
+
+    return rows.map(mapConferenceRow);
+  }
+
+  /**
+   * Create a conference in a season with tenant validation
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Conference fields
+   * @returns Created conference, or null if the season is not found for tenant
+   * @throws ConflictError if the name is taken in the season
+   */
+  async createConference(
+    tenantId: string,
+    seasonId: string,
+    input: CreateConferenceInput
+  ): Promise<Conference | null> {
+    const query = `
+      INSERT INTO conferences (season_id, name)
+      SELECT s.id, $3
+      FROM seasons s
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND s.id = $2
+      RETURNING
+        id,
+        season_id,
+        name,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const row = await enforceMultiTenantIsolationSingle<ConferenceRow>(
+        tenantId,
+        query,
+        [seasonId, input.name] // Additional params after tenant_id
+      );
+
+      return row ? mapConferenceRow(row) : null;
+    } catch (error) {
+      if (isUniqueViolation(error, CONFERENCE_NAME_CONSTRAINT)) {
+        throw new ConflictError(`A conference named "${input.name}" already exists in this season`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a conference with tenant validation
+   *
+   * Divisions in the conference are kept and become conference-less.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier the conference must belong to
+   * @param conferenceId - Conference identifier
+   * @returns True if the conference was deleted, false if not found
+   */
+  async deleteConference(
+    tenantId: string,
+    seasonId: string,
+    conferenceId: string
+  ): Promise<boolean> {
+    const query = `
+      DELETE FROM conferences c
+      USING seasons s, leagues l
+      WHERE c.season_id = s.id AND s.league_id = l.id
+        AND l.tenant_id = $1 AND c.season_id = $2 AND c.id = $3
+      RETURNING c.id
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<{ id: string }>(
+      tenantId,
+      query,
+      [seasonId, conferenceId] // Additional params after tenant_id
+    );
+
+    return row !== null;
+  }
+
+  /**
+   * Find all divisions for a season with tenant validation
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Array of divisions with member team ids, ordered by name
+   */
+  async findBySeasonId(tenantId: string, seasonId: string): Promise<Division[]> {
+    const query = `
+      SELECT ${DIVISION_COLUMNS}
+      FROM divisions d
+      INNER JOIN seasons s ON d.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND d.season_id = $2
+      ORDER BY d.name ASC
+    `;
+
+    const rows = await enforceMultiTenantIsolationMany<DivisionRow>(
+      tenantId,
+      query,
+      [seasonId] // Additional param after tenant_id
+    );
+
+    return rows.map(mapDivisionRow);
+  }
+
+  /**
+   * Find a division by ID with tenant validation
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param divisionId - Division identifier
+   * @returns Division with member team ids if found and belongs to tenant, null otherwise
+   */
+  async findById(tenantId: string, divisionId: string): Promise<Division | null> {
+    const query = `
+      SELECT ${DIVISION_COLUMNS}
+      FROM divisions d
+      INNER JOIN seasons s ON d.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND d.id = $2
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<DivisionRow>(
+      tenantId,
+      query,
+      [divisionId] // Additional param after tenant_id
+    );
+
+    return row ? mapDivisionRow(row) : null;
+  }
+
+  /**
+   * Create a division in a season with tenant validation
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Division fields (conference must belong to the same season)
+   * @returns Created division, or null if the season is not found for tenant
+   * @throws ConflictError if the name is taken in the season
+   */
+  async create(
+    tenantId: string,
+    seasonId: string,
+    input: CreateDivisionInput
+  ): Promise<Division | null> {
+    const query = `
+      INSERT INTO divisions (season_id, conference_id, name)
+      SELECT s.id, $3, $4
+      FROM seasons s
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND s.id = $2
+      RETURNING
+        id,
+        season_id,
+        conference_id,
+        name,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const row = await enforceMultiTenantIsolationSingle<DivisionRow>(
+        tenantId,
+        query,
+        [seasonId, input.conference_id ?? null, input.name] // Additional params after tenant_id
+      );
+
+      return row ? mapDivisionRow(row) : null;
+    } catch (error) {
+      if (isUniqueViolation(error, DIVISION_NAME_CONSTRAINT)) {
+        throw new ConflictError(`A division named "${input.name}" already exists in this season`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Delete a division with tenant validation
+   *
+   * Team assignments to the division are removed with it.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier the division must belong to
+   * @param divisionId - Division identifier
+   * @returns True if the division was deleted, false if not found
+   */
+  async delete(tenantId: string, seasonId: string, divisionId: string): Promise<boolean> {
+    const query = `
+      DELETE FROM divisions d
+      USING seasons s, leagues l
+      WHERE d.season_id = s.id AND s.league_id = l.id
+        AND l.tenant_id = $1 AND d.season_id = $2 AND d.id = $3
+      RETURNING d.id
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<{ id: string }>(
+      tenantId,
+      query,
+      [seasonId, divisionId] // Additional params after tenant_id
+    );
+
+    return row !== null;
+  }
+
+  /**
+   * Put a team in a division with tenant validation
+   *
+   * The team must belong to the division's league. A team already in
+   * another division of the same season is moved.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param divisionId - Division identifier
+   * @param teamId - Team identifier
+   * @returns True if assigned, false if the division or team is not found for tenant
+   */
+  async assignTeam(tenantId: string, divisionId: string, teamId: string): Promise<boolean> {
+    const query = `
+      INSERT INTO division_teams (season_id, team_id, division_id)
+      SELECT d.season_id, t.id, d.id
+      FROM divisions d
+      INNER JOIN seasons s ON d.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      INNER JOIN teams t ON t.league_id = l.id
+      WHERE l.tenant_id = $1 AND d.id = $2 AND t.id = $3
+      ON CONFLICT (season_id, team_id)
+      DO UPDATE SET division_id = EXCLUDED.division_id, created_at = NOW()
+      RETURNING team_id
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<{ team_id: string }>(
+      tenantId,
+      query,
+      [divisionId, teamId] // Additional params after tenant_id
+    );
+
+    return row !== null;
+  }
+
+  /**
+   * Take a team out of a division with tenant validation
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param divisionId - Division identifier
+   * @param teamId - Team identifier
+   * @returns True if removed, false if the team is not in the division for tenant
+   */
+  async removeTeam(tenantId: string, divisionId: string, teamId: string): Promise<boolean> {
+    const query = `
+      DELETE FROM division_teams dt
+      USING divisions d, seasons s, leagues l
+      WHERE dt.division_id = d.id AND d.season_id = s.id AND s.league_id = l.id
+        AND l.tenant_id = $1 AND dt.division_id = $2 AND dt.team_id = $3
+      RETURNING dt.team_id
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<{ team_id: string }>(
+      tenantId,
+      query,
+      [divisionId, teamId] // Additional params after tenant_id
+    );
+
+    return row !== null;
+  }
+}
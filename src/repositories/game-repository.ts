@@ -8,11 +8,32 @@
  * Requirements: 5.1, 5.2, 5.3, 5.4, 5.5
  */
 
+import { PoolClient } from 'pg';
 import {
   enforceMultiTenantIsolationMany,
   enforceMultiTenantIsolationSingle,
 } from '../middleware/multi-tenant-isolation';
-import { Game, GameRow, GameFilters, mapGameRow } from '../models/game';
+import {
+  Game,
+  GameRow,
+  GameFilters,
+  GameStatus,
+  CreateGameInput,
+  UpdateGameInput,
+  GAME_COLUMNS,
+  mapGameRow,
+} from '../models/game';
+import { transaction } from '../config/database';
+
+/**
+ * Columns that may be changed through update()
+ */
+const UPDATABLE_COLUMNS: (keyof UpdateGameInput)[] = [
+  'home_team_id',
+  'away_team_id',
+  'scheduled_at',
+  'location',
+];
 
 /**
  * Game Repository
@@ -77,17 +98,7 @@ export class GameRepository {
 
     const query = `
       SELECT 
-        g.id,
-        g.season_id,
-        g.home_team_id,
-        g.away_team_id,
-        g.scheduled_at,
-        g.status,
-        g.home_score,
-        g.away_score,
-        g.location,
-        g.created_at,
-        g.updated_at
+        ${GAME_COLUMNS}
       FROM games g
       INNER JOIN seasons s ON g.season_id = s.id
       INNER JOIN leagues l ON s.league_id = l.id
@@ -117,17 +128,7 @@ export class GameRepository {
   async findById(tenantId: string, gameId: string): Promise<Game | null> {
     const query = `
       SELECT 
-        g.id,
-        g.season_id,
-        g.home_team_id,
-        g.away_team_id,
-        g.scheduled_at,
-        g.status,
-        g.home_score,
-        g.away_score,
-        g.location,
-        g.created_at,
-        g.updated_at
+        ${GAME_COLUMNS}
       FROM games g
       INNER JOIN seasons s ON g.season_id = s.id
       INNER JOIN leagues l ON s.league_id = l.id
@@ -142,4 +143,302 @@ export class GameRepository {
 
     return row ? mapGameRow(row) : null;
   }
+
+  /**
+   * Find games involving any of the given teams within a time range
+   * 
+   * Used for scheduling conflict detection. Cancelled and postponed games
+   * don't occupy a slot and are ignored.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param teamIds - Teams to check (home or away)
+   * @param rangeStart - Exclusive lower bound on scheduled_at
+   * @param rangeEnd - Exclusive upper bound on scheduled_at
+   * @param excludeGameId - Game to ignore (the game being rescheduled)
+   * @returns Games that overlap the range, ordered by scheduled_at
+   */
+  async findTeamGamesInRange(
+    tenantId: string,
+    teamIds: string[],
+    rangeStart: Date,
+    rangeEnd: Date,
+    excludeGameId?: string
+  ): Promise<Game[]> {
+    const conditions: string[] = [
+      'l.tenant_id = $1',
+      '(g.home_team_id = ANY($2) OR g.away_team_id = ANY($2))',
+      'g.scheduled_at > $3',
+      'g.scheduled_at < $4',
+      'g.status NOT IN ($5, $6)',
+    ];
+    const params: any[] = [
+      teamIds,
+      rangeStart,
+      rangeEnd,
+      GameStatus.CANCELLED,
+      GameStatus.POSTPONED,
+    ]; // Additional params after tenant_id
+
+    if (excludeGameId) {
+      conditions.push('g.id <> $7');
+      params.push(excludeGameId);
+    }
+
+    const query = `
+      SELECT 
+        ${GAME_COLUMNS}
+      FROM games g
+      INNER JOIN seasons s ON g.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY g.scheduled_at ASC
+    `;
+
+    const rows = await enforceMultiTenantIsolationMany<GameRow>(
+      tenantId,
+      query,
+      params
+    );
+
+    return rows.map(mapGameRow);
+  }
+
+  /**
+   * Find games at a location within a time range
+   * 
+   * Used for venue conflict detection when generating a schedule. Cancelled
+   * and postponed games don't occupy the venue and are ignored.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param location - Venue to check
+   * @param rangeStart - Exclusive lower bound on scheduled_at
+   * @param rangeEnd - Exclusive upper bound on scheduled_at
+   * @returns Games at the location that overlap the range, ordered by scheduled_at
+   */
+  async findLocationGamesInRange(
+    tenantId: string,
+    location: string,
+    rangeStart: Date,
+    rangeEnd: Date
+  ): Promise<Game[]> {
+    const query = `
+      SELECT 
+        ${GAME_COLUMNS}
+      FROM games g
+      INNER JOIN seasons s ON g.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1
+        AND g.location = $2
+        AND g.scheduled_at > $3
+        AND g.scheduled_at < $4
+        AND g.status NOT IN ($5, $6)
+      ORDER BY g.scheduled_at ASC
+    `;
+
+    const rows = await enforceMultiTenantIsolationMany<GameRow>(
+      tenantId,
+      query,
+      [location, rangeStart, rangeEnd, GameStatus.CANCELLED, GameStatus.POSTPONED] // Additional params after tenant_id
+    );
+
+    return rows.map(mapGameRow);
+  }
+
+  /**
+   * Create a scheduled game in a season with tenant validation
+   * 
+   * Inserts through a SELECT on seasons joined to leagues so the season
+   * must belong to the tenant.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Game fields
+   * @returns Created game, or null if the season is not found for tenant
+   */
+  async create(
+    tenantId: string,
+    seasonId: string,
+    input: CreateGameInput
+  ): Promise<Game | null> {
+    const query = `
+      INSERT INTO games AS g (
+        season_id,
+        home_team_id,
+        away_team_id,
+        scheduled_at,
+        location,
+        status
+      )
+      SELECT s.id, $3, $4, $5, $6, $7
+      FROM seasons s
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND s.id = $2
+      RETURNING
+        ${GAME_COLUMNS}
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<GameRow>(
+      tenantId,
+      query,
+      [
+        seasonId,
+        input.home_team_id,
+        input.away_team_id,
+        input.scheduled_at,
+        input.location ?? null,
+        GameStatus.SCHEDULED,
+      ]
+    );
+
+    return row ? mapGameRow(row) : null;
+  }
+
+  /**
+   * Create several scheduled games in a season in one transaction
+   * 
+   * Locks the season row first so concurrent schedule generation for the
+   * same season is serialized. Either every game is created or none are.
+   * 
+   * Queries run on the transaction client rather than through the tenant
+   * isolation wrapper; the season lock query joins on tenant_id and nothing
+   * is written unless it matches.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param inputs - Game fields, one entry per game
+   * @returns Created games in input order, or null if the season is not found for tenant
+   */
+  async createMany(
+    tenantId: string,
+    seasonId: string,
+    inputs: CreateGameInput[]
+  ): Promise<Game[] | null> {
+    return transaction(async (client: PoolClient) => {
+      const lockResult = await client.query<{ id: string }>(
+        `
+          SELECT s.id
+          FROM seasons s
+          INNER JOIN leagues l ON s.league_id = l.id
+          WHERE l.tenant_id = $1 AND s.id = $2
+          FOR UPDATE OF s
+        `,
+        [tenantId, seasonId]
+      );
+
+      if (lockResult.rows.length === 0) {
+        return null;
+      }
+
+      const games: Game[] = [];
+
+      for (const input of inputs) {
+        const result = await client.query<GameRow>(
+          `
+            INSERT INTO games AS g (
+              season_id,
+              home_team_id,
+              away_team_id,
+              scheduled_at,
+              location,
+              status
+            ) VALUES ($1, $2, $3, $4, $5, $6)
+            RETURNING
+              ${GAME_COLUMNS}
+          `,
+          [
+            seasonId,
+            input.home_team_id,
+            input.away_team_id,
+            input.scheduled_at,
+            input.location ?? null,
+            GameStatus.SCHEDULED,
+          ]
+        );
+
+        games.push(mapGameRow(result.rows[0]));
+      }
+
+      return games;
+    });
+  }
+
+  /**
+   * Update a game's scheduling fields with tenant validation
+   * 
+   * Only fields present in the input are changed; null clears location.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param gameId - Game identifier
+   * @param input - Fields to update
+   * @returns Updated game, or null if not found for tenant
+   */
+  async update(
+    tenantId: string,
+    gameId: string,
+    input: UpdateGameInput
+  ): Promise<Game | null> {
+    const assignments: string[] = [];
+    const params: any[] = [gameId]; // Additional params after tenant_id
+    let paramIndex = 3; // Start at $3 since $1 is tenant_id, $2 is game_id
+
+    for (const column of UPDATABLE_COLUMNS) {
+      if (input[column] !== undefined) {
+        assignments.push(`${column} = $${paramIndex}`);
+        params.push(input[column]);
+        paramIndex++;
+      }
+    }
+
+    if (assignments.length === 0) {
+      return this.findById(tenantId, gameId);
+    }
+
+    const query = `
+      UPDATE games g
+      SET ${assignments.join(', ')},
+          updated_at = NOW()
+      FROM seasons s
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE g.season_id = s.id AND l.tenant_id = $1 AND g.id = $2
+      RETURNING
+        ${GAME_COLUMNS}
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<GameRow>(
+      tenantId,
+      query,
+      params
+    );
+
+    return row ? mapGameRow(row) : null;
+  }
+
+  /**
+   * Advance a game's update sequence with tenant validation
+   * 
+   * Called once per applied or reversed event; the increment is atomic, so
+   * concurrent events get distinct sequence numbers.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param gameId - Game identifier
+   * @returns New sequence number, or null if not found for tenant
+   */
+  async advanceUpdateSequence(tenantId: string, gameId: string): Promise<number | null> {
+    const query = `
+      UPDATE games g
+      SET update_sequence = g.update_sequence + 1
+      FROM seasons s
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE g.season_id = s.id AND l.tenant_id = $1 AND g.id = $2
+      RETURNING g.update_sequence
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<{ update_sequence: string | number }>(
+      tenantId,
+      query,
+      [gameId]
+    );
+
+    return row ? Number(row.update_sequence) : null;
+  }
 }
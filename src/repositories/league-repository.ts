@@ -12,7 +12,32 @@ import {
   enforceMultiTenantIsolationMany,
   enforceMultiTenantIsolationSingle,
 } from '../middleware/multi-tenant-isolation';
-import { League, LeagueRow, mapLeagueRow } from '../models/league';
+import { isUniqueViolation } from '../middleware/error-handler';
+import {
+  League,
+  LeagueRow,
+  CreateLeagueInput,
+  UpdateLeagueInput,
+  mapLeagueRow,
+} from '../models/league';
+import { ConflictError } from '../models/errors';
+
+/**
+ * Unique index on (tenant_id, name) for leagues that aren't archived
+ */
+const LEAGUE_NAME_CONSTRAINT = 'idx_leagues_tenant_name_active';
+
+/**
+ * Columns that may be changed through update()
+ */
+const UPDATABLE_COLUMNS: (keyof UpdateLeagueInput)[] = [
+  'name',
+  'sport_type',
+  'logo_url',
+  'primary_color',
+  'secondary_color',
+  'points_rules',
+];
 
 /**
  * League Repository
@@ -22,6 +47,8 @@ export class LeagueRepository {
   /**
    * Find all leagues for a tenant
    * 
+   * Archived leagues are excluded.
+   * 
    * @param tenantId - Tenant identifier from JWT claims
    * @returns Array of leagues belonging to the tenant
    */
@@ -35,10 +62,12 @@ export class LeagueRepository {
         logo_url,
         primary_color,
         secondary_color,
+        points_rules,
+        archived_at,
         created_at,
         updated_at
       FROM leagues
-      WHERE tenant_id = $1
+      WHERE tenant_id = $1 AND archived_at IS NULL
       ORDER BY name ASC
     `;
 
@@ -68,6 +97,8 @@ export class LeagueRepository {
         logo_url,
         primary_color,
         secondary_color,
+        points_rules,
+        archived_at,
         created_at,
         updated_at
       FROM leagues
@@ -82,4 +113,179 @@ export class LeagueRepository {
 
     return row ? mapLeagueRow(row) : null;
   }
+
+  /**
+   * Create a league for a tenant
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param input - League fields
+   * @returns Created league
+   * @throws ConflictError if the tenant already has a league with this name
+   */
+  async create(tenantId: string, input: CreateLeagueInput): Promise<League> {
+    const query = `
+      INSERT INTO leagues (
+        tenant_id,
+        name,
+        sport_type,
+        logo_url,
+        primary_color,
+        secondary_color,
+        points_rules
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7)
+      RETURNING
+        id,
+        tenant_id,
+        name,
+        sport_type,
+        logo_url,
+        primary_color,
+        secondary_color,
+        points_rules,
+        archived_at,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const row = await enforceMultiTenantIsolationSingle<LeagueRow>(
+        tenantId,
+        query,
+        [
+          input.name,
+          input.sport_type,
+          input.logo_url ?? null,
+          input.primary_color ?? null,
+          input.secondary_color ?? null,
+          input.points_rules ?? null,
+        ]
+      );
+
+      return mapLeagueRow(row as LeagueRow);
+    } catch (error) {
+      if (isUniqueViolation(error, LEAGUE_NAME_CONSTRAINT)) {
+        throw new ConflictError(`A league named "${input.name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a league's fields with tenant validation
+   * 
+   * Only fields present in the input are changed; null clears an optional field.
+   * A league's sport_type is never changed once it has seasons, since its
+   * games were scored under the old sport's rules.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @param input - Fields to update
+   * @returns Updated league, or null if not found for tenant or its sport_type
+   *   would change while it has seasons
+   * @throws ConflictError if the new name collides with another league
+   */
+  async update(
+    tenantId: string,
+    leagueId: string,
+    input: UpdateLeagueInput
+  ): Promise<League | null> {
+    const assignments: string[] = [];
+    const params: any[] = [leagueId]; // Additional params after tenant_id
+
+    let paramIndex = 3; // Start at $3 since $1 is tenant_id, $2 is league_id
+
+    let sportTypeGuard = '';
+
+    for (const column of UPDATABLE_COLUMNS) {
+      if (input[column] !== undefined) {
+        assignments.push(`${column} = $${paramIndex}`);
+        params.push(input[column]);
+
+        if (column === 'sport_type') {
+          sportTypeGuard = `
+        AND (sport_type = $${paramIndex} OR NOT EXISTS (SELECT 1 FROM seasons s WHERE s.league_id = leagues.id))`;
+        }
+
+        paramIndex++;
+      }
+    }
+
+    if (assignments.length === 0) {
+      return this.findById(tenantId, leagueId);
+    }
+
+    const query = `
+      UPDATE leagues
+      SET ${assignments.join(', ')},
+          updated_at = NOW()
+      WHERE tenant_id = $1 AND id = $2${sportTypeGuard}
+      RETURNING
+        id,
+        tenant_id,
+        name,
+        sport_type,
+        logo_url,
+        primary_color,
+        secondary_color,
+        points_rules,
+        archived_at,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const row = await enforceMultiTenantIsolationSingle<LeagueRow>(
+        tenantId,
+        query,
+        params
+      );
+
+      return row ? mapLeagueRow(row) : null;
+    } catch (error) {
+      if (isUniqueViolation(error, LEAGUE_NAME_CONSTRAINT)) {
+        throw new ConflictError(`A league named "${input.name}" already exists`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Archive a league with tenant validation
+   * 
+   * Archiving is a soft delete: the row and its seasons, teams and games are
+   * kept, but the league is hidden from findByTenantId. Archiving an already
+   * archived league keeps the original archived_at.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @returns Archived league, or null if not found for tenant
+   */
+  async archive(tenantId: string, leagueId: string): Promise<League | null> {
+    const query = `
+      UPDATE leagues
+      SET archived_at = COALESCE(archived_at, NOW()),
+          updated_at = NOW()
+      WHERE tenant_id = $1 AND id = $2
+      RETURNING
+        id,
+        tenant_id,
+        name,
+        sport_type,
+        logo_url,
+        primary_color,
+        secondary_color,
+        points_rules,
+        archived_at,
+        created_at,
+        updated_at
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<LeagueRow>(
+      tenantId,
+      query,
+      [leagueId] // Additional param after tenant_id
+    );
+
+    return row ? mapLeagueRow(row) : null;
+  }
 }
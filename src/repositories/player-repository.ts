@@ -12,7 +12,30 @@ import {
   enforceMultiTenantIsolationMany,
   enforceMultiTenantIsolationSingle,
 } from '../middleware/multi-tenant-isolation';
-import { Player, PlayerRow, mapPlayerRow } from '../models/player';
+import { isUniqueViolation } from '../middleware/error-handler';
+import {
+  Player,
+  PlayerRow,
+  CreatePlayerInput,
+  UpdatePlayerInput,
+  mapPlayerRow,
+} from '../models/player';
+import { ConflictError } from '../models/errors';
+
+/**
+ * Unique constraint on (team_id, jersey_number)
+ */
+const PLAYER_JERSEY_CONSTRAINT = 'players_team_jersey_unique';
+
+/**
+ * Columns that may be changed through update()
+ */
+const UPDATABLE_COLUMNS: (keyof UpdatePlayerInput)[] = [
+  'first_name',
+  'last_name',
+  'jersey_number',
+  'position',
+];
 
 /**
  * Player Repository
@@ -90,4 +113,155 @@ export class PlayerRepository {
 
     return row ? mapPlayerRow(row) : null;
   }
+
+  /**
+   * Add a player to a team with tenant validation
+   * 
+   * Inserts through a SELECT on teams joined to leagues so the team must
+   * belong to the tenant.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param teamId - Team identifier
+   * @param input - Player fields
+   * @returns Created player, or null if the team is not found for tenant
+   * @throws ConflictError if the jersey number is taken on the team
+   */
+  async create(
+    tenantId: string,
+    teamId: string,
+    input: CreatePlayerInput
+  ): Promise<Player | null> {
+    const query = `
+      INSERT INTO players (team_id, first_name, last_name, jersey_number, position)
+      SELECT t.id, $3, $4, $5, $6
+      FROM teams t
+      INNER JOIN leagues l ON t.league_id = l.id
+      WHERE l.tenant_id = $1 AND t.id = $2
+      RETURNING
+        id,
+        team_id,
+        first_name,
+        last_name,
+        jersey_number,
+        position,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const row = await enforceMultiTenantIsolationSingle<PlayerRow>(
+        tenantId,
+        query,
+        [
+          teamId,
+          input.first_name,
+          input.last_name,
+          input.jersey_number ?? null,
+          input.position ?? null,
+        ]
+      );
+
+      return row ? mapPlayerRow(row) : null;
+    } catch (error) {
+      if (isUniqueViolation(error, PLAYER_JERSEY_CONSTRAINT)) {
+        throw new ConflictError(`Jersey number ${input.jersey_number} is already taken on this team`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Update a player's fields with tenant validation
+   * 
+   * Only fields present in the input are changed; null clears an optional field.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param teamId - Team identifier the player must belong to
+   * @param playerId - Player identifier
+   * @param input - Fields to update
+   * @returns Updated player, or null if not found on the team for tenant
+   * @throws ConflictError if the new jersey number is taken on the team
+   */
+  async update(
+    tenantId: string,
+    teamId: string,
+    playerId: string,
+    input: UpdatePlayerInput
+  ): Promise<Player | null> {
+    const assignments: string[] = [];
+    const params: any[] = [teamId, playerId]; // Additional params after tenant_id
+    let paramIndex = 4; // Start at $4 since $1 is tenant_id, $2 is team_id, $3 is player_id
+
+    for (const column of UPDATABLE_COLUMNS) {
+      if (input[column] !== undefined) {
+        assignments.push(`${column} = $${paramIndex}`);
+        params.push(input[column]);
+        paramIndex++;
+      }
+    }
+
+    if (assignments.length === 0) {
+      const player = await this.findById(tenantId, playerId);
+      return player && player.team_id === teamId ? player : null;
+    }
+
+    const query = `
+      UPDATE players p
+      SET ${assignments.join(', ')},
+          updated_at = NOW()
+      FROM teams t
+      INNER JOIN leagues l ON t.league_id = l.id
+      WHERE p.team_id = t.id AND l.tenant_id = $1 AND p.team_id = $2 AND p.id = $3
+      RETURNING
+        p.id,
+        p.team_id,
+        p.first_name,
+        p.last_name,
+        p.jersey_number,
+        p.position,
+        p.created_at,
+        p.updated_at
+    `;
+
+    try {
+      const row = await enforceMultiTenantIsolationSingle<PlayerRow>(
+        tenantId,
+        query,
+        params
+      );
+
+      return row ? mapPlayerRow(row) : null;
+    } catch (error) {
+      if (isUniqueViolation(error, PLAYER_JERSEY_CONSTRAINT)) {
+        throw new ConflictError(`Jersey number ${input.jersey_number} is already taken on this team`);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Remove a player from a team with tenant validation
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param teamId - Team identifier the player must belong to
+   * @param playerId - Player identifier
+   * @returns True if the player was deleted, false if not found on the team for tenant
+   */
+  async delete(tenantId: string, teamId: string, playerId: string): Promise<boolean> {
+    const query = `
+      DELETE FROM players p
+      USING teams t, leagues l
+      WHERE p.team_id = t.id AND t.league_id = l.id
+        AND l.tenant_id = $1 AND p.team_id = $2 AND p.id = $3
+      RETURNING p.id
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<{ id: string }>(
+      tenantId,
+      query,
+      [teamId, playerId] // Additional params after tenant_id
+    );
+
+    return row !== null;
+  }
 }
@@ -0,0 +1,221 @@
+/**
+ * Player Stats Repository
+ * 
+ * Data access layer for player statistics with multi-tenant isolation.
+ * The stats are a projection of game events written by applyEventToGame and
+ * event reversals; this repository only reads and aggregates them.
+ * All queries enforce tenant_id filtering through the game's season and league,
+ * or the player's team and league.
+ */
+
+import { enforceMultiTenantIsolationMany } from '../middleware/multi-tenant-isolation';
+import { GameStatus } from '../models/game';
+import {
+  PlayerGameStats,
+  PlayerGameStatsRow,
+  PlayerGameLogEntry,
+  PlayerGameLogRow,
+  SeasonPlayerTotals,
+  SeasonPlayerTotalsRow,
+  mapPlayerGameStatsRow,
+  mapPlayerGameLogRow,
+  mapSeasonPlayerTotalsRow,
+} from '../models/player-stats';
+
+/**
+ * Statuses of games that count toward season totals and game logs
+ */
+const PLAYED_GAME_STATUSES = [GameStatus.LIVE, GameStatus.FINAL];
+
+/**
+ * Whether a player played goalie, for a player_game_stats row aliased as the
+ * given name
+ */
+const playedGoalieSql = (alias: string): string =>
+  `(${alias}.played_goalie OR ${alias}.shots_against > 0 OR ${alias}.goals_against > 0)`;
+
+/**
+ * Whether the goalie of a player_game_stats row (pgs) earned a shutout in
+ * its game (g): the game is final, the opponent didn't score and no other
+ * goalie played in the team's net
+ */
+const SHUTOUT_SQL = `
+  (g.status = '${GameStatus.FINAL}'
+    AND ${playedGoalieSql('pgs')}
+    AND CASE WHEN pgs.team_id = g.home_team_id THEN g.away_score ELSE g.home_score END = 0
+    AND NOT EXISTS (
+      SELECT 1
+      FROM player_game_stats other
+      WHERE other.game_id = pgs.game_id
+        AND other.team_id = pgs.team_id
+        AND other.player_id <> pgs.player_id
+        AND ${playedGoalieSql('other')}
+    ))`;
+
+/**
+ * Player Stats Repository
+ * Provides read access to projected player statistics with tenant isolation
+ */
+export class PlayerStatsRepository {
+  /**
+   * Find the player stats recorded in a game, with the goalie stats of the
+   * players who played goalie
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param gameId - Game identifier
+   * @returns Player stats, by points, then goals, then last name
+   */
+  async findByGameId(tenantId: string, gameId: string): Promise<PlayerGameStats[]> {
+    const query = `
+      SELECT
+        pgs.game_id,
+        pgs.player_id,
+        pgs.team_id,
+        p.first_name,
+        p.last_name,
+        p.jersey_number,
+        pgs.goals,
+        pgs.assists,
+        pgs.shots,
+        pgs.penalty_minutes,
+        pgs.played_goalie,
+        pgs.shots_against,
+        pgs.goals_against,
+        pgs.goalie_seconds,
+        ${SHUTOUT_SQL} AS shutout
+      FROM player_game_stats pgs
+      INNER JOIN players p ON pgs.player_id = p.id
+      INNER JOIN games g ON pgs.game_id = g.id
+      INNER JOIN seasons s ON g.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND pgs.game_id = $2
+      ORDER BY pgs.goals + pgs.assists DESC, pgs.goals DESC, p.last_name ASC, p.first_name ASC
+    `;
+
+    const rows = await enforceMultiTenantIsolationMany<PlayerGameStatsRow>(
+      tenantId,
+      query,
+      [gameId]
+    );
+
+    return rows.map(mapPlayerGameStatsRow);
+  }
+
+  /**
+   * Find the season totals of every player who has played in a season
+   * 
+   * A player has played a live or final game when their team played in it
+   * after they joined the roster, or they recorded stats in it.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Totals per player, in no particular order
+   */
+  async findSeasonTotals(tenantId: string, seasonId: string): Promise<SeasonPlayerTotals[]> {
+    const query = `
+      WITH season_games AS (
+        SELECT g.id, g.home_team_id, g.away_team_id, g.scheduled_at
+        FROM games g
+        INNER JOIN seasons s ON g.season_id = s.id
+        INNER JOIN leagues l ON s.league_id = l.id
+        WHERE l.tenant_id = $1 AND g.season_id = $2 AND g.status = ANY($3)
+      ),
+      player_games AS (
+        SELECT p.id AS player_id, sg.id AS game_id
+        FROM players p
+        INNER JOIN season_games sg ON p.team_id IN (sg.home_team_id, sg.away_team_id)
+        WHERE sg.scheduled_at >= p.created_at
+        UNION
+        SELECT pgs.player_id, pgs.game_id
+        FROM player_game_stats pgs
+        INNER JOIN season_games sg ON pgs.game_id = sg.id
+      )
+      SELECT
+        p.id AS player_id,
+        p.team_id,
+        p.first_name,
+        p.last_name,
+        p.jersey_number,
+        COUNT(pg.game_id)::int AS games_played,
+        COALESCE(SUM(pgs.goals), 0)::int AS goals,
+        COALESCE(SUM(pgs.assists), 0)::int AS assists,
+        COALESCE(SUM(pgs.shots), 0)::int AS shots,
+        COALESCE(SUM(pgs.penalty_minutes), 0)::int AS penalty_minutes
+      FROM player_games pg
+      INNER JOIN players p ON pg.player_id = p.id
+      LEFT JOIN player_game_stats pgs ON pgs.game_id = pg.game_id AND pgs.player_id = pg.player_id
+      GROUP BY p.id
+    `;
+
+    const rows = await enforceMultiTenantIsolationMany<SeasonPlayerTotalsRow>(
+      tenantId,
+      query,
+      [seasonId, PLAYED_GAME_STATUSES]
+    );
+
+    return rows.map(mapSeasonPlayerTotalsRow);
+  }
+
+  /**
+   * Find the games a player has played, with their stats in each
+   * 
+   * A player has played a live or final game when their team played in it
+   * after they joined the roster, or they recorded stats in it.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param playerId - Player identifier
+   * @returns Game log, most recent game first
+   */
+  async findGameLogByPlayerId(tenantId: string, playerId: string): Promise<PlayerGameLogEntry[]> {
+    const query = `
+      WITH player AS (
+        SELECT p.id, p.team_id, p.created_at
+        FROM players p
+        INNER JOIN teams t ON p.team_id = t.id
+        INNER JOIN leagues l ON t.league_id = l.id
+        WHERE l.tenant_id = $1 AND p.id = $2
+      ),
+      player_games AS (
+        SELECT g.id AS game_id
+        FROM player pl
+        INNER JOIN games g ON pl.team_id IN (g.home_team_id, g.away_team_id)
+        WHERE g.scheduled_at >= pl.created_at
+        UNION
+        SELECT pgs.game_id
+        FROM player pl
+        INNER JOIN player_game_stats pgs ON pgs.player_id = pl.id
+      )
+      SELECT
+        g.id AS game_id,
+        g.season_id,
+        g.scheduled_at,
+        g.status,
+        g.home_team_id,
+        g.away_team_id,
+        COALESCE(pgs.team_id, pl.team_id) AS team_id,
+        COALESCE(pgs.goals, 0) AS goals,
+        COALESCE(pgs.assists, 0) AS assists,
+        COALESCE(pgs.shots, 0) AS shots,
+        COALESCE(pgs.penalty_minutes, 0) AS penalty_minutes,
+        COALESCE(pgs.played_goalie, false) AS played_goalie,
+        COALESCE(pgs.shots_against, 0) AS shots_against,
+        COALESCE(pgs.goals_against, 0) AS goals_against,
+        COALESCE(pgs.goalie_seconds, 0) AS goalie_seconds,
+        COALESCE(${SHUTOUT_SQL}, false) AS shutout
+      FROM player_games pg
+      INNER JOIN games g ON pg.game_id = g.id
+      CROSS JOIN player pl
+      LEFT JOIN player_game_stats pgs ON pgs.game_id = g.id AND pgs.player_id = pl.id
+      WHERE g.status = ANY($3)
+      ORDER BY g.scheduled_at DESC
+    `;
+
+    const rows = await enforceMultiTenantIsolationMany<PlayerGameLogRow>(
+      tenantId,
+      query,
+      [playerId, PLAYED_GAME_STATUSES]
+    );
+
+    return rows.map(mapPlayerGameLogRow);
+  }
+}
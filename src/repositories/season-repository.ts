@@ -8,11 +8,32 @@
  * Requirements: 3.3, 3.4
  */
 
+import { PoolClient } from 'pg';
 import {
   enforceMultiTenantIsolationMany,
   enforceMultiTenantIsolationSingle,
 } from '../middleware/multi-tenant-isolation';
-import { Season, SeasonRow, mapSeasonRow } from '../models/season';
+import { transaction } from '../config/database';
+import {
+  Season,
+  SeasonRow,
+  CreateSeasonInput,
+  UpdateSeasonInput,
+  mapSeasonRow,
+} from '../models/season';
+import { PointsRulesInput } from '../models/standing';
+import { SportType } from '../models/league';
+
+/**
+ * Columns that may be changed through update()
+ */
+const UPDATABLE_COLUMNS: (keyof UpdateSeasonInput)[] = [
+  'name',
+  'start_date',
+  'end_date',
+  'points_rules',
+  'tiebreakers',
+];
 
 /**
  * Season Repository
@@ -38,6 +59,9 @@ export class SeasonRepository {
         s.start_date,
         s.end_date,
         s.is_active,
+        s.completed_at,
+        s.points_rules,
+        s.tiebreakers,
         s.created_at,
         s.updated_at
       FROM seasons s
@@ -74,6 +98,9 @@ export class SeasonRepository {
         s.start_date,
         s.end_date,
         s.is_active,
+        s.completed_at,
+        s.points_rules,
+        s.tiebreakers,
         s.created_at,
         s.updated_at
       FROM seasons s
@@ -110,6 +137,9 @@ export class SeasonRepository {
         s.start_date,
         s.end_date,
         s.is_active,
+        s.completed_at,
+        s.points_rules,
+        s.tiebreakers,
         s.created_at,
         s.updated_at
       FROM seasons s
@@ -125,4 +155,331 @@ export class SeasonRepository {
 
     return row ? mapSeasonRow(row) : null;
   }
+
+  /**
+   * Find the stored points rules that apply to a season
+   * 
+   * Shallow-merges the season's overrides over the league's rules. Fields
+   * set on neither are left out; callers fill them from DEFAULT_POINTS_RULES.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Merged rules, or null if the season is not found for tenant
+   */
+  async findPointsRules(
+    tenantId: string,
+    seasonId: string
+  ): Promise<PointsRulesInput | null> {
+    const query = `
+      SELECT
+        COALESCE(l.points_rules, '{}'::jsonb) || COALESCE(s.points_rules, '{}'::jsonb)
+          AS points_rules
+      FROM seasons s
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND s.id = $2
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<{ points_rules: PointsRulesInput }>(
+      tenantId,
+      query,
+      [seasonId] // Additional param after tenant_id
+    );
+
+    return row ? row.points_rules : null;
+  }
+
+  /**
+   * Find the sport of a season's league
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns The league's sport, or null if the season is not found for tenant
+   */
+  async findSportType(tenantId: string, seasonId: string): Promise<SportType | null> {
+    const query = `
+      SELECT l.sport_type
+      FROM seasons s
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND s.id = $2
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<{ sport_type: string }>(
+      tenantId,
+      query,
+      [seasonId] // Additional param after tenant_id
+    );
+
+    return row ? (row.sport_type as SportType) : null;
+  }
+
+  /**
+   * Create a season in a league with tenant validation
+   * 
+   * Inserts through a SELECT on leagues so the league must belong to the
+   * tenant and must not be archived. New seasons start inactive.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @param input - Season fields
+   * @returns Created season, or null if the league is not found for tenant
+   */
+  async create(
+    tenantId: string,
+    leagueId: string,
+    input: CreateSeasonInput
+  ): Promise<Season | null> {
+    const query = `
+      INSERT INTO seasons (
+        league_id,
+        name,
+        start_date,
+        end_date,
+        points_rules,
+        tiebreakers,
+        is_active
+      )
+      SELECT l.id, $3, $4, $5, $6, $7, false
+      FROM leagues l
+      WHERE l.tenant_id = $1 AND l.id = $2 AND l.archived_at IS NULL
+      RETURNING
+        id,
+        league_id,
+        name,
+        start_date,
+        end_date,
+        is_active,
+        completed_at,
+        points_rules,
+        tiebreakers,
+        created_at,
+        updated_at
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<SeasonRow>(
+      tenantId,
+      query,
+      [
+        leagueId,
+        input.name,
+        input.start_date,
+        input.end_date,
+        input.points_rules ?? null,
+        input.tiebreakers ? JSON.stringify(input.tiebreakers) : null,
+      ]
+    );
+
+    return row ? mapSeasonRow(row) : null;
+  }
+
+  /**
+   * Update a season's fields with tenant validation
+   * 
+   * Only fields present in the input are changed.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Fields to update
+   * @returns Updated season, or null if not found for tenant
+   */
+  async update(
+    tenantId: string,
+    seasonId: string,
+    input: UpdateSeasonInput
+  ): Promise<Season | null> {
+    const assignments: string[] = [];
+    const params: any[] = [seasonId]; // Additional params after tenant_id
+    let paramIndex = 3; // Start at $3 since $1 is tenant_id, $2 is season_id
+
+    for (const column of UPDATABLE_COLUMNS) {
+      const value = input[column];
+      if (value !== undefined) {
+        assignments.push(`${column} = $${paramIndex}`);
+        // node-postgres sends arrays as Postgres arrays; jsonb columns need JSON text
+        params.push(Array.isArray(value) ? JSON.stringify(value) : value);
+        paramIndex++;
+      }
+    }
+
+    if (assignments.length === 0) {
+      return this.findById(tenantId, seasonId);
+    }
+
+    const query = `
+      UPDATE seasons s
+      SET ${assignments.join(', ')},
+          updated_at = NOW()
+      FROM leagues l
+      WHERE s.league_id = l.id AND l.tenant_id = $1 AND s.id = $2
+      RETURNING
+        s.id,
+        s.league_id,
+        s.name,
+        s.start_date,
+        s.end_date,
+        s.is_active,
+        s.completed_at,
+        s.points_rules,
+        s.tiebreakers,
+        s.created_at,
+        s.updated_at
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<SeasonRow>(
+      tenantId,
+      query,
+      params
+    );
+
+    return row ? mapSeasonRow(row) : null;
+  }
+
+  /**
+   * Make a season the active season of its league
+   * 
+   * Runs in a transaction that locks the parent league row, deactivates
+   * every other active season in the league, then activates this one, so
+   * concurrent activations in the same league are serialized and at most
+   * one season is ever active.
+   * 
+   * Queries run on the transaction client rather than through the tenant
+   * isolation wrapper; the league lock query joins on tenant_id and nothing
+   * is written unless it matches.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Activated season, or null if not found for tenant
+   */
+  async activate(tenantId: string, seasonId: string): Promise<Season | null> {
+    return transaction(async (client: PoolClient) => {
+      const lockResult = await client.query<{ league_id: string }>(
+        `
+          SELECT l.id AS league_id
+          FROM leagues l
+          INNER JOIN seasons s ON s.league_id = l.id
+          WHERE l.tenant_id = $1 AND s.id = $2
+          FOR UPDATE OF l
+        `,
+        [tenantId, seasonId]
+      );
+
+      if (lockResult.rows.length === 0) {
+        return null;
+      }
+
+      const leagueId = lockResult.rows[0].league_id;
+
+      await client.query(
+        `
+          UPDATE seasons
+          SET is_active = false,
+              updated_at = NOW()
+          WHERE league_id = $1 AND id <> $2 AND is_active = true
+        `,
+        [leagueId, seasonId]
+      );
+
+      const result = await client.query<SeasonRow>(
+        `
+          UPDATE seasons
+          SET is_active = true,
+              updated_at = NOW()
+          WHERE id = $1
+          RETURNING
+            id,
+            league_id,
+            name,
+            start_date,
+            end_date,
+            is_active,
+            completed_at,
+            points_rules,
+            tiebreakers,
+            created_at,
+            updated_at
+        `,
+        [seasonId]
+      );
+
+      return mapSeasonRow(result.rows[0]);
+    });
+  }
+
+  /**
+   * Mark a season completed with tenant validation
+   * 
+   * Completing a season also deactivates it.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Completed season, or null if not found for tenant
+   */
+  async complete(tenantId: string, seasonId: string): Promise<Season | null> {
+    const query = `
+      UPDATE seasons s
+      SET is_active = false,
+          completed_at = NOW(),
+          updated_at = NOW()
+      FROM leagues l
+      WHERE s.league_id = l.id AND l.tenant_id = $1 AND s.id = $2
+      RETURNING
+        s.id,
+        s.league_id,
+        s.name,
+        s.start_date,
+        s.end_date,
+        s.is_active,
+        s.completed_at,
+        s.points_rules,
+        s.tiebreakers,
+        s.created_at,
+        s.updated_at
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<SeasonRow>(
+      tenantId,
+      query,
+      [seasonId] // Additional param after tenant_id
+    );
+
+    return row ? mapSeasonRow(row) : null;
+  }
+
+  /**
+   * Reopen a completed season with tenant validation
+   * 
+   * Clears completed_at. The season stays inactive until activated.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Reopened season, or null if not found for tenant
+   */
+  async reopen(tenantId: string, seasonId: string): Promise<Season | null> {
+    const query = `
+      UPDATE seasons s
+      SET completed_at = NULL,
+          updated_at = NOW()
+      FROM leagues l
+      WHERE s.league_id = l.id AND l.tenant_id = $1 AND s.id = $2
+      RETURNING
+        s.id,
+        s.league_id,
+        s.name,
+        s.start_date,
+        s.end_date,
+        s.is_active,
+        s.completed_at,
+        s.points_rules,
+        s.tiebreakers,
+        s.created_at,
+        s.updated_at
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<SeasonRow>(
+      tenantId,
+      query,
+      [seasonId] // Additional param after tenant_id
+    );
+
+    return row ? mapSeasonRow(row) : null;
+  }
 }
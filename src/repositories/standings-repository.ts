@@ -18,9 +18,39 @@ import {
   TeamStanding,
   StandingRow,
   StandingUpsertData,
+  AUDITED_STANDING_FIELDS,
   mapStandingRow,
 } from '../models/standing';
 
+/**
+ * A standing row to bring in line with the audit's rebuilt values
+ *
+ * stored is the row as the audit read it (null when missing) and expected
+ * the rebuilt row (null when the row shouldn't exist).
+ */
+export interface StandingRepair {
+  team_id: string;
+  stored: StandingUpsertData | null;
+  expected: StandingUpsertData | null;
+}
+
+/**
+ * Audited column values of a standing, in AUDITED_STANDING_FIELDS order
+ */
+function auditedValues(standing: StandingUpsertData): (number | string | null)[] {
+  return AUDITED_STANDING_FIELDS.map(field => standing[field] ?? null);
+}
+
+/**
+ * Condition matching a row still holding the audited values bound from
+ * parameter $offset + 1 onward
+ */
+function unchangedSince(offset: number): string {
+  return AUDITED_STANDING_FIELDS
+    .map((column, i) => `${column} IS NOT DISTINCT FROM $${offset + i + 1}`)
+    .join(' AND ');
+}
+
 /**
  * Standings Repository
  * Provides data access methods for standings with tenant isolation
@@ -53,6 +83,8 @@ export class StandingsRepository {
         st.wins,
         st.losses,
         st.ties,
+        st.ot_losses,
+        st.bonus_points,
         st.points,
         st.goals_for,
         st.goals_against,
@@ -106,6 +138,8 @@ export class StandingsRepository {
             wins,
             losses,
             ties,
+            ot_losses,
+            bonus_points,
             points,
             goals_for,
             goals_against,
@@ -113,7 +147,7 @@ export class StandingsRepository {
             streak,
             updated_at
           ) VALUES (
-            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, NOW()
+            $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, NOW()
           )
           ON CONFLICT (season_id, team_id)
           DO UPDATE SET
@@ -121,6 +155,8 @@ export class StandingsRepository {
             wins = EXCLUDED.wins,
             losses = EXCLUDED.losses,
             ties = EXCLUDED.ties,
+            ot_losses = EXCLUDED.ot_losses,
+            bonus_points = EXCLUDED.bonus_points,
             points = EXCLUDED.points,
             goals_for = EXCLUDED.goals_for,
             goals_against = EXCLUDED.goals_against,
@@ -136,6 +172,8 @@ export class StandingsRepository {
           standing.wins,
           standing.losses,
           standing.ties,
+          standing.ot_losses,
+          standing.bonus_points,
           standing.points,
           standing.goals_for,
           standing.goals_against,
@@ -147,4 +185,110 @@ export class StandingsRepository {
       }
     });
   }
+
+  /**
+   * Rewrite drifted standing rows found by a consistency audit
+   * 
+   * Each write is conditional on the row still holding the values the audit
+   * read: rows are updated or deleted only if unchanged, and missing rows
+   * are inserted only if still missing. A row changed concurrently (e.g. by
+   * a game being finalized) is left alone rather than overwritten with a
+   * rebuild that may predate the change.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param repairs - Drifted rows with their stored and expected values
+   * @returns Team ids whose rows were rewritten, or null if the season is not found for tenant
+   */
+  async repairStandings(
+    tenantId: string,
+    seasonId: string,
+    repairs: StandingRepair[]
+  ): Promise<string[] | null> {
+    return transaction(async (client: PoolClient) => {
+      const seasonResult = await client.query<{ id: string }>(
+        `
+          SELECT s.id
+          FROM seasons s
+          INNER JOIN leagues l ON s.league_id = l.id
+          WHERE l.tenant_id = $1 AND s.id = $2
+        `,
+        [tenantId, seasonId]
+      );
+
+      if (seasonResult.rows.length === 0) {
+        return null;
+      }
+
+      const repaired: string[] = [];
+
+      for (const repair of repairs) {
+        let result;
+
+        if (!repair.stored && repair.expected) {
+          result = await client.query(
+            `
+              INSERT INTO standings (
+                season_id,
+                team_id,
+                games_played,
+                wins,
+                losses,
+                ties,
+                ot_losses,
+                bonus_points,
+                points,
+                goals_for,
+                goals_against,
+                goal_differential,
+                streak
+              ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+              ON CONFLICT (season_id, team_id) DO NOTHING
+            `,
+            [seasonId, repair.team_id, ...auditedValues(repair.expected)]
+          );
+        } else if (repair.stored && repair.expected) {
+          result = await client.query(
+            `
+              UPDATE standings
+              SET
+                games_played = $3,
+                wins = $4,
+                losses = $5,
+                ties = $6,
+                ot_losses = $7,
+                bonus_points = $8,
+                points = $9,
+                goals_for = $10,
+                goals_against = $11,
+                goal_differential = $12,
+                streak = $13,
+                updated_at = NOW()
+              WHERE season_id = $1 AND team_id = $2 AND ${unchangedSince(13)}
+            `,
+            [
+              seasonId,
+              repair.team_id,
+              ...auditedValues(repair.expected),
+              ...auditedValues(repair.stored),
+            ]
+          );
+        } else if (repair.stored) {
+          result = await client.query(
+            `
+              DELETE FROM standings
+              WHERE season_id = $1 AND team_id = $2 AND ${unchangedSince(2)}
+            `,
+            [seasonId, repair.team_id, ...auditedValues(repair.stored)]
+          );
+        }
+
+        if (result?.rowCount) {
+          repaired.push(repair.team_id);
+        }
+      }
+
+      return repaired;
+    });
+  }
 }
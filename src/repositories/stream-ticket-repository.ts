@@ -0,0 +1,80 @@
+/**
+ * Stream Ticket Repository
+ *
+ * Data access layer for game stream tickets. Tickets are issued with
+ * multi-tenant isolation enforced through the game's season -> league
+ * relationship; redeeming one is how a stream request learns its tenant.
+ */
+
+import { randomBytes } from 'crypto';
+import { enforceMultiTenantIsolationSingle } from '../middleware/multi-tenant-isolation';
+import { query } from '../config/database';
+import { StreamTicket, StreamTicketRow, mapStreamTicketRow } from '../models/stream-ticket';
+
+/**
+ * Stream Ticket Repository
+ * Provides data access methods for game stream tickets
+ */
+export class StreamTicketRepository {
+  /**
+   * Issue a ticket for a game's stream with tenant validation
+   *
+   * Expired tickets are deleted as new ones are issued.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param gameId - Game identifier
+   * @param userId - User the ticket is issued to
+   * @param roles - User's roles
+   * @param ttlSeconds - How long the ticket is accepted
+   * @returns Issued ticket, or null if the game doesn't exist for the tenant
+   */
+  async create(
+    tenantId: string,
+    gameId: string,
+    userId: string,
+    roles: string[],
+    ttlSeconds: number
+  ): Promise<StreamTicket | null> {
+    await query('DELETE FROM stream_tickets WHERE expires_at < NOW()');
+
+    const insertQuery = `
+      INSERT INTO stream_tickets (ticket, tenant_id, game_id, user_id, roles, expires_at)
+      SELECT $3, l.tenant_id, g.id, $4, $5, NOW() + make_interval(secs => $6)
+      FROM games g
+      INNER JOIN seasons s ON g.season_id = s.id
+      INNER JOIN leagues l ON s.league_id = l.id
+      WHERE l.tenant_id = $1 AND g.id = $2
+      RETURNING ticket, tenant_id, game_id, user_id, roles, expires_at, created_at
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<StreamTicketRow>(
+      tenantId,
+      insertQuery,
+      [gameId, randomBytes(32).toString('hex'), userId, roles, ttlSeconds]
+    );
+
+    return row ? mapStreamTicketRow(row) : null;
+  }
+
+  /**
+   * Find an unexpired ticket for a game's stream
+   *
+   * Not tenant-scoped: the ticket is what identifies the tenant.
+   *
+   * @param ticket - Ticket value from the stream request
+   * @param gameId - Game the stream request is for
+   * @returns Ticket, or null if it doesn't exist, has expired or is for another game
+   */
+  async findActive(ticket: string, gameId: string): Promise<StreamTicket | null> {
+    const result = await query<StreamTicketRow>(
+      `
+      SELECT ticket, tenant_id, game_id, user_id, roles, expires_at, created_at
+      FROM stream_tickets
+      WHERE ticket = $1 AND game_id::text = $2 AND expires_at > NOW()
+      `,
+      [ticket, gameId]
+    );
+
+    return result.rows.length > 0 ? mapStreamTicketRow(result.rows[0]) : null;
+  }
+}
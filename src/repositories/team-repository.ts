@@ -12,7 +12,51 @@ import {
   enforceMultiTenantIsolationMany,
   enforceMultiTenantIsolationSingle,
 } from '../middleware/multi-tenant-isolation';
-import { Team, TeamRow, mapTeamRow } from '../models/team';
+import { isUniqueViolation } from '../middleware/error-handler';
+import {
+  Team,
+  TeamRow,
+  CreateTeamInput,
+  UpdateTeamInput,
+  mapTeamRow,
+} from '../models/team';
+import { ConflictError } from '../models/errors';
+
+/**
+ * Unique constraint on (league_id, abbreviation)
+ */
+const TEAM_ABBREVIATION_CONSTRAINT = 'teams_league_abbreviation_unique';
+
+/**
+ * Unique constraint on (league_id, name)
+ */
+const TEAM_NAME_CONSTRAINT = 'teams_league_name_unique';
+
+/**
+ * Columns that may be changed through update()
+ */
+const UPDATABLE_COLUMNS: (keyof UpdateTeamInput)[] = [
+  'name',
+  'abbreviation',
+  'logo_url',
+  'primary_color',
+  'secondary_color',
+];
+
+/**
+ * Translate unique violations on team columns into ConflictError
+ */
+function toTeamConflict(error: unknown, input: CreateTeamInput | UpdateTeamInput): unknown {
+  if (isUniqueViolation(error, TEAM_ABBREVIATION_CONSTRAINT)) {
+    return new ConflictError(
+      `Abbreviation "${input.abbreviation}" is already used by another team in this league`
+    );
+  }
+  if (isUniqueViolation(error, TEAM_NAME_CONSTRAINT)) {
+    return new ConflictError(`A team named "${input.name}" already exists in this league`);
+  }
+  return error;
+}
 
 /**
  * Team Repository
@@ -92,4 +136,166 @@ export class TeamRepository {
 
     return row ? mapTeamRow(row) : null;
   }
+
+  /**
+   * Create a team in a league with tenant validation
+   * 
+   * Inserts through a SELECT on leagues so the league must belong to the
+   * tenant and must not be archived.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @param input - Team fields
+   * @returns Created team, or null if the league is not found for tenant
+   * @throws ConflictError if the name or abbreviation is taken in the league
+   */
+  async create(
+    tenantId: string,
+    leagueId: string,
+    input: CreateTeamInput
+  ): Promise<Team | null> {
+    const query = `
+      INSERT INTO teams (
+        tenant_id,
+        league_id,
+        name,
+        abbreviation,
+        logo_url,
+        primary_color,
+        secondary_color
+      )
+      SELECT l.tenant_id, l.id, $3, $4, $5, $6, $7
+      FROM leagues l
+      WHERE l.tenant_id = $1 AND l.id = $2 AND l.archived_at IS NULL
+      RETURNING
+        id,
+        tenant_id,
+        league_id,
+        name,
+        abbreviation,
+        logo_url,
+        primary_color,
+        secondary_color,
+        created_at,
+        updated_at
+    `;
+
+    try {
+      const row = await enforceMultiTenantIsolationSingle<TeamRow>(
+        tenantId,
+        query,
+        [
+          leagueId,
+          input.name,
+          input.abbreviation ?? null,
+          input.logo_url ?? null,
+          input.primary_color ?? null,
+          input.secondary_color ?? null,
+        ]
+      );
+
+      return row ? mapTeamRow(row) : null;
+    } catch (error) {
+      throw toTeamConflict(error, input);
+    }
+  }
+
+  /**
+   * Update a team's fields with tenant validation
+   * 
+   * Only fields present in the input are changed; null clears an optional field.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier the team must belong to
+   * @param teamId - Team identifier
+   * @param input - Fields to update
+   * @returns Updated team, or null if not found in the league for tenant
+   * @throws ConflictError if the new name or abbreviation is taken in the league
+   */
+  async update(
+    tenantId: string,
+    leagueId: string,
+    teamId: string,
+    input: UpdateTeamInput
+  ): Promise<Team | null> {
+    const assignments: string[] = [];
+    const params: any[] = [leagueId, teamId]; // Additional params after tenant_id
+    let paramIndex = 4; // Start at $4 since $1 is tenant_id, $2 is league_id, $3 is team_id
+
+    for (const column of UPDATABLE_COLUMNS) {
+      if (input[column] !== undefined) {
+        assignments.push(`${column} = $${paramIndex}`);
+        params.push(input[column]);
+        paramIndex++;
+      }
+    }
+
+    if (assignments.length === 0) {
+      const team = await this.findById(tenantId, teamId);
+      return team && team.league_id === leagueId ? team : null;
+    }
+
+    const query = `
+      UPDATE teams t
+      SET ${assignments.join(', ')},
+          updated_at = NOW()
+      FROM leagues l
+      WHERE t.league_id = l.id AND l.tenant_id = $1 AND t.league_id = $2 AND t.id = $3
+      RETURNING
+        t.id,
+        t.tenant_id,
+        t.league_id,
+        t.name,
+        t.abbreviation,
+        t.logo_url,
+        t.primary_color,
+        t.secondary_color,
+        t.created_at,
+        t.updated_at
+    `;
+
+    try {
+      const row = await enforceMultiTenantIsolationSingle<TeamRow>(
+        tenantId,
+        query,
+        params
+      );
+
+      return row ? mapTeamRow(row) : null;
+    } catch (error) {
+      throw toTeamConflict(error, input);
+    }
+  }
+
+  /**
+   * Delete a team with tenant validation
+   * 
+   * A team that appears in any game is never deleted, since removing it
+   * would cascade to the game history.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier the team must belong to
+   * @param teamId - Team identifier
+   * @returns True if the team was deleted, false if not found or it has games
+   */
+  async delete(tenantId: string, leagueId: string, teamId: string): Promise<boolean> {
+    const query = `
+      DELETE FROM teams t
+      USING leagues l
+      WHERE t.league_id = l.id AND l.tenant_id = $1 AND t.league_id = $2 AND t.id = $3
+        AND NOT EXISTS (
+          SELECT 1 FROM games g
+          WHERE g.home_team_id = t.id OR g.away_team_id = t.id
+        )
+      RETURNING t.id
+    `;
+
+    const row = await enforceMultiTenantIsolationSingle<{ id: string }>(
+      tenantId,
+      query,
+      [leagueId, teamId] // Additional params after tenant_id
+    );
+
+    return row !== null;
+  }
 }
@@ -0,0 +1,190 @@
+/**
+ * Bracket Service
+ *
+ * Business logic layer for playoff brackets.
+ * Seeds brackets from ranked standings, creates bracket games as series
+ * become playable and advances winners as games are finalized.
+ */
+
+import { BracketRepository } from '../repositories/bracket-repository';
+import { GameRepository } from '../repositories/game-repository';
+import { SeasonRepository } from '../repositories/season-repository';
+import {
+  Bracket,
+  BracketFormat,
+  BracketRecord,
+  BracketSeriesRow,
+  CreateBracketInput,
+} from '../models/bracket';
+import { Game, GameStatus } from '../models/game';
+import { NotFoundError, BadRequestError } from '../models/errors';
+import { validateCreateBracketInput } from '../utils/request-validation';
+import { buildBracketSeries, planNextGames, resolveBracket } from '../utils/bracket-builder';
+import { StandingsService } from './standings-service';
+
+/**
+ * Bracket Service
+ * Provides business logic for playoff bracket operations
+ */
+export class BracketService {
+  constructor(
+    private bracketRepository: BracketRepository,
+    private gameRepository: GameRepository,
+    private seasonRepository: SeasonRepository,
+    private standingsService: StandingsService
+  ) {}
+
+  /**
+   * Get a season's bracket with every series resolved
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Bracket with series teams, wins, winners and game ids
+   * @throws NotFoundError if the season has no bracket or doesn't belong to tenant
+   */
+  async getBracket(tenantId: string, seasonId: string): Promise<Bracket> {
+    const record = await this.bracketRepository.findBySeasonId(tenantId, seasonId);
+
+    if (!record) {
+      throw new NotFoundError('Bracket not found');
+    }
+
+    const [series, games] = await Promise.all([
+      this.bracketRepository.findSeries(tenantId, record.id),
+      this.findBracketGames(tenantId, seasonId),
+    ]);
+
+    return resolveBracket(record, series, games);
+  }
+
+  /**
+   * Create a season's bracket seeded from its ranked standings
+   *
+   * Seed 1 is the top-ranked team. First-round games (and any games made
+   * playable by byes) are created right away.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Bracket settings from request body
+   * @returns Created bracket
+   * @throws BadRequestError if input is invalid, regular season games are
+   *   unfinished or there aren't enough ranked teams
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   * @throws ConflictError if the season already has a bracket
+   */
+  async createBracket(
+    tenantId: string,
+    seasonId: string,
+    input: CreateBracketInput
+  ): Promise<Bracket> {
+    validateCreateBracketInput(input);
+
+    const season = await this.seasonRepository.findById(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    const games = await this.gameRepository.findBySeasonId(tenantId, seasonId);
+    const unfinished = games.filter(
+      game =>
+        !game.bracket_series_id &&
+        (game.status === GameStatus.SCHEDULED || game.status === GameStatus.LIVE)
+    );
+
+    if (unfinished.length > 0) {
+      const error = new BadRequestError('Regular season games are still unfinished');
+      (error as any).details = { unfinished_games: unfinished.length };
+      throw error;
+    }
+
+    const standings = await this.standingsService.getStandingsBySeason(tenantId, seasonId);
+    const teamCount = input.teams ?? standings.length;
+    const minimum = input.format === BracketFormat.DOUBLE_ELIMINATION ? 3 : 2;
+
+    if (teamCount < minimum || teamCount > standings.length) {
+      const error = new BadRequestError('Invalid bracket');
+      (error as any).details = {
+        teams: teamCount < minimum
+          ? `A ${input.format} bracket needs at least ${minimum} teams`
+          : `Only ${standings.length} teams are ranked`,
+      };
+      throw error;
+    }
+
+    const created = await this.bracketRepository.create(
+      tenantId,
+      seasonId,
+      {
+        format: input.format,
+        best_of: input.best_of ?? 1,
+        seeds: standings.slice(0, teamCount).map(standing => standing.team_id),
+        starts_at: new Date(input.starts_at),
+        game_interval_hours: input.game_interval_hours ?? 24,
+        location: input.location,
+      },
+      buildBracketSeries(teamCount, input.format)
+    );
+
+    if (!created) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return this.scheduleNextGames(tenantId, created.bracket, created.series, []);
+  }
+
+  /**
+   * Advance a season's bracket after a bracket game is finalized
+   *
+   * Creates the next game of every series that is now playable: the next
+   * game of an undecided series, or the first game of a series whose teams
+   * are now both known.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Updated bracket, or null if the season has no bracket
+   */
+  async advanceBracket(tenantId: string, seasonId: string): Promise<Bracket | null> {
+    const record = await this.bracketRepository.findBySeasonId(tenantId, seasonId);
+
+    if (!record) {
+      return null;
+    }
+
+    const [series, games] = await Promise.all([
+      this.bracketRepository.findSeries(tenantId, record.id),
+      this.findBracketGames(tenantId, seasonId),
+    ]);
+
+    return this.scheduleNextGames(tenantId, record, series, games);
+  }
+
+  /**
+   * Resolve the bracket, create any playable games and resolve again
+   */
+  private async scheduleNextGames(
+    tenantId: string,
+    record: BracketRecord,
+    series: BracketSeriesRow[],
+    games: Game[]
+  ): Promise<Bracket> {
+    const bracket = resolveBracket(record, series, games);
+    const planned = planNextGames(bracket, games);
+
+    if (planned.length === 0) {
+      return bracket;
+    }
+
+    const created = await this.bracketRepository.createGames(tenantId, record.season_id, planned);
+
+    return resolveBracket(record, series, [...games, ...(created ?? [])]);
+  }
+
+  /**
+   * Get a season's bracket games
+   */
+  private async findBracketGames(tenantId: string, seasonId: string): Promise<Game[]> {
+    const games = await this.gameRepository.findBySeasonId(tenantId, seasonId);
+    return games.filter(game => game.bracket_series_id);
+  }
+}
@@ -10,8 +10,8 @@
 
 import { ApiGatewayManagementApiClient, PostToConnectionCommand } from '@aws-sdk/client-apigatewaymanagementapi';
 import { ConnectionRepository } from '../repositories/connection-repository';
-import { GameSnapshot } from '../models/snapshot';
-import { WebSocketMessage } from '../models/websocket';
+import { GameSnapshot, GameSnapshotDelta } from '../models/snapshot';
+import { SubscriptionTarget, WebSocketMessage } from '../models/websocket';
 import { log, LogLevel } from '../utils/logger';
 import { loadEnvironmentConfig } from '../config/environment';
 
@@ -55,16 +55,12 @@ export class BroadcastService {
   }
 
   /**
-   * Broadcast game snapshot to all connected clients for a game
-   * 
-   * Queries all active connections for the game, filters by tenant_id for
-   * multi-tenant isolation, and sends the snapshot to each connection.
-   * Failed connections are automatically removed from the connection store.
+   * Broadcast game snapshot to every connection subscribed to the game
    * 
    * Performance target: <50ms at p95
    * 
    * @param tenantId - Tenant identifier for filtering connections
-   * @param gameId - Game identifier
+   * @param targets - Game, season, league and team scopes the snapshot belongs to
    * @param snapshot - Game snapshot to broadcast
    * @param messageType - Type of message (initial_snapshot or snapshot_update)
    * 
@@ -72,55 +68,104 @@ export class BroadcastService {
    */
   async broadcastSnapshot(
     tenantId: string,
-    gameId: string,
+    targets: SubscriptionTarget[],
     snapshot: GameSnapshot,
     messageType: 'initial_snapshot' | 'snapshot_update'
+  ): Promise<void> {
+    await this.broadcast(tenantId, targets, snapshot.game_id, {
+      message_type: messageType,
+      timestamp: new Date().toISOString(),
+      data: snapshot,
+    });
+  }
+
+  /**
+   * Broadcast a game's delta to every connection subscribed to the game
+   * 
+   * @param tenantId - Tenant identifier for filtering connections
+   * @param targets - Game, season, league and team scopes the game belongs to
+   * @param delta - Changes since the game's previous update
+   */
+  async broadcastDelta(
+    tenantId: string,
+    targets: SubscriptionTarget[],
+    delta: GameSnapshotDelta
+  ): Promise<void> {
+    await this.broadcast(tenantId, targets, delta.game_id, {
+      message_type: 'snapshot_delta',
+      timestamp: new Date().toISOString(),
+      delta,
+    });
+  }
+
+  /**
+   * Send a message once to every connection subscribed to any target
+   * 
+   * Queries the subscribers of each target (the game and the season, league
+   * and teams it belongs to) with tenant filtering for multi-tenant
+   * isolation, and sends the message once to each subscribed connection.
+   * Failed connections are automatically removed from the connection store.
+   */
+  private async broadcast(
+    tenantId: string,
+    targets: SubscriptionTarget[],
+    gameId: string,
+    message: WebSocketMessage
   ): Promise<void> {
     const startTime = Date.now();
+    const messageType = message.message_type;
 
     try {
-      // Query all active connections for the game with tenant filtering
-      const connections = await this.connectionRepository.getConnectionsByGame(gameId, tenantId);
+      // Query the subscribers of every scope with tenant filtering
+      const subscriptions = await Promise.all(
+        targets.map(target => this.connectionRepository.getSubscriptionsByScope(target, tenantId))
+      );
 
-      if (connections.length === 0) {
+      // A connection subscribed to several matching scopes gets one message
+      const connectionIds = [
+        ...new Set(subscriptions.flat().map(subscription => subscription.connection_id)),
+      ];
+
+      if (connectionIds.length === 0) {
         log(LogLevel.INFO, 'No active connections for broadcast', {
           tenant_id: tenantId,
           game_id: gameId,
           message_type: messageType,
-          operation: 'broadcastSnapshot',
+          operation: 'broadcast',
         });
         return;
       }
 
-      // Send snapshot to each connection
-      const sendPromises = connections.map(connection =>
-        this.sendSnapshotToConnection(connection.connection_id, snapshot, messageType)
+      // Send message to each connection
+      const sendPromises = connectionIds.map(connectionId =>
+        this.sendMessage(connectionId, message)
           .catch(async (error) => {
             // Log broadcast failure
-            log(LogLevel.WARN, 'Failed to send snapshot to connection', {
+            log(LogLevel.WARN, 'Failed to send message to connection', {
               tenant_id: tenantId,
               game_id: gameId,
-              connection_id: connection.connection_id,
+              connection_id: connectionId,
+              message_type: messageType,
               error: error instanceof Error ? error.message : 'Unknown error',
-              operation: 'broadcastSnapshot',
+              operation: 'broadcast',
             });
 
             // Remove failed connection from store
             try {
-              await this.connectionRepository.removeConnection(connection.connection_id);
+              await this.connectionRepository.removeConnection(connectionId);
               log(LogLevel.INFO, 'Removed failed connection', {
                 tenant_id: tenantId,
                 game_id: gameId,
-                connection_id: connection.connection_id,
-                operation: 'broadcastSnapshot',
+                connection_id: connectionId,
+                operation: 'broadcast',
               });
             } catch (removeError) {
               log(LogLevel.ERROR, 'Failed to remove failed connection', {
                 tenant_id: tenantId,
                 game_id: gameId,
-                connection_id: connection.connection_id,
+                connection_id: connectionId,
                 error: removeError instanceof Error ? removeError.message : 'Unknown error',
-                operation: 'broadcastSnapshot',
+                operation: 'broadcast',
               });
             }
           })
@@ -135,9 +180,9 @@ export class BroadcastService {
         tenant_id: tenantId,
         game_id: gameId,
         message_type: messageType,
-        connections_count: connections.length,
+        connections_count: connectionIds.length,
         duration_ms: duration,
-        operation: 'broadcastSnapshot',
+        operation: 'broadcast',
       });
     } catch (error) {
       const duration = Date.now() - startTime;
@@ -146,7 +191,7 @@ export class BroadcastService {
         game_id: gameId,
         message_type: messageType,
         duration_ms: duration,
-        operation: 'broadcastSnapshot',
+        operation: 'broadcast',
         error: error instanceof Error ? error.message : 'Unknown error',
       });
       throw error;
@@ -171,35 +216,43 @@ export class BroadcastService {
     snapshot: GameSnapshot,
     messageType: 'initial_snapshot' | 'snapshot_update'
   ): Promise<void> {
-    try {
-      // Construct WebSocket message
-      const message: WebSocketMessage = {
-        message_type: messageType,
-        timestamp: new Date().toISOString(),
-        data: snapshot,
-      };
+    // Construct WebSocket message
+    const message: WebSocketMessage = {
+      message_type: messageType,
+      timestamp: new Date().toISOString(),
+      data: snapshot,
+    };
+
+    await this.sendMessage(connectionId, message);
 
-      // Serialize message to JSON
-      const messageData = JSON.stringify(message);
+    log(LogLevel.INFO, 'Sent snapshot to connection', {
+      connection_id: connectionId,
+      message_type: messageType,
+      operation: 'sendSnapshotToConnection',
+    });
+  }
 
+  /**
+   * Send a message to a specific connection
+   * 
+   * @param connectionId - WebSocket connection identifier
+   * @param message - Message to send
+   * @throws Error if posting to connection fails
+   */
+  async sendMessage(connectionId: string, message: WebSocketMessage): Promise<void> {
+    try {
       // Post message to connection using API Gateway Management API
       const client = this.getApiGatewayClient();
       await client.send(
         new PostToConnectionCommand({
           ConnectionId: connectionId,
-          Data: Buffer.from(messageData, 'utf-8'),
+          Data: Buffer.from(JSON.stringify(message), 'utf-8'),
         })
       );
-
-      log(LogLevel.INFO, 'Sent snapshot to connection', {
-        connection_id: connectionId,
-        message_type: messageType,
-        operation: 'sendSnapshotToConnection',
-      });
     } catch (error) {
       // Re-throw error for caller to handle (connection cleanup)
       throw new Error(
-        `Failed to send snapshot to connection ${connectionId}: ${
+        `Failed to send ${message.message_type} to connection ${connectionId}: ${
           error instanceof Error ? error.message : 'Unknown error'
         }`
       );
@@ -0,0 +1,249 @@
+/**
+ * Division Service
+ *
+ * Business logic layer for conference and division operations.
+ * Handles season grouping and team membership with proper error handling.
+ */
+
+import { DivisionRepository } from '../repositories/division-repository';
+import { SeasonRepository } from '../repositories/season-repository';
+import {
+  Conference,
+  Division,
+  CreateConferenceInput,
+  CreateDivisionInput,
+  AssignDivisionTeamInput,
+} from '../models/division';
+import { NotFoundError, BadRequestError } from '../models/errors';
+import {
+  validateCreateConferenceInput,
+  validateCreateDivisionInput,
+  validateAssignDivisionTeamInput,
+} from '../utils/request-validation';
+
+/**
+ * Division Service
+ * Provides business logic for conference and division operations
+ */
+export class DivisionService {
+  constructor(
+    private divisionRepository: DivisionRepository,
+    private seasonRepository: SeasonRepository
+  ) {}
+
+  /**
+   * Get all conferences for a season
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Array of conferences ordered by name
+   */
+  async getConferencesBySeason(tenantId: string, seasonId: string): Promise<Conference[]> {
+    return this.divisionRepository.findConferencesBySeasonId(tenantId, seasonId);
+  }
+
+  /**
+   * Create a conference in a season
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Conference fields from request body
+   * @returns Created conference
+   * @throws BadRequestError if input is invalid or the season is completed
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   * @throws ConflictError if the name is taken in the season
+   */
+  async createConference(
+    tenantId: string,
+    seasonId: string,
+    input: CreateConferenceInput
+  ): Promise<Conference> {
+    validateCreateConferenceInput(input);
+    await this.assertSeasonOpen(tenantId, seasonId);
+
+    const conference = await this.divisionRepository.createConference(tenantId, seasonId, input);
+
+    if (!conference) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return conference;
+  }
+
+  /**
+   * Remove a conference from a season
+   *
+   * Divisions in the conference are kept without a conference.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param conferenceId - Conference identifier
+   * @throws BadRequestError if the season is completed
+   * @throws NotFoundError if the season or conference doesn't exist for tenant
+   */
+  async removeConference(tenantId: string, seasonId: string, conferenceId: string): Promise<void> {
+    await this.assertSeasonOpen(tenantId, seasonId);
+
+    const deleted = await this.divisionRepository.deleteConference(tenantId, seasonId, conferenceId);
+
+    if (!deleted) {
+      throw new NotFoundError('Conference not found');
+    }
+  }
+
+  /**
+   * Get all divisions for a season
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Array of divisions with member team ids, ordered by name
+   */
+  async getDivisionsBySeason(tenantId: string, seasonId: string): Promise<Division[]> {
+    return this.divisionRepository.findBySeasonId(tenantId, seasonId);
+  }
+
+  /**
+   * Create a division in a season
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Division fields from request body
+   * @returns Created division
+   * @throws BadRequestError if input is invalid, the conference isn't in the season
+   *   or the season is completed
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   * @throws ConflictError if the name is taken in the season
+   */
+  async createDivision(
+    tenantId: string,
+    seasonId: string,
+    input: CreateDivisionInput
+  ): Promise<Division> {
+    validateCreateDivisionInput(input);
+    await this.assertSeasonOpen(tenantId, seasonId);
+
+    if (input.conference_id) {
+      const conferences = await this.divisionRepository.findConferencesBySeasonId(tenantId, seasonId);
+
+      if (!conferences.some(conference => conference.id === input.conference_id)) {
+        const error = new BadRequestError('Invalid division');
+        (error as any).details = { conference_id: 'Conference does not belong to this season' };
+        throw error;
+      }
+    }
+
+    const division = await this.divisionRepository.create(tenantId, seasonId, input);
+
+    if (!division) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return division;
+  }
+
+  /**
+   * Remove a division from a season
+   *
+   * Teams in the division become unassigned.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param divisionId - Division identifier
+   * @throws BadRequestError if the season is completed
+   * @throws NotFoundError if the season or division doesn't exist for tenant
+   */
+  async removeDivision(tenantId: string, seasonId: string, divisionId: string): Promise<void> {
+    await this.assertSeasonOpen(tenantId, seasonId);
+
+    const deleted = await this.divisionRepository.delete(tenantId, seasonId, divisionId);
+
+    if (!deleted) {
+      throw new NotFoundError('Division not found');
+    }
+  }
+
+  /**
+   * Put a team in a division
+   *
+   * A team already in another division of the same season is moved.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param divisionId - Division identifier
+   * @param input - Team to assign from request body
+   * @returns Division with its updated team list
+   * @throws BadRequestError if input is invalid, the team isn't in the season's
+   *   league or the season is completed
+   * @throws NotFoundError if division doesn't exist or doesn't belong to tenant
+   */
+  async assignTeam(
+    tenantId: string,
+    divisionId: string,
+    input: AssignDivisionTeamInput
+  ): Promise<Division> {
+    validateAssignDivisionTeamInput(input);
+
+    const division = await this.getDivisionById(tenantId, divisionId);
+    await this.assertSeasonOpen(tenantId, division.season_id);
+
+    const assigned = await this.divisionRepository.assignTeam(tenantId, divisionId, input.team_id);
+
+    if (!assigned) {
+      const error = new BadRequestError('Invalid division team');
+      (error as any).details = { team_id: 'Team does not belong to this season\'s league' };
+      throw error;
+    }
+
+    return this.getDivisionById(tenantId, divisionId);
+  }
+
+  /**
+   * Take a team out of a division
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param divisionId - Division identifier
+   * @param teamId - Team identifier
+   * @throws BadRequestError if the season is completed
+   * @throws NotFoundError if the division doesn't exist or the team isn't in it
+   */
+  async removeTeam(tenantId: string, divisionId: string, teamId: string): Promise<void> {
+    const division = await this.getDivisionById(tenantId, divisionId);
+    await this.assertSeasonOpen(tenantId, division.season_id);
+
+    const removed = await this.divisionRepository.removeTeam(tenantId, divisionId, teamId);
+
+    if (!removed) {
+      throw new NotFoundError('Team is not in this division');
+    }
+  }
+
+  /**
+   * Get a division by ID with 404 handling
+   */
+  private async getDivisionById(tenantId: string, divisionId: string): Promise<Division> {
+    const division = await this.divisionRepository.findById(tenantId, divisionId);
+
+    if (!division) {
+      throw new NotFoundError('Division not found');
+    }
+
+    return division;
+  }
+
+  /**
+   * Ensure a season exists and can still be regrouped
+   *
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   * @throws BadRequestError if the season is completed
+   */
+  private async assertSeasonOpen(tenantId: string, seasonId: string): Promise<void> {
+    const season = await this.seasonRepository.findById(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    if (season.completed_at) {
+      throw new BadRequestError('Cannot change divisions of a completed season');
+    }
+  }
+}
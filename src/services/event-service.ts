@@ -10,21 +10,27 @@
 
 import { GameRepository } from '../repositories/game-repository';
 import { SeasonRepository } from '../repositories/season-repository';
-import { TeamRepository } from '../repositories/team-repository';
-import { StandingsRepository } from '../repositories/standings-repository';
 import { EventRepository } from '../repositories/event-repository';
 import { GameEvent, CreateEventParams, EventType, EventMetadata, EventPayload } from '../models/event';
-import { GameStatus } from '../models/game';
+import { Game, GameStatus, GameDecision, ActivePenalty, ReleasedPenalty } from '../models/game';
+import { resolvePointsRules } from '../models/standing';
+import { SportType } from '../models/league';
 import { GameSnapshot } from '../models/snapshot';
+import { SubscriptionTarget } from '../models/websocket';
 import { BadRequestError, NotFoundError } from '../models/errors';
 import { validateEventPayload } from '../utils/event-validation';
 import { validateSpatialCoordinates } from '../utils/spatial-coordinate-validation';
 import { writeEvent, getEventsByGame } from '../config/dynamodb';
 import { applyEventToGame } from '../utils/apply-event-to-game';
-import { recalculateStandings } from '../utils/standings-calculation';
+import { buildSnapshotDelta } from '../utils/snapshot-delta';
+import { countShot } from '../utils/shots';
+import { restoreReleasedPenalty } from '../utils/penalties';
+import { SCORING_EVENT_TYPES, eventPoints, withScoringPoints } from '../utils/scoring';
+import { applyEventToPlayerStats } from '../utils/player-game-stats';
 import { transaction } from '../config/database';
 import { SnapshotService } from './snapshot-service';
 import { BroadcastService } from './broadcast-service';
+import { BracketService } from './bracket-service';
 
 /**
  * Event Service
@@ -34,11 +40,10 @@ export class EventService {
   constructor(
     private gameRepository: GameRepository,
     private seasonRepository: SeasonRepository,
-    private teamRepository: TeamRepository,
-    private standingsRepository: StandingsRepository,
     private eventRepository: EventRepository,
     private snapshotService: SnapshotService,
-    private broadcastService: BroadcastService
+    private broadcastService: BroadcastService,
+    private bracketService: BracketService
   ) {}
 
   /**
@@ -67,10 +72,13 @@ export class EventService {
    * This method:
    * 1. Validates game exists and belongs to tenant
    * 2. Prevents event creation for finalized games
-   * 3. Validates event payload against event_type schema
+   * 3. Validates event type and payload against the event catalog of the
+   *    league's sport, names the goalie in net on shots and goals and sets
+   *    the points scoring events are worth
    * 4. Writes event to DynamoDB with TTL
-   * 5. Applies event to game state in RDS
-   * 6. Triggers standings recalculation for GAME_FINALIZED events
+   * 5. Applies event to game state in RDS (a GAME_FINALIZED result is applied
+   *    to standings in the same transaction)
+   * 6. Advances the bracket for finalized playoff games
    * 
    * @param tenantId - Tenant identifier from JWT claims
    * @param gameId - Game identifier
@@ -79,7 +87,8 @@ export class EventService {
    * @param metadata - Event metadata (user_id, source, etc.)
    * @returns Created event with event_id
    * @throws NotFoundError if game doesn't exist or doesn't belong to tenant
-   * @throws BadRequestError if game is finalized or payload is invalid
+   * @throws BadRequestError if game is finalized, event type is invalid for
+   *   the sport or payload is invalid
    */
   async createEvent(
     tenantId: string,
@@ -102,8 +111,13 @@ export class EventService {
       throw error;
     }
     
-    // 3. Validate event payload against event_type schema
-    validateEventPayload(eventType, payload);
+    // 3. Validate event type and payload against the sport's event catalog
+    const sportType = await this.findSportType(tenantId, game);
+    validateEventPayload(sportType, eventType, payload);
+    if (eventType === EventType.GAME_FINALIZED) {
+      await this.validateFinalScore(tenantId, game, payload);
+    }
+    payload = withScoringPoints(sportType, eventType, this.withGoalieInNet(game, eventType, payload));
     
     // 4. Write event to DynamoDB with TTL
     const eventParams: CreateEventParams = {
@@ -119,16 +133,10 @@ export class EventService {
     // 5. Apply event to game state in RDS
     await applyEventToGame(tenantId, gameId, event);
     
-    // 6. Trigger standings recalculation for GAME_FINALIZED events
-    if (eventType === EventType.GAME_FINALIZED) {
-      await recalculateStandings(
-        tenantId,
-        game.season_id,
-        this.gameRepository,
-        this.standingsRepository,
-        this.seasonRepository,
-        this.teamRepository
-      );
+    // 6. Advance the bracket for finalized playoff games (standings were
+    //    updated with the game's finalization)
+    if (eventType === EventType.GAME_FINALIZED && game.bracket_series_id) {
+      await this.bracketService.advanceBracket(tenantId, game.season_id);
     }
     
     return event;
@@ -139,17 +147,22 @@ export class EventService {
    * 
    * This method provides the complete event creation flow for scorekeeper operations:
    * 1. Validates spatial coordinates if present in payload
-   * 2. Checks idempotency_key for duplicate prevention
+   * 2. Checks idempotency_key for duplicate prevention (a duplicate
+   *    GAME_FINALIZED of a playoff game advances the bracket, in case the
+   *    original request failed before it did)
    * 3. Validates occurred_at timestamp if provided (not in future, within 24 hours)
    * 4. Validates game exists and belongs to tenant
    * 5. Prevents event creation for finalized games
-   * 6. Validates event payload against event_type schema
+   * 6. Validates event type and payload against the event catalog of the
+   *    league's sport, names the goalie in net on shots and goals and sets
+   *    the points scoring events are worth
    * 7. Preserves client-provided occurred_at timestamp for offline events
    * 8. Writes event to DynamoDB with TTL
-   * 9. Applies event to game state in RDS
-   * 10. Generates snapshot using SnapshotService
-   * 11. Triggers broadcast using BroadcastService
-   * 12. Triggers standings recalculation for GAME_FINALIZED events
+   * 9. Applies event to game state in RDS (a GAME_FINALIZED result is applied
+   *    to standings in the same transaction)
+   * 10. Advances the bracket for finalized playoff games
+   * 11. Generates snapshot using SnapshotService
+   * 12. Broadcasts a delta using BroadcastService
    * 
    * @param tenantId - Tenant identifier from JWT claims
    * @param gameId - Game identifier
@@ -157,9 +170,11 @@ export class EventService {
    * @param payload - Event-specific payload data
    * @param metadata - Event metadata (user_id, source, etc.)
    * @param options - Optional parameters for idempotency and offline events
-   * @returns Created event and generated snapshot
+   * @returns Created event and generated snapshot; for a known idempotency_key,
+   *   the original event with duplicate set
    * @throws NotFoundError if game doesn't exist or doesn't belong to tenant
-   * @throws BadRequestError if game is finalized, payload is invalid, timestamp is invalid, or duplicate idempotency_key
+   * @throws BadRequestError if game is finalized, event type is invalid for
+   *   the sport, payload is invalid or timestamp is invalid
    * 
    * Requirements: 1.1-1.5, 2.1, 7.1, 7.2, 7.3, 7.4, 9.4, 13.1-13.3
    */
@@ -173,7 +188,7 @@ export class EventService {
       occurred_at?: string;
       idempotency_key?: string;
     }
-  ): Promise<{ event: GameEvent; snapshot: GameSnapshot }> {
+  ): Promise<{ event: GameEvent; snapshot: GameSnapshot; duplicate: boolean }> {
     // 1. Validate spatial coordinates if present in payload
     if (payload.spatial_coordinates) {
       const validationResult = validateSpatialCoordinates(payload.spatial_coordinates);
@@ -199,6 +214,12 @@ export class EventService {
           throw new NotFoundError('Game not found');
         }
 
+        // A retry after a partial failure catches the bracket up with the
+        // finalized playoff game (advancing is idempotent)
+        if (existingEvent.event_type === EventType.GAME_FINALIZED && game.bracket_series_id) {
+          await this.bracketService.advanceBracket(tenantId, game.season_id);
+        }
+
         const snapshot = await this.snapshotService.generateSnapshotFromGame(
           tenantId,
           gameId,
@@ -206,7 +227,7 @@ export class EventService {
         );
 
         // Return existing event with current snapshot (200 response)
-        return { event: existingEvent, snapshot };
+        return { event: existingEvent, snapshot, duplicate: true };
       }
     }
 
@@ -215,6 +236,16 @@ export class EventService {
       const occurredAt = new Date(options.occurred_at);
       const now = new Date();
       
+      if (Number.isNaN(occurredAt.getTime())) {
+        const error = new BadRequestError('Event timestamp must be an ISO 8601 date-time');
+        (error as any).code = 'INVALID_TIMESTAMP';
+        (error as any).details = {
+          occurred_at: options.occurred_at,
+          reason: 'Timestamp is not a valid date-time'
+        };
+        throw error;
+      }
+      
       // Validate timestamp is not in the future
       if (occurredAt > now) {
         const error = new BadRequestError('Event timestamp cannot be in the future');
@@ -253,8 +284,13 @@ export class EventService {
       throw error;
     }
     
-    // 5. Validate event payload against event_type schema
-    validateEventPayload(eventType, payload);
+    // 5. Validate event type and payload against the sport's event catalog
+    const sportType = await this.findSportType(tenantId, game);
+    validateEventPayload(sportType, eventType, payload);
+    if (eventType === EventType.GAME_FINALIZED) {
+      await this.validateFinalScore(tenantId, game, payload);
+    }
+    payload = withScoringPoints(sportType, eventType, this.withGoalieInNet(game, eventType, payload));
     
     // 6. Write event to DynamoDB with optional occurred_at and idempotency_key
     const eventParams: CreateEventParams = {
@@ -271,58 +307,162 @@ export class EventService {
       spatial_coordinates: payload.spatial_coordinates,
     });
     
-    // 7. Apply event to game state in RDS
+    // 7. Apply event to game state in RDS and advance the update sequence
     await applyEventToGame(tenantId, gameId, event);
+    const sequence = await this.gameRepository.advanceUpdateSequence(tenantId, gameId);
     
     // 8. Fetch updated game state for snapshot generation
     const updatedGame = await this.gameRepository.findById(tenantId, gameId);
     
-    if (!updatedGame) {
+    if (!updatedGame || sequence === null) {
       throw new NotFoundError('Game not found after update');
     }
     
-    // 9. Generate snapshot using SnapshotService
+    // 9. Advance the bracket for finalized playoff games (standings were
+    //    updated with the game's finalization) before broadcasting, so a
+    //    failed broadcast can't leave the bracket behind
+    if (eventType === EventType.GAME_FINALIZED && game.bracket_series_id) {
+      await this.bracketService.advanceBracket(tenantId, game.season_id);
+    }
+    
+    // 10. Generate snapshot using SnapshotService
     const snapshot = await this.snapshotService.generateSnapshotFromGame(
       tenantId,
       gameId,
       updatedGame
     );
     
-    // 10. Trigger broadcast using BroadcastService
-    await this.broadcastService.broadcastSnapshot(
+    // 11. Broadcast the changes since the game's previous state
+    await this.broadcastService.broadcastDelta(
       tenantId,
-      gameId,
-      snapshot,
-      'snapshot_update'
+      await this.broadcastTargets(tenantId, updatedGame),
+      buildSnapshotDelta(this.snapshotService.describeState(game), snapshot, [event], sequence)
     );
     
-    // 11. Trigger standings recalculation for GAME_FINALIZED events
-    if (eventType === EventType.GAME_FINALIZED) {
-      await recalculateStandings(
-        tenantId,
-        game.season_id,
-        this.gameRepository,
-        this.standingsRepository,
-        this.seasonRepository,
-        this.teamRepository
-      );
+    return { event, snapshot, duplicate: false };
+  }
+
+  /**
+   * Reject GAME_FINALIZED scores that the season's points rules can't rank
+   * 
+   * A tie is rejected when the rules don't allow ties, and a game decided in
+   * overtime or a shootout must have a winner. Playoff games always need a
+   * winner.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param game - Game being finalized
+   * @param payload - Validated GAME_FINALIZED payload
+   * @throws BadRequestError if the final score is a disallowed tie
+   */
+  private async validateFinalScore(
+    tenantId: string,
+    game: Game,
+    payload: EventPayload
+  ): Promise<void> {
+    if (payload.final_home_score !== payload.final_away_score) {
+      return;
     }
-    
-    return { event, snapshot };
+
+    if (payload.decided_in && payload.decided_in !== GameDecision.REGULATION) {
+      const error = new BadRequestError(`A game decided in ${payload.decided_in} cannot end tied`);
+      (error as any).code = 'INVALID_FINAL_SCORE';
+      throw error;
+    }
+
+    if (game.bracket_series_id) {
+      const error = new BadRequestError('Playoff games cannot end tied');
+      (error as any).code = 'INVALID_FINAL_SCORE';
+      throw error;
+    }
+
+    const rules = resolvePointsRules(
+      await this.seasonRepository.findPointsRules(tenantId, game.season_id)
+    );
+
+    if (!rules.allow_ties) {
+      const error = new BadRequestError('Ties are not allowed in this league');
+      (error as any).code = 'INVALID_FINAL_SCORE';
+      throw error;
+    }
+  }
+
+  /**
+   * Get the sport of a game's league, which decides the events it accepts
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param game - Game an event is recorded on
+   * @returns The league's sport
+   * @throws NotFoundError if the game's season is not found for tenant
+   */
+  private async findSportType(tenantId: string, game: Game): Promise<SportType> {
+    const sportType = await this.seasonRepository.findSportType(tenantId, game.season_id);
+
+    if (!sportType) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return sportType;
   }
 
+  /**
+   * Name the goalie in net on a shot or goal that doesn't name one
+   * 
+   * The goalie is the one GOALIE_CHANGED put in the defending team's net.
+   * Storing the goalie on the event lets a reversal take the stats back off
+   * the goalie who was credited, whoever is in net by then. A goalie_id of
+   * null (an empty net) is kept.
+   * 
+   * @param game - Game the event is recorded on
+   * @param eventType - Type of event
+   * @param payload - Validated event payload
+   * @returns The payload, with goalie_id set when a goalie is in net
+   */
+  private withGoalieInNet(game: Game, eventType: EventType, payload: EventPayload): EventPayload {
+    if (
+      (eventType !== EventType.SHOT_ON_GOAL && eventType !== EventType.GOAL_SCORED) ||
+      payload.goalie_id !== undefined
+    ) {
+      return payload;
+    }
+
+    const goalieId =
+      payload.team_id === game.home_team_id ? game.away_goalie_id : game.home_goalie_id;
+
+    return goalieId ? { ...payload, goalie_id: goalieId } : payload;
+  }
+
+  /**
+   * Get the subscription scopes a game's snapshots are broadcast to
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param game - Game whose snapshot is broadcast
+   * @returns The game, its season, its teams and, if found, its league
+   */
+  private async broadcastTargets(tenantId: string, game: Game): Promise<SubscriptionTarget[]> {
+    const season = await this.seasonRepository.findById(tenantId, game.season_id);
+
+    return [
+      { scope: 'game', scope_id: game.id },
+      { scope: 'season', scope_id: game.season_id },
+      ...(season ? [{ scope: 'league' as const, scope_id: season.league_id }] : []),
+      { scope: 'team', scope_id: game.home_team_id },
+      { scope: 'team', scope_id: game.away_team_id },
+    ];
+  }
 
     /**
      * Reverse a previously created event
      *
      * This method:
-     * 1. Validates reversed_event_id exists using EventRepository
+     * 1. Validates the game isn't finalized (its result is already in the
+     *    standings and bracket) and reversed_event_id exists
      * 2. Checks if event is already reversed using EventRepository.isEventReversed
-     * 3. Validates event type is reversible (GOAL_SCORED, PENALTY_ASSESSED, SHOT_ON_GOAL)
+     * 3. Validates event type is reversible (scoring events, PENALTY_ASSESSED, SHOT_ON_GOAL)
      * 4. Applies reverse logic based on event type
-     * 5. Creates EVENT_REVERSAL event in DynamoDB
+     * 5. Creates EVENT_REVERSAL event in DynamoDB, only once the reverse logic
+     *    has committed, so a failed reversal leaves the event reversible
      * 6. Generates snapshot using SnapshotService
-     * 7. Triggers broadcast using BroadcastService
+     * 7. Broadcasts a delta using BroadcastService
      *
      * @param tenantId - Tenant identifier from JWT claims
      * @param gameId - Game identifier
@@ -330,6 +470,7 @@ export class EventService {
      * @param metadata - Event metadata (user_id, source, etc.)
      * @returns Reversal event and updated game snapshot
      * @throws NotFoundError if game or event doesn't exist (404 EVENT_NOT_FOUND)
+     * @throws BadRequestError if game is finalized (400 GAME_ALREADY_FINALIZED)
      * @throws BadRequestError if event type is not reversible (400 EVENT_NOT_REVERSIBLE)
      * @throws BadRequestError if event is already reversed (409 EVENT_ALREADY_REVERSED)
      *
@@ -348,6 +489,13 @@ export class EventService {
         throw new NotFoundError('Game not found');
       }
 
+      // Standings and brackets already hold a final game's result
+      if (game.status === GameStatus.FINAL) {
+        const error = new BadRequestError('Cannot reverse events for finalized games');
+        (error as any).code = 'GAME_ALREADY_FINALIZED';
+        throw error;
+      }
+
       // 2. Validate reversed_event_id exists
       const events = await getEventsByGame(gameId, tenantId);
       const eventToReverse = events.find(e => e.event_id === reversedEventId);
@@ -369,7 +517,7 @@ export class EventService {
 
       // 4. Validate event type is reversible
       const reversibleEventTypes = [
-        EventType.GOAL_SCORED,
+        ...SCORING_EVENT_TYPES,
         EventType.PENALTY_ASSESSED,
         EventType.SHOT_ON_GOAL,
       ];
@@ -380,7 +528,11 @@ export class EventService {
         throw error;
       }
 
-      // 5. Create EVENT_REVERSAL event
+      // 5. Apply reverse logic to game state
+      await this.applyReverseLogic(tenantId, gameId, eventToReverse);
+
+      // 6. Create EVENT_REVERSAL event once the game state change has
+      //    committed, then advance the update sequence
       const reversalPayload = {
         reversed_event_id: reversedEventId,
       };
@@ -392,14 +544,12 @@ export class EventService {
         payload: reversalPayload,
         metadata,
       });
-
-      // 6. Apply reverse logic to game state
-      await this.applyReverseLogic(tenantId, gameId, eventToReverse, reversalEvent);
+      const sequence = await this.gameRepository.advanceUpdateSequence(tenantId, gameId);
 
       // 7. Fetch updated game state for snapshot generation
       const updatedGame = await this.gameRepository.findById(tenantId, gameId);
 
-      if (!updatedGame) {
+      if (!updatedGame || sequence === null) {
         throw new NotFoundError('Game not found after reversal');
       }
 
@@ -410,12 +560,16 @@ export class EventService {
         updatedGame
       );
 
-      // 9. Trigger broadcast using BroadcastService
-      await this.broadcastService.broadcastSnapshot(
+      // 9. Broadcast the changes since the game's previous state
+      await this.broadcastService.broadcastDelta(
         tenantId,
-        gameId,
-        snapshot,
-        'snapshot_update'
+        await this.broadcastTargets(tenantId, updatedGame),
+        buildSnapshotDelta(
+          this.snapshotService.describeState(game),
+          snapshot,
+          [reversalEvent],
+          sequence
+        )
       );
 
       return { event: reversalEvent, snapshot };
@@ -425,25 +579,36 @@ export class EventService {
      * Apply reverse logic based on event type
      * 
      * Implements reversal logic for different event types:
-     * - GOAL_SCORED: Decrements the appropriate team's score by 1
-     * - PENALTY_ASSESSED: Removes the penalty from active penalties (placeholder)
-     * - SHOT_ON_GOAL: Updates shot statistics (placeholder)
+     * - Scoring events (GOAL_SCORED, FIELD_GOAL, ...): Takes the event's
+     *   points off the appropriate team's score
+     * - PENALTY_ASSESSED: Removes the penalty from active penalties
+     * - SHOT_ON_GOAL: Decrements the team's shots, in total and for the period
      * 
      * @param tenantId - Tenant identifier
      * @param gameId - Game identifier
      * @param eventToReverse - The original event being reversed
-     * @param reversalEvent - The EVENT_REVERSAL event
+     * @throws BadRequestError if event type has no reverse logic
      */
       private async applyReverseLogic(
         tenantId: string,
         gameId: string,
-        eventToReverse: GameEvent,
-        reversalEvent: GameEvent
+        eventToReverse: GameEvent
       ): Promise<void> {
         // Apply reverse logic based on the original event type
         switch (eventToReverse.event_type) {
           case EventType.GOAL_SCORED:
-            await this.reverseGoalScored(tenantId, gameId, eventToReverse);
+          case EventType.FIELD_GOAL:
+          case EventType.FREE_THROW:
+          case EventType.RUN_SCORED:
+          case EventType.TOUCHDOWN:
+          case EventType.SAFETY:
+          case EventType.EXTRA_POINT:
+          case EventType.TWO_POINT_CONVERSION:
+          case EventType.TRY:
+          case EventType.CONVERSION:
+          case EventType.PENALTY_GOAL:
+          case EventType.DROP_GOAL:
+            await this.reversePointsScored(tenantId, gameId, eventToReverse);
             break;
           
           case EventType.PENALTY_ASSESSED:
@@ -455,35 +620,45 @@ export class EventService {
             break;
           
           // Future event types can be added here
-          default:
-            // For other event types, apply the reversal event to game state
-            await applyEventToGame(tenantId, gameId, reversalEvent);
+          default: {
+            const error = new BadRequestError('Event type is not reversible');
+            (error as any).code = 'EVENT_NOT_REVERSIBLE';
+            throw error;
+          }
         }
       }
 
     /**
-     * Reverse a GOAL_SCORED event by decrementing the team's score
+     * Reverse a scoring event by taking its points off the team's score and
+     * its stats off the players credited (for a goal, the scorer, assisting
+     * player and goalie)
+     * 
+     * A power-play goal's released penalty is put back as it was before the
+     * goal.
      * 
      * @param tenantId - Tenant identifier
      * @param gameId - Game identifier
-     * @param goalEvent - The original GOAL_SCORED event
+     * @param scoringEvent - The original scoring event
      */
-    private async reverseGoalScored(
+    private async reversePointsScored(
       tenantId: string,
       gameId: string,
-      goalEvent: GameEvent
+      scoringEvent: GameEvent
     ): Promise<void> {
-      const { team_id } = goalEvent.payload;
+      const { team_id } = scoringEvent.payload;
+      const points = eventPoints(scoringEvent);
 
       // Use a transaction to ensure atomic update
       await transaction(async (client) => {
         // Verify game exists and belongs to tenant
         const gameCheck = await client.query(
-          `SELECT g.id, g.home_team_id, g.away_team_id, g.home_score, g.away_score
+          `SELECT g.id, g.home_team_id, g.away_team_id, g.home_score, g.away_score,
+                  g.active_penalties, g.released_penalties
            FROM games g
            INNER JOIN seasons s ON g.season_id = s.id
            INNER JOIN leagues l ON s.league_id = l.id
-           WHERE l.tenant_id = $1 AND g.id = $2`,
+           WHERE l.tenant_id = $1 AND g.id = $2
+           FOR UPDATE OF g`,
           [tenantId, gameId]
         );
 
@@ -497,23 +672,27 @@ export class EventService {
         let updateQuery: string;
         if (team_id === game.home_team_id) {
           // Ensure score doesn't go below 0
-          if (game.home_score <= 0) {
-            throw new BadRequestError(`Cannot reverse goal: home team score is already 0`);
+          if (game.home_score < points) {
+            throw new BadRequestError(
+              `Cannot reverse ${points} points: home team score is ${game.home_score}`
+            );
           }
           updateQuery = `
             UPDATE games
-            SET home_score = home_score - 1,
+            SET home_score = home_score - $2,
                 updated_at = NOW()
             WHERE id = $1
           `;
         } else if (team_id === game.away_team_id) {
           // Ensure score doesn't go below 0
-          if (game.away_score <= 0) {
-            throw new BadRequestError(`Cannot reverse goal: away team score is already 0`);
+          if (game.away_score < points) {
+            throw new BadRequestError(
+              `Cannot reverse ${points} points: away team score is ${game.away_score}`
+            );
           }
           updateQuery = `
             UPDATE games
-            SET away_score = away_score - 1,
+            SET away_score = away_score - $2,
                 updated_at = NOW()
             WHERE id = $1
           `;
@@ -521,16 +700,37 @@ export class EventService {
           throw new BadRequestError(`Team ${team_id} is not part of game ${gameId}`);
         }
 
-        await client.query(updateQuery, [gameId]);
+        await client.query(updateQuery, [gameId, points]);
+
+        // Put back the penalty a power-play goal released
+        const releasedPenalties: ReleasedPenalty[] = game.released_penalties ?? [];
+        const released = releasedPenalties.find(r => r.goal_event_id === scoringEvent.event_id);
+
+        if (released) {
+          await client.query(
+            `UPDATE games
+             SET active_penalties = $1,
+                 released_penalties = $2,
+                 updated_at = NOW()
+             WHERE id = $3`,
+            [
+              JSON.stringify(restoreReleasedPenalty(game.active_penalties ?? [], released.penalty)),
+              JSON.stringify(releasedPenalties.filter(r => r !== released)),
+              gameId,
+            ]
+          );
+        }
+
+        await applyEventToPlayerStats(client, game, scoringEvent, -1);
       });
     }
 
     /**
      * Reverse a PENALTY_ASSESSED event by removing the penalty from active penalties
+     * and the player's penalty minutes
      *
-     * NOTE: This is a placeholder implementation. The Game model does not currently
-     * have an active_penalties field. This method logs the reversal for audit purposes
-     * and will be enhanced when penalty tracking is added to the Game model.
+     * A penalty that already expired or was released by a goal is no longer
+     * active, so there is nothing to remove.
      *
      * @param tenantId - Tenant identifier
      * @param gameId - Game identifier
@@ -547,11 +747,12 @@ export class EventService {
       await transaction(async (client) => {
         // Verify game exists and belongs to tenant
         const gameCheck = await client.query(
-          `SELECT g.id, g.home_team_id, g.away_team_id
+          `SELECT g.id, g.home_team_id, g.away_team_id, g.active_penalties, g.released_penalties
            FROM games g
            INNER JOIN seasons s ON g.season_id = s.id
            INNER JOIN leagues l ON s.league_id = l.id
-           WHERE l.tenant_id = $1 AND g.id = $2`,
+           WHERE l.tenant_id = $1 AND g.id = $2
+           FOR UPDATE OF g`,
           [tenantId, gameId]
         );
 
@@ -566,33 +767,31 @@ export class EventService {
           throw new BadRequestError(`Team ${team_id} is not part of game ${gameId}`);
         }
 
-        // TODO: When active_penalties field is added to Game model:
-        // 1. Query current active_penalties from games table
-        // 2. Remove the penalty matching the original event's details
-        // 3. Update games table with modified active_penalties
-        //
-        // For now, log the reversal for audit purposes
-        // The penalty reversal will be fully functional once the Game model
-        // includes penalty tracking (future enhancement)
+        const penalties = (game.active_penalties ?? []).filter(
+          (p: ActivePenalty) => p.event_id !== penaltyEvent.event_id
+        );
+        // A goal reversed later must not bring the penalty back
+        const releasedPenalties = (game.released_penalties ?? []).filter(
+          (r: ReleasedPenalty) => r.penalty.event_id !== penaltyEvent.event_id
+        );
 
-        // Update game's updated_at timestamp to reflect the reversal
         await client.query(
           `UPDATE games
-           SET updated_at = NOW()
-           WHERE id = $1`,
-          [gameId]
+           SET active_penalties = $1,
+               released_penalties = $2,
+               updated_at = NOW()
+           WHERE id = $3`,
+          [JSON.stringify(penalties), JSON.stringify(releasedPenalties), gameId]
         );
+        await applyEventToPlayerStats(client, game, penaltyEvent, -1);
       });
     }
 
     /**
-     * Reverse a SHOT_ON_GOAL event by updating shot statistics
-     *
-     * NOTE: This is a placeholder implementation. The Game model does not currently
-     * have shot statistics fields (shots_on_goal_home, shots_on_goal_away, etc.).
-     * This method logs the reversal for audit purposes and will be enhanced when
-     * shot tracking is added to the Game model.
-     *
+     * Reverse a SHOT_ON_GOAL event by decrementing the team's shots, in total
+     * and for the shot's period, the player's shots and the goalie's shots
+     * against
+     * 
      * @param tenantId - Tenant identifier
      * @param gameId - Game identifier
      * @param shotEvent - The original SHOT_ON_GOAL event
@@ -602,17 +801,19 @@ export class EventService {
       gameId: string,
       shotEvent: GameEvent
     ): Promise<void> {
-      const { team_id } = shotEvent.payload;
+      const { team_id, period } = shotEvent.payload;
 
       // Use a transaction to ensure atomic update
       await transaction(async (client) => {
         // Verify game exists and belongs to tenant
         const gameCheck = await client.query(
-          `SELECT g.id, g.home_team_id, g.away_team_id
+          `SELECT g.id, g.home_team_id, g.away_team_id, g.home_shots, g.away_shots,
+                  g.shots_by_period
            FROM games g
            INNER JOIN seasons s ON g.season_id = s.id
            INNER JOIN leagues l ON s.league_id = l.id
-           WHERE l.tenant_id = $1 AND g.id = $2`,
+           WHERE l.tenant_id = $1 AND g.id = $2
+           FOR UPDATE OF g`,
           [tenantId, gameId]
         );
 
@@ -622,29 +823,41 @@ export class EventService {
 
         const game = gameCheck.rows[0];
 
-        // Verify team is part of the game
-        if (team_id !== game.home_team_id && team_id !== game.away_team_id) {
+        // Determine which team's shots to decrement
+        let updateQuery: string;
+        let shotsByPeriod;
+        if (team_id === game.home_team_id) {
+          // Ensure shots don't go below 0
+          if (game.home_shots <= 0) {
+            throw new BadRequestError(`Cannot reverse shot: home team shots are already 0`);
+          }
+          updateQuery = `
+            UPDATE games
+            SET home_shots = home_shots - 1,
+                shots_by_period = $1,
+                updated_at = NOW()
+            WHERE id = $2
+          `;
+          shotsByPeriod = countShot(game.shots_by_period ?? [], period, 'home', -1);
+        } else if (team_id === game.away_team_id) {
+          // Ensure shots don't go below 0
+          if (game.away_shots <= 0) {
+            throw new BadRequestError(`Cannot reverse shot: away team shots are already 0`);
+          }
+          updateQuery = `
+            UPDATE games
+            SET away_shots = away_shots - 1,
+                shots_by_period = $1,
+                updated_at = NOW()
+            WHERE id = $2
+          `;
+          shotsByPeriod = countShot(game.shots_by_period ?? [], period, 'away', -1);
+        } else {
           throw new BadRequestError(`Team ${team_id} is not part of game ${gameId}`);
         }
 
-        // TODO: When shot statistics fields are added to Game model:
-        // 1. Query current shot statistics from games table
-        // 2. Decrement the appropriate team's shot count by 1
-        // 3. Update games table with modified shot statistics
-        //
-        // For now, log the reversal for audit purposes
-        // The shot reversal will be fully functional once the Game model
-        // includes shot tracking (future enhancement)
-
-        // Update game's updated_at timestamp to reflect the reversal
-        await client.query(
-          `UPDATE games
-           SET updated_at = NOW()
-           WHERE id = $1`,
-          [gameId]
-        );
+        await client.query(updateQuery, [JSON.stringify(shotsByPeriod), gameId]);
+        await applyEventToPlayerStats(client, game, shotEvent, -1);
       });
     }
-
-
 }
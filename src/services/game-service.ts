@@ -2,21 +2,75 @@
  * Game Service
  * 
  * Business logic layer for game operations.
- * Handles game retrieval with proper error handling and filter support.
+ * Handles game retrieval with proper error handling and filter support,
+ * game scheduling with matchup and double-booking validation, and
+ * round-robin schedule generation.
  * 
  * Requirements: 5.1, 5.2, 14.9, 14.10
  */
 
 import { GameRepository } from '../repositories/game-repository';
-import { Game, GameFilters } from '../models/game';
-import { NotFoundError } from '../models/errors';
+import { SeasonRepository } from '../repositories/season-repository';
+import { TeamRepository } from '../repositories/team-repository';
+import {
+  Game,
+  GameFilters,
+  GameStatus,
+  CreateGameInput,
+  UpdateGameInput,
+  GenerateScheduleInput,
+  ProposedGame,
+  ScheduleGenerationResult,
+  Weekday,
+} from '../models/game';
+import { NotFoundError, BadRequestError, ConflictError } from '../models/errors';
+import {
+  validateCreateGameInput,
+  validateUpdateGameInput,
+  validateGenerateScheduleInput,
+} from '../utils/request-validation';
+import { buildRoundRobinRounds, assignScheduleSlots } from '../utils/schedule-generator';
+
+/**
+ * Default minimum gap between two games for the same team
+ */
+const DEFAULT_CONFLICT_WINDOW_MINUTES = 180;
+
+/**
+ * Statuses in which a game's schedule may still be changed
+ */
+const RESCHEDULABLE_STATUSES: GameStatus[] = [GameStatus.SCHEDULED, GameStatus.POSTPONED];
+
+/**
+ * Weekdays used when a schedule request doesn't restrict them
+ */
+const ALL_WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
 
 /**
  * Game Service
  * Provides business logic for game operations
  */
 export class GameService {
-  constructor(private gameRepository: GameRepository) {}
+  /**
+   * @param gameRepository - Game data access
+   * @param seasonRepository - Season data access (for the season's league)
+   * @param teamRepository - Team data access (for team league membership)
+   * @param conflictWindowMinutes - A team may not have two games closer than this
+   */
+  constructor(
+    private gameRepository: GameRepository,
+    private seasonRepository: SeasonRepository,
+    private teamRepository: TeamRepository,
+    private conflictWindowMinutes: number = DEFAULT_CONFLICT_WINDOW_MINUTES
+  ) {}
 
   /**
    * Get all games for a season with optional filters
@@ -53,4 +107,349 @@ export class GameService {
     
     return game;
   }
+
+  /**
+   * Schedule a game in a season
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Game fields from request body
+   * @returns Created game
+   * @throws BadRequestError if input is invalid, teams are the same or not in the
+   *   season's league, or the season is completed
+   * @throws ConflictError if either team already has a game within the conflict window
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async scheduleGame(
+    tenantId: string,
+    seasonId: string,
+    input: CreateGameInput
+  ): Promise<Game> {
+    validateCreateGameInput(input);
+
+    const season = await this.seasonRepository.findById(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    if (season.completed_at) {
+      throw new BadRequestError('Cannot schedule games in a completed season');
+    }
+
+    await this.validateMatchup(tenantId, season.league_id, input.home_team_id, input.away_team_id);
+    await this.assertTeamsAvailable(
+      tenantId,
+      [input.home_team_id, input.away_team_id],
+      new Date(input.scheduled_at)
+    );
+
+    const game = await this.gameRepository.create(tenantId, seasonId, input);
+
+    if (!game) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return game;
+  }
+
+  /**
+   * Reschedule a game or change its teams or location
+   * 
+   * Only scheduled and postponed games can be changed. Matchup and
+   * double-booking checks are re-run against the merged values.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param gameId - Game identifier
+   * @param input - Fields to update from request body
+   * @returns Updated game
+   * @throws BadRequestError if input is invalid, the game is live/final/cancelled,
+   *   or teams are the same or not in the season's league
+   * @throws ConflictError if either team already has a game within the conflict window
+   * @throws NotFoundError if game doesn't exist or doesn't belong to tenant
+   */
+  async updateGame(
+    tenantId: string,
+    gameId: string,
+    input: UpdateGameInput
+  ): Promise<Game> {
+    validateUpdateGameInput(input);
+
+    const existing = await this.getGameById(tenantId, gameId);
+
+    if (!RESCHEDULABLE_STATUSES.includes(existing.status)) {
+      throw new BadRequestError(`Cannot update a ${existing.status} game`);
+    }
+
+    const homeTeamId = input.home_team_id ?? existing.home_team_id;
+    const awayTeamId = input.away_team_id ?? existing.away_team_id;
+    const teamsChanged = input.home_team_id !== undefined || input.away_team_id !== undefined;
+
+    if (teamsChanged) {
+      const season = await this.seasonRepository.findById(tenantId, existing.season_id);
+
+      if (!season) {
+        throw new NotFoundError('Season not found');
+      }
+
+      await this.validateMatchup(tenantId, season.league_id, homeTeamId, awayTeamId);
+    }
+
+    if (teamsChanged || input.scheduled_at !== undefined) {
+      await this.assertTeamsAvailable(
+        tenantId,
+        [homeTeamId, awayTeamId],
+        new Date(input.scheduled_at ?? existing.scheduled_at),
+        gameId
+      );
+    }
+
+    const game = await this.gameRepository.update(tenantId, gameId, input);
+
+    if (!game) {
+      throw new NotFoundError('Game not found');
+    }
+
+    return game;
+  }
+
+  /**
+   * Generate a round-robin schedule for every team in the season's league
+   * 
+   * Pairings come from the circle method (single or double round-robin);
+   * each round is placed on the next eligible date from start_date onward,
+   * skipping blackout dates and days not listed in weekdays. Generated games
+   * are checked against the tenant's existing games, for team and venue
+   * clashes, with the same conflict window as scheduleGame.
+   * 
+   * A dry run performs every check and returns the proposed games without
+   * persisting them. Otherwise all games are created in one transaction.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Generation options from request body
+   * @returns Round count and the proposed (dry run) or created games
+   * @throws BadRequestError if input is invalid, the season is completed, the
+   *   league has fewer than two teams, or the rounds don't fit in the season
+   * @throws ConflictError if a generated game clashes with an existing game
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async generateSchedule(
+    tenantId: string,
+    seasonId: string,
+    input: GenerateScheduleInput
+  ): Promise<ScheduleGenerationResult> {
+    validateGenerateScheduleInput(input);
+
+    const season = await this.seasonRepository.findById(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    if (season.completed_at) {
+      throw new BadRequestError('Cannot schedule games in a completed season');
+    }
+
+    const seasonStart = new Date(season.start_date).toISOString().slice(0, 10);
+    const seasonEnd = new Date(season.end_date).toISOString().slice(0, 10);
+    const startDate = input.start_date ?? seasonStart;
+
+    if (startDate < seasonStart || startDate > seasonEnd) {
+      const error = new BadRequestError('Invalid schedule request');
+      (error as any).details = { start_date: 'Must be within the season\'s dates' };
+      throw error;
+    }
+
+    const teams = await this.teamRepository.findByLeagueId(tenantId, season.league_id);
+
+    if (teams.length < 2) {
+      throw new BadRequestError('At least two teams are required to generate a schedule');
+    }
+
+    const rounds = buildRoundRobinRounds(
+      teams.map(team => team.id),
+      input.format ?? 'single',
+      input.balance_home_away ?? true
+    );
+
+    const scheduled = assignScheduleSlots(rounds, {
+      startDate,
+      endDate: seasonEnd,
+      weekdays: input.weekdays ?? ALL_WEEKDAYS,
+      timeSlots: input.time_slots,
+      gamesPerSlot: input.games_per_slot ?? 1,
+      blackoutDates: input.blackout_dates ?? [],
+    });
+
+    const proposed: ProposedGame[] = scheduled.map(pairing => ({
+      round: pairing.round,
+      season_id: seasonId,
+      home_team_id: pairing.home_team_id,
+      away_team_id: pairing.away_team_id,
+      scheduled_at: pairing.scheduled_at,
+      status: GameStatus.SCHEDULED,
+      ...(input.location !== undefined && { location: input.location }),
+    }));
+
+    await this.assertScheduleAvailable(tenantId, proposed, input.location);
+
+    if (input.dry_run) {
+      return { dry_run: true, rounds: rounds.length, games: proposed };
+    }
+
+    const games = await this.gameRepository.createMany(
+      tenantId,
+      seasonId,
+      proposed.map(game => ({
+        home_team_id: game.home_team_id,
+        away_team_id: game.away_team_id,
+        scheduled_at: game.scheduled_at.toISOString(),
+        location: game.location,
+      }))
+    );
+
+    if (!games) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return { dry_run: false, rounds: rounds.length, games };
+  }
+
+  /**
+   * Validate that home and away are different teams in the season's league
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League of the season the game belongs to
+   * @param homeTeamId - Home team identifier
+   * @param awayTeamId - Away team identifier
+   * @throws BadRequestError with field details if the matchup is invalid
+   */
+  private async validateMatchup(
+    tenantId: string,
+    leagueId: string,
+    homeTeamId: string,
+    awayTeamId: string
+  ): Promise<void> {
+    const details: Record<string, string> = {};
+
+    if (homeTeamId === awayTeamId) {
+      details.away_team_id = 'Must be different from home_team_id';
+    } else {
+      const [homeTeam, awayTeam] = await Promise.all([
+        this.teamRepository.findById(tenantId, homeTeamId),
+        this.teamRepository.findById(tenantId, awayTeamId),
+      ]);
+
+      if (!homeTeam || homeTeam.league_id !== leagueId) {
+        details.home_team_id = 'Team does not belong to this season\'s league';
+      }
+      if (!awayTeam || awayTeam.league_id !== leagueId) {
+        details.away_team_id = 'Team does not belong to this season\'s league';
+      }
+    }
+
+    if (Object.keys(details).length > 0) {
+      const error = new BadRequestError('Invalid game');
+      (error as any).details = details;
+      throw error;
+    }
+  }
+
+  /**
+   * Ensure neither team has another game within the conflict window
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param teamIds - Teams playing in the game
+   * @param scheduledAt - Proposed start time
+   * @param excludeGameId - Game being rescheduled, ignored in the check
+   * @throws ConflictError if a team is already booked
+   */
+  private async assertTeamsAvailable(
+    tenantId: string,
+    teamIds: string[],
+    scheduledAt: Date,
+    excludeGameId?: string
+  ): Promise<void> {
+    const windowMs = this.conflictWindowMinutes * 60 * 1000;
+    const conflicts = await this.gameRepository.findTeamGamesInRange(
+      tenantId,
+      teamIds,
+      new Date(scheduledAt.getTime() - windowMs),
+      new Date(scheduledAt.getTime() + windowMs),
+      excludeGameId
+    );
+
+    if (conflicts.length > 0) {
+      const conflict = conflicts[0];
+      const bookedTeamId = teamIds.find(
+        teamId => teamId === conflict.home_team_id || teamId === conflict.away_team_id
+      );
+      throw new ConflictError(
+        `Team ${bookedTeamId} already has a game within ${this.conflictWindowMinutes} minutes ` +
+        `(game ${conflict.id} at ${new Date(conflict.scheduled_at).toISOString()})`
+      );
+    }
+  }
+
+  /**
+   * Ensure no generated game clashes with the tenant's existing games
+   * 
+   * A team or venue can't be booked twice within the conflict window, in
+   * any of the tenant's seasons. Generated games never clash with each other
+   * (each team plays once per round and rounds are on separate dates), so
+   * only existing games are checked.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param proposed - Generated games
+   * @param location - Venue of the generated games, if any
+   * @throws ConflictError on the first clash found
+   */
+  private async assertScheduleAvailable(
+    tenantId: string,
+    proposed: ProposedGame[],
+    location?: string
+  ): Promise<void> {
+    const windowMs = this.conflictWindowMinutes * 60 * 1000;
+    const starts = proposed.map(game => game.scheduled_at.getTime());
+    const rangeStart = new Date(Math.min(...starts) - windowMs);
+    const rangeEnd = new Date(Math.max(...starts) + windowMs);
+    const teamIds = [...new Set(proposed.flatMap(game => [game.home_team_id, game.away_team_id]))];
+
+    const [teamGames, locationGames] = await Promise.all([
+      this.gameRepository.findTeamGamesInRange(tenantId, teamIds, rangeStart, rangeEnd),
+      location !== undefined
+        ? this.gameRepository.findLocationGamesInRange(tenantId, location, rangeStart, rangeEnd)
+        : Promise.resolve([]),
+    ]);
+    const withinWindow = (other: Game, start: number): boolean =>
+      Math.abs(new Date(other.scheduled_at).getTime() - start) < windowMs;
+
+    for (const game of proposed) {
+      const start = game.scheduled_at.getTime();
+
+      for (const teamId of [game.home_team_id, game.away_team_id]) {
+        const conflict = teamGames.find(other =>
+          (other.home_team_id === teamId || other.away_team_id === teamId) &&
+          withinWindow(other, start)
+        );
+
+        if (conflict) {
+          throw new ConflictError(
+            `Team ${teamId} already has a game within ${this.conflictWindowMinutes} minutes ` +
+            `(game ${conflict.id} at ${new Date(conflict.scheduled_at).toISOString()})`
+          );
+        }
+      }
+
+      const venueConflict = locationGames.find(other => withinWindow(other, start));
+
+      if (venueConflict) {
+        throw new ConflictError(
+          `${location} already has a game within ${this.conflictWindowMinutes} minutes ` +
+          `(game ${venueConflict.id} at ${new Date(venueConflict.scheduled_at).toISOString()})`
+        );
+      }
+    }
+  }
 }
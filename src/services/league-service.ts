@@ -2,14 +2,19 @@
  * League Service
  * 
  * Business logic layer for league operations.
- * Handles league retrieval with proper error handling.
+ * Handles league retrieval, creation, updates and archiving with proper
+ * validation and error handling.
  * 
  * Requirements: 3.1, 3.2, 14.1, 14.2
  */
 
 import { LeagueRepository } from '../repositories/league-repository';
-import { League } from '../models/league';
-import { NotFoundError } from '../models/errors';
+import { League, CreateLeagueInput, UpdateLeagueInput } from '../models/league';
+import { NotFoundError, BadRequestError, ConflictError } from '../models/errors';
+import {
+  validateCreateLeagueInput,
+  validateUpdateLeagueInput,
+} from '../utils/request-validation';
 
 /**
  * League Service
@@ -45,4 +50,76 @@ export class LeagueService {
     
     return league;
   }
+
+  /**
+   * Create a league for a tenant
+   * 
+   * Validates sport_type, hex colors and field lengths before insert.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param input - League fields from request body
+   * @returns Created league
+   * @throws BadRequestError if input is invalid
+   * @throws ConflictError if the tenant already has a league with this name
+   */
+  async createLeague(tenantId: string, input: CreateLeagueInput): Promise<League> {
+    validateCreateLeagueInput(input);
+    
+    return this.leagueRepository.create(tenantId, input);
+  }
+
+  /**
+   * Update a league
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @param input - Fields to update from request body
+   * @returns Updated league
+   * @throws BadRequestError if input is invalid or league is archived
+   * @throws NotFoundError if league doesn't exist or doesn't belong to tenant
+   * @throws ConflictError if the new name collides with another league, or
+   *   the sport_type would change while the league has seasons
+   */
+  async updateLeague(
+    tenantId: string,
+    leagueId: string,
+    input: UpdateLeagueInput
+  ): Promise<League> {
+    validateUpdateLeagueInput(input);
+    
+    const existing = await this.getLeagueById(tenantId, leagueId);
+    
+    if (existing.archived_at) {
+      throw new BadRequestError('Cannot update an archived league');
+    }
+    
+    const league = await this.leagueRepository.update(tenantId, leagueId, input);
+    
+    if (!league) {
+      if (input.sport_type !== undefined && input.sport_type !== existing.sport_type) {
+        throw new ConflictError('League has seasons and its sport_type cannot be changed');
+      }
+      throw new NotFoundError('League not found');
+    }
+    
+    return league;
+  }
+
+  /**
+   * Archive a league
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @returns Archived league
+   * @throws NotFoundError if league doesn't exist or doesn't belong to tenant
+   */
+  async archiveLeague(tenantId: string, leagueId: string): Promise<League> {
+    const league = await this.leagueRepository.archive(tenantId, leagueId);
+    
+    if (!league) {
+      throw new NotFoundError('League not found');
+    }
+    
+    return league;
+  }
 }
@@ -2,14 +2,18 @@
  * Player Service
  * 
  * Business logic layer for player operations.
- * Handles player retrieval with proper error handling.
+ * Handles player retrieval and roster management with proper error handling.
  * 
  * Requirements: 4.3, 4.4, 14.7, 14.8
  */
 
 import { PlayerRepository } from '../repositories/player-repository';
-import { Player } from '../models/player';
+import { Player, CreatePlayerInput, UpdatePlayerInput } from '../models/player';
 import { NotFoundError } from '../models/errors';
+import {
+  validateCreatePlayerInput,
+  validateUpdatePlayerInput,
+} from '../utils/request-validation';
 
 /**
  * Player Service
@@ -46,4 +50,72 @@ export class PlayerService {
     
     return player;
   }
+
+  /**
+   * Add a player to a team roster
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param teamId - Team identifier
+   * @param input - Player fields from request body
+   * @returns Created player
+   * @throws BadRequestError if input is invalid
+   * @throws NotFoundError if team doesn't exist or doesn't belong to tenant
+   * @throws ConflictError if the jersey number is taken on the team
+   */
+  async createPlayer(tenantId: string, teamId: string, input: CreatePlayerInput): Promise<Player> {
+    validateCreatePlayerInput(input);
+
+    const player = await this.playerRepository.create(tenantId, teamId, input);
+
+    if (!player) {
+      throw new NotFoundError('Team not found');
+    }
+
+    return player;
+  }
+
+  /**
+   * Update a player on a team roster
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param teamId - Team identifier
+   * @param playerId - Player identifier
+   * @param input - Fields to update from request body
+   * @returns Updated player
+   * @throws BadRequestError if input is invalid
+   * @throws NotFoundError if player isn't on the team or doesn't belong to tenant
+   * @throws ConflictError if the new jersey number is taken on the team
+   */
+  async updatePlayer(
+    tenantId: string,
+    teamId: string,
+    playerId: string,
+    input: UpdatePlayerInput
+  ): Promise<Player> {
+    validateUpdatePlayerInput(input);
+
+    const player = await this.playerRepository.update(tenantId, teamId, playerId, input);
+
+    if (!player) {
+      throw new NotFoundError('Player not found');
+    }
+
+    return player;
+  }
+
+  /**
+   * Remove a player from a team roster
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param teamId - Team identifier
+   * @param playerId - Player identifier
+   * @throws NotFoundError if player isn't on the team or doesn't belong to tenant
+   */
+  async removePlayer(tenantId: string, teamId: string, playerId: string): Promise<void> {
+    const deleted = await this.playerRepository.delete(tenantId, teamId, playerId);
+
+    if (!deleted) {
+      throw new NotFoundError('Player not found');
+    }
+  }
 }
@@ -0,0 +1,254 @@
+/**
+ * Player Stats Service
+ * 
+ * Business logic layer for player statistics.
+ * Builds box scores, season leaderboards and player stat pages from the
+ * player stats projected from game events.
+ */
+
+import { PlayerStatsRepository } from '../repositories/player-stats-repository';
+import { GameRepository } from '../repositories/game-repository';
+import { SeasonRepository } from '../repositories/season-repository';
+import { PlayerRepository } from '../repositories/player-repository';
+import {
+  BoxScore,
+  BoxScoreGoalie,
+  BoxScoreTeam,
+  GoalieSeasonStats,
+  LEADER_STATS,
+  LeaderOptions,
+  LeaderStat,
+  PlayerGameStats,
+  PlayerSeasonStats,
+  PlayerStats,
+  SeasonLeader,
+} from '../models/player-stats';
+import { BadRequestError, NotFoundError } from '../models/errors';
+import { rankLeaders } from '../utils/player-leaders';
+import { goalieStats } from '../utils/goalie-stats';
+
+/**
+ * Places on a leaderboard when no limit is given
+ */
+const DEFAULT_LEADERS_LIMIT = 10;
+
+/**
+ * Most places a leaderboard can be asked for
+ */
+const MAX_LEADERS_LIMIT = 100;
+
+/**
+ * Parse a non-negative integer query value
+ * 
+ * @throws BadRequestError if the value is not an integer within [min, max]
+ */
+function parseIntegerOption(name: string, value: string, min: number, max: number): number {
+  const parsed = Number(value);
+
+  if (!/^\d+$/.test(value) || parsed < min || parsed > max) {
+    throw new BadRequestError(`${name} must be an integer from ${min} to ${max}`);
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse leaderboard query values, applying defaults
+ * 
+ * stat defaults to points, minGamesPlayed to 0 and limit to
+ * DEFAULT_LEADERS_LIMIT.
+ * 
+ * @throws BadRequestError if a value is invalid
+ */
+function parseLeaderOptions(query: {
+  stat?: string;
+  minGamesPlayed?: string;
+  limit?: string;
+}): LeaderOptions {
+  const stat = query.stat ?? 'points';
+
+  if (!(LEADER_STATS as readonly string[]).includes(stat)) {
+    throw new BadRequestError(`stat must be one of ${LEADER_STATS.join(', ')}`);
+  }
+
+  return {
+    stat: stat as LeaderStat,
+    minGamesPlayed:
+      query.minGamesPlayed === undefined
+        ? 0
+        : parseIntegerOption('minGamesPlayed', query.minGamesPlayed, 0, Number.MAX_SAFE_INTEGER),
+    limit:
+      query.limit === undefined
+        ? DEFAULT_LEADERS_LIMIT
+        : parseIntegerOption('limit', query.limit, 1, MAX_LEADERS_LIMIT),
+  };
+}
+
+/**
+ * Player Stats Service
+ * Provides business logic for player statistics
+ */
+export class PlayerStatsService {
+  constructor(
+    private playerStatsRepository: PlayerStatsRepository,
+    private gameRepository: GameRepository,
+    private seasonRepository: SeasonRepository,
+    private playerRepository: PlayerRepository
+  ) {}
+
+  /**
+   * Get a game's box score
+   * 
+   * Each team lists the players with a goal, assist, shot or penalty in the
+   * game, by points then goals, and the goalies who played, most time in
+   * net first.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param gameId - Game identifier
+   * @returns Box score with the team totals and player stats of both teams
+   * @throws NotFoundError if game doesn't exist or doesn't belong to tenant
+   */
+  async getBoxScore(tenantId: string, gameId: string): Promise<BoxScore> {
+    const game = await this.gameRepository.findById(tenantId, gameId);
+
+    if (!game) {
+      throw new NotFoundError('Game not found');
+    }
+
+    const stats = await this.playerStatsRepository.findByGameId(tenantId, gameId);
+    const team = (teamId: string, score: number, shots: number | undefined): BoxScoreTeam => {
+      const teamStats = stats.filter((s: PlayerGameStats) => s.team_id === teamId);
+
+      return {
+        team_id: teamId,
+        score,
+        shots: shots ?? 0,
+        players: teamStats.filter(
+          s => s.goals > 0 || s.assists > 0 || s.shots > 0 || s.penalty_minutes > 0
+        ),
+        goalies: teamStats
+          .flatMap((s): BoxScoreGoalie[] =>
+            s.goalie
+              ? [{
+                  player_id: s.player_id,
+                  first_name: s.first_name,
+                  last_name: s.last_name,
+                  jersey_number: s.jersey_number,
+                  ...s.goalie,
+                }]
+              : []
+          )
+          .sort((a, b) => b.seconds_played - a.seconds_played),
+      };
+    };
+
+    return {
+      game_id: game.id,
+      status: game.status,
+      home: team(game.home_team_id, game.home_score, game.home_shots),
+      away: team(game.away_team_id, game.away_score, game.away_shots),
+    };
+  }
+
+  /**
+   * Get a season's leaders in a stat
+   * 
+   * Players with the same value share a rank; see rankLeaders for the order
+   * within a shared rank.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param query - Raw stat, minGamesPlayed and limit query values
+   * @returns Leaders in rank order
+   * @throws BadRequestError if a query value is invalid
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async getSeasonLeaders(
+    tenantId: string,
+    seasonId: string,
+    query: { stat?: string; minGamesPlayed?: string; limit?: string }
+  ): Promise<SeasonLeader[]> {
+    const options = parseLeaderOptions(query);
+    const season = await this.seasonRepository.findById(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    const totals = await this.playerStatsRepository.findSeasonTotals(tenantId, seasonId);
+    return rankLeaders(totals, options);
+  }
+
+  /**
+   * Get a player's season totals and game log
+   * 
+   * Seasons the player played goalie in also total their goaltending, with
+   * save percentage and goals against average worked out from the totals.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param playerId - Player identifier
+   * @returns Totals per season and stats per game, most recent first
+   * @throws NotFoundError if player doesn't exist or doesn't belong to tenant
+   */
+  async getPlayerStats(tenantId: string, playerId: string): Promise<PlayerStats> {
+    const player = await this.playerRepository.findById(tenantId, playerId);
+
+    if (!player) {
+      throw new NotFoundError('Player not found');
+    }
+
+    const gameLog = await this.playerStatsRepository.findGameLogByPlayerId(tenantId, playerId);
+    const seasons = new Map<string, PlayerSeasonStats>();
+    const goalieSeasons = new Map<string, GoalieSeasonStats>();
+
+    for (const game of gameLog) {
+      const totals = seasons.get(game.season_id) ?? {
+        season_id: game.season_id,
+        games_played: 0,
+        goals: 0,
+        assists: 0,
+        points: 0,
+        shots: 0,
+        penalty_minutes: 0,
+      };
+
+      seasons.set(game.season_id, {
+        ...totals,
+        games_played: totals.games_played + 1,
+        goals: totals.goals + game.goals,
+        assists: totals.assists + game.assists,
+        points: totals.points + game.points,
+        shots: totals.shots + game.shots,
+        penalty_minutes: totals.penalty_minutes + game.penalty_minutes,
+      });
+
+      if (game.goalie) {
+        const goalie = goalieSeasons.get(game.season_id) ?? {
+          ...goalieStats(0, 0, 0),
+          games_played: 0,
+          shutouts: 0,
+        };
+
+        goalieSeasons.set(game.season_id, {
+          ...goalieStats(
+            goalie.shots_against + game.goalie.shots_against,
+            goalie.goals_against + game.goalie.goals_against,
+            goalie.seconds_played + game.goalie.seconds_played
+          ),
+          games_played: goalie.games_played + 1,
+          shutouts: goalie.shutouts + (game.goalie.shutout ? 1 : 0),
+        });
+      }
+    }
+
+    return {
+      player_id: player.id,
+      seasons: [...seasons.values()].map(season =>
+        goalieSeasons.has(season.season_id)
+          ? { ...season, goalie: goalieSeasons.get(season.season_id) }
+          : season
+      ),
+      game_log: gameLog,
+    };
+  }
+}
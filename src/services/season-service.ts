@@ -2,14 +2,26 @@
  * Season Service
  * 
  * Business logic layer for season operations.
- * Handles season retrieval with proper error handling.
+ * Handles season retrieval, creation, date validation and lifecycle
+ * transitions (activate, complete, reopen) with proper error handling.
  * 
  * Requirements: 3.3, 3.4, 14.3, 14.4
  */
 
 import { SeasonRepository } from '../repositories/season-repository';
-import { Season } from '../models/season';
-import { NotFoundError } from '../models/errors';
+import { Season, CreateSeasonInput, UpdateSeasonInput } from '../models/season';
+import { NotFoundError, BadRequestError, ConflictError } from '../models/errors';
+import {
+  validateCreateSeasonInput,
+  validateUpdateSeasonInput,
+} from '../utils/request-validation';
+
+/**
+ * Normalize a date or ISO date string to a YYYY-MM-DD key for comparison
+ */
+function toDateKey(value: Date | string): string {
+  return new Date(value).toISOString().slice(0, 10);
+}
 
 /**
  * Season Service
@@ -46,4 +58,201 @@ export class SeasonService {
     
     return season;
   }
+
+  /**
+   * Create a season in a league
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @param input - Season fields from request body
+   * @returns Created season (inactive)
+   * @throws BadRequestError if input is invalid or start_date is not before end_date
+   * @throws ConflictError if the dates overlap another season in the league
+   * @throws NotFoundError if league doesn't exist, is archived or doesn't belong to tenant
+   */
+  async createSeason(
+    tenantId: string,
+    leagueId: string,
+    input: CreateSeasonInput
+  ): Promise<Season> {
+    validateCreateSeasonInput(input);
+
+    await this.validateSeasonDates(tenantId, leagueId, input.start_date, input.end_date);
+
+    const season = await this.seasonRepository.create(tenantId, leagueId, input);
+
+    if (!season) {
+      throw new NotFoundError('League not found');
+    }
+
+    return season;
+  }
+
+  /**
+   * Update a season
+   * 
+   * Date changes are validated against the season's other date and the
+   * league's other seasons.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param input - Fields to update from request body
+   * @returns Updated season
+   * @throws BadRequestError if input is invalid, dates are out of order or season is completed
+   * @throws ConflictError if the dates overlap another season in the league
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async updateSeason(
+    tenantId: string,
+    seasonId: string,
+    input: UpdateSeasonInput
+  ): Promise<Season> {
+    validateUpdateSeasonInput(input);
+
+    const existing = await this.getSeasonById(tenantId, seasonId);
+
+    if (existing.completed_at) {
+      throw new BadRequestError('Cannot update a completed season');
+    }
+
+    if (input.start_date !== undefined || input.end_date !== undefined) {
+      await this.validateSeasonDates(
+        tenantId,
+        existing.league_id,
+        input.start_date ?? existing.start_date,
+        input.end_date ?? existing.end_date,
+        existing.id
+      );
+    }
+
+    const season = await this.seasonRepository.update(tenantId, seasonId, input);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return season;
+  }
+
+  /**
+   * Activate a season
+   * 
+   * Any other active season in the same league is deactivated atomically.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Activated season
+   * @throws BadRequestError if season is completed
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async activateSeason(tenantId: string, seasonId: string): Promise<Season> {
+    const existing = await this.getSeasonById(tenantId, seasonId);
+
+    if (existing.completed_at) {
+      throw new BadRequestError('Cannot activate a completed season; reopen it first');
+    }
+
+    const season = await this.seasonRepository.activate(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return season;
+  }
+
+  /**
+   * Complete a season
+   * 
+   * Completed seasons are inactive and read-only until reopened.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Completed season
+   * @throws BadRequestError if season is already completed
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async completeSeason(tenantId: string, seasonId: string): Promise<Season> {
+    const existing = await this.getSeasonById(tenantId, seasonId);
+
+    if (existing.completed_at) {
+      throw new BadRequestError('Season is already completed');
+    }
+
+    const season = await this.seasonRepository.complete(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return season;
+  }
+
+  /**
+   * Reopen a completed season
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Reopened season (inactive)
+   * @throws BadRequestError if season is not completed
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async reopenSeason(tenantId: string, seasonId: string): Promise<Season> {
+    const existing = await this.getSeasonById(tenantId, seasonId);
+
+    if (!existing.completed_at) {
+      throw new BadRequestError('Season is not completed');
+    }
+
+    const season = await this.seasonRepository.reopen(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    return season;
+  }
+
+  /**
+   * Validate that start_date is before end_date and that the date range
+   * does not overlap any other season in the league
+   * 
+   * Ranges are inclusive, so a season may not start on the day another ends.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @param startDate - Proposed start date
+   * @param endDate - Proposed end date
+   * @param excludeSeasonId - Season being updated, ignored in the overlap check
+   * @throws BadRequestError if start_date is not before end_date
+   * @throws ConflictError if the range overlaps another season
+   */
+  private async validateSeasonDates(
+    tenantId: string,
+    leagueId: string,
+    startDate: Date | string,
+    endDate: Date | string,
+    excludeSeasonId?: string
+  ): Promise<void> {
+    const start = toDateKey(startDate);
+    const end = toDateKey(endDate);
+
+    if (start >= end) {
+      const error = new BadRequestError('Invalid season');
+      (error as any).details = { end_date: 'Must be after start_date' };
+      throw error;
+    }
+
+    const seasons = await this.seasonRepository.findByLeagueId(tenantId, leagueId);
+    const overlapping = seasons.find(
+      season =>
+        season.id !== excludeSeasonId &&
+        toDateKey(season.start_date) <= end &&
+        start <= toDateKey(season.end_date)
+    );
+
+    if (overlapping) {
+      throw new ConflictError(`Season dates overlap season "${overlapping.name}"`);
+    }
+  }
 }
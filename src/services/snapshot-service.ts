@@ -10,10 +10,12 @@
 
 import { GameRepository } from '../repositories/game-repository';
 import { getEventsByGame } from '../config/dynamodb';
-import { GameSnapshot } from '../models/snapshot';
+import { GameSnapshot, GameSnapshotState } from '../models/snapshot';
 import { Game, GameStatus } from '../models/game';
 import { NotFoundError } from '../models/errors';
 import { log, LogLevel } from '../utils/logger';
+import { clockSecondsAt, elapsedSecondsAt } from '../utils/game-clock';
+import { describePenaltiesAt, manAdvantageAt } from '../utils/penalties';
 
 /**
  * Snapshot schema version
@@ -120,18 +122,12 @@ export class SnapshotService {
         })
         .slice(0, RECENT_EVENTS_LIMIT);
 
-      // Map game status to snapshot status format
-      const snapshotStatus = this.mapGameStatusToSnapshotStatus(updatedGame.status);
-
       // Construct snapshot
       const snapshot: GameSnapshot = {
         game_id: gameId,
-        home_score: updatedGame.home_score,
-        away_score: updatedGame.away_score,
-        period: this.extractPeriodFromGame(updatedGame),
-        clock_seconds: this.extractClockSecondsFromGame(updatedGame),
-        status: snapshotStatus,
+        ...this.describeState(updatedGame),
         recent_events: recentEvents,
+        sequence: updatedGame.update_sequence ?? 0,
         snapshot_version: SNAPSHOT_VERSION,
         generated_at: new Date().toISOString(),
       };
@@ -160,6 +156,34 @@ export class SnapshotService {
     }
   }
 
+  /**
+   * Describe a game's state as it appears in snapshots
+   * 
+   * Used for snapshots and as the baseline a delta is compared against.
+   * 
+   * @param game - Game entity
+   * @returns Snapshot state fields
+   */
+  describeState(game: Game): GameSnapshotState {
+    const now = new Date();
+    const penalties = game.active_penalties ?? [];
+    const gameSeconds = this.extractElapsedSecondsFromGame(game, now);
+
+    return {
+      home_score: game.home_score,
+      away_score: game.away_score,
+      period: this.extractPeriodFromGame(game),
+      clock_seconds: this.extractClockSecondsFromGame(game, now),
+      clock_running: this.isClockRunning(game),
+      active_penalties: describePenaltiesAt(penalties, gameSeconds),
+      man_advantage: manAdvantageAt(penalties, game.home_team_id, game.away_team_id, gameSeconds),
+      home_shots: game.home_shots ?? 0,
+      away_shots: game.away_shots ?? 0,
+      shots_by_period: game.shots_by_period ?? [],
+      status: this.mapGameStatusToSnapshotStatus(game.status),
+    };
+  }
+
   /**
    * Map GameStatus to snapshot status format
    * 
@@ -189,30 +213,48 @@ export class SnapshotService {
   /**
    * Extract period number from game state
    * 
-   * For now, returns a default value since the Game model doesn't include period.
-   * This will be enhanced when game state tracking is implemented.
-   * 
-   * @param _game - Game entity (unused for now)
-   * @returns Period number (default: 1)
+   * @param game - Game entity
+   * @returns Period number (1 before the period is first set)
    */
-  private extractPeriodFromGame(_game: Game): number {
-    // TODO: Extract from game state when period tracking is implemented
-    // For now, return default value
-    return 1;
+  private extractPeriodFromGame(game: Game): number {
+    return game.period ?? 1;
   }
 
   /**
    * Extract clock seconds from game state
    * 
-   * For now, returns a default value since the Game model doesn't include clock.
-   * This will be enhanced when game state tracking is implemented.
+   * A running clock is read at the current time from its last anchor.
+   * 
+   * @param game - Game entity
+   * @param now - Time to read the clock at
+   * @returns Clock time in seconds
+   */
+  private extractClockSecondsFromGame(game: Game, now: Date): number {
+    return clockSecondsAt({ ...game, clock_running: this.isClockRunning(game) }, now);
+  }
+
+  /**
+   * Extract the game time played from game state
+   * 
+   * Penalty times are measured on it.
+   * 
+   * @param game - Game entity
+   * @param now - Time to read the clock at
+   * @returns Seconds of game time played
+   */
+  private extractElapsedSecondsFromGame(game: Game, now: Date): number {
+    return elapsedSecondsAt({ ...game, clock_running: this.isClockRunning(game) }, now);
+  }
+
+  /**
+   * Check whether the game clock is counting down
+   * 
+   * The clock only runs while the game is live.
    * 
-   * @param _game - Game entity (unused for now)
-   * @returns Clock time in seconds (default: 0)
+   * @param game - Game entity
+   * @returns True if the clock is running
    */
-  private extractClockSecondsFromGame(_game: Game): number {
-    // TODO: Extract from game state when clock tracking is implemented
-    // For now, return default value
-    return 0;
+  private isClockRunning(game: Game): boolean {
+    return game.status === GameStatus.LIVE && game.clock_running === true;
   }
 }
@@ -2,36 +2,430 @@
  * Standings Service
  * 
  * Business logic layer for standings operations.
- * Handles standings retrieval with proper error handling.
+ * Handles standings retrieval with proper error handling, historical
+ * standings rebuilt from games, and the admin full-season recalculation
+ * and consistency audit.
  * 
  * Requirements: 7.9, 14.13
  */
 
-import { StandingsRepository } from '../repositories/standings-repository';
-import { TeamStanding } from '../models/standing';
+import { StandingsRepository, StandingRepair } from '../repositories/standings-repository';
+import { SeasonRepository } from '../repositories/season-repository';
+import { GameRepository } from '../repositories/game-repository';
+import { DivisionRepository } from '../repositories/division-repository';
+import { TeamRepository } from '../repositories/team-repository';
+import { Game, GameStatus } from '../models/game';
+import { Season } from '../models/season';
+import {
+  TeamStanding,
+  RankedStanding,
+  HistoricalStanding,
+  TeamRankMovement,
+  StandingUpsertData,
+  StandingDrift,
+  StandingsAudit,
+  AUDITED_STANDING_FIELDS,
+  DEFAULT_TIEBREAKERS,
+  resolvePointsRules,
+} from '../models/standing';
+import { StandingsGroup, StandingsGroupBy } from '../models/division';
+import { NotFoundError, BadRequestError } from '../models/errors';
+import { rankStandings } from '../utils/standings-ranking';
+import { calculateStandings, recalculateStandings } from '../utils/standings-calculation';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
+
+/**
+ * Parse an asOf value into an exclusive cutoff time
+ * 
+ * A date (YYYY-MM-DD) covers the whole UTC day; a date-time covers
+ * everything scheduled at or before it.
+ * 
+ * @throws BadRequestError if the value is not an ISO 8601 date or date-time
+ */
+function parseAsOf(asOf: string): number {
+  const time = Date.parse(asOf);
+
+  if (!/^\d{4}-\d{2}-\d{2}(T.+)?$/.test(asOf) || Number.isNaN(time)) {
+    throw new BadRequestError('asOf must be an ISO 8601 date or date-time');
+  }
+
+  return asOf.length === 10 ? time + DAY_MS : time + 1;
+}
+
+/**
+ * Compare a stored standing with the one rebuilt from games
+ * 
+ * An absent row counts as null in every field.
+ * 
+ * @returns The fields that differ, or null when none do
+ */
+function diffStanding(
+  stored: StandingUpsertData | null,
+  expected: StandingUpsertData | null
+): StandingDrift['fields'] | null {
+  const fields: StandingDrift['fields'] = {};
+
+  for (const field of AUDITED_STANDING_FIELDS) {
+    const storedValue = stored?.[field] ?? null;
+    const expectedValue = expected?.[field] ?? null;
+
+    if (storedValue !== expectedValue) {
+      fields[field] = { stored: storedValue, expected: expectedValue };
+    }
+  }
+
+  return Object.keys(fields).length > 0 ? fields : null;
+}
 
 /**
  * Standings Service
  * Provides business logic for standings operations
  */
 export class StandingsService {
-  constructor(private standingsRepository: StandingsRepository) {}
+  constructor(
+    private standingsRepository: StandingsRepository,
+    private seasonRepository: SeasonRepository,
+    private gameRepository: GameRepository,
+    private divisionRepository: DivisionRepository,
+    private teamRepository: TeamRepository
+  ) {}
 
   /**
-   * Get standings for a season ordered by points DESC
+   * Get ranked standings for a season
    * 
-   * Returns standings ordered by:
-   * 1. points DESC (primary sort)
-   * 2. goal_differential DESC (tiebreaker)
+   * Teams are ordered by points, then by the season's tiebreaker chain
+   * (the default chain when the season has none). Each standing carries its
+   * rank and the tiebreaker that decided its place (null when points alone
+   * decided it).
    * 
    * @param tenantId - Tenant identifier from JWT claims
    * @param seasonId - Season identifier
-   * @returns Array of standings ordered by points DESC, goal_differential DESC
+   * @returns Array of standings in rank order
+   * @throws NotFoundError if the season has standings but can't be found
    */
   async getStandingsBySeason(
     tenantId: string,
     seasonId: string
-  ): Promise<TeamStanding[]> {
-    return this.standingsRepository.findBySeasonId(tenantId, seasonId);
+  ): Promise<RankedStanding[]> {
+    const standings = await this.standingsRepository.findBySeasonId(tenantId, seasonId);
+
+    if (standings.length === 0) {
+      return [];
+    }
+
+    const season = await this.seasonRepository.findById(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    const rank = await this.createRanker(tenantId, season);
+    return rank(standings);
+  }
+
+  /**
+   * Get a season's standings as they stood at a point in time
+   * 
+   * Rebuilt from the final regular season games scheduled up to asOf, using
+   * the season's current points rules and tiebreakers. Stored standings are
+   * not read or changed.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param asOf - ISO 8601 date (whole UTC day included) or date-time
+   * @returns Every team's standing in rank order
+   * @throws BadRequestError if asOf is not a valid date
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async getStandingsAsOf(
+    tenantId: string,
+    seasonId: string,
+    asOf: string
+  ): Promise<HistoricalStanding[]> {
+    const cutoff = parseAsOf(asOf);
+    const { standingsBefore } = await this.loadHistory(tenantId, seasonId);
+    return standingsBefore(cutoff);
+  }
+
+  /**
+   * Get each team's rank at the end of every week of a season
+   * 
+   * Weeks are counted from the season start date, through the week of the
+   * latest final regular season game. Teams are listed in their latest
+   * rank order.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Rank movement per team (empty weeks before any game is final)
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async getRankMovement(
+    tenantId: string,
+    seasonId: string
+  ): Promise<TeamRankMovement[]> {
+    const { season, teamIds, games, standingsBefore } = await this.loadHistory(tenantId, seasonId);
+    const start = season.start_date.getTime();
+    const latest = games.reduce((max, game) => Math.max(max, game.scheduled_at.getTime()), -Infinity);
+    const weekCount = games.length === 0 ? 0 : Math.max(1, Math.floor((latest - start) / WEEK_MS) + 1);
+
+    const movement = new Map<string, TeamRankMovement>(
+      teamIds.map(teamId => [teamId, { team_id: teamId, weeks: [] }])
+    );
+    let order = teamIds;
+
+    for (let week = 1; week <= weekCount; week++) {
+      const cutoff = start + week * WEEK_MS;
+      const standings = standingsBefore(cutoff);
+
+      for (const standing of standings) {
+        const weeks = movement.get(standing.team_id)!.weeks;
+        const previous = weeks[weeks.length - 1];
+        weeks.push({
+          week,
+          as_of: new Date(cutoff - DAY_MS).toISOString().slice(0, 10),
+          rank: standing.rank,
+          points: standing.points,
+          change: previous ? previous.rank - standing.rank : null,
+        });
+      }
+
+      order = standings.map(standing => standing.team_id);
+    }
+
+    return order.map(teamId => movement.get(teamId)!);
+  }
+
+  /**
+   * Rebuild a season's standings from all of its final games
+   * 
+   * Finalized games update standings incrementally; this admin operation
+   * recomputes every team's row, e.g. after points rules change.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns Recalculated standings in rank order
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async recalculateStandings(
+    tenantId: string,
+    seasonId: string
+  ): Promise<RankedStanding[]> {
+    const season = await this.seasonRepository.findById(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    await recalculateStandings(
+      tenantId,
+      seasonId,
+      this.gameRepository,
+      this.standingsRepository,
+      this.seasonRepository,
+      this.teamRepository
+    );
+
+    return this.getStandingsBySeason(tenantId, seasonId);
+  }
+
+  /**
+   * Compare a season's stored standings with a rebuild from its final games
+   * 
+   * Reports teams missing a row, rows for teams outside the league and rows
+   * whose values differ from the rebuild, e.g. when a standings update failed
+   * after a game was finalized. With repair, drifted rows are rewritten to
+   * the rebuilt values; a row changed by a concurrent update is left as is
+   * and reported unrepaired, so the audit can simply be run again.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param repair - Whether to rewrite drifted rows
+   * @returns Audit report with drift in rank order, unexpected rows last
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async auditStandings(
+    tenantId: string,
+    seasonId: string,
+    repair = false
+  ): Promise<StandingsAudit> {
+    // Stored rows are read before games: a game finalized in between then
+    // shows up as drift in a row the repair won't overwrite
+    const storedRows = await this.standingsRepository.findBySeasonId(tenantId, seasonId);
+    const { standingsBefore } = await this.loadHistory(tenantId, seasonId);
+    const expectedRows = standingsBefore(Infinity);
+
+    const stored = new Map<string, StandingUpsertData>(
+      storedRows.map(standing => [standing.team_id, standing])
+    );
+    const expected = new Set(expectedRows.map(standing => standing.team_id));
+    const candidates: StandingRepair[] = [
+      ...expectedRows.map(standing => ({
+        team_id: standing.team_id,
+        stored: stored.get(standing.team_id) ?? null,
+        expected: standing,
+      })),
+      ...storedRows
+        .filter(standing => !expected.has(standing.team_id))
+        .map(standing => ({ team_id: standing.team_id, stored: standing, expected: null })),
+    ];
+
+    const drifted = candidates
+      .map(candidate => ({ ...candidate, fields: diffStanding(candidate.stored, candidate.expected) }))
+      .filter(candidate => candidate.fields !== null);
+
+    let repaired = new Set<string>();
+
+    if (repair && drifted.length > 0) {
+      const result = await this.standingsRepository.repairStandings(tenantId, seasonId, drifted);
+
+      if (!result) {
+        throw new NotFoundError('Season not found');
+      }
+
+      repaired = new Set(result);
+    }
+
+    return {
+      season_id: seasonId,
+      teams_checked: candidates.length,
+      consistent: drifted.length === 0,
+      drift: drifted.map(candidate => ({
+        team_id: candidate.team_id,
+        kind: !candidate.stored ? 'missing' : !candidate.expected ? 'unexpected' : 'mismatch',
+        fields: candidate.fields!,
+        repaired: repaired.has(candidate.team_id),
+      })),
+    };
+  }
+
+  /**
+   * Get standings ranked within each division or conference of a season
+   * 
+   * Groups come in name order, each ranked on its own with the season's
+   * tiebreaker chain. Teams outside every group are ranked together in a
+   * trailing group with a null id and name, included only when non-empty.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @param groupBy - Whether to group by division or conference
+   * @returns Array of groups with standings in rank order
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  async getGroupedStandings(
+    tenantId: string,
+    seasonId: string,
+    groupBy: StandingsGroupBy
+  ): Promise<StandingsGroup[]> {
+    const season = await this.seasonRepository.findById(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    const [standings, divisions, conferences] = await Promise.all([
+      this.standingsRepository.findBySeasonId(tenantId, seasonId),
+      this.divisionRepository.findBySeasonId(tenantId, seasonId),
+      groupBy === 'conference'
+        ? this.divisionRepository.findConferencesBySeasonId(tenantId, seasonId)
+        : Promise.resolve([]),
+    ]);
+
+    const groups = groupBy === 'division'
+      ? divisions.map(division => ({
+          id: division.id,
+          name: division.name,
+          team_ids: division.team_ids,
+        }))
+      : conferences.map(conference => ({
+          id: conference.id,
+          name: conference.name,
+          team_ids: divisions
+            .filter(division => division.conference_id === conference.id)
+            .flatMap(division => division.team_ids),
+        }));
+
+    const rank = await this.createRanker(tenantId, season);
+    const grouped = new Set(groups.flatMap(group => group.team_ids));
+    const ungrouped = standings.filter(standing => !grouped.has(standing.team_id));
+
+    const result: StandingsGroup[] = groups.map(group => ({
+      id: group.id,
+      name: group.name,
+      standings: rank(standings.filter(standing => group.team_ids.includes(standing.team_id))),
+    }));
+
+    if (ungrouped.length > 0) {
+      result.push({ id: null, name: null, standings: rank(ungrouped) });
+    }
+
+    return result;
+  }
+
+  /**
+   * Load what rebuilding a season's standings needs: its teams, final regular
+   * season games, points rules and tiebreaker chain
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param seasonId - Season identifier
+   * @returns The season, its data and a function ranking standings built
+   *   from games scheduled before a cutoff time
+   * @throws NotFoundError if season doesn't exist or doesn't belong to tenant
+   */
+  private async loadHistory(tenantId: string, seasonId: string): Promise<{
+    season: Season;
+    teamIds: string[];
+    games: Game[];
+    standingsBefore: (cutoff: number) => HistoricalStanding[];
+  }> {
+    const season = await this.seasonRepository.findById(tenantId, seasonId);
+
+    if (!season) {
+      throw new NotFoundError('Season not found');
+    }
+
+    const [teams, finalGames, pointsRules] = await Promise.all([
+      this.teamRepository.findByLeagueId(tenantId, season.league_id),
+      this.gameRepository.findBySeasonId(tenantId, seasonId, { status: GameStatus.FINAL }),
+      this.seasonRepository.findPointsRules(tenantId, seasonId),
+    ]);
+
+    const teamIds = teams.map(team => team.id);
+    const games = finalGames.filter(game => !game.bracket_series_id);
+    const tiebreakers = season.tiebreakers ?? DEFAULT_TIEBREAKERS;
+    const rules = resolvePointsRules(pointsRules);
+
+    const standingsBefore = (cutoff: number): HistoricalStanding[] => {
+      const played = games.filter(game => game.scheduled_at.getTime() < cutoff);
+      return rankStandings(calculateStandings(seasonId, teamIds, played, rules), played, tiebreakers, rules);
+    };
+
+    return { season, teamIds, games, standingsBefore };
+  }
+
+  /**
+   * Load what ranking a season's standings needs: final regular season games for
+   * head-to-head, the effective points rules and the tiebreaker chain
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param season - Season being ranked
+   * @returns Function ranking any subset of the season's standings
+   */
+  private async createRanker(
+    tenantId: string,
+    season: Season
+  ): Promise<(standings: TeamStanding[]) => RankedStanding[]> {
+    const [finalGames, pointsRules] = await Promise.all([
+      this.gameRepository.findBySeasonId(tenantId, season.id, { status: GameStatus.FINAL }),
+      this.seasonRepository.findPointsRules(tenantId, season.id),
+    ]);
+
+    // Head-to-head tiebreakers only look at regular season games
+    const games = finalGames.filter(game => !game.bracket_series_id);
+    const tiebreakers = season.tiebreakers ?? DEFAULT_TIEBREAKERS;
+    const rules = resolvePointsRules(pointsRules);
+
+    return standings => rankStandings(standings, games, tiebreakers, rules);
   }
 }
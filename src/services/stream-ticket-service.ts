@@ -0,0 +1,69 @@
+/**
+ * Stream Ticket Service
+ *
+ * Business logic layer for game stream tickets.
+ * Issues short-lived tickets for a game's event stream and checks the
+ * tickets stream requests present in place of a JWT.
+ */
+
+import { StreamTicketRepository } from '../repositories/stream-ticket-repository';
+import { StreamTicket, STREAM_TICKET_TTL_SECONDS } from '../models/stream-ticket';
+import { AuthError, AuthErrorCode } from '../models/auth';
+import { NotFoundError } from '../models/errors';
+
+/**
+ * Stream Ticket Service
+ * Provides business logic for game stream tickets
+ */
+export class StreamTicketService {
+  constructor(private streamTicketRepository: StreamTicketRepository) {}
+
+  /**
+   * Issue a ticket for a game's stream
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param gameId - Game identifier
+   * @param userId - User identifier from JWT claims
+   * @param roles - User roles from JWT claims
+   * @returns Issued ticket
+   * @throws NotFoundError if game doesn't exist or doesn't belong to tenant
+   */
+  async issueTicket(
+    tenantId: string,
+    gameId: string,
+    userId: string,
+    roles: string[]
+  ): Promise<StreamTicket> {
+    const ticket = await this.streamTicketRepository.create(
+      tenantId,
+      gameId,
+      userId,
+      roles,
+      STREAM_TICKET_TTL_SECONDS
+    );
+
+    if (!ticket) {
+      throw new NotFoundError('Game not found');
+    }
+
+    return ticket;
+  }
+
+  /**
+   * Check a ticket presented to open a game's stream
+   *
+   * @param ticket - Ticket value from the stream request
+   * @param gameId - Game the stream request is for
+   * @returns Ticket, carrying the tenant, user and roles it was issued to
+   * @throws AuthError if the ticket doesn't exist, has expired or is for another game
+   */
+  async redeemTicket(ticket: string, gameId: string): Promise<StreamTicket> {
+    const streamTicket = await this.streamTicketRepository.findActive(ticket, gameId);
+
+    if (!streamTicket) {
+      throw new AuthError(AuthErrorCode.INVALID_TOKEN, 'Invalid or expired stream ticket');
+    }
+
+    return streamTicket;
+  }
+}
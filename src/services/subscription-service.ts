@@ -0,0 +1,125 @@
+/**
+ * Subscription Service
+ *
+ * Business logic layer for live update subscriptions.
+ * Checks subscription targets against the tenant and finds the live games
+ * a game, season, league or team subscription covers.
+ *
+ * Requirements: 4.1-4.6, 11.1
+ */
+
+import { GameRepository } from '../repositories/game-repository';
+import { SeasonRepository } from '../repositories/season-repository';
+import { LeagueRepository } from '../repositories/league-repository';
+import { TeamRepository } from '../repositories/team-repository';
+import { Game, GameFilters, GameStatus } from '../models/game';
+import { Season } from '../models/season';
+import { League } from '../models/league';
+import { Team } from '../models/team';
+import { GameSnapshot } from '../models/snapshot';
+import { SubscriptionTarget } from '../models/websocket';
+import { NotFoundError } from '../models/errors';
+import { SnapshotService } from './snapshot-service';
+
+/**
+ * Subscription Service
+ * Provides business logic for WebSocket subscriptions
+ */
+export class SubscriptionService {
+  constructor(
+    private gameRepository: GameRepository,
+    private seasonRepository: SeasonRepository,
+    private leagueRepository: LeagueRepository,
+    private teamRepository: TeamRepository,
+    private snapshotService: SnapshotService
+  ) {}
+
+  /**
+   * Get the snapshots a new subscriber starts from
+   *
+   * A game subscription gets its game's snapshot whatever its status. A
+   * season, league or team subscription gets a snapshot of each of its live
+   * games, ordered by scheduled time.
+   *
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param target - What is being subscribed to
+   * @returns Snapshots to send as initial_snapshot messages
+   * @throws NotFoundError if the target doesn't exist or doesn't belong to tenant
+   */
+  async getInitialSnapshots(tenantId: string, target: SubscriptionTarget): Promise<GameSnapshot[]> {
+    if (target.scope === 'game') {
+      return [await this.snapshotService.generateSnapshot(tenantId, target.scope_id)];
+    }
+
+    const live: GameFilters = { status: GameStatus.LIVE };
+    const found = await this.findTarget(tenantId, target);
+    let games: Game[];
+
+    if (target.scope === 'season') {
+      games = await this.gameRepository.findBySeasonId(tenantId, target.scope_id, live);
+    } else if (target.scope === 'league') {
+      games = await this.findLiveGamesInLeague(tenantId, target.scope_id, live);
+    } else {
+      games = await this.findLiveGamesInLeague(tenantId, (found as Team).league_id, {
+        ...live,
+        teamId: target.scope_id,
+      });
+    }
+
+    return Promise.all(
+      games.map(game => this.snapshotService.generateSnapshotFromGame(tenantId, game.id, game))
+    );
+  }
+
+  /**
+   * Find the game, season, league or team a target refers to
+   *
+   * @throws NotFoundError if it doesn't exist or doesn't belong to tenant
+   */
+  private async findTarget(
+    tenantId: string,
+    target: SubscriptionTarget
+  ): Promise<Game | Season | League | Team> {
+    let found: Game | Season | League | Team | null;
+
+    switch (target.scope) {
+      case 'game':
+        found = await this.gameRepository.findById(tenantId, target.scope_id);
+        break;
+      case 'season':
+        found = await this.seasonRepository.findById(tenantId, target.scope_id);
+        break;
+      case 'league':
+        found = await this.leagueRepository.findById(tenantId, target.scope_id);
+        break;
+      case 'team':
+        found = await this.teamRepository.findById(tenantId, target.scope_id);
+        break;
+    }
+
+    if (!found) {
+      const label = target.scope.charAt(0).toUpperCase() + target.scope.slice(1);
+      throw new NotFoundError(`${label} not found`);
+    }
+
+    return found;
+  }
+
+  /**
+   * Get the live games in a league's active seasons
+   */
+  private async findLiveGamesInLeague(
+    tenantId: string,
+    leagueId: string,
+    filters: GameFilters
+  ): Promise<Game[]> {
+    const seasons = await this.seasonRepository.findActiveByLeagueId(tenantId, leagueId);
+    const games = await Promise.all(
+      seasons.map(season => this.gameRepository.findBySeasonId(tenantId, season.id, filters))
+    );
+
+    return games
+      .flat()
+      .sort((a, b) => a.scheduled_at.getTime() - b.scheduled_at.getTime());
+  }
+}
@@ -2,14 +2,18 @@
  * Team Service
  * 
  * Business logic layer for team operations.
- * Handles team retrieval with proper error handling.
+ * Handles team retrieval and management with proper error handling.
  * 
  * Requirements: 4.1, 4.2, 14.5, 14.6
  */
 
 import { TeamRepository } from '../repositories/team-repository';
-import { Team } from '../models/team';
-import { NotFoundError } from '../models/errors';
+import { Team, CreateTeamInput, UpdateTeamInput } from '../models/team';
+import { NotFoundError, ConflictError } from '../models/errors';
+import {
+  validateCreateTeamInput,
+  validateUpdateTeamInput,
+} from '../utils/request-validation';
 
 /**
  * Team Service
@@ -46,4 +50,81 @@ export class TeamService {
     
     return team;
   }
+
+  /**
+   * Create a team in a league
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @param input - Team fields from request body
+   * @returns Created team
+   * @throws BadRequestError if input is invalid
+   * @throws NotFoundError if league doesn't exist, is archived or doesn't belong to tenant
+   * @throws ConflictError if the name or abbreviation is taken in the league
+   */
+  async createTeam(tenantId: string, leagueId: string, input: CreateTeamInput): Promise<Team> {
+    validateCreateTeamInput(input);
+
+    const team = await this.teamRepository.create(tenantId, leagueId, input);
+
+    if (!team) {
+      throw new NotFoundError('League not found');
+    }
+
+    return team;
+  }
+
+  /**
+   * Update a team in a league
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @param teamId - Team identifier
+   * @param input - Fields to update from request body
+   * @returns Updated team
+   * @throws BadRequestError if input is invalid
+   * @throws NotFoundError if team doesn't exist in the league or doesn't belong to tenant
+   * @throws ConflictError if the new name or abbreviation is taken in the league
+   */
+  async updateTeam(
+    tenantId: string,
+    leagueId: string,
+    teamId: string,
+    input: UpdateTeamInput
+  ): Promise<Team> {
+    validateUpdateTeamInput(input);
+
+    const team = await this.teamRepository.update(tenantId, leagueId, teamId, input);
+
+    if (!team) {
+      throw new NotFoundError('Team not found');
+    }
+
+    return team;
+  }
+
+  /**
+   * Remove a team from a league
+   * 
+   * Teams that have played or are scheduled in any game cannot be removed.
+   * 
+   * @param tenantId - Tenant identifier from JWT claims
+   * @param leagueId - League identifier
+   * @param teamId - Team identifier
+   * @throws NotFoundError if team doesn't exist in the league or doesn't belong to tenant
+   * @throws ConflictError if the team has games
+   */
+  async removeTeam(tenantId: string, leagueId: string, teamId: string): Promise<void> {
+    const team = await this.teamRepository.findById(tenantId, teamId);
+
+    if (!team || team.league_id !== leagueId) {
+      throw new NotFoundError('Team not found');
+    }
+
+    const deleted = await this.teamRepository.delete(tenantId, leagueId, teamId);
+
+    if (!deleted) {
+      throw new ConflictError('Team has games and cannot be removed');
+    }
+  }
 }
@@ -10,17 +10,49 @@
 import { PoolClient } from 'pg';
 import { transaction } from '../config/database';
 import { EventType, GameEvent } from '../models/event';
-import { GameStatus } from '../models/game';
+import { GameRow, GameStatus, GameDecision, ReleasedPenalty, GAME_COLUMNS, mapGameRow } from '../models/game';
 import { NotFoundError, BadRequestError } from '../models/errors';
+import { applyGameToStandings } from './standings-calculation';
+import { clockSecondsAt, elapsedSecondsAt } from './game-clock';
+import {
+  activePenaltiesAt,
+  penaltyFromEvent,
+  penaltyReleasedByGoal,
+  releasePenaltyOnGoal,
+} from './penalties';
+import { countShot, GameSide } from './shots';
+import { applyEventToPlayerStats, creditGoalieTime } from './player-game-stats';
+import { eventPoints } from './scoring';
 
 /**
  * Apply an event to update game state in RDS
  * 
  * Handles different event types:
- * - GOAL_SCORED: Increments appropriate team score
+ * - GOAL_SCORED: Adds the goal's points to the appropriate team score and,
+ *   on a power play, releases the shorthanded team's minor penalty,
+ *   remembering it in released_penalties
+ * - FIELD_GOAL / FREE_THROW / RUN_SCORED / TOUCHDOWN / SAFETY / EXTRA_POINT /
+ *   TWO_POINT_CONVERSION / TRY / CONVERSION / PENALTY_GOAL / DROP_GOAL: Adds
+ *   the event's points to the appropriate team score
+ * - PENALTY_ASSESSED: Adds the penalty to the active penalties
+ * - SHOT_ON_GOAL: Increments the team's shots, in total and for the period
  * - GAME_STARTED: Sets status to 'live'
- * - GAME_FINALIZED: Sets status to 'final' and updates final scores
+ * - GAME_FINALIZED: Sets status to 'final', updates final scores and decided_in,
+ *   credits the goalies in net with their time and applies the result to
+ *   both teams' standings
  * - GAME_CANCELLED: Sets status to 'cancelled'
+ * - CLOCK_STARTED / CLOCK_STOPPED: Starts or stops the game clock
+ * - CLOCK_SET: Sets the clock and optionally the period
+ * - PERIOD_ENDED: Stops the clock at zero in the period that ended
+ * - GOALIE_CHANGED: Puts a goalie in the team's net, or pulls the goalie,
+ *   crediting the goalie coming out with their time in net
+ * 
+ * Goals, shots and penalties are also credited to the players involved, and
+ * to the goalie named on goals and shots, in player_game_stats.
+ * 
+ * Clock changes are anchored at the event's occurred_at, so events recorded
+ * offline read the clock (and game time, which penalties run on) as it was
+ * when they happened.
  * 
  * Uses database transactions for atomic updates.
  * 
@@ -35,13 +67,18 @@ export async function applyEventToGame(
   event: GameEvent
 ): Promise<void> {
   await transaction(async (client: PoolClient) => {
-    // Verify game exists and belongs to tenant
+    // Verify game exists and belongs to tenant; the row stays locked so
+    // concurrent clock events read and write the clock in turn
     const gameCheck = await client.query(
-      `SELECT g.id, g.status, g.home_team_id, g.away_team_id, g.home_score, g.away_score
+      `SELECT g.id, g.status, g.home_team_id, g.away_team_id, g.home_score, g.away_score,
+              g.clock_seconds, g.clock_running, g.clock_anchored_at, g.elapsed_seconds,
+              g.active_penalties, g.shots_by_period, g.home_goalie_id, g.away_goalie_id,
+              g.home_goalie_since, g.away_goalie_since
        FROM games g
        INNER JOIN seasons s ON g.season_id = s.id
        INNER JOIN leagues l ON s.league_id = l.id
-       WHERE l.tenant_id = $1 AND g.id = $2`,
+       WHERE l.tenant_id = $1 AND g.id = $2
+       FOR UPDATE OF g`,
       [tenantId, gameId]
     );
 
@@ -62,29 +99,78 @@ export async function applyEventToGame(
         break;
 
       case EventType.GAME_FINALIZED:
-        await handleGameFinalized(client, gameId, event);
+        await handleGameFinalized(client, gameId, game, event);
         break;
 
       case EventType.GAME_CANCELLED:
         await handleGameCancelled(client, gameId);
         break;
 
-      // Other event types don't modify game state
-      case EventType.PENALTY_ASSESSED:
+      case EventType.CLOCK_STARTED:
+        await handleClockStarted(client, gameId, game, event);
+        break;
+
+      case EventType.CLOCK_STOPPED:
+        await handleClockStopped(client, gameId, game, event);
+        break;
+
+      case EventType.CLOCK_SET:
+        await handleClockSet(client, gameId, game, event);
+        break;
+
       case EventType.PERIOD_ENDED:
+        await handlePeriodEnded(client, gameId, game, event);
+        break;
+
+      case EventType.PENALTY_ASSESSED:
+        await handlePenaltyAssessed(client, gameId, game, event);
+        break;
+
+      case EventType.SHOT_ON_GOAL:
+        await handleShotOnGoal(client, gameId, game, event);
+        break;
+
+      case EventType.GOALIE_CHANGED:
+        await handleGoalieChanged(client, gameId, game, event);
+        break;
+
+      // Other event types don't modify game state
       case EventType.SCORE_CORRECTED:
         // No game state changes needed
         break;
 
+      case EventType.FIELD_GOAL:
+      case EventType.FREE_THROW:
+      case EventType.RUN_SCORED:
+      case EventType.TOUCHDOWN:
+      case EventType.SAFETY:
+      case EventType.EXTRA_POINT:
+      case EventType.TWO_POINT_CONVERSION:
+      case EventType.TRY:
+      case EventType.CONVERSION:
+      case EventType.PENALTY_GOAL:
+      case EventType.DROP_GOAL:
+        await handlePointsScored(client, gameId, game, event);
+        break;
+
+      // Other sports' events are kept in the event log only
+      case EventType.FOUL:
+      case EventType.OUT_RECORDED:
+      case EventType.INNING_ENDED:
+        break;
+
       default:
         // Unknown event type - log but don't fail
         console.warn(`Unknown event type: ${event.event_type}`);
     }
+
+    await applyEventToPlayerStats(client, game, event, 1);
   });
 }
 
 /**
- * Handle GOAL_SCORED event - increment appropriate team score
+ * Handle GOAL_SCORED event - add the goal to the appropriate team score and
+ * release a power play penalty
  */
 async function handleGoalScored(
   client: PoolClient,
@@ -94,19 +180,65 @@ async function handleGoalScored(
 ): Promise<void> {
   const { team_id } = event.payload;
 
+  await handlePointsScored(client, gameId, game, event);
+
+  if (game.active_penalties?.length) {
+    const gameSeconds = elapsedSecondsAt(game, new Date(event.occurred_at));
+    const released = penaltyReleasedByGoal(
+      game.active_penalties,
+      team_id,
+      game.home_team_id,
+      game.away_team_id,
+      gameSeconds
+    );
+    const penalties = releasePenaltyOnGoal(
+      game.active_penalties,
+      team_id,
+      game.home_team_id,
+      game.away_team_id,
+      gameSeconds
+    );
+    const releasedPenalties: ReleasedPenalty[] = released
+      ? [{ goal_event_id: event.event_id, penalty: released }]
+      : [];
+
+    // Remember the released penalty so reversing the goal can restore it
+    await client.query(
+      `UPDATE games
+       SET active_penalties = $1,
+           released_penalties = released_penalties || $2::jsonb,
+           updated_at = NOW()
+       WHERE id = $3`,
+      [JSON.stringify(penalties), JSON.stringify(releasedPenalties), gameId]
+    );
+  }
+}
+
+/**
+ * Handle a scoring event - add the event's points to the appropriate team
+ * score
+ */
+async function handlePointsScored(
+  client: PoolClient,
+  gameId: string,
+  game: any,
+  event: GameEvent
+): Promise<void> {
+  const { team_id } = event.payload;
+
   // Determine which score to increment
   let updateQuery: string;
   if (team_id === game.home_team_id) {
     updateQuery = `
       UPDATE games
-      SET home_score = home_score + 1,
+      SET home_score = home_score + $2,
           updated_at = NOW()
       WHERE id = $1
     `;
   } else if (team_id === game.away_team_id) {
     updateQuery = `
       UPDATE games
-      SET away_score = away_score + 1,
+      SET away_score = away_score + $2,
           updated_at = NOW()
       WHERE id = $1
     `;
@@ -114,7 +246,144 @@ async function handleGoalScored(
     throw new BadRequestError(`Team ${team_id} is not part of game ${gameId}`);
   }
 
-  await client.query(updateQuery, [gameId]);
+  await client.query(updateQuery, [gameId, eventPoints(event)]);
+}
+
+/**
+ * Handle PENALTY_ASSESSED event - start the penalty at the game time it
+ * occurred, dropping penalties that have expired
+ */
+async function handlePenaltyAssessed(
+  client: PoolClient,
+  gameId: string,
+  game: any,
+  event: GameEvent
+): Promise<void> {
+  const { team_id } = event.payload;
+
+  if (team_id !== game.home_team_id && team_id !== game.away_team_id) {
+    throw new BadRequestError(`Team ${team_id} is not part of game ${gameId}`);
+  }
+
+  const gameSeconds = elapsedSecondsAt(game, new Date(event.occurred_at));
+  const penalties = [
+    ...activePenaltiesAt(game.active_penalties ?? [], gameSeconds),
+    penaltyFromEvent(event, gameSeconds),
+  ];
+
+  await client.query(
+    `UPDATE games
+     SET active_penalties = $1,
+         updated_at = NOW()
+     WHERE id = $2`,
+    [JSON.stringify(penalties), gameId]
+  );
+}
+
+/**
+ * Handle SHOT_ON_GOAL event - increment the team's shots and its shots in
+ * the event's period
+ */
+async function handleShotOnGoal(
+  client: PoolClient,
+  gameId: string,
+  game: any,
+  event: GameEvent
+): Promise<void> {
+  const { team_id, period } = event.payload;
+
+  // Determine which team's shots to increment
+  let updateQuery: string;
+  let shotsByPeriod;
+  if (team_id === game.home_team_id) {
+    updateQuery = `
+      UPDATE games
+      SET home_shots = home_shots + 1,
+          shots_by_period = $1,
+          updated_at = NOW()
+      WHERE id = $2
+    `;
+    shotsByPeriod = countShot(game.shots_by_period ?? [], period, 'home', 1);
+  } else if (team_id === game.away_team_id) {
+    updateQuery = `
+      UPDATE games
+      SET away_shots = away_shots + 1,
+          shots_by_period = $1,
+          updated_at = NOW()
+      WHERE id = $2
+    `;
+    shotsByPeriod = countShot(game.shots_by_period ?? [], period, 'away', 1);
+  } else {
+    throw new BadRequestError(`Team ${team_id} is not part of game ${gameId}`);
+  }
+
+  await client.query(updateQuery, [JSON.stringify(shotsByPeriod), gameId]);
+}
+
+/**
+ * Handle GOALIE_CHANGED event - put the payload's goalie in the team's net,
+ * or leave it empty when goalie_id is null
+ * 
+ * The goalie coming out is credited with the game time since they went in.
+ */
+async function handleGoalieChanged(
+  client: PoolClient,
+  gameId: string,
+  game: any,
+  event: GameEvent
+): Promise<void> {
+  const { team_id, goalie_id } = event.payload;
+
+  let side: GameSide;
+  if (team_id === game.home_team_id) {
+    side = 'home';
+  } else if (team_id === game.away_team_id) {
+    side = 'away';
+  } else {
+    throw new BadRequestError(`Team ${team_id} is not part of game ${gameId}`);
+  }
+
+  const gameSeconds = elapsedSecondsAt(game, new Date(event.occurred_at));
+  await creditGoaliesInNet(client, gameId, game, gameSeconds, [side]);
+
+  await client.query(
+    `UPDATE games
+     SET ${side}_goalie_id = $1,
+         ${side}_goalie_since = $2,
+         updated_at = NOW()
+     WHERE id = $3`,
+    [goalie_id ?? null, gameSeconds, gameId]
+  );
+
+  if (goalie_id) {
+    await creditGoalieTime(client, gameId, goalie_id, team_id, 0);
+  }
+}
+
+/**
+ * Credit the goalies in net on the given sides with their time in net up
+ * to a game time
+ */
+async function creditGoaliesInNet(
+  client: PoolClient,
+  gameId: string,
+  game: any,
+  gameSeconds: number,
+  sides: GameSide[]
+): Promise<void> {
+  for (const side of sides) {
+    const goalieId = game[`${side}_goalie_id`];
+
+    if (goalieId) {
+      await creditGoalieTime(
+        client,
+        gameId,
+        goalieId,
+        game[`${side}_team_id`],
+        Math.max(gameSeconds - (game[`${side}_goalie_since`] ?? 0), 0)
+      );
+    }
+  }
 }
 
 /**
@@ -134,24 +403,52 @@ async function handleGameStarted(
 }
 
 /**
- * Handle GAME_FINALIZED event - set status to 'final' and update final scores
+ * Handle GAME_FINALIZED event - set status to 'final', update final scores,
+ * clear penalties, credit the goalies in net and apply the result to
+ * standings in the same transaction
+ * 
+ * decided_in defaults to regulation when the payload omits it. A game that
+ * is already final is left alone, so a duplicate finalization can't count
+ * the game in standings or goalie time twice.
  */
 async function handleGameFinalized(
   client: PoolClient,
   gameId: string,
+  game: any,
   event: GameEvent
 ): Promise<void> {
-  const { final_home_score, final_away_score } = event.payload;
+  const { final_home_score, final_away_score, decided_in } = event.payload;
 
-  await client.query(
-    `UPDATE games
+  const result = await client.query<GameRow>(
+    `UPDATE games g
      SET status = $1,
          home_score = $2,
          away_score = $3,
+         decided_in = $4,
+         active_penalties = '[]',
          updated_at = NOW()
-     WHERE id = $4`,
-    [GameStatus.FINAL, final_home_score, final_away_score, gameId]
+     WHERE id = $5 AND status <> $1
+     RETURNING
+       ${GAME_COLUMNS}`,
+    [
+      GameStatus.FINAL,
+      final_home_score,
+      final_away_score,
+      decided_in ?? GameDecision.REGULATION,
+      gameId,
+    ]
   );
+
+  if (result.rows.length > 0) {
+    await applyGameToStandings(client, mapGameRow(result.rows[0]));
+    await creditGoaliesInNet(
+      client,
+      gameId,
+      game,
+      elapsedSecondsAt(game, new Date(event.occurred_at)),
+      ['home', 'away']
+    );
+  }
 }
 
 /**
@@ -169,3 +466,109 @@ async function handleGameCancelled(
     [GameStatus.CANCELLED, gameId]
   );
 }
+
+/**
+ * Handle CLOCK_STARTED event - start the clock from its current value, or
+ * from the payload's clock_seconds
+ * 
+ * Starting a running clock re-anchors it without losing time.
+ */
+async function handleClockStarted(
+  client: PoolClient,
+  gameId: string,
+  game: any,
+  event: GameEvent
+): Promise<void> {
+  const occurredAt = new Date(event.occurred_at);
+  const clockSeconds = event.payload.clock_seconds ?? clockSecondsAt(game, occurredAt);
+
+  await client.query(
+    `UPDATE games
+     SET clock_seconds = $1,
+         clock_running = true,
+         clock_anchored_at = $2,
+         elapsed_seconds = $3,
+         updated_at = NOW()
+     WHERE id = $4`,
+    [clockSeconds, occurredAt, elapsedSecondsAt(game, occurredAt), gameId]
+  );
+}
+
+/**
+ * Handle CLOCK_STOPPED event - stop the clock at the time left when the
+ * event occurred, or at the payload's clock_seconds
+ */
+async function handleClockStopped(
+  client: PoolClient,
+  gameId: string,
+  game: any,
+  event: GameEvent
+): Promise<void> {
+  const occurredAt = new Date(event.occurred_at);
+  const clockSeconds = event.payload.clock_seconds ?? clockSecondsAt(game, occurredAt);
+
+  await client.query(
+    `UPDATE games
+     SET clock_seconds = $1,
+         clock_running = false,
+         clock_anchored_at = NULL,
+         elapsed_seconds = $2,
+         updated_at = NOW()
+     WHERE id = $3`,
+    [clockSeconds, elapsedSecondsAt(game, occurredAt), gameId]
+  );
+}
+
+/**
+ * Handle CLOCK_SET event - set the clock, and the period if given
+ * 
+ * A running clock keeps running from the new value.
+ */
+async function handleClockSet(
+  client: PoolClient,
+  gameId: string,
+  game: any,
+  event: GameEvent
+): Promise<void> {
+  const { clock_seconds, period } = event.payload;
+  const occurredAt = new Date(event.occurred_at);
+
+  await client.query(
+    `UPDATE games
+     SET clock_seconds = $1,
+         period = COALESCE($2, period),
+         clock_anchored_at = CASE WHEN clock_running THEN $3::timestamp ELSE NULL END,
+         elapsed_seconds = $4,
+         updated_at = NOW()
+     WHERE id = $5`,
+    [clock_seconds, period ?? null, occurredAt, elapsedSecondsAt(game, occurredAt), gameId]
+  );
+}
+
+/**
+ * Handle PERIOD_ENDED event - stop the clock at zero in the period that ended
+ * 
+ * The next period starts with a CLOCK_SET giving its period and length.
+ */
+async function handlePeriodEnded(
+  client: PoolClient,
+  gameId: string,
+  game: any,
+  event: GameEvent
+): Promise<void> {
+  // The period's remaining time counts as played
+  const elapsedSeconds = elapsedSecondsAt(game, new Date(event.occurred_at)) +
+    clockSecondsAt(game, new Date(event.occurred_at));
+
+  await client.query(
+    `UPDATE games
+     SET period = $1,
+         clock_seconds = 0,
+         clock_running = false,
+         clock_anchored_at = NULL,
+         elapsed_seconds = $2,
+         updated_at = NOW()
+     WHERE id = $3`,
+    [event.payload.period, elapsedSeconds, gameId]
+  );
+}
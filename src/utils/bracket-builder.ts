@@ -0,0 +1,341 @@
+/**
+ * Bracket Builder Utilities
+ *
+ * Builds playoff bracket structures and derives their progress from games.
+ *
+ * Structure Rules:
+ * - The bracket size is the smallest power of two that holds every seed;
+ *   missing seeds are byes, so the best seeds skip the first round
+ * - First-round pairings follow standard seeding (1 v 8, 4 v 5, 2 v 7, 3 v 6)
+ * - Double elimination adds a losers side fed by winners-side losers and a
+ *   single grand final between the two side champions (no bracket reset)
+ *
+ * Progress Rules:
+ * - Nothing about results is stored on a series; teams, wins and winners are
+ *   derived from the seeds and the series' final games every time
+ * - A series whose opponent slot is empty is a bye: the present team
+ *   advances without playing
+ * - The better seed is the series home team and hosts odd-numbered games
+ */
+
+import { Game, GameStatus } from '../models/game';
+import {
+  Bracket,
+  BracketFormat,
+  BracketGameInput,
+  BracketRecord,
+  BracketSeries,
+  BracketSeriesDefinition,
+  BracketSeriesRow,
+  BracketSide,
+  SeriesSource,
+  SeriesStatus,
+} from '../models/bracket';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * A resolved series slot: a team, not yet known, or known to be empty
+ */
+type Slot = { team: string } | 'pending' | 'empty';
+
+/**
+ * Smallest power of two holding the given number of teams
+ */
+export function bracketSize(teamCount: number): number {
+  let size = 2;
+  while (size < teamCount) {
+    size *= 2;
+  }
+  return size;
+}
+
+/**
+ * Seeds in first-round slot order, pairing the best seed with the worst
+ *
+ * @param size - Bracket size (power of two)
+ * @returns Seeds where slots 2i and 2i+1 meet in the first round
+ */
+export function seedOrder(size: number): number[] {
+  let order = [1];
+  for (let slots = 2; slots <= size; slots *= 2) {
+    order = order.flatMap(seed => [seed, slots + 1 - seed]);
+  }
+  return order;
+}
+
+const seriesKey = (side: BracketSide, round: number, position: number): string =>
+  `${side === BracketSide.WINNERS ? 'W' : side === BracketSide.LOSERS ? 'L' : 'F'}${round}-${position}`;
+
+const winnerOf = (series: string): SeriesSource => ({ type: 'winner', series });
+const loserOf = (series: string): SeriesSource => ({ type: 'loser', series });
+
+/**
+ * Build the series structure for a bracket
+ *
+ * @param teamCount - Number of seeded teams
+ * @param format - Single or double elimination
+ * @returns Series definitions in play order
+ */
+export function buildBracketSeries(
+  teamCount: number,
+  format: BracketFormat
+): BracketSeriesDefinition[] {
+  const size = bracketSize(teamCount);
+  const winnersRounds = Math.log2(size);
+  const order = seedOrder(size);
+  const series: BracketSeriesDefinition[] = [];
+
+  const add = (
+    side: BracketSide,
+    round: number,
+    count: number,
+    sources: (position: number) => [SeriesSource, SeriesSource]
+  ): void => {
+    for (let position = 1; position <= count; position++) {
+      const [home_source, away_source] = sources(position);
+      series.push({ key: seriesKey(side, round, position), side, round, position, home_source, away_source });
+    }
+  };
+
+  const W = (round: number, position: number): string => seriesKey(BracketSide.WINNERS, round, position);
+  const L = (round: number, position: number): string => seriesKey(BracketSide.LOSERS, round, position);
+
+  // Winners side
+  add(BracketSide.WINNERS, 1, size / 2, p => [
+    { type: 'seed', seed: order[2 * p - 2] },
+    { type: 'seed', seed: order[2 * p - 1] },
+  ]);
+  for (let round = 2; round <= winnersRounds; round++) {
+    add(BracketSide.WINNERS, round, size / 2 ** round, p => [
+      winnerOf(W(round - 1, 2 * p - 1)),
+      winnerOf(W(round - 1, 2 * p)),
+    ]);
+  }
+
+  if (format === BracketFormat.SINGLE_ELIMINATION) {
+    return series;
+  }
+
+  // Losers side: first-round losers meet, then each winners round drops its
+  // losers in (in reverse order, to delay rematches) between merge rounds
+  add(BracketSide.LOSERS, 1, size / 4, p => [
+    loserOf(W(1, 2 * p - 1)),
+    loserOf(W(1, 2 * p)),
+  ]);
+  for (let winnersRound = 2; winnersRound <= winnersRounds; winnersRound++) {
+    const dropRound = 2 * winnersRound - 2;
+    const count = size / 2 ** winnersRound;
+
+    add(BracketSide.LOSERS, dropRound, count, p => [
+      winnerOf(L(dropRound - 1, p)),
+      loserOf(W(winnersRound, count + 1 - p)),
+    ]);
+
+    if (winnersRound < winnersRounds) {
+      add(BracketSide.LOSERS, dropRound + 1, count / 2, p => [
+        winnerOf(L(dropRound, 2 * p - 1)),
+        winnerOf(L(dropRound, 2 * p)),
+      ]);
+    }
+  }
+
+  add(BracketSide.FINAL, 1, 1, () => [
+    winnerOf(W(winnersRounds, 1)),
+    winnerOf(L(2 * winnersRounds - 2, 1)),
+  ]);
+
+  return series;
+}
+
+/**
+ * Winner of a final game, or undefined for a tie
+ */
+function gameWinner(game: Game): string | undefined {
+  if (game.home_score === game.away_score) {
+    return undefined;
+  }
+  return game.home_score > game.away_score ? game.home_team_id : game.away_team_id;
+}
+
+/**
+ * Derive every series' teams, wins and result
+ *
+ * @param record - Bracket settings and seeds
+ * @param rows - Stored series structure
+ * @param games - The bracket's games (other games are ignored)
+ * @returns Bracket with resolved series in stored order and the champion, if decided
+ */
+export function resolveBracket(
+  record: BracketRecord,
+  rows: BracketSeriesRow[],
+  games: Game[]
+): Bracket {
+  const seedOf = new Map(record.seeds.map((teamId, index) => [teamId, index + 1]));
+  const rowsByKey = new Map(rows.map(row => [row.key, row]));
+  const winsNeeded = Math.ceil(record.best_of / 2);
+
+  const gamesBySeries = new Map<string, Game[]>();
+  for (const game of games) {
+    if (game.bracket_series_id) {
+      const seriesGames = gamesBySeries.get(game.bracket_series_id) ?? [];
+      seriesGames.push(game);
+      gamesBySeries.set(game.bracket_series_id, seriesGames);
+    }
+  }
+
+  const resolved = new Map<string, BracketSeries>();
+
+  const slot = (source: SeriesSource): Slot => {
+    if (source.type === 'seed') {
+      return source.seed <= record.seeds.length ? { team: record.seeds[source.seed - 1] } : 'empty';
+    }
+
+    const from = resolve(source.series);
+    if (from.status === SeriesStatus.PENDING || from.status === SeriesStatus.ACTIVE) {
+      return 'pending';
+    }
+
+    const team = source.type === 'winner' ? from.winner_team_id : from.loser_team_id;
+    return team ? { team } : 'empty';
+  };
+
+  const resolve = (key: string): BracketSeries => {
+    const cached = resolved.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const row = rowsByKey.get(key)!;
+    const seriesGames = (gamesBySeries.get(row.id) ?? [])
+      .sort((a, b) => (a.series_game_number ?? 0) - (b.series_game_number ?? 0));
+    const home = slot(row.home_source);
+    const away = slot(row.away_source);
+
+    const series: BracketSeries = {
+      ...row,
+      home_wins: 0,
+      away_wins: 0,
+      status: SeriesStatus.PENDING,
+      game_ids: seriesGames.map(game => game.id),
+    };
+
+    if (home === 'pending' || away === 'pending') {
+      // Show whichever team is already through
+      series.home_team_id = typeof home === 'object' ? home.team : undefined;
+      series.away_team_id = typeof away === 'object' ? away.team : undefined;
+    } else if (home === 'empty' || away === 'empty') {
+      const team = typeof home === 'object' ? home.team : typeof away === 'object' ? away.team : undefined;
+      series.home_team_id = team;
+      series.winner_team_id = team;
+      series.status = SeriesStatus.BYE;
+    } else {
+      const [homeTeam, awayTeam] =
+        seedOf.get(away.team)! < seedOf.get(home.team)! ? [away.team, home.team] : [home.team, away.team];
+
+      series.home_team_id = homeTeam;
+      series.away_team_id = awayTeam;
+      series.status = SeriesStatus.ACTIVE;
+
+      for (const game of seriesGames) {
+        if (game.status !== GameStatus.FINAL) {
+          continue;
+        }
+        const winner = gameWinner(game);
+        if (winner === homeTeam) series.home_wins++;
+        if (winner === awayTeam) series.away_wins++;
+      }
+
+      if (series.home_wins >= winsNeeded || series.away_wins >= winsNeeded) {
+        const homeWon = series.home_wins >= winsNeeded;
+        series.winner_team_id = homeWon ? homeTeam : awayTeam;
+        series.loser_team_id = homeWon ? awayTeam : homeTeam;
+        series.status = SeriesStatus.COMPLETE;
+      }
+    }
+
+    series.home_seed = series.home_team_id ? seedOf.get(series.home_team_id) : undefined;
+    series.away_seed = series.away_team_id ? seedOf.get(series.away_team_id) : undefined;
+
+    resolved.set(key, series);
+    return series;
+  };
+
+  const series = rows.map(row => resolve(row.key));
+  const last = series.find(s => s.side === BracketSide.FINAL)
+    ?? series
+      .filter(s => s.side === BracketSide.WINNERS)
+      .reduce((a, b) => (b.round > a.round ? b : a));
+
+  return {
+    ...record,
+    series,
+    champion_team_id:
+      last.status === SeriesStatus.COMPLETE || last.status === SeriesStatus.BYE
+        ? last.winner_team_id
+        : undefined,
+  };
+}
+
+/**
+ * Plan the next game of every active series that has no game in progress
+ *
+ * A series game counts as in progress until it is final or cancelled.
+ * Each new game is scheduled at least game_interval_hours after the latest
+ * game of the series and the series feeding it, and never before starts_at.
+ *
+ * @param bracket - Resolved bracket
+ * @param games - The bracket's games
+ * @returns Games to create
+ */
+export function planNextGames(bracket: Bracket, games: Game[]): BracketGameInput[] {
+  const seriesByKey = new Map(bracket.series.map(s => [s.key, s]));
+  const gamesBySeries = new Map<string, Game[]>();
+  for (const game of games) {
+    if (game.bracket_series_id) {
+      gamesBySeries.set(game.bracket_series_id, [...(gamesBySeries.get(game.bracket_series_id) ?? []), game]);
+    }
+  }
+
+  const planned: BracketGameInput[] = [];
+
+  for (const series of bracket.series) {
+    if (series.status !== SeriesStatus.ACTIVE) {
+      continue;
+    }
+
+    const seriesGames = gamesBySeries.get(series.id) ?? [];
+    const inProgress = seriesGames.some(
+      game => game.status !== GameStatus.FINAL && game.status !== GameStatus.CANCELLED
+    );
+    if (inProgress) {
+      continue;
+    }
+
+    const feeders = [series.home_source, series.away_source]
+      .filter((source): source is Extract<SeriesSource, { series: string }> => source.type !== 'seed')
+      .map(source => seriesByKey.get(source.series)!);
+    const latest = [series, ...feeders]
+      .flatMap(s => gamesBySeries.get(s.id) ?? [])
+      .reduce((max, game) => Math.max(max, game.scheduled_at.getTime()), -Infinity);
+
+    const scheduledAt = Math.max(
+      bracket.starts_at.getTime(),
+      latest + bracket.game_interval_hours * MS_PER_HOUR
+    );
+
+    const gameNumber = seriesGames.reduce((max, game) => Math.max(max, game.series_game_number ?? 0), 0) + 1;
+    const betterSeedHosts = gameNumber % 2 === 1;
+
+    planned.push({
+      bracket_series_id: series.id,
+      series_game_number: gameNumber,
+      home_team_id: betterSeedHosts ? series.home_team_id! : series.away_team_id!,
+      away_team_id: betterSeedHosts ? series.away_team_id! : series.home_team_id!,
+      scheduled_at: new Date(scheduledAt),
+      location: bracket.location,
+    });
+  }
+
+  return planned;
+}
@@ -4,13 +4,24 @@
  * Validates event payloads against event_type-specific JSON schemas using ajv.
  * Returns 400 Bad Request with field-specific errors for invalid payloads.
  * 
+ * Each sport has an event catalog: the event types a game in a league of the
+ * sport accepts, with their payload schemas. Every sport records the game
+ * lifecycle and corrections; sports played on a game clock add the period
+ * and clock events; the rest are the sport's own. An event type can mean
+ * different things in different sports (FIELD_GOAL in basketball and
+ * football), so schemas are looked up by sport first. Scoring events carry
+ * optional points, checked against the values the sport allows (see scoring).
+ * 
  * Requirements: 6.1, 6.6, 8.6, 10.5
  */
 
-import Ajv, { JSONSchemaType, ErrorObject } from 'ajv';
+import Ajv, { JSONSchemaType, ErrorObject, ValidateFunction } from 'ajv';
 import addFormats from 'ajv-formats';
 import { EventType, EventPayload } from '../models/event';
+import { GameDecision } from '../models/game';
+import { SportType } from '../models/league';
 import { BadRequestError } from '../models/errors';
+import { allowedPoints } from './scoring';
 
 // Initialize ajv with strict mode and format validators
 const ajv = new Ajv({ 
@@ -42,11 +53,15 @@ const gameStartedSchema: JSONSchemaType<GameStartedPayload> = {
 
 /**
  * GOAL_SCORED event payload schema
+ * 
+ * goalie_id names the goalie scored on; null is an empty net.
  */
 interface GoalScoredPayload {
   team_id: string;
   player_id: string;
   assist_player_id?: string;
+  goalie_id?: string | null;
+  points?: number;
   period: number;
   time_remaining: string;
 }
@@ -57,6 +72,8 @@ const goalScoredSchema: JSONSchemaType<GoalScoredPayload> = {
     team_id: { type: 'string', format: 'uuid' },
     player_id: { type: 'string', format: 'uuid' },
     assist_player_id: { type: 'string', format: 'uuid', nullable: true },
+    goalie_id: { type: 'string', format: 'uuid', nullable: true },
+    points: { type: 'integer', nullable: true },
     period: { type: 'number', minimum: 1 },
     time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
   },
@@ -92,10 +109,13 @@ const penaltyAssessedSchema: JSONSchemaType<PenaltyAssessedPayload> = {
 
 /**
  * SHOT_ON_GOAL event payload schema
+ * 
+ * goalie_id names the goalie who faced the shot; null is an empty net.
  */
 interface ShotOnGoalPayload {
   team_id: string;
   player_id: string;
+  goalie_id?: string | null;
   period: number;
   time_remaining: string;
 }
@@ -105,6 +125,7 @@ const shotOnGoalSchema: JSONSchemaType<ShotOnGoalPayload> = {
   properties: {
     team_id: { type: 'string', format: 'uuid' },
     player_id: { type: 'string', format: 'uuid' },
+    goalie_id: { type: 'string', format: 'uuid', nullable: true },
     period: { type: 'number', minimum: 1 },
     time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
   },
@@ -132,19 +153,82 @@ const periodEndedSchema: JSONSchemaType<PeriodEndedPayload> = {
   additionalProperties: false
 };
 
+/**
+ * CLOCK_STARTED and CLOCK_STOPPED event payload schema
+ * 
+ * clock_seconds optionally corrects the clock to the scorekeeper's reading.
+ */
+interface ClockToggledPayload {
+  clock_seconds?: number;
+}
+
+const clockToggledSchema: JSONSchemaType<ClockToggledPayload> = {
+  type: 'object',
+  properties: {
+    clock_seconds: { type: 'integer', minimum: 0, nullable: true }
+  },
+  required: [],
+  additionalProperties: false
+};
+
+/**
+ * CLOCK_SET event payload schema
+ */
+interface ClockSetPayload {
+  clock_seconds: number;
+  period?: number;
+}
+
+const clockSetSchema: JSONSchemaType<ClockSetPayload> = {
+  type: 'object',
+  properties: {
+    clock_seconds: { type: 'integer', minimum: 0 },
+    period: { type: 'integer', minimum: 1, nullable: true }
+  },
+  required: ['clock_seconds'],
+  additionalProperties: false
+};
+
+/**
+ * GOALIE_CHANGED event payload schema
+ * 
+ * goalie_id is the goalie going in net for team_id; leaving it out or
+ * null pulls the goalie.
+ */
+interface GoalieChangedPayload {
+  team_id: string;
+  goalie_id?: string | null;
+  period: number;
+  time_remaining: string;
+}
+
+const goalieChangedSchema: JSONSchemaType<GoalieChangedPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    goalie_id: { type: 'string', format: 'uuid', nullable: true },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
 /**
  * GAME_FINALIZED event payload schema
  */
 interface GameFinalizedPayload {
   final_home_score: number;
   final_away_score: number;
+  decided_in?: GameDecision;
 }
 
 const gameFinalizedSchema: JSONSchemaType<GameFinalizedPayload> = {
   type: 'object',
   properties: {
     final_home_score: { type: 'number', minimum: 0 },
-    final_away_score: { type: 'number', minimum: 0 }
+    final_away_score: { type: 'number', minimum: 0 },
+    decided_in: { type: 'string', enum: Object.values(GameDecision), nullable: true }
   },
   required: ['final_home_score', 'final_away_score'],
   additionalProperties: false
@@ -208,23 +292,406 @@ const eventReversalSchema: JSONSchemaType<EventReversalPayload> = {
   additionalProperties: false
 };
 
-// Compile schemas
-const validators = {
+/**
+ * Basketball FIELD_GOAL event payload schema - a made field goal
+ */
+interface BasketballFieldGoalPayload {
+  team_id: string;
+  player_id: string;
+  points: number;
+  assist_player_id?: string;
+  period: number;
+  time_remaining: string;
+}
+
+const basketballFieldGoalSchema: JSONSchemaType<BasketballFieldGoalPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid' },
+    points: { type: 'integer' },
+    assist_player_id: { type: 'string', format: 'uuid', nullable: true },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'player_id', 'points', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
+/**
+ * FREE_THROW event payload schema - a made free throw
+ */
+interface FreeThrowPayload {
+  team_id: string;
+  player_id: string;
+  points?: number;
+  period: number;
+  time_remaining: string;
+}
+
+const freeThrowSchema: JSONSchemaType<FreeThrowPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid' },
+    points: { type: 'integer', nullable: true },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'player_id', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
+/**
+ * FOUL event payload schema
+ * 
+ * foul_type is free text (e.g. "personal", "technical").
+ */
+interface FoulPayload {
+  team_id: string;
+  player_id: string;
+  foul_type: string;
+  period: number;
+  time_remaining: string;
+}
+
+const foulSchema: JSONSchemaType<FoulPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid' },
+    foul_type: { type: 'string', minLength: 1 },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'player_id', 'foul_type', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
+/**
+ * Half of a baseball inning: the visiting team bats in the top half
+ */
+const INNING_HALVES = ['top', 'bottom'];
+
+/**
+ * RUN_SCORED event payload schema
+ * 
+ * player_id is the runner who scored; batter_id optionally credits the
+ * batter who drove the run in.
+ */
+interface RunScoredPayload {
+  team_id: string;
+  player_id: string;
+  batter_id?: string;
+  points?: number;
+  inning: number;
+  half: string;
+}
+
+const runScoredSchema: JSONSchemaType<RunScoredPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid' },
+    batter_id: { type: 'string', format: 'uuid', nullable: true },
+    points: { type: 'integer', nullable: true },
+    inning: { type: 'integer', minimum: 1 },
+    half: { type: 'string', enum: INNING_HALVES }
+  },
+  required: ['team_id', 'player_id', 'inning', 'half'],
+  additionalProperties: false
+};
+
+/**
+ * OUT_RECORDED event payload schema
+ * 
+ * team_id is the batting team; player_id is the player put out, when known.
+ */
+interface OutRecordedPayload {
+  team_id: string;
+  player_id?: string;
+  out_type?: string;
+  inning: number;
+  half: string;
+}
+
+const outRecordedSchema: JSONSchemaType<OutRecordedPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid', nullable: true },
+    out_type: { type: 'string', minLength: 1, nullable: true },
+    inning: { type: 'integer', minimum: 1 },
+    half: { type: 'string', enum: INNING_HALVES }
+  },
+  required: ['team_id', 'inning', 'half'],
+  additionalProperties: false
+};
+
+/**
+ * INNING_ENDED event payload schema - the end of a half inning
+ */
+interface InningEndedPayload {
+  inning: number;
+  half: string;
+}
+
+const inningEndedSchema: JSONSchemaType<InningEndedPayload> = {
+  type: 'object',
+  properties: {
+    inning: { type: 'integer', minimum: 1 },
+    half: { type: 'string', enum: INNING_HALVES }
+  },
+  required: ['inning', 'half'],
+  additionalProperties: false
+};
+
+/**
+ * TOUCHDOWN event payload schema
+ * 
+ * passer_id optionally credits the player who threw the touchdown pass.
+ */
+interface TouchdownPayload {
+  team_id: string;
+  player_id: string;
+  passer_id?: string;
+  points?: number;
+  period: number;
+  time_remaining: string;
+}
+
+const touchdownSchema: JSONSchemaType<TouchdownPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid' },
+    passer_id: { type: 'string', format: 'uuid', nullable: true },
+    points: { type: 'integer', nullable: true },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'player_id', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
+/**
+ * Football FIELD_GOAL event payload schema - a made field goal
+ */
+interface FootballFieldGoalPayload {
+  team_id: string;
+  player_id: string;
+  distance_yards?: number;
+  points?: number;
+  period: number;
+  time_remaining: string;
+}
+
+const footballFieldGoalSchema: JSONSchemaType<FootballFieldGoalPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid' },
+    distance_yards: { type: 'integer', minimum: 1, nullable: true },
+    points: { type: 'integer', nullable: true },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'player_id', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
+/**
+ * SAFETY event payload schema
+ * 
+ * team_id is the team awarded the safety; player_id optionally credits the
+ * defender who made it.
+ */
+interface SafetyPayload {
+  team_id: string;
+  player_id?: string;
+  points?: number;
+  period: number;
+  time_remaining: string;
+}
+
+const safetySchema: JSONSchemaType<SafetyPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid', nullable: true },
+    points: { type: 'integer', nullable: true },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
+/**
+ * EXTRA_POINT / TWO_POINT_CONVERSION event payload schema - the try after a
+ * touchdown
+ * 
+ * player_id optionally credits the kicker or the player who scored the
+ * conversion; a failed try is recorded with 0 points.
+ */
+interface FootballConversionPayload {
+  team_id: string;
+  player_id?: string;
+  points?: number;
+  period: number;
+  time_remaining: string;
+}
+
+const footballConversionSchema: JSONSchemaType<FootballConversionPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid', nullable: true },
+    points: { type: 'integer', nullable: true },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
+/**
+ * TRY event payload schema
+ */
+interface TryPayload {
+  team_id: string;
+  player_id: string;
+  points?: number;
+  period: number;
+  time_remaining: string;
+}
+
+const trySchema: JSONSchemaType<TryPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid' },
+    points: { type: 'integer', nullable: true },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'player_id', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
+/**
+ * CONVERSION / PENALTY_GOAL / DROP_GOAL event payload schema - a successful
+ * kick at goal, credited to the kicker
+ */
+interface RugbyKickPayload {
+  team_id: string;
+  player_id: string;
+  points?: number;
+  period: number;
+  time_remaining: string;
+}
+
+const rugbyKickSchema: JSONSchemaType<RugbyKickPayload> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' },
+    player_id: { type: 'string', format: 'uuid' },
+    points: { type: 'integer', nullable: true },
+    period: { type: 'number', minimum: 1 },
+    time_remaining: { type: 'string', pattern: '^\\d{2}:\\d{2}$' }
+  },
+  required: ['team_id', 'player_id', 'period', 'time_remaining'],
+  additionalProperties: false
+};
+
+/**
+ * Payload validators by event type
+ */
+type EventCatalog = Partial<Record<EventType, ValidateFunction>>;
+
+/**
+ * Events every sport records: the game lifecycle and corrections
+ */
+const commonEvents: EventCatalog = {
   [EventType.GAME_STARTED]: ajv.compile(gameStartedSchema),
-  [EventType.GOAL_SCORED]: ajv.compile(goalScoredSchema),
-  [EventType.PENALTY_ASSESSED]: ajv.compile(penaltyAssessedSchema),
-  [EventType.SHOT_ON_GOAL]: ajv.compile(shotOnGoalSchema),
-  [EventType.PERIOD_ENDED]: ajv.compile(periodEndedSchema),
   [EventType.GAME_FINALIZED]: ajv.compile(gameFinalizedSchema),
   [EventType.GAME_CANCELLED]: ajv.compile(gameCancelledSchema),
   [EventType.SCORE_CORRECTED]: ajv.compile(scoreCorrectedSchema),
   [EventType.EVENT_REVERSAL]: ajv.compile(eventReversalSchema)
 };
 
+/**
+ * Events of sports played in periods on a game clock
+ */
+const clockEvents: EventCatalog = {
+  [EventType.PERIOD_ENDED]: ajv.compile(periodEndedSchema),
+  [EventType.CLOCK_STARTED]: ajv.compile(clockToggledSchema),
+  [EventType.CLOCK_STOPPED]: ajv.compile(clockToggledSchema),
+  [EventType.CLOCK_SET]: ajv.compile(clockSetSchema)
+};
+
+/**
+ * Events of sports scored with goals into a goalie's net
+ */
+const goalEvents: EventCatalog = {
+  [EventType.GOAL_SCORED]: ajv.compile(goalScoredSchema),
+  [EventType.PENALTY_ASSESSED]: ajv.compile(penaltyAssessedSchema),
+  [EventType.SHOT_ON_GOAL]: ajv.compile(shotOnGoalSchema),
+  [EventType.GOALIE_CHANGED]: ajv.compile(goalieChangedSchema)
+};
+
+/**
+ * Event catalogs by sport
+ */
+const eventCatalogs: Record<SportType, EventCatalog> = {
+  [SportType.HOCKEY]: { ...commonEvents, ...clockEvents, ...goalEvents },
+  [SportType.SOCCER]: { ...commonEvents, ...clockEvents, ...goalEvents },
+  [SportType.BASKETBALL]: {
+    ...commonEvents,
+    ...clockEvents,
+    [EventType.FIELD_GOAL]: ajv.compile(basketballFieldGoalSchema),
+    [EventType.FREE_THROW]: ajv.compile(freeThrowSchema),
+    [EventType.FOUL]: ajv.compile(foulSchema)
+  },
+  [SportType.BASEBALL]: {
+    ...commonEvents,
+    [EventType.RUN_SCORED]: ajv.compile(runScoredSchema),
+    [EventType.OUT_RECORDED]: ajv.compile(outRecordedSchema),
+    [EventType.INNING_ENDED]: ajv.compile(inningEndedSchema)
+  },
+  [SportType.FOOTBALL]: {
+    ...commonEvents,
+    ...clockEvents,
+    [EventType.TOUCHDOWN]: ajv.compile(touchdownSchema),
+    [EventType.FIELD_GOAL]: ajv.compile(footballFieldGoalSchema),
+    [EventType.SAFETY]: ajv.compile(safetySchema),
+    [EventType.EXTRA_POINT]: ajv.compile(footballConversionSchema),
+    [EventType.TWO_POINT_CONVERSION]: ajv.compile(footballConversionSchema)
+  },
+  [SportType.RUGBY]: {
+    ...commonEvents,
+    ...clockEvents,
+    [EventType.TRY]: ajv.compile(trySchema),
+    [EventType.CONVERSION]: ajv.compile(rugbyKickSchema),
+    [EventType.PENALTY_GOAL]: ajv.compile(rugbyKickSchema),
+    [EventType.DROP_GOAL]: ajv.compile(rugbyKickSchema)
+  }
+};
+
+/**
+ * Get the event types a game in a league of a sport accepts
+ * 
+ * @param sport_type - League's sport
+ * @returns Event types in the sport's catalog
+ */
+export function eventTypesForSport(sport_type: SportType): EventType[] {
+  return Object.keys(eventCatalogs[sport_type] ?? {}) as EventType[];
+}
+
 /**
  * Format ajv validation errors into field-specific error details
  */
-function formatValidationErrors(errors: ErrorObject[]): any {
+export function formatValidationErrors(errors: ErrorObject[]): any {
   const details: any = {};
   
   for (const error of errors) {
@@ -245,6 +712,10 @@ function formatValidationErrors(errors: ErrorObject[]): any {
       message = `Must be >= ${error.params.limit}`;
     } else if (error.keyword === 'minLength') {
       message = `Must be at least ${error.params.limit} characters`;
+    } else if (error.keyword === 'maxLength') {
+      message = `Must be at most ${error.params.limit} characters`;
+    } else if (error.keyword === 'enum') {
+      message = `Must be one of: ${error.params.allowedValues.join(', ')}`;
     } else if (error.keyword === 'additionalProperties') {
       message = `Unknown field: ${error.params.additionalProperty}`;
     }
@@ -256,18 +727,35 @@ function formatValidationErrors(errors: ErrorObject[]): any {
 }
 
 /**
- * Validate event payload against event_type-specific schema
+ * Validate event payload against event_type-specific schema for a sport
  * 
+ * @param sport_type - Sport of the game's league
  * @param event_type - The type of event being validated
  * @param payload - The event payload to validate
- * @throws BadRequestError with field-specific details if validation fails
+ * @throws BadRequestError if the event type is unknown or not in the sport's
+ *   catalog (INVALID_EVENT_TYPE_FOR_SPORT)
+ * @throws BadRequestError with field-specific details if validation fails,
+ *   or a scoring event's points aren't allowed in the sport
  */
-export function validateEventPayload(event_type: EventType, payload: EventPayload): void {
-  // Check if validator exists for this event type
-  const validator = validators[event_type];
+export function validateEventPayload(
+  sport_type: SportType,
+  event_type: EventType,
+  payload: EventPayload
+): void {
+  if (!isValidEventType(event_type)) {
+    throw new BadRequestError(`Unknown event type: ${event_type}`);
+  }
+  
+  // Check if the sport's catalog has this event type
+  const validator = eventCatalogs[sport_type]?.[event_type];
   
   if (!validator) {
-    throw new BadRequestError(`Unknown event type: ${event_type}`);
+    const error = new BadRequestError(
+      `Event type ${event_type} is not valid for ${sport_type} games`
+    );
+    (error as any).code = 'INVALID_EVENT_TYPE_FOR_SPORT';
+    (error as any).details = { allowed_event_types: eventTypesForSport(sport_type) };
+    throw error;
   }
   
   // Validate payload
@@ -283,6 +771,17 @@ export function validateEventPayload(event_type: EventType, payload: EventPayloa
     
     throw error;
   }
+  
+  // Scoring events may only be worth the points the sport allows
+  const points = allowedPoints(sport_type, event_type);
+  
+  if (points && payload.points !== undefined && !points.includes(payload.points)) {
+    const error = new BadRequestError('Invalid event payload');
+    (error as any).code = 'INVALID_EVENT_PAYLOAD';
+    (error as any).details = { points: `Must be one of: ${points.join(', ')}` };
+    
+    throw error;
+  }
 }
 
 /**
@@ -0,0 +1,53 @@
+/**
+ * Game Clock Utilities
+ *
+ * The game clock counts down. While it runs, games.clock_seconds holds the
+ * time left at games.clock_anchored_at (the last start or set), so the live
+ * value is derived from the anchor instead of being written every second.
+ * games.elapsed_seconds likewise holds the game time played at the anchor.
+ */
+
+import { Game } from '../models/game';
+
+/**
+ * Clock fields of a game
+ */
+export type GameClock = Pick<
+  Game,
+  'clock_seconds' | 'clock_running' | 'clock_anchored_at' | 'elapsed_seconds'
+>;
+
+/**
+ * Get the seconds left on a game clock at a point in time
+ *
+ * A running clock stops at zero; a stopped one keeps its value.
+ *
+ * @param clock - Game clock state
+ * @param at - Time to read the clock at
+ * @returns Seconds left on the clock
+ */
+export function clockSecondsAt(clock: GameClock, at: Date): number {
+  const seconds = clock.clock_seconds ?? 0;
+
+  if (!clock.clock_running || !clock.clock_anchored_at) {
+    return seconds;
+  }
+
+  const elapsed = Math.floor((at.getTime() - new Date(clock.clock_anchored_at).getTime()) / 1000);
+
+  return Math.max(0, seconds - Math.max(0, elapsed));
+}
+
+/**
+ * Get the game time played at a point in time
+ *
+ * Game time only passes while the clock runs, so it carries across periods
+ * and stoppages; penalty start and expiry times are measured on it.
+ *
+ * @param clock - Game clock state
+ * @param at - Time to read the clock at
+ * @returns Seconds of game time played
+ */
+export function elapsedSecondsAt(clock: GameClock, at: Date): number {
+  return (clock.elapsed_seconds ?? 0) + (clock.clock_seconds ?? 0) - clockSecondsAt(clock, at);
+}
@@ -0,0 +1,82 @@
+/**
+ * Goalie Stats Utilities
+ *
+ * Derives goaltending stats from the shots, goals and game time a goalie
+ * faced in net.
+ *
+ * Stat Rules:
+ * - saves: Shots against less goals against; goals count as shots only when
+ *   a SHOT_ON_GOAL was recorded for them, so saves never go below zero
+ * - save_percentage: Saves per shot against, to three decimals (0.915);
+ *   null without shots against
+ * - goals_against_average: Goals against per 60 minutes in net, to two
+ *   decimals; null without time in net
+ */
+
+import { GoalieStats } from '../models/player-stats';
+
+/**
+ * Game time goals against are averaged over, in seconds
+ */
+const GAA_SECONDS = 60 * 60;
+
+/**
+ * Round to a number of decimals
+ */
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Get a goalie's save percentage
+ *
+ * @param shotsAgainst - Shots on goal faced
+ * @param goalsAgainst - Goals allowed
+ * @returns Saves per shot against, or null without shots against
+ */
+export function savePercentage(shotsAgainst: number, goalsAgainst: number): number | null {
+  if (shotsAgainst === 0) {
+    return null;
+  }
+
+  return round(Math.max(shotsAgainst - goalsAgainst, 0) / shotsAgainst, 3);
+}
+
+/**
+ * Get a goalie's goals against average
+ *
+ * @param goalsAgainst - Goals allowed
+ * @param secondsPlayed - Game time in net
+ * @returns Goals against per 60 minutes, or null without time in net
+ */
+export function goalsAgainstAverage(goalsAgainst: number, secondsPlayed: number): number | null {
+  if (secondsPlayed === 0) {
+    return null;
+  }
+
+  return round((goalsAgainst * GAA_SECONDS) / secondsPlayed, 2);
+}
+
+/**
+ * Get a goalie's stats from the shots, goals and time they faced
+ *
+ * @param shotsAgainst - Shots on goal faced
+ * @param goalsAgainst - Goals allowed
+ * @param secondsPlayed - Game time in net
+ * @returns Goalie stats
+ */
+export function goalieStats(
+  shotsAgainst: number,
+  goalsAgainst: number,
+  secondsPlayed: number
+): GoalieStats {
+  return {
+    shots_against: shotsAgainst,
+    goals_against: goalsAgainst,
+    saves: Math.max(shotsAgainst - goalsAgainst, 0),
+    save_percentage: savePercentage(shotsAgainst, goalsAgainst),
+    seconds_played: secondsPlayed,
+    goals_against_average: goalsAgainstAverage(goalsAgainst, secondsPlayed),
+  };
+}
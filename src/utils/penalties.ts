@@ -0,0 +1,214 @@
+/**
+ * Penalty Utilities
+ *
+ * Tracks penalties on game time (see game-clock) and derives power plays.
+ *
+ * Penalty Rules:
+ * - A penalty runs for duration_minutes of game time from when it was
+ *   assessed
+ * - Penalties of up to 5 minutes (minors, double minors, majors) leave the
+ *   team a player short; longer ones (misconducts) don't
+ * - A team plays at most two players short, so the man-advantage is 1 or 2
+ * - A power-play goal releases the shorthanded team's minor with the least
+ *   time left; a double minor only loses the minor being served
+ * - Reversing the goal puts the released penalty back as it was
+ */
+
+import { ActivePenalty } from '../models/game';
+import { GameEvent } from '../models/event';
+import { ManAdvantage, SnapshotPenalty } from '../models/snapshot';
+
+/**
+ * Longest penalty that leaves the team a player short
+ */
+const SHORTHANDED_PENALTY_MAX_MINUTES = 5;
+
+/**
+ * Most players a team can be short at once
+ */
+const MAX_PLAYERS_SHORT = 2;
+
+/**
+ * Lengths of a minor and a double minor, the penalties a power-play goal
+ * releases
+ */
+const MINOR_PENALTY_MINUTES = [2, 4];
+
+/**
+ * Length of a minor penalty, the part a power-play goal releases
+ */
+const MINOR_PENALTY_SECONDS = 2 * 60;
+
+/**
+ * Build the active penalty for a PENALTY_ASSESSED event
+ *
+ * @param event - PENALTY_ASSESSED event
+ * @param gameSeconds - Game time the penalty was assessed at
+ * @returns Penalty starting at gameSeconds
+ */
+export function penaltyFromEvent(event: GameEvent, gameSeconds: number): ActivePenalty {
+  const { team_id, player_id, penalty_type, duration_minutes, period } = event.payload;
+
+  return {
+    event_id: event.event_id,
+    team_id,
+    player_id,
+    penalty_type,
+    duration_minutes,
+    period,
+    starts_at: gameSeconds,
+    expires_at: gameSeconds + duration_minutes * 60,
+  };
+}
+
+/**
+ * Get the penalties still being served at a game time
+ *
+ * @param penalties - Penalties recorded on the game
+ * @param gameSeconds - Game time
+ * @returns Penalties that haven't expired
+ */
+export function activePenaltiesAt(penalties: ActivePenalty[], gameSeconds: number): ActivePenalty[] {
+  return penalties.filter(p => p.expires_at > gameSeconds);
+}
+
+/**
+ * Describe the penalties being served at a game time for a snapshot
+ *
+ * @param penalties - Penalties recorded on the game
+ * @param gameSeconds - Game time
+ * @returns Unexpired penalties with the time left on each, soonest to expire first
+ */
+export function describePenaltiesAt(penalties: ActivePenalty[], gameSeconds: number): SnapshotPenalty[] {
+  return activePenaltiesAt(penalties, gameSeconds)
+    .sort((a, b) => a.expires_at - b.expires_at)
+    .map(({ starts_at: _startsAt, expires_at: expiresAt, ...penalty }) => ({
+      ...penalty,
+      seconds_remaining: expiresAt - gameSeconds,
+    }));
+}
+
+/**
+ * Count the players a team is short at a game time
+ */
+function playersShort(penalties: ActivePenalty[], teamId: string): number {
+  const count = penalties.filter(
+    p => p.team_id === teamId && p.duration_minutes <= SHORTHANDED_PENALTY_MAX_MINUTES
+  ).length;
+
+  return Math.min(count, MAX_PLAYERS_SHORT);
+}
+
+/**
+ * Get the man-advantage at a game time
+ *
+ * @param penalties - Penalties recorded on the game
+ * @param homeTeamId - Home team identifier
+ * @param awayTeamId - Away team identifier
+ * @param gameSeconds - Game time
+ * @returns The team on the power play and its advantage, or null at even strength
+ */
+export function manAdvantageAt(
+  penalties: ActivePenalty[],
+  homeTeamId: string,
+  awayTeamId: string,
+  gameSeconds: number
+): ManAdvantage | null {
+  const active = activePenaltiesAt(penalties, gameSeconds);
+  const difference = playersShort(active, awayTeamId) - playersShort(active, homeTeamId);
+
+  if (difference === 0) {
+    return null;
+  }
+
+  return {
+    team_id: difference > 0 ? homeTeamId : awayTeamId,
+    advantage: Math.abs(difference),
+  };
+}
+
+/**
+ * Get the penalty a goal releases
+ *
+ * @param penalties - Penalties recorded on the game
+ * @param scoringTeamId - Team that scored
+ * @param homeTeamId - Home team identifier
+ * @param awayTeamId - Away team identifier
+ * @param gameSeconds - Game time of the goal
+ * @returns The opposing team's minor with the least time left, as it was
+ *   before the goal, or undefined if the goal wasn't on the power play
+ */
+export function penaltyReleasedByGoal(
+  penalties: ActivePenalty[],
+  scoringTeamId: string,
+  homeTeamId: string,
+  awayTeamId: string,
+  gameSeconds: number
+): ActivePenalty | undefined {
+  const active = activePenaltiesAt(penalties, gameSeconds);
+  const advantage = manAdvantageAt(active, homeTeamId, awayTeamId, gameSeconds);
+
+  if (advantage?.team_id !== scoringTeamId) {
+    return undefined;
+  }
+
+  return active
+    .filter(p => p.team_id !== scoringTeamId && MINOR_PENALTY_MINUTES.includes(p.duration_minutes))
+    .sort((a, b) => a.expires_at - b.expires_at)[0];
+}
+
+/**
+ * Apply a goal to the penalties being served
+ *
+ * A goal scored on the power play ends the opposing team's minor with the
+ * least time left (or the current minor of a double minor). Expired
+ * penalties are dropped either way.
+ *
+ * @param penalties - Penalties recorded on the game
+ * @param scoringTeamId - Team that scored
+ * @param homeTeamId - Home team identifier
+ * @param awayTeamId - Away team identifier
+ * @param gameSeconds - Game time of the goal
+ * @returns Penalties still being served after the goal
+ */
+export function releasePenaltyOnGoal(
+  penalties: ActivePenalty[],
+  scoringTeamId: string,
+  homeTeamId: string,
+  awayTeamId: string,
+  gameSeconds: number
+): ActivePenalty[] {
+  const active = activePenaltiesAt(penalties, gameSeconds);
+  const released = penaltyReleasedByGoal(active, scoringTeamId, homeTeamId, awayTeamId, gameSeconds);
+
+  if (!released) {
+    return active;
+  }
+
+  // A double minor with more than a minor left carries on with the second minor
+  if (released.expires_at - gameSeconds > MINOR_PENALTY_SECONDS) {
+    return active.map(p =>
+      p === released ? { ...p, expires_at: gameSeconds + MINOR_PENALTY_SECONDS } : p
+    );
+  }
+
+  return active.filter(p => p !== released);
+}
+
+/**
+ * Put a penalty a reversed goal released back
+ *
+ * Replaces what is left of the penalty (the second minor of a double minor)
+ * with the penalty as it was before the goal. A penalty whose time has run
+ * out since stays expired.
+ *
+ * @param penalties - Penalties recorded on the game
+ * @param released - The penalty as it was before the goal
+ * @returns Penalties with the released penalty restored
+ */
+export function restoreReleasedPenalty(
+  penalties: ActivePenalty[],
+  released: ActivePenalty
+): ActivePenalty[] {
+  return [...penalties.filter(p => p.event_id !== released.event_id), released];
+}
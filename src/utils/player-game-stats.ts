@@ -0,0 +1,171 @@
+/**
+ * Player Game Stats Utilities
+ * 
+ * Keeps the player_game_stats projection in step with game events.
+ * 
+ * Projection Rules:
+ * - GOAL_SCORED: A goal for player_id and an assist for assist_player_id,
+ *   both for the scoring team, and a goal against for goalie_id, for the
+ *   other team
+ * - SHOT_ON_GOAL: A shot for player_id and a shot against for goalie_id
+ * - PENALTY_ASSESSED: duration_minutes of penalty minutes for player_id
+ * - GOALIE_CHANGED: Time in net is credited by applyEventToGame with
+ *   creditGoalieTime
+ * - Reversing an event takes its stats back off; a player left without any
+ *   stats who wasn't put in net is removed from the game
+ */
+
+import { PoolClient } from 'pg';
+import { EventType, GameEvent } from '../models/event';
+import { Game } from '../models/game';
+import { PlayerStatsChange } from '../models/player-stats';
+
+/**
+ * Game fields the player stats projection needs
+ */
+export type StatsGame = Pick<Game, 'id' | 'home_team_id' | 'away_team_id'>;
+
+/**
+ * Get the changes an event makes to player stats
+ * 
+ * @param event - Game event
+ * @param game - Game the event was recorded on, to find the goalie's team
+ * @returns One change per player the event credits, none for other event types
+ */
+export function playerStatsChangesFromEvent(event: GameEvent, game: StatsGame): PlayerStatsChange[] {
+  const { team_id, player_id, goalie_id } = event.payload;
+  const change = (playerId: string, stats: Partial<PlayerStatsChange>): PlayerStatsChange => ({
+    player_id: playerId,
+    team_id,
+    goals: 0,
+    assists: 0,
+    shots: 0,
+    penalty_minutes: 0,
+    shots_against: 0,
+    goals_against: 0,
+    ...stats,
+  });
+  const goalieTeamId = team_id === game.home_team_id ? game.away_team_id : game.home_team_id;
+
+  switch (event.event_type) {
+    case EventType.GOAL_SCORED:
+      return [
+        change(player_id, { goals: 1 }),
+        ...(event.payload.assist_player_id
+          ? [change(event.payload.assist_player_id, { assists: 1 })]
+          : []),
+        ...(goalie_id ? [change(goalie_id, { team_id: goalieTeamId, goals_against: 1 })] : []),
+      ];
+
+    case EventType.SHOT_ON_GOAL:
+      return [
+        change(player_id, { shots: 1 }),
+        ...(goalie_id ? [change(goalie_id, { team_id: goalieTeamId, shots_against: 1 })] : []),
+      ];
+
+    case EventType.PENALTY_ASSESSED:
+      // Penalty minutes are whole minutes
+      return [change(player_id, { penalty_minutes: Math.round(event.payload.duration_minutes) })];
+
+    default:
+      return [];
+  }
+}
+
+/**
+ * Add an event's stats to, or take them off, the game's player stats
+ * 
+ * Runs on the caller's transaction client so the stats commit or roll back
+ * with the game state change.
+ * 
+ * @param client - Transaction client (tenant access already verified)
+ * @param game - Game the event was recorded on
+ * @param event - The event being applied or reversed
+ * @param direction - 1 to apply the event, -1 to reverse it
+ */
+export async function applyEventToPlayerStats(
+  client: PoolClient,
+  game: StatsGame,
+  event: GameEvent,
+  direction: 1 | -1
+): Promise<void> {
+  for (const change of playerStatsChangesFromEvent(event, game)) {
+    const stats = [
+      change.goals,
+      change.assists,
+      change.shots,
+      change.penalty_minutes,
+      change.shots_against,
+      change.goals_against,
+    ];
+
+    if (direction === 1) {
+      await client.query(
+        `INSERT INTO player_game_stats
+           (game_id, player_id, team_id, goals, assists, shots, penalty_minutes, shots_against, goals_against)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         ON CONFLICT (game_id, player_id) DO UPDATE
+         SET goals = player_game_stats.goals + EXCLUDED.goals,
+             assists = player_game_stats.assists + EXCLUDED.assists,
+             shots = player_game_stats.shots + EXCLUDED.shots,
+             penalty_minutes = player_game_stats.penalty_minutes + EXCLUDED.penalty_minutes,
+             shots_against = player_game_stats.shots_against + EXCLUDED.shots_against,
+             goals_against = player_game_stats.goals_against + EXCLUDED.goals_against,
+             updated_at = NOW()`,
+        [game.id, change.player_id, change.team_id, ...stats]
+      );
+      continue;
+    }
+
+    await client.query(
+      `UPDATE player_game_stats
+       SET goals = GREATEST(goals - $3, 0),
+           assists = GREATEST(assists - $4, 0),
+           shots = GREATEST(shots - $5, 0),
+           penalty_minutes = GREATEST(penalty_minutes - $6, 0),
+           shots_against = GREATEST(shots_against - $7, 0),
+           goals_against = GREATEST(goals_against - $8, 0),
+           updated_at = NOW()
+       WHERE game_id = $1 AND player_id = $2`,
+      [game.id, change.player_id, ...stats]
+    );
+
+    await client.query(
+      `DELETE FROM player_game_stats
+       WHERE game_id = $1 AND player_id = $2
+         AND goals = 0 AND assists = 0 AND shots = 0 AND penalty_minutes = 0
+         AND shots_against = 0 AND goals_against = 0
+         AND NOT played_goalie AND goalie_seconds = 0`,
+      [game.id, change.player_id]
+    );
+  }
+}
+
+/**
+ * Put a goalie down as having played in net, adding to their time in net
+ * 
+ * Runs on the caller's transaction client, like applyEventToPlayerStats.
+ * 
+ * @param client - Transaction client (tenant access already verified)
+ * @param gameId - Game identifier
+ * @param goalieId - Goalie's player identifier
+ * @param teamId - Team the goalie played for
+ * @param seconds - Game time in net to add; 0 when the goalie goes in
+ */
+export async function creditGoalieTime(
+  client: PoolClient,
+  gameId: string,
+  goalieId: string,
+  teamId: string,
+  seconds: number
+): Promise<void> {
+  await client.query(
+    `INSERT INTO player_game_stats (game_id, player_id, team_id, played_goalie, goalie_seconds)
+     VALUES ($1, $2, $3, true, $4)
+     ON CONFLICT (game_id, player_id) DO UPDATE
+     SET played_goalie = true,
+         goalie_seconds = player_game_stats.goalie_seconds + EXCLUDED.goalie_seconds,
+         updated_at = NOW()`,
+    [gameId, goalieId, teamId, seconds]
+  );
+}
@@ -0,0 +1,68 @@
+/**
+ * Player Leaders Utilities
+ *
+ * Ranks a season's players on a leaderboard.
+ *
+ * Ranking Rules:
+ * - Players are ordered by the stat, highest first; players without any of
+ *   it aren't listed
+ * - Players with the same value share a rank, and the next rank skips the
+ *   places they take (1, 2, 2, 4)
+ * - Within a shared rank, players with fewer games played come first, then
+ *   by last name, first name and player id, so the order never changes
+ *   between requests
+ * - The leaderboard ends after `limit` places; players tied at the last
+ *   rank are all kept
+ */
+
+import {
+  LeaderOptions,
+  LeaderStat,
+  SeasonLeader,
+  SeasonPlayerTotals,
+} from '../models/player-stats';
+
+/**
+ * Get a player's value of a leaderboard stat
+ */
+export function leaderStatValue(totals: SeasonPlayerTotals, stat: LeaderStat): number {
+  return stat === 'pim' ? totals.penalty_minutes : totals[stat];
+}
+
+/**
+ * Rank players on a leaderboard
+ *
+ * @param totals - Season totals of every player who played
+ * @param options - Stat to rank by, minimum games played and number of places
+ * @returns Leaders in rank order
+ */
+export function rankLeaders(totals: SeasonPlayerTotals[], options: LeaderOptions): SeasonLeader[] {
+  const { stat, minGamesPlayed, limit } = options;
+
+  const ordered = totals
+    .filter(t => t.games_played >= minGamesPlayed && leaderStatValue(t, stat) > 0)
+    .map(t => ({ ...t, value: leaderStatValue(t, stat) }))
+    .sort(
+      (a, b) =>
+        b.value - a.value ||
+        a.games_played - b.games_played ||
+        a.last_name.localeCompare(b.last_name) ||
+        a.first_name.localeCompare(b.first_name) ||
+        a.player_id.localeCompare(b.player_id)
+    );
+
+  const leaders: SeasonLeader[] = [];
+
+  for (const [index, player] of ordered.entries()) {
+    const previous = leaders[index - 1];
+    const rank = previous && previous.value === player.value ? previous.rank : index + 1;
+
+    if (rank > limit) {
+      break;
+    }
+
+    leaders.push({ ...player, rank });
+  }
+
+  return leaders;
+}
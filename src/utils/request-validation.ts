@@ -0,0 +1,532 @@
+/**
+ * Request Validation Module
+ *
+ * Validates request bodies for create/update endpoints against JSON schemas
+ * using ajv. Returns 400 Bad Request with field-specific errors for invalid
+ * bodies, mirroring the event payload validation in event-validation.ts.
+ */
+
+import Ajv, { JSONSchemaType, ValidateFunction } from 'ajv';
+import addFormats from 'ajv-formats';
+import { CreateLeagueInput, UpdateLeagueInput, SportType } from '../models/league';
+import { CreateSeasonInput, UpdateSeasonInput } from '../models/season';
+import { DEFAULT_TIEBREAKERS } from '../models/standing';
+import { CreateTeamInput, UpdateTeamInput } from '../models/team';
+import { CreatePlayerInput, UpdatePlayerInput } from '../models/player';
+import { CreateGameInput, UpdateGameInput, GenerateScheduleInput } from '../models/game';
+import {
+  CreateConferenceInput,
+  CreateDivisionInput,
+  AssignDivisionTeamInput,
+} from '../models/division';
+import { CreateBracketInput, BracketFormat } from '../models/bracket';
+import { BadRequestError } from '../models/errors';
+import { formatValidationErrors } from './event-validation';
+
+// Initialize ajv with strict mode and format validators
+const ajv = new Ajv({
+  allErrors: true,
+  strict: true,
+  coerceTypes: false
+});
+
+// Add format validators (date-time, uuid, uri, etc.)
+addFormats(ajv);
+
+/**
+ * Hex color pattern (e.g., "#0B2545")
+ */
+export const HEX_COLOR_PATTERN = '^#[0-9A-Fa-f]{6}$';
+
+/**
+ * Standings points rules schema, shared by league and season requests
+ *
+ * Every field is optional; omitted fields fall back to the defaults. Left
+ * untyped because JSONSchemaType would force nullable on the optional
+ * numbers, and a null win value must not be stored.
+ */
+const pointsRulesSchema = {
+  type: 'object',
+  properties: {
+    win: { type: 'integer', minimum: 0 },
+    tie: { type: 'integer', minimum: 0 },
+    loss: { type: 'integer', minimum: 0 },
+    overtime_win: { type: 'integer', minimum: 0 },
+    overtime_loss: { type: 'integer', minimum: 0 },
+    allow_ties: { type: 'boolean' },
+    scoring_bonus: {
+      type: 'object',
+      properties: {
+        threshold: { type: 'integer', minimum: 1 },
+        points: { type: 'integer', minimum: 1 }
+      },
+      required: ['threshold', 'points'],
+      additionalProperties: false,
+      nullable: true
+    },
+    losing_bonus: {
+      type: 'object',
+      properties: {
+        margin: { type: 'integer', minimum: 1 },
+        points: { type: 'integer', minimum: 1 }
+      },
+      required: ['margin', 'points'],
+      additionalProperties: false,
+      nullable: true
+    }
+  },
+  additionalProperties: false
+};
+
+/**
+ * Standings tiebreaker chain schema: known tiebreakers, each at most once
+ */
+const tiebreakersSchema = {
+  type: 'array',
+  items: { type: 'string', enum: DEFAULT_TIEBREAKERS },
+  minItems: 1,
+  uniqueItems: true
+};
+
+/**
+ * League create request schema
+ *
+ * Untyped because of the nested points_rules schema (see pointsRulesSchema).
+ */
+const createLeagueSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 255 },
+    sport_type: { type: 'string', enum: Object.values(SportType) },
+    logo_url: { type: 'string', format: 'uri', nullable: true },
+    primary_color: { type: 'string', pattern: HEX_COLOR_PATTERN, nullable: true },
+    secondary_color: { type: 'string', pattern: HEX_COLOR_PATTERN, nullable: true },
+    points_rules: { ...pointsRulesSchema, nullable: true }
+  },
+  required: ['name', 'sport_type'],
+  additionalProperties: false
+};
+
+/**
+ * League update request schema
+ *
+ * Optional branding fields accept null to clear the stored value; required
+ * columns (name, sport_type) may be omitted but never nulled, which
+ * JSONSchemaType cannot express, so this schema is left untyped.
+ */
+const updateLeagueSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 255 },
+    sport_type: { type: 'string', enum: Object.values(SportType) },
+    logo_url: { type: 'string', format: 'uri', nullable: true },
+    primary_color: { type: 'string', pattern: HEX_COLOR_PATTERN, nullable: true },
+    secondary_color: { type: 'string', pattern: HEX_COLOR_PATTERN, nullable: true },
+    points_rules: { ...pointsRulesSchema, nullable: true }
+  },
+  minProperties: 1,
+  additionalProperties: false
+};
+
+/**
+ * Season create request schema
+ *
+ * Untyped because of the nested points_rules schema (see pointsRulesSchema).
+ */
+const createSeasonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 255 },
+    start_date: { type: 'string', format: 'date' },
+    end_date: { type: 'string', format: 'date' },
+    points_rules: { ...pointsRulesSchema, nullable: true },
+    tiebreakers: tiebreakersSchema
+  },
+  required: ['name', 'start_date', 'end_date'],
+  additionalProperties: false
+};
+
+/**
+ * Season update request schema
+ */
+const updateSeasonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 255 },
+    start_date: { type: 'string', format: 'date' },
+    end_date: { type: 'string', format: 'date' },
+    points_rules: { ...pointsRulesSchema, nullable: true },
+    tiebreakers: { ...tiebreakersSchema, nullable: true }
+  },
+  minProperties: 1,
+  additionalProperties: false
+};
+
+/**
+ * Team create request schema
+ */
+const createTeamSchema: JSONSchemaType<CreateTeamInput> = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 255 },
+    abbreviation: { type: 'string', minLength: 1, maxLength: 10, nullable: true },
+    logo_url: { type: 'string', format: 'uri', nullable: true },
+    primary_color: { type: 'string', pattern: HEX_COLOR_PATTERN, nullable: true },
+    secondary_color: { type: 'string', pattern: HEX_COLOR_PATTERN, nullable: true }
+  },
+  required: ['name'],
+  additionalProperties: false
+};
+
+/**
+ * Team update request schema
+ */
+const updateTeamSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 255 },
+    abbreviation: { type: 'string', minLength: 1, maxLength: 10, nullable: true },
+    logo_url: { type: 'string', format: 'uri', nullable: true },
+    primary_color: { type: 'string', pattern: HEX_COLOR_PATTERN, nullable: true },
+    secondary_color: { type: 'string', pattern: HEX_COLOR_PATTERN, nullable: true }
+  },
+  minProperties: 1,
+  additionalProperties: false
+};
+
+/**
+ * Player create request schema
+ */
+const createPlayerSchema: JSONSchemaType<CreatePlayerInput> = {
+  type: 'object',
+  properties: {
+    first_name: { type: 'string', minLength: 1, maxLength: 100 },
+    last_name: { type: 'string', minLength: 1, maxLength: 100 },
+    jersey_number: { type: 'string', minLength: 1, maxLength: 10, nullable: true },
+    position: { type: 'string', minLength: 1, maxLength: 50, nullable: true }
+  },
+  required: ['first_name', 'last_name'],
+  additionalProperties: false
+};
+
+/**
+ * Player update request schema
+ */
+const updatePlayerSchema = {
+  type: 'object',
+  properties: {
+    first_name: { type: 'string', minLength: 1, maxLength: 100 },
+    last_name: { type: 'string', minLength: 1, maxLength: 100 },
+    jersey_number: { type: 'string', minLength: 1, maxLength: 10, nullable: true },
+    position: { type: 'string', minLength: 1, maxLength: 50, nullable: true }
+  },
+  minProperties: 1,
+  additionalProperties: false
+};
+
+/**
+ * Game create request schema
+ */
+const createGameSchema: JSONSchemaType<CreateGameInput> = {
+  type: 'object',
+  properties: {
+    home_team_id: { type: 'string', format: 'uuid' },
+    away_team_id: { type: 'string', format: 'uuid' },
+    scheduled_at: { type: 'string', format: 'date-time' },
+    location: { type: 'string', minLength: 1, maxLength: 255, nullable: true }
+  },
+  required: ['home_team_id', 'away_team_id', 'scheduled_at'],
+  additionalProperties: false
+};
+
+/**
+ * Game update request schema
+ */
+const updateGameSchema = {
+  type: 'object',
+  properties: {
+    home_team_id: { type: 'string', format: 'uuid' },
+    away_team_id: { type: 'string', format: 'uuid' },
+    scheduled_at: { type: 'string', format: 'date-time' },
+    location: { type: 'string', minLength: 1, maxLength: 255, nullable: true }
+  },
+  minProperties: 1,
+  additionalProperties: false
+};
+
+/**
+ * Schedule generation request schema
+ *
+ * time_slots are HH:MM in UTC. Left untyped like the update schemas since
+ * every property but time_slots is optional.
+ */
+const generateScheduleSchema = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: ['single', 'double'] },
+    start_date: { type: 'string', format: 'date' },
+    weekdays: {
+      type: 'array',
+      items: {
+        type: 'string',
+        enum: ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+      },
+      minItems: 1,
+      uniqueItems: true
+    },
+    time_slots: {
+      type: 'array',
+      items: { type: 'string', pattern: '^([01]\\d|2[0-3]):[0-5]\\d$' },
+      minItems: 1,
+      uniqueItems: true
+    },
+    games_per_slot: { type: 'integer', minimum: 1 },
+    blackout_dates: {
+      type: 'array',
+      items: { type: 'string', format: 'date' }
+    },
+    balance_home_away: { type: 'boolean' },
+    location: { type: 'string', minLength: 1, maxLength: 255 },
+    dry_run: { type: 'boolean' }
+  },
+  required: ['time_slots'],
+  additionalProperties: false
+};
+
+/**
+ * Conference create request schema
+ */
+const createConferenceSchema: JSONSchemaType<CreateConferenceInput> = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 255 }
+  },
+  required: ['name'],
+  additionalProperties: false
+};
+
+/**
+ * Division create request schema
+ */
+const createDivisionSchema: JSONSchemaType<CreateDivisionInput> = {
+  type: 'object',
+  properties: {
+    name: { type: 'string', minLength: 1, maxLength: 255 },
+    conference_id: { type: 'string', format: 'uuid', nullable: true }
+  },
+  required: ['name'],
+  additionalProperties: false
+};
+
+/**
+ * Division team assignment request schema
+ */
+const assignDivisionTeamSchema: JSONSchemaType<AssignDivisionTeamInput> = {
+  type: 'object',
+  properties: {
+    team_id: { type: 'string', format: 'uuid' }
+  },
+  required: ['team_id'],
+  additionalProperties: false
+};
+
+/**
+ * Bracket create request schema
+ *
+ * Series are best-of an odd number of games so they can't end level.
+ */
+const createBracketSchema: JSONSchemaType<CreateBracketInput> = {
+  type: 'object',
+  properties: {
+    format: { type: 'string', enum: Object.values(BracketFormat) },
+    best_of: { type: 'integer', enum: [1, 3, 5, 7, 9], nullable: true },
+    teams: { type: 'integer', minimum: 2, maximum: 64, nullable: true },
+    starts_at: { type: 'string', format: 'date-time' },
+    game_interval_hours: { type: 'integer', minimum: 0, maximum: 336, nullable: true },
+    location: { type: 'string', minLength: 1, maxLength: 255, nullable: true }
+  },
+  required: ['format', 'starts_at'],
+  additionalProperties: false
+};
+
+// Compile schemas
+const validateCreateLeague = ajv.compile<CreateLeagueInput>(createLeagueSchema);
+const validateUpdateLeague = ajv.compile<UpdateLeagueInput>(updateLeagueSchema);
+const validateCreateSeason = ajv.compile<CreateSeasonInput>(createSeasonSchema);
+const validateUpdateSeason = ajv.compile<UpdateSeasonInput>(updateSeasonSchema);
+const validateCreateTeam = ajv.compile(createTeamSchema);
+const validateUpdateTeam = ajv.compile<UpdateTeamInput>(updateTeamSchema);
+const validateCreatePlayer = ajv.compile(createPlayerSchema);
+const validateUpdatePlayer = ajv.compile<UpdatePlayerInput>(updatePlayerSchema);
+const validateCreateGame = ajv.compile(createGameSchema);
+const validateUpdateGame = ajv.compile<UpdateGameInput>(updateGameSchema);
+const validateGenerateSchedule = ajv.compile<GenerateScheduleInput>(generateScheduleSchema);
+const validateCreateConference = ajv.compile(createConferenceSchema);
+const validateCreateDivision = ajv.compile(createDivisionSchema);
+const validateAssignDivisionTeam = ajv.compile(assignDivisionTeamSchema);
+const validateCreateBracket = ajv.compile(createBracketSchema);
+
+/**
+ * Run a compiled validator and throw a BadRequestError with field details on failure
+ */
+function assertValid<T>(validator: ValidateFunction<T>, body: unknown, message: string): asserts body is T {
+  const valid = validator(body);
+
+  if (!valid && validator.errors) {
+    const error = new BadRequestError(message);
+    (error as any).code = 'INVALID_REQUEST_BODY';
+    (error as any).details = formatValidationErrors(validator.errors);
+
+    throw error;
+  }
+}
+
+/**
+ * Validate a league create request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateCreateLeagueInput(body: unknown): asserts body is CreateLeagueInput {
+  assertValid(validateCreateLeague, body, 'Invalid league');
+}
+
+/**
+ * Validate a league update request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateUpdateLeagueInput(body: unknown): asserts body is UpdateLeagueInput {
+  assertValid(validateUpdateLeague, body, 'Invalid league');
+}
+
+/**
+ * Validate a season create request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateCreateSeasonInput(body: unknown): asserts body is CreateSeasonInput {
+  assertValid(validateCreateSeason, body, 'Invalid season');
+}
+
+/**
+ * Validate a season update request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateUpdateSeasonInput(body: unknown): asserts body is UpdateSeasonInput {
+  assertValid(validateUpdateSeason, body, 'Invalid season');
+}
+
+/**
+ * Validate a team create request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateCreateTeamInput(body: unknown): asserts body is CreateTeamInput {
+  assertValid(validateCreateTeam, body, 'Invalid team');
+}
+
+/**
+ * Validate a team update request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateUpdateTeamInput(body: unknown): asserts body is UpdateTeamInput {
+  assertValid(validateUpdateTeam, body, 'Invalid team');
+}
+
+/**
+ * Validate a player create request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateCreatePlayerInput(body: unknown): asserts body is CreatePlayerInput {
+  assertValid(validateCreatePlayer, body, 'Invalid player');
+}
+
+/**
+ * Validate a player update request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateUpdatePlayerInput(body: unknown): asserts body is UpdatePlayerInput {
+  assertValid(validateUpdatePlayer, body, 'Invalid player');
+}
+
+/**
+ * Validate a game create request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateCreateGameInput(body: unknown): asserts body is CreateGameInput {
+  assertValid(validateCreateGame, body, 'Invalid game');
+}
+
+/**
+ * Validate a game update request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateUpdateGameInput(body: unknown): asserts body is UpdateGameInput {
+  assertValid(validateUpdateGame, body, 'Invalid game');
+}
+
+/**
+ * Validate a schedule generation request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateGenerateScheduleInput(body: unknown): asserts body is GenerateScheduleInput {
+  assertValid(validateGenerateSchedule, body, 'Invalid schedule request');
+}
+
+/**
+ * Validate a conference create request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateCreateConferenceInput(body: unknown): asserts body is CreateConferenceInput {
+  assertValid(validateCreateConference, body, 'Invalid conference');
+}
+
+/**
+ * Validate a division create request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateCreateDivisionInput(body: unknown): asserts body is CreateDivisionInput {
+  assertValid(validateCreateDivision, body, 'Invalid division');
+}
+
+/**
+ * Validate a division team assignment request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateAssignDivisionTeamInput(body: unknown): asserts body is AssignDivisionTeamInput {
+  assertValid(validateAssignDivisionTeam, body, 'Invalid division team');
+}
+
+/**
+ * Validate a bracket create request body
+ *
+ * @param body - Parsed request body
+ * @throws BadRequestError with field-specific details if validation fails
+ */
+export function validateCreateBracketInput(body: unknown): asserts body is CreateBracketInput {
+  assertValid(validateCreateBracket, body, 'Invalid bracket');
+}
@@ -15,6 +15,7 @@ import {
   ResponseMeta,
   HttpStatus,
   ErrorCode,
+  ServerSentEvent,
 } from '../models/response';
 
 /**
@@ -24,8 +25,8 @@ import {
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
   'Access-Control-Allow-Credentials': 'true',
-  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token',
-  'Access-Control-Allow-Methods': 'GET,POST,PUT,DELETE,OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type,Authorization,X-Amz-Date,X-Api-Key,X-Amz-Security-Token,Last-Event-ID',
+  'Access-Control-Allow-Methods': 'GET,POST,PUT,PATCH,DELETE,OPTIONS',
 };
 
 /**
@@ -144,6 +145,55 @@ export function errorResponse(
   };
 }
 
+/**
+ * Create a Server-Sent Events response
+ * 
+ * Writes each event in text/event-stream format after a retry field telling
+ * the client how long to wait before reconnecting. A response without events
+ * carries a comment so the body is never empty.
+ * Automatically adds CORS headers.
+ * 
+ * @param events - Events to send, oldest first
+ * @param retryMilliseconds - Client reconnection delay
+ * @returns API Gateway response object
+ * 
+ * @example
+ * ```typescript
+ * return eventStreamResponse([{ id: '42', event: 'snapshot_update', data }], 3000);
+ * ```
+ */
+export function eventStreamResponse(events: ServerSentEvent[], retryMilliseconds: number) {
+  const lines = [`retry: ${retryMilliseconds}`];
+
+  if (events.length === 0) {
+    lines.push(': no updates');
+  }
+
+  for (const event of events) {
+    lines.push('');
+
+    if (event.id !== undefined) {
+      lines.push(`id: ${event.id}`);
+    }
+
+    if (event.event !== undefined) {
+      lines.push(`event: ${event.event}`);
+    }
+
+    lines.push(...event.data.split('\n').map(line => `data: ${line}`));
+  }
+
+  return {
+    statusCode: HttpStatus.OK,
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      ...CORS_HEADERS,
+    },
+    body: `${lines.join('\n')}\n\n`,
+  };
+}
+
 /**
  * Create a validation error response (400)
  * 
@@ -226,6 +276,26 @@ export function notFoundErrorResponse(
   );
 }
 
+/**
+ * Create a conflict error response (409)
+ * 
+ * @param message - Error message
+ * @param requestId - Optional request ID
+ * @returns API Gateway response object
+ */
+export function conflictErrorResponse(
+  message: string,
+  requestId?: string
+) {
+  return errorResponse(
+    ErrorCode.CONFLICT,
+    message,
+    HttpStatus.CONFLICT,
+    undefined,
+    requestId
+  );
+}
+
 /**
  * Create an internal server error response (500)
  * 
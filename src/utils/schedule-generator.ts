@@ -0,0 +1,205 @@
+/**
+ * Schedule Generator Utilities
+ *
+ * Builds round-robin pairings for a set of teams and lays them out on
+ * calendar slots.
+ *
+ * Pairing Rules:
+ * - Circle method: every team meets every other team once per leg
+ * - Odd team counts get a bye each round
+ * - Double round-robin repeats the first leg with home/away swapped
+ * - Home/away balancing alternates orientation per round and pairing so
+ *   home and away counts differ by at most one per team
+ *
+ * Slot Rules:
+ * - Each round starts on a new eligible date (allowed weekday, not blacked out)
+ * - A date holds time_slots × games_per_slot games; overflow spills to the
+ *   next eligible date
+ * - Each team plays at most once per round, so never twice on one date
+ */
+
+import { RoundRobinFormat, Weekday } from '../models/game';
+import { BadRequestError } from '../models/errors';
+
+/**
+ * Weekday names indexed by Date.getUTCDay()
+ */
+const WEEKDAYS: Weekday[] = [
+  'sunday',
+  'monday',
+  'tuesday',
+  'wednesday',
+  'thursday',
+  'friday',
+  'saturday',
+];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A single matchup within a round
+ */
+export interface Pairing {
+  home_team_id: string;
+  away_team_id: string;
+}
+
+/**
+ * A matchup placed on the calendar
+ */
+export interface ScheduledPairing extends Pairing {
+  round: number;                 // 1-based round number
+  scheduled_at: Date;
+}
+
+/**
+ * Calendar constraints for slot assignment
+ */
+export interface SlotOptions {
+  startDate: string;             // YYYY-MM-DD, first candidate date
+  endDate: string;               // YYYY-MM-DD, last date a game may be played
+  weekdays: Weekday[];           // Allowed days of the week
+  timeSlots: string[];           // HH:MM (UTC) kick-off times
+  gamesPerSlot: number;          // Concurrent games per time slot
+  blackoutDates: string[];       // YYYY-MM-DD dates with no games
+}
+
+/**
+ * Build round-robin rounds for a set of teams
+ *
+ * @param teamIds - Teams to schedule (at least two)
+ * @param format - Single or double round-robin
+ * @param balanceHomeAway - Whether to balance home and away games per team
+ * @returns Rounds of pairings, in play order
+ */
+export function buildRoundRobinRounds(
+  teamIds: string[],
+  format: RoundRobinFormat,
+  balanceHomeAway: boolean
+): Pairing[][] {
+  // Odd team counts hold the bye in the fixed slot, so the real teams rotate
+  const slots: (string | null)[] = teamIds.length % 2 === 0 ? [...teamIds] : [null, ...teamIds];
+  const slotCount = slots.length;
+  const fixed = slots[0];
+  let rotating = slots.slice(1);
+
+  const firstLeg: Pairing[][] = [];
+
+  for (let round = 0; round < slotCount - 1; round++) {
+    const order = [fixed, ...rotating];
+    const pairings: Pairing[] = [];
+
+    for (let i = 0; i < slotCount / 2; i++) {
+      const a = order[i];
+      const b = order[slotCount - 1 - i];
+
+      if (a === null || b === null) {
+        continue; // Bye
+      }
+
+      pairings.push(
+        !balanceHomeAway || isFirstTeamHome(i, round)
+          ? { home_team_id: a, away_team_id: b }
+          : { home_team_id: b, away_team_id: a }
+      );
+    }
+
+    firstLeg.push(pairings);
+
+    // Rotate every slot except the fixed one by one position
+    rotating = [rotating[rotating.length - 1], ...rotating.slice(0, -1)];
+  }
+
+  if (format === 'single') {
+    return firstLeg;
+  }
+
+  const secondLeg = firstLeg.map(pairings =>
+    pairings.map(pairing => ({
+      home_team_id: pairing.away_team_id,
+      away_team_id: pairing.home_team_id,
+    }))
+  );
+
+  return [...firstLeg, ...secondLeg];
+}
+
+/**
+ * Orientation for pairing `index` of a round (Berger tables)
+ *
+ * The fixed team alternates home and away each round; the remaining
+ * pairings alternate by position. This keeps every team's home count
+ * within one of its away count and avoids long home or away streaks.
+ */
+function isFirstTeamHome(index: number, round: number): boolean {
+  return index === 0 ? round % 2 === 0 : index % 2 === 1;
+}
+
+/**
+ * Place rounds of pairings on calendar slots
+ *
+ * @param rounds - Rounds of pairings, in play order
+ * @param options - Calendar constraints
+ * @returns Pairings with round numbers and kick-off times, in play order
+ * @throws BadRequestError if the rounds don't fit between startDate and endDate
+ */
+export function assignScheduleSlots(
+  rounds: Pairing[][],
+  options: SlotOptions
+): ScheduledPairing[] {
+  const timeSlots = [...options.timeSlots].sort();
+  const blackoutDates = new Set(options.blackoutDates);
+  const weekdays = new Set(options.weekdays);
+  const endTime = Date.parse(`${options.endDate}T00:00:00.000Z`);
+
+  let cursor = Date.parse(`${options.startDate}T00:00:00.000Z`);
+
+  // Advance the cursor to the next eligible date (inclusive)
+  const nextEligibleDate = (): string => {
+    while (cursor <= endTime) {
+      const date = new Date(cursor);
+      const key = date.toISOString().slice(0, 10);
+      if (weekdays.has(WEEKDAYS[date.getUTCDay()]) && !blackoutDates.has(key)) {
+        return key;
+      }
+      cursor += MS_PER_DAY;
+    }
+
+    throw new BadRequestError(
+      `Schedule needs ${rounds.length} rounds but available dates run out before ${options.endDate}`
+    );
+  };
+
+  const scheduled: ScheduledPairing[] = [];
+
+  rounds.forEach((pairings, roundIndex) => {
+    let date = nextEligibleDate();
+    let slotIndex = 0;
+    let gamesInSlot = 0;
+
+    for (const pairing of pairings) {
+      if (gamesInSlot === options.gamesPerSlot) {
+        slotIndex++;
+        gamesInSlot = 0;
+      }
+
+      if (slotIndex === timeSlots.length) {
+        cursor += MS_PER_DAY;
+        date = nextEligibleDate();
+        slotIndex = 0;
+      }
+
+      scheduled.push({
+        ...pairing,
+        round: roundIndex + 1,
+        scheduled_at: new Date(`${date}T${timeSlots[slotIndex]}:00.000Z`),
+      });
+      gamesInSlot++;
+    }
+
+    // Next round starts on a later date
+    cursor += MS_PER_DAY;
+  });
+
+  return scheduled;
+}
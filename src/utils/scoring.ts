@@ -0,0 +1,116 @@
+/**
+ * Scoring Utilities
+ *
+ * Point values of the events that put points on the board in each sport.
+ *
+ * Scoring Rules:
+ * - A scoring event carries the points it is worth in payload.points, which
+ *   must be one of the values its sport allows for the event type
+ * - An event recorded without points is worth the first allowed value
+ * - A touchdown's conversion is its own event (EXTRA_POINT or
+ *   TWO_POINT_CONVERSION), as a rugby try's is; a failed try is recorded
+ *   with 0 points
+ * - Scoring events recorded before they carried points are worth 1, the
+ *   value of a goal
+ */
+
+import { EventPayload, EventType, GameEvent } from '../models/event';
+import { SportType } from '../models/league';
+
+/**
+ * Point values each sport allows for its scoring events, first value is the
+ * default
+ */
+const SCORING_POINTS: Record<SportType, Partial<Record<EventType, readonly number[]>>> = {
+  [SportType.HOCKEY]: {
+    [EventType.GOAL_SCORED]: [1],
+  },
+  [SportType.SOCCER]: {
+    [EventType.GOAL_SCORED]: [1],
+  },
+  [SportType.BASKETBALL]: {
+    [EventType.FIELD_GOAL]: [2, 3],
+    [EventType.FREE_THROW]: [1],
+  },
+  [SportType.BASEBALL]: {
+    [EventType.RUN_SCORED]: [1],
+  },
+  [SportType.FOOTBALL]: {
+    [EventType.TOUCHDOWN]: [6],
+    [EventType.FIELD_GOAL]: [3],
+    [EventType.SAFETY]: [2],
+    [EventType.EXTRA_POINT]: [1, 0],
+    [EventType.TWO_POINT_CONVERSION]: [2, 0],
+  },
+  [SportType.RUGBY]: {
+    [EventType.TRY]: [5],
+    [EventType.CONVERSION]: [2],
+    [EventType.PENALTY_GOAL]: [3],
+    [EventType.DROP_GOAL]: [3],
+  },
+};
+
+/**
+ * Event types that score points in some sport
+ */
+export const SCORING_EVENT_TYPES: readonly EventType[] = [
+  EventType.GOAL_SCORED,
+  EventType.FIELD_GOAL,
+  EventType.FREE_THROW,
+  EventType.RUN_SCORED,
+  EventType.TOUCHDOWN,
+  EventType.SAFETY,
+  EventType.EXTRA_POINT,
+  EventType.TWO_POINT_CONVERSION,
+  EventType.TRY,
+  EventType.CONVERSION,
+  EventType.PENALTY_GOAL,
+  EventType.DROP_GOAL,
+];
+
+/**
+ * Get the point values a sport allows for an event type
+ *
+ * @param sportType - Sport of the game's league
+ * @param eventType - Type of event
+ * @returns Allowed point values, or undefined if the event doesn't score in
+ *   the sport
+ */
+export function allowedPoints(
+  sportType: SportType,
+  eventType: EventType
+): readonly number[] | undefined {
+  return SCORING_POINTS[sportType]?.[eventType];
+}
+
+/**
+ * Set the points a scoring event is worth on its payload
+ *
+ * @param sportType - Sport of the game's league
+ * @param eventType - Type of event
+ * @param payload - Validated event payload
+ * @returns The payload, with points set when the event scores in the sport
+ */
+export function withScoringPoints(
+  sportType: SportType,
+  eventType: EventType,
+  payload: EventPayload
+): EventPayload {
+  const points = allowedPoints(sportType, eventType);
+
+  if (!points || payload.points !== undefined) {
+    return payload;
+  }
+
+  return { ...payload, points: points[0] };
+}
+
+/**
+ * Get the points a scoring event put on the board
+ *
+ * @param event - Scoring event
+ * @returns The event's points, or 1 for events recorded without them
+ */
+export function eventPoints(event: GameEvent): number {
+  return typeof event.payload.points === 'number' ? event.payload.points : 1;
+}
@@ -0,0 +1,42 @@
+/**
+ * Shot Utilities
+ *
+ * Keeps the per-period shot counts stored in games.shots_by_period.
+ */
+
+import { PeriodShots } from '../models/game';
+
+/**
+ * Side of the game a team plays on
+ */
+export type GameSide = 'home' | 'away';
+
+/**
+ * Add to one team's shots in a period
+ *
+ * A period without shots gets an entry; counts never go below zero.
+ *
+ * @param shotsByPeriod - Shots recorded on the game per period
+ * @param period - Period the shot was taken in
+ * @param side - Side of the team that took the shot
+ * @param change - 1 to record a shot, -1 to reverse one
+ * @returns Updated shots per period, in period order
+ */
+export function countShot(
+  shotsByPeriod: PeriodShots[],
+  period: number,
+  side: GameSide,
+  change: number
+): PeriodShots[] {
+  const field = side === 'home' ? 'home_shots' : 'away_shots';
+  const current = shotsByPeriod.find(p => p.period === period) ?? {
+    period,
+    home_shots: 0,
+    away_shots: 0,
+  };
+
+  return [
+    ...shotsByPeriod.filter(p => p.period !== period),
+    { ...current, [field]: Math.max(current[field] + change, 0) },
+  ].sort((a, b) => a.period - b.period);
+}
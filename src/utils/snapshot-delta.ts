@@ -0,0 +1,60 @@
+/**
+ * Snapshot Delta Utilities
+ *
+ * Builds the delta a live update carries in place of a full snapshot.
+ *
+ * Delta Rules:
+ * - changes holds every state field whose value differs from the previous
+ *   state, with its new value; values are absolute, never increments
+ * - Nested values (objects, arrays) are compared by value and sent whole
+ * - recent_events is never diffed; the events recorded by the update are
+ *   sent as new_events instead
+ */
+
+import { GameEvent } from '../models/event';
+import {
+  GameSnapshot,
+  GameSnapshotDelta,
+  GameSnapshotState,
+  SNAPSHOT_METADATA_FIELDS,
+} from '../models/snapshot';
+
+/**
+ * Build the delta from a game's previous state to a new snapshot
+ *
+ * @param previous - State the game had before the update
+ * @param snapshot - Snapshot after the update
+ * @param newEvents - Events recorded by the update
+ * @param sequence - Game update sequence assigned to the update
+ * @returns Delta carrying only changed fields and new events
+ */
+export function buildSnapshotDelta(
+  previous: GameSnapshotState,
+  snapshot: GameSnapshot,
+  newEvents: GameEvent[],
+  sequence: number
+): GameSnapshotDelta {
+  const changes: Record<string, unknown> = {};
+  const metadata: readonly string[] = SNAPSHOT_METADATA_FIELDS;
+
+  for (const [field, value] of Object.entries(snapshot)) {
+    if (metadata.includes(field)) {
+      continue;
+    }
+
+    const before = (previous as unknown as Record<string, unknown>)[field];
+
+    if (JSON.stringify(before) !== JSON.stringify(value)) {
+      changes[field] = value;
+    }
+  }
+
+  return {
+    game_id: snapshot.game_id,
+    sequence,
+    changes: changes as Partial<GameSnapshotState>,
+    new_events: [...newEvents].sort(
+      (a, b) => new Date(b.occurred_at).getTime() - new Date(a.occurred_at).getTime()
+    ),
+  };
+}
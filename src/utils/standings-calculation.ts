@@ -2,37 +2,57 @@
  * Standings Calculation Utilities
  * 
  * Algorithms for calculating team standings based on game results.
- * Implements the standings recalculation logic that runs when games are finalized.
+ * Implements the incremental update that runs when a game is finalized and
+ * the full-season recalculation run on demand by admins.
  * 
  * Standings Rules:
- * - Win = 3 points
- * - Tie = 1 point
- * - Loss = 0 points
- * - games_played = wins + losses + ties
+ * - Points per result come from the season's points rules (league rules
+ *   with any season overrides, over DEFAULT_POINTS_RULES: win 3, tie 1, loss 0)
+ * - Games decided in overtime or a shootout award overtime_win/overtime_loss;
+ *   the loser is counted in ot_losses rather than losses
+ * - Scoring and losing bonuses are added to points and tracked in bonus_points
+ * - Tied games are ignored when the rules don't allow ties
+ * - games_played = wins + losses + ties + ot_losses
  * - goal_differential = goals_for - goals_against
- * - Streak is calculated from recent game results (e.g., "W3", "L2", "T1")
+ * - Streak is calculated from recent game results (e.g., "W3", "L2", "T1"),
+ *   looking back at most RECENT_RESULTS_LIMIT games
+ * - Playoff (bracket) games don't count
  * 
  * Requirements: 7.1, 7.2, 7.3, 7.4, 7.5, 7.6, 7.7, 7.8, 7.10
  */
 
+import { PoolClient } from 'pg';
 import { GameRepository } from '../repositories/game-repository';
 import { StandingsRepository } from '../repositories/standings-repository';
 import { SeasonRepository } from '../repositories/season-repository';
 import { TeamRepository } from '../repositories/team-repository';
-import { GameStatus } from '../models/game';
-import { StandingUpsertData } from '../models/standing';
+import { Game, GameStatus, GameDecision } from '../models/game';
+import {
+  PointsRules,
+  PointsRulesInput,
+  StandingRow,
+  StandingUpsertData,
+  resolvePointsRules,
+} from '../models/standing';
 import { emitStandingsCalculationDuration } from './metrics';
 
+/**
+ * Number of most recent results a streak can span
+ */
+export const RECENT_RESULTS_LIMIT = 10;
+
 /**
  * Standing data accumulator for calculation
  */
-interface StandingAccumulator {
+export interface StandingAccumulator {
   season_id: string;
   team_id: string;
   games_played: number;
   wins: number;
   losses: number;
   ties: number;
+  ot_losses: number;
+  bonus_points: number;
   points: number;
   goals_for: number;
   goals_against: number;
@@ -80,20 +100,229 @@ export function calculateStreak(recentResults: ('W' | 'L' | 'T')[]): string | un
   return `${mostRecent}${count}`;
 }
 
+/**
+ * Get a team's recent results from its final games
+ * 
+ * Ties the points rules don't allow are skipped, as in calculateStandings.
+ * 
+ * @param teamId - Team identifier
+ * @param games - Final regular season games, in schedule order
+ * @param rules - Points rules for the season
+ * @returns Up to RECENT_RESULTS_LIMIT results, most recent first
+ */
+export function recentResults(
+  teamId: string,
+  games: Pick<Game, 'home_team_id' | 'away_team_id' | 'home_score' | 'away_score'>[],
+  rules: PointsRules
+): ('W' | 'L' | 'T')[] {
+  const results: ('W' | 'L' | 'T')[] = [];
+
+  for (const game of games) {
+    if (game.home_team_id !== teamId && game.away_team_id !== teamId) {
+      continue;
+    }
+
+    if (game.home_score === game.away_score) {
+      if (rules.allow_ties) {
+        results.unshift('T');
+      }
+    } else {
+      results.unshift((game.home_team_id === teamId) === (game.home_score > game.away_score) ? 'W' : 'L');
+    }
+  }
+
+  return results.slice(0, RECENT_RESULTS_LIMIT);
+}
+
+/**
+ * Apply one final game's result to both teams' accumulators
+ * 
+ * Returns false without changing anything for a tied game when the
+ * points rules don't allow ties.
+ * 
+ * @param game - Final game
+ * @param homeStanding - Home team accumulator
+ * @param awayStanding - Away team accumulator
+ * @param rules - Points rules for the season
+ * @returns Whether the game was counted
+ */
+export function applyGameResult(
+  game: Game,
+  homeStanding: StandingAccumulator,
+  awayStanding: StandingAccumulator,
+  rules: PointsRules
+): boolean {
+  const overtime =
+    game.decided_in === GameDecision.OVERTIME || game.decided_in === GameDecision.SHOOTOUT;
+
+  if (game.home_score === game.away_score) {
+    if (!rules.allow_ties) {
+      return false;
+    }
+
+    for (const standing of [homeStanding, awayStanding]) {
+      standing.ties++;
+      standing.points += rules.tie;
+      standing.recent_results.unshift('T');
+    }
+  } else {
+    const [winner, loser] = game.home_score > game.away_score
+      ? [homeStanding, awayStanding]
+      : [awayStanding, homeStanding];
+
+    winner.wins++;
+    winner.points += overtime ? rules.overtime_win : rules.win;
+    winner.recent_results.unshift('W');
+
+    if (overtime) {
+      loser.ot_losses++;
+      loser.points += rules.overtime_loss;
+    } else {
+      loser.losses++;
+      loser.points += rules.loss;
+    }
+    loser.recent_results.unshift('L');
+
+    const margin = Math.abs(game.home_score - game.away_score);
+    if (rules.losing_bonus && margin <= rules.losing_bonus.margin) {
+      loser.bonus_points += rules.losing_bonus.points;
+      loser.points += rules.losing_bonus.points;
+    }
+  }
+
+  if (rules.scoring_bonus) {
+    const { threshold, points } = rules.scoring_bonus;
+    if (game.home_score >= threshold) {
+      homeStanding.bonus_points += points;
+      homeStanding.points += points;
+    }
+    if (game.away_score >= threshold) {
+      awayStanding.bonus_points += points;
+      awayStanding.points += points;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Calculate standings for a set of teams from their final games
+ * 
+ * Games are processed in schedule order so streaks reflect the most recent
+ * results. Every team gets a standing, even without games; games involving
+ * a team outside the set are skipped.
+ * 
+ * @param seasonId - Season identifier
+ * @param teamIds - Teams to calculate standings for
+ * @param games - Final regular season games
+ * @param rules - Points rules for the season
+ * @returns One standing per team, in teamIds order
+ */
+export function calculateStandings(
+  seasonId: string,
+  teamIds: string[],
+  games: Game[],
+  rules: PointsRules
+): StandingUpsertData[] {
+  // 1. Initialize standings map for all teams
+  const standingsMap = new Map<string, StandingAccumulator>();
+  
+  for (const teamId of teamIds) {
+    standingsMap.set(teamId, {
+      season_id: seasonId,
+      team_id: teamId,
+      games_played: 0,
+      wins: 0,
+      losses: 0,
+      ties: 0,
+      ot_losses: 0,
+      bonus_points: 0,
+      points: 0,
+      goals_for: 0,
+      goals_against: 0,
+      goal_differential: 0,
+      recent_results: [],
+    });
+  }
+
+  // 2. Process each game to update standings
+  // Sort games by scheduled_at to ensure chronological processing for streaks
+  const sortedGames = [...games].sort(
+    (a, b) => a.scheduled_at.getTime() - b.scheduled_at.getTime()
+  );
+
+  for (const game of sortedGames) {
+    const homeStanding = standingsMap.get(game.home_team_id);
+    const awayStanding = standingsMap.get(game.away_team_id);
+
+    // Skip if teams not found (shouldn't happen with proper data)
+    if (!homeStanding || !awayStanding) {
+      continue;
+    }
+
+    // Determine game result
+    if (!applyGameResult(game, homeStanding, awayStanding, rules)) {
+      continue;
+    }
+
+    // Update games played
+    homeStanding.games_played++;
+    awayStanding.games_played++;
+
+    // Update goals
+    homeStanding.goals_for += game.home_score;
+    homeStanding.goals_against += game.away_score;
+    awayStanding.goals_for += game.away_score;
+    awayStanding.goals_against += game.home_score;
+
+    // Limit recent results to the streak window
+    if (homeStanding.recent_results.length > RECENT_RESULTS_LIMIT) {
+      homeStanding.recent_results = homeStanding.recent_results.slice(0, RECENT_RESULTS_LIMIT);
+    }
+    if (awayStanding.recent_results.length > RECENT_RESULTS_LIMIT) {
+      awayStanding.recent_results = awayStanding.recent_results.slice(0, RECENT_RESULTS_LIMIT);
+    }
+  }
+
+  // 3. Calculate goal differential and prepare standings data
+  const standingsData: StandingUpsertData[] = [];
+  
+  for (const standing of Array.from(standingsMap.values())) {
+    standing.goal_differential = standing.goals_for - standing.goals_against;
+    
+    standingsData.push({
+      season_id: standing.season_id,
+      team_id: standing.team_id,
+      games_played: standing.games_played,
+      wins: standing.wins,
+      losses: standing.losses,
+      ties: standing.ties,
+      ot_losses: standing.ot_losses,
+      bonus_points: standing.bonus_points,
+      points: standing.points,
+      goals_for: standing.goals_for,
+      goals_against: standing.goals_against,
+      goal_differential: standing.goal_differential,
+      streak: calculateStreak(standing.recent_results),
+    });
+  }
+
+  return standingsData;
+}
+
 /**
  * Recalculate standings for all teams in a season
  * 
  * This function:
- * 1. Fetches the season to get the league_id
+ * 1. Fetches the season to get the league_id, and its points rules
  * 2. Fetches all teams in the league
- * 3. Fetches all finalized games for the season
- * 4. Initializes standings map for all teams
- * 5. Processes each game to update wins, losses, ties, points, goals
- * 6. Calculates goal differential (goals_for - goals_against)
- * 7. Calculates streaks based on recent game results
- * 8. Persists standings to database using transaction
+ * 3. Fetches all finalized regular season games for the season
+ * 4. Calculates every team's standing from those games (calculateStandings)
+ * 5. Persists standings to database using transaction
  * 
- * This function is called when a GAME_FINALIZED event is created.
+ * Finalized games update standings incrementally (see
+ * applyGameToStandings); this full recalculation is an admin operation
+ * for rebuilding a season after rules or results change.
  * 
  * @param tenantId - Tenant identifier from JWT claims
  * @param seasonId - Season identifier
@@ -120,119 +349,27 @@ export async function recalculateStandings(
       throw new Error(`Season not found: ${seasonId}`);
     }
 
+    const pointsRules = resolvePointsRules(
+      await seasonRepository.findPointsRules(tenantId, seasonId)
+    );
+
     // 2. Fetch all teams in the league
     const teams = await teamRepository.findByLeagueId(tenantId, season.league_id);
 
-    // 3. Fetch all finalized games for the season
-    const finalizedGames = await gameRepository.findBySeasonId(
-      tenantId,
-      seasonId,
-      { status: GameStatus.FINAL }
-    );
-
-    // 4. Initialize standings map for all teams
-    const standingsMap = new Map<string, StandingAccumulator>();
-    
-    for (const team of teams) {
-      standingsMap.set(team.id, {
-        season_id: seasonId,
-        team_id: team.id,
-        games_played: 0,
-        wins: 0,
-        losses: 0,
-        ties: 0,
-        points: 0,
-        goals_for: 0,
-        goals_against: 0,
-        goal_differential: 0,
-        recent_results: [],
-      });
-    }
+    // 3. Fetch all finalized regular season games (playoff games don't count)
+    const finalizedGames = (
+      await gameRepository.findBySeasonId(tenantId, seasonId, { status: GameStatus.FINAL })
+    ).filter(game => !game.bracket_series_id);
 
-    // 5. Process each game to update standings
-    // Sort games by scheduled_at to ensure chronological processing for streaks
-    const sortedGames = [...finalizedGames].sort(
-      (a, b) => a.scheduled_at.getTime() - b.scheduled_at.getTime()
+    // 4. Calculate every team's standing from the games
+    const standingsData = calculateStandings(
+      seasonId,
+      teams.map(team => team.id),
+      finalizedGames,
+      pointsRules
     );
 
-    for (const game of sortedGames) {
-      const homeStanding = standingsMap.get(game.home_team_id);
-      const awayStanding = standingsMap.get(game.away_team_id);
-
-      // Skip if teams not found (shouldn't happen with proper data)
-      if (!homeStanding || !awayStanding) {
-        continue;
-      }
-
-      // Determine game result
-      if (game.home_score > game.away_score) {
-        // Home team wins
-        homeStanding.wins++;
-        homeStanding.points += 3;
-        homeStanding.recent_results.unshift('W');
-        
-        awayStanding.losses++;
-        awayStanding.recent_results.unshift('L');
-      } else if (game.home_score < game.away_score) {
-        // Away team wins
-        awayStanding.wins++;
-        awayStanding.points += 3;
-        awayStanding.recent_results.unshift('W');
-        
-        homeStanding.losses++;
-        homeStanding.recent_results.unshift('L');
-      } else {
-        // Tie
-        homeStanding.ties++;
-        homeStanding.points += 1;
-        homeStanding.recent_results.unshift('T');
-        
-        awayStanding.ties++;
-        awayStanding.points += 1;
-        awayStanding.recent_results.unshift('T');
-      }
-
-      // Update games played
-      homeStanding.games_played++;
-      awayStanding.games_played++;
-
-      // Update goals
-      homeStanding.goals_for += game.home_score;
-      homeStanding.goals_against += game.away_score;
-      awayStanding.goals_for += game.away_score;
-      awayStanding.goals_against += game.home_score;
-
-      // Limit recent results to last 10 games for streak calculation
-      if (homeStanding.recent_results.length > 10) {
-        homeStanding.recent_results = homeStanding.recent_results.slice(0, 10);
-      }
-      if (awayStanding.recent_results.length > 10) {
-        awayStanding.recent_results = awayStanding.recent_results.slice(0, 10);
-      }
-    }
-
-    // 6. Calculate goal differential and prepare upsert data
-    const standingsData: StandingUpsertData[] = [];
-    
-    for (const standing of Array.from(standingsMap.values())) {
-      standing.goal_differential = standing.goals_for - standing.goals_against;
-      
-      standingsData.push({
-        season_id: standing.season_id,
-        team_id: standing.team_id,
-        games_played: standing.games_played,
-        wins: standing.wins,
-        losses: standing.losses,
-        ties: standing.ties,
-        points: standing.points,
-        goals_for: standing.goals_for,
-        goals_against: standing.goals_against,
-        goal_differential: standing.goal_differential,
-        streak: calculateStreak(standing.recent_results),
-      });
-    }
-
-    // 7. Persist standings to database using transaction
+    // 5. Persist standings to database using transaction
     await standingsRepository.upsertStandings(standingsData);
     
     // Emit metric for standings calculation duration
@@ -245,3 +382,167 @@ export async function recalculateStandings(
     throw error;
   }
 }
+
+/**
+ * Apply a newly finalized game to its two teams' standings
+ * 
+ * Runs on the caller's transaction client so the standings change commits
+ * or rolls back with the game's finalization. Only the two teams' rows are
+ * read (locked) and written; every team in the league is given a zeroed row
+ * first so the season's table stays complete, as after a full recalculation.
+ * 
+ * Streaks are rebuilt from the two teams' final games in schedule order, so
+ * a game finalized late (a rainout, a late score entry) lands where it was
+ * played and the streak matches a full recalculation.
+ * 
+ * Playoff games and games the points rules don't count (disallowed ties)
+ * leave standings unchanged.
+ * 
+ * @param client - Transaction client (tenant access already verified)
+ * @param game - The finalized game with its final scores
+ */
+export async function applyGameToStandings(client: PoolClient, game: Game): Promise<void> {
+  if (game.bracket_series_id) {
+    return;
+  }
+
+  const seasonResult = await client.query<{ league_id: string; points_rules: PointsRulesInput }>(
+    `SELECT
+       s.league_id,
+       COALESCE(l.points_rules, '{}'::jsonb) || COALESCE(s.points_rules, '{}'::jsonb)
+         AS points_rules
+     FROM seasons s
+     INNER JOIN leagues l ON s.league_id = l.id
+     WHERE s.id = $1`,
+    [game.season_id]
+  );
+
+  if (seasonResult.rows.length === 0) {
+    return;
+  }
+
+  const { league_id, points_rules } = seasonResult.rows[0];
+
+  await client.query(
+    `INSERT INTO standings (season_id, team_id)
+     SELECT $1, t.id FROM teams t WHERE t.league_id = $2
+     ON CONFLICT (season_id, team_id) DO NOTHING`,
+    [game.season_id, league_id]
+  );
+
+  // Lock in a fixed order so concurrent finalizations can't deadlock
+  const standingsResult = await client.query<StandingRow>(
+    `SELECT
+       id,
+       season_id,
+       team_id,
+       games_played,
+       wins,
+       losses,
+       ties,
+       ot_losses,
+       bonus_points,
+       points,
+       goals_for,
+       goals_against,
+       goal_differential,
+       streak,
+       created_at,
+       updated_at
+     FROM standings
+     WHERE season_id = $1 AND team_id = ANY($2)
+     ORDER BY team_id
+     FOR UPDATE`,
+    [game.season_id, [game.home_team_id, game.away_team_id]]
+  );
+
+  const toAccumulator = (teamId: string): StandingAccumulator | undefined => {
+    const row = standingsResult.rows.find(r => r.team_id === teamId);
+    return row && {
+      season_id: row.season_id,
+      team_id: row.team_id,
+      games_played: row.games_played,
+      wins: row.wins,
+      losses: row.losses,
+      ties: row.ties,
+      ot_losses: row.ot_losses,
+      bonus_points: row.bonus_points,
+      points: row.points,
+      goals_for: row.goals_for,
+      goals_against: row.goals_against,
+      goal_differential: row.goal_differential,
+      recent_results: [],
+    };
+  };
+
+  const homeStanding = toAccumulator(game.home_team_id);
+  const awayStanding = toAccumulator(game.away_team_id);
+
+  // Skip if teams not found (team no longer in the league)
+  if (!homeStanding || !awayStanding) {
+    return;
+  }
+
+  const rules = resolvePointsRules(points_rules);
+
+  if (!applyGameResult(game, homeStanding, awayStanding, rules)) {
+    return;
+  }
+
+  // The game is already final, so it is among the teams' games
+  const gamesResult = await client.query<
+    Pick<Game, 'home_team_id' | 'away_team_id' | 'home_score' | 'away_score'>
+  >(
+    `SELECT g.home_team_id, g.away_team_id, g.home_score, g.away_score
+     FROM games g
+     INNER JOIN teams home_team ON g.home_team_id = home_team.id
+     INNER JOIN teams away_team ON g.away_team_id = away_team.id
+     WHERE g.season_id = $1
+       AND g.status = $2
+       AND g.bracket_series_id IS NULL
+       AND home_team.league_id = $3
+       AND away_team.league_id = $3
+       AND (g.home_team_id = ANY($4) OR g.away_team_id = ANY($4))
+     ORDER BY g.scheduled_at`,
+    [game.season_id, GameStatus.FINAL, league_id, [game.home_team_id, game.away_team_id]]
+  );
+
+  homeStanding.goals_for += game.home_score;
+  homeStanding.goals_against += game.away_score;
+  awayStanding.goals_for += game.away_score;
+  awayStanding.goals_against += game.home_score;
+
+  for (const standing of [homeStanding, awayStanding]) {
+    await client.query(
+      `UPDATE standings
+       SET games_played = $3,
+           wins = $4,
+           losses = $5,
+           ties = $6,
+           ot_losses = $7,
+           bonus_points = $8,
+           points = $9,
+           goals_for = $10,
+           goals_against = $11,
+           goal_differential = $12,
+           streak = $13,
+           updated_at = NOW()
+       WHERE season_id = $1 AND team_id = $2`,
+      [
+        standing.season_id,
+        standing.team_id,
+        standing.games_played + 1,
+        standing.wins,
+        standing.losses,
+        standing.ties,
+        standing.ot_losses,
+        standing.bonus_points,
+        standing.points,
+        standing.goals_for,
+        standing.goals_against,
+        standing.goals_for - standing.goals_against,
+        calculateStreak(recentResults(standing.team_id, gamesResult.rows, rules)) || null,
+      ]
+    );
+  }
+}
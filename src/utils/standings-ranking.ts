@@ -0,0 +1,198 @@
+/**
+ * Standings Ranking Utilities
+ *
+ * Orders a season's standings and explains the order.
+ *
+ * Ranking Rules:
+ * - Teams are ordered by points
+ * - Teams level on points are separated by the season's tiebreaker chain,
+ *   applied in order until every team is separated
+ * - When a criterion splits a tied group into smaller groups that are still
+ *   tied, the chain restarts for each smaller group (so head-to-head only
+ *   counts games among the teams still level)
+ * - The draw is always the last resort: a deterministic value seeded by
+ *   season and team, so the same standings always rank the same way
+ */
+
+import { createHash } from 'crypto';
+import { Game, GameStatus } from '../models/game';
+import {
+  StandingUpsertData,
+  StandingPosition,
+  Tiebreaker,
+  PointsRules,
+} from '../models/standing';
+import { applyGameResult, StandingAccumulator } from './standings-calculation';
+
+/**
+ * Build the effective chain: everything up to the draw, with the draw last
+ *
+ * @param tiebreakers - Configured chain
+ * @returns Chain that always ends with 'draw'
+ */
+function withDraw(tiebreakers: Tiebreaker[]): Tiebreaker[] {
+  const drawIndex = tiebreakers.indexOf('draw');
+  return drawIndex === -1 ? [...tiebreakers, 'draw'] : tiebreakers.slice(0, drawIndex + 1);
+}
+
+/**
+ * Deterministic draw value for a team in a season
+ */
+function drawValue(seasonId: string, teamId: string): number {
+  const digest = createHash('sha256').update(`${seasonId}:${teamId}`).digest('hex');
+  return parseInt(digest.slice(0, 12), 16);
+}
+
+/**
+ * Points each team earned in final games played among the group
+ */
+function headToHeadPoints(
+  group: StandingUpsertData[],
+  games: Game[],
+  rules: PointsRules
+): Map<string, number> {
+  const accumulators = new Map<string, StandingAccumulator>();
+
+  for (const standing of group) {
+    accumulators.set(standing.team_id, {
+      season_id: standing.season_id,
+      team_id: standing.team_id,
+      games_played: 0,
+      wins: 0,
+      losses: 0,
+      ties: 0,
+      ot_losses: 0,
+      bonus_points: 0,
+      points: 0,
+      goals_for: 0,
+      goals_against: 0,
+      goal_differential: 0,
+      recent_results: [],
+    });
+  }
+
+  for (const game of games) {
+    const home = accumulators.get(game.home_team_id);
+    const away = accumulators.get(game.away_team_id);
+
+    if (home && away && game.status === GameStatus.FINAL) {
+      applyGameResult(game, home, away, rules);
+    }
+  }
+
+  return new Map(
+    Array.from(accumulators.values()).map(acc => [acc.team_id, acc.points])
+  );
+}
+
+/**
+ * Value of a tiebreaker for each team in a tied group (higher ranks first)
+ */
+function tiebreakerValues(
+  tiebreaker: Tiebreaker,
+  group: StandingUpsertData[],
+  games: Game[],
+  rules: PointsRules
+): Map<string, number> {
+  if (tiebreaker === 'head_to_head') {
+    return headToHeadPoints(group, games, rules);
+  }
+
+  return new Map(
+    group.map(standing => {
+      switch (tiebreaker) {
+        case 'wins':
+          return [standing.team_id, standing.wins];
+        case 'goal_differential':
+          return [standing.team_id, standing.goal_differential];
+        case 'goals_for':
+          return [standing.team_id, standing.goals_for];
+        case 'goals_against':
+          return [standing.team_id, -standing.goals_against];
+        case 'draw':
+          return [standing.team_id, drawValue(standing.season_id, standing.team_id)];
+      }
+    })
+  );
+}
+
+/**
+ * Split teams into groups of equal value, best value first
+ */
+function splitByValue<T extends StandingUpsertData>(
+  group: T[],
+  values: Map<string, number>
+): T[][] {
+  const sorted = [...group].sort(
+    (a, b) => values.get(b.team_id)! - values.get(a.team_id)!
+  );
+
+  const groups: T[][] = [];
+  for (const standing of sorted) {
+    const last = groups[groups.length - 1];
+    if (last && values.get(last[0].team_id) === values.get(standing.team_id)) {
+      last.push(standing);
+    } else {
+      groups.push([standing]);
+    }
+  }
+
+  return groups;
+}
+
+/**
+ * Rank a season's standings
+ *
+ * Works on stored standings and on standings calculated from games alike.
+ *
+ * @param standings - Standings for one season, in any order
+ * @param games - The season's games (only final games are used, for head-to-head)
+ * @param tiebreakers - The season's tiebreaker chain
+ * @param rules - The season's points rules (for head-to-head points)
+ * @returns Standings in rank order with rank and deciding tiebreaker
+ */
+export function rankStandings<T extends StandingUpsertData>(
+  standings: T[],
+  games: Game[],
+  tiebreakers: Tiebreaker[],
+  rules: PointsRules
+): (T & StandingPosition)[] {
+  const chain = withDraw(tiebreakers);
+  const decidedBy = new Map<string, Tiebreaker | null>();
+
+  const breakTies = (group: T[], step: number): T[] => {
+    if (group.length === 1) {
+      return group;
+    }
+
+    if (step === chain.length) {
+      // Only reachable on a draw collision; fall back to id order
+      group.forEach(standing => decidedBy.set(standing.team_id, 'draw'));
+      return [...group].sort((a, b) => a.team_id.localeCompare(b.team_id));
+    }
+
+    const tiebreaker = chain[step];
+    const subgroups = splitByValue(group, tiebreakerValues(tiebreaker, group, games, rules));
+
+    if (subgroups.length === 1) {
+      return breakTies(group, step + 1);
+    }
+
+    return subgroups.flatMap(subgroup => {
+      subgroup.forEach(standing => decidedBy.set(standing.team_id, tiebreaker));
+      return breakTies(subgroup, 0);
+    });
+  };
+
+  const pointsValues = new Map(standings.map(s => [s.team_id, s.points]));
+  const ordered = splitByValue(standings, pointsValues).flatMap(group => {
+    group.forEach(standing => decidedBy.set(standing.team_id, null));
+    return breakTies(group, 0);
+  });
+
+  return ordered.map((standing, index) => ({
+    ...standing,
+    rank: index + 1,
+    tiebreaker: decidedBy.get(standing.team_id) ?? null,
+  }));
+}
@@ -5,6 +5,11 @@
  * - GET /v1/games/{gameId}
  * - GET /v1/games/{gameId}/events
  * - POST /v1/games/{gameId}/events (scorekeeper role required)
+ * - POST /v1/games/{gameId}/events/{eventId}/reverse (scorekeeper role required)
+ * - GET /v1/games/{gameId}/snapshot
+ * - GET /v1/games/{gameId}/boxscore
+ * - GET /v1/games/{gameId}/stream
+ * - POST /v1/games/{gameId}/stream-tickets
  * 
  * Requirements: 14.10, 14.11, 14.12
  */
@@ -12,8 +17,17 @@
 import { APIGatewayProxyEvent } from 'aws-lambda';
 import { handler } from '../../src/handlers/api-handler';
 import { GameRepository } from '../../src/repositories/game-repository';
+import { SeasonRepository } from '../../src/repositories/season-repository';
 import { GameStatus } from '../../src/models/game';
 import { EventType } from '../../src/models/event';
+import { GameSnapshot } from '../../src/models/snapshot';
+import { SnapshotService } from '../../src/services/snapshot-service';
+import { transaction } from '../../src/config/database';
+import { EventRepository } from '../../src/repositories/event-repository';
+import { PlayerStatsRepository } from '../../src/repositories/player-stats-repository';
+import { StreamTicketRepository } from '../../src/repositories/stream-ticket-repository';
+import { STREAM_TICKET_TTL_SECONDS } from '../../src/models/stream-ticket';
+import { getEventsByGame } from '../../src/config/dynamodb';
 
 // Mock environment variables
 process.env.DB_HOST = 'localhost';
@@ -42,6 +56,14 @@ jest.mock('../../src/repositories/game-repository');
 jest.mock('../../src/repositories/season-repository');
 jest.mock('../../src/repositories/team-repository');
 jest.mock('../../src/repositories/standings-repository');
+jest.mock('../../src/repositories/event-repository');
+jest.mock('../../src/repositories/connection-repository');
+jest.mock('../../src/repositories/player-stats-repository');
+jest.mock('../../src/repositories/stream-ticket-repository');
+
+// Mock snapshot generation and broadcasting
+jest.mock('../../src/services/snapshot-service');
+jest.mock('../../src/services/broadcast-service');
 
 // Mock DynamoDB functions
 jest.mock('../../src/config/dynamodb', () => ({
@@ -54,6 +76,8 @@ jest.mock('../../src/utils/event-validation', () => ({
   validateEventPayload: jest.fn(),
 }));
 
+jest.mock('../../src/config/database');
+
 jest.mock('../../src/utils/apply-event-to-game', () => ({
   applyEventToGame: jest.fn(),
 }));
@@ -118,9 +142,45 @@ function createMockEvent(
   } as APIGatewayProxyEvent;
 }
 
+const mockSnapshot: GameSnapshot = {
+  game_id: 'game-123',
+  home_score: 1,
+  away_score: 0,
+  period: 1,
+  clock_seconds: 1200,
+  clock_running: false,
+  active_penalties: [],
+  man_advantage: null,
+  home_shots: 0,
+  away_shots: 0,
+  shots_by_period: [],
+  status: 'in_progress',
+  recent_events: [],
+  sequence: 3,
+  snapshot_version: '1.0',
+  generated_at: '2024-01-15T19:15:00Z',
+};
+
 describe('Game Routes', () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    (SnapshotService.prototype.generateSnapshot as jest.Mock).mockResolvedValue(mockSnapshot);
+    (SnapshotService.prototype.generateSnapshotFromGame as jest.Mock).mockResolvedValue(mockSnapshot);
+    (SnapshotService.prototype.describeState as jest.Mock).mockReturnValue({
+      home_score: 0,
+      away_score: 0,
+      period: 1,
+      clock_seconds: 1200,
+      clock_running: false,
+      active_penalties: [],
+      man_advantage: null,
+      home_shots: 0,
+      away_shots: 0,
+      shots_by_period: [],
+      status: 'in_progress',
+    });
+    (GameRepository.prototype.advanceUpdateSequence as jest.Mock).mockResolvedValue(3);
+    (SeasonRepository.prototype.findSportType as jest.Mock).mockResolvedValue('hockey');
   });
 
   describe('GET /v1/games/{gameId}', () => {
@@ -143,7 +203,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'GET',
-        '/v1/games/game-123',
+        '/games/game-123',
         'Bearer valid.token.here',
         undefined,
         { gameId: 'game-123' }
@@ -164,7 +224,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'GET',
-        '/v1/games/nonexistent',
+        '/games/nonexistent',
         'Bearer valid.token.here',
         undefined,
         { gameId: 'nonexistent' }
@@ -199,7 +259,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'GET',
-        '/v1/games/game-123',
+        '/games/game-123',
         'Bearer valid.token.here',
         undefined,
         { gameId: 'game-123' }
@@ -260,7 +320,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'GET',
-        '/v1/games/game-123/events',
+        '/games/game-123/events',
         'Bearer valid.token.here',
         undefined,
         { gameId: 'game-123' }
@@ -281,7 +341,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'GET',
-        '/v1/games/nonexistent/events',
+        '/games/nonexistent/events',
         'Bearer valid.token.here',
         undefined,
         { gameId: 'nonexistent' }
@@ -317,7 +377,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'GET',
-        '/v1/games/game-123/events',
+        '/games/game-123/events',
         'Bearer valid.token.here',
         undefined,
         { gameId: 'game-123' }
@@ -367,7 +427,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'POST',
-        '/v1/games/game-123/events',
+        '/games/game-123/events',
         'Bearer valid.token.here',
         {
           event_type: 'GOAL_SCORED',
@@ -382,9 +442,96 @@ describe('Game Routes', () => {
       
       const body = JSON.parse(result.body);
       expect(body.data.event).toEqual(mockEvent);
+      expect(body.data.snapshot).toEqual(mockSnapshot);
       expect(body.request_id).toBeDefined();
     });
 
+    it('should pass occurred_at and idempotency_key through to the event', async () => {
+      const occurredAt = new Date(Date.now() - 60 * 1000).toISOString();
+
+      (GameRepository.prototype.findById as jest.Mock).mockResolvedValue({
+        id: 'game-123',
+        season_id: 'season-456',
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        status: GameStatus.LIVE,
+      });
+      (EventRepository.prototype.findByIdempotencyKey as jest.Mock).mockResolvedValue(null);
+
+      const { writeEvent } = require('../../src/config/dynamodb');
+      writeEvent.mockResolvedValue({ event_id: 'event-123' });
+
+      const event = createMockEvent(
+        'POST',
+        '/games/game-123/events',
+        'Bearer valid.token.here',
+        {
+          event_type: 'GOAL_SCORED',
+          payload: { team_id: 'team-1', player_id: 'player-1' },
+          occurred_at: occurredAt,
+          idempotency_key: 'key-1',
+        },
+        { gameId: 'game-123' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(201);
+      expect(writeEvent).toHaveBeenCalledWith(
+        expect.objectContaining({ event_type: 'GOAL_SCORED' }),
+        expect.objectContaining({ occurred_at: occurredAt, idempotency_key: 'key-1' })
+      );
+    });
+
+    it('should return 200 with the original event for a repeated idempotency_key', async () => {
+      const original = { event_id: 'event-123', idempotency_key: 'key-1' };
+
+      (GameRepository.prototype.findById as jest.Mock).mockResolvedValue({
+        id: 'game-123',
+        status: GameStatus.LIVE,
+      });
+      (EventRepository.prototype.findByIdempotencyKey as jest.Mock).mockResolvedValue(original);
+
+      const { writeEvent } = require('../../src/config/dynamodb');
+
+      const event = createMockEvent(
+        'POST',
+        '/games/game-123/events',
+        'Bearer valid.token.here',
+        {
+          event_type: 'GOAL_SCORED',
+          payload: { team_id: 'team-1', player_id: 'player-1' },
+          idempotency_key: 'key-1',
+        },
+        { gameId: 'game-123' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data).toEqual({ event: original, snapshot: mockSnapshot });
+      expect(writeEvent).not.toHaveBeenCalled();
+    });
+
+    it('should return 400 for a non-string occurred_at', async () => {
+      const event = createMockEvent(
+        'POST',
+        '/games/game-123/events',
+        'Bearer valid.token.here',
+        {
+          event_type: 'GOAL_SCORED',
+          payload: { team_id: 'team-1', player_id: 'player-1' },
+          occurred_at: 1705345200,
+        },
+        { gameId: 'game-123' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error.message).toContain('occurred_at');
+    });
+
     it('should return 403 without scorekeeper role', async () => {
       const { validateJWT } = require('../../src/middleware/jwt-validation');
       validateJWT.mockResolvedValueOnce({
@@ -395,7 +542,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'POST',
-        '/v1/games/game-123/events',
+        '/games/game-123/events',
         'Bearer valid.token.here',
         {
           event_type: 'GOAL_SCORED',
@@ -416,7 +563,7 @@ describe('Game Routes', () => {
     it('should return 400 for missing event_type', async () => {
       const event = createMockEvent(
         'POST',
-        '/v1/games/game-123/events',
+        '/games/game-123/events',
         'Bearer valid.token.here',
         {
           payload: { team_id: 'team-1', player_id: 'player-1' },
@@ -435,7 +582,7 @@ describe('Game Routes', () => {
     it('should return 400 for missing payload', async () => {
       const event = createMockEvent(
         'POST',
-        '/v1/games/game-123/events',
+        '/games/game-123/events',
         'Bearer valid.token.here',
         {
           event_type: 'GOAL_SCORED',
@@ -456,7 +603,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'POST',
-        '/v1/games/nonexistent/events',
+        '/games/nonexistent/events',
         'Bearer valid.token.here',
         {
           event_type: 'GOAL_SCORED',
@@ -492,7 +639,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'POST',
-        '/v1/games/game-123/events',
+        '/games/game-123/events',
         'Bearer valid.token.here',
         {
           event_type: 'GOAL_SCORED',
@@ -537,7 +684,7 @@ describe('Game Routes', () => {
 
       const event = createMockEvent(
         'POST',
-        '/v1/games/game-123/events',
+        '/games/game-123/events',
         'Bearer valid.token.here',
         {
           event_type: 'GOAL_SCORED',
@@ -554,14 +701,442 @@ describe('Game Routes', () => {
           game_id: 'game-123',
           tenant_id: 'tenant-123',
           event_type: 'GOAL_SCORED',
-          payload: { team_id: 'team-1', player_id: 'player-1' },
+          payload: { team_id: 'team-1', player_id: 'player-1', points: 1 },
           metadata: expect.objectContaining({
             user_id: 'user-456',
             source: 'api',
             ip_address: '127.0.0.1',
           }),
+        }),
+        expect.anything()
+      );
+    });
+  });
+
+  describe('POST /v1/games/{gameId}/events/{eventId}/reverse', () => {
+    it('should reverse the event and return the reversal with a snapshot', async () => {
+      const goal = {
+        event_id: 'event-1',
+        game_id: 'game-123',
+        event_type: EventType.SHOT_ON_GOAL,
+        payload: { team_id: 'team-1' },
+      };
+      const reversal = { event_id: 'event-2', event_type: EventType.EVENT_REVERSAL };
+
+      (GameRepository.prototype.findById as jest.Mock).mockResolvedValue({
+        id: 'game-123',
+        status: GameStatus.LIVE,
+      });
+      (EventRepository.prototype.isEventReversed as jest.Mock).mockResolvedValue(false);
+
+      const { getEventsByGame, writeEvent } = require('../../src/config/dynamodb');
+      getEventsByGame.mockResolvedValue([goal]);
+      writeEvent.mockResolvedValue(reversal);
+
+      (transaction as jest.Mock).mockImplementation(async (callback: any) => callback({
+        query: jest.fn().mockResolvedValue({
+          rows: [{ id: 'game-123', home_team_id: 'team-1', away_team_id: 'team-2' }],
+        }),
+      }));
+
+      const event = createMockEvent(
+        'POST',
+        '/games/game-123/events/event-1/reverse',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123', eventId: 'event-1' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body).data).toEqual({ event: reversal, snapshot: mockSnapshot });
+      expect(writeEvent).toHaveBeenCalledWith(
+        expect.objectContaining({
+          event_type: EventType.EVENT_REVERSAL,
+          payload: { reversed_event_id: 'event-1' },
+          metadata: expect.objectContaining({ user_id: 'user-456', source: 'api' }),
         })
       );
     });
+
+    it('should return 404 for an unknown event', async () => {
+      (GameRepository.prototype.findById as jest.Mock).mockResolvedValue({ id: 'game-123' });
+
+      const { getEventsByGame } = require('../../src/config/dynamodb');
+      getEventsByGame.mockResolvedValue([]);
+
+      const event = createMockEvent(
+        'POST',
+        '/games/game-123/events/missing/reverse',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123', eventId: 'missing' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(404);
+      expect(JSON.parse(result.body).error.message).toContain('Event not found');
+    });
+  });
+
+  describe('GET /v1/games/{gameId}/snapshot', () => {
+    it('should return the game snapshot', async () => {
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/snapshot',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      expect(JSON.parse(result.body).data.snapshot).toEqual(mockSnapshot);
+      expect(SnapshotService.prototype.generateSnapshot).toHaveBeenCalledWith('tenant-123', 'game-123');
+    });
+  });
+
+  describe('GET /v1/games/{gameId}/boxscore', () => {
+    const playerStats = (playerId: string, teamId: string, goals: number, assists: number) => ({
+      game_id: 'game-123',
+      player_id: playerId,
+      team_id: teamId,
+      first_name: 'Sam',
+      last_name: playerId,
+      goals,
+      assists,
+      points: goals + assists,
+      shots: goals + 2,
+      penalty_minutes: 0,
+    });
+
+    it('should return each team\'s totals and player stats', async () => {
+      (GameRepository.prototype.findById as jest.Mock).mockResolvedValue({
+        id: 'game-123',
+        season_id: 'season-456',
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        status: GameStatus.LIVE,
+        home_score: 2,
+        away_score: 1,
+        home_shots: 14,
+        away_shots: 9,
+      });
+      (PlayerStatsRepository.prototype.findByGameId as jest.Mock).mockResolvedValue([
+        playerStats('player-1', 'team-1', 2, 0),
+        playerStats('player-3', 'team-2', 1, 0),
+        playerStats('player-2', 'team-1', 0, 1),
+      ]);
+
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/boxscore',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      const boxScore = JSON.parse(result.body).data.box_score;
+      expect(boxScore).toMatchObject({
+        game_id: 'game-123',
+        status: GameStatus.LIVE,
+        home: { team_id: 'team-1', score: 2, shots: 14 },
+        away: { team_id: 'team-2', score: 1, shots: 9 },
+      });
+      expect(boxScore.home.players.map((p: any) => p.player_id)).toEqual(['player-1', 'player-2']);
+      expect(boxScore.away.players.map((p: any) => p.player_id)).toEqual(['player-3']);
+      expect(PlayerStatsRepository.prototype.findByGameId).toHaveBeenCalledWith('tenant-123', 'game-123');
+    });
+
+    it('should return 404 for a game outside the tenant', async () => {
+      (GameRepository.prototype.findById as jest.Mock).mockResolvedValue(null);
+
+      const event = createMockEvent(
+        'GET',
+        '/games/game-999/boxscore',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-999' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(404);
+      expect(PlayerStatsRepository.prototype.findByGameId).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GET /v1/games/{gameId}/stream', () => {
+    /**
+     * Parse the messages of a text/event-stream body
+     */
+    function streamMessages(body: string): Array<{ id: string; event: string; data: any }> {
+      return body
+        .split('\n\n')
+        .filter(block => block.includes('data: '))
+        .map(block => {
+          const field = (name: string) =>
+            block
+              .split('\n')
+              .filter(line => line.startsWith(`${name}: `))
+              .map(line => line.slice(name.length + 2))
+              .join('\n');
+          return { id: field('id'), event: field('event'), data: JSON.parse(field('data')) };
+        });
+    }
+
+    const streamEvents = [
+      {
+        event_id: 'event-1',
+        game_id: 'game-123',
+        event_type: EventType.GAME_STARTED,
+        sort_key: '2024-01-15T19:00:00.000Z#event-1',
+      },
+      {
+        event_id: 'event-2',
+        game_id: 'game-123',
+        event_type: EventType.GOAL_SCORED,
+        sort_key: '2024-01-15T19:10:00.000Z#event-2',
+      },
+    ];
+
+    beforeEach(() => {
+      (GameRepository.prototype.findById as jest.Mock).mockResolvedValue({ id: 'game-123' });
+      (getEventsByGame as jest.Mock).mockResolvedValue(streamEvents);
+    });
+
+    it('should send an initial snapshot to a new client', async () => {
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/stream',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      expect(result.headers?.['Content-Type']).toBe('text/event-stream');
+      expect(result.body).toMatch(/^retry: \d+\n/);
+      expect(streamMessages(result.body)).toEqual([
+        {
+          id: '3-2024-01-15T19:10:00.000Z#event-2',
+          event: 'initial_snapshot',
+          data: expect.objectContaining({ message_type: 'initial_snapshot', data: mockSnapshot }),
+        },
+      ]);
+      expect(SnapshotService.prototype.generateSnapshot).toHaveBeenCalledWith('tenant-123', 'game-123');
+    });
+
+    it('should replay the events a client behind the Last-Event-ID missed', async () => {
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/stream',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' }
+      );
+      event.headers['Last-Event-ID'] = '1-2024-01-15T19:00:00.000Z#event-1';
+
+      const result = await handler(event);
+
+      expect(streamMessages(result.body)).toEqual([
+        {
+          id: '3-2024-01-15T19:10:00.000Z#event-2',
+          event: 'snapshot_update',
+          data: expect.objectContaining({
+            message_type: 'snapshot_update',
+            data: mockSnapshot,
+            events: [streamEvents[1]],
+          }),
+        },
+      ]);
+      expect(getEventsByGame).toHaveBeenCalledWith('game-123', 'tenant-123');
+    });
+
+    it('should replay every event to a client that had none', async () => {
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/stream',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' },
+        { last_event_id: '0-' }
+      );
+
+      const result = await handler(event);
+
+      expect(streamMessages(result.body)[0].data.events).toEqual(streamEvents);
+    });
+
+    it('should send nothing to a client that is up to date', async () => {
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/stream',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' },
+        { last_event_id: '3-2024-01-15T19:10:00.000Z#event-2' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      expect(streamMessages(result.body)).toEqual([]);
+      expect(getEventsByGame).not.toHaveBeenCalled();
+    });
+
+    it('should treat an unrecognized Last-Event-ID as a new client', async () => {
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/stream',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' },
+        { last_event_id: 'abc' }
+      );
+
+      const result = await handler(event);
+
+      expect(streamMessages(result.body)[0].event).toBe('initial_snapshot');
+    });
+
+    it('should accept a stream ticket for the game as a query parameter', async () => {
+      const { validateJWT } = require('../../src/middleware/jwt-validation');
+      (StreamTicketRepository.prototype.findActive as jest.Mock).mockResolvedValue({
+        ticket: 'ticket-abc',
+        tenant_id: 'tenant-789',
+        game_id: 'game-123',
+        user_id: 'user-999',
+        roles: [],
+      });
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/stream',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' },
+        { ticket: 'ticket-abc' }
+      );
+      event.headers = {};
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      expect(validateJWT).not.toHaveBeenCalled();
+      expect(StreamTicketRepository.prototype.findActive).toHaveBeenCalledWith('ticket-abc', 'game-123');
+      expect(SnapshotService.prototype.generateSnapshot).toHaveBeenCalledWith('tenant-789', 'game-123');
+    });
+
+    it('should reject an invalid or expired stream ticket', async () => {
+      (StreamTicketRepository.prototype.findActive as jest.Mock).mockResolvedValue(null);
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/stream',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' },
+        { ticket: 'ticket-abc' }
+      );
+      event.headers = {};
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(401);
+      expect(SnapshotService.prototype.generateSnapshot).not.toHaveBeenCalled();
+    });
+
+    it('should not accept the JWT as a query parameter', async () => {
+      const { validateJWT } = require('../../src/middleware/jwt-validation');
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/stream',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' },
+        { token: 'query.token.here' }
+      );
+      event.headers = {};
+
+      await handler(event);
+
+      expect(validateJWT.mock.calls[0][0]).toBeUndefined();
+    });
+
+    it('should ignore a ticket query parameter on other routes', async () => {
+      const { validateJWT } = require('../../src/middleware/jwt-validation');
+      const event = createMockEvent(
+        'GET',
+        '/games/game-123/snapshot',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' },
+        { ticket: 'ticket-abc' }
+      );
+      event.headers = {};
+
+      await handler(event);
+
+      expect(validateJWT.mock.calls[0][0]).toBeUndefined();
+      expect(StreamTicketRepository.prototype.findActive).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('POST /v1/games/{gameId}/stream-tickets', () => {
+    it('should issue a stream ticket for the game', async () => {
+      const expiresAt = new Date('2024-01-15T19:05:00Z');
+      (StreamTicketRepository.prototype.create as jest.Mock).mockResolvedValue({
+        ticket: 'ticket-abc',
+        tenant_id: 'tenant-123',
+        game_id: 'game-123',
+        user_id: 'user-456',
+        roles: ['scorekeeper'],
+        expires_at: expiresAt,
+      });
+      const event = createMockEvent(
+        'POST',
+        '/games/game-123/stream-tickets',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-123' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(201);
+      expect(JSON.parse(result.body).data).toEqual({
+        ticket: 'ticket-abc',
+        expires_at: expiresAt.toISOString(),
+      });
+      expect(StreamTicketRepository.prototype.create).toHaveBeenCalledWith(
+        'tenant-123',
+        'game-123',
+        'user-456',
+        ['scorekeeper'],
+        STREAM_TICKET_TTL_SECONDS
+      );
+    });
+
+    it('should return 404 for a game outside the tenant', async () => {
+      (StreamTicketRepository.prototype.create as jest.Mock).mockResolvedValue(null);
+      const event = createMockEvent(
+        'POST',
+        '/games/game-999/stream-tickets',
+        'Bearer valid.token.here',
+        undefined,
+        { gameId: 'game-999' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(404);
+    });
   });
 });
@@ -0,0 +1,263 @@
+/**
+ * Stats Routes Tests
+ * 
+ * Tests for player statistics API endpoints:
+ * - GET /v1/seasons/{seasonId}/leaders
+ * - GET /v1/players/{playerId}/stats
+ */
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { handler } from '../../src/handlers/api-handler';
+import { SeasonRepository } from '../../src/repositories/season-repository';
+import { PlayerRepository } from '../../src/repositories/player-repository';
+import { PlayerStatsRepository } from '../../src/repositories/player-stats-repository';
+import { GameStatus } from '../../src/models/game';
+
+// Mock environment variables
+process.env.DB_HOST = 'localhost';
+process.env.DB_PORT = '5432';
+process.env.DB_NAME = 'scorebase_test';
+process.env.DB_USER = 'test';
+process.env.DB_PASSWORD = 'test';
+process.env.DB_SECRET_ARN = 'arn:aws:secretsmanager:us-east-1:123456789012:secret:test';
+process.env.DYNAMODB_TABLE_NAME = 'scorebase-events-test';
+process.env.S3_ARCHIVE_BUCKET = 'scorebase-events-archive-test';
+process.env.COGNITO_USER_POOL_ID = 'us-east-1_test123';
+process.env.AWS_REGION = 'us-east-1';
+process.env.NODE_ENV = 'test';
+
+// Mock JWT validation
+jest.mock('../../src/middleware/jwt-validation', () => ({
+  validateJWT: jest.fn().mockResolvedValue({
+    tenant_id: 'tenant-123',
+    user_id: 'user-456',
+    roles: ['viewer'],
+  }),
+}));
+
+jest.mock('../../src/repositories/season-repository');
+jest.mock('../../src/repositories/player-repository');
+jest.mock('../../src/repositories/player-stats-repository');
+
+/**
+ * Create a mock API Gateway event
+ */
+function createMockEvent(
+  method: string,
+  path: string,
+  authHeader: string = 'Bearer valid.token.here',
+  body?: any,
+  pathParameters?: Record<string, string>,
+  queryStringParameters?: Record<string, string>
+): APIGatewayProxyEvent {
+  return {
+    httpMethod: method,
+    path,
+    headers: { Authorization: authHeader },
+    body: body ? JSON.stringify(body) : null,
+    pathParameters: pathParameters || null,
+    queryStringParameters: queryStringParameters || null,
+    isBase64Encoded: false,
+    requestContext: {
+      accountId: '123456789012',
+      apiId: 'test-api',
+      protocol: 'HTTP/1.1',
+      httpMethod: method,
+      path,
+      stage: 'test',
+      requestId: 'test-request-id',
+      requestTimeEpoch: Date.now(),
+      resourceId: 'test-resource',
+      resourcePath: path,
+      identity: {
+        sourceIp: '127.0.0.1',
+        userAgent: 'test-agent',
+        accessKey: null,
+        accountId: null,
+        apiKey: null,
+        apiKeyId: null,
+        caller: null,
+        clientCert: null,
+        cognitoAuthenticationProvider: null,
+        cognitoAuthenticationType: null,
+        cognitoIdentityId: null,
+        cognitoIdentityPoolId: null,
+        principalOrgId: null,
+        user: null,
+        userArn: null,
+      },
+      authorizer: null,
+    },
+    resource: path,
+    stageVariables: null,
+    multiValueHeaders: {},
+    multiValueQueryStringParameters: null,
+  } as APIGatewayProxyEvent;
+}
+
+const seasonTotals = (playerId: string, lastName: string, goals: number, gamesPlayed: number) => ({
+  player_id: playerId,
+  team_id: 'team-1',
+  first_name: 'Sam',
+  last_name: lastName,
+  games_played: gamesPlayed,
+  goals,
+  assists: 1,
+  points: goals + 1,
+  shots: goals * 3,
+  penalty_minutes: 0,
+});
+
+describe('Stats Routes', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('GET /v1/seasons/{seasonId}/leaders', () => {
+    beforeEach(() => {
+      (SeasonRepository.prototype.findById as jest.Mock).mockResolvedValue({ id: 'season-1' });
+      (PlayerStatsRepository.prototype.findSeasonTotals as jest.Mock).mockResolvedValue([
+        seasonTotals('player-1', 'Adams', 4, 6),
+        seasonTotals('player-2', 'Baker', 7, 6),
+        seasonTotals('player-3', 'Clark', 4, 2),
+      ]);
+    });
+
+    it('should rank the season\'s players by the requested stat', async () => {
+      const event = createMockEvent(
+        'GET',
+        '/seasons/season-1/leaders',
+        'Bearer valid.token.here',
+        undefined,
+        { seasonId: 'season-1' },
+        { stat: 'goals' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      const leaders = JSON.parse(result.body).data.leaders;
+      expect(leaders.map((l: any) => [l.player_id, l.rank, l.value])).toEqual([
+        ['player-2', 1, 7],
+        ['player-3', 2, 4],
+        ['player-1', 2, 4],
+      ]);
+      expect(PlayerStatsRepository.prototype.findSeasonTotals).toHaveBeenCalledWith('tenant-123', 'season-1');
+    });
+
+    it('should leave out players below the minimum games played', async () => {
+      const event = createMockEvent(
+        'GET',
+        '/seasons/season-1/leaders',
+        'Bearer valid.token.here',
+        undefined,
+        { seasonId: 'season-1' },
+        { stat: 'goals', minGamesPlayed: '3' }
+      );
+
+      const result = await handler(event);
+
+      expect(JSON.parse(result.body).data.leaders.map((l: any) => l.player_id)).toEqual([
+        'player-2',
+        'player-1',
+      ]);
+    });
+
+    it('should return 400 for an unknown stat', async () => {
+      const event = createMockEvent(
+        'GET',
+        '/seasons/season-1/leaders',
+        'Bearer valid.token.here',
+        undefined,
+        { seasonId: 'season-1' },
+        { stat: 'saves' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(400);
+      expect(JSON.parse(result.body).error.message).toContain('stat must be one of');
+    });
+
+    it('should return 404 for a season outside the tenant', async () => {
+      (SeasonRepository.prototype.findById as jest.Mock).mockResolvedValue(null);
+
+      const event = createMockEvent(
+        'GET',
+        '/seasons/season-9/leaders',
+        'Bearer valid.token.here',
+        undefined,
+        { seasonId: 'season-9' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(404);
+    });
+  });
+
+  describe('GET /v1/players/{playerId}/stats', () => {
+    it('should return the player\'s season totals and game log', async () => {
+      (PlayerRepository.prototype.findById as jest.Mock).mockResolvedValue({ id: 'player-1' });
+      (PlayerStatsRepository.prototype.findGameLogByPlayerId as jest.Mock).mockResolvedValue([
+        {
+          game_id: 'game-2',
+          season_id: 'season-1',
+          scheduled_at: '2024-01-20T19:00:00Z',
+          status: GameStatus.FINAL,
+          team_id: 'team-1',
+          opponent_team_id: 'team-2',
+          is_home: true,
+          goals: 1,
+          assists: 1,
+          points: 2,
+          shots: 4,
+          penalty_minutes: 2,
+        },
+      ]);
+
+      const event = createMockEvent(
+        'GET',
+        '/players/player-1/stats',
+        'Bearer valid.token.here',
+        undefined,
+        { playerId: 'player-1' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(200);
+      const stats = JSON.parse(result.body).data.stats;
+      expect(stats.player_id).toBe('player-1');
+      expect(stats.seasons).toEqual([
+        {
+          season_id: 'season-1',
+          games_played: 1,
+          goals: 1,
+          assists: 1,
+          points: 2,
+          shots: 4,
+          penalty_minutes: 2,
+        },
+      ]);
+      expect(stats.game_log).toHaveLength(1);
+    });
+
+    it('should return 404 for a player outside the tenant', async () => {
+      (PlayerRepository.prototype.findById as jest.Mock).mockResolvedValue(null);
+
+      const event = createMockEvent(
+        'GET',
+        '/players/player-9/stats',
+        'Bearer valid.token.here',
+        undefined,
+        { playerId: 'player-9' }
+      );
+
+      const result = await handler(event);
+
+      expect(result.statusCode).toBe(404);
+      expect(PlayerStatsRepository.prototype.findGameLogByPlayerId).not.toHaveBeenCalled();
+    });
+  });
+});
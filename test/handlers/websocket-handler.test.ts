@@ -0,0 +1,346 @@
+/**
+ * WebSocket Handler Tests
+ *
+ * Tests for the WebSocket API routes:
+ * - $connect / $disconnect
+ * - subscribe / unsubscribe (game, season, league and team scopes)
+ * - resync
+ * - ping
+ * - $default (unknown actions)
+ *
+ * Requirements: 4.1-4.6, 14.1-14.6
+ */
+
+import { APIGatewayProxyEvent } from 'aws-lambda';
+import { handler } from '../../src/handlers/websocket-handler';
+import { validateJWT } from '../../src/middleware/jwt-validation';
+import { ConnectionRepository } from '../../src/repositories/connection-repository';
+import { SubscriptionService } from '../../src/services/subscription-service';
+import { BroadcastService } from '../../src/services/broadcast-service';
+import { GameSnapshot } from '../../src/models/snapshot';
+import { WebSocketConnection } from '../../src/models/websocket';
+import { NotFoundError } from '../../src/models/errors';
+import { AuthError, AuthErrorCode } from '../../src/models/auth';
+
+// Mock environment variables
+process.env.COGNITO_USER_POOL_ID = 'us-east-1_test123';
+process.env.AWS_REGION = 'us-east-1';
+process.env.NODE_ENV = 'test';
+
+// Mock JWT validation
+jest.mock('../../src/middleware/jwt-validation', () => ({
+  validateJWT: jest.fn(),
+}));
+
+jest.mock('../../src/repositories/connection-repository');
+jest.mock('../../src/repositories/game-repository');
+jest.mock('../../src/repositories/season-repository');
+jest.mock('../../src/repositories/league-repository');
+jest.mock('../../src/repositories/team-repository');
+jest.mock('../../src/services/snapshot-service');
+jest.mock('../../src/services/subscription-service');
+jest.mock('../../src/services/broadcast-service');
+
+/**
+ * Create a mock API Gateway WebSocket event
+ */
+function createMockEvent(
+  routeKey: string,
+  body?: any,
+  queryStringParameters?: Record<string, string>,
+  headers: Record<string, string> = {}
+): APIGatewayProxyEvent {
+  return {
+    headers,
+    body: body === undefined ? null : typeof body === 'string' ? body : JSON.stringify(body),
+    queryStringParameters: queryStringParameters || null,
+    requestContext: {
+      routeKey,
+      connectionId: 'conn-123',
+      eventType: routeKey === '$connect' ? 'CONNECT' : routeKey === '$disconnect' ? 'DISCONNECT' : 'MESSAGE',
+      apiId: 'test-api',
+      stage: 'test',
+      requestId: 'test-request-id',
+      requestTimeEpoch: Date.now(),
+    },
+  } as unknown as APIGatewayProxyEvent;
+}
+
+const mockSnapshot: GameSnapshot = {
+  game_id: 'game-123',
+  home_score: 1,
+  away_score: 0,
+  period: 1,
+  clock_seconds: 1200,
+  clock_running: false,
+  active_penalties: [],
+  man_advantage: null,
+  home_shots: 0,
+  away_shots: 0,
+  shots_by_period: [],
+  status: 'in_progress',
+  recent_events: [],
+  sequence: 3,
+  snapshot_version: '1.0',
+  generated_at: '2024-01-15T19:15:00Z',
+};
+
+const mockConnection: WebSocketConnection = {
+  connection_id: 'conn-123',
+  tenant_id: 'tenant-123',
+  user_id: 'user-456',
+  connected_at: '2024-01-15T19:00:00Z',
+  ttl: 1705431600,
+};
+
+/**
+ * Get the messages sent to the client
+ */
+function sentMessages(): any[] {
+  return (BroadcastService.prototype.sendMessage as jest.Mock).mock.calls.map(([, message]) => message);
+}
+
+describe('WebSocket Handler', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (validateJWT as jest.Mock).mockResolvedValue({
+      tenant_id: 'tenant-123',
+      user_id: 'user-456',
+      roles: ['scorekeeper'],
+    });
+    (ConnectionRepository.prototype.getConnection as jest.Mock).mockResolvedValue(mockConnection);
+    (ConnectionRepository.prototype.addSubscription as jest.Mock).mockResolvedValue(true);
+    (SubscriptionService.prototype.getInitialSnapshots as jest.Mock).mockResolvedValue([mockSnapshot]);
+  });
+
+  describe('$connect', () => {
+    it('should validate the token and store the connection', async () => {
+      const result = await handler(
+        createMockEvent('$connect', undefined, undefined, { Authorization: 'Bearer valid.token.here' })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(validateJWT).toHaveBeenCalledWith(
+        'Bearer valid.token.here',
+        'us-east-1_test123',
+        'us-east-1',
+        expect.any(String)
+      );
+
+      const stored = (ConnectionRepository.prototype.storeConnection as jest.Mock).mock.calls[0][0];
+      expect(stored).toMatchObject({
+        connection_id: 'conn-123',
+        tenant_id: 'tenant-123',
+        user_id: 'user-456',
+      });
+      expect(stored.ttl).toBeGreaterThan(Date.now() / 1000);
+      expect(ConnectionRepository.prototype.addSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should accept the token as a query parameter', async () => {
+      const result = await handler(createMockEvent('$connect', undefined, { token: 'valid.token.here' }));
+
+      expect(result.statusCode).toBe(200);
+      expect((validateJWT as jest.Mock).mock.calls[0][0]).toBe('Bearer valid.token.here');
+    });
+
+    it('should reject a subscription given as query parameters', async () => {
+      const result = await handler(
+        createMockEvent('$connect', undefined, {
+          token: 'valid.token.here',
+          scope: 'league',
+          scope_id: 'league-1',
+        })
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(ConnectionRepository.prototype.storeConnection).not.toHaveBeenCalled();
+      expect(ConnectionRepository.prototype.addSubscription).not.toHaveBeenCalled();
+    });
+
+    it('should reject a game given as a query parameter', async () => {
+      const result = await handler(
+        createMockEvent('$connect', undefined, { token: 'valid.token.here', game_id: 'game-123' })
+      );
+
+      expect(result.statusCode).toBe(400);
+      expect(ConnectionRepository.prototype.storeConnection).not.toHaveBeenCalled();
+    });
+
+    it('should reject an invalid token', async () => {
+      (validateJWT as jest.Mock).mockRejectedValue(
+        new AuthError(AuthErrorCode.INVALID_TOKEN, 'Invalid token format')
+      );
+
+      const result = await handler(createMockEvent('$connect'));
+
+      expect(result.statusCode).toBe(401);
+      expect(ConnectionRepository.prototype.storeConnection).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('$disconnect', () => {
+    it('should remove the connection', async () => {
+      const result = await handler(createMockEvent('$disconnect'));
+
+      expect(result.statusCode).toBe(200);
+      expect(ConnectionRepository.prototype.removeConnection).toHaveBeenCalledWith('conn-123');
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should subscribe to the game and send its initial snapshot', async () => {
+      const result = await handler(
+        createMockEvent('subscribe', { action: 'subscribe', game_id: 'game-123', request_id: 'req-1' })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(SubscriptionService.prototype.getInitialSnapshots).toHaveBeenCalledWith('tenant-123', {
+        scope: 'game',
+        scope_id: 'game-123',
+      });
+      expect(ConnectionRepository.prototype.addSubscription).toHaveBeenCalledWith(mockConnection, {
+        scope: 'game',
+        scope_id: 'game-123',
+      });
+      expect(sentMessages()).toEqual([
+        expect.objectContaining({
+          message_type: 'initial_snapshot',
+          data: mockSnapshot,
+          request_id: 'req-1',
+        }),
+      ]);
+    });
+
+    it('should send a snapshot of each live game in a season', async () => {
+      (SubscriptionService.prototype.getInitialSnapshots as jest.Mock).mockResolvedValue([
+        mockSnapshot,
+        { ...mockSnapshot, game_id: 'game-456' },
+      ]);
+
+      await handler(createMockEvent('subscribe', { action: 'subscribe', scope: 'season', scope_id: 'season-1' }));
+
+      expect(ConnectionRepository.prototype.addSubscription).toHaveBeenCalledWith(mockConnection, {
+        scope: 'season',
+        scope_id: 'season-1',
+      });
+      expect(sentMessages().map(message => message.data.game_id)).toEqual(['game-123', 'game-456']);
+    });
+
+    it('should send an error message with nothing to subscribe to', async () => {
+      const result = await handler(createMockEvent('subscribe', { action: 'subscribe' }));
+
+      expect(result.statusCode).toBe(400);
+      expect(sentMessages()).toEqual([
+        expect.objectContaining({
+          message_type: 'error',
+          error: expect.objectContaining({ code: 'INVALID_MESSAGE' }),
+        }),
+      ]);
+    });
+
+    it('should send an error message for a target from another tenant', async () => {
+      (SubscriptionService.prototype.getInitialSnapshots as jest.Mock).mockRejectedValue(
+        new NotFoundError('Game not found')
+      );
+
+      const result = await handler(createMockEvent('subscribe', { action: 'subscribe', game_id: 'game-999' }));
+
+      expect(result.statusCode).toBe(404);
+      expect(ConnectionRepository.prototype.addSubscription).not.toHaveBeenCalled();
+      expect(sentMessages()[0].error.code).toBe('NOT_FOUND');
+    });
+
+    it('should send an error message for an invalid scope', async () => {
+      const result = await handler(createMockEvent('subscribe', { action: 'subscribe', scope: 'team' }));
+
+      expect(result.statusCode).toBe(400);
+      expect(ConnectionRepository.prototype.addSubscription).not.toHaveBeenCalled();
+      expect(sentMessages()[0].error.code).toBe('INVALID_MESSAGE');
+    });
+
+    it('should send an error message for an unknown connection', async () => {
+      (ConnectionRepository.prototype.getConnection as jest.Mock).mockResolvedValue(null);
+
+      const result = await handler(createMockEvent('subscribe', { action: 'subscribe', game_id: 'game-123' }));
+
+      expect(result.statusCode).toBe(404);
+      expect(sentMessages()[0].error.code).toBe('CONNECTION_NOT_FOUND');
+    });
+  });
+
+  describe('unsubscribe', () => {
+    it('should remove one subscription', async () => {
+      const result = await handler(
+        createMockEvent('unsubscribe', { action: 'unsubscribe', scope: 'league', scope_id: 'league-1' })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(ConnectionRepository.prototype.removeSubscription).toHaveBeenCalledWith('conn-123', {
+        scope: 'league',
+        scope_id: 'league-1',
+      });
+    });
+
+    it('should remove every subscription without a target', async () => {
+      await handler(createMockEvent('unsubscribe', { action: 'unsubscribe' }));
+
+      expect(ConnectionRepository.prototype.removeSubscriptions).toHaveBeenCalledWith('conn-123');
+    });
+  });
+
+  describe('resync', () => {
+    it('should send the game\'s full snapshot', async () => {
+      const result = await handler(
+        createMockEvent('resync', { action: 'resync', game_id: 'game-123', request_id: 'req-3' })
+      );
+
+      expect(result.statusCode).toBe(200);
+      expect(SubscriptionService.prototype.getInitialSnapshots).toHaveBeenCalledWith('tenant-123', {
+        scope: 'game',
+        scope_id: 'game-123',
+      });
+      expect(ConnectionRepository.prototype.addSubscription).not.toHaveBeenCalled();
+      expect(sentMessages()).toEqual([
+        expect.objectContaining({
+          message_type: 'snapshot_update',
+          data: mockSnapshot,
+          request_id: 'req-3',
+        }),
+      ]);
+    });
+
+    it('should send an error message without a game_id', async () => {
+      const result = await handler(createMockEvent('resync', { action: 'resync' }));
+
+      expect(result.statusCode).toBe(400);
+      expect(sentMessages()[0].error.code).toBe('INVALID_MESSAGE');
+    });
+  });
+
+  describe('ping', () => {
+    it('should answer with a pong', async () => {
+      const result = await handler(createMockEvent('ping', { action: 'ping', request_id: 'req-2' }));
+
+      expect(result.statusCode).toBe(200);
+      expect(sentMessages()).toEqual([
+        expect.objectContaining({ message_type: 'pong', request_id: 'req-2' }),
+      ]);
+    });
+  });
+
+  describe('$default', () => {
+    it('should send an error message for an unknown action', async () => {
+      const result = await handler(createMockEvent('$default', { action: 'dance' }));
+
+      expect(result.statusCode).toBe(400);
+      expect(sentMessages()[0].error).toEqual({ code: 'UNKNOWN_ACTION', message: 'Unknown action: dance' });
+    });
+
+    it('should send an error message for a malformed message', async () => {
+      await handler(createMockEvent('$default', 'not json'));
+
+      expect(sentMessages()[0].error.code).toBe('INVALID_MESSAGE');
+    });
+  });
+});
@@ -12,12 +12,13 @@ import {
   handleError,
   withErrorHandling,
   isDatabaseConnectionError,
+  isUniqueViolation,
   DatabaseError,
   ValidationError,
   AuthorizationError,
 } from '../../src/middleware/error-handler';
 import { AuthError, AuthErrorCode } from '../../src/models/auth';
-import { NotFoundError, BadRequestError, ForbiddenError, ServiceUnavailableError } from '../../src/models/errors';
+import { NotFoundError, BadRequestError, ForbiddenError, ConflictError, ServiceUnavailableError } from '../../src/models/errors';
 import { HttpStatus, ErrorCode } from '../../src/models/response';
 
 describe('Error Handler Middleware', () => {
@@ -123,6 +124,20 @@ describe('Error Handler Middleware', () => {
       });
     });
 
+    describe('Conflict Errors (409)', () => {
+      it('should handle ConflictError', () => {
+        const error = new ConflictError('A league named "Metro" already exists');
+        const result = handleError(error, requestId);
+
+        expect(result.statusCode).toBe(HttpStatus.CONFLICT);
+
+        const body = JSON.parse(result.body);
+        expect(body.error.code).toBe(ErrorCode.CONFLICT);
+        expect(body.error.message).toBe('A league named "Metro" already exists');
+        expect(body.error.request_id).toBe(requestId);
+      });
+    });
+
     describe('Validation Errors (400)', () => {
       it('should handle BadRequestError', () => {
         const error = new BadRequestError('Invalid request body');
@@ -387,6 +402,29 @@ describe('Error Handler Middleware', () => {
     });
   });
 
+  describe('isUniqueViolation', () => {
+    it('should detect unique violations by PostgreSQL error code', () => {
+      const error = Object.assign(new Error('duplicate key'), { code: '23505' });
+      expect(isUniqueViolation(error)).toBe(true);
+    });
+
+    it('should match the constraint name when provided', () => {
+      const error = Object.assign(new Error('duplicate key'), {
+        code: '23505',
+        constraint: 'leagues_tenant_name_unique',
+      });
+
+      expect(isUniqueViolation(error, 'leagues_tenant_name_unique')).toBe(true);
+      expect(isUniqueViolation(error, 'teams_league_abbreviation_unique')).toBe(false);
+    });
+
+    it('should not detect other errors', () => {
+      expect(isUniqueViolation(new Error('Some other error'))).toBe(false);
+      expect(isUniqueViolation(Object.assign(new Error('fk'), { code: '23503' }))).toBe(false);
+      expect(isUniqueViolation(undefined)).toBe(false);
+    });
+  });
+
   describe('withErrorHandling', () => {
     it('should return result when function succeeds', async () => {
       const fn = async () => ({ data: 'success' });
@@ -0,0 +1,219 @@
+/**
+ * Bracket Repository Tests
+ *
+ * Unit tests for BracketRepository with multi-tenant isolation validation.
+ */
+
+import { PoolClient } from 'pg';
+import { BracketRepository } from '../../src/repositories/bracket-repository';
+import * as multiTenantIsolation from '../../src/middleware/multi-tenant-isolation';
+import * as database from '../../src/config/database';
+import { BracketFormat, BracketSide } from '../../src/models/bracket';
+import { GameStatus } from '../../src/models/game';
+import { ConflictError } from '../../src/models/errors';
+
+// Mock the multi-tenant isolation middleware and database
+jest.mock('../../src/middleware/multi-tenant-isolation');
+jest.mock('../../src/config/database');
+
+describe('BracketRepository', () => {
+  let repository: BracketRepository;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+  const mockSeasonId = '660e8400-e29b-41d4-a716-446655440001';
+  const mockBracketId = '770e8400-e29b-41d4-a716-446655440002';
+  const mockSeriesId = '880e8400-e29b-41d4-a716-446655440003';
+  const mockHomeTeamId = '990e8400-e29b-41d4-a716-446655440004';
+  const mockAwayTeamId = 'aa0e8400-e29b-41d4-a716-446655440005';
+
+  const mockEnforceMany = multiTenantIsolation.enforceMultiTenantIsolationMany as jest.MockedFunction<
+    typeof multiTenantIsolation.enforceMultiTenantIsolationMany
+  >;
+  const mockEnforceSingle = multiTenantIsolation.enforceMultiTenantIsolationSingle as jest.MockedFunction<
+    typeof multiTenantIsolation.enforceMultiTenantIsolationSingle
+  >;
+  const mockTransaction = database.transaction as jest.MockedFunction<
+    typeof database.transaction
+  >;
+
+  const mockBracketRow = {
+    id: mockBracketId,
+    season_id: mockSeasonId,
+    format: 'single_elimination',
+    best_of: 3,
+    seeds: [mockHomeTeamId, mockAwayTeamId],
+    starts_at: new Date('2024-04-01T18:00:00Z'),
+    game_interval_hours: 48,
+    location: null,
+    created_at: new Date('2024-01-01'),
+    updated_at: new Date('2024-01-01'),
+  };
+
+  const mockSeriesRow = {
+    id: mockSeriesId,
+    bracket_id: mockBracketId,
+    key: 'W1-1',
+    side: BracketSide.WINNERS,
+    round: 1,
+    position: 1,
+    home_source: { type: 'seed' as const, seed: 1 },
+    away_source: { type: 'seed' as const, seed: 2 },
+  };
+
+  beforeEach(() => {
+    repository = new BracketRepository();
+    jest.clearAllMocks();
+  });
+
+  describe('findBySeasonId', () => {
+    it('should return the season\'s bracket with tenant isolation', async () => {
+      mockEnforceSingle.mockResolvedValue(mockBracketRow);
+
+      const result = await repository.findBySeasonId(mockTenantId, mockSeasonId);
+
+      const [tenantId, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('l.tenant_id = $1 AND b.season_id = $2');
+      expect(params).toEqual([mockSeasonId]);
+      expect(result).toMatchObject({
+        id: mockBracketId,
+        format: BracketFormat.SINGLE_ELIMINATION,
+        seeds: [mockHomeTeamId, mockAwayTeamId],
+        location: undefined,
+      });
+    });
+
+    it('should return null when the season has no bracket', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.findBySeasonId(mockTenantId, mockSeasonId);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('findSeries', () => {
+    it('should return series in play order with tenant isolation', async () => {
+      mockEnforceMany.mockResolvedValue([mockSeriesRow]);
+
+      const result = await repository.findSeries(mockTenantId, mockBracketId);
+
+      const [, query, params] = mockEnforceMany.mock.calls[0];
+      expect(query).toContain('l.tenant_id = $1 AND bs.bracket_id = $2');
+      expect(query).toContain('ORDER BY');
+      expect(params).toEqual([mockBracketId]);
+      expect(result).toEqual([mockSeriesRow]);
+    });
+  });
+
+  describe('create', () => {
+    const data = {
+      format: BracketFormat.SINGLE_ELIMINATION,
+      best_of: 3,
+      seeds: [mockHomeTeamId, mockAwayTeamId],
+      starts_at: new Date('2024-04-01T18:00:00Z'),
+      game_interval_hours: 48,
+    };
+    const definition = {
+      key: 'W1-1',
+      side: BracketSide.WINNERS,
+      round: 1,
+      position: 1,
+      home_source: { type: 'seed' as const, seed: 1 },
+      away_source: { type: 'seed' as const, seed: 2 },
+    };
+
+    it('should lock the tenant\'s season and insert the bracket and its series', async () => {
+      const mockClient = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: mockSeasonId }] })
+          .mockResolvedValueOnce({ rows: [mockBracketRow] })
+          .mockResolvedValueOnce({ rows: [mockSeriesRow] }),
+      } as unknown as PoolClient;
+
+      mockTransaction.mockImplementation(async (callback) => callback(mockClient));
+
+      const result = await repository.create(mockTenantId, mockSeasonId, data, [definition]);
+
+      const calls = (mockClient.query as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(3);
+      expect(calls[0][0]).toContain('FOR UPDATE OF s');
+      expect(calls[0][1]).toEqual([mockTenantId, mockSeasonId]);
+      expect(calls[1][0]).toContain('INSERT INTO brackets');
+      expect(calls[1][1]).toEqual([
+        mockSeasonId,
+        BracketFormat.SINGLE_ELIMINATION,
+        3,
+        JSON.stringify([mockHomeTeamId, mockAwayTeamId]),
+        data.starts_at,
+        48,
+        null,
+      ]);
+      expect(calls[2][0]).toContain('INSERT INTO bracket_series');
+      expect(calls[2][1]?.[0]).toBe(mockBracketId);
+      expect(result?.bracket.id).toBe(mockBracketId);
+      expect(result?.series).toEqual([mockSeriesRow]);
+    });
+
+    it('should return null without writing when season is not found for tenant', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [] }),
+      } as unknown as PoolClient;
+
+      mockTransaction.mockImplementation(async (callback) => callback(mockClient));
+
+      const result = await repository.create(mockTenantId, mockSeasonId, data, [definition]);
+
+      expect(result).toBeNull();
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw ConflictError when the season already has a bracket', async () => {
+      mockTransaction.mockRejectedValue(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'brackets_season_id_key',
+        })
+      );
+
+      await expect(
+        repository.create(mockTenantId, mockSeasonId, data, [definition])
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('createGames', () => {
+    it('should skip games whose series game number already exists', async () => {
+      const mockClient = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: mockSeasonId }] })
+          .mockResolvedValueOnce({ rows: [] }),
+      } as unknown as PoolClient;
+
+      mockTransaction.mockImplementation(async (callback) => callback(mockClient));
+
+      const result = await repository.createGames(mockTenantId, mockSeasonId, [
+        {
+          bracket_series_id: mockSeriesId,
+          series_game_number: 2,
+          home_team_id: mockAwayTeamId,
+          away_team_id: mockHomeTeamId,
+          scheduled_at: new Date('2024-04-03T18:00:00Z'),
+        },
+      ]);
+
+      const calls = (mockClient.query as jest.Mock).mock.calls;
+      expect(calls[1][0]).toContain('ON CONFLICT (bracket_series_id, series_game_number) DO NOTHING');
+      expect(calls[1][1]).toEqual([
+        mockSeasonId,
+        mockAwayTeamId,
+        mockHomeTeamId,
+        new Date('2024-04-03T18:00:00Z'),
+        null,
+        GameStatus.SCHEDULED,
+        mockSeriesId,
+        2,
+      ]);
+      expect(result).toEqual([]);
+    });
+  });
+});
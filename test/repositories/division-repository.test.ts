@@ -0,0 +1,188 @@
+/**
+ * Division Repository Tests
+ *
+ * Unit tests for DivisionRepository with multi-tenant isolation validation.
+ */
+
+import { DivisionRepository } from '../../src/repositories/division-repository';
+import * as multiTenantIsolation from '../../src/middleware/multi-tenant-isolation';
+import { ConflictError } from '../../src/models/errors';
+
+// Mock the multi-tenant isolation middleware
+jest.mock('../../src/middleware/multi-tenant-isolation');
+
+describe('DivisionRepository', () => {
+  let repository: DivisionRepository;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+  const mockSeasonId = '660e8400-e29b-41d4-a716-446655440001';
+  const mockConferenceId = '770e8400-e29b-41d4-a716-446655440002';
+  const mockDivisionId = '880e8400-e29b-41d4-a716-446655440003';
+  const mockTeamId = '990e8400-e29b-41d4-a716-446655440004';
+
+  const mockEnforceMany = multiTenantIsolation.enforceMultiTenantIsolationMany as jest.MockedFunction<
+    typeof multiTenantIsolation.enforceMultiTenantIsolationMany
+  >;
+  const mockEnforceSingle = multiTenantIsolation.enforceMultiTenantIsolationSingle as jest.MockedFunction<
+    typeof multiTenantIsolation.enforceMultiTenantIsolationSingle
+  >;
+
+  const mockDivisionRow = {
+    id: mockDivisionId,
+    season_id: mockSeasonId,
+    conference_id: null,
+    name: 'U12',
+    team_ids: [mockTeamId],
+    created_at: new Date('2024-01-01'),
+    updated_at: new Date('2024-01-01'),
+  };
+
+  beforeEach(() => {
+    repository = new DivisionRepository();
+    jest.clearAllMocks();
+  });
+
+  describe('findConferencesBySeasonId', () => {
+    it('should return conferences for a season with tenant isolation', async () => {
+      mockEnforceMany.mockResolvedValue([
+        {
+          id: mockConferenceId,
+          season_id: mockSeasonId,
+          name: 'East',
+          created_at: new Date('2024-01-01'),
+          updated_at: new Date('2024-01-01'),
+        },
+      ]);
+
+      const result = await repository.findConferencesBySeasonId(mockTenantId, mockSeasonId);
+
+      const [tenantId, query, params] = mockEnforceMany.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('INNER JOIN leagues l ON s.league_id = l.id');
+      expect(query).toContain('l.tenant_id = $1 AND c.season_id = $2');
+      expect(params).toEqual([mockSeasonId]);
+      expect(result[0].name).toBe('East');
+    });
+  });
+
+  describe('createConference', () => {
+    it('should insert through the tenant\'s season', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.createConference(mockTenantId, mockSeasonId, { name: 'East' });
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('INSERT INTO conferences');
+      expect(query).toContain('l.tenant_id = $1 AND s.id = $2');
+      expect(params).toEqual([mockSeasonId, 'East']);
+      expect(result).toBeNull();
+    });
+
+    it('should throw ConflictError when the name is taken in the season', async () => {
+      mockEnforceSingle.mockRejectedValue(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'conferences_season_name_unique',
+        })
+      );
+
+      await expect(
+        repository.createConference(mockTenantId, mockSeasonId, { name: 'East' })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('findBySeasonId', () => {
+    it('should return divisions with member team ids', async () => {
+      mockEnforceMany.mockResolvedValue([mockDivisionRow, { ...mockDivisionRow, team_ids: null }]);
+
+      const result = await repository.findBySeasonId(mockTenantId, mockSeasonId);
+
+      const [, query, params] = mockEnforceMany.mock.calls[0];
+      expect(query).toContain('FROM division_teams dt');
+      expect(query).toContain('l.tenant_id = $1 AND d.season_id = $2');
+      expect(params).toEqual([mockSeasonId]);
+      expect(result[0].team_ids).toEqual([mockTeamId]);
+      expect(result[0].conference_id).toBeUndefined();
+      expect(result[1].team_ids).toEqual([]);
+    });
+  });
+
+  describe('create', () => {
+    it('should insert with an optional conference', async () => {
+      mockEnforceSingle.mockResolvedValue({ ...mockDivisionRow, conference_id: mockConferenceId });
+
+      const result = await repository.create(mockTenantId, mockSeasonId, {
+        name: 'U12',
+        conference_id: mockConferenceId,
+      });
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('INSERT INTO divisions');
+      expect(params).toEqual([mockSeasonId, mockConferenceId, 'U12']);
+      expect(result?.conference_id).toBe(mockConferenceId);
+    });
+
+    it('should throw ConflictError when the name is taken in the season', async () => {
+      mockEnforceSingle.mockRejectedValue(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'divisions_season_name_unique',
+        })
+      );
+
+      await expect(
+        repository.create(mockTenantId, mockSeasonId, { name: 'U12' })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('delete', () => {
+    it('should scope the delete to the season and tenant', async () => {
+      mockEnforceSingle.mockResolvedValue({ id: mockDivisionId });
+
+      const result = await repository.delete(mockTenantId, mockSeasonId, mockDivisionId);
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('DELETE FROM divisions d');
+      expect(query).toContain('l.tenant_id = $1 AND d.season_id = $2 AND d.id = $3');
+      expect(params).toEqual([mockSeasonId, mockDivisionId]);
+      expect(result).toBe(true);
+    });
+  });
+
+  describe('assignTeam', () => {
+    it('should only assign teams from the division\'s league and move existing assignments', async () => {
+      mockEnforceSingle.mockResolvedValue({ team_id: mockTeamId });
+
+      const result = await repository.assignTeam(mockTenantId, mockDivisionId, mockTeamId);
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('INNER JOIN teams t ON t.league_id = l.id');
+      expect(query).toContain('ON CONFLICT (season_id, team_id)');
+      expect(query).toContain('DO UPDATE SET division_id = EXCLUDED.division_id');
+      expect(params).toEqual([mockDivisionId, mockTeamId]);
+      expect(result).toBe(true);
+    });
+
+    it('should return false when the division or team is not found for tenant', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.assignTeam(mockTenantId, mockDivisionId, mockTeamId);
+
+      expect(result).toBe(false);
+    });
+  });
+
+  describe('removeTeam', () => {
+    it('should return false when the team is not in the division', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.removeTeam(mockTenantId, mockDivisionId, mockTeamId);
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('DELETE FROM division_teams dt');
+      expect(params).toEqual([mockDivisionId, mockTeamId]);
+      expect(result).toBe(false);
+    });
+  });
+});
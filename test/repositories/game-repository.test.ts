@@ -6,12 +6,15 @@
  * Requirements: 2.1, 5.1, 5.2, 5.3, 5.4, 5.5, 10.3
  */
 
+import { PoolClient } from 'pg';
 import { GameRepository } from '../../src/repositories/game-repository';
 import { GameStatus } from '../../src/models/game';
 import * as multiTenantIsolation from '../../src/middleware/multi-tenant-isolation';
+import * as database from '../../src/config/database';
 
-// Mock the multi-tenant isolation middleware
+// Mock the multi-tenant isolation middleware and database
 jest.mock('../../src/middleware/multi-tenant-isolation');
+jest.mock('../../src/config/database');
 
 describe('GameRepository', () => {
   let repository: GameRepository;
@@ -27,6 +30,9 @@ describe('GameRepository', () => {
   const mockEnforceSingle = multiTenantIsolation.enforceMultiTenantIsolationSingle as jest.MockedFunction<
     typeof multiTenantIsolation.enforceMultiTenantIsolationSingle
   >;
+  const mockTransaction = database.transaction as jest.MockedFunction<
+    typeof database.transaction
+  >;
 
   beforeEach(() => {
     repository = new GameRepository();
@@ -337,4 +343,227 @@ describe('GameRepository', () => {
       expect(query).toContain('l.tenant_id = $1');
     });
   });
+
+  describe('findTeamGamesInRange', () => {
+    it('should query both teams within the range excluding inactive games', async () => {
+      mockEnforceMany.mockResolvedValue([]);
+      const rangeStart = new Date('2024-01-15T15:00:00Z');
+      const rangeEnd = new Date('2024-01-15T21:00:00Z');
+
+      await repository.findTeamGamesInRange(
+        mockTenantId,
+        [mockHomeTeamId, mockAwayTeamId],
+        rangeStart,
+        rangeEnd
+      );
+
+      const [tenantId, query, params] = mockEnforceMany.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('g.home_team_id = ANY($2) OR g.away_team_id = ANY($2)');
+      expect(query).toContain('g.scheduled_at > $3');
+      expect(query).toContain('g.scheduled_at < $4');
+      expect(query).toContain('g.status NOT IN ($5, $6)');
+      expect(query).not.toContain('g.id <>');
+      expect(params).toEqual([
+        [mockHomeTeamId, mockAwayTeamId],
+        rangeStart,
+        rangeEnd,
+        GameStatus.CANCELLED,
+        GameStatus.POSTPONED,
+      ]);
+    });
+
+    it('should exclude the game being rescheduled', async () => {
+      mockEnforceMany.mockResolvedValue([]);
+
+      await repository.findTeamGamesInRange(
+        mockTenantId,
+        [mockHomeTeamId],
+        new Date('2024-01-15T15:00:00Z'),
+        new Date('2024-01-15T21:00:00Z'),
+        mockGameId
+      );
+
+      const [, query, params] = mockEnforceMany.mock.calls[0];
+      expect(query).toContain('g.id <> $7');
+      expect(params?.[5]).toBe(mockGameId);
+    });
+  });
+
+  describe('findLocationGamesInRange', () => {
+    it('should query the tenant\'s games at the location excluding inactive games', async () => {
+      mockEnforceMany.mockResolvedValue([]);
+      const rangeStart = new Date('2024-01-15T15:00:00Z');
+      const rangeEnd = new Date('2024-01-15T21:00:00Z');
+
+      await repository.findLocationGamesInRange(mockTenantId, 'Arena A', rangeStart, rangeEnd);
+
+      const [tenantId, query, params] = mockEnforceMany.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('INNER JOIN leagues l ON s.league_id = l.id');
+      expect(query).toContain('l.tenant_id = $1');
+      expect(query).toContain('g.location = $2');
+      expect(query).toContain('g.status NOT IN ($5, $6)');
+      expect(params).toEqual([
+        'Arena A',
+        rangeStart,
+        rangeEnd,
+        GameStatus.CANCELLED,
+        GameStatus.POSTPONED,
+      ]);
+    });
+  });
+
+  describe('create', () => {
+    it('should insert a scheduled game through the tenant\'s season', async () => {
+      mockEnforceSingle.mockResolvedValue({
+        id: mockGameId,
+        season_id: mockSeasonId,
+        home_team_id: mockHomeTeamId,
+        away_team_id: mockAwayTeamId,
+        scheduled_at: new Date('2024-01-15T18:00:00Z'),
+        status: 'scheduled',
+        home_score: 0,
+        away_score: 0,
+        location: null,
+        created_at: new Date('2024-01-01'),
+        updated_at: new Date('2024-01-01'),
+      });
+
+      const result = await repository.create(mockTenantId, mockSeasonId, {
+        home_team_id: mockHomeTeamId,
+        away_team_id: mockAwayTeamId,
+        scheduled_at: '2024-01-15T18:00:00Z',
+      });
+
+      const [tenantId, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('INSERT INTO games');
+      expect(query).toContain('l.tenant_id = $1 AND s.id = $2');
+      expect(params).toEqual([
+        mockSeasonId,
+        mockHomeTeamId,
+        mockAwayTeamId,
+        '2024-01-15T18:00:00Z',
+        null,
+        GameStatus.SCHEDULED,
+      ]);
+      expect(result?.status).toBe(GameStatus.SCHEDULED);
+    });
+  });
+
+  describe('createMany', () => {
+    const gameRow = (id: string, scheduledAt: string) => ({
+      id,
+      season_id: mockSeasonId,
+      home_team_id: mockHomeTeamId,
+      away_team_id: mockAwayTeamId,
+      scheduled_at: new Date(scheduledAt),
+      status: 'scheduled',
+      home_score: 0,
+      away_score: 0,
+      location: 'Main Arena',
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01'),
+    });
+
+    it('should lock the tenant\'s season and insert every game in one transaction', async () => {
+      const mockClient = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ id: mockSeasonId }] })
+          .mockResolvedValueOnce({ rows: [gameRow('game-1', '2024-01-13T18:00:00Z')] })
+          .mockResolvedValueOnce({ rows: [gameRow('game-2', '2024-01-20T18:00:00Z')] }),
+      } as unknown as PoolClient;
+
+      mockTransaction.mockImplementation(async (callback) => callback(mockClient));
+
+      const result = await repository.createMany(mockTenantId, mockSeasonId, [
+        {
+          home_team_id: mockHomeTeamId,
+          away_team_id: mockAwayTeamId,
+          scheduled_at: '2024-01-13T18:00:00.000Z',
+          location: 'Main Arena',
+        },
+        {
+          home_team_id: mockAwayTeamId,
+          away_team_id: mockHomeTeamId,
+          scheduled_at: '2024-01-20T18:00:00.000Z',
+        },
+      ]);
+
+      const calls = (mockClient.query as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(3);
+      expect(calls[0][0]).toContain('FOR UPDATE OF s');
+      expect(calls[0][0]).toContain('l.tenant_id = $1 AND s.id = $2');
+      expect(calls[0][1]).toEqual([mockTenantId, mockSeasonId]);
+      expect(calls[1][0]).toContain('INSERT INTO games');
+      expect(calls[1][1]).toEqual([
+        mockSeasonId,
+        mockHomeTeamId,
+        mockAwayTeamId,
+        '2024-01-13T18:00:00.000Z',
+        'Main Arena',
+        GameStatus.SCHEDULED,
+      ]);
+      expect(calls[2][1]?.[4]).toBeNull();
+      expect(result?.map(g => g.id)).toEqual(['game-1', 'game-2']);
+    });
+
+    it('should return null without writing when season is not found for tenant', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [] }),
+      } as unknown as PoolClient;
+
+      mockTransaction.mockImplementation(async (callback) => callback(mockClient));
+
+      const result = await repository.createMany(mockTenantId, mockSeasonId, [
+        {
+          home_team_id: mockHomeTeamId,
+          away_team_id: mockAwayTeamId,
+          scheduled_at: '2024-01-13T18:00:00.000Z',
+        },
+      ]);
+
+      expect(result).toBeNull();
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('update', () => {
+    it('should only set provided fields', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.update(mockTenantId, mockGameId, {
+        scheduled_at: '2024-01-16T18:00:00Z',
+        location: null,
+      });
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('UPDATE games g');
+      expect(query).toContain('scheduled_at = $3, location = $4');
+      expect(query).toContain('l.tenant_id = $1 AND g.id = $2');
+      expect(params).toEqual([mockGameId, '2024-01-16T18:00:00Z', null]);
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('advanceUpdateSequence', () => {
+    it('should increment the sequence and return the new value', async () => {
+      mockEnforceSingle.mockResolvedValue({ update_sequence: '8' });
+
+      const result = await repository.advanceUpdateSequence(mockTenantId, mockGameId);
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('SET update_sequence = g.update_sequence + 1');
+      expect(query).toContain('l.tenant_id = $1 AND g.id = $2');
+      expect(params).toEqual([mockGameId]);
+      expect(result).toBe(8);
+    });
+
+    it('should return null for a game outside the tenant', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      await expect(repository.advanceUpdateSequence(mockTenantId, mockGameId)).resolves.toBeNull();
+    });
+  });
 });
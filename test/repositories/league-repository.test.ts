@@ -8,6 +8,7 @@
 
 import { LeagueRepository } from '../../src/repositories/league-repository';
 import { SportType } from '../../src/models/league';
+import { ConflictError } from '../../src/models/errors';
 import * as multiTenantIsolation from '../../src/middleware/multi-tenant-isolation';
 
 // Mock the multi-tenant isolation middleware
@@ -69,6 +70,7 @@ describe('LeagueRepository', () => {
       expect(query).toContain('SELECT');
       expect(query).toContain('FROM leagues');
       expect(query).toContain('WHERE tenant_id = $1');
+      expect(query).toContain('archived_at IS NULL');
       expect(params).toEqual([]);
 
       // Verify the results
@@ -186,6 +188,148 @@ describe('LeagueRepository', () => {
     });
   });
 
+  describe('create', () => {
+    const mockRow = {
+      id: mockLeagueId,
+      tenant_id: mockTenantId,
+      name: 'Summer Basketball League',
+      sport_type: 'basketball',
+      logo_url: null,
+      primary_color: '#0B2545',
+      secondary_color: null,
+      archived_at: null,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01'),
+    };
+
+    it('should insert league scoped to tenant and return it', async () => {
+      mockEnforceSingle.mockResolvedValue(mockRow);
+
+      const league = await repository.create(mockTenantId, {
+        name: 'Summer Basketball League',
+        sport_type: SportType.BASKETBALL,
+        primary_color: '#0B2545',
+      });
+
+      const [tenantId, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('INSERT INTO leagues');
+      expect(query).toContain('RETURNING');
+      expect(params).toEqual(['Summer Basketball League', 'basketball', null, '#0B2545', null, null]);
+
+      expect(league).toMatchObject({
+        id: mockLeagueId,
+        name: 'Summer Basketball League',
+        sport_type: SportType.BASKETBALL,
+        primary_color: '#0B2545',
+        archived_at: undefined,
+      });
+    });
+
+    it('should throw ConflictError on duplicate league name', async () => {
+      mockEnforceSingle.mockRejectedValue(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'idx_leagues_tenant_name_active',
+        })
+      );
+
+      await expect(
+        repository.create(mockTenantId, { name: 'Dup', sport_type: SportType.HOCKEY })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should rethrow other database errors', async () => {
+      mockEnforceSingle.mockRejectedValue(new Error('boom'));
+
+      await expect(
+        repository.create(mockTenantId, { name: 'X', sport_type: SportType.HOCKEY })
+      ).rejects.toThrow('boom');
+    });
+  });
+
+  describe('update', () => {
+    it('should only set provided fields', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      await repository.update(mockTenantId, mockLeagueId, {
+        name: 'Renamed',
+        logo_url: null,
+      });
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('UPDATE leagues');
+      expect(query).toContain('name = $3');
+      expect(query).toContain('logo_url = $4');
+      expect(query).not.toContain('sport_type =');
+      expect(query).toContain('WHERE tenant_id = $1 AND id = $2');
+      expect(params).toEqual([mockLeagueId, 'Renamed', null]);
+    });
+
+    it('should only change sport_type for a league without seasons', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      await repository.update(mockTenantId, mockLeagueId, {
+        name: 'Renamed',
+        sport_type: SportType.RUGBY,
+      });
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('sport_type = $4');
+      expect(query).toMatch(
+        /AND \(sport_type = \$4 OR NOT EXISTS \(SELECT 1 FROM seasons s WHERE s\.league_id = leagues\.id\)\)/
+      );
+      expect(params).toEqual([mockLeagueId, 'Renamed', 'rugby']);
+    });
+
+    it('should return null when league not found', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const league = await repository.update(mockTenantId, mockLeagueId, { name: 'X' });
+
+      expect(league).toBeNull();
+    });
+
+    it('should throw ConflictError when renaming onto an existing name', async () => {
+      mockEnforceSingle.mockRejectedValue(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'idx_leagues_tenant_name_active',
+        })
+      );
+
+      await expect(
+        repository.update(mockTenantId, mockLeagueId, { name: 'Taken' })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('archive', () => {
+    it('should set archived_at without overwriting an existing value', async () => {
+      const archivedAt = new Date('2024-06-01');
+      mockEnforceSingle.mockResolvedValue({
+        id: mockLeagueId,
+        tenant_id: mockTenantId,
+        name: 'Old League',
+        sport_type: 'soccer',
+        logo_url: null,
+        primary_color: null,
+        secondary_color: null,
+        archived_at: archivedAt,
+        created_at: new Date('2024-01-01'),
+        updated_at: archivedAt,
+      });
+
+      const league = await repository.archive(mockTenantId, mockLeagueId);
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('archived_at = COALESCE(archived_at, NOW())');
+      expect(query).toContain('WHERE tenant_id = $1 AND id = $2');
+      expect(params).toEqual([mockLeagueId]);
+      expect(league?.archived_at).toEqual(archivedAt);
+    });
+  });
+
   describe('tenant isolation enforcement', () => {
     it('should enforce tenant isolation for findByTenantId', async () => {
       mockEnforceMany.mockResolvedValue([]);
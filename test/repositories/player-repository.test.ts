@@ -8,6 +8,7 @@
 
 import { PlayerRepository } from '../../src/repositories/player-repository';
 import * as multiTenantIsolation from '../../src/middleware/multi-tenant-isolation';
+import { ConflictError } from '../../src/models/errors';
 
 // Mock the multi-tenant isolation middleware
 jest.mock('../../src/middleware/multi-tenant-isolation');
@@ -242,4 +243,90 @@ describe('PlayerRepository', () => {
       expect(tenantId).toBe(mockTenantId);
     });
   });
+
+  describe('create', () => {
+    it('should insert through the tenant\'s team', async () => {
+      mockEnforceSingle.mockResolvedValue({
+        id: mockPlayerId,
+        team_id: mockTeamId,
+        first_name: 'John',
+        last_name: 'Smith',
+        jersey_number: '23',
+        position: null,
+        created_at: new Date('2024-01-01'),
+        updated_at: new Date('2024-01-01'),
+      });
+
+      const result = await repository.create(mockTenantId, mockTeamId, {
+        first_name: 'John',
+        last_name: 'Smith',
+        jersey_number: '23',
+      });
+
+      const [tenantId, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('INSERT INTO players');
+      expect(query).toContain('l.tenant_id = $1 AND t.id = $2');
+      expect(params).toEqual([mockTeamId, 'John', 'Smith', '23', null]);
+      expect(result?.jersey_number).toBe('23');
+    });
+
+    it('should throw ConflictError when jersey number is taken', async () => {
+      mockEnforceSingle.mockRejectedValue(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'players_team_jersey_unique',
+        })
+      );
+
+      await expect(
+        repository.create(mockTenantId, mockTeamId, {
+          first_name: 'John',
+          last_name: 'Smith',
+          jersey_number: '23',
+        })
+      ).rejects.toThrow('Jersey number 23 is already taken on this team');
+    });
+  });
+
+  describe('update', () => {
+    it('should scope the update to the team and only set provided fields', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      await repository.update(mockTenantId, mockTeamId, mockPlayerId, { jersey_number: '9' });
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('UPDATE players p');
+      expect(query).toContain('jersey_number = $4');
+      expect(query).toContain('l.tenant_id = $1 AND p.team_id = $2 AND p.id = $3');
+      expect(params).toEqual([mockTeamId, mockPlayerId, '9']);
+    });
+
+    it('should throw ConflictError when new jersey number is taken', async () => {
+      mockEnforceSingle.mockRejectedValue(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'players_team_jersey_unique',
+        })
+      );
+
+      await expect(
+        repository.update(mockTenantId, mockTeamId, mockPlayerId, { jersey_number: '9' })
+      ).rejects.toThrow(ConflictError);
+    });
+  });
+
+  describe('delete', () => {
+    it('should delete the player scoped to team and tenant', async () => {
+      mockEnforceSingle.mockResolvedValue({ id: mockPlayerId });
+
+      const result = await repository.delete(mockTenantId, mockTeamId, mockPlayerId);
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('DELETE FROM players p');
+      expect(query).toContain('l.tenant_id = $1 AND p.team_id = $2 AND p.id = $3');
+      expect(params).toEqual([mockTeamId, mockPlayerId]);
+      expect(result).toBe(true);
+    });
+  });
 });
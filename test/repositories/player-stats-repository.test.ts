@@ -0,0 +1,245 @@
+/**
+ * Player Stats Repository Tests
+ * 
+ * Unit tests for PlayerStatsRepository with multi-tenant isolation validation.
+ * Tests cover:
+ * - Finding a game's player stats with the player's name and points, and
+ *   goalie stats for players who played goalie
+ * - Season totals and player game logs over live and final games
+ * - Tenant isolation enforcement
+ */
+
+import { PlayerStatsRepository } from '../../src/repositories/player-stats-repository';
+import * as multiTenantIsolation from '../../src/middleware/multi-tenant-isolation';
+import { GameStatus } from '../../src/models/game';
+
+// Mock the multi-tenant isolation middleware
+jest.mock('../../src/middleware/multi-tenant-isolation');
+
+describe('PlayerStatsRepository', () => {
+  let repository: PlayerStatsRepository;
+  const mockTenantId = '123e4567-e89b-12d3-a456-426614174000';
+  const mockGameId = '223e4567-e89b-12d3-a456-426614174000';
+
+  const mockEnforceMany = multiTenantIsolation.enforceMultiTenantIsolationMany as jest.MockedFunction<
+    typeof multiTenantIsolation.enforceMultiTenantIsolationMany
+  >;
+
+  beforeEach(() => {
+    repository = new PlayerStatsRepository();
+    jest.clearAllMocks();
+  });
+
+  describe('findByGameId', () => {
+    it('should return player stats with points', async () => {
+      mockEnforceMany.mockResolvedValue([
+        {
+          game_id: mockGameId,
+          player_id: 'player-1',
+          team_id: 'team-1',
+          first_name: 'Alex',
+          last_name: 'Morgan',
+          jersey_number: null,
+          goals: 2,
+          assists: 1,
+          shots: 5,
+          penalty_minutes: 2,
+          played_goalie: false,
+          shots_against: 0,
+          goals_against: 0,
+          goalie_seconds: 0,
+          shutout: false,
+        },
+      ]);
+
+      const result = await repository.findByGameId(mockTenantId, mockGameId);
+
+      expect(result).toEqual([
+        {
+          game_id: mockGameId,
+          player_id: 'player-1',
+          team_id: 'team-1',
+          first_name: 'Alex',
+          last_name: 'Morgan',
+          jersey_number: undefined,
+          goals: 2,
+          assists: 1,
+          points: 3,
+          shots: 5,
+          penalty_minutes: 2,
+          goalie: undefined,
+        },
+      ]);
+    });
+
+    it('should return goalie stats for a player who played goalie', async () => {
+      mockEnforceMany.mockResolvedValue([
+        {
+          game_id: mockGameId,
+          player_id: 'goalie-1',
+          team_id: 'team-1',
+          first_name: 'Kim',
+          last_name: 'Lee',
+          jersey_number: '31',
+          goals: 0,
+          assists: 0,
+          shots: 0,
+          penalty_minutes: 0,
+          played_goalie: true,
+          shots_against: 30,
+          goals_against: 0,
+          goalie_seconds: 3600,
+          shutout: true,
+        },
+      ]);
+
+      const [result] = await repository.findByGameId(mockTenantId, mockGameId);
+
+      expect(result.goalie).toEqual({
+        shots_against: 30,
+        goals_against: 0,
+        saves: 30,
+        save_percentage: 1,
+        seconds_played: 3600,
+        goals_against_average: 0,
+        shutout: true,
+      });
+    });
+
+    it('should treat a player named as goalie on a shot as having played goalie', async () => {
+      mockEnforceMany.mockResolvedValue([
+        {
+          game_id: mockGameId,
+          player_id: 'goalie-1',
+          team_id: 'team-1',
+          first_name: 'Kim',
+          last_name: 'Lee',
+          jersey_number: null,
+          goals: 0,
+          assists: 0,
+          shots: 0,
+          penalty_minutes: 0,
+          played_goalie: false,
+          shots_against: 4,
+          goals_against: 1,
+          goalie_seconds: 0,
+          shutout: false,
+        },
+      ]);
+
+      const [result] = await repository.findByGameId(mockTenantId, mockGameId);
+
+      expect(result.goalie).toMatchObject({ saves: 3, save_percentage: 0.75, goals_against_average: null });
+    });
+
+    it('should scope the query to the tenant through the game\'s league', async () => {
+      mockEnforceMany.mockResolvedValue([]);
+
+      await repository.findByGameId(mockTenantId, mockGameId);
+
+      const [tenantId, query, params] = mockEnforceMany.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('WHERE l.tenant_id = $1 AND pgs.game_id = $2');
+      expect(query).toContain('ORDER BY pgs.goals + pgs.assists DESC');
+      expect(query).toContain(`g.status = '${GameStatus.FINAL}'`);
+      expect(params).toEqual([mockGameId]);
+    });
+  });
+
+  describe('findSeasonTotals', () => {
+    it('should return totals with points over live and final games', async () => {
+      mockEnforceMany.mockResolvedValue([
+        {
+          player_id: 'player-1',
+          team_id: 'team-1',
+          first_name: 'Alex',
+          last_name: 'Morgan',
+          jersey_number: '13',
+          games_played: 12,
+          goals: 9,
+          assists: 4,
+          shots: 40,
+          penalty_minutes: 6,
+        },
+      ]);
+
+      const result = await repository.findSeasonTotals(mockTenantId, 'season-1');
+
+      expect(result[0]).toMatchObject({ player_id: 'player-1', jersey_number: '13', points: 13 });
+      const [tenantId, query, params] = mockEnforceMany.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('WHERE l.tenant_id = $1 AND g.season_id = $2 AND g.status = ANY($3)');
+      expect(params).toEqual(['season-1', [GameStatus.LIVE, GameStatus.FINAL]]);
+    });
+
+    it('should count the team\'s games from when the player joined the roster', async () => {
+      mockEnforceMany.mockResolvedValue([]);
+
+      await repository.findSeasonTotals(mockTenantId, 'season-1');
+
+      const [, query] = mockEnforceMany.mock.calls[0];
+      expect(query).toContain('COUNT(pg.game_id)::int AS games_played');
+      expect(query).toContain('p.team_id IN (sg.home_team_id, sg.away_team_id)');
+      expect(query).toContain('WHERE sg.scheduled_at >= p.created_at');
+    });
+  });
+
+  describe('findGameLogByPlayerId', () => {
+    it('should return each game with the opponent from the player\'s side', async () => {
+      mockEnforceMany.mockResolvedValue([
+        {
+          game_id: mockGameId,
+          season_id: 'season-1',
+          scheduled_at: new Date('2024-01-15T19:00:00Z'),
+          status: 'final',
+          home_team_id: 'team-2',
+          away_team_id: 'team-1',
+          team_id: 'team-1',
+          goals: 1,
+          assists: 0,
+          shots: 3,
+          penalty_minutes: 0,
+          played_goalie: false,
+          shots_against: 0,
+          goals_against: 0,
+          goalie_seconds: 0,
+          shutout: false,
+        },
+      ]);
+
+      const result = await repository.findGameLogByPlayerId(mockTenantId, 'player-1');
+
+      expect(result).toEqual([
+        {
+          game_id: mockGameId,
+          season_id: 'season-1',
+          scheduled_at: new Date('2024-01-15T19:00:00Z'),
+          status: GameStatus.FINAL,
+          team_id: 'team-1',
+          opponent_team_id: 'team-2',
+          is_home: false,
+          goals: 1,
+          assists: 0,
+          points: 1,
+          shots: 3,
+          penalty_minutes: 0,
+          goalie: undefined,
+        },
+      ]);
+      const [, query, params] = mockEnforceMany.mock.calls[0];
+      expect(query).toContain('WHERE l.tenant_id = $1 AND p.id = $2');
+      expect(params).toEqual(['player-1', [GameStatus.LIVE, GameStatus.FINAL]]);
+    });
+
+    it('should list the team\'s games from when the player joined the roster', async () => {
+      mockEnforceMany.mockResolvedValue([]);
+
+      await repository.findGameLogByPlayerId(mockTenantId, 'player-1');
+
+      const [, query] = mockEnforceMany.mock.calls[0];
+      expect(query).toContain('pl.team_id IN (g.home_team_id, g.away_team_id)');
+      expect(query).toContain('WHERE g.scheduled_at >= pl.created_at');
+      expect(query).toContain('INNER JOIN player_game_stats pgs ON pgs.player_id = pl.id');
+    });
+  });
+});
@@ -7,11 +7,14 @@
  * Requirements: 3.3, 3.4, 2.1, 10.3
  */
 
+import { PoolClient } from 'pg';
 import { SeasonRepository } from '../../src/repositories/season-repository';
 import * as multiTenantIsolation from '../../src/middleware/multi-tenant-isolation';
+import * as database from '../../src/config/database';
 
-// Mock the multi-tenant isolation middleware
+// Mock the multi-tenant isolation middleware and database
 jest.mock('../../src/middleware/multi-tenant-isolation');
+jest.mock('../../src/config/database');
 
 describe('SeasonRepository', () => {
   let repository: SeasonRepository;
@@ -25,6 +28,21 @@ describe('SeasonRepository', () => {
   const mockEnforceSingle = multiTenantIsolation.enforceMultiTenantIsolationSingle as jest.MockedFunction<
     typeof multiTenantIsolation.enforceMultiTenantIsolationSingle
   >;
+  const mockTransaction = database.transaction as jest.MockedFunction<
+    typeof database.transaction
+  >;
+
+  const mockSeasonRow = {
+    id: mockSeasonId,
+    league_id: mockLeagueId,
+    name: 'Fall 2024',
+    start_date: new Date('2024-09-01'),
+    end_date: new Date('2024-12-31'),
+    is_active: false,
+    completed_at: null,
+    created_at: new Date('2024-01-01'),
+    updated_at: new Date('2024-01-01'),
+  };
 
   beforeEach(() => {
     repository = new SeasonRepository();
@@ -317,5 +335,193 @@ describe('SeasonRepository', () => {
       expect(tenantId).toBe(mockTenantId);
     });
   });
-});
 
+  describe('findPointsRules', () => {
+    it('should merge season overrides over league rules with tenant isolation', async () => {
+      mockEnforceSingle.mockResolvedValue({ points_rules: { win: 2, overtime_loss: 1 } });
+
+      const result = await repository.findPointsRules(mockTenantId, mockSeasonId);
+
+      const [tenantId, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain("COALESCE(l.points_rules, '{}'::jsonb) || COALESCE(s.points_rules, '{}'::jsonb)");
+      expect(query).toContain('l.tenant_id = $1 AND s.id = $2');
+      expect(params).toEqual([mockSeasonId]);
+      expect(result).toEqual({ win: 2, overtime_loss: 1 });
+    });
+
+    it('should return null when season is not found for tenant', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.findPointsRules(mockTenantId, mockSeasonId);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('findSportType', () => {
+    it('should return the sport of the season\'s league with tenant isolation', async () => {
+      mockEnforceSingle.mockResolvedValue({ sport_type: 'basketball' });
+
+      const result = await repository.findSportType(mockTenantId, mockSeasonId);
+
+      const [tenantId, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('INNER JOIN leagues l ON s.league_id = l.id');
+      expect(query).toContain('l.tenant_id = $1 AND s.id = $2');
+      expect(params).toEqual([mockSeasonId]);
+      expect(result).toBe('basketball');
+    });
+
+    it('should return null when season is not found for tenant', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.findSportType(mockTenantId, mockSeasonId);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('create', () => {
+    it('should insert through the tenant\'s non-archived league', async () => {
+      mockEnforceSingle.mockResolvedValue(mockSeasonRow);
+
+      const result = await repository.create(mockTenantId, mockLeagueId, {
+        name: 'Fall 2024',
+        start_date: '2024-09-01',
+        end_date: '2024-12-31',
+      });
+
+      const [tenantId, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('INSERT INTO seasons');
+      expect(query).toContain('l.tenant_id = $1 AND l.id = $2');
+      expect(query).toContain('l.archived_at IS NULL');
+      expect(params).toEqual([mockLeagueId, 'Fall 2024', '2024-09-01', '2024-12-31', null, null]);
+      expect(result?.is_active).toBe(false);
+      expect(result?.completed_at).toBeUndefined();
+    });
+
+    it('should store the tiebreaker chain as JSON', async () => {
+      mockEnforceSingle.mockResolvedValue({ ...mockSeasonRow, tiebreakers: ['wins', 'goals_for'] });
+
+      const result = await repository.create(mockTenantId, mockLeagueId, {
+        name: 'Fall 2024',
+        start_date: '2024-09-01',
+        end_date: '2024-12-31',
+        tiebreakers: ['wins', 'goals_for'],
+      });
+
+      const [, , params] = mockEnforceSingle.mock.calls[0];
+      expect(params?.[5]).toBe('["wins","goals_for"]');
+      expect(result?.tiebreakers).toEqual(['wins', 'goals_for']);
+    });
+
+    it('should return null when league is not found for tenant', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.create(mockTenantId, mockLeagueId, {
+        name: 'Fall 2024',
+        start_date: '2024-09-01',
+        end_date: '2024-12-31',
+      });
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('update', () => {
+    it('should only set provided fields', async () => {
+      mockEnforceSingle.mockResolvedValue({ ...mockSeasonRow, name: 'Autumn 2024' });
+
+      const result = await repository.update(mockTenantId, mockSeasonId, {
+        name: 'Autumn 2024',
+        end_date: '2025-01-15',
+      });
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('UPDATE seasons s');
+      expect(query).toContain('name = $3, end_date = $4');
+      expect(query).toContain('l.tenant_id = $1 AND s.id = $2');
+      expect(query).not.toContain('start_date = $');
+      expect(params).toEqual([mockSeasonId, 'Autumn 2024', '2025-01-15']);
+      expect(result?.name).toBe('Autumn 2024');
+    });
+
+    it('should store a new tiebreaker chain as JSON and clear it with null', async () => {
+      mockEnforceSingle.mockResolvedValue(mockSeasonRow);
+
+      await repository.update(mockTenantId, mockSeasonId, { tiebreakers: ['goal_differential'] });
+      await repository.update(mockTenantId, mockSeasonId, { tiebreakers: null });
+
+      expect(mockEnforceSingle.mock.calls[0][2]).toEqual([mockSeasonId, '["goal_differential"]']);
+      expect(mockEnforceSingle.mock.calls[1][2]).toEqual([mockSeasonId, null]);
+    });
+  });
+
+  describe('activate', () => {
+    it('should lock the league, deactivate other seasons and activate this one', async () => {
+      const mockClient = {
+        query: jest.fn()
+          .mockResolvedValueOnce({ rows: [{ league_id: mockLeagueId }] })
+          .mockResolvedValueOnce({ rows: [], rowCount: 1 })
+          .mockResolvedValueOnce({ rows: [{ ...mockSeasonRow, is_active: true }] }),
+      } as unknown as PoolClient;
+
+      mockTransaction.mockImplementation(async (callback) => callback(mockClient));
+
+      const result = await repository.activate(mockTenantId, mockSeasonId);
+
+      const calls = (mockClient.query as jest.Mock).mock.calls;
+      expect(calls).toHaveLength(3);
+      expect(calls[0][0]).toContain('FOR UPDATE OF l');
+      expect(calls[0][0]).toContain('l.tenant_id = $1');
+      expect(calls[0][1]).toEqual([mockTenantId, mockSeasonId]);
+      expect(calls[1][0]).toContain('SET is_active = false');
+      expect(calls[1][1]).toEqual([mockLeagueId, mockSeasonId]);
+      expect(calls[2][0]).toContain('SET is_active = true');
+      expect(calls[2][1]).toEqual([mockSeasonId]);
+      expect(result?.is_active).toBe(true);
+    });
+
+    it('should return null without writing when season is not found for tenant', async () => {
+      const mockClient = {
+        query: jest.fn().mockResolvedValueOnce({ rows: [] }),
+      } as unknown as PoolClient;
+
+      mockTransaction.mockImplementation(async (callback) => callback(mockClient));
+
+      const result = await repository.activate(mockTenantId, mockSeasonId);
+
+      expect(result).toBeNull();
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('complete', () => {
+    it('should set completed_at and deactivate the season', async () => {
+      const completedAt = new Date('2024-12-31');
+      mockEnforceSingle.mockResolvedValue({ ...mockSeasonRow, completed_at: completedAt });
+
+      const result = await repository.complete(mockTenantId, mockSeasonId);
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('is_active = false');
+      expect(query).toContain('completed_at = NOW()');
+      expect(params).toEqual([mockSeasonId]);
+      expect(result?.completed_at).toEqual(completedAt);
+    });
+  });
+
+  describe('reopen', () => {
+    it('should clear completed_at', async () => {
+      mockEnforceSingle.mockResolvedValue(mockSeasonRow);
+
+      const result = await repository.reopen(mockTenantId, mockSeasonId);
+
+      const [, query] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('completed_at = NULL');
+      expect(result?.completed_at).toBeUndefined();
+    });
+  });
+});
@@ -50,6 +50,8 @@ describe('StandingsRepository', () => {
           wins: 8,
           losses: 2,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 24,
           goals_for: 30,
           goals_against: 10,
@@ -66,6 +68,8 @@ describe('StandingsRepository', () => {
           wins: 5,
           losses: 5,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 15,
           goals_for: 20,
           goals_against: 20,
@@ -130,6 +134,8 @@ describe('StandingsRepository', () => {
         wins: 3,
         losses: 1,
         ties: 1,
+        ot_losses: 0,
+        bonus_points: 0,
         points: 10,
         goals_for: 15,
         goals_against: 8,
@@ -153,6 +159,8 @@ describe('StandingsRepository', () => {
         wins: 3,
         losses: 1,
         ties: 1,
+        ot_losses: 0,
+        bonus_points: 0,
         points: 10,
         goals_for: 15,
         goals_against: 8,
@@ -173,6 +181,8 @@ describe('StandingsRepository', () => {
         wins: 0,
         losses: 0,
         ties: 0,
+        ot_losses: 0,
+        bonus_points: 0,
         points: 0,
         goals_for: 0,
         goals_against: 0,
@@ -211,6 +221,8 @@ describe('StandingsRepository', () => {
           wins: 3,
           losses: 2,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 9,
           goals_for: 12,
           goals_against: 8,
@@ -239,6 +251,8 @@ describe('StandingsRepository', () => {
         3,
         2,
         0,
+        0,
+        0,
         9,
         12,
         8,
@@ -265,6 +279,8 @@ describe('StandingsRepository', () => {
           wins: 7,
           losses: 3,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 21,
           goals_for: 25,
           goals_against: 15,
@@ -303,6 +319,8 @@ describe('StandingsRepository', () => {
           wins: 3,
           losses: 2,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 9,
           goals_for: 12,
           goals_against: 8,
@@ -315,6 +333,8 @@ describe('StandingsRepository', () => {
           wins: 2,
           losses: 3,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 6,
           goals_for: 8,
           goals_against: 12,
@@ -348,6 +368,8 @@ describe('StandingsRepository', () => {
           wins: 0,
           losses: 0,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 0,
           goals_for: 0,
           goals_against: 0,
@@ -361,7 +383,7 @@ describe('StandingsRepository', () => {
 
       // Assert
       const params = (mockClient.query as jest.Mock).mock.calls[0][1];
-      expect(params[10]).toBeNull(); // streak should be null
+      expect(params[12]).toBeNull(); // streak should be null
     });
 
     it('should do nothing when standings array is empty', async () => {
@@ -390,6 +412,8 @@ describe('StandingsRepository', () => {
           wins: 3,
           losses: 2,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 9,
           goals_for: 12,
           goals_against: 8,
@@ -401,4 +425,98 @@ describe('StandingsRepository', () => {
       await expect(repository.upsertStandings(standings)).rejects.toThrow('Database error');
     });
   });
+
+  describe('repairStandings', () => {
+    const standing = (wins: number, points: number, streak?: string): StandingUpsertData => ({
+      season_id: mockSeasonId,
+      team_id: 'team1',
+      games_played: 5,
+      wins,
+      losses: 5 - wins,
+      ties: 0,
+      ot_losses: 0,
+      bonus_points: 0,
+      points,
+      goals_for: 12,
+      goals_against: 8,
+      goal_differential: 4,
+      streak,
+    });
+
+    const clientWith = (...results: { rows: unknown[]; rowCount: number }[]): PoolClient => {
+      const query = jest.fn();
+      results.forEach(result => query.mockResolvedValueOnce(result));
+      const client = { query } as unknown as PoolClient;
+      mockTransaction.mockImplementation(async (callback) => callback(client));
+      return client;
+    };
+
+    it('should update a drifted row only if it still holds the stored values', async () => {
+      const mockClient = clientWith(
+        { rows: [{ id: mockSeasonId }], rowCount: 1 },
+        { rows: [], rowCount: 1 }
+      );
+
+      const result = await repository.repairStandings(mockTenantId, mockSeasonId, [
+        { team_id: 'team1', stored: standing(3, 9, 'W2'), expected: standing(4, 12) },
+      ]);
+
+      const calls = (mockClient.query as jest.Mock).mock.calls;
+      expect(calls[0][0]).toContain('l.tenant_id = $1 AND s.id = $2');
+      expect(calls[0][1]).toEqual([mockTenantId, mockSeasonId]);
+      expect(calls[1][0]).toContain('UPDATE standings');
+      expect(calls[1][0]).toContain('wins IS NOT DISTINCT FROM $15');
+      expect(calls[1][0]).toContain('streak IS NOT DISTINCT FROM $24');
+      expect(calls[1][1]).toEqual([
+        mockSeasonId, 'team1',
+        5, 4, 1, 0, 0, 0, 12, 12, 8, 4, null,
+        5, 3, 2, 0, 0, 0, 9, 12, 8, 4, 'W2',
+      ]);
+      expect(result).toEqual(['team1']);
+    });
+
+    it('should insert missing rows and delete unexpected ones', async () => {
+      const mockClient = clientWith(
+        { rows: [{ id: mockSeasonId }], rowCount: 1 },
+        { rows: [], rowCount: 1 },
+        { rows: [], rowCount: 1 }
+      );
+
+      await repository.repairStandings(mockTenantId, mockSeasonId, [
+        { team_id: 'team1', stored: null, expected: standing(4, 12) },
+        { team_id: 'team2', stored: { ...standing(3, 9), team_id: 'team2' }, expected: null },
+      ]);
+
+      const calls = (mockClient.query as jest.Mock).mock.calls;
+      expect(calls[1][0]).toContain('ON CONFLICT (season_id, team_id) DO NOTHING');
+      expect(calls[1][1]).toEqual([mockSeasonId, 'team1', 5, 4, 1, 0, 0, 0, 12, 12, 8, 4, null]);
+      expect(calls[2][0]).toContain('DELETE FROM standings');
+      expect(calls[2][0]).toContain('points IS NOT DISTINCT FROM $9');
+      expect(calls[2][1]).toEqual([mockSeasonId, 'team2', 5, 3, 2, 0, 0, 0, 9, 12, 8, 4, null]);
+    });
+
+    it('should not report rows changed since the audit read them', async () => {
+      clientWith(
+        { rows: [{ id: mockSeasonId }], rowCount: 1 },
+        { rows: [], rowCount: 0 }
+      );
+
+      const result = await repository.repairStandings(mockTenantId, mockSeasonId, [
+        { team_id: 'team1', stored: standing(3, 9), expected: standing(4, 12) },
+      ]);
+
+      expect(result).toEqual([]);
+    });
+
+    it('should return null without writing when season is not found for tenant', async () => {
+      const mockClient = clientWith({ rows: [], rowCount: 0 });
+
+      const result = await repository.repairStandings(mockTenantId, mockSeasonId, [
+        { team_id: 'team1', stored: null, expected: standing(4, 12) },
+      ]);
+
+      expect(result).toBeNull();
+      expect(mockClient.query).toHaveBeenCalledTimes(1);
+    });
+  });
 });
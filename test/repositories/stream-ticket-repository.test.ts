@@ -0,0 +1,101 @@
+/**
+ * Stream Ticket Repository Tests
+ *
+ * Unit tests for StreamTicketRepository with multi-tenant isolation validation.
+ */
+
+import { StreamTicketRepository } from '../../src/repositories/stream-ticket-repository';
+import * as multiTenantIsolation from '../../src/middleware/multi-tenant-isolation';
+import * as database from '../../src/config/database';
+
+// Mock the multi-tenant isolation middleware and the database
+jest.mock('../../src/middleware/multi-tenant-isolation');
+jest.mock('../../src/config/database');
+
+describe('StreamTicketRepository', () => {
+  let repository: StreamTicketRepository;
+  const mockTenantId = '550e8400-e29b-41d4-a716-446655440000';
+  const mockGameId = '660e8400-e29b-41d4-a716-446655440001';
+
+  const mockEnforceSingle = multiTenantIsolation.enforceMultiTenantIsolationSingle as jest.MockedFunction<
+    typeof multiTenantIsolation.enforceMultiTenantIsolationSingle
+  >;
+  const mockQuery = database.query as jest.MockedFunction<typeof database.query>;
+
+  const mockTicketRow = {
+    ticket: 'a'.repeat(64),
+    tenant_id: mockTenantId,
+    game_id: mockGameId,
+    user_id: 'user-456',
+    roles: ['scorekeeper'],
+    expires_at: new Date('2024-01-15T19:05:00Z'),
+    created_at: new Date('2024-01-15T19:00:00Z'),
+  };
+
+  beforeEach(() => {
+    repository = new StreamTicketRepository();
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [] } as any);
+  });
+
+  describe('create', () => {
+    it('should issue a random ticket for a game in the tenant', async () => {
+      mockEnforceSingle.mockResolvedValue(mockTicketRow);
+
+      const result = await repository.create(mockTenantId, mockGameId, 'user-456', ['scorekeeper'], 300);
+
+      const [tenantId, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('INNER JOIN leagues l ON s.league_id = l.id');
+      expect(query).toContain('WHERE l.tenant_id = $1 AND g.id = $2');
+      expect(params![0]).toBe(mockGameId);
+      expect(params![1]).toMatch(/^[0-9a-f]{64}$/);
+      expect(params!.slice(2)).toEqual(['user-456', ['scorekeeper'], 300]);
+      expect(result).toEqual(mockTicketRow);
+    });
+
+    it('should issue a different ticket each time', async () => {
+      mockEnforceSingle.mockResolvedValue(mockTicketRow);
+
+      await repository.create(mockTenantId, mockGameId, 'user-456', [], 300);
+      await repository.create(mockTenantId, mockGameId, 'user-456', [], 300);
+
+      expect(mockEnforceSingle.mock.calls[0][2]![1]).not.toBe(mockEnforceSingle.mock.calls[1][2]![1]);
+    });
+
+    it('should delete expired tickets', async () => {
+      mockEnforceSingle.mockResolvedValue(mockTicketRow);
+
+      await repository.create(mockTenantId, mockGameId, 'user-456', [], 300);
+
+      expect(mockQuery).toHaveBeenCalledWith('DELETE FROM stream_tickets WHERE expires_at < NOW()');
+    });
+
+    it('should return null for a game outside the tenant', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.create(mockTenantId, mockGameId, 'user-456', [], 300);
+
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('findActive', () => {
+    it('should find an unexpired ticket for the game', async () => {
+      mockQuery.mockResolvedValue({ rows: [mockTicketRow] } as any);
+
+      const result = await repository.findActive(mockTicketRow.ticket, mockGameId);
+
+      const [query, params] = mockQuery.mock.calls[0];
+      expect(query).toContain('expires_at > NOW()');
+      expect(params).toEqual([mockTicketRow.ticket, mockGameId]);
+      expect(result).toEqual(mockTicketRow);
+    });
+
+    it('should return null for an unknown, expired or other game ticket', async () => {
+      const result = await repository.findActive('b'.repeat(64), mockGameId);
+
+      expect(result).toBeNull();
+    });
+  });
+});
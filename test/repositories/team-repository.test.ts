@@ -8,6 +8,7 @@
 
 import { TeamRepository } from '../../src/repositories/team-repository';
 import * as multiTenantIsolation from '../../src/middleware/multi-tenant-isolation';
+import { ConflictError } from '../../src/models/errors';
 
 // Mock the multi-tenant isolation middleware
 jest.mock('../../src/middleware/multi-tenant-isolation');
@@ -240,4 +241,97 @@ describe('TeamRepository', () => {
       expect(tenantId).toBe(mockTenantId);
     });
   });
+
+  describe('create', () => {
+    const mockRow = {
+      id: mockTeamId,
+      tenant_id: mockTenantId,
+      league_id: mockLeagueId,
+      name: 'Lakers',
+      abbreviation: 'LAL',
+      logo_url: null,
+      primary_color: null,
+      secondary_color: null,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01'),
+    };
+
+    it('should insert through the tenant\'s non-archived league', async () => {
+      mockEnforceSingle.mockResolvedValue(mockRow);
+
+      const result = await repository.create(mockTenantId, mockLeagueId, {
+        name: 'Lakers',
+        abbreviation: 'LAL',
+      });
+
+      const [tenantId, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(tenantId).toBe(mockTenantId);
+      expect(query).toContain('INSERT INTO teams');
+      expect(query).toContain('l.tenant_id = $1 AND l.id = $2 AND l.archived_at IS NULL');
+      expect(params).toEqual([mockLeagueId, 'Lakers', 'LAL', null, null, null]);
+      expect(result?.abbreviation).toBe('LAL');
+    });
+
+    it('should throw ConflictError when abbreviation is taken in the league', async () => {
+      mockEnforceSingle.mockRejectedValue(
+        Object.assign(new Error('duplicate key'), {
+          code: '23505',
+          constraint: 'teams_league_abbreviation_unique',
+        })
+      );
+
+      await expect(
+        repository.create(mockTenantId, mockLeagueId, { name: 'Lakers', abbreviation: 'LAL' })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should rethrow other database errors', async () => {
+      const dbError = new Error('Database error');
+      mockEnforceSingle.mockRejectedValue(dbError);
+
+      await expect(
+        repository.create(mockTenantId, mockLeagueId, { name: 'Lakers' })
+      ).rejects.toThrow(dbError);
+    });
+  });
+
+  describe('update', () => {
+    it('should scope the update to the league and only set provided fields', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      await repository.update(mockTenantId, mockLeagueId, mockTeamId, {
+        abbreviation: 'LAK',
+        logo_url: null,
+      });
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('UPDATE teams t');
+      expect(query).toContain('abbreviation = $4, logo_url = $5');
+      expect(query).toContain('l.tenant_id = $1 AND t.league_id = $2 AND t.id = $3');
+      expect(params).toEqual([mockLeagueId, mockTeamId, 'LAK', null]);
+    });
+  });
+
+  describe('delete', () => {
+    it('should skip teams that appear in games', async () => {
+      mockEnforceSingle.mockResolvedValue({ id: mockTeamId });
+
+      const result = await repository.delete(mockTenantId, mockLeagueId, mockTeamId);
+
+      const [, query, params] = mockEnforceSingle.mock.calls[0];
+      expect(query).toContain('DELETE FROM teams t');
+      expect(query).toContain('NOT EXISTS');
+      expect(query).toContain('g.home_team_id = t.id OR g.away_team_id = t.id');
+      expect(params).toEqual([mockLeagueId, mockTeamId]);
+      expect(result).toBe(true);
+    });
+
+    it('should return false when nothing was deleted', async () => {
+      mockEnforceSingle.mockResolvedValue(null);
+
+      const result = await repository.delete(mockTenantId, mockLeagueId, mockTeamId);
+
+      expect(result).toBe(false);
+    });
+  });
 });
@@ -0,0 +1,287 @@
+/**
+ * Bracket Service Tests
+ *
+ * Unit tests for BracketService business logic.
+ * Tests service methods with mocked repositories and standings.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { BracketService } from '../../src/services/bracket-service';
+import { BracketRepository, BracketCreateData } from '../../src/repositories/bracket-repository';
+import { GameRepository } from '../../src/repositories/game-repository';
+import { SeasonRepository } from '../../src/repositories/season-repository';
+import { StandingsService } from '../../src/services/standings-service';
+import {
+  BracketFormat,
+  BracketGameInput,
+  BracketRecord,
+  BracketSeriesDefinition,
+  BracketSeriesRow,
+  CreateBracketInput,
+  SeriesStatus,
+} from '../../src/models/bracket';
+import { Game, GameStatus } from '../../src/models/game';
+import { Season } from '../../src/models/season';
+import { RankedStanding } from '../../src/models/standing';
+import { NotFoundError, BadRequestError } from '../../src/models/errors';
+
+// Mock BracketRepository
+class MockBracketRepository {
+  record: BracketRecord | null = null;
+  series: BracketSeriesRow[] = [];
+  createdGames: BracketGameInput[] = [];
+
+  async findBySeasonId(_tenantId: string, seasonId: string): Promise<BracketRecord | null> {
+    return this.record?.season_id === seasonId ? this.record : null;
+  }
+
+  async findSeries(_tenantId: string, bracketId: string): Promise<BracketSeriesRow[]> {
+    return this.series.filter(s => s.bracket_id === bracketId);
+  }
+
+  async create(
+    _tenantId: string,
+    seasonId: string,
+    data: BracketCreateData,
+    series: BracketSeriesDefinition[]
+  ): Promise<{ bracket: BracketRecord; series: BracketSeriesRow[] } | null> {
+    this.record = {
+      id: 'bracket-1',
+      season_id: seasonId,
+      ...data,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.series = series.map(definition => ({ ...definition, id: definition.key, bracket_id: 'bracket-1' }));
+    return { bracket: this.record, series: this.series };
+  }
+
+  async createGames(_tenantId: string, seasonId: string, inputs: BracketGameInput[]): Promise<Game[] | null> {
+    this.createdGames.push(...inputs);
+    return inputs.map(input => ({
+      id: `${input.bracket_series_id}-g${input.series_game_number}`,
+      season_id: seasonId,
+      home_team_id: input.home_team_id,
+      away_team_id: input.away_team_id,
+      scheduled_at: input.scheduled_at,
+      status: GameStatus.SCHEDULED,
+      home_score: 0,
+      away_score: 0,
+      bracket_series_id: input.bracket_series_id,
+      series_game_number: input.series_game_number,
+      created_at: new Date(),
+      updated_at: new Date(),
+    }));
+  }
+}
+
+// Mock GameRepository
+class MockGameRepository {
+  games: Game[] = [];
+
+  async findBySeasonId(_tenantId: string, seasonId: string): Promise<Game[]> {
+    return this.games.filter(g => g.season_id === seasonId);
+  }
+}
+
+// Mock SeasonRepository
+class MockSeasonRepository {
+  seasons: Season[] = [];
+
+  async findById(_tenantId: string, seasonId: string): Promise<Season | null> {
+    return this.seasons.find(s => s.id === seasonId) || null;
+  }
+}
+
+// Mock StandingsService
+class MockStandingsService {
+  standings: RankedStanding[] = [];
+
+  async getStandingsBySeason(): Promise<RankedStanding[]> {
+    return this.standings;
+  }
+}
+
+describe('BracketService', () => {
+  let bracketService: BracketService;
+  let mockBracketRepository: MockBracketRepository;
+  let mockGameRepository: MockGameRepository;
+  let mockSeasonRepository: MockSeasonRepository;
+  let mockStandingsService: MockStandingsService;
+
+  const tenantId = 'tenant-123';
+  const seasonId = 'season-1';
+
+  const input: CreateBracketInput = {
+    format: BracketFormat.SINGLE_ELIMINATION,
+    starts_at: '2024-04-01T18:00:00Z',
+  };
+
+  const ranked = (teamId: string, rank: number): RankedStanding => ({
+    id: `standing-${rank}`,
+    season_id: seasonId,
+    team_id: teamId,
+    games_played: 10,
+    wins: 10 - rank,
+    losses: rank,
+    ties: 0,
+    ot_losses: 0,
+    bonus_points: 0,
+    points: (10 - rank) * 3,
+    goals_for: 20,
+    goals_against: 15,
+    goal_differential: 5,
+    created_at: new Date(),
+    updated_at: new Date(),
+    rank,
+    tiebreaker: null,
+  });
+
+  const regularGame = (id: string, status: GameStatus): Game => ({
+    id,
+    season_id: seasonId,
+    home_team_id: 'team-a',
+    away_team_id: 'team-b',
+    scheduled_at: new Date('2024-03-01T18:00:00Z'),
+    status,
+    home_score: 0,
+    away_score: 0,
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
+  beforeEach(() => {
+    mockBracketRepository = new MockBracketRepository();
+    mockGameRepository = new MockGameRepository();
+    mockSeasonRepository = new MockSeasonRepository();
+    mockStandingsService = new MockStandingsService();
+
+    mockSeasonRepository.seasons = [
+      {
+        id: seasonId,
+        league_id: 'league-1',
+        name: '2024',
+        start_date: new Date('2024-01-01'),
+        end_date: new Date('2024-12-31'),
+        is_active: true,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    ];
+    mockStandingsService.standings = ['team-a', 'team-b', 'team-c', 'team-d'].map((id, i) => ranked(id, i + 1));
+
+    bracketService = new BracketService(
+      mockBracketRepository as unknown as BracketRepository,
+      mockGameRepository as unknown as GameRepository,
+      mockSeasonRepository as unknown as SeasonRepository,
+      mockStandingsService as unknown as StandingsService
+    );
+  });
+
+  describe('createBracket', () => {
+    it('should seed from ranked standings and create first-round games', async () => {
+      const bracket = await bracketService.createBracket(tenantId, seasonId, { ...input, teams: 4 });
+
+      expect(bracket.seeds).toEqual(['team-a', 'team-b', 'team-c', 'team-d']);
+      expect(bracket.best_of).toBe(1);
+      expect(bracket.game_interval_hours).toBe(24);
+      expect(mockBracketRepository.createdGames.map(g => [g.home_team_id, g.away_team_id])).toEqual([
+        ['team-a', 'team-d'],
+        ['team-b', 'team-c'],
+      ]);
+      expect(bracket.series.find(s => s.key === 'W1-1')?.game_ids).toEqual(['W1-1-g1']);
+    });
+
+    it('should seed only the requested number of teams', async () => {
+      const bracket = await bracketService.createBracket(tenantId, seasonId, { ...input, teams: 3 });
+
+      expect(bracket.seeds).toEqual(['team-a', 'team-b', 'team-c']);
+      expect(bracket.series.find(s => s.key === 'W1-1')?.status).toBe(SeriesStatus.BYE);
+      expect(mockBracketRepository.createdGames).toHaveLength(1);
+    });
+
+    it('should reject while regular season games are unfinished', async () => {
+      mockGameRepository.games = [
+        regularGame('game-1', GameStatus.FINAL),
+        regularGame('game-2', GameStatus.SCHEDULED),
+        regularGame('game-3', GameStatus.POSTPONED),
+      ];
+
+      const error = await bracketService.createBracket(tenantId, seasonId, input).catch(e => e);
+
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.details).toEqual({ unfinished_games: 1 });
+    });
+
+    it('should reject more teams than are ranked', async () => {
+      const error = await bracketService
+        .createBracket(tenantId, seasonId, { ...input, teams: 6 })
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.details).toEqual({ teams: 'Only 4 teams are ranked' });
+    });
+
+    it('should require three teams for double elimination', async () => {
+      await expect(
+        bracketService.createBracket(tenantId, seasonId, {
+          ...input,
+          format: BracketFormat.DOUBLE_ELIMINATION,
+          teams: 2,
+        })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should reject invalid input', async () => {
+      await expect(
+        bracketService.createBracket(tenantId, seasonId, { ...input, best_of: 4 })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should throw NotFoundError when the season does not exist', async () => {
+      await expect(
+        bracketService.createBracket(tenantId, 'missing', input)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getBracket', () => {
+    it('should throw NotFoundError when the season has no bracket', async () => {
+      await expect(bracketService.getBracket(tenantId, seasonId)).rejects.toThrow('Bracket not found');
+    });
+  });
+
+  describe('advanceBracket', () => {
+    it('should return null when the season has no bracket', async () => {
+      expect(await bracketService.advanceBracket(tenantId, seasonId)).toBeNull();
+    });
+
+    it('should create the next round once both feeding series are decided', async () => {
+      await bracketService.createBracket(tenantId, seasonId, input);
+      const firstRound = await mockBracketRepository.createGames(
+        tenantId,
+        seasonId,
+        mockBracketRepository.createdGames.splice(0)
+      );
+      mockGameRepository.games = firstRound!.map(game => ({
+        ...game,
+        status: GameStatus.FINAL,
+        home_score: 1,
+        away_score: game.home_team_id === 'team-a' ? 0 : 2,
+      }));
+      mockBracketRepository.createdGames = [];
+
+      const bracket = await bracketService.advanceBracket(tenantId, seasonId);
+
+      expect(mockBracketRepository.createdGames).toEqual([
+        expect.objectContaining({
+          bracket_series_id: 'W2-1',
+          series_game_number: 1,
+          home_team_id: 'team-a',
+          away_team_id: 'team-c',
+        }),
+      ]);
+      expect(bracket?.series.find(s => s.key === 'W2-1')?.status).toBe(SeriesStatus.ACTIVE);
+    });
+  });
+});
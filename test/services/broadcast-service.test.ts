@@ -0,0 +1,155 @@
+/**
+ * Broadcast Service Tests
+ *
+ * Unit tests for BroadcastService fan-out.
+ * Tests scope fan-out with a mocked connection repository and message sending.
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { BroadcastService } from '../../src/services/broadcast-service';
+import { ConnectionRepository } from '../../src/repositories/connection-repository';
+import { GameSnapshot, GameSnapshotDelta } from '../../src/models/snapshot';
+import { SubscriptionTarget, WebSocketSubscription } from '../../src/models/websocket';
+
+// Mock ConnectionRepository
+class MockConnectionRepository {
+  subscriptions: WebSocketSubscription[] = [];
+
+  getSubscriptionsByScope = jest.fn(
+    async (target: SubscriptionTarget, tenantId: string): Promise<WebSocketSubscription[]> =>
+      this.subscriptions.filter(
+        s => s.scope === target.scope && s.scope_id === target.scope_id && s.tenant_id === tenantId
+      )
+  );
+
+  removeConnection = jest.fn(async (_connectionId: string): Promise<void> => undefined);
+}
+
+describe('BroadcastService', () => {
+  let broadcastService: BroadcastService;
+  let mockConnectionRepository: MockConnectionRepository;
+  let sendMessage: jest.SpiedFunction<BroadcastService['sendMessage']>;
+
+  const tenantId = 'tenant-123';
+
+  const snapshot: GameSnapshot = {
+    game_id: 'game-1',
+    home_score: 1,
+    away_score: 0,
+    period: 1,
+    clock_seconds: 1200,
+    clock_running: false,
+    active_penalties: [],
+    man_advantage: null,
+    home_shots: 0,
+    away_shots: 0,
+    shots_by_period: [],
+    status: 'in_progress',
+    recent_events: [],
+    sequence: 3,
+    snapshot_version: '1.0',
+    generated_at: '2024-01-15T19:15:00Z',
+  };
+
+  const targets: SubscriptionTarget[] = [
+    { scope: 'game', scope_id: 'game-1' },
+    { scope: 'season', scope_id: 'season-1' },
+    { scope: 'league', scope_id: 'league-1' },
+    { scope: 'team', scope_id: 'team-a' },
+    { scope: 'team', scope_id: 'team-b' },
+  ];
+
+  const subscription = (
+    connectionId: string,
+    target: SubscriptionTarget,
+    subscriptionTenantId = tenantId
+  ): WebSocketSubscription => ({
+    ...target,
+    connection_id: connectionId,
+    scope_key: `${target.scope}#${target.scope_id}`,
+    tenant_id: subscriptionTenantId,
+    subscribed_at: '2024-01-15T19:00:00Z',
+    ttl: 1705431600,
+  });
+
+  beforeEach(() => {
+    mockConnectionRepository = new MockConnectionRepository();
+    broadcastService = new BroadcastService(mockConnectionRepository as unknown as ConnectionRepository);
+    sendMessage = jest.spyOn(broadcastService, 'sendMessage').mockResolvedValue(undefined);
+  });
+
+  describe('broadcastSnapshot', () => {
+    it('should send once to each connection subscribed to any matching scope', async () => {
+      mockConnectionRepository.subscriptions = [
+        subscription('conn-1', { scope: 'game', scope_id: 'game-1' }),
+        subscription('conn-2', { scope: 'league', scope_id: 'league-1' }),
+        subscription('conn-2', { scope: 'team', scope_id: 'team-a' }),
+        subscription('conn-3', { scope: 'team', scope_id: 'team-b' }),
+        subscription('conn-4', { scope: 'season', scope_id: 'season-2' }),
+      ];
+
+      await broadcastService.broadcastSnapshot(tenantId, targets, snapshot, 'snapshot_update');
+
+      expect(mockConnectionRepository.getSubscriptionsByScope).toHaveBeenCalledTimes(5);
+      expect(sendMessage.mock.calls.map(([connectionId]) => connectionId)).toEqual([
+        'conn-1',
+        'conn-2',
+        'conn-3',
+      ]);
+      expect(sendMessage.mock.calls[0][1]).toMatchObject({
+        message_type: 'snapshot_update',
+        data: snapshot,
+      });
+    });
+
+    it('should not send to other tenants\' subscriptions', async () => {
+      mockConnectionRepository.subscriptions = [
+        subscription('conn-1', { scope: 'game', scope_id: 'game-1' }, 'tenant-other'),
+      ];
+
+      await broadcastService.broadcastSnapshot(tenantId, targets, snapshot, 'snapshot_update');
+
+      expect(sendMessage).not.toHaveBeenCalled();
+    });
+
+    it('should remove connections that can no longer be reached', async () => {
+      mockConnectionRepository.subscriptions = [
+        subscription('conn-1', { scope: 'game', scope_id: 'game-1' }),
+        subscription('conn-2', { scope: 'game', scope_id: 'game-1' }),
+      ];
+      sendMessage.mockImplementation(async connectionId => {
+        if (connectionId === 'conn-1') {
+          throw new Error('GoneException');
+        }
+      });
+
+      await broadcastService.broadcastSnapshot(tenantId, targets, snapshot, 'snapshot_update');
+
+      expect(mockConnectionRepository.removeConnection).toHaveBeenCalledTimes(1);
+      expect(mockConnectionRepository.removeConnection).toHaveBeenCalledWith('conn-1');
+    });
+  });
+
+  describe('broadcastDelta', () => {
+    it('should send the delta as a snapshot_delta message', async () => {
+      const delta: GameSnapshotDelta = {
+        game_id: 'game-1',
+        sequence: 4,
+        changes: { home_score: 2 },
+        new_events: [],
+      };
+      mockConnectionRepository.subscriptions = [
+        subscription('conn-1', { scope: 'team', scope_id: 'team-a' }),
+      ];
+
+      await broadcastService.broadcastDelta(tenantId, targets, delta);
+
+      expect(sendMessage).toHaveBeenCalledTimes(1);
+      expect(sendMessage.mock.calls[0][1]).toMatchObject({
+        message_type: 'snapshot_delta',
+        delta,
+      });
+      expect(sendMessage.mock.calls[0][1].data).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,275 @@
+/**
+ * Division Service Tests
+ *
+ * Unit tests for DivisionService business logic.
+ * Tests service methods with mocked repositories.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { DivisionService } from '../../src/services/division-service';
+import { DivisionRepository } from '../../src/repositories/division-repository';
+import { SeasonRepository } from '../../src/repositories/season-repository';
+import {
+  Conference,
+  Division,
+  CreateConferenceInput,
+  CreateDivisionInput,
+} from '../../src/models/division';
+import { Season } from '../../src/models/season';
+import { NotFoundError, BadRequestError } from '../../src/models/errors';
+
+const CONFERENCE_ID = '770e8400-e29b-41d4-a716-446655440002';
+const LEAGUE_TEAM_ID = '990e8400-e29b-41d4-a716-446655440004';
+const OTHER_LEAGUE_TEAM_ID = 'aa0e8400-e29b-41d4-a716-446655440005';
+
+// Mock DivisionRepository
+class MockDivisionRepository {
+  conferences: Conference[] = [];
+  divisions: Division[] = [];
+
+  async findConferencesBySeasonId(_tenantId: string, seasonId: string): Promise<Conference[]> {
+    return this.conferences.filter(c => c.season_id === seasonId);
+  }
+
+  async createConference(
+    _tenantId: string,
+    seasonId: string,
+    input: CreateConferenceInput
+  ): Promise<Conference | null> {
+    const conference: Conference = {
+      id: `conference-${this.conferences.length + 1}`,
+      season_id: seasonId,
+      name: input.name,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.conferences.push(conference);
+    return conference;
+  }
+
+  async deleteConference(_tenantId: string, seasonId: string, conferenceId: string): Promise<boolean> {
+    const before = this.conferences.length;
+    this.conferences = this.conferences.filter(
+      c => !(c.id === conferenceId && c.season_id === seasonId)
+    );
+    return this.conferences.length < before;
+  }
+
+  async findBySeasonId(_tenantId: string, seasonId: string): Promise<Division[]> {
+    return this.divisions.filter(d => d.season_id === seasonId);
+  }
+
+  async findById(_tenantId: string, divisionId: string): Promise<Division | null> {
+    const division = this.divisions.find(d => d.id === divisionId);
+    return division ? { ...division, team_ids: [...division.team_ids] } : null;
+  }
+
+  async create(
+    _tenantId: string,
+    seasonId: string,
+    input: CreateDivisionInput
+  ): Promise<Division | null> {
+    const division: Division = {
+      id: `division-${this.divisions.length + 1}`,
+      season_id: seasonId,
+      conference_id: input.conference_id,
+      name: input.name,
+      team_ids: [],
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.divisions.push(division);
+    return division;
+  }
+
+  async delete(_tenantId: string, seasonId: string, divisionId: string): Promise<boolean> {
+    const before = this.divisions.length;
+    this.divisions = this.divisions.filter(
+      d => !(d.id === divisionId && d.season_id === seasonId)
+    );
+    return this.divisions.length < before;
+  }
+
+  async assignTeam(_tenantId: string, divisionId: string, teamId: string): Promise<boolean> {
+    const division = this.divisions.find(d => d.id === divisionId);
+    if (!division || teamId === OTHER_LEAGUE_TEAM_ID) {
+      return false;
+    }
+    for (const other of this.divisions.filter(d => d.season_id === division.season_id)) {
+      other.team_ids = other.team_ids.filter(id => id !== teamId);
+    }
+    division.team_ids.push(teamId);
+    return true;
+  }
+
+  async removeTeam(_tenantId: string, divisionId: string, teamId: string): Promise<boolean> {
+    const division = this.divisions.find(d => d.id === divisionId);
+    if (!division || !division.team_ids.includes(teamId)) {
+      return false;
+    }
+    division.team_ids = division.team_ids.filter(id => id !== teamId);
+    return true;
+  }
+}
+
+// Mock SeasonRepository
+class MockSeasonRepository {
+  seasons: Season[] = [];
+
+  async findById(_tenantId: string, seasonId: string): Promise<Season | null> {
+    return this.seasons.find(s => s.id === seasonId) || null;
+  }
+}
+
+const mockSeason = (id: string, completedAt?: Date): Season => ({
+  id,
+  league_id: 'league-1',
+  name: 'Fall 2024',
+  start_date: new Date('2024-09-01'),
+  end_date: new Date('2024-12-31'),
+  is_active: !completedAt,
+  completed_at: completedAt,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+});
+
+describe('DivisionService', () => {
+  let service: DivisionService;
+  let divisionRepository: MockDivisionRepository;
+  let seasonRepository: MockSeasonRepository;
+
+  beforeEach(() => {
+    divisionRepository = new MockDivisionRepository();
+    seasonRepository = new MockSeasonRepository();
+    seasonRepository.seasons = [
+      mockSeason('season-1'),
+      mockSeason('season-2'),
+      mockSeason('season-done', new Date('2024-12-31')),
+    ];
+    service = new DivisionService(
+      divisionRepository as unknown as DivisionRepository,
+      seasonRepository as unknown as SeasonRepository
+    );
+  });
+
+  describe('createConference', () => {
+    it('should create a conference in the season', async () => {
+      const conference = await service.createConference('tenant-1', 'season-1', { name: 'East' });
+
+      expect(conference.season_id).toBe('season-1');
+      expect(await service.getConferencesBySeason('tenant-1', 'season-1')).toHaveLength(1);
+    });
+
+    it('should reject an invalid body', async () => {
+      await expect(
+        service.createConference('tenant-1', 'season-1', { name: '' })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should throw NotFoundError when the season is not found', async () => {
+      await expect(
+        service.createConference('tenant-1', 'missing-season', { name: 'East' })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject changes to a completed season', async () => {
+      await expect(
+        service.createConference('tenant-1', 'season-done', { name: 'East' })
+      ).rejects.toThrow(BadRequestError);
+    });
+  });
+
+  describe('createDivision', () => {
+    it('should create a division inside a conference of the same season', async () => {
+      divisionRepository.conferences.push({
+        id: CONFERENCE_ID,
+        season_id: 'season-1',
+        name: 'East',
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+
+      const division = await service.createDivision('tenant-1', 'season-1', {
+        name: 'U12',
+        conference_id: CONFERENCE_ID,
+      });
+
+      expect(division.conference_id).toBe(CONFERENCE_ID);
+      expect(division.team_ids).toEqual([]);
+    });
+
+    it('should reject a conference from another season', async () => {
+      divisionRepository.conferences.push({
+        id: CONFERENCE_ID,
+        season_id: 'season-2',
+        name: 'East',
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+
+      await expect(
+        service.createDivision('tenant-1', 'season-1', { name: 'U12', conference_id: CONFERENCE_ID })
+      ).rejects.toMatchObject({
+        details: { conference_id: 'Conference does not belong to this season' },
+      });
+    });
+  });
+
+  describe('removeDivision', () => {
+    it('should throw NotFoundError when the division is not in the season', async () => {
+      await service.createDivision('tenant-1', 'season-2', { name: 'U12' });
+
+      await expect(
+        service.removeDivision('tenant-1', 'season-1', 'division-1')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('assignTeam', () => {
+    it('should add the team and return the updated division', async () => {
+      await service.createDivision('tenant-1', 'season-1', { name: 'U12' });
+
+      const division = await service.assignTeam('tenant-1', 'division-1', { team_id: LEAGUE_TEAM_ID });
+
+      expect(division.team_ids).toEqual([LEAGUE_TEAM_ID]);
+    });
+
+    it('should move a team from another division of the season', async () => {
+      await service.createDivision('tenant-1', 'season-1', { name: 'U12' });
+      await service.createDivision('tenant-1', 'season-1', { name: 'U14' });
+      await service.assignTeam('tenant-1', 'division-1', { team_id: LEAGUE_TEAM_ID });
+
+      const division = await service.assignTeam('tenant-1', 'division-2', { team_id: LEAGUE_TEAM_ID });
+      const divisions = await service.getDivisionsBySeason('tenant-1', 'season-1');
+
+      expect(division.team_ids).toEqual([LEAGUE_TEAM_ID]);
+      expect(divisions.find(d => d.id === 'division-1')?.team_ids).toEqual([]);
+    });
+
+    it('should reject a team from another league', async () => {
+      await service.createDivision('tenant-1', 'season-1', { name: 'U12' });
+
+      await expect(
+        service.assignTeam('tenant-1', 'division-1', { team_id: OTHER_LEAGUE_TEAM_ID })
+      ).rejects.toMatchObject({
+        details: { team_id: 'Team does not belong to this season\'s league' },
+      });
+    });
+
+    it('should throw NotFoundError when the division is not found', async () => {
+      await expect(
+        service.assignTeam('tenant-1', 'missing-division', { team_id: LEAGUE_TEAM_ID })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('removeTeam', () => {
+    it('should throw NotFoundError when the team is not in the division', async () => {
+      await service.createDivision('tenant-1', 'season-1', { name: 'U12' });
+
+      await expect(
+        service.removeTeam('tenant-1', 'division-1', LEAGUE_TEAM_ID)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
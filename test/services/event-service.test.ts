@@ -7,20 +7,20 @@
  * - Game status checks (prevent events on finalized games)
  * - Event persistence to DynamoDB
  * - Game state updates in RDS
- * - Standings recalculation on GAME_FINALIZED
+ * - Bracket advancement on GAME_FINALIZED for playoff games
  */
 
 import { describe, it, expect, beforeEach, jest } from '@jest/globals';
 import { EventService } from '../../src/services/event-service';
 import { GameRepository } from '../../src/repositories/game-repository';
 import { SeasonRepository } from '../../src/repositories/season-repository';
-import { TeamRepository } from '../../src/repositories/team-repository';
-import { StandingsRepository } from '../../src/repositories/standings-repository';
 import { EventRepository } from '../../src/repositories/event-repository';
 import { SnapshotService } from '../../src/services/snapshot-service';
 import { BroadcastService } from '../../src/services/broadcast-service';
-import { EventType, GameEvent, EventMetadata } from '../../src/models/event';
-import { Game, GameStatus } from '../../src/models/game';
+import { BracketService } from '../../src/services/bracket-service';
+import { EventType, GameEvent, EventMetadata, EventPayload } from '../../src/models/event';
+import { ActivePenalty, Game, GameStatus } from '../../src/models/game';
+import { SportType } from '../../src/models/league';
 import { BadRequestError, NotFoundError } from '../../src/models/errors';
 
 // Mock utility modules
@@ -28,38 +28,35 @@ jest.mock('../../src/utils/event-validation');
 jest.mock('../../src/utils/spatial-coordinate-validation');
 jest.mock('../../src/config/dynamodb');
 jest.mock('../../src/utils/apply-event-to-game');
-jest.mock('../../src/utils/standings-calculation');
+jest.mock('../../src/config/database');
 
 import { validateEventPayload } from '../../src/utils/event-validation';
 import { validateSpatialCoordinates } from '../../src/utils/spatial-coordinate-validation';
 import { writeEvent, getEventsByGame } from '../../src/config/dynamodb';
 import { applyEventToGame } from '../../src/utils/apply-event-to-game';
-import { recalculateStandings } from '../../src/utils/standings-calculation';
+import { transaction } from '../../src/config/database';
 
 const mockValidateEventPayload = validateEventPayload as jest.MockedFunction<typeof validateEventPayload>;
 const mockValidateSpatialCoordinates = validateSpatialCoordinates as jest.MockedFunction<typeof validateSpatialCoordinates>;
 const mockWriteEvent = writeEvent as jest.MockedFunction<typeof writeEvent>;
 const mockGetEventsByGame = getEventsByGame as jest.MockedFunction<typeof getEventsByGame>;
 const mockApplyEventToGame = applyEventToGame as jest.MockedFunction<typeof applyEventToGame>;
-const mockRecalculateStandings = recalculateStandings as jest.MockedFunction<typeof recalculateStandings>;
+const mockTransaction = transaction as jest.MockedFunction<typeof transaction>;
 
 // Mock repository classes
 class MockGameRepository {
   findById = jest.fn<(tenantId: string, gameId: string) => Promise<Game | null>>();
   findBySeasonId = jest.fn();
+  advanceUpdateSequence = jest
+    .fn<(tenantId: string, gameId: string) => Promise<number | null>>()
+    .mockResolvedValue(1);
 }
 
 class MockSeasonRepository {
-  findById = jest.fn();
-}
-
-class MockTeamRepository {
-  findByLeagueId = jest.fn();
-}
-
-class MockStandingsRepository {
-  upsertStandings = jest.fn();
-  findBySeasonId = jest.fn();
+  findById = jest.fn<() => Promise<any>>();
+  findPointsRules = jest.fn<() => Promise<any>>();
+  findSportType = jest.fn<(tenantId: string, seasonId: string) => Promise<SportType | null>>()
+    .mockResolvedValue(SportType.HOCKEY);
 }
 
 class MockEventRepository {
@@ -70,22 +67,33 @@ class MockEventRepository {
 class MockSnapshotService {
   generateSnapshot = jest.fn<() => Promise<any>>();
   generateSnapshotFromGame = jest.fn<() => Promise<any>>();
+  describeState = jest.fn((game: Game) => ({
+    home_score: game.home_score,
+    away_score: game.away_score,
+    period: null,
+    clock_seconds: null,
+    status: game.status,
+  }));
 }
 
 class MockBroadcastService {
   broadcastSnapshot = jest.fn<() => Promise<void>>();
+  broadcastDelta = jest.fn<() => Promise<void>>();
   sendSnapshotToConnection = jest.fn<() => Promise<void>>();
 }
 
+class MockBracketService {
+  advanceBracket = jest.fn<() => Promise<any>>();
+}
+
 describe('EventService', () => {
   let eventService: EventService;
   let mockGameRepository: MockGameRepository;
   let mockSeasonRepository: MockSeasonRepository;
-  let mockTeamRepository: MockTeamRepository;
-  let mockStandingsRepository: MockStandingsRepository;
   let mockEventRepository: MockEventRepository;
   let mockSnapshotService: MockSnapshotService;
   let mockBroadcastService: MockBroadcastService;
+  let mockBracketService: MockBracketService;
   
   const tenantId = 'tenant-123';
   const gameId = 'game-456';
@@ -95,11 +103,10 @@ describe('EventService', () => {
     // Create fresh mock instances
     mockGameRepository = new MockGameRepository();
     mockSeasonRepository = new MockSeasonRepository();
-    mockTeamRepository = new MockTeamRepository();
-    mockStandingsRepository = new MockStandingsRepository();
     mockEventRepository = new MockEventRepository();
     mockSnapshotService = new MockSnapshotService();
     mockBroadcastService = new MockBroadcastService();
+    mockBracketService = new MockBracketService();
     
     // Reset all mocks
     jest.clearAllMocks();
@@ -107,11 +114,10 @@ describe('EventService', () => {
     eventService = new EventService(
       mockGameRepository as unknown as GameRepository,
       mockSeasonRepository as unknown as SeasonRepository,
-      mockTeamRepository as unknown as TeamRepository,
-      mockStandingsRepository as unknown as StandingsRepository,
       mockEventRepository as unknown as EventRepository,
       mockSnapshotService as unknown as SnapshotService,
-      mockBroadcastService as unknown as BroadcastService
+      mockBroadcastService as unknown as BroadcastService,
+      mockBracketService as unknown as BracketService
     );
   });
 
@@ -228,16 +234,17 @@ describe('EventService', () => {
 
       expect(result).toEqual(mockEvent);
       expect(mockGameRepository.findById).toHaveBeenCalledWith(tenantId, gameId);
-      expect(mockValidateEventPayload).toHaveBeenCalledWith(EventType.GOAL_SCORED, payload);
+      expect(mockSeasonRepository.findSportType).toHaveBeenCalledWith(tenantId, seasonId);
+      expect(mockValidateEventPayload).toHaveBeenCalledWith(SportType.HOCKEY, EventType.GOAL_SCORED, payload);
       expect(mockWriteEvent).toHaveBeenCalledWith({
         game_id: gameId,
         tenant_id: tenantId,
         event_type: EventType.GOAL_SCORED,
-        payload,
+        payload: { ...payload, points: 1 },
         metadata,
       });
       expect(mockApplyEventToGame).toHaveBeenCalledWith(tenantId, gameId, mockEvent);
-      expect(mockRecalculateStandings).not.toHaveBeenCalled();
+      expect(mockBracketService.advanceBracket).not.toHaveBeenCalled();
     });
 
     it('should throw NotFoundError if game does not exist', async () => {
@@ -324,7 +331,61 @@ describe('EventService', () => {
       ).rejects.toThrow(BadRequestError);
     });
 
-    it('should trigger standings recalculation for GAME_FINALIZED events', async () => {
+    it('should validate the event against the sport of the game\'s league', async () => {
+      const mockGame: Game = {
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.LIVE,
+        home_score: 0,
+        away_score: 0,
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+
+      mockGameRepository.findById.mockResolvedValue(mockGame);
+      mockSeasonRepository.findSportType.mockResolvedValue(SportType.BASKETBALL);
+      const validationError = new BadRequestError('Event type GOAL_SCORED is not valid for basketball games');
+      (validationError as any).code = 'INVALID_EVENT_TYPE_FOR_SPORT';
+      mockValidateEventPayload.mockImplementation(() => {
+        throw validationError;
+      });
+
+      const payload = { team_id: 'team-1', player_id: 'player-1', period: 1, time_remaining: '10:30' };
+
+      await expect(
+        eventService.createEvent(tenantId, gameId, EventType.GOAL_SCORED, payload, metadata)
+      ).rejects.toMatchObject({ code: 'INVALID_EVENT_TYPE_FOR_SPORT' });
+      expect(mockValidateEventPayload).toHaveBeenCalledWith(SportType.BASKETBALL, EventType.GOAL_SCORED, payload);
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
+
+    it('should throw NotFoundError if the game\'s season does not exist', async () => {
+      const mockGame: Game = {
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.LIVE,
+        home_score: 0,
+        away_score: 0,
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+
+      mockGameRepository.findById.mockResolvedValue(mockGame);
+      mockSeasonRepository.findSportType.mockResolvedValue(null);
+
+      await expect(
+        eventService.createEvent(tenantId, gameId, EventType.GAME_STARTED, {}, metadata)
+      ).rejects.toThrow('Season not found');
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
+
+    it('should finalize a regular season game without advancing a bracket', async () => {
       const mockGame: Game = {
         id: gameId,
         season_id: seasonId,
@@ -360,7 +421,6 @@ describe('EventService', () => {
       mockValidateEventPayload.mockReturnValue(undefined);
       mockWriteEvent.mockResolvedValue(mockEvent);
       mockApplyEventToGame.mockResolvedValue(undefined);
-      mockRecalculateStandings.mockResolvedValue(undefined);
 
       const result = await eventService.createEvent(
         tenantId,
@@ -371,17 +431,132 @@ describe('EventService', () => {
       );
 
       expect(result).toEqual(mockEvent);
-      expect(mockRecalculateStandings).toHaveBeenCalledWith(
+      // Standings are updated with the game inside applyEventToGame's transaction
+      expect(mockApplyEventToGame).toHaveBeenCalledWith(tenantId, gameId, mockEvent);
+      expect(mockBracketService.advanceBracket).not.toHaveBeenCalled();
+    });
+
+    it('should reject a tied GAME_FINALIZED when the league does not allow ties', async () => {
+      mockGameRepository.findById.mockResolvedValue({
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.LIVE,
+        home_score: 2,
+        away_score: 2,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+      mockValidateEventPayload.mockReturnValue(undefined);
+      mockSeasonRepository.findPointsRules.mockResolvedValue({ allow_ties: false });
+
+      await expect(
+        eventService.createEvent(
+          tenantId,
+          gameId,
+          EventType.GAME_FINALIZED,
+          { final_home_score: 2, final_away_score: 2 },
+          metadata
+        )
+      ).rejects.toThrow('Ties are not allowed in this league');
+
+      expect(mockSeasonRepository.findPointsRules).toHaveBeenCalledWith(tenantId, seasonId);
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject a tied GAME_FINALIZED decided in overtime', async () => {
+      mockGameRepository.findById.mockResolvedValue({
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.LIVE,
+        home_score: 2,
+        away_score: 2,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+      mockValidateEventPayload.mockReturnValue(undefined);
+
+      await expect(
+        eventService.createEvent(
+          tenantId,
+          gameId,
+          EventType.GAME_FINALIZED,
+          { final_home_score: 2, final_away_score: 2, decided_in: 'overtime' },
+          metadata
+        )
+      ).rejects.toThrow('A game decided in overtime cannot end tied');
+
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
+
+    it('should advance the bracket for a finalized playoff game', async () => {
+      mockGameRepository.findById.mockResolvedValue({
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.LIVE,
+        home_score: 3,
+        away_score: 1,
+        bracket_series_id: 'series-1',
+        series_game_number: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+      mockValidateEventPayload.mockReturnValue(undefined);
+      mockWriteEvent.mockResolvedValue({} as GameEvent);
+      mockApplyEventToGame.mockResolvedValue(undefined);
+      mockBracketService.advanceBracket.mockResolvedValue(null);
+
+      await eventService.createEvent(
         tenantId,
-        seasonId,
-        mockGameRepository,
-        mockStandingsRepository,
-        mockSeasonRepository,
-        mockTeamRepository
+        gameId,
+        EventType.GAME_FINALIZED,
+        { final_home_score: 3, final_away_score: 1 },
+        metadata
       );
+
+      expect(mockBracketService.advanceBracket).toHaveBeenCalledWith(tenantId, seasonId);
+    });
+
+    it('should reject a tied GAME_FINALIZED for a playoff game', async () => {
+      mockGameRepository.findById.mockResolvedValue({
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.LIVE,
+        home_score: 2,
+        away_score: 2,
+        bracket_series_id: 'series-1',
+        series_game_number: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+      mockValidateEventPayload.mockReturnValue(undefined);
+      mockSeasonRepository.findPointsRules.mockResolvedValue({ allow_ties: true });
+
+      await expect(
+        eventService.createEvent(
+          tenantId,
+          gameId,
+          EventType.GAME_FINALIZED,
+          { final_home_score: 2, final_away_score: 2 },
+          metadata
+        )
+      ).rejects.toThrow('Playoff games cannot end tied');
+
+      expect(mockWriteEvent).not.toHaveBeenCalled();
     });
 
-    it('should not trigger standings recalculation for non-GAME_FINALIZED events', async () => {
+    it('should not advance the bracket for non-GAME_FINALIZED events', async () => {
       const mockGame: Game = {
         id: gameId,
         season_id: seasonId,
@@ -423,7 +598,7 @@ describe('EventService', () => {
         metadata
       );
 
-      expect(mockRecalculateStandings).not.toHaveBeenCalled();
+      expect(mockBracketService.advanceBracket).not.toHaveBeenCalled();
     });
 
     it('should write event to DynamoDB with correct parameters', async () => {
@@ -532,6 +707,288 @@ describe('EventService', () => {
 
       expect(mockApplyEventToGame).toHaveBeenCalledWith(tenantId, gameId, mockEvent);
     });
+
+    describe('goalie in net', () => {
+      const gameWithGoalies: Game = {
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.LIVE,
+        home_score: 0,
+        away_score: 0,
+        home_goalie_id: 'goalie-1',
+        away_goalie_id: 'goalie-2',
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+
+      const shot = { team_id: 'team-1', player_id: 'player-1', period: 1, time_remaining: '10:30' };
+
+      beforeEach(() => {
+        mockGameRepository.findById.mockResolvedValue(gameWithGoalies);
+        mockValidateEventPayload.mockReturnValue(undefined);
+        mockWriteEvent.mockImplementation(async params => ({ event_id: 'event-1', ...params }) as GameEvent);
+        mockApplyEventToGame.mockResolvedValue(undefined);
+      });
+
+      it('should name the defending team\'s goalie on a shot that doesn\'t name one', async () => {
+        await eventService.createEvent(tenantId, gameId, EventType.SHOT_ON_GOAL, shot, metadata);
+
+        expect(mockWriteEvent.mock.calls[0][0].payload).toEqual({ ...shot, goalie_id: 'goalie-2' });
+      });
+
+      it('should keep the goalie or empty net a goal names', async () => {
+        await eventService.createEvent(
+          tenantId,
+          gameId,
+          EventType.GOAL_SCORED,
+          { ...shot, team_id: 'team-2', goalie_id: 'goalie-3' },
+          metadata
+        );
+        await eventService.createEvent(
+          tenantId,
+          gameId,
+          EventType.GOAL_SCORED,
+          { ...shot, goalie_id: null },
+          metadata
+        );
+
+        expect(mockWriteEvent.mock.calls[0][0].payload.goalie_id).toBe('goalie-3');
+        expect(mockWriteEvent.mock.calls[1][0].payload.goalie_id).toBeNull();
+      });
+
+      it('should not name a goalie on other events', async () => {
+        const penalty = { ...shot, penalty_type: 'tripping', duration_minutes: 2 };
+
+        await eventService.createEvent(tenantId, gameId, EventType.PENALTY_ASSESSED, penalty, metadata);
+
+        expect(mockWriteEvent.mock.calls[0][0].payload).toEqual(penalty);
+      });
+    });
+
+    describe('scoring points', () => {
+      const touchdown = { team_id: 'team-1', player_id: 'player-1', period: 2, time_remaining: '06:40' };
+
+      beforeEach(() => {
+        mockGameRepository.findById.mockResolvedValue({
+          id: gameId,
+          season_id: seasonId,
+          home_team_id: 'team-1',
+          away_team_id: 'team-2',
+          scheduled_at: new Date(),
+          status: GameStatus.LIVE,
+          home_score: 0,
+          away_score: 0,
+          created_at: new Date(),
+          updated_at: new Date(),
+        });
+        mockSeasonRepository.findSportType.mockResolvedValue(SportType.FOOTBALL);
+        mockValidateEventPayload.mockReturnValue(undefined);
+        mockWriteEvent.mockImplementation(async params => ({ event_id: 'event-1', ...params }) as GameEvent);
+        mockApplyEventToGame.mockResolvedValue(undefined);
+      });
+
+      it('should record a scoring event without points at the sport\'s base value', async () => {
+        await eventService.createEvent(tenantId, gameId, EventType.TOUCHDOWN, touchdown, metadata);
+
+        expect(mockWriteEvent.mock.calls[0][0].payload).toEqual({ ...touchdown, points: 6 });
+      });
+
+      it('should keep the points a scoring event was recorded with', async () => {
+        await eventService.createEvent(tenantId, gameId, EventType.EXTRA_POINT, { ...touchdown, points: 0 }, metadata);
+
+        expect(mockWriteEvent.mock.calls[0][0].payload.points).toBe(0);
+      });
+    });
+  });
+
+  describe('reverseEvent', () => {
+    const metadata: EventMetadata = {
+      user_id: 'user-123',
+      source: 'mobile-app',
+    };
+
+    const game: Game = {
+      id: gameId,
+      season_id: seasonId,
+      home_team_id: 'team-1',
+      away_team_id: 'team-2',
+      scheduled_at: new Date(),
+      status: GameStatus.LIVE,
+      home_score: 14,
+      away_score: 3,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+
+    const scoringEvent = (eventType: EventType, payload: EventPayload): GameEvent => ({
+      event_id: 'event-1',
+      game_id: gameId,
+      tenant_id: tenantId,
+      event_type: eventType,
+      event_version: '1.0',
+      occurred_at: '2024-01-01T10:00:00Z',
+      sort_key: '2024-01-01T10:00:00Z#event-1',
+      payload,
+      metadata,
+      ttl: 1234567890,
+    });
+
+    let mockQuery: jest.Mock<(sql: string, params?: unknown[]) => Promise<any>>;
+
+    beforeEach(() => {
+      mockQuery = jest.fn<(sql: string, params?: unknown[]) => Promise<any>>()
+        .mockResolvedValueOnce({ rows: [game] })
+        .mockResolvedValue({ rows: [] });
+      mockTransaction.mockImplementation(async callback => callback({ query: mockQuery } as any));
+      mockGameRepository.findById.mockResolvedValue(game);
+      mockEventRepository.isEventReversed.mockResolvedValue(false);
+      mockWriteEvent.mockImplementation(async params => ({ event_id: 'event-2', ...params }) as GameEvent);
+      mockSnapshotService.generateSnapshotFromGame.mockResolvedValue({});
+      mockSeasonRepository.findById.mockResolvedValue({ id: seasonId, league_id: 'league-1' });
+    });
+
+    it('should take a scoring event\'s points off the team\'s score', async () => {
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.TOUCHDOWN, { team_id: 'team-1', player_id: 'player-1', points: 7 }),
+      ]);
+
+      await eventService.reverseEvent(tenantId, gameId, 'event-1', metadata);
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('home_score = home_score - $2'), [gameId, 7]);
+      expect(mockWriteEvent.mock.calls[0][0].event_type).toBe(EventType.EVENT_REVERSAL);
+    });
+
+    it('should leave shots to the goal\'s own SHOT_ON_GOAL when reversing a goal', async () => {
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.GOAL_SCORED, { team_id: 'team-2', player_id: 'player-2', points: 1, period: 2 }),
+      ]);
+
+      await eventService.reverseEvent(tenantId, gameId, 'event-1', metadata);
+
+      expect(mockQuery.mock.calls.some(([sql]) => sql.includes('shots_by_period = $1'))).toBe(false);
+    });
+
+    it('should take a rugby try\'s points off the team\'s score', async () => {
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.TRY, { team_id: 'team-1', player_id: 'player-1', points: 5 }),
+      ]);
+
+      await eventService.reverseEvent(tenantId, gameId, 'event-1', metadata);
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('home_score = home_score - $2'), [gameId, 5]);
+    });
+
+    it('should take 1 off the score for goals recorded without points', async () => {
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.GOAL_SCORED, { team_id: 'team-2', player_id: 'player-2' }),
+      ]);
+
+      await eventService.reverseEvent(tenantId, gameId, 'event-1', metadata);
+
+      expect(mockQuery).toHaveBeenCalledWith(expect.stringContaining('away_score = away_score - $2'), [gameId, 1]);
+    });
+
+    it('should not reverse more points than the team has', async () => {
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.TOUCHDOWN, { team_id: 'team-2', player_id: 'player-2', points: 6 }),
+      ]);
+
+      await expect(eventService.reverseEvent(tenantId, gameId, 'event-1', metadata)).rejects.toThrow(
+        'Cannot reverse 6 points: away team score is 3'
+      );
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
+
+    it('should record the reversal once the game state transaction is done', async () => {
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.TOUCHDOWN, { team_id: 'team-1', player_id: 'player-1', points: 7 }),
+      ]);
+
+      const result = await eventService.reverseEvent(tenantId, gameId, 'event-1', metadata);
+
+      const lastQuery = mockQuery.mock.invocationCallOrder[mockQuery.mock.invocationCallOrder.length - 1];
+      expect(mockWriteEvent).toHaveBeenCalledTimes(1);
+      expect(mockWriteEvent.mock.invocationCallOrder[0]).toBeGreaterThan(lastQuery);
+      expect(result.event.event_id).toBe('event-2');
+    });
+
+    it('should not record the reversal when the game state transaction fails', async () => {
+      mockTransaction.mockRejectedValue(new Error('Commit failed'));
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.TOUCHDOWN, { team_id: 'team-1', player_id: 'player-1', points: 7 }),
+      ]);
+
+      await expect(eventService.reverseEvent(tenantId, gameId, 'event-1', metadata)).rejects.toThrow('Commit failed');
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
+
+    it('should put back the penalty a reversed power-play goal released', async () => {
+      const minor: ActivePenalty = {
+        event_id: 'penalty-1',
+        team_id: 'team-2',
+        player_id: 'player-9',
+        penalty_type: 'Tripping',
+        duration_minutes: 2,
+        period: 1,
+        starts_at: 240,
+        expires_at: 360,
+      };
+      const otherGoal = { goal_event_id: 'event-0', penalty: { ...minor, event_id: 'penalty-0' } };
+      mockQuery.mockReset()
+        .mockResolvedValueOnce({
+          rows: [{
+            ...game,
+            active_penalties: [],
+            released_penalties: [otherGoal, { goal_event_id: 'event-1', penalty: minor }],
+          }],
+        })
+        .mockResolvedValue({ rows: [] });
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.GOAL_SCORED, { team_id: 'team-1', player_id: 'player-1', points: 1 }),
+      ]);
+
+      await eventService.reverseEvent(tenantId, gameId, 'event-1', metadata);
+
+      expect(mockQuery.mock.calls[0][0]).toContain('FOR UPDATE OF g');
+      const update = mockQuery.mock.calls.find(([sql]) => sql.includes('active_penalties = $1'));
+      expect(update![0]).toContain('updated_at = NOW()');
+      expect(JSON.parse(update![1]![0] as string)).toEqual([minor]);
+      expect(JSON.parse(update![1]![1] as string)).toEqual([otherGoal]);
+    });
+
+    it('should leave penalties alone when the reversed goal released none', async () => {
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.GOAL_SCORED, { team_id: 'team-1', player_id: 'player-1', points: 1 }),
+      ]);
+
+      await eventService.reverseEvent(tenantId, gameId, 'event-1', metadata);
+
+      expect(mockQuery.mock.calls.some(([sql]) => sql.includes('active_penalties = $1'))).toBe(false);
+    });
+
+    it('should reject reversals once the game is final', async () => {
+      mockGameRepository.findById.mockResolvedValue({ ...game, status: GameStatus.FINAL });
+
+      await expect(eventService.reverseEvent(tenantId, gameId, 'event-1', metadata)).rejects.toMatchObject({
+        code: 'GAME_ALREADY_FINALIZED',
+      });
+      expect(mockGetEventsByGame).not.toHaveBeenCalled();
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
+
+    it('should reject events that can\'t be reversed', async () => {
+      mockGetEventsByGame.mockResolvedValue([
+        scoringEvent(EventType.FOUL, { team_id: 'team-1', player_id: 'player-1', foul_type: 'personal' }),
+      ]);
+
+      await expect(eventService.reverseEvent(tenantId, gameId, 'event-1', metadata)).rejects.toMatchObject({
+        code: 'EVENT_NOT_REVERSIBLE',
+      });
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
   });
 
   describe('createEventWithSnapshot', () => {
@@ -640,7 +1097,7 @@ describe('EventService', () => {
       mockWriteEvent.mockResolvedValue(mockEvent);
       mockApplyEventToGame.mockResolvedValue(undefined);
       mockSnapshotService.generateSnapshotFromGame.mockResolvedValue(mockSnapshot);
-      mockBroadcastService.broadcastSnapshot.mockResolvedValue(undefined);
+      mockBroadcastService.broadcastDelta.mockResolvedValue(undefined);
 
       const result = await eventService.createEventWithSnapshot(
         tenantId,
@@ -653,12 +1110,53 @@ describe('EventService', () => {
       expect(result.event).toEqual(mockEvent);
       expect(result.snapshot).toEqual(mockSnapshot);
       expect(mockValidateSpatialCoordinates).toHaveBeenCalledWith(payload.spatial_coordinates);
-      expect(mockBroadcastService.broadcastSnapshot).toHaveBeenCalledWith(
+      expect(mockGameRepository.advanceUpdateSequence).toHaveBeenCalledWith(tenantId, gameId);
+      expect(mockBroadcastService.broadcastDelta).toHaveBeenCalledWith(
+        tenantId,
+        [
+          { scope: 'game', scope_id: gameId },
+          { scope: 'season', scope_id: seasonId },
+          { scope: 'team', scope_id: 'team-1' },
+          { scope: 'team', scope_id: 'team-2' },
+        ],
+        {
+          game_id: gameId,
+          sequence: 1,
+          changes: { home_score: 1, period: 1, clock_seconds: 630, status: 'in_progress' },
+          new_events: [mockEvent],
+        }
+      );
+    });
+
+    it('should also broadcast to the league of the game\'s season', async () => {
+      const mockGame: Game = {
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.LIVE,
+        home_score: 0,
+        away_score: 0,
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+
+      mockGameRepository.findById.mockResolvedValue(mockGame);
+      mockSeasonRepository.findById.mockResolvedValue({ id: seasonId, league_id: 'league-1' });
+      mockWriteEvent.mockResolvedValue({ event_id: 'event-1' } as GameEvent);
+      mockSnapshotService.generateSnapshotFromGame.mockResolvedValue({ game_id: gameId });
+
+      await eventService.createEventWithSnapshot(
         tenantId,
         gameId,
-        mockSnapshot,
-        'snapshot_update'
+        EventType.GOAL_SCORED,
+        { team_id: 'team-1', period: 1, time_remaining: '10:30' },
+        metadata
       );
+
+      const [, targets] = mockBroadcastService.broadcastDelta.mock.calls[0] as unknown as [string, any[]];
+      expect(targets).toContainEqual({ scope: 'league', scope_id: 'league-1' });
     });
 
     it('should accept events without spatial coordinates for backward compatibility', async () => {
@@ -713,7 +1211,7 @@ describe('EventService', () => {
       mockWriteEvent.mockResolvedValue(mockEvent);
       mockApplyEventToGame.mockResolvedValue(undefined);
       mockSnapshotService.generateSnapshotFromGame.mockResolvedValue(mockSnapshot);
-      mockBroadcastService.broadcastSnapshot.mockResolvedValue(undefined);
+      mockBroadcastService.broadcastDelta.mockResolvedValue(undefined);
 
       const result = await eventService.createEventWithSnapshot(
         tenantId,
@@ -795,6 +1293,7 @@ describe('EventService', () => {
       // Should return existing event, not create a new one
       expect(result.event).toEqual(existingEvent);
       expect(result.snapshot).toEqual(mockSnapshot);
+      expect(result.duplicate).toBe(true);
       
       // Verify idempotency check was called
       expect(mockEventRepository.findByIdempotencyKey).toHaveBeenCalledWith(tenantId, idempotencyKey);
@@ -806,7 +1305,91 @@ describe('EventService', () => {
       expect(mockApplyEventToGame).not.toHaveBeenCalled();
       
       // Verify no broadcast was triggered (event already processed)
-      expect(mockBroadcastService.broadcastSnapshot).not.toHaveBeenCalled();
+      expect(mockBroadcastService.broadcastDelta).not.toHaveBeenCalled();
+    });
+
+    it('should advance the bracket when a finalized playoff game is retried', async () => {
+      const finalizedEvent: GameEvent = {
+        event_id: 'event-final',
+        game_id: gameId,
+        tenant_id: tenantId,
+        event_type: EventType.GAME_FINALIZED,
+        event_version: '1.0',
+        occurred_at: '2024-01-01T12:00:00Z',
+        sort_key: '2024-01-01T12:00:00Z#event-final',
+        payload: { final_home_score: 3, final_away_score: 1 },
+        metadata,
+        ttl: 1234567890,
+        idempotency_key: 'idempotency-key-final',
+      };
+
+      mockEventRepository.findByIdempotencyKey.mockResolvedValue(finalizedEvent);
+      mockGameRepository.findById.mockResolvedValue({
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.FINAL,
+        home_score: 3,
+        away_score: 1,
+        bracket_series_id: 'series-1',
+        series_game_number: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      });
+      mockSnapshotService.generateSnapshotFromGame.mockResolvedValue({});
+      mockBracketService.advanceBracket.mockResolvedValue(null);
+
+      const result = await eventService.createEventWithSnapshot(
+        tenantId,
+        gameId,
+        EventType.GAME_FINALIZED,
+        { final_home_score: 3, final_away_score: 1 },
+        metadata,
+        { idempotency_key: 'idempotency-key-final' }
+      );
+
+      expect(result.duplicate).toBe(true);
+      expect(mockBracketService.advanceBracket).toHaveBeenCalledWith(tenantId, seasonId);
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
+
+    it('should advance the bracket before broadcasting a finalized playoff game', async () => {
+      const playoffGame: Game = {
+        id: gameId,
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date(),
+        status: GameStatus.LIVE,
+        home_score: 3,
+        away_score: 1,
+        bracket_series_id: 'series-1',
+        series_game_number: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      };
+
+      mockGameRepository.findById.mockResolvedValue(playoffGame);
+      mockValidateEventPayload.mockReturnValue(undefined);
+      mockWriteEvent.mockResolvedValue({ event_id: 'event-final' } as GameEvent);
+      mockApplyEventToGame.mockResolvedValue(undefined);
+      mockSnapshotService.generateSnapshotFromGame.mockResolvedValue({});
+      mockBracketService.advanceBracket.mockResolvedValue(null);
+      mockBroadcastService.broadcastDelta.mockRejectedValue(new Error('Subscription query failed'));
+
+      await expect(
+        eventService.createEventWithSnapshot(
+          tenantId,
+          gameId,
+          EventType.GAME_FINALIZED,
+          { final_home_score: 3, final_away_score: 1 },
+          metadata
+        )
+      ).rejects.toThrow('Subscription query failed');
+
+      expect(mockBracketService.advanceBracket).toHaveBeenCalledWith(tenantId, seasonId);
     });
 
     it('should create new event when idempotency_key is not duplicate (Requirement 13.1, 13.3)', async () => {
@@ -865,7 +1448,7 @@ describe('EventService', () => {
       mockWriteEvent.mockResolvedValue(mockEvent);
       mockApplyEventToGame.mockResolvedValue(undefined);
       mockSnapshotService.generateSnapshotFromGame.mockResolvedValue(mockSnapshot);
-      mockBroadcastService.broadcastSnapshot.mockResolvedValue(undefined);
+      mockBroadcastService.broadcastDelta.mockResolvedValue(undefined);
 
       const result = await eventService.createEventWithSnapshot(
         tenantId,
@@ -890,7 +1473,7 @@ describe('EventService', () => {
       expect(mockApplyEventToGame).toHaveBeenCalled();
       
       // Verify broadcast was triggered
-      expect(mockBroadcastService.broadcastSnapshot).toHaveBeenCalled();
+      expect(mockBroadcastService.broadcastDelta).toHaveBeenCalled();
     });
 
     it('should proceed with normal event creation when no idempotency_key is provided', async () => {
@@ -944,7 +1527,7 @@ describe('EventService', () => {
       mockWriteEvent.mockResolvedValue(mockEvent);
       mockApplyEventToGame.mockResolvedValue(undefined);
       mockSnapshotService.generateSnapshotFromGame.mockResolvedValue(mockSnapshot);
-      mockBroadcastService.broadcastSnapshot.mockResolvedValue(undefined);
+      mockBroadcastService.broadcastDelta.mockResolvedValue(undefined);
 
       const result = await eventService.createEventWithSnapshot(
         tenantId,
@@ -964,7 +1547,7 @@ describe('EventService', () => {
       // Verify normal event creation flow
       expect(mockWriteEvent).toHaveBeenCalled();
       expect(mockApplyEventToGame).toHaveBeenCalled();
-      expect(mockBroadcastService.broadcastSnapshot).toHaveBeenCalled();
+      expect(mockBroadcastService.broadcastDelta).toHaveBeenCalled();
     });
 
     it('should throw BadRequestError with INVALID_TIMESTAMP when occurred_at is in the future (Requirement 7.2, 7.4, 9.4)', async () => {
@@ -1027,6 +1610,24 @@ describe('EventService', () => {
       }
     });
 
+    it('should throw BadRequestError with INVALID_TIMESTAMP when occurred_at is not a date-time', async () => {
+      const error = await eventService
+        .createEventWithSnapshot(
+          tenantId,
+          gameId,
+          EventType.GOAL_SCORED,
+          { team_id: 'team-1', player_id: 'player-1' },
+          metadata,
+          { occurred_at: 'yesterday' }
+        )
+        .catch(e => e);
+
+      expect(error).toBeInstanceOf(BadRequestError);
+      expect(error.code).toBe('INVALID_TIMESTAMP');
+      expect(error.details.reason).toBe('Timestamp is not a valid date-time');
+      expect(mockWriteEvent).not.toHaveBeenCalled();
+    });
+
     it('should accept valid occurred_at timestamp within 24 hours (Requirement 7.1, 7.2, 7.3)', async () => {
       const validTimestamp = new Date(Date.now() - 2 * 60 * 60 * 1000).toISOString(); // 2 hours ago
       
@@ -1080,7 +1681,7 @@ describe('EventService', () => {
       mockWriteEvent.mockResolvedValue(mockEvent);
       mockApplyEventToGame.mockResolvedValue(undefined);
       mockSnapshotService.generateSnapshotFromGame.mockResolvedValue(mockSnapshot);
-      mockBroadcastService.broadcastSnapshot.mockResolvedValue(undefined);
+      mockBroadcastService.broadcastDelta.mockResolvedValue(undefined);
 
       const result = await eventService.createEventWithSnapshot(
         tenantId,
@@ -1156,7 +1757,7 @@ describe('EventService', () => {
       mockWriteEvent.mockResolvedValue(mockEvent);
       mockApplyEventToGame.mockResolvedValue(undefined);
       mockSnapshotService.generateSnapshotFromGame.mockResolvedValue(mockSnapshot);
-      mockBroadcastService.broadcastSnapshot.mockResolvedValue(undefined);
+      mockBroadcastService.broadcastDelta.mockResolvedValue(undefined);
 
       const result = await eventService.createEventWithSnapshot(
         tenantId,
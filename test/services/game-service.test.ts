@@ -10,15 +10,26 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { GameService } from '../../src/services/game-service';
 import { GameRepository } from '../../src/repositories/game-repository';
-import { Game, GameStatus, GameFilters } from '../../src/models/game';
-import { NotFoundError } from '../../src/models/errors';
+import { SeasonRepository } from '../../src/repositories/season-repository';
+import { TeamRepository } from '../../src/repositories/team-repository';
+import {
+  Game,
+  GameStatus,
+  GameFilters,
+  CreateGameInput,
+  UpdateGameInput,
+  Weekday,
+} from '../../src/models/game';
+import { Season } from '../../src/models/season';
+import { Team } from '../../src/models/team';
+import { NotFoundError, BadRequestError, ConflictError } from '../../src/models/errors';
 
 // Mock GameRepository
 class MockGameRepository {
   private games: Game[] = [];
 
   setMockGames(games: Game[]) {
-    this.games = games;
+    this.games = games.map(game => ({ ...game }));
   }
 
   async findBySeasonId(
@@ -56,8 +67,147 @@ class MockGameRepository {
     const game = this.games.find(g => g.id === gameId);
     return game || null;
   }
+
+  async findTeamGamesInRange(
+    _tenantId: string,
+    teamIds: string[],
+    rangeStart: Date,
+    rangeEnd: Date,
+    excludeGameId?: string
+  ): Promise<Game[]> {
+    return this.games.filter(
+      game =>
+        game.id !== excludeGameId &&
+        (teamIds.includes(game.home_team_id) || teamIds.includes(game.away_team_id)) &&
+        game.scheduled_at > rangeStart &&
+        game.scheduled_at < rangeEnd &&
+        game.status !== GameStatus.CANCELLED &&
+        game.status !== GameStatus.POSTPONED
+    );
+  }
+
+  async findLocationGamesInRange(
+    _tenantId: string,
+    location: string,
+    rangeStart: Date,
+    rangeEnd: Date
+  ): Promise<Game[]> {
+    return this.games.filter(
+      game =>
+        game.location === location &&
+        game.scheduled_at > rangeStart &&
+        game.scheduled_at < rangeEnd &&
+        game.status !== GameStatus.CANCELLED &&
+        game.status !== GameStatus.POSTPONED
+    );
+  }
+
+  async create(_tenantId: string, seasonId: string, input: CreateGameInput): Promise<Game | null> {
+    const game: Game = {
+      id: `game-${this.games.length + 1}`,
+      season_id: seasonId,
+      home_team_id: input.home_team_id,
+      away_team_id: input.away_team_id,
+      scheduled_at: new Date(input.scheduled_at),
+      status: GameStatus.SCHEDULED,
+      home_score: 0,
+      away_score: 0,
+      location: input.location,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.games.push(game);
+    return game;
+  }
+
+  async createMany(tenantId: string, seasonId: string, inputs: CreateGameInput[]): Promise<Game[] | null> {
+    const games: Game[] = [];
+    for (const input of inputs) {
+      games.push((await this.create(tenantId, seasonId, input))!);
+    }
+    return games;
+  }
+
+  async update(tenantId: string, gameId: string, input: UpdateGameInput): Promise<Game | null> {
+    const game = await this.findById(tenantId, gameId);
+    if (!game) {
+      return null;
+    }
+    if (input.home_team_id !== undefined) game.home_team_id = input.home_team_id;
+    if (input.away_team_id !== undefined) game.away_team_id = input.away_team_id;
+    if (input.scheduled_at !== undefined) game.scheduled_at = new Date(input.scheduled_at);
+    if (input.location !== undefined) game.location = input.location ?? undefined;
+    return game;
+  }
 }
 
+const HOME_TEAM_ID = '11111111-1111-4111-8111-111111111111';
+const AWAY_TEAM_ID = '22222222-2222-4222-8222-222222222222';
+const THIRD_TEAM_ID = '33333333-3333-4333-8333-333333333333';
+const OTHER_LEAGUE_TEAM_ID = '44444444-4444-4444-8444-444444444444';
+
+// Mock SeasonRepository
+const mockSeasons: Season[] = [
+  {
+    id: 'season-1',
+    league_id: 'league-1',
+    name: 'Winter 2024',
+    start_date: new Date('2024-01-01'),
+    end_date: new Date('2024-03-31'),
+    is_active: true,
+    created_at: new Date('2023-12-01'),
+    updated_at: new Date('2023-12-01'),
+  },
+  {
+    id: 'season-2',
+    league_id: 'league-1',
+    name: 'Fall 2023',
+    start_date: new Date('2023-09-01'),
+    end_date: new Date('2023-12-15'),
+    is_active: false,
+    completed_at: new Date('2023-12-16'),
+    created_at: new Date('2023-08-01'),
+    updated_at: new Date('2023-12-16'),
+  },
+  {
+    id: 'season-3',
+    league_id: 'league-2',
+    name: 'Winter 2024',
+    start_date: new Date('2024-01-01'),
+    end_date: new Date('2024-03-31'),
+    is_active: true,
+    created_at: new Date('2023-12-01'),
+    updated_at: new Date('2023-12-01'),
+  },
+];
+
+const mockSeasonRepository = {
+  findById: async (_tenantId: string, seasonId: string) =>
+    mockSeasons.find(season => season.id === seasonId) || null,
+};
+
+// Mock TeamRepository
+const mockTeams: Team[] = [
+  [HOME_TEAM_ID, 'league-1'],
+  [AWAY_TEAM_ID, 'league-1'],
+  [THIRD_TEAM_ID, 'league-1'],
+  [OTHER_LEAGUE_TEAM_ID, 'league-2'],
+].map(([id, leagueId]) => ({
+  id,
+  tenant_id: 'tenant-1',
+  league_id: leagueId,
+  name: `Team ${id.charAt(0)}`,
+  created_at: new Date('2023-12-01'),
+  updated_at: new Date('2023-12-01'),
+}));
+
+const mockTeamRepository = {
+  findById: async (_tenantId: string, teamId: string) =>
+    mockTeams.find(team => team.id === teamId) || null,
+  findByLeagueId: async (_tenantId: string, leagueId: string) =>
+    mockTeams.filter(team => team.league_id === leagueId),
+};
+
 describe('GameService', () => {
   let service: GameService;
   let mockRepository: MockGameRepository;
@@ -119,7 +269,12 @@ describe('GameService', () => {
   beforeEach(() => {
     mockRepository = new MockGameRepository();
     mockRepository.setMockGames([mockGame1, mockGame2, mockGame3, mockGame4]);
-    service = new GameService(mockRepository as unknown as GameRepository);
+    service = new GameService(
+      mockRepository as unknown as GameRepository,
+      mockSeasonRepository as unknown as SeasonRepository,
+      mockTeamRepository as unknown as TeamRepository,
+      120
+    );
   });
 
   describe('getGamesBySeason', () => {
@@ -290,4 +445,304 @@ describe('GameService', () => {
       ).rejects.toThrow('Game not found');
     });
   });
+
+  describe('scheduleGame', () => {
+    const input: CreateGameInput = {
+      home_team_id: HOME_TEAM_ID,
+      away_team_id: AWAY_TEAM_ID,
+      scheduled_at: '2024-02-10T18:00:00Z',
+      location: 'Arena A',
+    };
+
+    it('should schedule a game in the season', async () => {
+      const game = await service.scheduleGame('tenant-1', 'season-1', input);
+
+      expect(game.season_id).toBe('season-1');
+      expect(game.status).toBe(GameStatus.SCHEDULED);
+      expect(game.scheduled_at).toEqual(new Date('2024-02-10T18:00:00Z'));
+    });
+
+    it('should reject a team playing itself', async () => {
+      await expect(
+        service.scheduleGame('tenant-1', 'season-1', { ...input, away_team_id: HOME_TEAM_ID })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should reject a team from a different league', async () => {
+      await expect(
+        service.scheduleGame('tenant-1', 'season-1', { ...input, away_team_id: OTHER_LEAGUE_TEAM_ID })
+      ).rejects.toMatchObject({
+        details: { away_team_id: 'Team does not belong to this season\'s league' },
+      });
+    });
+
+    it('should reject a team booked within the conflict window', async () => {
+      await service.scheduleGame('tenant-1', 'season-1', input);
+
+      await expect(
+        service.scheduleGame('tenant-1', 'season-1', {
+          home_team_id: THIRD_TEAM_ID,
+          away_team_id: AWAY_TEAM_ID,
+          scheduled_at: '2024-02-10T19:30:00Z',
+        })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should allow a team to play again outside the conflict window', async () => {
+      await service.scheduleGame('tenant-1', 'season-1', input);
+
+      const game = await service.scheduleGame('tenant-1', 'season-1', {
+        home_team_id: THIRD_TEAM_ID,
+        away_team_id: AWAY_TEAM_ID,
+        scheduled_at: '2024-02-10T20:00:00Z',
+      });
+
+      expect(game.away_team_id).toBe(AWAY_TEAM_ID);
+    });
+
+    it('should reject scheduling in a completed season', async () => {
+      await expect(
+        service.scheduleGame('tenant-1', 'season-2', input)
+      ).rejects.toThrow('Cannot schedule games in a completed season');
+    });
+
+    it('should throw NotFoundError when season does not exist', async () => {
+      await expect(
+        service.scheduleGame('tenant-1', 'non-existent', input)
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('updateGame', () => {
+    let scheduled: Game;
+
+    beforeEach(async () => {
+      scheduled = await service.scheduleGame('tenant-1', 'season-1', {
+        home_team_id: HOME_TEAM_ID,
+        away_team_id: AWAY_TEAM_ID,
+        scheduled_at: '2024-02-10T18:00:00Z',
+      });
+    });
+
+    it('should reschedule a game without conflicting with itself', async () => {
+      const game = await service.updateGame('tenant-1', scheduled.id, {
+        scheduled_at: '2024-02-10T19:00:00Z',
+      });
+
+      expect(game.scheduled_at).toEqual(new Date('2024-02-10T19:00:00Z'));
+    });
+
+    it('should change location only', async () => {
+      const game = await service.updateGame('tenant-1', scheduled.id, { location: 'Arena C' });
+
+      expect(game.location).toBe('Arena C');
+    });
+
+    it('should reject rescheduling into another game of the same team', async () => {
+      const other = await service.scheduleGame('tenant-1', 'season-1', {
+        home_team_id: THIRD_TEAM_ID,
+        away_team_id: HOME_TEAM_ID,
+        scheduled_at: '2024-02-12T18:00:00Z',
+      });
+
+      await expect(
+        service.updateGame('tenant-1', other.id, { scheduled_at: '2024-02-10T17:00:00Z' })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should reject swapping in a team from another league', async () => {
+      await expect(
+        service.updateGame('tenant-1', scheduled.id, { home_team_id: OTHER_LEAGUE_TEAM_ID })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should reject changes to a final game', async () => {
+      await expect(
+        service.updateGame('tenant-1', 'game-3', { location: 'Arena C' })
+      ).rejects.toThrow('Cannot update a final game');
+    });
+  });
+
+  describe('generateSchedule', () => {
+    const saturdays: Weekday[] = ['saturday'];
+
+    it('should return proposed games without persisting on a dry run', async () => {
+      const schedule = await service.generateSchedule('tenant-1', 'season-1', {
+        start_date: '2024-02-01',
+        weekdays: saturdays,
+        time_slots: ['18:00'],
+        dry_run: true,
+      });
+
+      expect(schedule.dry_run).toBe(true);
+      expect(schedule.rounds).toBe(3);
+      expect(schedule.games).toHaveLength(3);
+      expect(schedule.games.map(g => g.scheduled_at.toISOString())).toEqual([
+        '2024-02-03T18:00:00.000Z',
+        '2024-02-10T18:00:00.000Z',
+        '2024-02-17T18:00:00.000Z',
+      ]);
+      expect(await service.getGamesBySeason('tenant-1', 'season-1')).toHaveLength(3);
+    });
+
+    it('should create every game of a double round-robin', async () => {
+      const schedule = await service.generateSchedule('tenant-1', 'season-1', {
+        format: 'double',
+        start_date: '2024-02-01',
+        weekdays: saturdays,
+        time_slots: ['18:00'],
+        location: 'Arena A',
+      });
+
+      expect(schedule.dry_run).toBe(false);
+      expect(schedule.rounds).toBe(6);
+      expect(schedule.games).toHaveLength(6);
+      expect(schedule.games.every(g => g.location === 'Arena A')).toBe(true);
+      expect(await service.getGamesBySeason('tenant-1', 'season-1')).toHaveLength(9);
+
+      const matchups = schedule.games.map(g => `${g.home_team_id}>${g.away_team_id}`);
+      expect(new Set(matchups).size).toBe(6);
+    });
+
+    it('should default start_date to the season start', async () => {
+      const schedule = await service.generateSchedule('tenant-1', 'season-1', {
+        time_slots: ['18:00'],
+        dry_run: true,
+      });
+
+      expect(schedule.games[0].scheduled_at.toISOString()).toBe('2024-01-01T18:00:00.000Z');
+    });
+
+    it('should reject games that clash with existing games', async () => {
+      await service.scheduleGame('tenant-1', 'season-1', {
+        home_team_id: HOME_TEAM_ID,
+        away_team_id: THIRD_TEAM_ID,
+        scheduled_at: '2024-02-03T17:00:00Z',
+      });
+
+      await expect(
+        service.generateSchedule('tenant-1', 'season-1', {
+          start_date: '2024-02-01',
+          weekdays: saturdays,
+          time_slots: ['18:00'],
+          dry_run: true,
+        })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should reject games that clash with a team\'s game in another season', async () => {
+      mockRepository.setMockGames([
+        {
+          ...mockGame4,
+          id: 'game-5',
+          season_id: 'season-9',
+          home_team_id: HOME_TEAM_ID,
+          away_team_id: OTHER_LEAGUE_TEAM_ID,
+          scheduled_at: new Date('2024-02-03T17:00:00Z'),
+        },
+      ]);
+
+      await expect(
+        service.generateSchedule('tenant-1', 'season-1', {
+          start_date: '2024-02-01',
+          weekdays: saturdays,
+          time_slots: ['18:00'],
+          dry_run: true,
+        })
+      ).rejects.toThrow(`Team ${HOME_TEAM_ID} already has a game within 120 minutes`);
+    });
+
+    it('should reject games at a venue booked by another league', async () => {
+      mockRepository.setMockGames([
+        {
+          ...mockGame4,
+          id: 'game-5',
+          season_id: 'season-3',
+          home_team_id: OTHER_LEAGUE_TEAM_ID,
+          away_team_id: 'team-6',
+          scheduled_at: new Date('2024-02-10T19:00:00Z'),
+          location: 'Arena A',
+        },
+      ]);
+
+      await expect(
+        service.generateSchedule('tenant-1', 'season-1', {
+          start_date: '2024-02-01',
+          weekdays: saturdays,
+          time_slots: ['18:00'],
+          location: 'Arena A',
+          dry_run: true,
+        })
+      ).rejects.toThrow('Arena A already has a game within 120 minutes (game game-5');
+    });
+
+    it('should allow a venue booked outside the conflict window', async () => {
+      mockRepository.setMockGames([
+        {
+          ...mockGame4,
+          id: 'game-5',
+          season_id: 'season-3',
+          home_team_id: OTHER_LEAGUE_TEAM_ID,
+          away_team_id: 'team-6',
+          scheduled_at: new Date('2024-02-10T21:00:00Z'),
+          location: 'Arena A',
+        },
+      ]);
+
+      const schedule = await service.generateSchedule('tenant-1', 'season-1', {
+        start_date: '2024-02-01',
+        weekdays: saturdays,
+        time_slots: ['18:00'],
+        location: 'Arena A',
+        dry_run: true,
+      });
+
+      expect(schedule.games).toHaveLength(3);
+    });
+
+    it('should reject a schedule that does not fit in the season', async () => {
+      await expect(
+        service.generateSchedule('tenant-1', 'season-1', {
+          start_date: '2024-03-20',
+          weekdays: saturdays,
+          time_slots: ['18:00'],
+        })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should reject a start_date outside the season', async () => {
+      await expect(
+        service.generateSchedule('tenant-1', 'season-1', {
+          start_date: '2024-05-01',
+          time_slots: ['18:00'],
+        })
+      ).rejects.toMatchObject({
+        details: { start_date: 'Must be within the season\'s dates' },
+      });
+    });
+
+    it('should reject invalid time slots', async () => {
+      await expect(
+        service.generateSchedule('tenant-1', 'season-1', { time_slots: ['6pm'] })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should require at least two teams', async () => {
+      await expect(
+        service.generateSchedule('tenant-1', 'season-3', { time_slots: ['18:00'] })
+      ).rejects.toThrow('At least two teams are required to generate a schedule');
+    });
+
+    it('should reject generating in a completed season', async () => {
+      await expect(
+        service.generateSchedule('tenant-1', 'season-2', { time_slots: ['18:00'] })
+      ).rejects.toThrow('Cannot schedule games in a completed season');
+    });
+
+    it('should throw NotFoundError when season does not exist', async () => {
+      await expect(
+        service.generateSchedule('tenant-1', 'non-existent', { time_slots: ['18:00'] })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
 });
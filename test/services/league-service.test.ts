@@ -10,17 +10,22 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { LeagueService } from '../../src/services/league-service';
 import { LeagueRepository } from '../../src/repositories/league-repository';
-import { League, SportType } from '../../src/models/league';
-import { NotFoundError } from '../../src/models/errors';
+import { League, SportType, CreateLeagueInput, UpdateLeagueInput } from '../../src/models/league';
+import { NotFoundError, BadRequestError, ConflictError } from '../../src/models/errors';
 
 // Mock LeagueRepository
 class MockLeagueRepository {
   private leagues: League[] = [];
+  private leagueIdsWithSeasons = new Set<string>();
 
   setMockLeagues(leagues: League[]) {
     this.leagues = leagues;
   }
 
+  setLeaguesWithSeasons(leagueIds: string[]) {
+    this.leagueIdsWithSeasons = new Set(leagueIds);
+  }
+
   async findByTenantId(tenantId: string): Promise<League[]> {
     return this.leagues.filter(league => league.tenant_id === tenantId);
   }
@@ -31,6 +36,43 @@ class MockLeagueRepository {
     );
     return league || null;
   }
+
+  async create(tenantId: string, input: CreateLeagueInput): Promise<League> {
+    const league: League = {
+      id: `league-${this.leagues.length + 1}`,
+      tenant_id: tenantId,
+      ...input,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.leagues.push(league);
+    return league;
+  }
+
+  async update(tenantId: string, leagueId: string, input: UpdateLeagueInput): Promise<League | null> {
+    const league = await this.findById(tenantId, leagueId);
+    if (!league) {
+      return null;
+    }
+    if (
+      input.sport_type !== undefined &&
+      input.sport_type !== league.sport_type &&
+      this.leagueIdsWithSeasons.has(leagueId)
+    ) {
+      return null;
+    }
+    Object.assign(league, input);
+    return league;
+  }
+
+  async archive(tenantId: string, leagueId: string): Promise<League | null> {
+    const league = await this.findById(tenantId, leagueId);
+    if (!league) {
+      return null;
+    }
+    league.archived_at = league.archived_at || new Date();
+    return league;
+  }
 }
 
 describe('LeagueService', () => {
@@ -143,4 +185,142 @@ describe('LeagueService', () => {
       ).rejects.toThrow(NotFoundError);
     });
   });
+
+  describe('createLeague', () => {
+    it('should create a league for the tenant', async () => {
+      const league = await service.createLeague('tenant-1', {
+        name: 'Hockey League',
+        sport_type: SportType.HOCKEY,
+        primary_color: '#0B2545',
+      });
+
+      expect(league.tenant_id).toBe('tenant-1');
+      expect(league.name).toBe('Hockey League');
+      expect(league.sport_type).toBe(SportType.HOCKEY);
+    });
+
+    it('should reject an unknown sport_type', async () => {
+      await expect(
+        service.createLeague('tenant-1', {
+          name: 'Curling League',
+          sport_type: 'curling' as SportType,
+        })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should reject a non-hex color', async () => {
+      await expect(
+        service.createLeague('tenant-1', {
+          name: 'Hockey League',
+          sport_type: SportType.HOCKEY,
+          secondary_color: 'blue',
+        })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should store points rules', async () => {
+      const league = await service.createLeague('tenant-1', {
+        name: 'Rugby League',
+        sport_type: SportType.FOOTBALL,
+        points_rules: {
+          win: 4,
+          allow_ties: true,
+          scoring_bonus: { threshold: 4, points: 1 },
+          losing_bonus: { margin: 7, points: 1 },
+        },
+      });
+
+      expect(league.points_rules).toMatchObject({ win: 4, losing_bonus: { margin: 7, points: 1 } });
+    });
+
+    it('should reject invalid points rules', async () => {
+      await expect(
+        service.createLeague('tenant-1', {
+          name: 'Hockey League',
+          sport_type: SportType.HOCKEY,
+          points_rules: { win: -1 },
+        })
+      ).rejects.toThrow(BadRequestError);
+
+      await expect(
+        service.createLeague('tenant-1', {
+          name: 'Hockey League',
+          sport_type: SportType.HOCKEY,
+          points_rules: { shootout_win: 2 } as any,
+        })
+      ).rejects.toThrow(BadRequestError);
+    });
+  });
+
+  describe('updateLeague', () => {
+    it('should update provided fields', async () => {
+      const league = await service.updateLeague('tenant-1', 'league-1', {
+        name: 'Renamed League',
+      });
+
+      expect(league.name).toBe('Renamed League');
+      expect(league.sport_type).toBe(SportType.BASKETBALL);
+    });
+
+    it('should reject an empty update', async () => {
+      await expect(
+        service.updateLeague('tenant-1', 'league-1', {})
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should throw NotFoundError for another tenant\'s league', async () => {
+      await expect(
+        service.updateLeague('tenant-1', 'league-3', { name: 'Mine now' })
+      ).rejects.toThrow(NotFoundError);
+    });
+
+    it('should reject updates to an archived league', async () => {
+      await service.archiveLeague('tenant-1', 'league-1');
+
+      await expect(
+        service.updateLeague('tenant-1', 'league-1', { name: 'Revived' })
+      ).rejects.toThrow('Cannot update an archived league');
+    });
+
+    it('should reject a sport_type change for a league with seasons', async () => {
+      mockRepository.setLeaguesWithSeasons(['league-2']);
+
+      await expect(
+        service.updateLeague('tenant-1', 'league-2', { sport_type: SportType.HOCKEY })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should accept an unchanged sport_type for a league with seasons', async () => {
+      mockRepository.setLeaguesWithSeasons(['league-2']);
+
+      const league = await service.updateLeague('tenant-1', 'league-2', {
+        name: 'Soccer League',
+        sport_type: SportType.SOCCER,
+      });
+
+      expect(league.sport_type).toBe(SportType.SOCCER);
+    });
+
+    it('should change the sport_type of a league without seasons', async () => {
+      const league = await service.updateLeague('tenant-1', 'league-2', {
+        sport_type: SportType.HOCKEY,
+      });
+
+      expect(league.sport_type).toBe(SportType.HOCKEY);
+    });
+  });
+
+  describe('archiveLeague', () => {
+    it('should archive the league', async () => {
+      const league = await service.archiveLeague('tenant-1', 'league-2');
+
+      expect(league.archived_at).toBeInstanceOf(Date);
+    });
+
+    it('should throw NotFoundError when league does not exist', async () => {
+      await expect(
+        service.archiveLeague('tenant-1', 'non-existent')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
 });
@@ -10,15 +10,15 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { PlayerService } from '../../src/services/player-service';
 import { PlayerRepository } from '../../src/repositories/player-repository';
-import { Player } from '../../src/models/player';
-import { NotFoundError } from '../../src/models/errors';
+import { Player, CreatePlayerInput, UpdatePlayerInput } from '../../src/models/player';
+import { NotFoundError, BadRequestError } from '../../src/models/errors';
 
 // Mock PlayerRepository
 class MockPlayerRepository {
   private players: Player[] = [];
 
   setMockPlayers(players: Player[]) {
-    this.players = players;
+    this.players = players.map(player => ({ ...player }));
   }
 
   async findByTeamId(tenantId: string, teamId: string): Promise<Player[]> {
@@ -36,6 +36,45 @@ class MockPlayerRepository {
     });
     return player || null;
   }
+
+  async create(tenantId: string, teamId: string, input: CreatePlayerInput): Promise<Player | null> {
+    if (teamId === 'missing-team') {
+      return null;
+    }
+    const player = {
+      id: `player-${this.players.length + 1}`,
+      team_id: teamId,
+      tenant_id: tenantId,
+      ...input,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.players.push(player);
+    return player;
+  }
+
+  async update(
+    tenantId: string,
+    teamId: string,
+    playerId: string,
+    input: UpdatePlayerInput
+  ): Promise<Player | null> {
+    const player = await this.findById(tenantId, playerId);
+    if (!player || player.team_id !== teamId) {
+      return null;
+    }
+    Object.assign(player, input);
+    return player;
+  }
+
+  async delete(tenantId: string, teamId: string, playerId: string): Promise<boolean> {
+    const player = await this.findById(tenantId, playerId);
+    if (!player || player.team_id !== teamId) {
+      return false;
+    }
+    this.players = this.players.filter(p => p.id !== playerId);
+    return true;
+  }
 }
 
 describe('PlayerService', () => {
@@ -190,4 +229,61 @@ describe('PlayerService', () => {
       ).rejects.toThrow(NotFoundError);
     });
   });
+
+  describe('createPlayer', () => {
+    it('should add a player to the team', async () => {
+      const player = await service.createPlayer('tenant-1', 'team-1', {
+        first_name: 'Sam',
+        last_name: 'Lee',
+        jersey_number: '4',
+      });
+
+      expect(player.team_id).toBe('team-1');
+      expect(player.jersey_number).toBe('4');
+    });
+
+    it('should require first and last name', async () => {
+      await expect(
+        service.createPlayer('tenant-1', 'team-1', { first_name: 'Sam' } as CreatePlayerInput)
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should throw NotFoundError when team is not found', async () => {
+      await expect(
+        service.createPlayer('tenant-1', 'missing-team', { first_name: 'Sam', last_name: 'Lee' })
+      ).rejects.toThrow('Team not found');
+    });
+  });
+
+  describe('updatePlayer', () => {
+    it('should update provided fields', async () => {
+      const player = await service.updatePlayer('tenant-1', 'team-1', 'player-1', {
+        jersey_number: '99',
+      });
+
+      expect(player.jersey_number).toBe('99');
+      expect(player.last_name).toBe('Smith');
+    });
+
+    it('should throw NotFoundError when player is on a different team', async () => {
+      await expect(
+        service.updatePlayer('tenant-1', 'team-2', 'player-1', { position: 'Defense' })
+      ).rejects.toThrow('Player not found');
+    });
+  });
+
+  describe('removePlayer', () => {
+    it('should remove the player from the roster', async () => {
+      await service.removePlayer('tenant-1', 'team-1', 'player-2');
+
+      const players = await service.getPlayersByTeam('tenant-1', 'team-1');
+      expect(players.map(p => p.id)).toEqual(['player-1']);
+    });
+
+    it('should throw NotFoundError for another tenant\'s player', async () => {
+      await expect(
+        service.removePlayer('tenant-1', 'team-3', 'player-4')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
 });
@@ -0,0 +1,300 @@
+/**
+ * Player Stats Service Tests
+ *
+ * Unit tests for PlayerStatsService business logic.
+ * Tests box scores, leaderboards and player stats with mocked repositories.
+ */
+
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PlayerStatsService } from '../../src/services/player-stats-service';
+import { PlayerStatsRepository } from '../../src/repositories/player-stats-repository';
+import { GameRepository } from '../../src/repositories/game-repository';
+import { SeasonRepository } from '../../src/repositories/season-repository';
+import { PlayerRepository } from '../../src/repositories/player-repository';
+import { Game, GameStatus } from '../../src/models/game';
+import {
+  PlayerGameLogEntry,
+  PlayerGameStats,
+  SeasonPlayerTotals,
+} from '../../src/models/player-stats';
+import { BadRequestError, NotFoundError } from '../../src/models/errors';
+import { goalieStats } from '../../src/utils/goalie-stats';
+
+// Mock PlayerStatsRepository
+class MockPlayerStatsRepository {
+  stats: PlayerGameStats[] = [];
+  seasonTotals: SeasonPlayerTotals[] = [];
+  gameLog: PlayerGameLogEntry[] = [];
+
+  async findByGameId(_tenantId: string, gameId: string): Promise<PlayerGameStats[]> {
+    return this.stats.filter(s => s.game_id === gameId);
+  }
+
+  async findSeasonTotals(_tenantId: string, _seasonId: string): Promise<SeasonPlayerTotals[]> {
+    return this.seasonTotals;
+  }
+
+  async findGameLogByPlayerId(_tenantId: string, _playerId: string): Promise<PlayerGameLogEntry[]> {
+    return this.gameLog;
+  }
+}
+
+// Mock SeasonRepository
+class MockSeasonRepository {
+  async findById(_tenantId: string, seasonId: string): Promise<any> {
+    return seasonId === 'season-1' ? { id: seasonId } : null;
+  }
+}
+
+// Mock PlayerRepository
+class MockPlayerRepository {
+  async findById(_tenantId: string, playerId: string): Promise<any> {
+    return playerId === 'player-1' ? { id: playerId } : null;
+  }
+}
+
+// Mock GameRepository
+class MockGameRepository {
+  games: Game[] = [];
+
+  async findById(_tenantId: string, gameId: string): Promise<Game | null> {
+    return this.games.find(g => g.id === gameId) || null;
+  }
+}
+
+describe('PlayerStatsService', () => {
+  let playerStatsService: PlayerStatsService;
+  let mockPlayerStatsRepository: MockPlayerStatsRepository;
+  let mockGameRepository: MockGameRepository;
+
+  const tenantId = 'tenant-123';
+
+  const playerStats = (playerId: string, teamId: string, goals: number): PlayerGameStats => ({
+    game_id: 'game-1',
+    player_id: playerId,
+    team_id: teamId,
+    first_name: 'Sam',
+    last_name: playerId,
+    goals,
+    assists: 0,
+    points: goals,
+    shots: goals,
+    penalty_minutes: 0,
+  });
+
+  beforeEach(() => {
+    mockPlayerStatsRepository = new MockPlayerStatsRepository();
+    mockGameRepository = new MockGameRepository();
+    mockGameRepository.games = [
+      {
+        id: 'game-1',
+        season_id: 'season-1',
+        home_team_id: 'team-a',
+        away_team_id: 'team-b',
+        scheduled_at: new Date('2024-03-01T19:00:00Z'),
+        status: GameStatus.FINAL,
+        home_score: 3,
+        away_score: 2,
+        home_shots: 31,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    ];
+
+    playerStatsService = new PlayerStatsService(
+      mockPlayerStatsRepository as unknown as PlayerStatsRepository,
+      mockGameRepository as unknown as GameRepository,
+      new MockSeasonRepository() as unknown as SeasonRepository,
+      new MockPlayerRepository() as unknown as PlayerRepository
+    );
+  });
+
+  describe('getBoxScore', () => {
+    it('should split player stats between the two teams', async () => {
+      mockPlayerStatsRepository.stats = [
+        playerStats('player-1', 'team-a', 2),
+        playerStats('player-2', 'team-b', 2),
+        playerStats('player-3', 'team-a', 1),
+      ];
+
+      const boxScore = await playerStatsService.getBoxScore(tenantId, 'game-1');
+
+      expect(boxScore.home.players.map(p => p.player_id)).toEqual(['player-1', 'player-3']);
+      expect(boxScore.away.players.map(p => p.player_id)).toEqual(['player-2']);
+    });
+
+    it('should include team scores and shots, defaulting missing shots to zero', async () => {
+      const boxScore = await playerStatsService.getBoxScore(tenantId, 'game-1');
+
+      expect(boxScore).toEqual({
+        game_id: 'game-1',
+        status: GameStatus.FINAL,
+        home: { team_id: 'team-a', score: 3, shots: 31, players: [], goalies: [] },
+        away: { team_id: 'team-b', score: 2, shots: 0, players: [], goalies: [] },
+      });
+    });
+
+    it('should list goalies by time in net and keep them off the players without skater stats', async () => {
+      const goalie = (playerId: string, secondsPlayed: number, assists: number): PlayerGameStats => ({
+        ...playerStats(playerId, 'team-b', 0),
+        assists,
+        points: assists,
+        goalie: {
+          ...goalieStats(20, 2, secondsPlayed),
+          shutout: false,
+        },
+      });
+      mockPlayerStatsRepository.stats = [goalie('goalie-1', 1200, 0), goalie('goalie-2', 2400, 1)];
+
+      const boxScore = await playerStatsService.getBoxScore(tenantId, 'game-1');
+
+      expect(boxScore.away.players.map(p => p.player_id)).toEqual(['goalie-2']);
+      expect(boxScore.away.goalies.map(g => [g.player_id, g.seconds_played])).toEqual([
+        ['goalie-2', 2400],
+        ['goalie-1', 1200],
+      ]);
+      expect(boxScore.away.goalies[0]).toMatchObject({ saves: 18, save_percentage: 0.9, shutout: false });
+    });
+
+    it('should throw NotFoundError for a game outside the tenant', async () => {
+      await expect(playerStatsService.getBoxScore(tenantId, 'game-9')).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('getSeasonLeaders', () => {
+    const totals = (playerId: string, goals: number, assists: number): SeasonPlayerTotals => ({
+      player_id: playerId,
+      team_id: 'team-a',
+      first_name: 'Sam',
+      last_name: playerId,
+      games_played: 5,
+      goals,
+      assists,
+      points: goals + assists,
+      shots: goals * 4,
+      penalty_minutes: assists * 2,
+    });
+
+    beforeEach(() => {
+      mockPlayerStatsRepository.seasonTotals = [
+        totals('player-1', 5, 1),
+        totals('player-2', 2, 6),
+        totals('player-3', 4, 0),
+      ];
+    });
+
+    it('should rank by points by default', async () => {
+      const leaders = await playerStatsService.getSeasonLeaders(tenantId, 'season-1', {});
+
+      expect(leaders.map(l => [l.player_id, l.value])).toEqual([
+        ['player-2', 8],
+        ['player-1', 6],
+        ['player-3', 4],
+      ]);
+    });
+
+    it('should rank penalty minutes as pim', async () => {
+      const leaders = await playerStatsService.getSeasonLeaders(tenantId, 'season-1', { stat: 'pim' });
+
+      expect(leaders.map(l => [l.player_id, l.value])).toEqual([
+        ['player-2', 12],
+        ['player-1', 2],
+      ]);
+    });
+
+    it('should reject invalid query values', async () => {
+      await expect(
+        playerStatsService.getSeasonLeaders(tenantId, 'season-1', { stat: 'saves' })
+      ).rejects.toThrow(BadRequestError);
+      await expect(
+        playerStatsService.getSeasonLeaders(tenantId, 'season-1', { minGamesPlayed: '-1' })
+      ).rejects.toThrow('minGamesPlayed must be an integer');
+      await expect(
+        playerStatsService.getSeasonLeaders(tenantId, 'season-1', { limit: '500' })
+      ).rejects.toThrow('limit must be an integer from 1 to 100');
+    });
+
+    it('should throw NotFoundError for a season outside the tenant', async () => {
+      await expect(playerStatsService.getSeasonLeaders(tenantId, 'season-9', {})).rejects.toThrow(
+        'Season not found'
+      );
+    });
+  });
+
+  describe('getPlayerStats', () => {
+    const logEntry = (gameId: string, seasonId: string, goals: number): PlayerGameLogEntry => ({
+      game_id: gameId,
+      season_id: seasonId,
+      scheduled_at: new Date('2024-03-01T19:00:00Z'),
+      status: GameStatus.FINAL,
+      team_id: 'team-a',
+      opponent_team_id: 'team-b',
+      is_home: true,
+      goals,
+      assists: 1,
+      points: goals + 1,
+      shots: 3,
+      penalty_minutes: 0,
+    });
+
+    it('should total the game log per season, most recent season first', async () => {
+      mockPlayerStatsRepository.gameLog = [
+        logEntry('game-3', 'season-2', 1),
+        logEntry('game-2', 'season-1', 2),
+        logEntry('game-1', 'season-1', 0),
+      ];
+
+      const stats = await playerStatsService.getPlayerStats(tenantId, 'player-1');
+
+      expect(stats.seasons).toEqual([
+        { season_id: 'season-2', games_played: 1, goals: 1, assists: 1, points: 2, shots: 3, penalty_minutes: 0 },
+        { season_id: 'season-1', games_played: 2, goals: 2, assists: 2, points: 4, shots: 6, penalty_minutes: 0 },
+      ]);
+      expect(stats.game_log).toBe(mockPlayerStatsRepository.gameLog);
+    });
+
+    it('should total a goalie\'s games in net per season', async () => {
+      const goalieEntry = (
+        gameId: string,
+        shotsAgainst: number,
+        goalsAgainst: number,
+        shutout: boolean
+      ): PlayerGameLogEntry => ({
+        ...logEntry(gameId, 'season-1', 0),
+        assists: 0,
+        points: 0,
+        shots: 0,
+        goalie: { ...goalieStats(shotsAgainst, goalsAgainst, 3600), shutout },
+      });
+      mockPlayerStatsRepository.gameLog = [
+        goalieEntry('game-3', 30, 0, true),
+        logEntry('game-2', 'season-1', 1),
+        goalieEntry('game-1', 20, 3, false),
+      ];
+
+      const stats = await playerStatsService.getPlayerStats(tenantId, 'player-1');
+
+      expect(stats.seasons[0].games_played).toBe(3);
+      expect(stats.seasons[0].goalie).toEqual({
+        games_played: 2,
+        shots_against: 50,
+        goals_against: 3,
+        saves: 47,
+        save_percentage: 0.94,
+        seconds_played: 7200,
+        goals_against_average: 1.5,
+        shutouts: 1,
+      });
+    });
+
+    it('should return no seasons for a player who hasn\'t played', async () => {
+      const stats = await playerStatsService.getPlayerStats(tenantId, 'player-1');
+
+      expect(stats).toEqual({ player_id: 'player-1', seasons: [], game_log: [] });
+    });
+
+    it('should throw NotFoundError for a player outside the tenant', async () => {
+      await expect(playerStatsService.getPlayerStats(tenantId, 'player-9')).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -10,15 +10,16 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { SeasonService } from '../../src/services/season-service';
 import { SeasonRepository } from '../../src/repositories/season-repository';
-import { Season } from '../../src/models/season';
-import { NotFoundError } from '../../src/models/errors';
+import { Season, CreateSeasonInput, UpdateSeasonInput } from '../../src/models/season';
+import { NotFoundError, BadRequestError, ConflictError } from '../../src/models/errors';
 
 // Mock SeasonRepository
 class MockSeasonRepository {
   private seasons: Season[] = [];
 
   setMockSeasons(seasons: Season[]) {
-    this.seasons = seasons;
+    // Copy so lifecycle transitions don't leak between tests
+    this.seasons = seasons.map(season => ({ ...season }));
   }
 
   async findByLeagueId(_tenantId: string, leagueId: string): Promise<Season[]> {
@@ -33,6 +34,67 @@ class MockSeasonRepository {
     const season = this.seasons.find(s => s.id === seasonId);
     return season || null;
   }
+
+  async create(_tenantId: string, leagueId: string, input: CreateSeasonInput): Promise<Season | null> {
+    if (leagueId === 'missing-league') {
+      return null;
+    }
+    const season: Season = {
+      id: `season-${this.seasons.length + 1}`,
+      league_id: leagueId,
+      name: input.name,
+      start_date: new Date(input.start_date),
+      end_date: new Date(input.end_date),
+      is_active: false,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.seasons.push(season);
+    return season;
+  }
+
+  async update(tenantId: string, seasonId: string, input: UpdateSeasonInput): Promise<Season | null> {
+    const season = await this.findById(tenantId, seasonId);
+    if (!season) {
+      return null;
+    }
+    if (input.name !== undefined) season.name = input.name;
+    if (input.start_date !== undefined) season.start_date = new Date(input.start_date);
+    if (input.end_date !== undefined) season.end_date = new Date(input.end_date);
+    return season;
+  }
+
+  async activate(tenantId: string, seasonId: string): Promise<Season | null> {
+    const season = await this.findById(tenantId, seasonId);
+    if (!season) {
+      return null;
+    }
+    for (const other of this.seasons) {
+      if (other.league_id === season.league_id) {
+        other.is_active = other.id === seasonId;
+      }
+    }
+    return season;
+  }
+
+  async complete(tenantId: string, seasonId: string): Promise<Season | null> {
+    const season = await this.findById(tenantId, seasonId);
+    if (!season) {
+      return null;
+    }
+    season.is_active = false;
+    season.completed_at = new Date();
+    return season;
+  }
+
+  async reopen(tenantId: string, seasonId: string): Promise<Season | null> {
+    const season = await this.findById(tenantId, seasonId);
+    if (!season) {
+      return null;
+    }
+    season.completed_at = undefined;
+    return season;
+  }
 }
 
 describe('SeasonService', () => {
@@ -164,4 +226,185 @@ describe('SeasonService', () => {
       expect(season.league_id).toBe('league-2');
     });
   });
+
+  describe('createSeason', () => {
+    it('should create an inactive season', async () => {
+      const season = await service.createSeason('tenant-1', 'league-1', {
+        name: 'Summer 2024',
+        start_date: '2024-06-01',
+        end_date: '2024-08-31',
+      });
+
+      expect(season.league_id).toBe('league-1');
+      expect(season.is_active).toBe(false);
+    });
+
+    it('should reject start_date on or after end_date', async () => {
+      await expect(
+        service.createSeason('tenant-1', 'league-1', {
+          name: 'Backwards',
+          start_date: '2024-08-31',
+          end_date: '2024-08-31',
+        })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should reject invalid dates', async () => {
+      await expect(
+        service.createSeason('tenant-1', 'league-1', {
+          name: 'Summer 2024',
+          start_date: 'June 1st',
+          end_date: '2024-08-31',
+        })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should reject unknown or repeated tiebreakers', async () => {
+      await expect(
+        service.createSeason('tenant-1', 'league-1', {
+          name: 'Summer 2024',
+          start_date: '2024-06-01',
+          end_date: '2024-08-31',
+          tiebreakers: ['coin_toss'] as any,
+        })
+      ).rejects.toThrow(BadRequestError);
+
+      await expect(
+        service.createSeason('tenant-1', 'league-1', {
+          name: 'Summer 2024',
+          start_date: '2024-06-01',
+          end_date: '2024-08-31',
+          tiebreakers: ['wins', 'wins'],
+        })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should reject dates overlapping another season in the league', async () => {
+      await expect(
+        service.createSeason('tenant-1', 'league-1', {
+          name: 'Late Spring 2024',
+          start_date: '2024-05-31',
+          end_date: '2024-08-31',
+        })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should allow overlapping dates in a different league', async () => {
+      const season = await service.createSeason('tenant-1', 'league-2', {
+        name: 'Fall 2024',
+        start_date: '2024-09-01',
+        end_date: '2024-10-31',
+      });
+
+      expect(season.league_id).toBe('league-2');
+    });
+
+    it('should throw NotFoundError when league is not found', async () => {
+      await expect(
+        service.createSeason('tenant-1', 'missing-league', {
+          name: 'Summer 2024',
+          start_date: '2024-06-01',
+          end_date: '2024-08-31',
+        })
+      ).rejects.toThrow('League not found');
+    });
+  });
+
+  describe('updateSeason', () => {
+    it('should update the name', async () => {
+      const season = await service.updateSeason('tenant-1', 'season-1', { name: 'Autumn 2024' });
+
+      expect(season.name).toBe('Autumn 2024');
+    });
+
+    it('should validate a new end_date against the existing start_date', async () => {
+      await expect(
+        service.updateSeason('tenant-1', 'season-1', { end_date: '2024-08-01' })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should not treat the season as overlapping itself', async () => {
+      const season = await service.updateSeason('tenant-1', 'season-1', { end_date: '2025-01-31' });
+
+      expect(season.end_date).toEqual(new Date('2025-01-31'));
+    });
+
+    it('should reject dates overlapping another season', async () => {
+      await expect(
+        service.updateSeason('tenant-1', 'season-1', { start_date: '2024-05-01' })
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should reject updates to a completed season', async () => {
+      await service.completeSeason('tenant-1', 'season-2');
+
+      await expect(
+        service.updateSeason('tenant-1', 'season-2', { name: 'Renamed' })
+      ).rejects.toThrow('Cannot update a completed season');
+    });
+  });
+
+  describe('activateSeason', () => {
+    it('should activate the season and deactivate others in the league', async () => {
+      const season = await service.activateSeason('tenant-1', 'season-2');
+      const seasons = await service.getSeasonsByLeague('tenant-1', 'league-1');
+
+      expect(season.is_active).toBe(true);
+      expect(seasons.filter(s => s.is_active).map(s => s.id)).toEqual(['season-2']);
+    });
+
+    it('should not affect seasons in other leagues', async () => {
+      await service.activateSeason('tenant-1', 'season-2');
+      const other = await service.getSeasonById('tenant-1', 'season-3');
+
+      expect(other.is_active).toBe(true);
+    });
+
+    it('should reject activating a completed season', async () => {
+      await service.completeSeason('tenant-1', 'season-2');
+
+      await expect(
+        service.activateSeason('tenant-1', 'season-2')
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should throw NotFoundError when season does not exist', async () => {
+      await expect(
+        service.activateSeason('tenant-1', 'non-existent')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('completeSeason', () => {
+    it('should complete and deactivate the season', async () => {
+      const season = await service.completeSeason('tenant-1', 'season-1');
+
+      expect(season.is_active).toBe(false);
+      expect(season.completed_at).toBeInstanceOf(Date);
+    });
+
+    it('should reject completing a completed season', async () => {
+      await service.completeSeason('tenant-1', 'season-1');
+
+      await expect(
+        service.completeSeason('tenant-1', 'season-1')
+      ).rejects.toThrow('Season is already completed');
+    });
+  });
+
+  describe('reopenSeason', () => {
+    it('should reopen a completed season as inactive', async () => {
+      await service.completeSeason('tenant-1', 'season-1');
+      const season = await service.reopenSeason('tenant-1', 'season-1');
+
+      expect(season.completed_at).toBeUndefined();
+      expect(season.is_active).toBe(false);
+    });
+
+    it('should reject reopening a season that is not completed', async () => {
+      await expect(
+        service.reopenSeason('tenant-1', 'season-1')
+      ).rejects.toThrow('Season is not completed');
+    });
+  });
 });
@@ -115,6 +115,7 @@ describe('SnapshotService', () => {
       expect(snapshot).toHaveProperty('clock_seconds');
       expect(snapshot).toHaveProperty('status');
       expect(snapshot).toHaveProperty('recent_events');
+      expect(snapshot).toHaveProperty('sequence');
       expect(snapshot).toHaveProperty('snapshot_version');
       expect(snapshot).toHaveProperty('generated_at');
 
@@ -127,6 +128,109 @@ describe('SnapshotService', () => {
     });
   });
 
+  describe('describeState', () => {
+    it('should report the game\'s period and stopped clock', () => {
+      const state = snapshotService.describeState({
+        ...mockGame,
+        period: 2,
+        clock_seconds: 754,
+        clock_running: false,
+      });
+
+      expect(state).toMatchObject({ period: 2, clock_seconds: 754, clock_running: false });
+    });
+
+    it('should read a running clock from its last anchor', () => {
+      const state = snapshotService.describeState({
+        ...mockGame,
+        clock_seconds: 1200,
+        clock_running: true,
+        clock_anchored_at: new Date(Date.now() - 90 * 1000),
+      });
+
+      expect(state).toMatchObject({ clock_seconds: 1110, clock_running: true });
+    });
+
+    it('should not run the clock of a game that isn\'t live', () => {
+      const state = snapshotService.describeState({
+        ...mockGame,
+        status: GameStatus.FINAL,
+        clock_seconds: 1200,
+        clock_running: true,
+        clock_anchored_at: new Date(Date.now() - 90 * 1000),
+      });
+
+      expect(state).toMatchObject({ clock_seconds: 1200, clock_running: false });
+    });
+
+    it('should default to period 1 with the clock at zero', () => {
+      expect(snapshotService.describeState(mockGame)).toMatchObject({
+        period: 1,
+        clock_seconds: 0,
+        clock_running: false,
+      });
+    });
+
+    it('should report the penalties being served and the power play', () => {
+      const penalty = {
+        team_id: 'team-away',
+        player_id: 'player-2',
+        penalty_type: 'Hooking',
+        duration_minutes: 2,
+        period: 1,
+      };
+
+      // 5 minutes played before the clock was last started, 30 seconds since
+      const state = snapshotService.describeState({
+        ...mockGame,
+        clock_seconds: 900,
+        clock_running: true,
+        clock_anchored_at: new Date(Date.now() - 30 * 1000),
+        elapsed_seconds: 300,
+        active_penalties: [
+          { ...penalty, event_id: 'penalty-1', starts_at: 240, expires_at: 360 },
+          { ...penalty, event_id: 'penalty-2', starts_at: 100, expires_at: 220 },
+        ],
+      });
+
+      expect(state.active_penalties).toEqual([
+        { ...penalty, event_id: 'penalty-1', seconds_remaining: 30 },
+      ]);
+      expect(state.man_advantage).toEqual({ team_id: 'team-home', advantage: 1 });
+    });
+
+    it('should report even strength without penalties', () => {
+      expect(snapshotService.describeState(mockGame)).toMatchObject({
+        active_penalties: [],
+        man_advantage: null,
+      });
+    });
+
+    it('should report shots in total and by period', () => {
+      const shotsByPeriod = [
+        { period: 1, home_shots: 8, away_shots: 5 },
+        { period: 2, home_shots: 3, away_shots: 6 },
+      ];
+
+      const state = snapshotService.describeState({
+        ...mockGame,
+        home_shots: 11,
+        away_shots: 11,
+        shots_by_period: shotsByPeriod,
+      });
+
+      expect(state).toMatchObject({ home_shots: 11, away_shots: 11, shots_by_period: shotsByPeriod });
+    });
+
+    it('should default to no shots', () => {
+      expect(snapshotService.describeState(mockGame)).toMatchObject({
+        home_shots: 0,
+        away_shots: 0,
+        shots_by_period: [],
+      });
+    });
+  });
+
   describe('generateSnapshotFromGame', () => {
     it('should query DynamoDB for 10 most recent events', async () => {
       await snapshotService.generateSnapshotFromGame('tenant-456', 'game-123', mockGame);
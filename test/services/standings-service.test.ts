@@ -9,8 +9,22 @@
 
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { StandingsService } from '../../src/services/standings-service';
-import { StandingsRepository } from '../../src/repositories/standings-repository';
-import { TeamStanding } from '../../src/models/standing';
+import { StandingsRepository, StandingRepair } from '../../src/repositories/standings-repository';
+import { SeasonRepository } from '../../src/repositories/season-repository';
+import { GameRepository } from '../../src/repositories/game-repository';
+import { DivisionRepository } from '../../src/repositories/division-repository';
+import { TeamRepository } from '../../src/repositories/team-repository';
+import {
+  TeamStanding,
+  PointsRulesInput,
+  StandingUpsertData,
+  Tiebreaker,
+} from '../../src/models/standing';
+import { Team } from '../../src/models/team';
+import { Season } from '../../src/models/season';
+import { Game, GameStatus, GameFilters } from '../../src/models/game';
+import { Conference, Division } from '../../src/models/division';
+import { NotFoundError, BadRequestError } from '../../src/models/errors';
 
 // Mock StandingsRepository
 class MockStandingsRepository {
@@ -27,16 +41,129 @@ class MockStandingsRepository {
     // Filter by season_id and return pre-sorted standings
     return this.standings.filter(s => s.season_id === seasonId);
   }
+
+  async upsertStandings(standings: StandingUpsertData[]): Promise<void> {
+    this.standings = standings.map(standing => ({
+      ...standing,
+      id: `standing-${standing.team_id}`,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01'),
+    }));
+  }
+
+  repairs: StandingRepair[] = [];
+  changedTeamIds: string[] = [];
+
+  async repairStandings(
+    _tenantId: string,
+    _seasonId: string,
+    repairs: StandingRepair[]
+  ): Promise<string[] | null> {
+    this.repairs = repairs;
+    return repairs
+      .map(repair => repair.team_id)
+      .filter(teamId => !this.changedTeamIds.includes(teamId));
+  }
 }
 
+// Mock SeasonRepository
+class MockSeasonRepository {
+  private seasons: Map<string, Season> = new Map();
+  private pointsRules: PointsRulesInput | null = {};
+
+  setMockSeason(season: Season) {
+    this.seasons.set(season.id, { ...season });
+  }
+
+  setMockPointsRules(rules: PointsRulesInput | null) {
+    this.pointsRules = rules;
+  }
+
+  async findById(_tenantId: string, seasonId: string): Promise<Season | null> {
+    return this.seasons.get(seasonId) || null;
+  }
+
+  async findPointsRules(): Promise<PointsRulesInput | null> {
+    return this.pointsRules;
+  }
+}
+
+// Mock GameRepository
+class MockGameRepository {
+  private games: Game[] = [];
+
+  setMockGames(games: Game[]) {
+    this.games = games;
+  }
+
+  async findBySeasonId(
+    _tenantId: string,
+    seasonId: string,
+    filters?: GameFilters
+  ): Promise<Game[]> {
+    return this.games.filter(
+      g => g.season_id === seasonId && (!filters?.status || g.status === filters.status)
+    );
+  }
+}
+
+// Mock DivisionRepository
+class MockDivisionRepository {
+  conferences: Conference[] = [];
+  divisions: Division[] = [];
+
+  async findConferencesBySeasonId(): Promise<Conference[]> {
+    return this.conferences;
+  }
+
+  async findBySeasonId(): Promise<Division[]> {
+    return this.divisions;
+  }
+}
+
+// Mock TeamRepository
+class MockTeamRepository {
+  teams: Team[] = [];
+
+  async findByLeagueId(): Promise<Team[]> {
+    return this.teams;
+  }
+}
+
+const mockSeason = (id: string, tiebreakers?: Tiebreaker[]): Season => ({
+  id,
+  league_id: 'league-123',
+  name: 'Fall 2024',
+  start_date: new Date('2024-09-01'),
+  end_date: new Date('2024-12-31'),
+  is_active: true,
+  tiebreakers,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+});
+
 describe('StandingsService', () => {
   let service: StandingsService;
   let mockRepository: MockStandingsRepository;
+  let mockSeasonRepository: MockSeasonRepository;
+  let mockGameRepository: MockGameRepository;
+  let mockDivisionRepository: MockDivisionRepository;
+  let mockTeamRepository: MockTeamRepository;
 
   beforeEach(() => {
     mockRepository = new MockStandingsRepository();
+    mockSeasonRepository = new MockSeasonRepository();
+    mockGameRepository = new MockGameRepository();
+    mockDivisionRepository = new MockDivisionRepository();
+    mockTeamRepository = new MockTeamRepository();
+    mockSeasonRepository.setMockSeason(mockSeason('season-123'));
+    mockSeasonRepository.setMockSeason(mockSeason('season-456'));
     service = new StandingsService(
-      mockRepository as unknown as StandingsRepository
+      mockRepository as unknown as StandingsRepository,
+      mockSeasonRepository as unknown as SeasonRepository,
+      mockGameRepository as unknown as GameRepository,
+      mockDivisionRepository as unknown as DivisionRepository,
+      mockTeamRepository as unknown as TeamRepository
     );
   });
 
@@ -51,6 +178,8 @@ describe('StandingsService', () => {
           wins: 8,
           losses: 2,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 24,
           goals_for: 30,
           goals_against: 15,
@@ -67,6 +196,8 @@ describe('StandingsService', () => {
           wins: 5,
           losses: 5,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 15,
           goals_for: 20,
           goals_against: 20,
@@ -112,6 +243,8 @@ describe('StandingsService', () => {
           wins: 7,
           losses: 1,
           ties: 2,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 23, // 7*3 + 2*1
           goals_for: 25,
           goals_against: 10,
@@ -144,6 +277,8 @@ describe('StandingsService', () => {
           wins: 3,
           losses: 2,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 9,
           goals_for: 15,
           goals_against: 8,
@@ -159,6 +294,8 @@ describe('StandingsService', () => {
           wins: 3,
           losses: 2,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 9,
           goals_for: 12,
           goals_against: 10,
@@ -191,6 +328,8 @@ describe('StandingsService', () => {
           wins: 1,
           losses: 0,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 3,
           goals_for: 2,
           goals_against: 1,
@@ -222,6 +361,8 @@ describe('StandingsService', () => {
           wins: 3,
           losses: 2,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 9,
           goals_for: 10,
           goals_against: 8,
@@ -237,6 +378,8 @@ describe('StandingsService', () => {
           wins: 2,
           losses: 1,
           ties: 0,
+          ot_losses: 0,
+          bonus_points: 0,
           points: 6,
           goals_for: 8,
           goals_against: 5,
@@ -257,5 +400,428 @@ describe('StandingsService', () => {
       expect(result[0].season_id).toBe('season-123');
       expect(result[0].team_id).toBe('team-1');
     });
+
+    it('should rank teams level on points by head-to-head result', async () => {
+      mockRepository.setMockStandings([
+        createStanding('team-1', 9, 7),
+        createStanding('team-2', 9, 2),
+      ]);
+      mockGameRepository.setMockGames([
+        createFinalGame('team-1', 'team-2', 1, 2),
+        { ...createFinalGame('team-2', 'team-1', 0, 5), status: GameStatus.SCHEDULED },
+      ]);
+
+      const result = await service.getStandingsBySeason('tenant-123', 'season-123');
+
+      expect(result.map(s => s.team_id)).toEqual(['team-2', 'team-1']);
+      expect(result.map(s => s.rank)).toEqual([1, 2]);
+      expect(result[0].tiebreaker).toBe('head_to_head');
+    });
+
+    it('should use the season\'s tiebreaker chain', async () => {
+      mockSeasonRepository.setMockSeason(mockSeason('season-123', ['goal_differential']));
+      mockRepository.setMockStandings([
+        createStanding('team-1', 9, 2),
+        createStanding('team-2', 9, 7),
+      ]);
+      mockGameRepository.setMockGames([createFinalGame('team-1', 'team-2', 4, 0)]);
+
+      const result = await service.getStandingsBySeason('tenant-123', 'season-123');
+
+      expect(result.map(s => s.team_id)).toEqual(['team-2', 'team-1']);
+      expect(result[0].tiebreaker).toBe('goal_differential');
+    });
+
+    it('should throw NotFoundError when the season does not exist', async () => {
+      mockRepository.setMockStandings([createStanding('team-1', 9, 2, 'season-999')]);
+
+      await expect(
+        service.getStandingsBySeason('tenant-123', 'season-999')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('recalculateStandings', () => {
+    it('should rebuild standings from final games and return them ranked', async () => {
+      mockTeamRepository.teams = ['team-1', 'team-2'].map(id => ({
+        id,
+        tenant_id: 'tenant-123',
+        league_id: 'league-123',
+        name: id,
+        created_at: new Date('2024-01-01'),
+        updated_at: new Date('2024-01-01'),
+      }));
+      mockGameRepository.setMockGames([
+        {
+          id: 'game-1',
+          season_id: 'season-123',
+          home_team_id: 'team-1',
+          away_team_id: 'team-2',
+          scheduled_at: new Date('2024-09-10'),
+          status: GameStatus.FINAL,
+          home_score: 1,
+          away_score: 3,
+          created_at: new Date('2024-01-01'),
+          updated_at: new Date('2024-01-01'),
+        },
+      ]);
+
+      const result = await service.recalculateStandings('tenant-123', 'season-123');
+
+      expect(result.map(s => [s.team_id, s.rank, s.points])).toEqual([
+        ['team-2', 1, 3],
+        ['team-1', 2, 0],
+      ]);
+    });
+
+    it('should throw NotFoundError when the season does not exist', async () => {
+      await expect(
+        service.recalculateStandings('tenant-123', 'missing')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('auditStandings', () => {
+    beforeEach(() => {
+      mockTeamRepository.teams = ['team-1', 'team-2'].map(id => ({
+        id,
+        tenant_id: 'tenant-123',
+        league_id: 'league-123',
+        name: id,
+        created_at: new Date('2024-01-01'),
+        updated_at: new Date('2024-01-01'),
+      }));
+      mockGameRepository.setMockGames([
+        {
+          id: 'game-1',
+          season_id: 'season-123',
+          home_team_id: 'team-1',
+          away_team_id: 'team-2',
+          scheduled_at: new Date('2024-09-10'),
+          status: GameStatus.FINAL,
+          home_score: 1,
+          away_score: 3,
+          created_at: new Date('2024-01-01'),
+          updated_at: new Date('2024-01-01'),
+        },
+      ]);
+    });
+
+    const stored = (teamId: string, overrides: Partial<TeamStanding> = {}): TeamStanding => ({
+      id: `standing-${teamId}`,
+      season_id: 'season-123',
+      team_id: teamId,
+      games_played: 1,
+      wins: 1,
+      losses: 0,
+      ties: 0,
+      ot_losses: 0,
+      bonus_points: 0,
+      points: 3,
+      goals_for: 3,
+      goals_against: 1,
+      goal_differential: 2,
+      streak: 'W1',
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01'),
+      ...overrides,
+    });
+
+    it('should report no drift for standings rebuilt from the same games', async () => {
+      await service.recalculateStandings('tenant-123', 'season-123');
+
+      const audit = await service.auditStandings('tenant-123', 'season-123');
+
+      expect(audit).toEqual({ season_id: 'season-123', teams_checked: 2, consistent: true, drift: [] });
+    });
+
+    it('should report mismatched, missing and unexpected rows without repairing', async () => {
+      mockRepository.setMockStandings([
+        stored('team-2', { games_played: 0, wins: 0, points: 0, goals_for: 0, goals_against: 0, goal_differential: 0, streak: undefined }),
+        stored('team-9'),
+      ]);
+
+      const audit = await service.auditStandings('tenant-123', 'season-123');
+
+      expect(audit.consistent).toBe(false);
+      expect(audit.teams_checked).toBe(3);
+      expect(audit.drift.map(d => [d.team_id, d.kind, d.repaired])).toEqual([
+        ['team-2', 'mismatch', false],
+        ['team-1', 'missing', false],
+        ['team-9', 'unexpected', false],
+      ]);
+      expect(audit.drift[0].fields).toEqual({
+        games_played: { stored: 0, expected: 1 },
+        wins: { stored: 0, expected: 1 },
+        points: { stored: 0, expected: 3 },
+        goals_for: { stored: 0, expected: 3 },
+        goals_against: { stored: 0, expected: 1 },
+        goal_differential: { stored: 0, expected: 2 },
+        streak: { stored: null, expected: 'W1' },
+      });
+      expect(audit.drift[1].fields.losses).toEqual({ stored: null, expected: 1 });
+      expect(mockRepository.repairs).toEqual([]);
+    });
+
+    it('should repair only drifted rows and report rows changed concurrently', async () => {
+      mockRepository.setMockStandings([
+        stored('team-2', { points: 2 }),
+        stored('team-1', { wins: 0, losses: 1, points: 0, goals_for: 1, goals_against: 3, goal_differential: -2, streak: 'L1' }),
+        stored('team-9'),
+      ]);
+      mockRepository.changedTeamIds = ['team-9'];
+
+      const audit = await service.auditStandings('tenant-123', 'season-123', true);
+
+      expect(mockRepository.repairs.map(r => [r.team_id, r.expected?.points ?? null])).toEqual([
+        ['team-2', 3],
+        ['team-9', null],
+      ]);
+      expect(audit.drift.map(d => [d.team_id, d.kind, d.repaired])).toEqual([
+        ['team-2', 'mismatch', true],
+        ['team-9', 'unexpected', false],
+      ]);
+      expect(audit.drift[0].fields).toEqual({ points: { stored: 2, expected: 3 } });
+    });
+
+    it('should throw NotFoundError when the season does not exist', async () => {
+      await expect(
+        service.auditStandings('tenant-123', 'missing')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('historical standings', () => {
+    const finalGame = (
+      id: string,
+      scheduledAt: string,
+      home: string,
+      away: string,
+      homeScore: number,
+      awayScore: number
+    ): Game => ({
+      id,
+      season_id: 'season-123',
+      home_team_id: home,
+      away_team_id: away,
+      scheduled_at: new Date(scheduledAt),
+      status: GameStatus.FINAL,
+      home_score: homeScore,
+      away_score: awayScore,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01'),
+    });
+
+    beforeEach(() => {
+      mockTeamRepository.teams = ['team-1', 'team-2', 'team-3'].map(id => ({
+        id,
+        tenant_id: 'tenant-123',
+        league_id: 'league-123',
+        name: id,
+        created_at: new Date('2024-01-01'),
+        updated_at: new Date('2024-01-01'),
+      }));
+      mockGameRepository.setMockGames([
+        // Week 1 (Sep 1 - Sep 7)
+        finalGame('game-1', '2024-09-03T18:00:00Z', 'team-1', 'team-2', 2, 0),
+        // Week 2 (Sep 8 - Sep 14)
+        finalGame('game-2', '2024-09-10T18:00:00Z', 'team-3', 'team-1', 4, 1),
+        finalGame('game-3', '2024-09-14T18:00:00Z', 'team-3', 'team-2', 3, 0),
+        // Week 3; the playoff game is ignored
+        finalGame('game-4', '2024-09-16T18:00:00Z', 'team-2', 'team-1', 5, 0),
+        {
+          ...finalGame('game-5', '2024-09-17T18:00:00Z', 'team-1', 'team-3', 9, 0),
+          bracket_series_id: 'series-1',
+          series_game_number: 1,
+        },
+      ]);
+    });
+
+    describe('getStandingsAsOf', () => {
+      it('should rebuild standings from games up to the end of the given day', async () => {
+        const result = await service.getStandingsAsOf('tenant-123', 'season-123', '2024-09-10');
+
+        // team-3 beat team-1, so wins the head-to-head tiebreaker
+        expect(result.map(s => [s.team_id, s.rank, s.points, s.games_played, s.tiebreaker])).toEqual([
+          ['team-3', 1, 3, 1, 'head_to_head'],
+          ['team-1', 2, 3, 2, 'head_to_head'],
+          ['team-2', 3, 0, 1, null],
+        ]);
+      });
+
+      it('should include games at or before a date-time', async () => {
+        const before = await service.getStandingsAsOf('tenant-123', 'season-123', '2024-09-10T17:59:59Z');
+        const at = await service.getStandingsAsOf('tenant-123', 'season-123', '2024-09-10T18:00:00Z');
+
+        expect(before.find(s => s.team_id === 'team-3')?.games_played).toBe(0);
+        expect(at.find(s => s.team_id === 'team-3')?.games_played).toBe(1);
+      });
+
+      it('should not count playoff games', async () => {
+        const result = await service.getStandingsAsOf('tenant-123', 'season-123', '2024-12-31');
+
+        expect(result.find(s => s.team_id === 'team-1')?.games_played).toBe(3);
+      });
+
+      it('should reject an invalid date', async () => {
+        await expect(
+          service.getStandingsAsOf('tenant-123', 'season-123', 'last tuesday')
+        ).rejects.toThrow(BadRequestError);
+      });
+
+      it('should throw NotFoundError when the season does not exist', async () => {
+        await expect(
+          service.getStandingsAsOf('tenant-123', 'missing', '2024-09-10')
+        ).rejects.toThrow(NotFoundError);
+      });
+    });
+
+    describe('getRankMovement', () => {
+      it('should report each team\'s rank and change week by week', async () => {
+        const result = await service.getRankMovement('tenant-123', 'season-123');
+
+        expect(result.map(m => m.team_id)).toEqual(['team-3', 'team-2', 'team-1']);
+        expect(result[0].weeks).toEqual([
+          { week: 1, as_of: '2024-09-07', rank: 2, points: 0, change: null },
+          { week: 2, as_of: '2024-09-14', rank: 1, points: 6, change: 1 },
+          { week: 3, as_of: '2024-09-21', rank: 1, points: 6, change: 0 },
+        ]);
+        expect(result[2].weeks.map(w => [w.rank, w.change])).toEqual([[1, null], [2, -1], [3, -1]]);
+      });
+
+      it('should return no weeks before any game is final', async () => {
+        mockGameRepository.setMockGames([]);
+
+        const result = await service.getRankMovement('tenant-123', 'season-123');
+
+        expect(result).toEqual([
+          { team_id: 'team-1', weeks: [] },
+          { team_id: 'team-2', weeks: [] },
+          { team_id: 'team-3', weeks: [] },
+        ]);
+      });
+    });
+  });
+
+  describe('getGroupedStandings', () => {
+    const division = (id: string, name: string, teamIds: string[], conferenceId?: string): Division => ({
+      id,
+      season_id: 'season-123',
+      conference_id: conferenceId,
+      name,
+      team_ids: teamIds,
+      created_at: new Date('2024-01-01'),
+      updated_at: new Date('2024-01-01'),
+    });
+
+    beforeEach(() => {
+      mockRepository.setMockStandings([
+        createStanding('team-1', 12, 5),
+        createStanding('team-2', 9, 3),
+        createStanding('team-3', 6, -1),
+        createStanding('team-4', 3, -4),
+        createStanding('team-5', 15, 8),
+      ]);
+      mockDivisionRepository.conferences = [
+        {
+          id: 'conference-1',
+          season_id: 'season-123',
+          name: 'East',
+          created_at: new Date('2024-01-01'),
+          updated_at: new Date('2024-01-01'),
+        },
+      ];
+      mockDivisionRepository.divisions = [
+        division('division-1', 'U12', ['team-2', 'team-4'], 'conference-1'),
+        division('division-2', 'U14', ['team-1', 'team-3'], 'conference-1'),
+        division('division-3', 'U16', []),
+      ];
+    });
+
+    it('should rank teams within each division', async () => {
+      const groups = await service.getGroupedStandings('tenant-123', 'season-123', 'division');
+
+      expect(groups.map(g => g.name)).toEqual(['U12', 'U14', 'U16', null]);
+      expect(groups[0].standings.map(s => [s.team_id, s.rank])).toEqual([
+        ['team-2', 1],
+        ['team-4', 2],
+      ]);
+      expect(groups[1].standings.map(s => [s.team_id, s.rank])).toEqual([
+        ['team-1', 1],
+        ['team-3', 2],
+      ]);
+      expect(groups[2].standings).toEqual([]);
+    });
+
+    it('should collect teams without a division in a trailing group', async () => {
+      const groups = await service.getGroupedStandings('tenant-123', 'season-123', 'division');
+
+      expect(groups[3].id).toBeNull();
+      expect(groups[3].standings.map(s => [s.team_id, s.rank])).toEqual([['team-5', 1]]);
+    });
+
+    it('should rank teams across the divisions of each conference', async () => {
+      const groups = await service.getGroupedStandings('tenant-123', 'season-123', 'conference');
+
+      expect(groups.map(g => g.id)).toEqual(['conference-1', null]);
+      expect(groups[0].standings.map(s => s.team_id)).toEqual([
+        'team-1',
+        'team-2',
+        'team-3',
+        'team-4',
+      ]);
+      expect(groups[1].standings.map(s => s.team_id)).toEqual(['team-5']);
+    });
+
+    it('should throw NotFoundError when the season does not exist', async () => {
+      await expect(
+        service.getGroupedStandings('tenant-123', 'season-999', 'division')
+      ).rejects.toThrow(NotFoundError);
+    });
   });
 });
+
+function createStanding(
+  teamId: string,
+  points: number,
+  goalDifferential: number,
+  seasonId = 'season-123'
+): TeamStanding {
+  return {
+    id: `standing-${teamId}`,
+    season_id: seasonId,
+    team_id: teamId,
+    games_played: 5,
+    wins: 3,
+    losses: 2,
+    ties: 0,
+    ot_losses: 0,
+    bonus_points: 0,
+    points,
+    goals_for: 15,
+    goals_against: 15 - goalDifferential,
+    goal_differential: goalDifferential,
+    created_at: new Date('2024-01-01'),
+    updated_at: new Date('2024-01-15'),
+  };
+}
+
+function createFinalGame(
+  homeTeamId: string,
+  awayTeamId: string,
+  homeScore: number,
+  awayScore: number
+): Game {
+  return {
+    id: `game-${homeTeamId}-${awayTeamId}`,
+    season_id: 'season-123',
+    home_team_id: homeTeamId,
+    away_team_id: awayTeamId,
+    scheduled_at: new Date('2024-01-10T18:00:00Z'),
+    status: GameStatus.FINAL,
+    home_score: homeScore,
+    away_score: awayScore,
+    created_at: new Date('2024-01-01'),
+    updated_at: new Date('2024-01-10'),
+  };
+}
@@ -0,0 +1,82 @@
+/**
+ * Stream Ticket Service Tests
+ *
+ * Unit tests for issuing and redeeming game stream tickets.
+ */
+
+import { StreamTicketService } from '../../src/services/stream-ticket-service';
+import { StreamTicketRepository } from '../../src/repositories/stream-ticket-repository';
+import { StreamTicket, STREAM_TICKET_TTL_SECONDS } from '../../src/models/stream-ticket';
+import { AuthError, AuthErrorCode } from '../../src/models/auth';
+import { NotFoundError } from '../../src/models/errors';
+
+describe('StreamTicketService', () => {
+  let streamTicketService: StreamTicketService;
+  let mockStreamTicketRepository: jest.Mocked<StreamTicketRepository>;
+
+  const mockTicket: StreamTicket = {
+    ticket: 'ticket-abc',
+    tenant_id: 'tenant-123',
+    game_id: 'game-123',
+    user_id: 'user-456',
+    roles: ['scorekeeper'],
+    expires_at: new Date('2024-01-15T19:05:00Z'),
+    created_at: new Date('2024-01-15T19:00:00Z'),
+  };
+
+  beforeEach(() => {
+    mockStreamTicketRepository = {
+      create: jest.fn(),
+      findActive: jest.fn(),
+    } as any;
+
+    streamTicketService = new StreamTicketService(mockStreamTicketRepository);
+  });
+
+  describe('issueTicket', () => {
+    it('should issue a short-lived ticket for the game', async () => {
+      mockStreamTicketRepository.create.mockResolvedValue(mockTicket);
+
+      const result = await streamTicketService.issueTicket('tenant-123', 'game-123', 'user-456', [
+        'scorekeeper',
+      ]);
+
+      expect(result).toEqual(mockTicket);
+      expect(mockStreamTicketRepository.create).toHaveBeenCalledWith(
+        'tenant-123',
+        'game-123',
+        'user-456',
+        ['scorekeeper'],
+        STREAM_TICKET_TTL_SECONDS
+      );
+    });
+
+    it('should throw NotFoundError for a game outside the tenant', async () => {
+      mockStreamTicketRepository.create.mockResolvedValue(null);
+
+      await expect(
+        streamTicketService.issueTicket('tenant-123', 'game-999', 'user-456', [])
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('redeemTicket', () => {
+    it('should return the ticket with the tenant, user and roles it was issued to', async () => {
+      mockStreamTicketRepository.findActive.mockResolvedValue(mockTicket);
+
+      const result = await streamTicketService.redeemTicket('ticket-abc', 'game-123');
+
+      expect(result).toEqual(mockTicket);
+      expect(mockStreamTicketRepository.findActive).toHaveBeenCalledWith('ticket-abc', 'game-123');
+    });
+
+    it('should throw AuthError for an unknown, expired or other game ticket', async () => {
+      mockStreamTicketRepository.findActive.mockResolvedValue(null);
+
+      const error = await streamTicketService.redeemTicket('ticket-abc', 'game-999').catch(e => e);
+
+      expect(error).toBeInstanceOf(AuthError);
+      expect(error.code).toBe(AuthErrorCode.INVALID_TOKEN);
+    });
+  });
+});
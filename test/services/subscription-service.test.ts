@@ -0,0 +1,176 @@
+/**
+ * Subscription Service Tests
+ *
+ * Unit tests for SubscriptionService business logic.
+ * Tests target checks and initial snapshots with mocked repositories.
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { SubscriptionService } from '../../src/services/subscription-service';
+import { GameRepository } from '../../src/repositories/game-repository';
+import { SeasonRepository } from '../../src/repositories/season-repository';
+import { LeagueRepository } from '../../src/repositories/league-repository';
+import { TeamRepository } from '../../src/repositories/team-repository';
+import { SnapshotService } from '../../src/services/snapshot-service';
+import { Game, GameFilters, GameStatus } from '../../src/models/game';
+import { GameSnapshot } from '../../src/models/snapshot';
+import { NotFoundError } from '../../src/models/errors';
+
+// Mock GameRepository
+class MockGameRepository {
+  games: Game[] = [];
+
+  async findById(_tenantId: string, gameId: string): Promise<Game | null> {
+    return this.games.find(g => g.id === gameId) || null;
+  }
+
+  findBySeasonId = jest.fn(
+    async (_tenantId: string, seasonId: string, filters?: GameFilters): Promise<Game[]> =>
+      this.games.filter(
+        g =>
+          g.season_id === seasonId &&
+          (!filters?.status || g.status === filters.status) &&
+          (!filters?.teamId || g.home_team_id === filters.teamId || g.away_team_id === filters.teamId)
+      )
+  );
+}
+
+// Mock SeasonRepository
+class MockSeasonRepository {
+  async findById(_tenantId: string, seasonId: string): Promise<any> {
+    return ['season-1', 'season-2'].includes(seasonId) ? { id: seasonId, league_id: 'league-1' } : null;
+  }
+
+  async findActiveByLeagueId(_tenantId: string, leagueId: string): Promise<any[]> {
+    return leagueId === 'league-1' ? [{ id: 'season-1' }, { id: 'season-2' }] : [];
+  }
+}
+
+// Mock LeagueRepository
+class MockLeagueRepository {
+  async findById(_tenantId: string, leagueId: string): Promise<any> {
+    return leagueId === 'league-1' ? { id: leagueId } : null;
+  }
+}
+
+// Mock TeamRepository
+class MockTeamRepository {
+  async findById(_tenantId: string, teamId: string): Promise<any> {
+    return teamId.startsWith('team-') ? { id: teamId, league_id: 'league-1' } : null;
+  }
+}
+
+// Mock SnapshotService
+class MockSnapshotService {
+  constructor(private gameRepository: MockGameRepository) {}
+
+  async generateSnapshot(tenantId: string, gameId: string): Promise<GameSnapshot> {
+    const game = await this.gameRepository.findById(tenantId, gameId);
+
+    if (!game) {
+      throw new NotFoundError('Game not found');
+    }
+
+    return this.generateSnapshotFromGame(tenantId, gameId, game);
+  }
+
+  async generateSnapshotFromGame(_tenantId: string, gameId: string, game: Game): Promise<GameSnapshot> {
+    return { game_id: gameId, home_score: game.home_score, away_score: game.away_score } as GameSnapshot;
+  }
+}
+
+describe('SubscriptionService', () => {
+  let subscriptionService: SubscriptionService;
+  let mockGameRepository: MockGameRepository;
+
+  const tenantId = 'tenant-123';
+
+  const game = (
+    id: string,
+    seasonId: string,
+    status: GameStatus,
+    scheduledAt: string,
+    home = 'team-a',
+    away = 'team-b'
+  ): Game => ({
+    id,
+    season_id: seasonId,
+    home_team_id: home,
+    away_team_id: away,
+    scheduled_at: new Date(scheduledAt),
+    status,
+    home_score: 0,
+    away_score: 0,
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
+  beforeEach(() => {
+    mockGameRepository = new MockGameRepository();
+    mockGameRepository.games = [
+      game('game-1', 'season-1', GameStatus.LIVE, '2024-03-01T19:00:00Z'),
+      game('game-2', 'season-1', GameStatus.SCHEDULED, '2024-03-02T19:00:00Z'),
+      game('game-3', 'season-2', GameStatus.LIVE, '2024-03-01T18:00:00Z', 'team-c', 'team-d'),
+      game('game-4', 'season-1', GameStatus.FINAL, '2024-02-01T19:00:00Z'),
+    ];
+
+    subscriptionService = new SubscriptionService(
+      mockGameRepository as unknown as GameRepository,
+      new MockSeasonRepository() as unknown as SeasonRepository,
+      new MockLeagueRepository() as unknown as LeagueRepository,
+      new MockTeamRepository() as unknown as TeamRepository,
+      new MockSnapshotService(mockGameRepository) as unknown as SnapshotService
+    );
+  });
+
+  describe('getInitialSnapshots', () => {
+    it('should return a game\'s snapshot whatever its status', async () => {
+      const snapshots = await subscriptionService.getInitialSnapshots(tenantId, {
+        scope: 'game',
+        scope_id: 'game-4',
+      });
+
+      expect(snapshots.map(s => s.game_id)).toEqual(['game-4']);
+    });
+
+    it('should return the live games of a season', async () => {
+      const snapshots = await subscriptionService.getInitialSnapshots(tenantId, {
+        scope: 'season',
+        scope_id: 'season-1',
+      });
+
+      expect(snapshots.map(s => s.game_id)).toEqual(['game-1']);
+    });
+
+    it('should return the live games across a league\'s active seasons in scheduled order', async () => {
+      const snapshots = await subscriptionService.getInitialSnapshots(tenantId, {
+        scope: 'league',
+        scope_id: 'league-1',
+      });
+
+      expect(snapshots.map(s => s.game_id)).toEqual(['game-3', 'game-1']);
+    });
+
+    it('should return the live games a team plays', async () => {
+      const snapshots = await subscriptionService.getInitialSnapshots(tenantId, {
+        scope: 'team',
+        scope_id: 'team-d',
+      });
+
+      expect(snapshots.map(s => s.game_id)).toEqual(['game-3']);
+      expect(mockGameRepository.findBySeasonId).toHaveBeenCalledWith(tenantId, 'season-1', {
+        status: GameStatus.LIVE,
+        teamId: 'team-d',
+      });
+    });
+
+    it('should throw NotFoundError for a target outside the tenant', async () => {
+      await expect(
+        subscriptionService.getInitialSnapshots(tenantId, { scope: 'game', scope_id: 'game-9' })
+      ).rejects.toThrow(NotFoundError);
+      await expect(
+        subscriptionService.getInitialSnapshots(tenantId, { scope: 'team', scope_id: 'other' })
+      ).rejects.toThrow('Team not found');
+    });
+  });
+});
@@ -10,15 +10,21 @@
 import { describe, it, expect, beforeEach } from '@jest/globals';
 import { TeamService } from '../../src/services/team-service';
 import { TeamRepository } from '../../src/repositories/team-repository';
-import { Team } from '../../src/models/team';
-import { NotFoundError } from '../../src/models/errors';
+import { Team, CreateTeamInput, UpdateTeamInput } from '../../src/models/team';
+import { NotFoundError, BadRequestError, ConflictError } from '../../src/models/errors';
 
 // Mock TeamRepository
 class MockTeamRepository {
   private teams: Team[] = [];
 
+  private teamIdsWithGames = new Set<string>();
+
   setMockTeams(teams: Team[]) {
-    this.teams = teams;
+    this.teams = teams.map(team => ({ ...team }));
+  }
+
+  setTeamsWithGames(teamIds: string[]) {
+    this.teamIdsWithGames = new Set(teamIds);
   }
 
   async findByLeagueId(tenantId: string, leagueId: string): Promise<Team[]> {
@@ -33,6 +39,45 @@ class MockTeamRepository {
     );
     return team || null;
   }
+
+  async create(tenantId: string, leagueId: string, input: CreateTeamInput): Promise<Team | null> {
+    if (leagueId === 'missing-league') {
+      return null;
+    }
+    const team: Team = {
+      id: `team-${this.teams.length + 1}`,
+      tenant_id: tenantId,
+      league_id: leagueId,
+      ...input,
+      created_at: new Date(),
+      updated_at: new Date(),
+    };
+    this.teams.push(team);
+    return team;
+  }
+
+  async update(
+    tenantId: string,
+    leagueId: string,
+    teamId: string,
+    input: UpdateTeamInput
+  ): Promise<Team | null> {
+    const team = await this.findById(tenantId, teamId);
+    if (!team || team.league_id !== leagueId) {
+      return null;
+    }
+    Object.assign(team, input);
+    return team;
+  }
+
+  async delete(tenantId: string, leagueId: string, teamId: string): Promise<boolean> {
+    const team = await this.findById(tenantId, teamId);
+    if (!team || team.league_id !== leagueId || this.teamIdsWithGames.has(teamId)) {
+      return false;
+    }
+    this.teams = this.teams.filter(t => t.id !== teamId);
+    return true;
+  }
 }
 
 describe('TeamService', () => {
@@ -194,4 +239,72 @@ describe('TeamService', () => {
       ).rejects.toThrow(NotFoundError);
     });
   });
+
+  describe('createTeam', () => {
+    it('should create a team in the league', async () => {
+      const team = await service.createTeam('tenant-1', 'league-1', {
+        name: 'Clippers',
+        abbreviation: 'LAC',
+        primary_color: '#C8102E',
+      });
+
+      expect(team.league_id).toBe('league-1');
+      expect(team.abbreviation).toBe('LAC');
+    });
+
+    it('should reject an abbreviation longer than 10 characters', async () => {
+      await expect(
+        service.createTeam('tenant-1', 'league-1', {
+          name: 'Clippers',
+          abbreviation: 'LOSANGELESC',
+        })
+      ).rejects.toThrow(BadRequestError);
+    });
+
+    it('should throw NotFoundError when league is not found', async () => {
+      await expect(
+        service.createTeam('tenant-1', 'missing-league', { name: 'Clippers' })
+      ).rejects.toThrow('League not found');
+    });
+  });
+
+  describe('updateTeam', () => {
+    it('should update provided fields', async () => {
+      const team = await service.updateTeam('tenant-1', 'league-1', 'team-1', {
+        abbreviation: 'LAK',
+      });
+
+      expect(team.abbreviation).toBe('LAK');
+      expect(team.name).toBe('Lakers');
+    });
+
+    it('should throw NotFoundError when team is in a different league', async () => {
+      await expect(
+        service.updateTeam('tenant-1', 'league-1', 'team-3', { name: 'Celtics II' })
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+
+  describe('removeTeam', () => {
+    it('should remove a team without games', async () => {
+      await service.removeTeam('tenant-1', 'league-1', 'team-2');
+
+      const teams = await service.getTeamsByLeague('tenant-1', 'league-1');
+      expect(teams.map(t => t.id)).toEqual(['team-1']);
+    });
+
+    it('should refuse to remove a team with games', async () => {
+      mockRepository.setTeamsWithGames(['team-1']);
+
+      await expect(
+        service.removeTeam('tenant-1', 'league-1', 'team-1')
+      ).rejects.toThrow(ConflictError);
+    });
+
+    it('should throw NotFoundError for another tenant\'s team', async () => {
+      await expect(
+        service.removeTeam('tenant-1', 'league-3', 'team-4')
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
 });
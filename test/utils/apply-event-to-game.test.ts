@@ -7,11 +7,13 @@
 
 import { applyEventToGame } from '../../src/utils/apply-event-to-game';
 import { EventType, GameEvent } from '../../src/models/event';
-import { GameStatus } from '../../src/models/game';
+import { GameStatus, GameDecision } from '../../src/models/game';
 import * as database from '../../src/config/database';
+import { applyGameToStandings } from '../../src/utils/standings-calculation';
 
 // Mock database module
 jest.mock('../../src/config/database');
+jest.mock('../../src/utils/standings-calculation');
 
 const mockQuery = jest.fn();
 
@@ -90,8 +92,8 @@ describe('applyEventToGame', () => {
 
       // Verify home score increment
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining('home_score = home_score + 1'),
-        [gameId]
+        expect.stringContaining('home_score = home_score + $2'),
+        [gameId, 1]
       );
     });
 
@@ -131,8 +133,8 @@ describe('applyEventToGame', () => {
 
       // Verify away score increment
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining('away_score = away_score + 1'),
-        [gameId]
+        expect.stringContaining('away_score = away_score + $2'),
+        [gameId, 1]
       );
     });
 
@@ -169,6 +171,136 @@ describe('applyEventToGame', () => {
     });
   });
 
+  describe('Scoring events', () => {
+    const scoringEvent = (eventType: EventType, payload: Record<string, unknown>): GameEvent => ({
+      event_id: 'event-score',
+      game_id: gameId,
+      tenant_id: tenantId,
+      event_type: eventType,
+      event_version: '1.0',
+      occurred_at: new Date().toISOString(),
+      sort_key: `${new Date().toISOString()}#event-score`,
+      payload,
+      metadata: {
+        user_id: 'user-1',
+        source: 'mobile-app'
+      },
+      ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60
+    });
+
+    it('should add a goal\'s points to the score', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, scoringEvent(EventType.GOAL_SCORED, {
+        team_id: homeTeamId,
+        player_id: 'player-1',
+        points: 1,
+        period: 2,
+        time_remaining: '04:00'
+      }));
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('home_score = home_score + $2'),
+        [gameId, 1]
+      );
+    });
+
+    it('should add a touchdown and its conversion to the score', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, scoringEvent(EventType.TOUCHDOWN, {
+        team_id: awayTeamId,
+        player_id: 'player-2',
+        points: 6,
+        period: 3,
+        time_remaining: '11:20'
+      }));
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      await applyEventToGame(tenantId, gameId, scoringEvent(EventType.TWO_POINT_CONVERSION, {
+        team_id: awayTeamId,
+        player_id: 'player-2',
+        points: 2,
+        period: 3,
+        time_remaining: '11:20'
+      }));
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('away_score = away_score + $2'),
+        [gameId, 6]
+      );
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('away_score = away_score + $2'),
+        [gameId, 2]
+      );
+    });
+
+    it('should add a rugby conversion to the score', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, scoringEvent(EventType.CONVERSION, {
+        team_id: homeTeamId,
+        player_id: 'player-1',
+        points: 2,
+        period: 1,
+        time_remaining: '28:40'
+      }));
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('home_score = home_score + $2'),
+        [gameId, 2]
+      );
+    });
+
+    it('should add basketball field goals and free throws to the score', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, scoringEvent(EventType.FIELD_GOAL, {
+        team_id: homeTeamId,
+        player_id: 'player-1',
+        points: 3,
+        period: 1,
+        time_remaining: '02:10'
+      }));
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      await applyEventToGame(tenantId, gameId, scoringEvent(EventType.FREE_THROW, {
+        team_id: homeTeamId,
+        player_id: 'player-1',
+        points: 1,
+        period: 1,
+        time_remaining: '02:10'
+      }));
+
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('home_score = home_score + $2'),
+        [gameId, 3]
+      );
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('home_score = home_score + $2'),
+        [gameId, 1]
+      );
+    });
+
+    it('should not change the score for events that don\'t score', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, scoringEvent(EventType.OUT_RECORDED, {
+        team_id: homeTeamId,
+        inning: 2,
+        half: 'top'
+      }));
+
+      expect(mockQuery).not.toHaveBeenCalledWith(
+        expect.stringContaining('home_score = home_score'),
+        expect.anything()
+      );
+    });
+  });
+
   describe('GAME_STARTED event', () => {
     it('should set game status to live', async () => {
       // Mock game lookup
@@ -242,37 +374,29 @@ describe('applyEventToGame', () => {
 
       await applyEventToGame(tenantId, gameId, event);
 
-      // Verify status and scores update
+      // Verify status and scores update; decided_in defaults to regulation
       expect(mockQuery).toHaveBeenCalledWith(
         expect.stringContaining('SET status = $1'),
-        [GameStatus.FINAL, 3, 2, gameId]
+        [GameStatus.FINAL, 3, 2, GameDecision.REGULATION, gameId]
       );
     });
-  });
-
-  describe('GAME_CANCELLED event', () => {
-    it('should set game status to cancelled', async () => {
-      // Mock game lookup
-      mockQuery.mockResolvedValueOnce({
-        rows: [mockGame]
-      });
 
-      // Mock cancel update
-      mockQuery.mockResolvedValueOnce({
-        rows: []
-      });
+    it('should record how the game was decided', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
 
       const event: GameEvent = {
         event_id: 'event-6',
         game_id: gameId,
         tenant_id: tenantId,
-        event_type: EventType.GAME_CANCELLED,
+        event_type: EventType.GAME_FINALIZED,
         event_version: '1.0',
         occurred_at: new Date().toISOString(),
         sort_key: `${new Date().toISOString()}#event-6`,
         payload: {
-          reason: 'Weather conditions',
-          cancelled_at: new Date().toISOString()
+          final_home_score: 3,
+          final_away_score: 4,
+          decided_in: GameDecision.OVERTIME
         },
         metadata: {
           user_id: 'user-1',
@@ -283,36 +407,40 @@ describe('applyEventToGame', () => {
 
       await applyEventToGame(tenantId, gameId, event);
 
-      // Verify status update to 'cancelled'
       expect(mockQuery).toHaveBeenCalledWith(
-        expect.stringContaining('SET status = $1'),
-        [GameStatus.CANCELLED, gameId]
+        expect.stringContaining('decided_in = $4'),
+        [GameStatus.FINAL, 3, 4, GameDecision.OVERTIME, gameId]
       );
     });
-  });
-
-  describe('Other event types', () => {
-    it('should not modify game state for PENALTY_ASSESSED', async () => {
-      // Mock game lookup
-      mockQuery.mockResolvedValueOnce({
-        rows: [mockGame]
-      });
+    it('should apply the finalized game to standings in the same transaction', async () => {
+      const finalizedRow = {
+        ...mockGame,
+        season_id: 'season-789',
+        scheduled_at: new Date('2024-01-15T18:00:00Z'),
+        status: GameStatus.FINAL,
+        home_score: 3,
+        away_score: 2,
+        location: null,
+        decided_in: GameDecision.REGULATION,
+        bracket_series_id: null,
+        series_game_number: null,
+        created_at: new Date('2024-01-01'),
+        updated_at: new Date('2024-01-15'),
+      };
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [finalizedRow] });
 
       const event: GameEvent = {
         event_id: 'event-7',
         game_id: gameId,
         tenant_id: tenantId,
-        event_type: EventType.PENALTY_ASSESSED,
+        event_type: EventType.GAME_FINALIZED,
         event_version: '1.0',
         occurred_at: new Date().toISOString(),
         sort_key: `${new Date().toISOString()}#event-7`,
         payload: {
-          team_id: homeTeamId,
-          player_id: 'player-1',
-          penalty_type: 'Tripping',
-          duration_minutes: 2,
-          period: 1,
-          time_remaining: '12:00'
+          final_home_score: 3,
+          final_away_score: 2
         },
         metadata: {
           user_id: 'user-1',
@@ -323,28 +451,74 @@ describe('applyEventToGame', () => {
 
       await applyEventToGame(tenantId, gameId, event);
 
-      // Verify only game lookup was called, no updates
-      expect(mockQuery).toHaveBeenCalledTimes(1);
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE id = $5 AND status <> $1'),
+        expect.any(Array)
+      );
+      expect(applyGameToStandings).toHaveBeenCalledWith(
+        expect.objectContaining({ query: mockQuery }),
+        expect.objectContaining({
+          id: gameId,
+          season_id: 'season-789',
+          home_score: 3,
+          away_score: 2,
+          bracket_series_id: undefined,
+        })
+      );
     });
 
-    it('should not modify game state for PERIOD_ENDED', async () => {
+    it('should not touch standings when the game was already final', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      const event: GameEvent = {
+        event_id: 'event-8',
+        game_id: gameId,
+        tenant_id: tenantId,
+        event_type: EventType.GAME_FINALIZED,
+        event_version: '1.0',
+        occurred_at: new Date().toISOString(),
+        sort_key: `${new Date().toISOString()}#event-8`,
+        payload: {
+          final_home_score: 3,
+          final_away_score: 2
+        },
+        metadata: {
+          user_id: 'user-1',
+          source: 'mobile-app'
+        },
+        ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60
+      };
+
+      await applyEventToGame(tenantId, gameId, event);
+
+      expect(applyGameToStandings).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('GAME_CANCELLED event', () => {
+    it('should set game status to cancelled', async () => {
       // Mock game lookup
       mockQuery.mockResolvedValueOnce({
         rows: [mockGame]
       });
 
+      // Mock cancel update
+      mockQuery.mockResolvedValueOnce({
+        rows: []
+      });
+
       const event: GameEvent = {
-        event_id: 'event-8',
+        event_id: 'event-6',
         game_id: gameId,
         tenant_id: tenantId,
-        event_type: EventType.PERIOD_ENDED,
+        event_type: EventType.GAME_CANCELLED,
         event_version: '1.0',
         occurred_at: new Date().toISOString(),
-        sort_key: `${new Date().toISOString()}#event-8`,
+        sort_key: `${new Date().toISOString()}#event-6`,
         payload: {
-          period: 1,
-          home_score: 1,
-          away_score: 1
+          reason: 'Weather conditions',
+          cancelled_at: new Date().toISOString()
         },
         metadata: {
           user_id: 'user-1',
@@ -355,8 +529,449 @@ describe('applyEventToGame', () => {
 
       await applyEventToGame(tenantId, gameId, event);
 
-      // Verify only game lookup was called, no updates
-      expect(mockQuery).toHaveBeenCalledTimes(1);
+      // Verify status update to 'cancelled'
+      expect(mockQuery).toHaveBeenCalledWith(
+        expect.stringContaining('SET status = $1'),
+        [GameStatus.CANCELLED, gameId]
+      );
+    });
+  });
+
+  describe('Clock events', () => {
+    const clockEvent = (
+      eventType: EventType,
+      payload: Record<string, unknown>,
+      occurredAt = '2024-01-15T19:10:00.000Z'
+    ): GameEvent => ({
+      event_id: 'event-clock',
+      game_id: gameId,
+      tenant_id: tenantId,
+      event_type: eventType,
+      event_version: '1.0',
+      occurred_at: occurredAt,
+      sort_key: `${occurredAt}#event-clock`,
+      payload,
+      metadata: {
+        user_id: 'user-1',
+        source: 'mobile-app'
+      },
+      ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60
+    });
+
+    const runningGame = {
+      ...mockGame,
+      status: GameStatus.LIVE,
+      clock_seconds: 1200,
+      clock_running: true,
+      clock_anchored_at: new Date('2024-01-15T19:00:00.000Z'),
+      elapsed_seconds: 300
+    };
+
+    it('should start the clock anchored at the event time', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...mockGame, clock_seconds: 1200, clock_running: false }] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, clockEvent(EventType.CLOCK_STARTED, {}));
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('clock_running = true'),
+        [1200, new Date('2024-01-15T19:10:00.000Z'), 0, gameId]
+      );
+    });
+
+    it('should stop the clock at the time left when the event occurred', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [runningGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      // 10 minutes after the clock started at 20:00, with 5 minutes played before
+      await applyEventToGame(tenantId, gameId, clockEvent(EventType.CLOCK_STOPPED, {}));
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('clock_running = false'),
+        [600, 900, gameId]
+      );
+    });
+
+    it('should stop the clock at the scorekeeper\'s reading when given', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [runningGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, clockEvent(EventType.CLOCK_STOPPED, { clock_seconds: 598 }));
+
+      expect(mockQuery.mock.calls[1][1]).toEqual([598, 900, gameId]);
+    });
+
+    it('should set the clock and period', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [runningGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(
+        tenantId,
+        gameId,
+        clockEvent(EventType.CLOCK_SET, { clock_seconds: 1200, period: 2 })
+      );
+
+      expect(mockQuery).toHaveBeenLastCalledWith(
+        expect.stringContaining('period = COALESCE($2, period)'),
+        [1200, 2, new Date('2024-01-15T19:10:00.000Z'), 900, gameId]
+      );
+    });
+
+    it('should stop the clock at zero when a period ends', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [runningGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(
+        tenantId,
+        gameId,
+        clockEvent(EventType.PERIOD_ENDED, { period: 1, home_score: 1, away_score: 1 })
+      );
+
+      const [query, params] = mockQuery.mock.calls[1];
+      expect(query).toContain('clock_seconds = 0');
+      expect(query).toContain('clock_running = false');
+      // The 10 minutes left in the period count as played
+      expect(params).toEqual([1, 1500, gameId]);
+    });
+  });
+
+  describe('Penalties', () => {
+    const liveGame = {
+      ...mockGame,
+      status: GameStatus.LIVE,
+      clock_seconds: 900,
+      clock_running: false,
+      elapsed_seconds: 300,
+      active_penalties: []
+    };
+
+    const penalty = (teamId: string, durationMinutes: number, startsAt: number, eventId = `penalty-${teamId}`) => ({
+      event_id: eventId,
+      team_id: teamId,
+      player_id: 'player-1',
+      penalty_type: 'Tripping',
+      duration_minutes: durationMinutes,
+      period: 1,
+      starts_at: startsAt,
+      expires_at: startsAt + durationMinutes * 60
+    });
+
+    const event = (eventType: EventType, payload: Record<string, unknown>, eventId = 'event-11'): GameEvent => ({
+      event_id: eventId,
+      game_id: gameId,
+      tenant_id: tenantId,
+      event_type: eventType,
+      event_version: '1.0',
+      occurred_at: '2024-01-15T19:10:00.000Z',
+      sort_key: `2024-01-15T19:10:00.000Z#${eventId}`,
+      payload,
+      metadata: {
+        user_id: 'user-1',
+        source: 'mobile-app'
+      },
+      ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60
+    });
+
+    const penaltyEvent = (teamId: string) =>
+      event(EventType.PENALTY_ASSESSED, {
+        team_id: teamId,
+        player_id: 'player-1',
+        penalty_type: 'Tripping',
+        duration_minutes: 2,
+        period: 1,
+        time_remaining: '15:00'
+      });
+
+    const goalEvent = (teamId: string) =>
+      event(EventType.GOAL_SCORED, {
+        team_id: teamId,
+        player_id: 'player-2',
+        period: 1,
+        time_remaining: '15:00'
+      }, 'goal-1');
+
+    const storedPenalties = (): any[] => {
+      const update = mockQuery.mock.calls.find(([sql]) => sql.includes('active_penalties = $1'));
+      return JSON.parse(update![1][0]);
+    };
+
+    it('should start a penalty at the current game time', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [liveGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, penaltyEvent(awayTeamId));
+
+      expect(mockQuery.mock.calls[1][0]).toContain('SET active_penalties = $1');
+      expect(storedPenalties()).toEqual([
+        {
+          event_id: 'event-11',
+          team_id: awayTeamId,
+          player_id: 'player-1',
+          penalty_type: 'Tripping',
+          duration_minutes: 2,
+          period: 1,
+          starts_at: 300,
+          expires_at: 420
+        }
+      ]);
+    });
+
+    it('should drop expired penalties when another is assessed', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...liveGame, active_penalties: [penalty(homeTeamId, 2, 0)] }]
+      });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, penaltyEvent(awayTeamId));
+
+      expect(storedPenalties().map(p => p.team_id)).toEqual([awayTeamId]);
+    });
+
+    it('should reject a penalty for a team not in the game', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [liveGame] });
+
+      await expect(applyEventToGame(tenantId, gameId, penaltyEvent('other-team'))).rejects.toThrow(
+        'is not part of game'
+      );
+    });
+
+    it('should release a minor penalty on a power-play goal', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...liveGame, active_penalties: [penalty(awayTeamId, 2, 240), penalty(awayTeamId, 2, 280, 'second')] }]
+      });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, goalEvent(homeTeamId));
+
+      // The penalty with the least time left is released
+      expect(storedPenalties().map(p => p.event_id)).toEqual(['second']);
+
+      const update = mockQuery.mock.calls.find(([sql]) => sql.includes('active_penalties = $1'));
+      expect(update![0]).toContain('released_penalties = released_penalties || $2::jsonb');
+      expect(update![0]).toContain('updated_at = NOW()');
+      expect(JSON.parse(update![1][1])).toEqual([
+        { goal_event_id: 'goal-1', penalty: expect.objectContaining({ event_id: `penalty-${awayTeamId}`, expires_at: 360 }) }
+      ]);
+    });
+
+    it('should not release a penalty on a shorthanded goal', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...liveGame, active_penalties: [penalty(awayTeamId, 2, 240)] }]
+      });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, goalEvent(awayTeamId));
+
+      expect(storedPenalties()).toHaveLength(1);
+      const update = mockQuery.mock.calls.find(([sql]) => sql.includes('active_penalties = $1'));
+      expect(JSON.parse(update![1][1])).toEqual([]);
+    });
+
+    it('should not touch penalties when there are none', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [liveGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, goalEvent(homeTeamId));
+
+      expect(mockQuery.mock.calls.some(([sql]) => sql.includes('active_penalties = $1'))).toBe(false);
+    });
+  });
+
+  describe('Shots', () => {
+    const shotEvent = (teamId: string, period: number): GameEvent => ({
+      event_id: 'event-12',
+      game_id: gameId,
+      tenant_id: tenantId,
+      event_type: EventType.SHOT_ON_GOAL,
+      event_version: '1.0',
+      occurred_at: '2024-01-15T19:10:00.000Z',
+      sort_key: '2024-01-15T19:10:00.000Z#event-12',
+      payload: {
+        team_id: teamId,
+        player_id: 'player-1',
+        period,
+        time_remaining: '12:00'
+      },
+      metadata: {
+        user_id: 'user-1',
+        source: 'mobile-app'
+      },
+      ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60
+    });
+
+    it('should increment home shots and the period\'s count', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...mockGame, shots_by_period: [{ period: 1, home_shots: 4, away_shots: 2 }] }]
+      });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, shotEvent(homeTeamId, 1));
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('home_shots = home_shots + 1');
+      expect(JSON.parse(params[0])).toEqual([{ period: 1, home_shots: 5, away_shots: 2 }]);
+      expect(params[1]).toBe(gameId);
+    });
+
+    it('should start a period\'s count with its first shot', async () => {
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...mockGame, shots_by_period: [{ period: 1, home_shots: 4, away_shots: 2 }] }]
+      });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, shotEvent(awayTeamId, 2));
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain('away_shots = away_shots + 1');
+      expect(JSON.parse(params[0])).toEqual([
+        { period: 1, home_shots: 4, away_shots: 2 },
+        { period: 2, home_shots: 0, away_shots: 1 }
+      ]);
+    });
+
+    it('should credit the shot to the player', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await applyEventToGame(tenantId, gameId, shotEvent(homeTeamId, 1));
+
+      const [sql, params] = mockQuery.mock.calls[2];
+      expect(sql).toContain('INSERT INTO player_game_stats');
+      expect(params).toEqual([gameId, 'player-1', homeTeamId, 0, 0, 1, 0, 0, 0]);
+    });
+
+    it('should reject a shot for a team not in the game', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [mockGame] });
+
+      await expect(applyEventToGame(tenantId, gameId, shotEvent('other-team', 1))).rejects.toThrow(
+        'is not part of game'
+      );
+    });
+  });
+
+  describe('Goalies', () => {
+    const goalieEvent = (
+      eventType: EventType,
+      payload: Record<string, unknown>
+    ): GameEvent => ({
+      event_id: 'event-13',
+      game_id: gameId,
+      tenant_id: tenantId,
+      event_type: eventType,
+      event_version: '1.0',
+      occurred_at: '2024-01-15T19:10:00.000Z',
+      sort_key: '2024-01-15T19:10:00.000Z#event-13',
+      payload: { period: 2, time_remaining: '15:00', ...payload },
+      metadata: {
+        user_id: 'user-1',
+        source: 'mobile-app'
+      },
+      ttl: Math.floor(Date.now() / 1000) + 90 * 24 * 60 * 60
+    });
+
+    // Clock stopped with 25 minutes of game time played
+    const liveGame = {
+      ...mockGame,
+      status: GameStatus.LIVE,
+      clock_seconds: 900,
+      clock_running: false,
+      clock_anchored_at: null,
+      elapsed_seconds: 1500,
+      home_goalie_id: 'goalie-1',
+      away_goalie_id: 'goalie-3',
+      home_goalie_since: 300,
+      away_goalie_since: 0
+    };
+
+    const callWith = (text: string) => mockQuery.mock.calls.find(([sql]) => sql.includes(text));
+
+    it('should put the new goalie in net and credit the goalie coming out', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+      mockQuery.mockResolvedValueOnce({ rows: [liveGame] });
+
+      await applyEventToGame(
+        tenantId,
+        gameId,
+        goalieEvent(EventType.GOALIE_CHANGED, { team_id: homeTeamId, goalie_id: 'goalie-2' })
+      );
+
+      const credits = mockQuery.mock.calls.filter(([sql]) => sql.includes('SET played_goalie = true'));
+      expect(credits.map(([, params]) => params)).toEqual([
+        [gameId, 'goalie-1', homeTeamId, 1200],
+        [gameId, 'goalie-2', homeTeamId, 0]
+      ]);
+      expect(callWith('home_goalie_id = $1')?.[1]).toEqual(['goalie-2', 1500, gameId]);
+    });
+
+    it('should leave the net empty when the goalie is pulled', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+      mockQuery.mockResolvedValueOnce({ rows: [liveGame] });
+
+      await applyEventToGame(
+        tenantId,
+        gameId,
+        goalieEvent(EventType.GOALIE_CHANGED, { team_id: awayTeamId, goalie_id: null })
+      );
+
+      const credits = mockQuery.mock.calls.filter(([sql]) => sql.includes('SET played_goalie = true'));
+      expect(credits.map(([, params]) => params)).toEqual([[gameId, 'goalie-3', awayTeamId, 1500]]);
+      expect(callWith('away_goalie_id = $1')?.[1]).toEqual([null, 1500, gameId]);
+    });
+
+    it('should reject a goalie change for a team not in the game', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [liveGame] });
+
+      await expect(
+        applyEventToGame(
+          tenantId,
+          gameId,
+          goalieEvent(EventType.GOALIE_CHANGED, { team_id: 'other-team', goalie_id: 'goalie-2' })
+        )
+      ).rejects.toThrow('is not part of game');
+    });
+
+    it('should credit the goalies in net with their time when the game is finalized', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...liveGame, clock_seconds: 0, elapsed_seconds: 3600 }] });
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...liveGame, status: GameStatus.FINAL, home_score: 2, away_score: 1 }]
+      });
+
+      await applyEventToGame(
+        tenantId,
+        gameId,
+        goalieEvent(EventType.GAME_FINALIZED, { final_home_score: 2, final_away_score: 1 })
+      );
+
+      const credits = mockQuery.mock.calls.filter(([sql]) => sql.includes('SET played_goalie = true'));
+      expect(credits.map(([, params]) => params)).toEqual([
+        [gameId, 'goalie-1', homeTeamId, 3300],
+        [gameId, 'goalie-3', awayTeamId, 3600]
+      ]);
+    });
+
+    it('should credit the goalie named on a shot with a shot against', async () => {
+      mockQuery.mockResolvedValue({ rows: [] });
+      mockQuery.mockResolvedValueOnce({ rows: [liveGame] });
+
+      await applyEventToGame(
+        tenantId,
+        gameId,
+        goalieEvent(EventType.SHOT_ON_GOAL, {
+          team_id: homeTeamId,
+          player_id: 'player-1',
+          goalie_id: 'goalie-3'
+        })
+      );
+
+      const stats = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO player_game_stats'));
+      expect(stats.map(([, params]) => params)).toEqual([
+        [gameId, 'player-1', homeTeamId, 0, 0, 1, 0, 0, 0],
+        [gameId, 'goalie-3', awayTeamId, 0, 0, 0, 0, 1, 0]
+      ]);
     });
   });
 
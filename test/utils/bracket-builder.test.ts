@@ -0,0 +1,253 @@
+/**
+ * Bracket Builder Tests
+ *
+ * Unit tests for bracket structure, progress resolution and game planning.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  bracketSize,
+  seedOrder,
+  buildBracketSeries,
+  resolveBracket,
+  planNextGames,
+} from '../../src/utils/bracket-builder';
+import {
+  BracketFormat,
+  BracketRecord,
+  BracketSeriesRow,
+  BracketSide,
+  SeriesStatus,
+} from '../../src/models/bracket';
+import { Game, GameStatus } from '../../src/models/game';
+
+const teams = (count: number): string[] =>
+  Array.from({ length: count }, (_, i) => `team-${i + 1}`);
+
+const record = (seedCount: number, format: BracketFormat, bestOf = 1): BracketRecord => ({
+  id: 'bracket-1',
+  season_id: 'season-1',
+  format,
+  best_of: bestOf,
+  seeds: teams(seedCount),
+  starts_at: new Date('2024-04-01T18:00:00Z'),
+  game_interval_hours: 48,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+});
+
+// Series ids are their keys to keep games readable
+const rows = (seedCount: number, format: BracketFormat): BracketSeriesRow[] =>
+  buildBracketSeries(seedCount, format).map(definition => ({
+    ...definition,
+    id: definition.key,
+    bracket_id: 'bracket-1',
+  }));
+
+const game = (
+  series: string,
+  number: number,
+  home: string,
+  away: string,
+  homeScore: number,
+  awayScore: number,
+  status = GameStatus.FINAL
+): Game => ({
+  id: `${series}-g${number}`,
+  season_id: 'season-1',
+  home_team_id: home,
+  away_team_id: away,
+  scheduled_at: new Date(Date.UTC(2024, 3, number)),
+  status,
+  home_score: homeScore,
+  away_score: awayScore,
+  bracket_series_id: series,
+  series_game_number: number,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-01'),
+});
+
+describe('Bracket Builder', () => {
+  describe('bracketSize', () => {
+    it('should round up to the next power of two', () => {
+      expect(bracketSize(2)).toBe(2);
+      expect(bracketSize(3)).toBe(4);
+      expect(bracketSize(8)).toBe(8);
+      expect(bracketSize(9)).toBe(16);
+    });
+  });
+
+  describe('seedOrder', () => {
+    it('should pair the best seeds with the worst and keep top seeds apart', () => {
+      expect(seedOrder(4)).toEqual([1, 4, 2, 3]);
+      expect(seedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+    });
+  });
+
+  describe('buildBracketSeries', () => {
+    it('should build a single elimination bracket with winner-fed later rounds', () => {
+      const series = buildBracketSeries(8, BracketFormat.SINGLE_ELIMINATION);
+
+      expect(series.map(s => s.key)).toEqual(['W1-1', 'W1-2', 'W1-3', 'W1-4', 'W2-1', 'W2-2', 'W3-1']);
+      expect(series[1]).toMatchObject({
+        home_source: { type: 'seed', seed: 4 },
+        away_source: { type: 'seed', seed: 5 },
+      });
+      expect(series[4]).toMatchObject({
+        home_source: { type: 'winner', series: 'W1-1' },
+        away_source: { type: 'winner', series: 'W1-2' },
+      });
+    });
+
+    it('should add a losers side and a grand final for double elimination', () => {
+      const series = buildBracketSeries(8, BracketFormat.DOUBLE_ELIMINATION);
+      const bySide = (side: BracketSide) => series.filter(s => s.side === side).map(s => s.key);
+
+      expect(series).toHaveLength(14);
+      expect(bySide(BracketSide.LOSERS)).toEqual(['L1-1', 'L1-2', 'L2-1', 'L2-2', 'L3-1', 'L4-1']);
+      expect(series.find(s => s.key === 'L2-1')).toMatchObject({
+        home_source: { type: 'winner', series: 'L1-1' },
+        away_source: { type: 'loser', series: 'W2-2' },
+      });
+      expect(series.find(s => s.key === 'F1-1')).toMatchObject({
+        home_source: { type: 'winner', series: 'W3-1' },
+        away_source: { type: 'winner', series: 'L4-1' },
+      });
+    });
+
+    it('should build a four-team double elimination bracket', () => {
+      const series = buildBracketSeries(4, BracketFormat.DOUBLE_ELIMINATION);
+
+      expect(series.map(s => s.key)).toEqual(['W1-1', 'W1-2', 'W2-1', 'L1-1', 'L2-1', 'F1-1']);
+    });
+  });
+
+  describe('resolveBracket', () => {
+    it('should advance top seeds through byes', () => {
+      const bracket = resolveBracket(
+        record(5, BracketFormat.SINGLE_ELIMINATION),
+        rows(5, BracketFormat.SINGLE_ELIMINATION),
+        []
+      );
+      const series = new Map(bracket.series.map(s => [s.key, s]));
+
+      expect(series.get('W1-1')).toMatchObject({ status: SeriesStatus.BYE, winner_team_id: 'team-1' });
+      expect(series.get('W1-2')).toMatchObject({
+        status: SeriesStatus.ACTIVE,
+        home_team_id: 'team-4',
+        away_team_id: 'team-5',
+      });
+      expect(series.get('W2-1')).toMatchObject({ status: SeriesStatus.PENDING, home_team_id: 'team-1' });
+      expect(series.get('W2-2')).toMatchObject({
+        status: SeriesStatus.ACTIVE,
+        home_team_id: 'team-2',
+        away_team_id: 'team-3',
+        home_seed: 2,
+        away_seed: 3,
+      });
+      expect(bracket.champion_team_id).toBeUndefined();
+    });
+
+    it('should count wins from final games and decide a best-of series', () => {
+      const bracketRecord = record(2, BracketFormat.SINGLE_ELIMINATION, 3);
+      const seriesRows = rows(2, BracketFormat.SINGLE_ELIMINATION);
+
+      const tied = resolveBracket(bracketRecord, seriesRows, [
+        game('W1-1', 1, 'team-1', 'team-2', 3, 1),
+        game('W1-1', 2, 'team-2', 'team-1', 4, 2),
+        game('W1-1', 3, 'team-1', 'team-2', 0, 0, GameStatus.LIVE),
+      ]);
+      expect(tied.series[0]).toMatchObject({ home_wins: 1, away_wins: 1, status: SeriesStatus.ACTIVE });
+
+      const decided = resolveBracket(bracketRecord, seriesRows, [
+        game('W1-1', 1, 'team-1', 'team-2', 3, 1),
+        game('W1-1', 2, 'team-2', 'team-1', 4, 2),
+        game('W1-1', 3, 'team-1', 'team-2', 1, 2),
+      ]);
+      expect(decided.series[0]).toMatchObject({
+        home_wins: 1,
+        away_wins: 2,
+        status: SeriesStatus.COMPLETE,
+        winner_team_id: 'team-2',
+        loser_team_id: 'team-1',
+        game_ids: ['W1-1-g1', 'W1-1-g2', 'W1-1-g3'],
+      });
+      expect(decided.champion_team_id).toBe('team-2');
+    });
+
+    it('should send winners-side losers to the losers side', () => {
+      const bracket = resolveBracket(
+        record(4, BracketFormat.DOUBLE_ELIMINATION),
+        rows(4, BracketFormat.DOUBLE_ELIMINATION),
+        [
+          game('W1-1', 1, 'team-1', 'team-4', 1, 3),
+          game('W1-2', 1, 'team-2', 'team-3', 2, 0),
+        ]
+      );
+      const series = new Map(bracket.series.map(s => [s.key, s]));
+
+      expect(series.get('W2-1')).toMatchObject({ home_team_id: 'team-2', away_team_id: 'team-4' });
+      expect(series.get('L1-1')).toMatchObject({
+        status: SeriesStatus.ACTIVE,
+        home_team_id: 'team-1',
+        away_team_id: 'team-3',
+      });
+    });
+  });
+
+  describe('planNextGames', () => {
+    it('should plan first games at the bracket start', () => {
+      const bracket = resolveBracket(
+        record(4, BracketFormat.SINGLE_ELIMINATION),
+        rows(4, BracketFormat.SINGLE_ELIMINATION),
+        []
+      );
+
+      const planned = planNextGames(bracket, []);
+
+      expect(planned).toEqual([
+        {
+          bracket_series_id: 'W1-1',
+          series_game_number: 1,
+          home_team_id: 'team-1',
+          away_team_id: 'team-4',
+          scheduled_at: new Date('2024-04-01T18:00:00Z'),
+          location: undefined,
+        },
+        {
+          bracket_series_id: 'W1-2',
+          series_game_number: 1,
+          home_team_id: 'team-2',
+          away_team_id: 'team-3',
+          scheduled_at: new Date('2024-04-01T18:00:00Z'),
+          location: undefined,
+        },
+      ]);
+    });
+
+    it('should alternate hosts and space games within a series', () => {
+      const bracketRecord = record(2, BracketFormat.SINGLE_ELIMINATION, 5);
+      const games = [
+        { ...game('W1-1', 1, 'team-1', 'team-2', 3, 1), scheduled_at: new Date('2024-04-01T18:00:00Z') },
+      ];
+      const bracket = resolveBracket(bracketRecord, rows(2, BracketFormat.SINGLE_ELIMINATION), games);
+
+      expect(planNextGames(bracket, games)).toEqual([
+        expect.objectContaining({
+          series_game_number: 2,
+          home_team_id: 'team-2',
+          away_team_id: 'team-1',
+          scheduled_at: new Date('2024-04-03T18:00:00Z'),
+        }),
+      ]);
+    });
+
+    it('should not plan a game while one is in progress', () => {
+      const bracketRecord = record(2, BracketFormat.SINGLE_ELIMINATION, 3);
+      const games = [game('W1-1', 1, 'team-1', 'team-2', 0, 0, GameStatus.SCHEDULED)];
+      const bracket = resolveBracket(bracketRecord, rows(2, BracketFormat.SINGLE_ELIMINATION), games);
+
+      expect(planNextGames(bracket, games)).toEqual([]);
+    });
+  });
+});
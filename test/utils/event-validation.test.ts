@@ -1,13 +1,15 @@
 /**
  * Event Validation Tests
  * 
- * Unit tests for event payload validation against event_type-specific schemas.
+ * Unit tests for event payload validation against event_type-specific schemas
+ * and the event catalogs of each sport.
  * 
  * Requirements: 6.1, 6.6, 8.6, 10.5
  */
 
-import { validateEventPayload, isValidEventType } from '../../src/utils/event-validation';
+import { validateEventPayload, isValidEventType, eventTypesForSport } from '../../src/utils/event-validation';
 import { EventType } from '../../src/models/event';
+import { SportType } from '../../src/models/league';
 import { BadRequestError } from '../../src/models/errors';
 
 describe('Event Validation', () => {
@@ -19,7 +21,7 @@ describe('Event Validation', () => {
           location: 'Arena 1'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_STARTED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_STARTED, payload)).not.toThrow();
       });
       
       it('should validate GAME_STARTED payload without optional location', () => {
@@ -27,7 +29,7 @@ describe('Event Validation', () => {
           start_time: '2024-01-15T14:00:00.000Z'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_STARTED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_STARTED, payload)).not.toThrow();
       });
       
       it('should reject GAME_STARTED payload missing start_time', () => {
@@ -35,7 +37,7 @@ describe('Event Validation', () => {
           location: 'Arena 1'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_STARTED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_STARTED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject GAME_STARTED payload with invalid start_time format', () => {
@@ -43,7 +45,7 @@ describe('Event Validation', () => {
           start_time: 'invalid-date'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_STARTED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_STARTED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject GAME_STARTED payload with additional properties', () => {
@@ -52,7 +54,7 @@ describe('Event Validation', () => {
           extra_field: 'not allowed'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_STARTED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_STARTED, payload)).toThrow(BadRequestError);
       });
     });
     
@@ -66,7 +68,7 @@ describe('Event Validation', () => {
           time_remaining: '08:45'
         };
         
-        expect(() => validateEventPayload(EventType.GOAL_SCORED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, payload)).not.toThrow();
       });
       
       it('should validate GOAL_SCORED payload without optional assist_player_id', () => {
@@ -77,7 +79,23 @@ describe('Event Validation', () => {
           time_remaining: '08:45'
         };
         
-        expect(() => validateEventPayload(EventType.GOAL_SCORED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, payload)).not.toThrow();
+      });
+      
+      it('should validate GOAL_SCORED payload naming the goalie or an empty net', () => {
+        const payload = {
+          team_id: '123e4567-e89b-12d3-a456-426614174000',
+          player_id: '223e4567-e89b-12d3-a456-426614174000',
+          period: 2,
+          time_remaining: '08:45'
+        };
+        
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, {
+          ...payload,
+          goalie_id: '423e4567-e89b-12d3-a456-426614174000'
+        })).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, { ...payload, goalie_id: null })).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, { ...payload, goalie_id: 'goalie' })).toThrow(BadRequestError);
       });
       
       it('should reject GOAL_SCORED payload missing required fields', () => {
@@ -85,7 +103,7 @@ describe('Event Validation', () => {
           team_id: '123e4567-e89b-12d3-a456-426614174000'
         };
         
-        expect(() => validateEventPayload(EventType.GOAL_SCORED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject GOAL_SCORED payload with invalid UUID format', () => {
@@ -96,7 +114,7 @@ describe('Event Validation', () => {
           time_remaining: '08:45'
         };
         
-        expect(() => validateEventPayload(EventType.GOAL_SCORED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject GOAL_SCORED payload with invalid period (< 1)', () => {
@@ -107,7 +125,7 @@ describe('Event Validation', () => {
           time_remaining: '08:45'
         };
         
-        expect(() => validateEventPayload(EventType.GOAL_SCORED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject GOAL_SCORED payload with invalid time_remaining format', () => {
@@ -118,7 +136,7 @@ describe('Event Validation', () => {
           time_remaining: '8:45' // Should be 08:45
         };
         
-        expect(() => validateEventPayload(EventType.GOAL_SCORED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, payload)).toThrow(BadRequestError);
       });
     });
     
@@ -133,7 +151,7 @@ describe('Event Validation', () => {
           time_remaining: '12:30'
         };
         
-        expect(() => validateEventPayload(EventType.PENALTY_ASSESSED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.PENALTY_ASSESSED, payload)).not.toThrow();
       });
       
       it('should reject PENALTY_ASSESSED payload missing required fields', () => {
@@ -142,7 +160,7 @@ describe('Event Validation', () => {
           player_id: '223e4567-e89b-12d3-a456-426614174000'
         };
         
-        expect(() => validateEventPayload(EventType.PENALTY_ASSESSED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.PENALTY_ASSESSED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject PENALTY_ASSESSED payload with negative duration', () => {
@@ -155,7 +173,7 @@ describe('Event Validation', () => {
           time_remaining: '12:30'
         };
         
-        expect(() => validateEventPayload(EventType.PENALTY_ASSESSED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.PENALTY_ASSESSED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject PENALTY_ASSESSED payload with empty penalty_type', () => {
@@ -168,7 +186,7 @@ describe('Event Validation', () => {
           time_remaining: '12:30'
         };
         
-        expect(() => validateEventPayload(EventType.PENALTY_ASSESSED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.PENALTY_ASSESSED, payload)).toThrow(BadRequestError);
       });
     });
     
@@ -180,7 +198,7 @@ describe('Event Validation', () => {
           away_score: 1
         };
         
-        expect(() => validateEventPayload(EventType.PERIOD_ENDED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.PERIOD_ENDED, payload)).not.toThrow();
       });
       
       it('should validate PERIOD_ENDED payload with zero scores', () => {
@@ -190,7 +208,7 @@ describe('Event Validation', () => {
           away_score: 0
         };
         
-        expect(() => validateEventPayload(EventType.PERIOD_ENDED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.PERIOD_ENDED, payload)).not.toThrow();
       });
       
       it('should reject PERIOD_ENDED payload missing required fields', () => {
@@ -198,7 +216,7 @@ describe('Event Validation', () => {
           period: 1
         };
         
-        expect(() => validateEventPayload(EventType.PERIOD_ENDED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.PERIOD_ENDED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject PERIOD_ENDED payload with negative scores', () => {
@@ -208,7 +226,7 @@ describe('Event Validation', () => {
           away_score: 1
         };
         
-        expect(() => validateEventPayload(EventType.PERIOD_ENDED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.PERIOD_ENDED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject PERIOD_ENDED payload with invalid period (< 1)', () => {
@@ -218,7 +236,85 @@ describe('Event Validation', () => {
           away_score: 1
         };
         
-        expect(() => validateEventPayload(EventType.PERIOD_ENDED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.PERIOD_ENDED, payload)).toThrow(BadRequestError);
+      });
+    });
+    
+    describe('CLOCK_STARTED and CLOCK_STOPPED', () => {
+      it('should validate an empty payload', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.CLOCK_STARTED, {})).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.CLOCK_STOPPED, {})).not.toThrow();
+      });
+      
+      it('should validate a payload with the clock reading', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.CLOCK_STOPPED, { clock_seconds: 754 })).not.toThrow();
+      });
+      
+      it('should reject a fractional or negative clock reading', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.CLOCK_STOPPED, { clock_seconds: 75.5 })).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.CLOCK_STARTED, { clock_seconds: -1 })).toThrow(BadRequestError);
+      });
+    });
+    
+    describe('CLOCK_SET', () => {
+      it('should validate valid CLOCK_SET payload', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.CLOCK_SET, { clock_seconds: 1200, period: 2 })).not.toThrow();
+      });
+      
+      it('should validate CLOCK_SET payload without optional period', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.CLOCK_SET, { clock_seconds: 300 })).not.toThrow();
+      });
+      
+      it('should reject CLOCK_SET payload missing clock_seconds', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.CLOCK_SET, { period: 2 })).toThrow(BadRequestError);
+      });
+      
+      it('should reject CLOCK_SET payload with invalid period (< 1)', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.CLOCK_SET, { clock_seconds: 300, period: 0 })).toThrow(BadRequestError);
+      });
+    });
+    
+    describe('SHOT_ON_GOAL', () => {
+      const payload = {
+        team_id: '123e4567-e89b-12d3-a456-426614174000',
+        player_id: '223e4567-e89b-12d3-a456-426614174000',
+        period: 1,
+        time_remaining: '14:10'
+      };
+      
+      it('should validate SHOT_ON_GOAL payload with or without goalie_id', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.SHOT_ON_GOAL, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.SHOT_ON_GOAL, {
+          ...payload,
+          goalie_id: '423e4567-e89b-12d3-a456-426614174000'
+        })).not.toThrow();
+      });
+      
+      it('should reject SHOT_ON_GOAL payload with invalid goalie_id', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.SHOT_ON_GOAL, { ...payload, goalie_id: 'goalie' })).toThrow(BadRequestError);
+      });
+    });
+    
+    describe('GOALIE_CHANGED', () => {
+      const payload = {
+        team_id: '123e4567-e89b-12d3-a456-426614174000',
+        goalie_id: '423e4567-e89b-12d3-a456-426614174000',
+        period: 3,
+        time_remaining: '02:00'
+      };
+      
+      it('should validate valid GOALIE_CHANGED payload', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOALIE_CHANGED, payload)).not.toThrow();
+      });
+      
+      it('should validate GOALIE_CHANGED payload pulling the goalie', () => {
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOALIE_CHANGED, { ...payload, goalie_id: null })).not.toThrow();
+      });
+      
+      it('should reject GOALIE_CHANGED payload missing team_id', () => {
+        const { team_id: _teamId, ...withoutTeam } = payload;
+        
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOALIE_CHANGED, withoutTeam)).toThrow(BadRequestError);
       });
     });
     
@@ -229,7 +325,7 @@ describe('Event Validation', () => {
           final_away_score: 3
         };
         
-        expect(() => validateEventPayload(EventType.GAME_FINALIZED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_FINALIZED, payload)).not.toThrow();
       });
       
       it('should validate GAME_FINALIZED payload with zero scores', () => {
@@ -238,7 +334,7 @@ describe('Event Validation', () => {
           final_away_score: 0
         };
         
-        expect(() => validateEventPayload(EventType.GAME_FINALIZED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_FINALIZED, payload)).not.toThrow();
       });
       
       it('should reject GAME_FINALIZED payload missing required fields', () => {
@@ -246,7 +342,7 @@ describe('Event Validation', () => {
           final_home_score: 5
         };
         
-        expect(() => validateEventPayload(EventType.GAME_FINALIZED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_FINALIZED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject GAME_FINALIZED payload with negative scores', () => {
@@ -255,7 +351,27 @@ describe('Event Validation', () => {
           final_away_score: 3
         };
         
-        expect(() => validateEventPayload(EventType.GAME_FINALIZED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_FINALIZED, payload)).toThrow(BadRequestError);
+      });
+      
+      it('should validate GAME_FINALIZED payload with decided_in', () => {
+        const payload = {
+          final_home_score: 4,
+          final_away_score: 3,
+          decided_in: 'shootout'
+        };
+        
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_FINALIZED, payload)).not.toThrow();
+      });
+      
+      it('should reject GAME_FINALIZED payload with unknown decided_in', () => {
+        const payload = {
+          final_home_score: 4,
+          final_away_score: 3,
+          decided_in: 'sudden_death'
+        };
+        
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_FINALIZED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject GAME_FINALIZED payload with additional properties', () => {
@@ -265,7 +381,7 @@ describe('Event Validation', () => {
           extra_field: 'not allowed'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_FINALIZED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_FINALIZED, payload)).toThrow(BadRequestError);
       });
     });
     
@@ -276,7 +392,7 @@ describe('Event Validation', () => {
           cancelled_at: '2024-01-15T14:00:00.000Z'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_CANCELLED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_CANCELLED, payload)).not.toThrow();
       });
       
       it('should reject GAME_CANCELLED payload missing required fields', () => {
@@ -284,7 +400,7 @@ describe('Event Validation', () => {
           reason: 'Weather conditions'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_CANCELLED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_CANCELLED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject GAME_CANCELLED payload with empty reason', () => {
@@ -293,7 +409,7 @@ describe('Event Validation', () => {
           cancelled_at: '2024-01-15T14:00:00.000Z'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_CANCELLED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_CANCELLED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject GAME_CANCELLED payload with invalid cancelled_at format', () => {
@@ -302,7 +418,7 @@ describe('Event Validation', () => {
           cancelled_at: 'invalid-date'
         };
         
-        expect(() => validateEventPayload(EventType.GAME_CANCELLED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GAME_CANCELLED, payload)).toThrow(BadRequestError);
       });
     });
     
@@ -315,7 +431,7 @@ describe('Event Validation', () => {
           reason: 'Scoring error corrected'
         };
         
-        expect(() => validateEventPayload(EventType.SCORE_CORRECTED, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.SCORE_CORRECTED, payload)).not.toThrow();
       });
       
       it('should reject SCORE_CORRECTED payload missing required fields', () => {
@@ -324,7 +440,7 @@ describe('Event Validation', () => {
           old_score: 3
         };
         
-        expect(() => validateEventPayload(EventType.SCORE_CORRECTED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.SCORE_CORRECTED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject SCORE_CORRECTED payload with invalid UUID', () => {
@@ -335,7 +451,7 @@ describe('Event Validation', () => {
           reason: 'Scoring error corrected'
         };
         
-        expect(() => validateEventPayload(EventType.SCORE_CORRECTED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.SCORE_CORRECTED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject SCORE_CORRECTED payload with negative scores', () => {
@@ -346,7 +462,7 @@ describe('Event Validation', () => {
           reason: 'Scoring error corrected'
         };
         
-        expect(() => validateEventPayload(EventType.SCORE_CORRECTED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.SCORE_CORRECTED, payload)).toThrow(BadRequestError);
       });
       
       it('should reject SCORE_CORRECTED payload with empty reason', () => {
@@ -357,7 +473,141 @@ describe('Event Validation', () => {
           reason: ''
         };
         
-        expect(() => validateEventPayload(EventType.SCORE_CORRECTED, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.SCORE_CORRECTED, payload)).toThrow(BadRequestError);
+      });
+    });
+    
+    describe('Sport event catalogs', () => {
+      const teamId = '123e4567-e89b-12d3-a456-426614174000';
+      const playerId = '223e4567-e89b-12d3-a456-426614174000';
+      
+      it('should validate basketball FIELD_GOAL worth 2 or 3 points', () => {
+        const payload = { team_id: teamId, player_id: playerId, points: 3, period: 4, time_remaining: '00:04' };
+        
+        expect(() => validateEventPayload(SportType.BASKETBALL, EventType.FIELD_GOAL, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.BASKETBALL, EventType.FIELD_GOAL, { ...payload, points: 1 })).toThrow(BadRequestError);
+      });
+      
+      it('should validate FIELD_GOAL against the schema of the game\'s sport', () => {
+        const payload = { team_id: teamId, player_id: playerId, distance_yards: 47, period: 2, time_remaining: '00:03' };
+        
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.FIELD_GOAL, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.BASKETBALL, EventType.FIELD_GOAL, payload)).toThrow('Invalid event payload');
+      });
+      
+      it('should validate basketball FREE_THROW and FOUL payloads', () => {
+        const payload = { team_id: teamId, player_id: playerId, period: 2, time_remaining: '05:12' };
+        
+        expect(() => validateEventPayload(SportType.BASKETBALL, EventType.FREE_THROW, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.BASKETBALL, EventType.FOUL, { ...payload, foul_type: 'personal' })).not.toThrow();
+        expect(() => validateEventPayload(SportType.BASKETBALL, EventType.FOUL, payload)).toThrow(BadRequestError);
+      });
+      
+      it('should validate baseball events by inning and half', () => {
+        expect(() => validateEventPayload(SportType.BASEBALL, EventType.RUN_SCORED, {
+          team_id: teamId,
+          player_id: playerId,
+          inning: 7,
+          half: 'bottom'
+        })).not.toThrow();
+        expect(() => validateEventPayload(SportType.BASEBALL, EventType.OUT_RECORDED, {
+          team_id: teamId,
+          out_type: 'strikeout',
+          inning: 1,
+          half: 'top'
+        })).not.toThrow();
+        expect(() => validateEventPayload(SportType.BASEBALL, EventType.INNING_ENDED, { inning: 1, half: 'middle' })).toThrow(BadRequestError);
+      });
+      
+      it('should validate football TOUCHDOWN and SAFETY payloads', () => {
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.TOUCHDOWN, {
+          team_id: teamId,
+          player_id: playerId,
+          passer_id: '323e4567-e89b-12d3-a456-426614174000',
+          period: 3,
+          time_remaining: '11:20'
+        })).not.toThrow();
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.SAFETY, {
+          team_id: teamId,
+          period: 1,
+          time_remaining: '02:45'
+        })).not.toThrow();
+      });
+      
+      it('should validate rugby scoring payloads', () => {
+        const rugbyPayload = { team_id: teamId, player_id: playerId, period: 2, time_remaining: '31:05' };
+        
+        expect(() => validateEventPayload(SportType.RUGBY, EventType.TRY, rugbyPayload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.RUGBY, EventType.CONVERSION, rugbyPayload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.RUGBY, EventType.PENALTY_GOAL, rugbyPayload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.RUGBY, EventType.DROP_GOAL, rugbyPayload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.RUGBY, EventType.CONVERSION, { ...rugbyPayload, player_id: undefined })).toThrow(BadRequestError);
+      });
+      
+      it('should reject event types outside the sport\'s catalog', () => {
+        const payload = { team_id: teamId, player_id: playerId, period: 1, time_remaining: '10:00' };
+        
+        try {
+          validateEventPayload(SportType.BASKETBALL, EventType.GOAL_SCORED, payload);
+          fail('Should have thrown BadRequestError');
+        } catch (error: any) {
+          expect(error).toBeInstanceOf(BadRequestError);
+          expect(error.message).toBe('Event type GOAL_SCORED is not valid for basketball games');
+          expect(error.code).toBe('INVALID_EVENT_TYPE_FOR_SPORT');
+          expect(error.details.allowed_event_types).toContain(EventType.FIELD_GOAL);
+        }
+        expect(() => validateEventPayload(SportType.BASEBALL, EventType.CLOCK_SET, { clock_seconds: 0 })).toThrow(
+          'not valid for baseball games'
+        );
+      });
+    });
+    
+    describe('Scoring points', () => {
+      const teamId = '123e4567-e89b-12d3-a456-426614174000';
+      const playerId = '223e4567-e89b-12d3-a456-426614174000';
+      const payload = { team_id: teamId, player_id: playerId, period: 4, time_remaining: '01:30' };
+      
+      it('should accept the point values the sport allows', () => {
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.TOUCHDOWN, { ...payload, points: 6 })).not.toThrow();
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.TWO_POINT_CONVERSION, { ...payload, points: 2 })).not.toThrow();
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.EXTRA_POINT, { ...payload, points: 0 })).not.toThrow();
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.SAFETY, { team_id: teamId, points: 2, period: 4, time_remaining: '01:30' })).not.toThrow();
+        expect(() => validateEventPayload(SportType.BASKETBALL, EventType.FREE_THROW, { ...payload, points: 1 })).not.toThrow();
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, { ...payload, points: 1 })).not.toThrow();
+      });
+      
+      it('should accept scoring events without points', () => {
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.TOUCHDOWN, payload)).not.toThrow();
+        expect(() => validateEventPayload(SportType.BASEBALL, EventType.RUN_SCORED, {
+          team_id: teamId,
+          player_id: playerId,
+          inning: 3,
+          half: 'top'
+        })).not.toThrow();
+      });
+      
+      it('should reject point values the sport doesn\'t allow', () => {
+        try {
+          validateEventPayload(SportType.FOOTBALL, EventType.TOUCHDOWN, { ...payload, points: 3 });
+          fail('Should have thrown BadRequestError');
+        } catch (error: any) {
+          expect(error).toBeInstanceOf(BadRequestError);
+          expect(error.code).toBe('INVALID_EVENT_PAYLOAD');
+          expect(error.details.points).toBe('Must be one of: 6');
+        }
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.TOUCHDOWN, { ...payload, points: 7 })).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.EXTRA_POINT, { ...payload, points: 2 })).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.FOOTBALL, EventType.FIELD_GOAL, { ...payload, points: 2 })).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, { ...payload, points: 2 })).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.RUGBY, EventType.TRY, { ...payload, points: 7 })).toThrow(BadRequestError);
+      });
+      
+      it('should reject points on events that don\'t score', () => {
+        expect(() => validateEventPayload(SportType.BASKETBALL, EventType.FOUL, {
+          ...payload,
+          foul_type: 'personal',
+          points: 1
+        })).toThrow(BadRequestError);
       });
     });
     
@@ -365,8 +615,8 @@ describe('Event Validation', () => {
       it('should throw BadRequestError for unknown event type', () => {
         const payload = { some: 'data' };
         
-        expect(() => validateEventPayload('UNKNOWN_EVENT' as EventType, payload)).toThrow(BadRequestError);
-        expect(() => validateEventPayload('UNKNOWN_EVENT' as EventType, payload)).toThrow('Unknown event type');
+        expect(() => validateEventPayload(SportType.HOCKEY, 'UNKNOWN_EVENT' as EventType, payload)).toThrow(BadRequestError);
+        expect(() => validateEventPayload(SportType.HOCKEY, 'UNKNOWN_EVENT' as EventType, payload)).toThrow('Unknown event type');
       });
       
       it('should include INVALID_EVENT_PAYLOAD error code', () => {
@@ -376,7 +626,7 @@ describe('Event Validation', () => {
         };
         
         try {
-          validateEventPayload(EventType.GOAL_SCORED, payload);
+          validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, payload);
           fail('Should have thrown BadRequestError');
         } catch (error: any) {
           expect(error).toBeInstanceOf(BadRequestError);
@@ -394,7 +644,7 @@ describe('Event Validation', () => {
         };
         
         try {
-          validateEventPayload(EventType.GOAL_SCORED, payload);
+          validateEventPayload(SportType.HOCKEY, EventType.GOAL_SCORED, payload);
           fail('Should have thrown BadRequestError');
         } catch (error: any) {
           expect(error).toBeInstanceOf(BadRequestError);
@@ -405,6 +655,33 @@ describe('Event Validation', () => {
     });
   });
   
+  describe('eventTypesForSport', () => {
+    it('should give every sport the game lifecycle events', () => {
+      for (const sportType of Object.values(SportType)) {
+        expect(eventTypesForSport(sportType)).toEqual(
+          expect.arrayContaining([EventType.GAME_STARTED, EventType.GAME_FINALIZED, EventType.EVENT_REVERSAL])
+        );
+      }
+    });
+    
+    it('should share goal events between hockey and soccer only', () => {
+      expect(eventTypesForSport(SportType.SOCCER)).toEqual(eventTypesForSport(SportType.HOCKEY));
+      expect(eventTypesForSport(SportType.FOOTBALL)).not.toContain(EventType.GOAL_SCORED);
+    });
+    
+    it('should leave clock events out of baseball', () => {
+      expect(eventTypesForSport(SportType.BASEBALL)).not.toContain(EventType.CLOCK_STARTED);
+      expect(eventTypesForSport(SportType.BASEBALL)).toContain(EventType.INNING_ENDED);
+    });
+    
+    it('should give rugby its own scoring events', () => {
+      expect(eventTypesForSport(SportType.RUGBY)).toEqual(
+        expect.arrayContaining([EventType.TRY, EventType.CONVERSION, EventType.PENALTY_GOAL, EventType.DROP_GOAL])
+      );
+      expect(eventTypesForSport(SportType.RUGBY)).not.toContain(EventType.TOUCHDOWN);
+    });
+  });
+  
   describe('isValidEventType', () => {
     it('should return true for valid event types', () => {
       expect(isValidEventType('GAME_STARTED')).toBe(true);
@@ -414,6 +691,7 @@ describe('Event Validation', () => {
       expect(isValidEventType('GAME_FINALIZED')).toBe(true);
       expect(isValidEventType('GAME_CANCELLED')).toBe(true);
       expect(isValidEventType('SCORE_CORRECTED')).toBe(true);
+      expect(isValidEventType('GOALIE_CHANGED')).toBe(true);
     });
     
     it('should return false for invalid event types', () => {
@@ -0,0 +1,55 @@
+/**
+ * Game Clock Tests
+ *
+ * Unit tests for reading the game clock and elapsed game time from its last anchor.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { clockSecondsAt, elapsedSecondsAt } from '../../src/utils/game-clock';
+
+const anchoredAt = new Date('2024-01-15T19:00:00Z');
+
+describe('clockSecondsAt', () => {
+  it('should count a running clock down from its anchor', () => {
+    const clock = { clock_seconds: 1200, clock_running: true, clock_anchored_at: anchoredAt };
+
+    expect(clockSecondsAt(clock, new Date('2024-01-15T19:05:30.900Z'))).toBe(870);
+  });
+
+  it('should stop a running clock at zero', () => {
+    const clock = { clock_seconds: 60, clock_running: true, clock_anchored_at: anchoredAt };
+
+    expect(clockSecondsAt(clock, new Date('2024-01-15T19:05:00Z'))).toBe(0);
+  });
+
+  it('should keep a stopped clock\'s value', () => {
+    const clock = { clock_seconds: 754, clock_running: false };
+
+    expect(clockSecondsAt(clock, new Date('2024-01-15T19:05:00Z'))).toBe(754);
+  });
+
+  it('should not count up for a time before the anchor', () => {
+    const clock = { clock_seconds: 1200, clock_running: true, clock_anchored_at: anchoredAt };
+
+    expect(clockSecondsAt(clock, new Date('2024-01-15T18:59:00Z'))).toBe(1200);
+  });
+});
+
+describe('elapsedSecondsAt', () => {
+  it('should add the time run since the last anchor to the time played before it', () => {
+    const clock = {
+      clock_seconds: 900,
+      clock_running: true,
+      clock_anchored_at: anchoredAt,
+      elapsed_seconds: 300,
+    };
+
+    expect(elapsedSecondsAt(clock, new Date('2024-01-15T19:01:30Z'))).toBe(390);
+  });
+
+  it('should not advance while the clock is stopped', () => {
+    const clock = { clock_seconds: 900, clock_running: false, elapsed_seconds: 300 };
+
+    expect(elapsedSecondsAt(clock, new Date('2024-01-15T19:05:00Z'))).toBe(300);
+  });
+});
@@ -0,0 +1,49 @@
+/**
+ * Goalie Stats Tests
+ *
+ * Unit tests for save percentage, goals against average and goalie stats.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { goalieStats, goalsAgainstAverage, savePercentage } from '../../src/utils/goalie-stats';
+
+describe('savePercentage', () => {
+  it('should give saves per shot against to three decimals', () => {
+    expect(savePercentage(30, 3)).toBe(0.9);
+    expect(savePercentage(35, 3)).toBe(0.914);
+    expect(savePercentage(12, 0)).toBe(1);
+  });
+
+  it('should be null without shots against', () => {
+    expect(savePercentage(0, 0)).toBeNull();
+  });
+
+  it('should not go below zero when goals weren\'t recorded as shots', () => {
+    expect(savePercentage(2, 3)).toBe(0);
+  });
+});
+
+describe('goalsAgainstAverage', () => {
+  it('should give goals against per 60 minutes to two decimals', () => {
+    expect(goalsAgainstAverage(3, 3600)).toBe(3);
+    expect(goalsAgainstAverage(2, 2400)).toBe(3);
+    expect(goalsAgainstAverage(5, 7000)).toBe(2.57);
+  });
+
+  it('should be null without time in net', () => {
+    expect(goalsAgainstAverage(1, 0)).toBeNull();
+  });
+});
+
+describe('goalieStats', () => {
+  it('should work out saves and averages from shots, goals and time', () => {
+    expect(goalieStats(25, 2, 3600)).toEqual({
+      shots_against: 25,
+      goals_against: 2,
+      saves: 23,
+      save_percentage: 0.92,
+      seconds_played: 3600,
+      goals_against_average: 2,
+    });
+  });
+});
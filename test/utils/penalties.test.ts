@@ -0,0 +1,123 @@
+/**
+ * Penalty Tests
+ *
+ * Unit tests for penalty expiry, man-advantage and power-play goal releases
+ * and their reversal.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { ActivePenalty } from '../../src/models/game';
+import {
+  describePenaltiesAt,
+  manAdvantageAt,
+  penaltyReleasedByGoal,
+  releasePenaltyOnGoal,
+  restoreReleasedPenalty,
+} from '../../src/utils/penalties';
+
+const home = 'team-home';
+const away = 'team-away';
+
+const penalty = (
+  eventId: string,
+  teamId: string,
+  durationMinutes: number,
+  startsAt: number
+): ActivePenalty => ({
+  event_id: eventId,
+  team_id: teamId,
+  player_id: `player-${eventId}`,
+  penalty_type: 'Tripping',
+  duration_minutes: durationMinutes,
+  period: 1,
+  starts_at: startsAt,
+  expires_at: startsAt + durationMinutes * 60,
+});
+
+describe('describePenaltiesAt', () => {
+  it('should list unexpired penalties soonest to expire first', () => {
+    const penalties = [penalty('a', away, 5, 100), penalty('b', home, 2, 150), penalty('c', away, 2, 0)];
+
+    expect(describePenaltiesAt(penalties, 200).map(p => [p.event_id, p.seconds_remaining])).toEqual([
+      ['b', 70],
+      ['a', 200],
+    ]);
+  });
+});
+
+describe('manAdvantageAt', () => {
+  it('should give the advantage to the team facing fewer penalties', () => {
+    const penalties = [penalty('a', away, 2, 0), penalty('b', away, 2, 30), penalty('c', home, 2, 60)];
+
+    expect(manAdvantageAt(penalties, home, away, 90)).toEqual({ team_id: home, advantage: 1 });
+  });
+
+  it('should cap the advantage at two players', () => {
+    const penalties = [penalty('a', home, 2, 0), penalty('b', home, 2, 10), penalty('c', home, 5, 20)];
+
+    expect(manAdvantageAt(penalties, home, away, 30)).toEqual({ team_id: away, advantage: 2 });
+  });
+
+  it('should not count misconducts or expired penalties', () => {
+    const penalties = [penalty('a', away, 10, 0), penalty('b', away, 2, 0)];
+
+    expect(manAdvantageAt(penalties, home, away, 150)).toBeNull();
+  });
+});
+
+describe('releasePenaltyOnGoal', () => {
+  it('should release the shorthanded team\'s minor with the least time left', () => {
+    const penalties = [penalty('a', away, 2, 60), penalty('b', away, 2, 30)];
+
+    expect(releasePenaltyOnGoal(penalties, home, home, away, 90).map(p => p.event_id)).toEqual(['a']);
+  });
+
+  it('should cut a double minor to its second minor', () => {
+    const penalties = [penalty('a', away, 4, 0)];
+
+    expect(releasePenaltyOnGoal(penalties, home, home, away, 60)).toEqual([
+      { ...penalties[0], expires_at: 180 },
+    ]);
+  });
+
+  it('should not release a major', () => {
+    const penalties = [penalty('a', away, 5, 0)];
+
+    expect(releasePenaltyOnGoal(penalties, home, home, away, 60)).toEqual(penalties);
+  });
+
+  it('should not release a penalty on a shorthanded or even-strength goal', () => {
+    const shorthanded = [penalty('a', away, 2, 0)];
+    const even = [penalty('a', away, 2, 0), penalty('b', home, 2, 0)];
+
+    expect(releasePenaltyOnGoal(shorthanded, away, home, away, 60)).toEqual(shorthanded);
+    expect(releasePenaltyOnGoal(even, home, home, away, 60)).toEqual(even);
+  });
+});
+
+describe('penaltyReleasedByGoal', () => {
+  it('should give the released penalty as it was before the goal', () => {
+    const penalties = [penalty('a', away, 4, 0), penalty('b', away, 2, 30)];
+
+    expect(penaltyReleasedByGoal(penalties, home, home, away, 60)).toEqual(penalties[1]);
+  });
+
+  it('should release nothing on a shorthanded goal', () => {
+    expect(penaltyReleasedByGoal([penalty('a', away, 2, 0)], away, home, away, 60)).toBeUndefined();
+  });
+});
+
+describe('restoreReleasedPenalty', () => {
+  it('should put a released minor back', () => {
+    const released = penalty('a', away, 2, 0);
+
+    expect(restoreReleasedPenalty([penalty('b', home, 2, 30)], released).map(p => p.event_id)).toEqual(['b', 'a']);
+  });
+
+  it('should replace what is left of a double minor', () => {
+    const released = penalty('a', away, 4, 0);
+    const afterGoal = releasePenaltyOnGoal([released], home, home, away, 60);
+
+    expect(restoreReleasedPenalty(afterGoal, released)).toEqual([released]);
+  });
+});
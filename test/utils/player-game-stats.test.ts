@@ -0,0 +1,147 @@
+/**
+ * Player Game Stats Tests
+ *
+ * Unit tests for projecting events into per-game player stats, with a mocked
+ * transaction client.
+ */
+
+import { describe, it, expect, beforeEach, jest } from '@jest/globals';
+import { PoolClient } from 'pg';
+import { EventType, GameEvent } from '../../src/models/event';
+import {
+  applyEventToPlayerStats,
+  creditGoalieTime,
+  playerStatsChangesFromEvent,
+} from '../../src/utils/player-game-stats';
+
+const gameId = 'game-1';
+const game = { id: gameId, home_team_id: 'team-1', away_team_id: 'team-2' };
+
+const gameEvent = (eventType: EventType, payload: Record<string, unknown>): GameEvent => ({
+  event_id: 'event-1',
+  game_id: gameId,
+  tenant_id: 'tenant-1',
+  event_type: eventType,
+  event_version: '1.0',
+  occurred_at: '2024-01-15T19:10:00.000Z',
+  sort_key: '2024-01-15T19:10:00.000Z#event-1',
+  payload: { team_id: 'team-1', player_id: 'player-1', period: 1, time_remaining: '12:00', ...payload },
+  metadata: { user_id: 'user-1', source: 'mobile-app' },
+  ttl: 1234567890,
+});
+
+const stats = { goals: 0, assists: 0, shots: 0, penalty_minutes: 0, shots_against: 0, goals_against: 0 };
+
+describe('playerStatsChangesFromEvent', () => {
+  it('should credit the scorer and the assisting player for the scoring team', () => {
+    expect(
+      playerStatsChangesFromEvent(gameEvent(EventType.GOAL_SCORED, { assist_player_id: 'player-2' }), game)
+    ).toEqual([
+      { ...stats, player_id: 'player-1', team_id: 'team-1', goals: 1 },
+      { ...stats, player_id: 'player-2', team_id: 'team-1', assists: 1 },
+    ]);
+  });
+
+  it('should credit an unassisted goal to the scorer only', () => {
+    expect(playerStatsChangesFromEvent(gameEvent(EventType.GOAL_SCORED, {}), game)).toHaveLength(1);
+  });
+
+  it('should credit shots and penalty minutes', () => {
+    expect(playerStatsChangesFromEvent(gameEvent(EventType.SHOT_ON_GOAL, {}), game)).toEqual([
+      { ...stats, player_id: 'player-1', team_id: 'team-1', shots: 1 },
+    ]);
+    expect(
+      playerStatsChangesFromEvent(gameEvent(EventType.PENALTY_ASSESSED, { duration_minutes: 5 }), game)
+    ).toEqual([{ ...stats, player_id: 'player-1', team_id: 'team-1', penalty_minutes: 5 }]);
+  });
+
+  it('should credit the goalie named on a goal or shot for the other team', () => {
+    expect(
+      playerStatsChangesFromEvent(gameEvent(EventType.GOAL_SCORED, { goalie_id: 'goalie-2' }), game)
+    ).toContainEqual({ ...stats, player_id: 'goalie-2', team_id: 'team-2', goals_against: 1 });
+    expect(
+      playerStatsChangesFromEvent(
+        gameEvent(EventType.SHOT_ON_GOAL, { team_id: 'team-2', goalie_id: 'goalie-1' }),
+        game
+      )
+    ).toContainEqual({ ...stats, player_id: 'goalie-1', team_id: 'team-1', shots_against: 1 });
+  });
+
+  it('should not credit a goalie on an empty net', () => {
+    expect(
+      playerStatsChangesFromEvent(gameEvent(EventType.GOAL_SCORED, { goalie_id: null }), game)
+    ).toHaveLength(1);
+  });
+
+  it('should not credit other events', () => {
+    expect(playerStatsChangesFromEvent(gameEvent(EventType.CLOCK_STARTED, {}), game)).toEqual([]);
+  });
+});
+
+describe('applyEventToPlayerStats', () => {
+  const query = jest.fn<(sql: string, params: unknown[]) => Promise<unknown>>();
+  const client = { query } as unknown as PoolClient;
+
+  beforeEach(() => {
+    query.mockReset();
+    query.mockResolvedValue({ rows: [] });
+  });
+
+  it('should add an applied event\'s stats to each player\'s row', async () => {
+    await applyEventToPlayerStats(
+      client,
+      game,
+      gameEvent(EventType.GOAL_SCORED, { assist_player_id: 'player-2' }),
+      1
+    );
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(query.mock.calls[0][0]).toContain('ON CONFLICT (game_id, player_id) DO UPDATE');
+    expect(query.mock.calls[0][1]).toEqual([gameId, 'player-1', 'team-1', 1, 0, 0, 0, 0, 0]);
+    expect(query.mock.calls[1][1]).toEqual([gameId, 'player-2', 'team-1', 0, 1, 0, 0, 0, 0]);
+  });
+
+  it('should take a reversed event\'s stats off and remove players left without stats', async () => {
+    await applyEventToPlayerStats(client, game, gameEvent(EventType.SHOT_ON_GOAL, {}), -1);
+
+    expect(query).toHaveBeenCalledTimes(2);
+    expect(query.mock.calls[0][0]).toContain('shots = GREATEST(shots - $5, 0)');
+    expect(query.mock.calls[0][1]).toEqual([gameId, 'player-1', 0, 0, 1, 0, 0, 0]);
+    expect(query.mock.calls[1][0]).toContain('DELETE FROM player_game_stats');
+    expect(query.mock.calls[1][1]).toEqual([gameId, 'player-1']);
+  });
+
+  it('should keep a goalie who was put in net when their stats are taken off', async () => {
+    await applyEventToPlayerStats(
+      client,
+      game,
+      gameEvent(EventType.SHOT_ON_GOAL, { goalie_id: 'goalie-2' }),
+      -1
+    );
+
+    expect(query.mock.calls[2][0]).toContain('shots_against = GREATEST(shots_against - $7, 0)');
+    expect(query.mock.calls[2][1]).toEqual([gameId, 'goalie-2', 0, 0, 0, 0, 1, 0]);
+    expect(query.mock.calls[3][0]).toContain('NOT played_goalie AND goalie_seconds = 0');
+  });
+
+  it('should not query for events that credit no one', async () => {
+    await applyEventToPlayerStats(client, game, gameEvent(EventType.GAME_STARTED, {}), 1);
+
+    expect(query).not.toHaveBeenCalled();
+  });
+});
+
+describe('creditGoalieTime', () => {
+  it('should mark the goalie as having played in net and add to their time', async () => {
+    const query = jest.fn<(sql: string, params: unknown[]) => Promise<unknown>>();
+    query.mockResolvedValue({ rows: [] });
+
+    await creditGoalieTime({ query } as unknown as PoolClient, gameId, 'goalie-1', 'team-1', 600);
+
+    expect(query.mock.calls[0][0]).toContain('SET played_goalie = true');
+    expect(query.mock.calls[0][0]).toContain(
+      'goalie_seconds = player_game_stats.goalie_seconds + EXCLUDED.goalie_seconds'
+    );
+    expect(query.mock.calls[0][1]).toEqual([gameId, 'goalie-1', 'team-1', 600]);
+  });
+});
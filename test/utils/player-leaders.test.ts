@@ -0,0 +1,78 @@
+/**
+ * Player Leaders Tests
+ *
+ * Unit tests for ranking players on season leaderboards.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { SeasonPlayerTotals } from '../../src/models/player-stats';
+import { rankLeaders } from '../../src/utils/player-leaders';
+
+const totals = (
+  playerId: string,
+  goals: number,
+  gamesPlayed = 10,
+  lastName = playerId
+): SeasonPlayerTotals => ({
+  player_id: playerId,
+  team_id: 'team-1',
+  first_name: 'Sam',
+  last_name: lastName,
+  games_played: gamesPlayed,
+  goals,
+  assists: 0,
+  points: goals,
+  shots: goals * 3,
+  penalty_minutes: 0,
+});
+
+const ranked = (leaders: ReturnType<typeof rankLeaders>) => leaders.map(l => [l.player_id, l.rank]);
+
+describe('rankLeaders', () => {
+  it('should share a rank between equal values and skip the places they take', () => {
+    const players = [totals('a', 3), totals('b', 5), totals('c', 3), totals('d', 1)];
+
+    expect(ranked(rankLeaders(players, { stat: 'goals', minGamesPlayed: 0, limit: 10 }))).toEqual([
+      ['b', 1],
+      ['a', 2],
+      ['c', 2],
+      ['d', 4],
+    ]);
+  });
+
+  it('should list fewer games played first within a shared rank, then by name', () => {
+    const players = [totals('a', 4, 10, 'Young'), totals('b', 4, 8, 'Zed'), totals('c', 4, 10, 'Abbott')];
+
+    expect(ranked(rankLeaders(players, { stat: 'goals', minGamesPlayed: 0, limit: 10 }))).toEqual([
+      ['b', 1],
+      ['c', 1],
+      ['a', 1],
+    ]);
+  });
+
+  it('should keep every player tied at the last rank', () => {
+    const players = [totals('a', 5), totals('b', 4), totals('c', 4), totals('d', 3)];
+
+    expect(ranked(rankLeaders(players, { stat: 'goals', minGamesPlayed: 0, limit: 2 }))).toEqual([
+      ['a', 1],
+      ['b', 2],
+      ['c', 2],
+    ]);
+  });
+
+  it('should leave out players below the minimum games played or without the stat', () => {
+    const players = [totals('a', 5, 2), totals('b', 4, 6), totals('c', 0, 6)];
+
+    expect(ranked(rankLeaders(players, { stat: 'goals', minGamesPlayed: 5, limit: 10 }))).toEqual([
+      ['b', 1],
+    ]);
+  });
+
+  it('should rank by the requested stat', () => {
+    const players = [totals('a', 5), { ...totals('b', 1), penalty_minutes: 12 }];
+
+    expect(rankLeaders(players, { stat: 'pim', minGamesPlayed: 0, limit: 10 })).toMatchObject([
+      { player_id: 'b', rank: 1, value: 12 },
+    ]);
+  });
+});
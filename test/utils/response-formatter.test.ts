@@ -14,6 +14,7 @@ import {
   notFoundErrorResponse,
   internalErrorResponse,
   serviceUnavailableErrorResponse,
+  eventStreamResponse,
   generateRequestId,
   generateTimestamp,
 } from '../../src/utils/response-formatter';
@@ -345,6 +346,31 @@ describe('Response Formatter', () => {
     });
   });
 
+  describe('eventStreamResponse', () => {
+    it('should write each event in text/event-stream format', () => {
+      const response = eventStreamResponse(
+        [
+          { id: '1', event: 'snapshot_update', data: '{"a":1}' },
+          { data: 'line one\nline two' },
+        ],
+        3000
+      );
+
+      expect(response.statusCode).toBe(HttpStatus.OK);
+      expect(response.headers['Content-Type']).toBe('text/event-stream');
+      expect(response.headers['Cache-Control']).toBe('no-cache');
+      expect(response.body).toBe(
+        'retry: 3000\n\nid: 1\nevent: snapshot_update\ndata: {"a":1}\n\ndata: line one\ndata: line two\n\n'
+      );
+    });
+
+    it('should send a comment when there are no events', () => {
+      const response = eventStreamResponse([], 3000);
+
+      expect(response.body).toBe('retry: 3000\n: no updates\n\n');
+    });
+  });
+
   describe('Response consistency', () => {
     it('should ensure all responses have consistent structure', () => {
       const successResp = successResponse({ test: 'data' });
@@ -0,0 +1,153 @@
+/**
+ * Schedule Generator Tests
+ *
+ * Unit tests for round-robin pairing and calendar slot assignment.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import {
+  buildRoundRobinRounds,
+  assignScheduleSlots,
+  Pairing,
+  SlotOptions,
+} from '../../src/utils/schedule-generator';
+import { BadRequestError } from '../../src/models/errors';
+
+const teams = (count: number): string[] =>
+  Array.from({ length: count }, (_, i) => `team-${i + 1}`);
+
+const matchupKey = (pairing: Pairing): string =>
+  [pairing.home_team_id, pairing.away_team_id].sort().join('|');
+
+describe('Schedule Generator', () => {
+  describe('buildRoundRobinRounds', () => {
+    it('should pair every team with every other team once in a single round-robin', () => {
+      const rounds = buildRoundRobinRounds(teams(6), 'single', false);
+      const matchups = rounds.flat().map(matchupKey);
+
+      expect(rounds).toHaveLength(5);
+      expect(matchups).toHaveLength(15);
+      expect(new Set(matchups).size).toBe(15);
+    });
+
+    it('should give each team one game per round', () => {
+      const rounds = buildRoundRobinRounds(teams(8), 'single', true);
+
+      for (const round of rounds) {
+        const ids = round.flatMap(p => [p.home_team_id, p.away_team_id]);
+        expect(new Set(ids).size).toBe(8);
+      }
+    });
+
+    it('should give one team a bye each round for odd team counts', () => {
+      const rounds = buildRoundRobinRounds(teams(5), 'single', true);
+      const byes = rounds.map(round => {
+        const playing = new Set(round.flatMap(p => [p.home_team_id, p.away_team_id]));
+        return teams(5).filter(id => !playing.has(id));
+      });
+
+      expect(rounds).toHaveLength(5);
+      expect(rounds.every(round => round.length === 2)).toBe(true);
+      expect(byes.map(b => b.length)).toEqual([1, 1, 1, 1, 1]);
+      expect(new Set(byes.flat()).size).toBe(5);
+    });
+
+    it('should mirror the first leg in a double round-robin', () => {
+      const rounds = buildRoundRobinRounds(teams(4), 'double', true);
+
+      expect(rounds).toHaveLength(6);
+      for (let i = 0; i < 3; i++) {
+        expect(rounds[i + 3]).toEqual(
+          rounds[i].map(p => ({ home_team_id: p.away_team_id, away_team_id: p.home_team_id }))
+        );
+      }
+    });
+
+    it('should keep home game counts within one when balancing', () => {
+      for (const count of [4, 5, 6, 7, 10]) {
+        const rounds = buildRoundRobinRounds(teams(count), 'single', true);
+        const homeCounts = teams(count).map(
+          id => rounds.flat().filter(p => p.home_team_id === id).length
+        );
+
+        expect(Math.max(...homeCounts) - Math.min(...homeCounts)).toBeLessThanOrEqual(1);
+      }
+    });
+
+    it('should avoid more than two consecutive home or away games when balancing', () => {
+      const rounds = buildRoundRobinRounds(teams(10), 'single', true);
+
+      for (const id of teams(10)) {
+        const pattern = rounds
+          .map(round => round.find(p => p.home_team_id === id) ? 'H' : 'A')
+          .join('');
+
+        expect(pattern).not.toMatch(/HHH|AAA/);
+      }
+    });
+  });
+
+  describe('assignScheduleSlots', () => {
+    const baseOptions: SlotOptions = {
+      startDate: '2024-09-02',       // Monday
+      endDate: '2024-12-31',
+      weekdays: ['saturday'],
+      timeSlots: ['18:00'],
+      gamesPerSlot: 2,
+      blackoutDates: [],
+    };
+
+    it('should start each round on the next eligible weekday', () => {
+      const rounds = buildRoundRobinRounds(teams(4), 'single', true);
+      const scheduled = assignScheduleSlots(rounds, baseOptions);
+
+      expect(scheduled).toHaveLength(6);
+      expect(scheduled.map(g => g.scheduled_at.toISOString())).toEqual([
+        '2024-09-07T18:00:00.000Z',
+        '2024-09-07T18:00:00.000Z',
+        '2024-09-14T18:00:00.000Z',
+        '2024-09-14T18:00:00.000Z',
+        '2024-09-21T18:00:00.000Z',
+        '2024-09-21T18:00:00.000Z',
+      ]);
+      expect(scheduled.map(g => g.round)).toEqual([1, 1, 2, 2, 3, 3]);
+    });
+
+    it('should fill time slots in order before spilling to the next eligible date', () => {
+      const rounds = buildRoundRobinRounds(teams(6), 'single', true);
+      const scheduled = assignScheduleSlots([rounds[0]], {
+        ...baseOptions,
+        weekdays: ['saturday', 'sunday'],
+        timeSlots: ['20:00', '14:00'],
+        gamesPerSlot: 1,
+      });
+
+      expect(scheduled.map(g => g.scheduled_at.toISOString())).toEqual([
+        '2024-09-07T14:00:00.000Z',
+        '2024-09-07T20:00:00.000Z',
+        '2024-09-08T14:00:00.000Z',
+      ]);
+    });
+
+    it('should skip blackout dates', () => {
+      const rounds = buildRoundRobinRounds(teams(2), 'double', false);
+      const scheduled = assignScheduleSlots(rounds, {
+        ...baseOptions,
+        blackoutDates: ['2024-09-07', '2024-09-14'],
+      });
+
+      expect(scheduled.map(g => g.scheduled_at.toISOString())).toEqual([
+        '2024-09-21T18:00:00.000Z',
+        '2024-09-28T18:00:00.000Z',
+      ]);
+    });
+
+    it('should reject schedules that run past the end date', () => {
+      const rounds = buildRoundRobinRounds(teams(6), 'single', true);
+
+      expect(() =>
+        assignScheduleSlots(rounds, { ...baseOptions, endDate: '2024-09-30' })
+      ).toThrow(BadRequestError);
+    });
+  });
+});
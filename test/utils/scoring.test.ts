@@ -0,0 +1,74 @@
+/**
+ * Scoring Tests
+ *
+ * Unit tests for the point values of scoring events.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { allowedPoints, eventPoints, withScoringPoints } from '../../src/utils/scoring';
+import { EventType, GameEvent } from '../../src/models/event';
+import { SportType } from '../../src/models/league';
+
+describe('allowedPoints', () => {
+  it('should give each sport\'s scoring events their point values', () => {
+    expect(allowedPoints(SportType.HOCKEY, EventType.GOAL_SCORED)).toEqual([1]);
+    expect(allowedPoints(SportType.BASKETBALL, EventType.FIELD_GOAL)).toEqual([2, 3]);
+    expect(allowedPoints(SportType.BASKETBALL, EventType.FREE_THROW)).toEqual([1]);
+    expect(allowedPoints(SportType.FOOTBALL, EventType.TOUCHDOWN)).toEqual([6]);
+    expect(allowedPoints(SportType.FOOTBALL, EventType.EXTRA_POINT)).toEqual([1, 0]);
+    expect(allowedPoints(SportType.FOOTBALL, EventType.TWO_POINT_CONVERSION)).toEqual([2, 0]);
+    expect(allowedPoints(SportType.FOOTBALL, EventType.FIELD_GOAL)).toEqual([3]);
+    expect(allowedPoints(SportType.FOOTBALL, EventType.SAFETY)).toEqual([2]);
+    expect(allowedPoints(SportType.RUGBY, EventType.TRY)).toEqual([5]);
+    expect(allowedPoints(SportType.RUGBY, EventType.CONVERSION)).toEqual([2]);
+    expect(allowedPoints(SportType.RUGBY, EventType.PENALTY_GOAL)).toEqual([3]);
+    expect(allowedPoints(SportType.RUGBY, EventType.DROP_GOAL)).toEqual([3]);
+  });
+
+  it('should have no point values for events that don\'t score', () => {
+    expect(allowedPoints(SportType.BASKETBALL, EventType.FOUL)).toBeUndefined();
+    expect(allowedPoints(SportType.BASEBALL, EventType.OUT_RECORDED)).toBeUndefined();
+  });
+});
+
+describe('withScoringPoints', () => {
+  const payload = { team_id: 'team-1', player_id: 'player-1', period: 2, time_remaining: '03:15' };
+
+  it('should set the sport\'s first point value when points are missing', () => {
+    expect(withScoringPoints(SportType.FOOTBALL, EventType.TOUCHDOWN, payload)).toEqual({ ...payload, points: 6 });
+    expect(withScoringPoints(SportType.SOCCER, EventType.GOAL_SCORED, payload)).toEqual({ ...payload, points: 1 });
+    expect(withScoringPoints(SportType.RUGBY, EventType.TRY, payload)).toEqual({ ...payload, points: 5 });
+  });
+
+  it('should keep the points an event was recorded with', () => {
+    expect(withScoringPoints(SportType.FOOTBALL, EventType.TWO_POINT_CONVERSION, { ...payload, points: 2 }).points).toBe(2);
+    expect(withScoringPoints(SportType.FOOTBALL, EventType.EXTRA_POINT, { ...payload, points: 0 }).points).toBe(0);
+  });
+
+  it('should leave events that don\'t score unchanged', () => {
+    expect(withScoringPoints(SportType.BASKETBALL, EventType.FOUL, payload)).toBe(payload);
+  });
+});
+
+describe('eventPoints', () => {
+  const event = (payload: Record<string, unknown>): GameEvent => ({
+    event_id: 'event-1',
+    game_id: 'game-1',
+    tenant_id: 'tenant-1',
+    event_type: EventType.GOAL_SCORED,
+    event_version: '1.0',
+    occurred_at: '2024-01-15T19:15:00Z',
+    sort_key: '2024-01-15T19:15:00Z#event-1',
+    payload,
+    metadata: { user_id: 'user-1', source: 'mobile-app' },
+    ttl: 1705431600,
+  });
+
+  it('should read the points from the payload', () => {
+    expect(eventPoints(event({ team_id: 'team-1', points: 3 }))).toBe(3);
+  });
+
+  it('should count events recorded without points as 1', () => {
+    expect(eventPoints(event({ team_id: 'team-1' }))).toBe(1);
+  });
+});
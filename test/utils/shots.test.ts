@@ -0,0 +1,37 @@
+/**
+ * Shot Tests
+ *
+ * Unit tests for keeping per-period shot counts.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { countShot } from '../../src/utils/shots';
+
+describe('countShot', () => {
+  const shotsByPeriod = [
+    { period: 1, home_shots: 8, away_shots: 5 },
+    { period: 3, home_shots: 2, away_shots: 0 },
+  ];
+
+  it('should add to a team\'s shots in an existing period', () => {
+    expect(countShot(shotsByPeriod, 1, 'away', 1)).toEqual([
+      { period: 1, home_shots: 8, away_shots: 6 },
+      { period: 3, home_shots: 2, away_shots: 0 },
+    ]);
+  });
+
+  it('should add a period in period order', () => {
+    expect(countShot(shotsByPeriod, 2, 'home', 1).map(p => p.period)).toEqual([1, 2, 3]);
+  });
+
+  it('should remove a reversed shot without going below zero', () => {
+    expect(countShot(shotsByPeriod, 3, 'home', -1)[1]).toEqual({ period: 3, home_shots: 1, away_shots: 0 });
+    expect(countShot(shotsByPeriod, 3, 'away', -1)[1]).toEqual({ period: 3, home_shots: 2, away_shots: 0 });
+  });
+
+  it('should not change the shots passed in', () => {
+    countShot(shotsByPeriod, 1, 'home', 1);
+
+    expect(shotsByPeriod[0].home_shots).toBe(8);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Snapshot Delta Tests
+ *
+ * Unit tests for building the delta a live update carries.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { buildSnapshotDelta } from '../../src/utils/snapshot-delta';
+import { GameSnapshot, GameSnapshotState } from '../../src/models/snapshot';
+import { EventType, GameEvent } from '../../src/models/event';
+
+const previous: GameSnapshotState = {
+  home_score: 1,
+  away_score: 0,
+  period: 2,
+  clock_seconds: 600,
+  clock_running: true,
+  active_penalties: [],
+  man_advantage: null,
+  home_shots: 0,
+  away_shots: 0,
+  shots_by_period: [],
+  status: 'in_progress',
+};
+
+const event = (eventId: string, occurredAt: string): GameEvent => ({
+  event_id: eventId,
+  game_id: 'game-1',
+  tenant_id: 'tenant-1',
+  event_type: EventType.GOAL_SCORED,
+  event_version: '1.0',
+  occurred_at: occurredAt,
+  sort_key: `${occurredAt}#${eventId}`,
+  payload: { team_id: 'team-a', period: 2, time_remaining: '10:00' },
+  metadata: { user_id: 'user-1', source: 'test' },
+  ttl: 1735689600,
+});
+
+const snapshot = (overrides: Partial<GameSnapshot> = {}): GameSnapshot => ({
+  game_id: 'game-1',
+  ...previous,
+  recent_events: [],
+  sequence: 7,
+  snapshot_version: '1.0',
+  generated_at: '2024-01-15T19:15:00Z',
+  ...overrides,
+});
+
+describe('buildSnapshotDelta', () => {
+  it('should carry only the fields that changed, with their new values', () => {
+    const goal = event('event-1', '2024-01-15T19:14:00Z');
+
+    const delta = buildSnapshotDelta(
+      previous,
+      snapshot({ home_score: 2, recent_events: [goal] }),
+      [goal],
+      8
+    );
+
+    expect(delta).toEqual({
+      game_id: 'game-1',
+      sequence: 8,
+      changes: { home_score: 2 },
+      new_events: [goal],
+    });
+  });
+
+  it('should carry no changes when the state is unchanged', () => {
+    const delta = buildSnapshotDelta(previous, snapshot(), [], 8);
+
+    expect(delta.changes).toEqual({});
+  });
+
+  it('should order new events newest first', () => {
+    const first = event('event-1', '2024-01-15T19:10:00Z');
+    const second = event('event-2', '2024-01-15T19:12:00Z');
+
+    const delta = buildSnapshotDelta(previous, snapshot(), [first, second], 8);
+
+    expect(delta.new_events.map(e => e.event_id)).toEqual(['event-2', 'event-1']);
+  });
+});
@@ -9,18 +9,25 @@
  */
 
 import { describe, it, expect, beforeEach } from '@jest/globals';
+import { PoolClient } from 'pg';
 import {
   calculateStreak,
+  RECENT_RESULTS_LIMIT,
+  recentResults,
   recalculateStandings,
+  applyGameResult,
+  applyGameToStandings,
+  calculateStandings,
+  StandingAccumulator,
 } from '../../src/utils/standings-calculation';
 import { GameRepository } from '../../src/repositories/game-repository';
 import { StandingsRepository } from '../../src/repositories/standings-repository';
 import { SeasonRepository } from '../../src/repositories/season-repository';
 import { TeamRepository } from '../../src/repositories/team-repository';
-import { Game, GameStatus } from '../../src/models/game';
+import { Game, GameStatus, GameDecision } from '../../src/models/game';
 import { Season } from '../../src/models/season';
 import { Team } from '../../src/models/team';
-import { StandingUpsertData } from '../../src/models/standing';
+import { StandingUpsertData, resolvePointsRules } from '../../src/models/standing';
 
 describe('calculateStreak', () => {
   it('should return undefined for empty results', () => {
@@ -52,6 +59,28 @@ describe('calculateStreak', () => {
   });
 });
 
+describe('recentResults', () => {
+  const rules = resolvePointsRules(undefined);
+  const games = [
+    { home_team_id: 'team-1', away_team_id: 'team-2', home_score: 3, away_score: 1 },
+    { home_team_id: 'team-3', away_team_id: 'team-1', home_score: 2, away_score: 2 },
+    { home_team_id: 'team-2', away_team_id: 'team-1', home_score: 4, away_score: 0 },
+  ];
+
+  it('should list a team\'s results, most recent first', () => {
+    expect(recentResults('team-1', games, rules)).toEqual(['L', 'T', 'W']);
+    expect(recentResults('team-2', games, rules)).toEqual(['W', 'L']);
+  });
+
+  it('should skip ties the rules don\'t allow', () => {
+    expect(recentResults('team-3', games, { ...rules, allow_ties: false })).toEqual([]);
+  });
+
+  it('should keep at most the recent results window', () => {
+    expect(recentResults('team-1', Array(12).fill(games[0]), rules)).toHaveLength(RECENT_RESULTS_LIMIT);
+  });
+});
+
 describe('recalculateStandings', () => {
   let gameRepository: jest.Mocked<GameRepository>;
   let standingsRepository: jest.Mocked<StandingsRepository>;
@@ -78,6 +107,7 @@ describe('recalculateStandings', () => {
       findByLeagueId: jest.fn(),
       findActiveByLeagueId: jest.fn(),
       findById: jest.fn(),
+      findPointsRules: jest.fn(),
     } as any;
 
     teamRepository = {
@@ -767,4 +797,412 @@ describe('recalculateStandings', () => {
       { status: GameStatus.FINAL }
     );
   });
+
+  it('should apply the season\'s points rules', async () => {
+    seasonRepository.findById.mockResolvedValue({
+      id: seasonId,
+      league_id: leagueId,
+      name: '2024 Season',
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-12-31'),
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+    seasonRepository.findPointsRules.mockResolvedValue({ win: 2, overtime_win: 2, overtime_loss: 1 });
+    teamRepository.findByLeagueId.mockResolvedValue(
+      ['team-1', 'team-2'].map(id => ({
+        id,
+        tenant_id: tenantId,
+        league_id: leagueId,
+        name: id,
+        created_at: new Date(),
+        updated_at: new Date(),
+      }))
+    );
+    gameRepository.findBySeasonId.mockResolvedValue([
+      {
+        id: 'game-1',
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date('2024-01-15'),
+        status: GameStatus.FINAL,
+        home_score: 3,
+        away_score: 2,
+        decided_in: GameDecision.OVERTIME,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    ]);
+
+    await recalculateStandings(
+      tenantId,
+      seasonId,
+      gameRepository,
+      standingsRepository,
+      seasonRepository,
+      teamRepository
+    );
+
+    expect(seasonRepository.findPointsRules).toHaveBeenCalledWith(tenantId, seasonId);
+
+    const upsertedStandings = standingsRepository.upsertStandings.mock.calls[0][0];
+    expect(upsertedStandings.find((s: StandingUpsertData) => s.team_id === 'team-1')).toMatchObject({
+      wins: 1,
+      points: 2,
+      games_played: 1,
+    });
+    expect(upsertedStandings.find((s: StandingUpsertData) => s.team_id === 'team-2')).toMatchObject({
+      losses: 0,
+      ot_losses: 1,
+      points: 1,
+      games_played: 1,
+      streak: 'L1',
+    });
+  });
+
+  it('should not count playoff games', async () => {
+    seasonRepository.findById.mockResolvedValue({
+      id: seasonId,
+      league_id: leagueId,
+      name: '2024 Season',
+      start_date: new Date('2024-01-01'),
+      end_date: new Date('2024-12-31'),
+      is_active: true,
+      created_at: new Date(),
+      updated_at: new Date(),
+    });
+    teamRepository.findByLeagueId.mockResolvedValue(
+      ['team-1', 'team-2'].map(id => ({
+        id,
+        tenant_id: tenantId,
+        league_id: leagueId,
+        name: id,
+        created_at: new Date(),
+        updated_at: new Date(),
+      }))
+    );
+    gameRepository.findBySeasonId.mockResolvedValue([
+      {
+        id: 'game-1',
+        season_id: seasonId,
+        home_team_id: 'team-1',
+        away_team_id: 'team-2',
+        scheduled_at: new Date('2024-01-15'),
+        status: GameStatus.FINAL,
+        home_score: 3,
+        away_score: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+      {
+        id: 'game-2',
+        season_id: seasonId,
+        home_team_id: 'team-2',
+        away_team_id: 'team-1',
+        scheduled_at: new Date('2024-12-15'),
+        status: GameStatus.FINAL,
+        home_score: 4,
+        away_score: 0,
+        bracket_series_id: 'series-1',
+        series_game_number: 1,
+        created_at: new Date(),
+        updated_at: new Date(),
+      },
+    ]);
+
+    await recalculateStandings(
+      tenantId,
+      seasonId,
+      gameRepository,
+      standingsRepository,
+      seasonRepository,
+      teamRepository
+    );
+
+    const upsertedStandings = standingsRepository.upsertStandings.mock.calls[0][0];
+    expect(upsertedStandings.find((s: StandingUpsertData) => s.team_id === 'team-1')).toMatchObject({
+      wins: 1,
+      losses: 0,
+      games_played: 1,
+      goals_for: 3,
+    });
+  });
+});
+
+describe('applyGameResult', () => {
+  const accumulator = (teamId: string): StandingAccumulator => ({
+    season_id: 'season-1',
+    team_id: teamId,
+    games_played: 0,
+    wins: 0,
+    losses: 0,
+    ties: 0,
+    ot_losses: 0,
+    bonus_points: 0,
+    points: 0,
+    goals_for: 0,
+    goals_against: 0,
+    goal_differential: 0,
+    recent_results: [],
+  });
+
+  const game = (homeScore: number, awayScore: number, decidedIn?: GameDecision): Game => ({
+    id: 'game-1',
+    season_id: 'season-1',
+    home_team_id: 'home',
+    away_team_id: 'away',
+    scheduled_at: new Date('2024-01-15'),
+    status: GameStatus.FINAL,
+    home_score: homeScore,
+    away_score: awayScore,
+    decided_in: decidedIn,
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
+  let home: StandingAccumulator;
+  let away: StandingAccumulator;
+
+  beforeEach(() => {
+    home = accumulator('home');
+    away = accumulator('away');
+  });
+
+  it('should award 3/1/0 under the default rules', () => {
+    applyGameResult(game(2, 1), home, away, resolvePointsRules(null));
+    expect(home.points).toBe(3);
+    expect(away.points).toBe(0);
+
+    applyGameResult(game(1, 1), home, away, resolvePointsRules(null));
+    expect(home.points).toBe(4);
+    expect(away.points).toBe(1);
+  });
+
+  it('should count overtime and shootout losses separately with their own points', () => {
+    const rules = resolvePointsRules({ win: 3, overtime_win: 2, overtime_loss: 1 });
+
+    applyGameResult(game(2, 3, GameDecision.OVERTIME), home, away, rules);
+    applyGameResult(game(4, 3, GameDecision.SHOOTOUT), home, away, rules);
+
+    expect(home).toMatchObject({ wins: 1, losses: 0, ot_losses: 1, points: 3 });
+    expect(away).toMatchObject({ wins: 1, losses: 0, ot_losses: 1, points: 3 });
+  });
+
+  it('should treat regulation losses as losses regardless of overtime rules', () => {
+    applyGameResult(
+      game(1, 0, GameDecision.REGULATION),
+      home,
+      away,
+      resolvePointsRules({ overtime_loss: 1 })
+    );
+
+    expect(away).toMatchObject({ losses: 1, ot_losses: 0, points: 0 });
+  });
+
+  it('should skip tied games when ties are not allowed', () => {
+    const counted = applyGameResult(game(2, 2), home, away, resolvePointsRules({ allow_ties: false }));
+
+    expect(counted).toBe(false);
+    expect(home).toEqual(accumulator('home'));
+    expect(away).toEqual(accumulator('away'));
+  });
+
+  it('should add scoring and losing bonuses to points and bonus_points', () => {
+    const rules = resolvePointsRules({
+      win: 4,
+      scoring_bonus: { threshold: 4, points: 1 },
+      losing_bonus: { margin: 7, points: 1 },
+    });
+
+    applyGameResult(game(28, 24), home, away, rules);
+
+    expect(home).toMatchObject({ points: 5, bonus_points: 1 });
+    expect(away).toMatchObject({ points: 2, bonus_points: 2 });
+  });
+
+  it('should not give a losing bonus outside the margin', () => {
+    applyGameResult(game(30, 10), home, away, resolvePointsRules({ losing_bonus: { margin: 7, points: 1 } }));
+
+    expect(away).toMatchObject({ points: 0, bonus_points: 0 });
+  });
+});
+
+describe('calculateStandings', () => {
+  const game = (id: string, scheduledAt: string, homeScore: number, awayScore: number): Game => ({
+    id,
+    season_id: 'season-1',
+    home_team_id: 'team-1',
+    away_team_id: 'team-2',
+    scheduled_at: new Date(scheduledAt),
+    status: GameStatus.FINAL,
+    home_score: homeScore,
+    away_score: awayScore,
+    created_at: new Date(),
+    updated_at: new Date(),
+  });
+
+  it('should give every team a standing, in team order', () => {
+    const result = calculateStandings('season-1', ['team-1', 'team-2', 'team-3'], [], resolvePointsRules());
+
+    expect(result.map(s => [s.team_id, s.games_played, s.points])).toEqual([
+      ['team-1', 0, 0],
+      ['team-2', 0, 0],
+      ['team-3', 0, 0],
+    ]);
+  });
+
+  it('should process games in schedule order for streaks', () => {
+    const result = calculateStandings(
+      'season-1',
+      ['team-1', 'team-2'],
+      [game('game-2', '2024-01-20', 1, 0), game('game-1', '2024-01-13', 0, 2)],
+      resolvePointsRules()
+    );
+
+    expect(result[0]).toMatchObject({ wins: 1, losses: 1, goals_for: 1, goals_against: 2, streak: 'W1' });
+    expect(result[1]).toMatchObject({ wins: 1, losses: 1, goal_differential: 1, streak: 'L1' });
+  });
+});
+
+describe('applyGameToStandings', () => {
+  const seasonId = 'season-456';
+
+  const standingRow = (teamId: string, overrides: Record<string, unknown> = {}) => ({
+    id: `standing-${teamId}`,
+    season_id: seasonId,
+    team_id: teamId,
+    games_played: 4,
+    wins: 2,
+    losses: 2,
+    ties: 0,
+    ot_losses: 0,
+    bonus_points: 0,
+    points: 6,
+    goals_for: 10,
+    goals_against: 9,
+    goal_differential: 1,
+    streak: null,
+    created_at: new Date('2024-01-01'),
+    updated_at: new Date('2024-01-01'),
+    ...overrides,
+  });
+
+  const finalGame = (overrides: Partial<Game> = {}): Game => ({
+    id: 'game-1',
+    season_id: seasonId,
+    home_team_id: 'team-1',
+    away_team_id: 'team-2',
+    scheduled_at: new Date('2024-01-15'),
+    status: GameStatus.FINAL,
+    home_score: 4,
+    away_score: 1,
+    decided_in: GameDecision.REGULATION,
+    created_at: new Date(),
+    updated_at: new Date(),
+    ...overrides,
+  });
+
+  const win = { home_team_id: 'team-1', away_team_id: 'team-2', home_score: 4, away_score: 1 };
+
+  const mockClient = (
+    rows: ReturnType<typeof standingRow>[],
+    pointsRules = {},
+    games: typeof win[] = [win]
+  ) => {
+    const query = jest.fn()
+      .mockResolvedValueOnce({ rows: [{ league_id: 'league-789', points_rules: pointsRules }] })
+      .mockResolvedValueOnce({ rows: [] })
+      .mockResolvedValueOnce({ rows })
+      .mockResolvedValueOnce({ rows: games })
+      .mockResolvedValue({ rows: [] });
+    return { client: { query } as unknown as PoolClient, query };
+  };
+
+  it('should apply only the game\'s delta to both teams', async () => {
+    const { client, query } = mockClient(
+      [standingRow('team-1', { streak: 'W2' }), standingRow('team-2', { streak: 'W1' })],
+      {},
+      [
+        { home_team_id: 'team-1', away_team_id: 'team-3', home_score: 2, away_score: 0 },
+        { home_team_id: 'team-2', away_team_id: 'team-3', home_score: 5, away_score: 1 },
+        { home_team_id: 'team-3', away_team_id: 'team-1', home_score: 1, away_score: 3 },
+        win,
+      ]
+    );
+
+    await applyGameToStandings(client, finalGame());
+
+    expect(query.mock.calls[1][0]).toContain('ON CONFLICT (season_id, team_id) DO NOTHING');
+    expect(query.mock.calls[1][1]).toEqual([seasonId, 'league-789']);
+    expect(query.mock.calls[2][0]).toContain('FOR UPDATE');
+    expect(query.mock.calls[2][1]).toEqual([seasonId, ['team-1', 'team-2']]);
+    expect(query.mock.calls[3][0]).toContain('ORDER BY g.scheduled_at');
+    expect(query.mock.calls[3][1]).toEqual([seasonId, GameStatus.FINAL, 'league-789', ['team-1', 'team-2']]);
+
+    const updates = query.mock.calls.slice(4);
+    expect(updates).toHaveLength(2);
+    expect(updates[0][0]).toContain('UPDATE standings');
+    // season, team, games_played, wins, losses, ties, ot_losses, bonus, points, gf, ga, gd, streak
+    expect(updates[0][1]).toEqual([seasonId, 'team-1', 5, 3, 2, 0, 0, 0, 9, 14, 10, 4, 'W3']);
+    expect(updates[1][1]).toEqual([seasonId, 'team-2', 5, 2, 3, 0, 0, 0, 6, 11, 13, -2, 'L1']);
+  });
+
+  it('should cap streaks at the recent results window', async () => {
+    const { client, query } = mockClient(
+      [standingRow('team-1', { streak: 'W10' }), standingRow('team-2')],
+      {},
+      Array(11).fill(win)
+    );
+
+    await applyGameToStandings(client, finalGame());
+
+    expect(query.mock.calls[4][1][12]).toBe('W10');
+  });
+
+  it('should place a game finalized out of schedule order where it was played', async () => {
+    // The game was scheduled before team-1's later loss, but finalized after it
+    const { client, query } = mockClient(
+      [standingRow('team-1', { streak: 'L1' }), standingRow('team-2')],
+      {},
+      [win, { home_team_id: 'team-3', away_team_id: 'team-1', home_score: 2, away_score: 1 }]
+    );
+
+    await applyGameToStandings(client, finalGame());
+
+    expect(query.mock.calls[4][1][12]).toBe('L1');
+    expect(query.mock.calls[5][1][12]).toBe('L1');
+  });
+
+  it('should apply the season\'s points rules', async () => {
+    const { client, query } = mockClient(
+      [standingRow('team-1'), standingRow('team-2')],
+      { overtime_win: 2, overtime_loss: 1 }
+    );
+
+    await applyGameToStandings(client, finalGame({ decided_in: GameDecision.OVERTIME }));
+
+    expect(query.mock.calls[4][1].slice(2, 9)).toEqual([5, 3, 2, 0, 0, 0, 8]);
+    expect(query.mock.calls[5][1].slice(2, 9)).toEqual([5, 2, 2, 0, 1, 0, 7]);
+  });
+
+  it('should leave standings unchanged for a tie the rules don\'t allow', async () => {
+    const { client, query } = mockClient(
+      [standingRow('team-1'), standingRow('team-2')],
+      { allow_ties: false }
+    );
+
+    await applyGameToStandings(client, finalGame({ home_score: 2, away_score: 2 }));
+
+    expect(query).toHaveBeenCalledTimes(3);
+  });
+
+  it('should ignore playoff games', async () => {
+    const { client, query } = mockClient([]);
+
+    await applyGameToStandings(client, finalGame({ bracket_series_id: 'series-1', series_game_number: 1 }));
+
+    expect(query).not.toHaveBeenCalled();
+  });
 });
@@ -0,0 +1,181 @@
+/**
+ * Standings Ranking Tests
+ *
+ * Unit tests for ordering standings by points and the tiebreaker chain.
+ */
+
+import { describe, it, expect } from '@jest/globals';
+import { rankStandings } from '../../src/utils/standings-ranking';
+import { Game, GameStatus } from '../../src/models/game';
+import {
+  TeamStanding,
+  DEFAULT_TIEBREAKERS,
+  resolvePointsRules,
+} from '../../src/models/standing';
+
+const seasonId = 'season-123';
+const rules = resolvePointsRules();
+
+const standing = (
+  teamId: string,
+  points: number,
+  overrides: Partial<TeamStanding> = {}
+): TeamStanding => ({
+  id: `standing-${teamId}`,
+  season_id: seasonId,
+  team_id: teamId,
+  games_played: 10,
+  wins: 5,
+  losses: 5,
+  ties: 0,
+  ot_losses: 0,
+  bonus_points: 0,
+  points,
+  goals_for: 20,
+  goals_against: 20,
+  goal_differential: 0,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-15'),
+  ...overrides,
+});
+
+const game = (
+  homeTeamId: string,
+  awayTeamId: string,
+  homeScore: number,
+  awayScore: number,
+  status: GameStatus = GameStatus.FINAL
+): Game => ({
+  id: `game-${homeTeamId}-${awayTeamId}`,
+  season_id: seasonId,
+  home_team_id: homeTeamId,
+  away_team_id: awayTeamId,
+  scheduled_at: new Date('2024-01-10T18:00:00Z'),
+  status,
+  home_score: homeScore,
+  away_score: awayScore,
+  created_at: new Date('2024-01-01'),
+  updated_at: new Date('2024-01-10'),
+});
+
+const order = (ranked: { team_id: string }[]): string[] => ranked.map(s => s.team_id);
+
+describe('rankStandings', () => {
+  it('should order by points with no tiebreaker when points differ', () => {
+    const ranked = rankStandings(
+      [standing('team-b', 12), standing('team-a', 18), standing('team-c', 6)],
+      [],
+      DEFAULT_TIEBREAKERS,
+      rules
+    );
+
+    expect(order(ranked)).toEqual(['team-a', 'team-b', 'team-c']);
+    expect(ranked.map(s => s.rank)).toEqual([1, 2, 3]);
+    expect(ranked.map(s => s.tiebreaker)).toEqual([null, null, null]);
+  });
+
+  it('should separate teams level on points by head-to-head first', () => {
+    const ranked = rankStandings(
+      [
+        standing('team-a', 15, { goal_differential: 10 }),
+        standing('team-b', 15, { goal_differential: -2 }),
+      ],
+      [game('team-a', 'team-b', 1, 3)],
+      DEFAULT_TIEBREAKERS,
+      rules
+    );
+
+    expect(order(ranked)).toEqual(['team-b', 'team-a']);
+    expect(ranked.map(s => s.tiebreaker)).toEqual(['head_to_head', 'head_to_head']);
+  });
+
+  it('should ignore games that are not final for head-to-head', () => {
+    const ranked = rankStandings(
+      [
+        standing('team-a', 15, { wins: 5 }),
+        standing('team-b', 15, { wins: 4 }),
+      ],
+      [game('team-a', 'team-b', 0, 2, GameStatus.LIVE)],
+      DEFAULT_TIEBREAKERS,
+      rules
+    );
+
+    expect(order(ranked)).toEqual(['team-a', 'team-b']);
+    expect(ranked[0].tiebreaker).toBe('wins');
+  });
+
+  it('should move down the chain when a tiebreaker does not separate the teams', () => {
+    const ranked = rankStandings(
+      [
+        standing('team-a', 15, { goal_differential: 4, goals_for: 20 }),
+        standing('team-b', 15, { goal_differential: 4, goals_for: 24 }),
+        standing('team-c', 15, { goal_differential: 6 }),
+      ],
+      [],
+      DEFAULT_TIEBREAKERS,
+      rules
+    );
+
+    expect(order(ranked)).toEqual(['team-c', 'team-b', 'team-a']);
+    expect(ranked.map(s => s.tiebreaker)).toEqual([
+      'goal_differential',
+      'goals_for',
+      'goals_for',
+    ]);
+  });
+
+  it('should restart the chain for teams still level, counting only their games', () => {
+    // team-b beat team-a, but once team-a is separated by wins only the
+    // team-b/team-c game counts for head-to-head
+    const ranked = rankStandings(
+      [
+        standing('team-a', 15, { wins: 5 }),
+        standing('team-b', 15, { wins: 4 }),
+        standing('team-c', 15, { wins: 4 }),
+      ],
+      [game('team-a', 'team-b', 1, 2), game('team-b', 'team-c', 0, 1)],
+      ['wins', 'head_to_head'],
+      rules
+    );
+
+    expect(order(ranked)).toEqual(['team-a', 'team-c', 'team-b']);
+    expect(ranked.map(s => s.tiebreaker)).toEqual(['wins', 'head_to_head', 'head_to_head']);
+  });
+
+  it('should rank fewer goals against first', () => {
+    const ranked = rankStandings(
+      [
+        standing('team-a', 15, { goals_against: 22 }),
+        standing('team-b', 15, { goals_against: 18 }),
+      ],
+      [],
+      ['goals_against'],
+      rules
+    );
+
+    expect(order(ranked)).toEqual(['team-b', 'team-a']);
+    expect(ranked[0].tiebreaker).toBe('goals_against');
+  });
+
+  it('should fall back to a deterministic draw', () => {
+    const standings = ['team-a', 'team-b', 'team-c', 'team-d'].map(id => standing(id, 15));
+
+    const first = rankStandings(standings, [], ['wins'], rules);
+    const second = rankStandings([...standings].reverse(), [], ['wins'], rules);
+
+    expect(order(first)).toEqual(order(second));
+    expect(first.map(s => s.tiebreaker)).toEqual(['draw', 'draw', 'draw', 'draw']);
+    expect(first.map(s => s.rank)).toEqual([1, 2, 3, 4]);
+  });
+
+  it('should stop at the draw when it is configured before other tiebreakers', () => {
+    const ranked = rankStandings(
+      [standing('team-a', 15, { wins: 9 }), standing('team-b', 15, { wins: 1 })],
+      [],
+      ['draw', 'wins'],
+      rules
+    );
+
+    expect(ranked.map(s => s.tiebreaker)).toEqual(['draw', 'draw']);
+  });
+});